@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { AIUsageService } from '../services/AIUsageService.js';
+import type { AIOutboundRequestRepository } from '../infra/repositories/AIOutboundRequestRepository.js';
+import type { JobService } from '../services/JobService.js';
+
+const DEFAULT_USAGE_MONTHS = 6;
+const MAX_USAGE_MONTHS = 24;
+
+function parseMonths(value: unknown): number {
+  if (value === undefined || value === '') return DEFAULT_USAGE_MONTHS;
+  const months = Number(value);
+  if (!Number.isInteger(months) || months < 1 || months > MAX_USAGE_MONTHS) {
+    throw new ValidationError(`months must be an integer between 1 and ${MAX_USAGE_MONTHS}`);
+  }
+  return months;
+}
+
+/**
+ * AI usage routes - token counts, estimated cost and response validity of AI calls
+ */
+export function createAIUsageRouter(deps: {
+  aiUsageService: AIUsageService;
+  aiOutboundRequestRepo: AIOutboundRequestRepository;
+  jobService: JobService;
+}): Router {
+  const router = Router();
+
+  /**
+   * GET /api/ai-usage?months=6 - Monthly totals (newest first) and this month's spend vs the cap
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const months = parseMonths(req.query.months);
+      res.json({
+        months: deps.aiUsageService.getMonthlyUsage(months),
+        spending: deps.aiUsageService.getSpendingStatus(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/ai-usage/validation - Per-backend share of responses that failed schema validation
+   */
+  router.get('/validation', (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ backends: deps.aiUsageService.getValidationStats() });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/ai-usage/jobs/:jobId - Usage of one job, overall and per call site
+   */
+  router.get('/jobs/:jobId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { jobId } = req.params;
+      deps.jobService.getJob(jobId); // 404 for unknown jobs
+      res.json({ usage: deps.aiUsageService.getJobUsage(jobId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/ai-usage/jobs/:jobId/requests - Text sent to AI backends for one job, as redacted
+   */
+  router.get('/jobs/:jobId/requests', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { jobId } = req.params;
+      deps.jobService.getJob(jobId); // 404 for unknown jobs
+      res.json({ requests: deps.aiOutboundRequestRepo.listByJob(jobId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -73,6 +73,24 @@ export function createBudgetRouter(deps: {
     }
   });
 
+  /**
+   * GET /api/budgets/accounts - Get open on-budget accounts from the current budget
+   */
+  router.get('/accounts', async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const accounts = await actualBudget.getAccounts();
+
+      res.json({
+        accounts: accounts.map((a) => ({
+          id: a.id,
+          name: a.name,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * GET /api/budgets/templates - List categories with goal templates
    */
@@ -105,10 +123,9 @@ export function createBudgetRouter(deps: {
       const schedules = await actualBudget.getSchedules();
 
       res.json({
-        schedules: schedules.map((schedule) => ({
-          id: schedule.id,
-          name: schedule.name,
-        })),
+        schedules: schedules.flatMap((schedule) =>
+          schedule.name ? [{ id: schedule.id, name: schedule.name }] : []
+        ),
       });
     } catch (error) {
       next(error);
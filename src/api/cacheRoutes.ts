@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { CacheService } from '../services/CacheService.js';
+
+function parseEntryId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new ValidationError('id must be a positive integer');
+  }
+  return id;
+}
+
+function requireBudgetId(value: unknown, location: 'query parameter' | 'in request body'): string {
+  if (!value || typeof value !== 'string') {
+    throw new ValidationError(`budgetId ${location} is required`);
+  }
+  return value;
+}
+
+/**
+ * Cache routes - inspect and correct the learned payee→category and payee match mappings
+ */
+export function createCacheRouter(cacheService: CacheService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/cache/categories?budgetId=xxx&search=&source=&limit=&offset=
+   * List payee→category cache entries, pinned first then most used
+   */
+  router.get('/categories', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, search, source, limit, offset } = req.query;
+      res.json(
+        cacheService.listCategoryEntries(requireBudgetId(budgetId, 'query parameter'), {
+          search,
+          source,
+          limit,
+          offset,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /api/cache/categories/:id - Change the category and/or pin an entry
+   * Body: any of { categoryId, pinned }
+   */
+  router.patch('/categories/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { categoryId, pinned } = req.body;
+      const entry = await cacheService.updateCategoryEntry(parseEntryId(req.params.id), {
+        categoryId,
+        pinned,
+      });
+      res.json({ entry });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/cache/categories/:id - Forget one payee→category mapping
+   */
+  router.delete('/categories/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      cacheService.deleteCategoryEntry(parseEntryId(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/cache/categories/clear - Bulk-delete entries
+   * Body: { budgetId, source?, includePinned? }
+   */
+  router.post('/categories/clear', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, source, includePinned } = req.body;
+      const deleted = cacheService.clearCategoryEntries(
+        requireBudgetId(budgetId, 'in request body'),
+        { source, includePinned }
+      );
+      res.json({ deleted });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/cache/payee-matches?budgetId=xxx&search=&source=&limit=&offset=
+   * List raw payee → canonical payee cache entries
+   */
+  router.get('/payee-matches', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, search, source, limit, offset } = req.query;
+      res.json(
+        cacheService.listPayeeMatchEntries(requireBudgetId(budgetId, 'query parameter'), {
+          search,
+          source,
+          limit,
+          offset,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /api/cache/payee-matches/:id - Change the canonical payee and/or pin an entry
+   * Body: any of { canonicalPayeeId, canonicalPayeeName, pinned }
+   */
+  router.patch('/payee-matches/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { canonicalPayeeId, canonicalPayeeName, pinned } = req.body;
+      const entry = await cacheService.updatePayeeMatchEntry(parseEntryId(req.params.id), {
+        canonicalPayeeId,
+        canonicalPayeeName,
+        pinned,
+      });
+      res.json({ entry });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/cache/payee-matches/:id - Forget one payee match
+   */
+  router.delete('/payee-matches/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      cacheService.deletePayeeMatchEntry(parseEntryId(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/cache/payee-matches/clear - Bulk-delete entries
+   * Body: { budgetId, source?, includePinned? }
+   */
+  router.post('/payee-matches/clear', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, source, includePinned } = req.body;
+      const deleted = cacheService.clearPayeeMatchEntries(
+        requireBudgetId(budgetId, 'in request body'),
+        { source, includePinned }
+      );
+      res.json({ deleted });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
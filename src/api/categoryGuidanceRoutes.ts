@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { CategoryGuidanceService } from '../services/CategoryGuidanceService.js';
+
+/**
+ * Category guidance routes - per-budget category descriptions and guardrails used by category
+ * prompts
+ */
+export function createCategoryGuidanceRouter(
+  categoryGuidanceService: CategoryGuidanceService
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/category-guidance?budgetId=xxx - Category guidance and account allowlists
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({
+        guidance: categoryGuidanceService.listGuidance(budgetId),
+        allowlists: categoryGuidanceService.listAllowlists(budgetId),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/category-guidance/categories/:categoryId - Describe a category
+   * Body: { budgetId, description?, examplePayees?, neverSuggestFor? }
+   */
+  router.put('/categories/:categoryId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, description, examplePayees, neverSuggestFor } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const guidance = categoryGuidanceService.setGuidance(budgetId, req.params.categoryId, {
+        description,
+        examplePayees,
+        neverSuggestFor,
+      });
+      res.json({ guidance });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/category-guidance/categories/:categoryId?budgetId=xxx - Remove guidance
+   */
+  router.delete('/categories/:categoryId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      categoryGuidanceService.clearGuidance(budgetId, req.params.categoryId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/category-guidance/accounts/:accountId - Restrict an account to some categories
+   * Body: { budgetId, categoryIds }
+   */
+  router.put('/accounts/:accountId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, categoryIds } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const allowlist = categoryGuidanceService.setAllowlist(
+        budgetId,
+        req.params.accountId,
+        categoryIds
+      );
+      res.json({ allowlist });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/category-guidance/accounts/:accountId?budgetId=xxx - Allow every category again
+   */
+  router.delete('/accounts/:accountId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      categoryGuidanceService.clearAllowlist(budgetId, req.params.accountId);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,22 +1,77 @@
 import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
 import type { AICapabilities } from '../infra/ai/AIAdapter.js';
+import type { ModelRoutingService } from '../services/ModelRoutingService.js';
 
 export function createConfigRouter(deps: {
   aiConfigured: boolean;
   aiBackend: string;
   aiCapabilities: AICapabilities;
+  modelRoutingService: ModelRoutingService;
 }): Router {
   const router = Router();
 
-  router.get('/', (_req, res) => {
-    res.json({
-      // New AI backend info
-      aiConfigured: deps.aiConfigured,
-      aiBackend: deps.aiBackend,
-      aiCapabilities: deps.aiCapabilities,
-      // Backward compatibility (deprecated)
-      openaiConfigured: deps.aiConfigured,
-    });
+  /**
+   * GET /api/config?budgetId=xxx - App configuration
+   * aiRoutes lists the backend and model used for each prompt; budgetId applies its overrides
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const budgetId = typeof req.query.budgetId === 'string' ? req.query.budgetId : null;
+
+      res.json({
+        // New AI backend info
+        aiConfigured: deps.aiConfigured,
+        aiBackend: deps.aiBackend,
+        aiCapabilities: deps.aiCapabilities,
+        aiRoutes: deps.modelRoutingService.listRoutes(budgetId),
+        // Backward compatibility (deprecated)
+        openaiConfigured: deps.aiConfigured,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/config/routes/:task - Override backend and/or model of a prompt for a budget
+   * Body: { budgetId, backend?, model? }
+   */
+  router.put('/routes/:task', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, backend, model } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const route = deps.modelRoutingService.setBudgetRoute(budgetId, req.params.task, {
+        backend,
+        model,
+      });
+      res.json({ route });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/config/routes/:task?budgetId=xxx - Remove a budget override
+   */
+  router.delete('/routes/:task', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      const route = deps.modelRoutingService.clearBudgetRoute(budgetId, req.params.task);
+      res.json({ route });
+    } catch (error) {
+      next(error);
+    }
   });
 
   return router;
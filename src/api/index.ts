@@ -8,14 +8,33 @@ import { createJobRouter } from './jobRoutes.js';
 import { createJobEventsRouter } from './jobEventsRoutes.js';
 import { createPayeeRouter } from './payeeRoutes.js';
 import { createConfigRouter } from './configRoutes.js';
+import { createPolicyRouter } from './policyRoutes.js';
+import { createCategoryGuidanceRouter } from './categoryGuidanceRoutes.js';
+import { createPromptTemplateRouter } from './promptTemplateRoutes.js';
+import { createTransferRouter } from './transferRoutes.js';
+import { createRecurringPaymentRouter } from './recurringPaymentRoutes.js';
+import { createCacheRouter } from './cacheRoutes.js';
+import { createAIUsageRouter } from './aiUsageRoutes.js';
+import { createScheduleRouter } from './scheduleRoutes.js';
 import type { SuggestionService } from '../services/SuggestionService.js';
 import type { SyncService } from '../services/SyncService.js';
 import type { JobService } from '../services/JobService.js';
 import type { JobOrchestrator } from '../services/JobOrchestrator.js';
 import type { JobEventBus } from '../services/JobEventBus.js';
+import type { JobScheduleService } from '../services/JobScheduleService.js';
+import type { JobScheduler } from '../scheduler/JobScheduler.js';
 import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { AIOutboundRequestRepository } from '../infra/repositories/AIOutboundRequestRepository.js';
 import type { ActualBudgetAdapter } from '../infra/ActualBudgetAdapter.js';
 import type { PayeeMergeService } from '../services/PayeeMergeService.js';
+import type { AutoApproveService } from '../services/AutoApproveService.js';
+import type { CategoryGuidanceService } from '../services/CategoryGuidanceService.js';
+import type { PromptTemplateService } from '../services/PromptTemplateService.js';
+import type { TransferService } from '../services/TransferService.js';
+import type { RecurringPaymentService } from '../services/RecurringPaymentService.js';
+import type { CacheService } from '../services/CacheService.js';
+import type { ModelRoutingService } from '../services/ModelRoutingService.js';
+import type { AIUsageService } from '../services/AIUsageService.js';
 import type { AICapabilities } from '../infra/ai/AIAdapter.js';
 
 /**
@@ -29,9 +48,20 @@ export function createApiRouter(deps: {
   jobService: JobService;
   jobOrchestrator: JobOrchestrator;
   jobEventBus: JobEventBus;
+  jobScheduleService: JobScheduleService;
+  jobScheduler: JobScheduler;
   auditRepo: AuditRepository;
   actualBudget: ActualBudgetAdapter;
   payeeMergeService: PayeeMergeService;
+  autoApproveService: AutoApproveService;
+  categoryGuidanceService: CategoryGuidanceService;
+  promptTemplateService: PromptTemplateService;
+  transferService: TransferService;
+  recurringPaymentService: RecurringPaymentService;
+  cacheService: CacheService;
+  modelRoutingService: ModelRoutingService;
+  aiUsageService: AIUsageService;
+  aiOutboundRequestRepo: AIOutboundRequestRepository;
   defaultBudgetId: string | null;
   aiConfigured: boolean;
   aiBackend: string;
@@ -54,6 +84,7 @@ export function createApiRouter(deps: {
   router.use('/sync', createSyncRouter(deps.syncService, deps.jobOrchestrator));
   router.use('/jobs', createJobRouter(deps.jobService, deps.jobOrchestrator));
   router.use('/job-events', createJobEventsRouter(deps.jobEventBus));
+  router.use('/schedules', createScheduleRouter(deps.jobScheduleService, deps.jobScheduler));
   router.use(
     '/payees',
     createPayeeRouter({
@@ -63,13 +94,31 @@ export function createApiRouter(deps: {
       defaultBudgetId: deps.defaultBudgetId,
     })
   );
+  router.use('/policies', createPolicyRouter(deps.autoApproveService));
+  router.use('/category-guidance', createCategoryGuidanceRouter(deps.categoryGuidanceService));
+  router.use(
+    '/prompt-templates',
+    createPromptTemplateRouter(deps.promptTemplateService, deps.suggestionService)
+  );
+  router.use('/transfers', createTransferRouter(deps.transferService));
+  router.use('/subscriptions', createRecurringPaymentRouter(deps.recurringPaymentService));
+  router.use('/cache', createCacheRouter(deps.cacheService));
   router.use('/audit', createAuditRouter(deps.auditRepo));
+  router.use(
+    '/ai-usage',
+    createAIUsageRouter({
+      aiUsageService: deps.aiUsageService,
+      aiOutboundRequestRepo: deps.aiOutboundRequestRepo,
+      jobService: deps.jobService,
+    })
+  );
   router.use(
     '/config',
     createConfigRouter({
       aiConfigured: deps.aiConfigured,
       aiBackend: deps.aiBackend,
       aiCapabilities: deps.aiCapabilities,
+      modelRoutingService: deps.modelRoutingService,
     })
   );
 
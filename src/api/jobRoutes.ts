@@ -3,9 +3,28 @@ import type { Request, Response, NextFunction } from 'express';
 import type { JobService } from '../services/JobService.js';
 import type { JobOrchestrator } from '../services/JobOrchestrator.js';
 import type { Job } from '../domain/entities/Job.js';
+import type { JobStep } from '../domain/entities/JobStep.js';
 import { ValidationError } from '../domain/errors.js';
+import {
+  MAX_BACKTEST_SAMPLE_SIZE,
+  MAX_RECATEGORIZE_LOOKBACK_DAYS,
+} from '../services/SuggestionService.js';
+import { MAX_TRANSFER_WINDOW_DAYS } from '../domain/entities/TransferSuggestion.js';
 import { mapJobToResponse, mapStepToResponse } from './jobMapper.js';
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+function parseIdempotencyKey(value: string | undefined): string | null {
+  if (value === undefined) return null;
+  const key = value.trim();
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new ValidationError(
+      `Idempotency-Key header must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+    );
+  }
+  return key;
+}
+
 /**
  * Jobs route handler
  * P5 (Separation of concerns): HTTP layer delegates to services
@@ -13,6 +32,32 @@ import { mapJobToResponse, mapStepToResponse } from './jobMapper.js';
 export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrchestrator): Router {
   const router = Router();
 
+  /**
+   * Start a job and reply 201, or reply 200 with the job an earlier request carrying the same
+   * Idempotency-Key header created, so retried requests never start a second job; reusing a key
+   * for a different request is a conflict
+   */
+  const respondWithJob = (
+    req: Request,
+    res: Response,
+    budgetId: string,
+    start: () => { job: Job; steps?: JobStep[] }
+  ): void => {
+    const idempotencyKey = parseIdempotencyKey(req.get('Idempotency-Key'));
+    if (!idempotencyKey) {
+      const { job, steps = [] } = start();
+      res.status(201).json({ job: mapJobToResponse(job), steps: steps.map(mapStepToResponse) });
+      return;
+    }
+
+    const { result, replayed } = jobService.withIdempotencyKey(budgetId, idempotencyKey, start);
+    const steps = replayed ? jobService.listJobSteps(result.job.id) : (result.steps ?? []);
+    res.status(replayed ? 200 : 201).json({
+      job: mapJobToResponse(result.job),
+      steps: steps.map(mapStepToResponse),
+    });
+  };
+
   /**
    * GET /api/jobs?budgetId=xxx&status=...&type=...&limit=...
    */
@@ -52,6 +97,36 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
     }
   });
 
+  /**
+   * POST /api/jobs/:jobId/cancel
+   * Queued jobs are canceled at once; running jobs stop at their next checkpoint
+   */
+  router.post('/:jobId/cancel', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const job = jobOrchestrator.cancelJob(req.params.jobId);
+      res.json({ job: mapJobToResponse(job) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/jobs/:jobId/retry
+   * Queues a failed or canceled job again as a new job; body: { fromFailedStep? }
+   */
+  router.post('/:jobId/retry', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { fromFailedStep } = req.body ?? {};
+      const { budgetId } = jobService.getJob(req.params.jobId);
+
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.retryJob(req.params.jobId, { fromFailedStep: fromFailedStep === true })
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * POST /api/jobs/sync
    * Legacy alias for /api/jobs/budget-sync
@@ -64,8 +139,7 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startBudgetSyncJob(budgetId);
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () => jobOrchestrator.startBudgetSyncJob(budgetId));
     } catch (error) {
       next(error);
     }
@@ -83,11 +157,12 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startSuggestionsGenerateJob({
-        budgetId,
-        useAI: useAI === true,
-      });
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSuggestionsGenerateJob({
+          budgetId,
+          useAI: useAI === true,
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -105,15 +180,13 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startSyncAndSuggestJob({
-        budgetId,
-        fullResync: fullResync === true,
-        useAI: useAI === true,
-      });
-      res.status(201).json({
-        job: mapJobToResponse(result.job),
-        steps: result.steps.map(mapStepToResponse),
-      });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSyncAndSuggestJob({
+          budgetId,
+          fullResync: fullResync === true,
+          useAI: useAI === true,
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -130,8 +203,7 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startBudgetSyncJob(budgetId);
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () => jobOrchestrator.startBudgetSyncJob(budgetId));
     } catch (error) {
       next(error);
     }
@@ -148,11 +220,12 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startSuggestionsGenerateJob({
-        budgetId,
-        useAI: useAI === true,
-      });
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSuggestionsGenerateJob({
+          budgetId,
+          useAI: useAI === true,
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -169,15 +242,13 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startSyncAndSuggestJob({
-        budgetId,
-        fullResync: fullResync === true,
-        useAI: useAI === true,
-      });
-      res.status(201).json({
-        job: mapJobToResponse(result.job),
-        steps: result.steps.map(mapStepToResponse),
-      });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSyncAndSuggestJob({
+          budgetId,
+          fullResync: fullResync === true,
+          useAI: useAI === true,
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -198,12 +269,13 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('suggestionId is required in request body');
       }
 
-      const result = jobOrchestrator.startSuggestionsRetryJob({
-        budgetId,
-        suggestionId,
-        useAI: useAI === true,
-      });
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSuggestionsRetryJob({
+          budgetId,
+          suggestionId,
+          useAI: useAI === true,
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -224,8 +296,133 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('suggestionIds array is required');
       }
 
-      const result = jobOrchestrator.startSuggestionsApplyJob(budgetId, suggestionIds);
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSuggestionsApplyJob(budgetId, suggestionIds)
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/jobs/suggestions-backtest
+   */
+  router.post('/suggestions-backtest', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, sampleSize, useAI } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const parsedSampleSize = sampleSize === undefined ? 100 : Number(sampleSize);
+      if (
+        !Number.isInteger(parsedSampleSize) ||
+        parsedSampleSize < 1 ||
+        parsedSampleSize > MAX_BACKTEST_SAMPLE_SIZE
+      ) {
+        throw new ValidationError(
+          `sampleSize must be an integer between 1 and ${MAX_BACKTEST_SAMPLE_SIZE}`
+        );
+      }
+
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSuggestionsBacktestJob({
+          budgetId,
+          sampleSize: parsedSampleSize,
+          useAI: useAI === true,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/jobs/suggestions-recategorize
+   * Flags already-categorized transactions that disagree with their payee's history
+   */
+  router.post('/suggestions-recategorize', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, lookbackDays } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const parsedLookbackDays = lookbackDays === undefined ? undefined : Number(lookbackDays);
+      if (
+        parsedLookbackDays !== undefined &&
+        (!Number.isInteger(parsedLookbackDays) ||
+          parsedLookbackDays < 1 ||
+          parsedLookbackDays > MAX_RECATEGORIZE_LOOKBACK_DAYS)
+      ) {
+        throw new ValidationError(
+          `lookbackDays must be an integer between 1 and ${MAX_RECATEGORIZE_LOOKBACK_DAYS}`
+        );
+      }
+
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startRecategorizationReviewJob({
+          budgetId,
+          lookbackDays: parsedLookbackDays,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/jobs/transfers-detect
+   * Pairs uncategorized transactions with opposite amounts across our own accounts
+   */
+  router.post('/transfers-detect', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, windowDays } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const parsedWindowDays = windowDays === undefined ? undefined : Number(windowDays);
+      if (
+        parsedWindowDays !== undefined &&
+        (!Number.isInteger(parsedWindowDays) ||
+          parsedWindowDays < 0 ||
+          parsedWindowDays > MAX_TRANSFER_WINDOW_DAYS)
+      ) {
+        throw new ValidationError(
+          `windowDays must be an integer between 0 and ${MAX_TRANSFER_WINDOW_DAYS}`
+        );
+      }
+
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startTransferDetectionJob({
+          budgetId,
+          windowDays: parsedWindowDays,
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/jobs/recurring-detect
+   * Finds recurring payments and subscriptions in the transaction history
+   */
+  router.post('/recurring-detect', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startRecurringDetectionJob(budgetId)
+      );
     } catch (error) {
       next(error);
     }
@@ -264,14 +461,15 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('aiMinClusterSize must be a number >= 2');
       }
 
-      const result = jobOrchestrator.startPayeeMergeSuggestionsJob({
-        budgetId,
-        minScore: parsedMinScore,
-        useAI: useAI === true,
-        force: force === true,
-        aiMinClusterSize: parsedMinClusterSize,
-      });
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startPayeeMergeSuggestionsJob({
+          budgetId,
+          minScore: parsedMinScore,
+          useAI: useAI === true,
+          force: force === true,
+          aiMinClusterSize: parsedMinClusterSize,
+        })
+      );
     } catch (error) {
       next(error);
     }
@@ -288,8 +486,7 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startSnapshotCreateJob(budgetId);
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () => jobOrchestrator.startSnapshotCreateJob(budgetId));
     } catch (error) {
       next(error);
     }
@@ -306,8 +503,9 @@ export function createJobRouter(jobService: JobService, jobOrchestrator: JobOrch
         throw new ValidationError('budgetId is required in request body');
       }
 
-      const result = jobOrchestrator.startSnapshotRedownloadJob(budgetId);
-      res.status(201).json({ job: mapJobToResponse(result.job), steps: [] });
+      respondWithJob(req, res, budgetId, () =>
+        jobOrchestrator.startSnapshotRedownloadJob(budgetId)
+      );
     } catch (error) {
       next(error);
     }
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { AutoApproveService } from '../services/AutoApproveService.js';
+
+/**
+ * Auto-approve policy routes - per-budget rules applied after suggestion generation
+ */
+export function createPolicyRouter(autoApproveService: AutoApproveService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/policies?budgetId=xxx - List auto-approve policies for a budget
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ policies: autoApproveService.listPolicies(budgetId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/policies - Create a policy
+   * Body: { budgetId, name, action, conditions?, enabled? }
+   */
+  router.post('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, name, action, conditions, enabled } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const policy = autoApproveService.createPolicy(budgetId, {
+        name,
+        action,
+        conditions,
+        enabled,
+      });
+      res.status(201).json({ policy });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /api/policies/:id - Update a policy
+   * Body: any of { name, action, conditions, enabled }; conditions are replaced as a whole
+   */
+  router.patch('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, action, conditions, enabled } = req.body;
+      const policy = autoApproveService.updatePolicy(req.params.id, {
+        name,
+        action,
+        conditions,
+        enabled,
+      });
+      res.json({ policy });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/policies/:id - Delete a policy
+   */
+  router.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      autoApproveService.deletePolicy(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { PromptTemplateService } from '../services/PromptTemplateService.js';
+import type { SuggestionService } from '../services/SuggestionService.js';
+
+/**
+ * Prompt template routes - per-budget, versioned instructions for the suggestion prompts
+ */
+export function createPromptTemplateRouter(
+  promptTemplateService: PromptTemplateService,
+  suggestionService: SuggestionService
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/prompt-templates?budgetId=xxx - Templates in effect, with the built-in text
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ templates: promptTemplateService.listTemplates(budgetId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/prompt-templates/:name/versions?budgetId=xxx - Saved versions, newest first
+   */
+  router.get('/:name/versions', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ versions: promptTemplateService.listVersions(budgetId, req.params.name) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/prompt-templates/:name - Save new instructions as the next version
+   * Body: { budgetId, instructions }
+   */
+  router.put('/:name', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, instructions } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const template = promptTemplateService.saveTemplate(budgetId, req.params.name, instructions);
+      res.json({ template });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/prompt-templates/:name?budgetId=xxx - Go back to the built-in instructions
+   */
+  router.delete('/:name', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      const template = promptTemplateService.resetTemplate(budgetId, req.params.name);
+      res.json({ template });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/prompt-templates/:name/preview - Run draft instructions against sample payees
+   * Body: { budgetId, instructions, sampleSize? }
+   */
+  router.post('/:name/preview', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, instructions, sampleSize } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const samples = await suggestionService.previewPromptTemplate(
+        budgetId,
+        req.params.name,
+        instructions,
+        sampleSize === undefined ? undefined : Number(sampleSize)
+      );
+      res.json({ samples });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
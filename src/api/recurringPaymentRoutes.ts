@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { RecurringPaymentService } from '../services/RecurringPaymentService.js';
+
+/**
+ * Subscription routes - recurring payments found by the detection job
+ * Detection runs as a job (POST /api/jobs/recurring-detect)
+ */
+export function createRecurringPaymentRouter(
+  recurringPaymentService: RecurringPaymentService
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/subscriptions?budgetId=xxx - Latest detected recurring payments
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ payments: recurringPaymentService.listRecurringPayments(budgetId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/subscriptions/:id/schedule - Create the missing schedule in Actual Budget
+   */
+  router.post('/:id/schedule', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const payment = await recurringPaymentService.createSchedule(req.params.id);
+      res.status(201).json({ payment });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
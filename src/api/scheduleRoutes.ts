@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { JobScheduleService } from '../services/JobScheduleService.js';
+import type { JobScheduler } from '../scheduler/JobScheduler.js';
+
+/**
+ * Job schedule routes - cron schedules that start jobs for a budget, and their run history
+ */
+export function createScheduleRouter(
+  jobScheduleService: JobScheduleService,
+  jobScheduler: JobScheduler
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/schedules?budgetId=xxx - List schedules for a budget
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ schedules: jobScheduleService.listSchedules(budgetId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/schedules - Create a schedule
+   * Body: { budgetId, name, cronExpression, jobType, options?, enabled?, quietHoursStart?,
+   * quietHoursEnd? }
+   */
+  router.post('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId, ...input } = req.body;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId is required in request body');
+      }
+
+      const schedule = jobScheduleService.createSchedule(budgetId, input);
+      res.status(201).json({ schedule });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /api/schedules/:id - Update a schedule
+   * Body: any of the create fields except budgetId; options are replaced as a whole
+   */
+  router.patch('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, cronExpression, jobType, options, enabled, quietHoursStart, quietHoursEnd } =
+        req.body;
+      const schedule = jobScheduleService.updateSchedule(req.params.id, {
+        name,
+        cronExpression,
+        jobType,
+        options,
+        enabled,
+        quietHoursStart,
+        quietHoursEnd,
+      });
+      res.json({ schedule });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/schedules/:id - Delete a schedule and its run history
+   */
+  router.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      jobScheduleService.deleteSchedule(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/schedules/:id/runs?limit=50 - Recent runs with the jobs they started
+   */
+  router.get('/:id/runs', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 500)) {
+        throw new ValidationError('limit must be an integer between 1 and 500');
+      }
+
+      res.json({ runs: jobScheduleService.listRuns(req.params.id, limit) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/schedules/:id/run - Start the schedule's job now, ignoring quiet hours
+   */
+  router.post('/:id/run', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const run = jobScheduler.runNow(req.params.id);
+      res.status(201).json({ run });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
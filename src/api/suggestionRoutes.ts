@@ -4,6 +4,7 @@ import type { JobOrchestrator } from '../services/JobOrchestrator.js';
 import type { Request, Response, NextFunction } from 'express';
 import { ValidationError } from '../domain/errors.js';
 import type { Suggestion } from '../domain/entities/Suggestion.js';
+import type { PayeeRuleSuggestion } from '../domain/entities/PayeeRuleSuggestion.js';
 import type { Transaction } from '../domain/entities/BudgetSnapshot.js';
 
 /**
@@ -13,6 +14,7 @@ function mapSuggestionToResponse(s: Suggestion) {
   return {
     id: s.id,
     budgetId: s.budgetId,
+    kind: s.kind,
     transactionId: s.transactionId,
     transactionAccountId: s.transactionAccountId,
     transactionAccountName: s.transactionAccountName,
@@ -20,6 +22,7 @@ function mapSuggestionToResponse(s: Suggestion) {
     transactionAmount: s.transactionAmount,
     transactionDate: s.transactionDate,
     currentCategoryId: s.currentCategoryId,
+    currentCategoryName: s.currentCategoryName,
     currentPayeeId: s.currentPayeeId,
 
     // Payee suggestion
@@ -38,8 +41,12 @@ function mapSuggestionToResponse(s: Suggestion) {
       confidence: s.categorySuggestion?.confidence ?? s.confidence,
       rationale: s.categorySuggestion?.rationale ?? s.rationale,
       status: s.categorySuggestion?.status ?? 'pending',
+      source: s.categorySuggestion?.source ?? null,
     },
 
+    // Split suggestion (if the payee is usually split)
+    splitSuggestion: s.splitSuggestion ?? null,
+
     // Corrections (if any)
     correction: s.correction ?? {
       correctedPayeeId: null,
@@ -59,6 +66,25 @@ function mapSuggestionToResponse(s: Suggestion) {
   };
 }
 
+function mapPayeeRuleSuggestionToResponse(s: PayeeRuleSuggestion) {
+  return {
+    id: s.id,
+    budgetId: s.budgetId,
+    type: s.type,
+    payeeId: s.payeeId,
+    payeeName: s.payeeName,
+    categoryId: s.categoryId,
+    categoryName: s.categoryName,
+    approvedCount: s.approvedCount,
+    cacheHitCount: s.cacheHitCount,
+    confidence: s.confidence,
+    rationale: s.rationale,
+    status: s.status,
+    ruleId: s.ruleId,
+    createdAt: s.createdAt,
+  };
+}
+
 function mapTransactionToResponse(t: Transaction) {
   return {
     id: t.id,
@@ -126,6 +152,109 @@ export function createSuggestionRouter(
     }
   });
 
+  /**
+   * GET /api/suggestions/rules?budgetId=xxx - Get payee rule suggestions by budget
+   */
+  router.get('/rules', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      const rules = suggestionService.getPayeeRuleSuggestions(budgetId);
+
+      res.json({
+        rules: rules.map(mapPayeeRuleSuggestionToResponse),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/suggestions/rules/:id/approve - Approve a payee rule suggestion
+   */
+  router.post('/rules/:id/approve', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      suggestionService.approvePayeeRuleSuggestion(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/suggestions/rules/:id/reject - Reject a payee rule suggestion
+   */
+  router.post('/rules/:id/reject', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      suggestionService.rejectPayeeRuleSuggestion(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/suggestions/rules/:id/reset - Reset a payee rule suggestion back to pending
+   */
+  router.post('/rules/:id/reset', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      suggestionService.resetPayeeRuleSuggestion(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/suggestions/backtests?budgetId=xxx - List backtest runs (without outcomes)
+   */
+  router.get('/backtests', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ runs: suggestionService.listBacktestRuns(budgetId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/suggestions/backtests/:id - Get a backtest run with per-transaction outcomes
+   */
+  router.get('/backtests/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ run: suggestionService.getBacktestRun(req.params.id) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/suggestions/accuracy?budgetId=xxx - Accuracy per suggestion source, measured on
+   * categorizations made directly in Actual Budget
+   */
+  router.get('/accuracy', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      res.json({ sources: suggestionService.getSourceAccuracy(budgetId) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * GET /api/suggestions/uncategorized?budgetId=xxx - Get uncategorized transactions
    */
@@ -201,6 +330,32 @@ export function createSuggestionRouter(
     }
   });
 
+  /**
+   * POST /api/suggestions/:id/approve-split - Approve the split suggestion
+   */
+  router.post('/:id/approve-split', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      suggestionService.approveSplitSuggestion(id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/suggestions/:id/reject-split - Reject the split suggestion
+   */
+  router.post('/:id/reject-split', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      suggestionService.rejectSplitSuggestion(id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * POST /api/suggestions/:id/reject - Reject a suggestion (both payee and category)
    */
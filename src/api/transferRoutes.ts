@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../domain/errors.js';
+import type { TransferSuggestion } from '../domain/entities/TransferSuggestion.js';
+import type { TransferService } from '../services/TransferService.js';
+
+function mapTransferSuggestionToResponse(s: TransferSuggestion) {
+  return {
+    id: s.id,
+    budgetId: s.budgetId,
+    type: s.type,
+    fromTransactionId: s.fromTransactionId,
+    fromAccountId: s.fromAccountId,
+    fromAccountName: s.fromAccountName,
+    fromPayeeName: s.fromPayeeName,
+    fromDate: s.fromDate,
+    toTransactionId: s.toTransactionId,
+    toAccountId: s.toAccountId,
+    toAccountName: s.toAccountName,
+    toPayeeName: s.toPayeeName,
+    toDate: s.toDate,
+    amount: s.amount,
+    dayGap: s.dayGap,
+    confidence: s.confidence,
+    rationale: s.rationale,
+    status: s.status,
+    createdAt: s.createdAt,
+  };
+}
+
+/**
+ * Transfer suggestion routes - review of detected transfers between our own accounts
+ * Detection runs as a job (POST /api/jobs/transfers-detect); linking happens on apply
+ */
+export function createTransferRouter(transferService: TransferService): Router {
+  const router = Router();
+
+  /**
+   * GET /api/transfers?budgetId=xxx - Get transfer suggestions by budget
+   */
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { budgetId } = req.query;
+
+      if (!budgetId || typeof budgetId !== 'string') {
+        throw new ValidationError('budgetId query parameter is required');
+      }
+
+      const transfers = transferService.getTransferSuggestions(budgetId);
+      res.json({ transfers: transfers.map(mapTransferSuggestionToResponse) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/transfers/:id/approve - Approve a transfer suggestion
+   */
+  router.post('/:id/approve', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      transferService.approveTransferSuggestion(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/transfers/:id/reject - Reject a transfer suggestion
+   */
+  router.post('/:id/reject', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      transferService.rejectTransferSuggestion(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/transfers/:id/reset - Reset a transfer suggestion back to pending
+   */
+  router.post('/:id/reset', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      transferService.resetTransferSuggestion(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,32 @@
+import type { AITask } from './ModelRoute.js';
+
+/**
+ * AIOutboundRequest entity - the exact text of one AI request, after redaction
+ * P1 (Single Responsibility): Audit record only; the placeholder values never leave the
+ * request they were issued for, so they are not stored
+ */
+export interface AIOutboundRequest {
+  id: string; // UUID v4
+  jobId: string | null; // Job the call was made for (null outside jobs)
+  budgetId: string | null;
+  task: AITask | null;
+  instructions: string | null;
+  input: string;
+  redactions: Record<string, number>; // Placeholder label → distinct values replaced
+  createdAt: string; // ISO 8601 timestamp
+}
+
+export function createAIOutboundRequest(params: {
+  jobId: string | null;
+  budgetId: string | null;
+  task: AITask | null;
+  instructions: string | null;
+  input: string;
+  redactions: Record<string, number>;
+}): AIOutboundRequest {
+  return {
+    id: crypto.randomUUID(),
+    ...params,
+    createdAt: new Date().toISOString(),
+  };
+}
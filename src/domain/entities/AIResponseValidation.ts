@@ -0,0 +1,63 @@
+import type { AITask } from './ModelRoute.js';
+
+/**
+ * AIResponseValidation entity - whether an AI response matched its call site's schema
+ * P1 (Single Responsibility): Outcomes and rates only; validation and repair prompts live in
+ * ValidatingAIAdapter
+ */
+
+/**
+ * valid: the first response passed
+ * repaired: a repair prompt produced a valid response
+ * failed: still invalid after every repair attempt
+ */
+export type AIValidationOutcome = 'valid' | 'repaired' | 'failed';
+
+export interface AIResponseValidation {
+  id: string; // UUID v4
+  backend: string; // Backend id that gave the first response
+  task: AITask | null;
+  outcome: AIValidationOutcome;
+  attempts: number; // Responses requested, including repairs
+  issues: string[]; // Issues of the first invalid response (empty when valid)
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/** Validation outcomes of one backend */
+export interface BackendValidationStats {
+  backend: string;
+  total: number;
+  valid: number;
+  repaired: number;
+  failed: number;
+  invalidRate: number | null; // Share of first responses that failed validation
+  failureRate: number | null; // Share still invalid after repairs
+}
+
+export function createAIResponseValidation(params: {
+  backend: string;
+  task: AITask | null;
+  outcome: AIValidationOutcome;
+  attempts: number;
+  issues: string[];
+}): AIResponseValidation {
+  return {
+    id: crypto.randomUUID(),
+    ...params,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function computeValidationStats(
+  backend: string,
+  counts: Record<AIValidationOutcome, number>
+): BackendValidationStats {
+  const total = counts.valid + counts.repaired + counts.failed;
+  return {
+    backend,
+    total,
+    ...counts,
+    invalidRate: total > 0 ? (counts.repaired + counts.failed) / total : null,
+    failureRate: total > 0 ? counts.failed / total : null,
+  };
+}
@@ -0,0 +1,127 @@
+import type { AITask } from './ModelRoute.js';
+
+/**
+ * AIUsage entity - tokens, latency and estimated cost of one AI completion
+ * P1 (Single Responsibility): Pure pricing and cost math; persistence lives in the
+ * repository and the spending cap in AIUsageService
+ */
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ModelPrices = Record<string, ModelPrice>;
+
+/**
+ * Published list prices; AI_MODEL_PRICES overrides or extends them
+ * Dated snapshots (gpt-4o-mini-2024-07-18) use the price of their base model
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrices = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+export interface AIUsageRecord {
+  id: string; // UUID v4
+  jobId: string | null; // Job the call was made for (null outside jobs)
+  budgetId: string | null;
+  task: AITask | null; // Prompt call site
+  backend: string; // Backend id that answered
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimatedCostUsd: number | null; // Null when the model has no price
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/** Aggregated usage over a set of calls */
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number; // Sum over priced calls
+  unpricedCalls: number; // Calls whose model has no price, not included in the cost
+}
+
+export interface AITaskUsage extends AIUsageTotals {
+  task: AITask | null;
+}
+
+/** Usage of one job, overall and per call site */
+export interface JobAIUsage extends AIUsageTotals {
+  jobId: string;
+  byTask: AITaskUsage[];
+}
+
+export interface MonthlyAIUsage extends AIUsageTotals {
+  month: string; // YYYY-MM (UTC)
+}
+
+/**
+ * Price for a model: exact match first, then the longest priced base name the model
+ * extends with a "-suffix" (dated snapshots, -latest aliases)
+ */
+export function findModelPrice(model: string, prices: ModelPrices): ModelPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  let match: string | null = null;
+  for (const name of Object.keys(prices)) {
+    if (model.startsWith(`${name}-`) && (!match || name.length > match.length)) {
+      match = name;
+    }
+  }
+  return match ? prices[match] : null;
+}
+
+export function estimateCostUsd(
+  usage: { promptTokens: number; completionTokens: number },
+  price: ModelPrice | null
+): number | null {
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function createAIUsageRecord(params: {
+  jobId: string | null;
+  budgetId: string | null;
+  task: AITask | null;
+  backend: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  prices: ModelPrices;
+}): AIUsageRecord {
+  return {
+    id: crypto.randomUUID(),
+    jobId: params.jobId,
+    budgetId: params.budgetId,
+    task: params.task,
+    backend: params.backend,
+    model: params.model,
+    promptTokens: params.promptTokens,
+    completionTokens: params.completionTokens,
+    latencyMs: params.latencyMs,
+    estimatedCostUsd: estimateCostUsd(params, findModelPrice(params.model, params.prices)),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * First instant of the UTC calendar month containing date, as an ISO 8601 timestamp
+ */
+export function startOfMonthUtc(date: Date): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString();
+}
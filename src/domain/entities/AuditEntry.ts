@@ -19,6 +19,14 @@ export type AuditEventType =
   | 'suggestion_rejected'
   | 'suggestion_reset'
   | 'suggestion_retried'
+  | 'suggestion_auto_approved'
+  | 'suggestion_auto_applied'
+  | 'classifier_trained'
+  | 'recategorization_reviewed'
+  | 'transfers_detected'
+  | 'recurring_payments_detected'
+  | 'schedule_created'
+  | 'suggestions_backtested'
   | 'sync_executed'
   | 'sync_failed'
   | 'templates_applied'
@@ -30,7 +38,23 @@ export type AuditEventType =
   | 'payees_merge_suggestions_failed'
   | 'scheduled_sync_started'
   | 'scheduled_sync_completed'
-  | 'scheduled_sync_failed';
+  | 'scheduled_sync_failed'
+  | 'cache_entry_updated'
+  | 'cache_entry_deleted'
+  | 'cache_cleared'
+  | 'suggestion_feedback_recorded'
+  | 'ai_model_route_updated'
+  | 'ai_model_route_cleared'
+  | 'ai_spending_cap_reached'
+  | 'category_guidance_updated'
+  | 'category_guidance_cleared'
+  | 'account_category_allowlist_updated'
+  | 'account_category_allowlist_cleared'
+  | 'prompt_template_updated'
+  | 'prompt_template_reset'
+  | 'job_schedule_created'
+  | 'job_schedule_updated'
+  | 'job_schedule_deleted';
 
 /**
  * Factory function to create a new AuditEntry
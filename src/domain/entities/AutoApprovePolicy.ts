@@ -0,0 +1,126 @@
+/**
+ * AutoApprovePolicy entity - per-budget rules for acting on suggestions without review
+ * P1 (Single Responsibility): Decides whether a generated suggestion may skip manual review
+ */
+
+import type { CategorySuggestionSource, Suggestion } from './Suggestion.js';
+
+/**
+ * approve: mark the category suggestion approved (still applied manually)
+ * apply: approve and write the category to Actual Budget
+ * never: block automatic decisions for matching suggestions, whatever other policies say
+ */
+export type AutoApproveAction = 'approve' | 'apply' | 'never';
+
+/** All present conditions must hold for a policy to match; absent ones are ignored */
+export interface AutoApprovePolicyConditions {
+  sources?: CategorySuggestionSource[];
+  minConfidence?: number; // Inclusive, 0-1
+  maxAmount?: number; // Exclusive upper bound on the absolute amount, in cents
+  accountIds?: string[];
+}
+
+export interface AutoApprovePolicy {
+  id: string; // UUID v4
+  budgetId: string;
+  name: string;
+  enabled: boolean;
+  action: AutoApproveAction;
+  conditions: AutoApprovePolicyConditions;
+  createdAt: string; // ISO 8601 timestamp
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/** Outcome of evaluating a budget's policies against one suggestion */
+export interface AutoApproveDecision {
+  action: AutoApproveAction;
+  policy: AutoApprovePolicy;
+}
+
+const ACTION_RANK: Record<AutoApproveAction, number> = { never: 2, apply: 1, approve: 0 };
+
+/**
+ * Check whether a suggestion is eligible for any automatic decision
+ * Only pending category proposals for uncategorized transactions qualify: overriding a
+ * category someone already chose, or choosing between a split and a single category,
+ * needs a human
+ */
+export function isAutoApprovable(suggestion: Suggestion): boolean {
+  const category = suggestion.categorySuggestion;
+  return (
+    suggestion.kind === 'categorize' &&
+    category.status === 'pending' &&
+    Boolean(category.proposedCategoryId) &&
+    category.proposedCategoryId !== 'unknown' &&
+    suggestion.splitSuggestion?.status !== 'pending'
+  );
+}
+
+/**
+ * Check whether an enabled policy's conditions all hold for a suggestion
+ */
+export function policyMatches(policy: AutoApprovePolicy, suggestion: Suggestion): boolean {
+  if (!policy.enabled) return false;
+
+  const { sources, minConfidence, maxAmount, accountIds } = policy.conditions;
+  const category = suggestion.categorySuggestion;
+
+  if (sources && (!category.source || !sources.includes(category.source))) return false;
+  if (minConfidence !== undefined && category.confidence < minConfidence) return false;
+  if (maxAmount !== undefined) {
+    if (suggestion.transactionAmount === null) return false;
+    if (Math.abs(suggestion.transactionAmount) >= maxAmount) return false;
+  }
+  if (
+    accountIds &&
+    (!suggestion.transactionAccountId || !accountIds.includes(suggestion.transactionAccountId))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Pick the decision for a suggestion: never beats apply, apply beats approve
+ * Returns null when the suggestion is not eligible or no policy matches
+ */
+export function evaluatePolicies(
+  policies: AutoApprovePolicy[],
+  suggestion: Suggestion
+): AutoApproveDecision | null {
+  if (!isAutoApprovable(suggestion)) return null;
+
+  let decision: AutoApproveDecision | null = null;
+  for (const policy of policies) {
+    if (!policyMatches(policy, suggestion)) continue;
+    if (!decision || ACTION_RANK[policy.action] > ACTION_RANK[decision.action]) {
+      decision = { action: policy.action, policy };
+    }
+  }
+  return decision;
+}
+
+/**
+ * Factory function to create a new AutoApprovePolicy
+ * P4 (Explicitness): All fields explicitly provided
+ */
+export function createAutoApprovePolicy(params: {
+  budgetId: string;
+  name: string;
+  action: AutoApproveAction;
+  conditions: AutoApprovePolicyConditions;
+  enabled?: boolean;
+}): AutoApprovePolicy {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    budgetId: params.budgetId,
+    name: params.name,
+    enabled: params.enabled ?? true,
+    action: params.action,
+    conditions: params.conditions,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
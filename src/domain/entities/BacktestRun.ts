@@ -0,0 +1,141 @@
+/**
+ * BacktestRun entity - accuracy report for the categorization pipeline
+ * P1 (Single Responsibility): Scores hidden-category predictions against known history
+ */
+
+/** Prediction for one sampled transaction whose category was hidden */
+export interface BacktestOutcome {
+  transactionId: string;
+  payeeName: string;
+  actualCategoryId: string;
+  actualCategoryName: string | null;
+  predictedCategoryId: string | null;
+  predictedCategoryName: string | null;
+  confidence: number;
+  source: string; // Pipeline stage that answered: cache, fuzzy_match, local_classifier, ai_*
+}
+
+/** Calibration bucket by predicted confidence */
+export interface BacktestBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  correct: number;
+  accuracy: number | null;
+  meanConfidence: number | null;
+}
+
+/** Accuracy per pipeline stage */
+export interface BacktestSourceStats {
+  count: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+export interface BacktestSummary {
+  evaluatedCount: number;
+  coveredCount: number; // Outcomes with a proposed category
+  correctCount: number;
+  accuracy: number | null; // Correct / covered
+  coverage: number | null; // Covered / evaluated
+  buckets: BacktestBucket[];
+  bySource: Record<string, BacktestSourceStats>;
+}
+
+export interface BacktestRun extends BacktestSummary {
+  id: string; // UUID v4
+  budgetId: string;
+  jobId: string | null;
+  useAI: boolean;
+  sampleSize: number;
+  config: Record<string, unknown>; // Backend, thresholds and other knobs to compare runs by
+  outcomes: BacktestOutcome[];
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/** Upper bounds of the confidence buckets */
+export const BACKTEST_BUCKET_EDGES = [0.5, 0.7, 0.85, 0.95, 1] as const;
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Check whether an outcome proposed a usable category
+ */
+export function isCoveredOutcome(outcome: BacktestOutcome): boolean {
+  return Boolean(outcome.predictedCategoryId) && outcome.predictedCategoryId !== 'unknown';
+}
+
+/**
+ * Score backtest outcomes: accuracy, coverage and calibration by confidence bucket
+ */
+export function summarizeBacktest(outcomes: BacktestOutcome[]): BacktestSummary {
+  const covered = outcomes.filter(isCoveredOutcome);
+  const isCorrect = (o: BacktestOutcome) => o.predictedCategoryId === o.actualCategoryId;
+
+  const buckets: BacktestBucket[] = BACKTEST_BUCKET_EDGES.map((maxConfidence, index) => {
+    const minConfidence = index === 0 ? 0 : BACKTEST_BUCKET_EDGES[index - 1];
+    const inBucket = covered.filter((o) =>
+      index === 0
+        ? o.confidence < maxConfidence
+        : o.confidence >= minConfidence && (o.confidence < maxConfidence || maxConfidence === 1)
+    );
+    const totalConfidence = inBucket.reduce((sum, o) => sum + o.confidence, 0);
+
+    return {
+      minConfidence,
+      maxConfidence,
+      count: inBucket.length,
+      correct: inBucket.filter(isCorrect).length,
+      accuracy: ratio(inBucket.filter(isCorrect).length, inBucket.length),
+      meanConfidence: ratio(totalConfidence, inBucket.length),
+    };
+  });
+
+  const bySource: Record<string, BacktestSourceStats> = {};
+  for (const outcome of covered) {
+    const stats = bySource[outcome.source] ?? { count: 0, correct: 0, accuracy: null };
+    stats.count++;
+    if (isCorrect(outcome)) stats.correct++;
+    stats.accuracy = ratio(stats.correct, stats.count);
+    bySource[outcome.source] = stats;
+  }
+
+  const correctCount = covered.filter(isCorrect).length;
+
+  return {
+    evaluatedCount: outcomes.length,
+    coveredCount: covered.length,
+    correctCount,
+    accuracy: ratio(correctCount, covered.length),
+    coverage: ratio(covered.length, outcomes.length),
+    buckets,
+    bySource,
+  };
+}
+
+/**
+ * Factory function to create a BacktestRun from scored outcomes
+ * P4 (Explicitness): All fields explicitly provided
+ */
+export function createBacktestRun(params: {
+  budgetId: string;
+  jobId?: string | null;
+  useAI: boolean;
+  sampleSize: number;
+  config: Record<string, unknown>;
+  outcomes: BacktestOutcome[];
+}): BacktestRun {
+  return {
+    id: crypto.randomUUID(),
+    budgetId: params.budgetId,
+    jobId: params.jobId ?? null,
+    useAI: params.useAI,
+    sampleSize: params.sampleSize,
+    config: params.config,
+    outcomes: params.outcomes,
+    ...summarizeBacktest(params.outcomes),
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -15,6 +15,25 @@ export interface Transaction {
   amount: number; // In cents (Actual Budget format)
   cleared: boolean;
   isTransfer: boolean;
+  splits?: TransactionSplit[]; // Child transactions when the transaction is split
+}
+
+/**
+ * Child line of a split transaction
+ */
+export interface TransactionSplit {
+  id: string;
+  amount: number; // In cents
+  categoryId: string | null;
+  categoryName: string | null;
+  notes: string | null;
+}
+
+/**
+ * A transaction needs a category when it has none, is not a transfer and is not already split
+ */
+export function isUncategorizedTransaction(txn: Transaction): boolean {
+  return txn.categoryId === null && !txn.isTransfer && !txn.splits?.length;
 }
 
 /**
@@ -0,0 +1,123 @@
+/**
+ * CategoryGuidance entity - what a category means in this household, and where it must not be
+ * suggested
+ * P1 (Single Responsibility): Prompt text and proposal checks only; storage and editing live in
+ * CategoryGuidanceService
+ */
+
+import type { Category } from './BudgetSnapshot.js';
+
+export interface CategoryGuidance {
+  budgetId: string;
+  categoryId: string;
+  description: string | null; // e.g. "Fun Money: each adult's personal spending"
+  examplePayees: string[]; // Payees that belong here, shown to the model
+  neverSuggestFor: string[]; // Payee fragments (case-insensitive) this category is never for
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/** Categories transactions of an account may be given; accounts without one are unrestricted */
+export interface AccountCategoryAllowlist {
+  budgetId: string;
+  accountId: string;
+  categoryIds: string[];
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/** Everything a budget has configured, looked up once per run */
+export interface CategoryGuardrails {
+  guidance: Map<string, CategoryGuidance>; // categoryId → guidance
+  allowlists: Map<string, string[]>; // accountId → allowed category ids
+}
+
+export function createCategoryGuardrails(
+  guidance: CategoryGuidance[],
+  allowlists: AccountCategoryAllowlist[]
+): CategoryGuardrails {
+  return {
+    guidance: new Map(guidance.map((entry) => [entry.categoryId, entry])),
+    allowlists: new Map(allowlists.map((entry) => [entry.accountId, entry.categoryIds])),
+  };
+}
+
+/** The "never suggest for" fragment matching a payee, if any */
+export function findBlockingPayeeFragment(
+  guidance: CategoryGuidance | undefined,
+  payeeName: string
+): string | null {
+  if (!guidance) return null;
+  const payee = payeeName.toLowerCase();
+  return (
+    guidance.neverSuggestFor.find((fragment) => payee.includes(fragment.toLowerCase())) ?? null
+  );
+}
+
+/**
+ * Categories that may be offered for a payee
+ * Drops categories blocked for the payee; when every account the payee's transactions come
+ * from has an allowlist, only categories allowed on at least one of them remain
+ */
+export function categoriesForPayee(
+  categories: Category[],
+  guardrails: CategoryGuardrails,
+  payeeName: string,
+  accountIds: string[]
+): Category[] {
+  const allowlists = accountIds.map((accountId) => guardrails.allowlists.get(accountId));
+  const allowed =
+    allowlists.length > 0 && allowlists.every((ids) => ids !== undefined)
+      ? new Set(allowlists.flatMap((ids) => ids ?? []))
+      : null;
+
+  return categories.filter(
+    (category) =>
+      (!allowed || allowed.has(category.id)) &&
+      !findBlockingPayeeFragment(guardrails.guidance.get(category.id), payeeName)
+  );
+}
+
+/**
+ * Why a proposed category breaks a guardrail for one transaction; null when it is allowed
+ */
+export function checkCategoryProposal(
+  guardrails: CategoryGuardrails,
+  proposal: { categoryId: string; categoryName: string | null },
+  payeeName: string,
+  accountId: string | null
+): string | null {
+  const label = `"${proposal.categoryName ?? proposal.categoryId}"`;
+  const fragment = findBlockingPayeeFragment(
+    guardrails.guidance.get(proposal.categoryId),
+    payeeName
+  );
+  if (fragment) {
+    return `${label} is never suggested for payees matching "${fragment}"`;
+  }
+
+  const allowed = accountId ? guardrails.allowlists.get(accountId) : undefined;
+  if (allowed && !allowed.includes(proposal.categoryId)) {
+    return `${label} is not allowed for this account`;
+  }
+  return null;
+}
+
+/**
+ * Category lines for prompts (id|name|group|notes); notes carry the description and example
+ * payees, and stay empty for categories without guidance
+ */
+export function formatCategoryList(categories: Category[], guardrails: CategoryGuardrails): string {
+  return categories
+    .map((category) => {
+      const guidance = guardrails.guidance.get(category.id);
+      const notes = [
+        guidance?.description,
+        guidance && guidance.examplePayees.length > 0
+          ? `e.g. ${guidance.examplePayees.join(', ')}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join('; ');
+      return `${category.id}|${category.name}|${category.groupName}|${notes}`;
+    })
+    .join('\n');
+}
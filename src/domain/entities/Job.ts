@@ -8,6 +8,10 @@ export type JobType =
   | 'sync_and_suggest'
   | 'suggestions_retry_payee'
   | 'suggestions_apply'
+  | 'suggestions_backtest'
+  | 'suggestions_recategorize'
+  | 'transfers_detect'
+  | 'recurring_detect'
   | 'templates_apply'
   | 'payees_merge'
   | 'payees_merge_suggestions_generate'
@@ -16,6 +20,31 @@ export type JobType =
   | 'scheduled_sync_and_suggest';
 export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'canceled';
 
+/**
+ * Locks a job holds on its budget while queued or running; jobs sharing a lock never overlap
+ * budget: syncs or writes through the single Actual Budget connection
+ * suggestions: creates suggestions, which overlapping runs would create twice
+ */
+export type JobLock = 'budget' | 'suggestions';
+
+export const JOB_LOCKS: Record<JobType, JobLock[]> = {
+  budget_sync: ['budget'],
+  suggestions_generate: ['suggestions'],
+  sync_and_suggest: ['budget', 'suggestions'],
+  suggestions_retry_payee: [],
+  suggestions_apply: ['budget'],
+  suggestions_backtest: [],
+  suggestions_recategorize: [],
+  transfers_detect: [],
+  recurring_detect: [],
+  templates_apply: ['budget'],
+  payees_merge: ['budget'],
+  payees_merge_suggestions_generate: [],
+  snapshot_create: ['budget'],
+  snapshot_redownload: ['budget'],
+  scheduled_sync_and_suggest: ['budget', 'suggestions'],
+};
+
 export interface Job {
   id: string;
   budgetId: string;
@@ -53,3 +82,119 @@ export function createJob(params: {
     metadata: params.metadata ?? null,
   };
 }
+
+/**
+ * Lock a new job of this type would wait on because the active job already holds it
+ */
+export function findSharedLock(type: JobType, active: Job): JobLock | null {
+  return JOB_LOCKS[type].find((lock) => JOB_LOCKS[active.type].includes(lock)) ?? null;
+}
+
+/**
+ * Whether a new request asks for exactly the work of a job that has not started yet
+ */
+export function isSameJobRequest(
+  job: Job,
+  params: { type: JobType; metadata?: Record<string, unknown> | null }
+): boolean {
+  return (
+    job.status === 'queued' &&
+    job.type === params.type &&
+    JSON.stringify(job.metadata ?? null) === JSON.stringify(params.metadata ?? null)
+  );
+}
+
+/**
+ * Whether a request asks for the work a job was started with, whatever became of the job since
+ */
+export function isSameJobWork(
+  job: Job,
+  params: { type: JobType; metadata?: Record<string, unknown> | null; parentJobId?: string | null }
+): boolean {
+  return (
+    job.type === params.type &&
+    job.parentJobId === (params.parentJobId ?? null) &&
+    JSON.stringify(withoutRuntimeKeys(job.metadata)) ===
+      JSON.stringify(withoutRuntimeKeys(params.metadata))
+  );
+}
+
+/**
+ * Automatic retries of a job type after a failure that may go away on its own, such as the
+ * Actual server being unreachable
+ */
+export interface JobRetryPolicy {
+  maxAttempts: number; // Runs in total, the first one included
+  baseDelayMs: number; // Wait before the first retry; doubles with every further attempt
+  maxDelayMs: number;
+}
+
+export const JOB_RETRY_POLICIES: Partial<Record<JobType, JobRetryPolicy>> = {
+  budget_sync: { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 900_000 },
+  sync_and_suggest: { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 900_000 },
+  scheduled_sync_and_suggest: { maxAttempts: 4, baseDelayMs: 60_000, maxDelayMs: 900_000 },
+  snapshot_create: { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 900_000 },
+  snapshot_redownload: { maxAttempts: 3, baseDelayMs: 60_000, maxDelayMs: 900_000 },
+};
+
+/** Metadata keys a job writes while it runs, as opposed to the parameters it was started with */
+const RUNTIME_METADATA_KEYS = [
+  'aiBackends',
+  'cancelRequestedAt',
+  'completedBeforeCancel',
+  'checkpoint',
+  'attempt',
+  'runAfter',
+];
+
+/**
+ * The parameters a job was started with, for starting the same work again
+ */
+export function getJobParameters(job: Job): Record<string, unknown> {
+  return withoutRuntimeKeys(job.metadata);
+}
+
+function withoutRuntimeKeys(
+  metadata: Record<string, unknown> | null | undefined
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(metadata ?? {}).filter(([key]) => !RUNTIME_METADATA_KEYS.includes(key))
+  );
+}
+
+/** Which run of the same work a job is: 1 for the original, 2 for its first retry, ... */
+export function getJobAttempt(job: Job): number {
+  const attempt = job.metadata?.attempt;
+  return typeof attempt === 'number' && attempt >= 1 ? attempt : 1;
+}
+
+/**
+ * Wait before the retry that follows a failed attempt, or null when the policy is used up
+ */
+export function getRetryDelayMs(policy: JobRetryPolicy, failedAttempt: number): number | null {
+  if (failedAttempt >= policy.maxAttempts) return null;
+  return Math.min(policy.baseDelayMs * 2 ** (failedAttempt - 1), policy.maxDelayMs);
+}
+
+/** Whether a queued job may start now; automatic retries wait until their runAfter time */
+export function isJobDue(job: Job, now: Date = new Date()): boolean {
+  const runAfter = job.metadata?.runAfter;
+  return typeof runAfter !== 'string' || new Date(runAfter).getTime() <= now.getTime();
+}
+
+/**
+ * Cooperative cancellation handed to the work of a running job
+ * Long-running work checks it between batches, keeps what it already finished and returns early
+ */
+export interface CancellationToken {
+  readonly isCanceled: boolean;
+}
+
+/**
+ * Progress of a running job saved in its metadata as each unit of work finishes
+ * A job resumed after a restart skips the units already done instead of paying for them again
+ */
+export interface JobCheckpoint {
+  isDone(key: string): boolean;
+  markDone(key: string): void;
+}
@@ -0,0 +1,171 @@
+/**
+ * JobSchedule entity - a cron expression that starts one type of job for a budget
+ * P1 (Single Responsibility): Schedulable job types, their options and quiet hours;
+ * cron timing is handled by JobScheduler
+ */
+
+import type { JobStatus, JobType } from './Job.js';
+
+export const SCHEDULABLE_JOB_TYPES = [
+  'scheduled_sync_and_suggest',
+  'budget_sync',
+  'suggestions_generate',
+  'suggestions_recategorize',
+  'transfers_detect',
+  'recurring_detect',
+  'payees_merge_suggestions_generate',
+  'snapshot_create',
+] as const satisfies readonly JobType[];
+
+export type ScheduleJobType = (typeof SCHEDULABLE_JOB_TYPES)[number];
+
+export type ScheduleOptionKind = 'boolean' | 'number';
+
+/** Options each job type accepts, passed to the job as its parameters */
+export const SCHEDULE_JOB_OPTIONS: Record<ScheduleJobType, Record<string, ScheduleOptionKind>> = {
+  scheduled_sync_and_suggest: { useAI: 'boolean' },
+  budget_sync: {},
+  suggestions_generate: { useAI: 'boolean' },
+  suggestions_recategorize: { lookbackDays: 'number' },
+  transfers_detect: { windowDays: 'number' },
+  recurring_detect: {},
+  payees_merge_suggestions_generate: {
+    minScore: 'number',
+    useAI: 'boolean',
+    force: 'boolean',
+    aiMinClusterSize: 'number',
+  },
+  snapshot_create: {},
+};
+
+export type ScheduleOptions = Record<string, boolean | number>;
+
+export interface JobSchedule {
+  id: string; // UUID v4
+  budgetId: string;
+  name: string;
+  cronExpression: string; // Five fields, server local time
+  jobType: ScheduleJobType;
+  options: ScheduleOptions;
+  enabled: boolean;
+  quietHoursStart: string | null; // HH:MM
+  quietHoursEnd: string | null; // HH:MM; may be earlier than the start to span midnight
+  lastRunAt: string | null; // ISO 8601 timestamp
+  nextRunAt: string | null; // ISO 8601 timestamp; null while disabled
+  createdAt: string; // ISO 8601 timestamp
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * started: the schedule queued a job (or joined an identical queued one)
+ * skipped: quiet hours, a paused scheduler, or the budget busy with a conflicting job
+ * failed: the job could not be queued
+ */
+export type JobScheduleRunStatus = 'started' | 'skipped' | 'failed';
+
+/** One time a schedule came due, linked to the job it spawned */
+export interface JobScheduleRun {
+  id: string; // UUID v4
+  scheduleId: string;
+  jobId: string | null;
+  jobStatus: JobStatus | null; // Current status of the spawned job
+  status: JobScheduleRunStatus;
+  message: string | null;
+  manual: boolean; // Started with "Run now" rather than by the cron expression
+  createdAt: string; // ISO 8601 timestamp
+}
+
+export function isScheduleJobType(value: unknown): value is ScheduleJobType {
+  return typeof value === 'string' && (SCHEDULABLE_JOB_TYPES as readonly string[]).includes(value);
+}
+
+/** Minutes after midnight for an HH:MM time, or null when malformed */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Whether a local time falls in the schedule's quiet hours; the start is inclusive, the end
+ * exclusive, and a window whose end is before its start runs past midnight
+ */
+export function isWithinQuietHours(
+  schedule: Pick<JobSchedule, 'quietHoursStart' | 'quietHoursEnd'>,
+  date: Date
+): boolean {
+  if (!schedule.quietHoursStart || !schedule.quietHoursEnd) return false;
+  const start = parseTimeOfDay(schedule.quietHoursStart);
+  const end = parseTimeOfDay(schedule.quietHoursEnd);
+  if (start === null || end === null || start === end) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Cron expression repeating exactly every interval, for the schedule seeded from
+ * SYNC_INTERVAL_MINUTES: minute steps that divide an hour, hour steps that divide a day, daily
+ * or weekly. Null for any other interval, since a cron step restarts every hour or day and
+ * would leave a shorter gap before it (e.g. 45 minutes runs at :00 and :45)
+ */
+export function intervalToCronExpression(intervalMinutes: number): string | null {
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1) return null;
+  if (intervalMinutes < 60) {
+    return 60 % intervalMinutes === 0 ? `*/${intervalMinutes} * * * *` : null;
+  }
+  if (intervalMinutes % 60 !== 0) return null;
+
+  const hours = intervalMinutes / 60;
+  if (hours === 1) return '0 * * * *';
+  if (hours < 24) return 24 % hours === 0 ? `0 */${hours} * * *` : null;
+  if (hours === 24) return '0 0 * * *';
+  if (hours === 24 * 7) return '0 0 * * 0';
+  return null;
+}
+
+export function createJobSchedule(params: {
+  budgetId: string;
+  name: string;
+  cronExpression: string;
+  jobType: ScheduleJobType;
+  options?: ScheduleOptions;
+  enabled?: boolean;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+}): JobSchedule {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    budgetId: params.budgetId,
+    name: params.name,
+    cronExpression: params.cronExpression,
+    jobType: params.jobType,
+    options: params.options ?? {},
+    enabled: params.enabled ?? true,
+    quietHoursStart: params.quietHoursStart ?? null,
+    quietHoursEnd: params.quietHoursEnd ?? null,
+    lastRunAt: null,
+    nextRunAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createJobScheduleRun(params: {
+  scheduleId: string;
+  status: JobScheduleRunStatus;
+  jobId?: string | null;
+  message?: string | null;
+  manual?: boolean;
+}): JobScheduleRun {
+  return {
+    id: crypto.randomUUID(),
+    scheduleId: params.scheduleId,
+    jobId: params.jobId ?? null,
+    jobStatus: null,
+    status: params.status,
+    message: params.message ?? null,
+    manual: params.manual ?? false,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * ModelRoute entity - which AI backend and model serves each kind of prompt
+ * P1 (Single Responsibility): Pure route resolution; storage lives in the repository and
+ * the per-call routing in ModelRoutingAIAdapter
+ */
+
+/** AI backends that can be configured (AI_BACKEND / AI_FALLBACK_BACKENDS) */
+export const AI_BACKEND_IDS = ['openai', 'google', 'openai_compatible'] as const;
+export type AIBackendId = (typeof AI_BACKEND_IDS)[number];
+
+/** Prompt call sites that can be routed independently */
+export const AI_TASKS = [
+  'payee_identification',
+  'category_suggestion',
+  'fuzzy_match_verification',
+  'fuzzy_match_disambiguation',
+  'payee_merge_split',
+] as const;
+export type AITask = (typeof AI_TASKS)[number];
+
+/** Null fields mean "use the default" (primary backend, or the backend's configured model) */
+export interface ModelRoute {
+  backend: AIBackendId | null;
+  model: string | null;
+}
+
+export type ModelRoutes = Partial<Record<AITask, ModelRoute>>;
+
+/** Per-budget override stored in ai_model_routes */
+export interface BudgetModelRoute extends ModelRoute {
+  budgetId: string;
+  task: AITask;
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/** Route for a task after overrides and defaults are applied */
+export interface ResolvedModelRoute {
+  task: AITask;
+  backend: string;
+  model: string;
+  origin: 'budget' | 'global' | 'default';
+}
+
+export function isAITask(value: unknown): value is AITask {
+  return typeof value === 'string' && (AI_TASKS as readonly string[]).includes(value);
+}
+
+export function isAIBackendId(value: unknown): value is AIBackendId {
+  return typeof value === 'string' && (AI_BACKEND_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the route for a task: a budget override wins over the global AI_MODEL_ROUTES entry,
+ * field by field, and anything left unset falls back to the defaults
+ * A model is only carried over when it was chosen for the same backend
+ */
+export function resolveModelRoute(params: {
+  task: AITask;
+  globalRoutes: ModelRoutes;
+  budgetRoutes: ModelRoutes;
+  defaultBackend: string;
+  defaultModels: Record<string, string>;
+}): ResolvedModelRoute {
+  const { task } = params;
+  const budgetRoute = params.budgetRoutes[task];
+  const globalRoute = params.globalRoutes[task];
+
+  const backend = budgetRoute?.backend ?? globalRoute?.backend ?? params.defaultBackend;
+  const sameBackend = (route: ModelRoute | undefined) =>
+    route !== undefined && (route.backend ?? params.defaultBackend) === backend;
+  const model =
+    (sameBackend(budgetRoute) ? budgetRoute?.model : null) ??
+    (sameBackend(globalRoute) ? globalRoute?.model : null) ??
+    params.defaultModels[backend] ??
+    '';
+
+  const origin =
+    budgetRoute && (budgetRoute.backend || budgetRoute.model)
+      ? 'budget'
+      : globalRoute && (globalRoute.backend || globalRoute.model)
+        ? 'global'
+        : 'default';
+
+  return { task, backend, model, origin };
+}
@@ -0,0 +1,91 @@
+import type { SuggestionType } from './Suggestion.js';
+
+/**
+ * PayeeRuleSuggestion entity - proposed "payee is X → set category Y" rule
+ * P1 (Single Responsibility): Represents a learned payee→category mapping
+ * that can be promoted to a rule in Actual Budget's rules engine
+ */
+
+/** Review status for a rule suggestion */
+export type PayeeRuleSuggestionStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+/** Minimum approvals + cache hits before a payee mapping is proposed as a rule */
+export const MIN_PAYEE_RULE_EVIDENCE = 3;
+
+export interface PayeeRuleSuggestion {
+  id: string; // UUID v4
+  budgetId: string;
+  type: Extract<SuggestionType, 'payee_rule'>;
+  payeeId: string; // Actual Budget payee ID used in the rule condition
+  payeeName: string;
+  categoryId: string;
+  categoryName: string;
+  approvedCount: number; // Approved/applied suggestions agreeing with the mapping
+  cacheHitCount: number; // Times the cached mapping was reused
+  confidence: number;
+  rationale: string;
+  status: PayeeRuleSuggestionStatus;
+  ruleId: string | null; // Actual Budget rule ID once applied
+  createdAt: string; // ISO 8601 timestamp
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Confidence grows with the amount of agreeing evidence
+ * 3 pieces of evidence → 0.75, 9 → 0.9
+ */
+export function computePayeeRuleConfidence(approvedCount: number, cacheHitCount: number): number {
+  const evidence = approvedCount + cacheHitCount;
+  if (evidence <= 0) return 0;
+  return evidence / (evidence + 1);
+}
+
+/**
+ * Factory function to create a new PayeeRuleSuggestion
+ * P4 (Explicitness): All fields explicitly provided
+ */
+export function createPayeeRuleSuggestion(params: {
+  budgetId: string;
+  payeeId: string;
+  payeeName: string;
+  categoryId: string;
+  categoryName: string;
+  approvedCount: number;
+  cacheHitCount: number;
+}): PayeeRuleSuggestion {
+  const now = new Date().toISOString();
+  const parts: string[] = [];
+  if (params.approvedCount > 0) {
+    parts.push(
+      `${params.approvedCount} approved suggestion${params.approvedCount === 1 ? '' : 's'}`
+    );
+  }
+  if (params.cacheHitCount > 0) {
+    parts.push(`${params.cacheHitCount} cached mapping${params.cacheHitCount === 1 ? '' : 's'}`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    budgetId: params.budgetId,
+    type: 'payee_rule',
+    payeeId: params.payeeId,
+    payeeName: params.payeeName,
+    categoryId: params.categoryId,
+    categoryName: params.categoryName,
+    approvedCount: params.approvedCount,
+    cacheHitCount: params.cacheHitCount,
+    confidence: computePayeeRuleConfidence(params.approvedCount, params.cacheHitCount),
+    rationale: `${params.payeeName} was categorized as ${params.categoryName} based on ${parts.join(' and ') || 'past mappings'}`,
+    status: 'pending',
+    ruleId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Check whether a payee mapping has enough evidence to be proposed as a rule
+ */
+export function hasEnoughPayeeRuleEvidence(approvedCount: number, cacheHitCount: number): boolean {
+  return approvedCount + cacheHitCount >= MIN_PAYEE_RULE_EVIDENCE;
+}
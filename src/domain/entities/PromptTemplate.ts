@@ -0,0 +1,162 @@
+/**
+ * PromptTemplate entity - named, versioned system instructions for the suggestion prompts
+ * P1 (Single Responsibility): Built-in templates, version labels and placeholder rendering;
+ * per-budget overrides are stored by PromptTemplateService
+ */
+
+import type { AITask } from './ModelRoute.js';
+
+export const PROMPT_TEMPLATE_NAMES = [
+  'payee_identification',
+  'category_suggestion',
+  'fuzzy_match_verification',
+  'fuzzy_match_disambiguation',
+] as const satisfies readonly AITask[];
+
+export type PromptTemplateName = (typeof PROMPT_TEMPLATE_NAMES)[number];
+
+/** Placeholders each template may use, written {{name}} and filled in per call */
+export const PROMPT_TEMPLATE_PLACEHOLDERS: Record<PromptTemplateName, string[]> = {
+  payee_identification: [],
+  category_suggestion: [],
+  fuzzy_match_verification: [],
+  fuzzy_match_disambiguation: ['candidateCount'],
+};
+
+export const BUILT_IN_PROMPT_TEMPLATES: Record<PromptTemplateName, string> = {
+  payee_identification: `You are a personal finance assistant helping identify transaction payees.
+
+Your task:
+1. Use web search to identify what business/merchant this is
+2. Determine the canonical/clean name of this merchant
+3. If it's a well-known business, provide the standard name (e.g., "AMZN MKTP" → "Amazon")
+4. If uncertain, return the cleaned-up version of the input
+
+Respond with a single JSON object (no markdown, no explanation):
+{"canonicalPayeeName":"...","confidence":0.0-1.0,"reasoning":"..."}`,
+
+  category_suggestion: `You are a personal finance assistant helping categorize transactions.
+
+Your task:
+1. Consider any similar payees provided as hints
+2. Use web search if needed to identify merchant type
+3. Match to the most appropriate category from the provided list; a category's notes say what it means in this household and which payees belong in it
+4. If uncertain, set categoryId and categoryName to null
+
+Respond with a single JSON object (no markdown, no explanation):
+{"categoryId":"...","categoryName":"...","confidence":0.0-1.0,"reasoning":"...","exampleIds":[]}`,
+
+  fuzzy_match_verification: `You are a personal finance assistant verifying if two payee names refer to the same merchant.
+
+Your task:
+1. Determine if the two payee names refer to the same merchant/entity
+2. If they match, suggest the appropriate category (could be same or different)
+3. Suggest a canonical/clean payee name if the names are variants of the same merchant
+
+Respond with JSON only (no markdown):
+{
+  "isSameMerchant": true/false,
+  "canonicalPayeeName": "...",
+  "payeeConfidence": 0.0-1.0,
+  "payeeReasoning": "...",
+  "categoryId": "...",
+  "categoryName": "...",
+  "categoryConfidence": 0.0-1.0,
+  "categoryReasoning": "...",
+  "exampleIds": []
+}`,
+
+  fuzzy_match_disambiguation: `You are a personal finance assistant helping match payees from transaction data.
+
+Your task:
+1. Determine if any of the candidate payees match the transaction payee (same merchant/entity)
+2. If a match is found, return its index and suggest the appropriate category
+3. If no match, return matchIndex: null and suggest a category based on your knowledge
+
+Respond with JSON only (no markdown):
+{
+  "matchIndex": 1-{{candidateCount}} or null,
+  "canonicalPayeeName": "...",
+  "payeeConfidence": 0.0-1.0,
+  "payeeReasoning": "...",
+  "categoryId": "...",
+  "categoryName": "...",
+  "categoryConfidence": 0.0-1.0,
+  "categoryReasoning": "...",
+  "exampleIds": []
+}`,
+};
+
+/** One saved edit of a template for a budget */
+export interface PromptTemplateVersion {
+  id: string; // UUID v4
+  budgetId: string;
+  name: PromptTemplateName;
+  version: number; // 1, 2, ... per budget and template
+  instructions: string | null; // Null reverts to the built-in template
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/** The instructions a prompt uses, with the label stored on suggestions */
+export interface ResolvedPromptTemplate {
+  name: PromptTemplateName;
+  version: number; // 0 until the budget saves its first edit
+  label: string; // e.g. category_suggestion@v3
+  instructions: string;
+  isBuiltIn: boolean;
+}
+
+export function isPromptTemplateName(value: unknown): value is PromptTemplateName {
+  return typeof value === 'string' && (PROMPT_TEMPLATE_NAMES as readonly string[]).includes(value);
+}
+
+export function promptVersionLabel(name: PromptTemplateName, version: number): string {
+  return `${name}@v${version}`;
+}
+
+export function createPromptTemplateVersion(params: {
+  budgetId: string;
+  name: PromptTemplateName;
+  version: number;
+  instructions: string | null;
+}): PromptTemplateVersion {
+  return {
+    id: crypto.randomUUID(),
+    ...params,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Instructions in effect given the budget's latest saved version, if any
+ */
+export function resolvePromptTemplate(
+  name: PromptTemplateName,
+  latest: PromptTemplateVersion | null
+): ResolvedPromptTemplate {
+  const version = latest?.version ?? 0;
+  const instructions = latest?.instructions ?? null;
+  return {
+    name,
+    version,
+    label: promptVersionLabel(name, version),
+    instructions: instructions ?? BUILT_IN_PROMPT_TEMPLATES[name],
+    isBuiltIn: instructions === null,
+  };
+}
+
+/** Placeholders used in a template that the prompt cannot fill in */
+export function findUnknownPlaceholders(name: PromptTemplateName, instructions: string): string[] {
+  const known = PROMPT_TEMPLATE_PLACEHOLDERS[name];
+  const used = Array.from(instructions.matchAll(/\{\{\s*(\w+)\s*\}\}/g), (match) => match[1]);
+  return [...new Set(used.filter((placeholder) => !known.includes(placeholder)))];
+}
+
+export function renderPromptTemplate(
+  instructions: string,
+  values: Record<string, string | number>
+): string {
+  return instructions.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder
+  );
+}
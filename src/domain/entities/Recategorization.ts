@@ -0,0 +1,116 @@
+/**
+ * Recategorization review - flags categorized transactions that disagree with their evidence
+ * P1 (Single Responsibility): Pure decision over payee history, cache and classifier evidence
+ */
+
+import type { CategorySuggestionSource } from './Suggestion.js';
+
+/** How often a category was used for the same payee, excluding the reviewed transaction */
+export interface PayeeHistoryCount {
+  categoryId: string;
+  categoryName: string;
+  count: number;
+}
+
+/** A single opinion about what the category should be */
+export interface CategoryOpinion {
+  categoryId: string;
+  categoryName: string;
+  confidence: number;
+}
+
+export interface RecategorizationEvidence {
+  payeeHistory: PayeeHistoryCount[];
+  cacheEntry: (CategoryOpinion & { source: CategorySuggestionSource }) | null;
+  classifier: CategoryOpinion | null;
+}
+
+export interface RecategorizationProposal {
+  categoryId: string;
+  categoryName: string;
+  confidence: number;
+  source: CategorySuggestionSource;
+  rationale: string;
+}
+
+export const RECATEGORIZATION_THRESHOLDS = {
+  MIN_HISTORY_COUNT: 4, // Other transactions of the payee needed before history counts
+  MIN_HISTORY_SHARE: 0.8, // Share of the dominant category to contradict the current one
+  MAX_CURRENT_SHARE: 0.1, // Above this share the current category is an established choice
+  MIN_CACHE_CONFIDENCE: 0.9,
+  MIN_CLASSIFIER_CONFIDENCE: 0.9,
+} as const;
+
+/**
+ * Decide whether a categorized transaction looks miscategorized
+ * Returns null when the evidence is weak or when payee history backs the current category
+ */
+export function detectMiscategorization(
+  currentCategoryId: string,
+  evidence: RecategorizationEvidence
+): RecategorizationProposal | null {
+  const totalHistory = evidence.payeeHistory.reduce((sum, entry) => sum + entry.count, 0);
+  const hasHistory = totalHistory >= RECATEGORIZATION_THRESHOLDS.MIN_HISTORY_COUNT;
+  const currentCount =
+    evidence.payeeHistory.find((entry) => entry.categoryId === currentCategoryId)?.count ?? 0;
+
+  if (hasHistory && currentCount / totalHistory > RECATEGORIZATION_THRESHOLDS.MAX_CURRENT_SHARE) {
+    return null;
+  }
+
+  const candidates: Array<CategoryOpinion & { source: CategorySuggestionSource; reason: string }> =
+    [];
+
+  if (hasHistory) {
+    const dominant = evidence.payeeHistory.reduce((a, b) => (b.count > a.count ? b : a));
+    const share = dominant.count / totalHistory;
+    if (share >= RECATEGORIZATION_THRESHOLDS.MIN_HISTORY_SHARE) {
+      candidates.push({
+        categoryId: dominant.categoryId,
+        categoryName: dominant.categoryName,
+        confidence: Math.round(share * 100) / 100,
+        source: 'payee_history',
+        reason: `payee is ${dominant.categoryName} in ${dominant.count} of ${totalHistory} other transactions`,
+      });
+    }
+  }
+
+  const cacheEntry = evidence.cacheEntry;
+  if (cacheEntry && cacheEntry.confidence >= RECATEGORIZATION_THRESHOLDS.MIN_CACHE_CONFIDENCE) {
+    candidates.push({
+      ...cacheEntry,
+      reason:
+        cacheEntry.source === 'cache_user_approved'
+          ? `previously approved mapping to ${cacheEntry.categoryName}`
+          : `cached AI mapping to ${cacheEntry.categoryName}`,
+    });
+  }
+
+  const classifier = evidence.classifier;
+  if (
+    classifier &&
+    classifier.confidence >= RECATEGORIZATION_THRESHOLDS.MIN_CLASSIFIER_CONFIDENCE
+  ) {
+    candidates.push({
+      ...classifier,
+      source: 'local_classifier',
+      reason: `local classifier predicts ${classifier.categoryName} (${Math.round(classifier.confidence * 100)}%)`,
+    });
+  }
+
+  const disagreeing = candidates.filter((c) => c.categoryId !== currentCategoryId);
+  if (disagreeing.length === 0) {
+    return null;
+  }
+
+  const best = disagreeing.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+  const agreeing = disagreeing.filter((c) => c.categoryId === best.categoryId);
+
+  return {
+    categoryId: best.categoryId,
+    categoryName: best.categoryName,
+    confidence: best.confidence,
+    source: best.source,
+    rationale: `Recategorize: ${agreeing.map((c) => c.reason).join('; ')}`,
+  };
+}
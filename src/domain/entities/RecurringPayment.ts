@@ -0,0 +1,186 @@
+import type { Transaction } from './BudgetSnapshot.js';
+
+/**
+ * RecurringPayment entity - a payee charged on a stable cadence with a stable amount
+ * P1 (Single Responsibility): Pure detection over transaction history; schedules are
+ * created in Actual Budget by the service layer
+ */
+
+export type RecurringCadence = 'weekly' | 'monthly' | 'yearly';
+
+/** active: next charge still expected; stopped: the expected charge is overdue */
+export type RecurringPaymentStatus = 'active' | 'stopped';
+
+export interface RecurringPayment {
+  id: string; // UUID v4
+  budgetId: string;
+  payeeId: string;
+  payeeName: string;
+  accountId: string; // Account of the latest charge
+  accountName: string | null;
+  cadence: RecurringCadence;
+  occurrences: number; // Charges considered (most recent ones only)
+  minAmount: number; // Positive cents
+  maxAmount: number; // Positive cents
+  lastAmount: number; // Positive cents
+  previousAmount: number; // Typical amount before the latest charge, positive cents
+  priceIncrease: boolean;
+  lastDate: string; // YYYY-MM-DD
+  nextExpectedDate: string; // YYYY-MM-DD
+  status: RecurringPaymentStatus;
+  scheduleId: string | null; // Matching or created Actual Budget schedule
+  detectedAt: string; // ISO 8601 timestamp
+}
+
+/** A detection result before it is tied to a budget and a schedule */
+export type RecurringPaymentCandidate = Omit<
+  RecurringPayment,
+  'id' | 'budgetId' | 'scheduleId' | 'detectedAt'
+>;
+
+interface CadenceSpec {
+  days: number;
+  tolerance: number; // Allowed deviation of a single interval, in days
+  minOccurrences: number;
+}
+
+export const CADENCES: Record<RecurringCadence, CadenceSpec> = {
+  weekly: { days: 7, tolerance: 2, minOccurrences: 4 },
+  monthly: { days: 30.4, tolerance: 5, minOccurrences: 3 },
+  yearly: { days: 365, tolerance: 20, minOccurrences: 2 },
+};
+
+export const RECURRING_THRESHOLDS = {
+  MAX_OCCURRENCES: 12, // Only the most recent charges are analysed
+  MIN_REGULAR_SHARE: 0.75, // Share of intervals that must match the cadence
+  MAX_AMOUNT_DEVIATION: 0.25, // Allowed deviation of an earlier charge from their median amount
+  MIN_PRICE_INCREASE: 0.02, // Latest charge must exceed the previous typical amount by this share
+} as const;
+
+const DAY_MS = 86_400_000;
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / DAY_MS);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Add one cadence period to a YYYY-MM-DD date
+ * Month ends are clamped (Jan 31 + 1 month → Feb 28/29)
+ */
+export function addCadence(date: string, cadence: RecurringCadence): string {
+  const [year, month, day] = date.split('-').map(Number);
+  if (cadence === 'weekly') {
+    return new Date(Date.UTC(year, month - 1, day + 7)).toISOString().slice(0, 10);
+  }
+
+  const targetYear = cadence === 'yearly' ? year + 1 : year + Math.floor(month / 12);
+  const targetMonth = cadence === 'yearly' ? month - 1 : month % 12;
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(targetYear, targetMonth, Math.min(day, lastDay)))
+    .toISOString()
+    .slice(0, 10);
+}
+
+function classifyCadence(intervals: number[]): RecurringCadence | null {
+  const typical = median(intervals);
+  for (const [cadence, spec] of Object.entries(CADENCES) as [RecurringCadence, CadenceSpec][]) {
+    if (Math.abs(typical - spec.days) > spec.tolerance) continue;
+    const regular = intervals.filter((days) => Math.abs(days - spec.days) <= spec.tolerance);
+    if (regular.length / intervals.length >= RECURRING_THRESHOLDS.MIN_REGULAR_SHARE) {
+      return cadence;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find payees charged on a stable weekly, monthly or yearly cadence with a stable amount
+ * The latest charge is left out of the stability check so a price increase of any size is
+ * reported rather than hiding the payment. Only outflows with a payee count; transfers are
+ * ignored. A payment is "stopped" once the
+ * expected charge is overdue by twice the cadence tolerance.
+ */
+export function detectRecurringPayments(
+  transactions: Transaction[],
+  today: string
+): RecurringPaymentCandidate[] {
+  const byPayee = new Map<string, Transaction[]>();
+  for (const txn of transactions) {
+    if (!txn.payeeId || !txn.payeeName || txn.isTransfer || txn.amount >= 0) continue;
+    const existing = byPayee.get(txn.payeeId) ?? [];
+    existing.push(txn);
+    byPayee.set(txn.payeeId, existing);
+  }
+
+  const results: RecurringPaymentCandidate[] = [];
+  for (const [payeeId, history] of byPayee) {
+    const recent = history
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-RECURRING_THRESHOLDS.MAX_OCCURRENCES);
+    if (recent.length < 2) continue;
+
+    const intervals = recent.slice(1).map((txn, i) => daysBetween(recent[i].date, txn.date));
+    if (intervals.some((days) => days <= 0)) continue; // Several charges on one day
+
+    const cadence = classifyCadence(intervals);
+    if (!cadence || recent.length < CADENCES[cadence].minOccurrences) continue;
+
+    const amounts = recent.map((txn) => Math.abs(txn.amount));
+    const earlierAmounts = amounts.slice(0, -1);
+    const previousAmount = median(earlierAmounts);
+    const isStableAmount = earlierAmounts.every(
+      (amount) =>
+        Math.abs(amount - previousAmount) <=
+        previousAmount * RECURRING_THRESHOLDS.MAX_AMOUNT_DEVIATION
+    );
+    if (!isStableAmount) continue;
+
+    const last = recent[recent.length - 1];
+    const lastAmount = Math.abs(last.amount);
+    const nextExpectedDate = addCadence(last.date, cadence);
+    const overdueDays = daysBetween(nextExpectedDate, today);
+
+    results.push({
+      payeeId,
+      payeeName: last.payeeName ?? payeeId,
+      accountId: last.accountId,
+      accountName: last.accountName,
+      cadence,
+      occurrences: recent.length,
+      minAmount: Math.min(...amounts),
+      maxAmount: Math.max(...amounts),
+      lastAmount,
+      previousAmount: Math.round(previousAmount),
+      priceIncrease: lastAmount >= previousAmount * (1 + RECURRING_THRESHOLDS.MIN_PRICE_INCREASE),
+      lastDate: last.date,
+      nextExpectedDate,
+      status: overdueDays > CADENCES[cadence].tolerance * 2 ? 'stopped' : 'active',
+    });
+  }
+
+  return results.sort((a, b) => a.payeeName.localeCompare(b.payeeName));
+}
+
+/**
+ * Factory function to create a RecurringPayment from a detection result
+ * P4 (Explicitness): All fields explicitly provided
+ */
+export function createRecurringPayment(params: {
+  budgetId: string;
+  candidate: RecurringPaymentCandidate;
+  scheduleId: string | null;
+}): RecurringPayment {
+  return {
+    id: crypto.randomUUID(),
+    budgetId: params.budgetId,
+    ...params.candidate,
+    scheduleId: params.scheduleId,
+    detectedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Redaction - replaces personal data in text sent to AI backends with placeholder tokens
+ * P1 (Single Responsibility): Detection and token bookkeeping only; RedactingAIAdapter applies
+ * it to requests and restores tokens in responses
+ */
+
+export const REDACTION_DETECTORS = ['email', 'card', 'phone', 'person', 'reference'] as const;
+
+export type RedactionDetector = (typeof REDACTION_DETECTORS)[number];
+
+export interface RedactionRule {
+  label: string; // Placeholder prefix, e.g. CARD → [CARD_1]
+  pattern: RegExp; // Must be global
+  group?: number; // Capture group to replace instead of the whole match
+}
+
+/** Payment apps whose payee strings name the person on the other side */
+const P2P_APPS = String.raw`(?:zelle|venmo|cash\s?app|paypal|apple\s?cash)`;
+
+/**
+ * Built-in detectors, applied in REDACTION_DETECTORS order so that e.g. a phone number is
+ * not first taken for a reference number
+ */
+export const BUILT_IN_REDACTION_RULES: Record<RedactionDetector, RedactionRule> = {
+  email: {
+    label: 'EMAIL',
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  },
+  // Masked fragments (XXXX1234, ****1234) and full card numbers
+  card: {
+    label: 'CARD',
+    pattern:
+      /(?:[X*#]{2,}[\s-]?)+\d{4}\b|\b\d{4}(?:[\s-]\d{4}){2,3}(?:[\s-]\d{1,4})?\b|\b\d{13,19}\b/gi,
+  },
+  phone: {
+    label: 'PHONE',
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]?\d{4}\b/g,
+  },
+  // Counterparty of person-to-person payments: "ZELLE TO JOHN SMITH", "VENMO *JANE DOE"
+  person: {
+    label: 'NAME',
+    pattern: new RegExp(
+      String.raw`\b${P2P_APPS}\s*(?:payment\s+|transfer\s+)?(?:to\b|from\b|\*)\s*([a-z][a-z'-]+(?:\s+[a-z][a-z'-]+)?)`,
+      'gi'
+    ),
+    group: 1,
+  },
+  // Labelled references containing a digit (REF# AB12CD, CONF 123456) and unlabelled runs of
+  // 10+ digits; dates, store numbers and digits inside ids (category UUIDs in prompts) are
+  // left alone
+  reference: {
+    label: 'REF',
+    pattern:
+      /\b(?:ref|reference|conf|confirmation|txn|trace|auth)\s*[#:.]?\s*(?=[a-z-]*\d)[a-z0-9-]{4,}\b|(?<![\w-])\d{10,}(?![\w-])/gi,
+  },
+};
+
+/** Rules for the enabled detectors followed by user patterns (label → regex source) */
+export function buildRedactionRules(
+  detectors: RedactionDetector[],
+  customPatterns: Record<string, string>
+): RedactionRule[] {
+  return [
+    ...REDACTION_DETECTORS.filter((detector) => detectors.includes(detector)).map(
+      (detector) => BUILT_IN_REDACTION_RULES[detector]
+    ),
+    ...Object.entries(customPatterns).map(([label, source]) => ({
+      label,
+      pattern: new RegExp(source, 'gi'),
+    })),
+  ];
+}
+
+/**
+ * Placeholders issued for one request; the same value always gets the same token, so the
+ * model can still tell that two lines mention the same card or person
+ */
+export interface RedactionMap {
+  tokens: Map<string, string>; // token → original value
+  values: Map<string, string>; // label + original value → token
+  counts: Record<string, number>; // label → distinct values replaced
+}
+
+export function createRedactionMap(): RedactionMap {
+  return { tokens: new Map(), values: new Map(), counts: {} };
+}
+
+function tokenFor(map: RedactionMap, label: string, value: string): string {
+  const key = `${label}:${value}`;
+  const existing = map.values.get(key);
+  if (existing) return existing;
+
+  map.counts[label] = (map.counts[label] ?? 0) + 1;
+  const token = `[${label}_${map.counts[label]}]`;
+  map.values.set(key, token);
+  map.tokens.set(token, value);
+  return token;
+}
+
+export function redactText(text: string, rules: RedactionRule[], map: RedactionMap): string {
+  return rules.reduce((current, rule) => {
+    rule.pattern.lastIndex = 0;
+    return current.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+      if (rule.group === undefined) return tokenFor(map, rule.label, match);
+
+      const value = groups[rule.group - 1];
+      if (typeof value !== 'string' || value === '') return match;
+      const start = match.lastIndexOf(value);
+      return `${match.slice(0, start)}${tokenFor(map, rule.label, value)}${match.slice(start + value.length)}`;
+    });
+  }, text);
+}
+
+/**
+ * Put the original values back in place of tokens a response repeats
+ * In JSON the tokens sit inside string literals, so the values are escaped to keep it valid
+ */
+export function restoreText(
+  text: string,
+  map: RedactionMap,
+  options: { json?: boolean } = {}
+): string {
+  if (map.tokens.size === 0) return text;
+  return text.replace(/\[[A-Z][A-Z0-9_]*_\d+\]/g, (token) => {
+    const value = map.tokens.get(token);
+    if (value === undefined) return token;
+    return options.json ? JSON.stringify(value).slice(1, -1) : value;
+  });
+}
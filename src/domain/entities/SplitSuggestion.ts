@@ -0,0 +1,138 @@
+import type { Transaction } from './BudgetSnapshot.js';
+import type { SuggestionComponentStatus, SuggestionStatus } from './Suggestion.js';
+
+/**
+ * Split suggestion - proposes dividing one transaction across several categories
+ * P1 (Single Responsibility): Learns split patterns from a payee's past split transactions
+ */
+
+/** Single proposed split line */
+export interface SplitSuggestionLine {
+  amount: number; // In cents, same sign as the parent transaction
+  categoryId: string;
+  categoryName: string;
+}
+
+/** Split suggestion component */
+export interface SplitSuggestion {
+  lines: SplitSuggestionLine[];
+  confidence: number;
+  rationale: string;
+  status: SuggestionComponentStatus;
+}
+
+/** Number of most recent matching splits used to average category shares */
+const MAX_SPLIT_HISTORY = 5;
+
+/** Minimum share of the payee's categorized history that must be split */
+const MIN_SPLIT_RATE = 0.5;
+
+function isCategorizedSplit(txn: Transaction): boolean {
+  return (
+    txn.amount !== 0 &&
+    (txn.splits?.length ?? 0) >= 2 &&
+    (txn.splits ?? []).every((split) => Boolean(split.categoryId))
+  );
+}
+
+/**
+ * Learn a split proposal for a new transaction from how the payee was split before
+ * Uses the most common set of categories and averages each category's share of the total.
+ * Returns null when the payee is not usually split.
+ */
+export function learnSplitSuggestion(
+  history: Transaction[],
+  amount: number
+): Omit<SplitSuggestion, 'status'> | null {
+  if (amount === 0) return null;
+
+  const splitHistory = history.filter(isCategorizedSplit);
+  if (splitHistory.length === 0) return null;
+
+  const unsplitCount = history.filter((txn) => !txn.splits?.length && txn.categoryId).length;
+  const splitRate = splitHistory.length / (splitHistory.length + unsplitCount);
+  if (splitRate < MIN_SPLIT_RATE) return null;
+
+  // Group past splits by their set of categories
+  const bySignature = new Map<string, Transaction[]>();
+  for (const txn of splitHistory) {
+    const signature = Array.from(new Set((txn.splits ?? []).map((split) => split.categoryId)))
+      .sort()
+      .join('|');
+    const group = bySignature.get(signature) ?? [];
+    group.push(txn);
+    bySignature.set(signature, group);
+  }
+
+  const [, pattern] = Array.from(bySignature.entries()).sort(
+    ([, a], [, b]) =>
+      b.length - a.length ||
+      Math.max(...b.map((t) => Date.parse(t.date))) - Math.max(...a.map((t) => Date.parse(t.date)))
+  )[0];
+  const recent = [...pattern]
+    .sort((a, b) => Date.parse(b.date) - Date.parse(a.date))
+    .slice(0, MAX_SPLIT_HISTORY);
+
+  // Average share of the parent amount per category
+  const shares = new Map<string, { categoryName: string; total: number }>();
+  for (const txn of recent) {
+    for (const split of txn.splits ?? []) {
+      const categoryId = split.categoryId as string;
+      const entry = shares.get(categoryId) ?? {
+        categoryName: split.categoryName || 'Unknown',
+        total: 0,
+      };
+      entry.total += split.amount / txn.amount;
+      shares.set(categoryId, entry);
+    }
+  }
+
+  const ordered = Array.from(shares.entries())
+    .map(([categoryId, { categoryName, total }]) => ({
+      categoryId,
+      categoryName,
+      share: total / recent.length,
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  // Round each line to cents; the last line absorbs rounding so lines sum to the total
+  let remaining = amount;
+  const lines: SplitSuggestionLine[] = ordered.map((entry, index) => {
+    const lineAmount = index === ordered.length - 1 ? remaining : Math.round(amount * entry.share);
+    remaining -= lineAmount;
+    return { amount: lineAmount, categoryId: entry.categoryId, categoryName: entry.categoryName };
+  });
+
+  const consistency = pattern.length / splitHistory.length;
+  const confidence =
+    Math.round(splitRate * consistency * (pattern.length / (pattern.length + 1)) * 100) / 100;
+  const breakdown = ordered
+    .map((entry) => `${Math.round(entry.share * 100)}% ${entry.categoryName}`)
+    .join(', ');
+
+  return {
+    lines,
+    confidence,
+    rationale: `Split like ${pattern.length} past transaction${pattern.length === 1 ? '' : 's'} for this payee: ${breakdown}`,
+  };
+}
+
+/**
+ * Derive the split status when the whole suggestion changes status (legacy approve/reject/reset)
+ * An approved split survives a full approve; otherwise the single category wins.
+ */
+export function deriveSplitStatus(
+  current: SuggestionComponentStatus,
+  status: SuggestionStatus
+): SuggestionComponentStatus {
+  switch (status) {
+    case 'pending':
+      return 'pending';
+    case 'approved':
+      return current === 'approved' ? 'approved' : 'skipped';
+    case 'rejected':
+      return 'rejected';
+    case 'applied':
+      return current === 'approved' ? 'applied' : current;
+  }
+}
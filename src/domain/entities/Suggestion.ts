@@ -4,6 +4,8 @@
  * P1 (Single Responsibility): Represents suggestions that can be approved/rejected independently
  */
 
+import { deriveSplitStatus, type SplitSuggestion } from './SplitSuggestion.js';
+
 /** Status for individual suggestion components */
 export type SuggestionComponentStatus = 'pending' | 'approved' | 'rejected' | 'applied' | 'skipped';
 
@@ -11,7 +13,23 @@ export type SuggestionComponentStatus = 'pending' | 'approved' | 'rejected' | 'a
 export type SuggestionStatus = 'pending' | 'approved' | 'rejected' | 'applied';
 
 /** Type of suggestion (extensible for future types like payee rules) */
-export type SuggestionType = 'payee' | 'category' | 'payee_rule';
+export type SuggestionType = 'payee' | 'category' | 'payee_rule' | 'transfer';
+
+/**
+ * categorize: proposes a category for an uncategorized transaction
+ * recategorize: questions the category an already-categorized transaction has
+ */
+export type SuggestionKind = 'categorize' | 'recategorize';
+
+/** Pipeline stage that produced a category suggestion */
+export type CategorySuggestionSource =
+  | 'cache_user_approved'
+  | 'cache_ai'
+  | 'payee_history'
+  | 'fuzzy_match'
+  | 'local_classifier'
+  | 'ai_with_context'
+  | 'ai_web_search';
 
 /**
  * Payee suggestion component
@@ -22,6 +40,7 @@ export interface PayeeSuggestion {
   confidence: number;
   rationale: string;
   status: SuggestionComponentStatus;
+  promptVersion: string | null; // Prompt template that produced it (payee_identification@v2)
 }
 
 /**
@@ -33,6 +52,8 @@ export interface CategorySuggestion {
   confidence: number;
   rationale: string;
   status: SuggestionComponentStatus;
+  source: CategorySuggestionSource | null; // Null for placeholders and legacy rows
+  promptVersion: string | null; // Prompt template that produced it; null without AI
 }
 
 /**
@@ -51,6 +72,7 @@ export interface SuggestionCorrection {
 export interface Suggestion {
   id: string; // UUID v4
   budgetId: string; // Actual Budget ID
+  kind: SuggestionKind;
   transactionId: string;
   transactionAccountId: string | null;
   transactionAccountName: string | null;
@@ -60,6 +82,7 @@ export interface Suggestion {
 
   // Current state
   currentCategoryId: string | null;
+  currentCategoryName: string | null; // Set for recategorize suggestions
   currentPayeeId: string | null;
 
   // Independent payee suggestion
@@ -68,6 +91,9 @@ export interface Suggestion {
   // Independent category suggestion
   categorySuggestion: CategorySuggestion;
 
+  // Optional split across several categories (alternative to the single category)
+  splitSuggestion: SplitSuggestion | null;
+
   // User corrections (when rejecting with correction)
   correction: SuggestionCorrection;
 
@@ -154,6 +180,7 @@ export function computeCombinedRationale(
  */
 export function createSuggestion(params: {
   budgetId: string;
+  kind?: SuggestionKind;
   transactionId: string;
   transactionAccountId?: string | null;
   transactionAccountName?: string | null;
@@ -161,6 +188,7 @@ export function createSuggestion(params: {
   transactionAmount?: number | null;
   transactionDate?: string | null;
   currentCategoryId: string | null;
+  currentCategoryName?: string | null;
   currentPayeeId?: string | null;
 
   // Payee suggestion (optional - can be skipped if no payee change needed)
@@ -169,6 +197,7 @@ export function createSuggestion(params: {
   payeeConfidence?: number;
   payeeRationale?: string;
   payeeStatus?: SuggestionComponentStatus;
+  payeePromptVersion?: string | null;
 
   // Category suggestion
   proposedCategoryId: string | null;
@@ -176,6 +205,11 @@ export function createSuggestion(params: {
   categoryConfidence?: number;
   categoryRationale?: string;
   categoryStatus?: SuggestionComponentStatus;
+  categorySource?: CategorySuggestionSource | null;
+  categoryPromptVersion?: string | null;
+
+  // Split suggestion (optional - only for payees that are usually split)
+  splitSuggestion?: Omit<SplitSuggestion, 'status'> | null;
 
   // Legacy compatibility
   suggestedPayeeName?: string | null;
@@ -198,6 +232,7 @@ export function createSuggestion(params: {
   const suggestion: Suggestion = {
     id: crypto.randomUUID(),
     budgetId: params.budgetId,
+    kind: params.kind ?? 'categorize',
     transactionId: params.transactionId,
     transactionAccountId: params.transactionAccountId || null,
     transactionAccountName: params.transactionAccountName || null,
@@ -205,6 +240,7 @@ export function createSuggestion(params: {
     transactionAmount: params.transactionAmount || null,
     transactionDate: params.transactionDate || null,
     currentCategoryId: params.currentCategoryId,
+    currentCategoryName: params.currentCategoryName ?? null,
     currentPayeeId: params.currentPayeeId || null,
 
     payeeSuggestion: {
@@ -213,6 +249,7 @@ export function createSuggestion(params: {
       confidence: payeeConfidence,
       rationale: payeeRationale,
       status: payeeStatus,
+      promptVersion: params.payeePromptVersion ?? null,
     },
 
     categorySuggestion: {
@@ -221,8 +258,14 @@ export function createSuggestion(params: {
       confidence: categoryConfidence,
       rationale: categoryRationale,
       status: categoryStatus,
+      source: params.categorySource ?? null,
+      promptVersion: params.categoryPromptVersion ?? null,
     },
 
+    splitSuggestion: params.splitSuggestion
+      ? { ...params.splitSuggestion, status: 'pending' }
+      : null,
+
     correction: {
       correctedPayeeId: null,
       correctedPayeeName: null,
@@ -363,6 +406,12 @@ export function transitionSuggestionStatus(
     ...suggestion,
     payeeSuggestion: { ...suggestion.payeeSuggestion, status: payeeStatus },
     categorySuggestion: { ...suggestion.categorySuggestion, status: categoryStatus },
+    splitSuggestion: suggestion.splitSuggestion
+      ? {
+          ...suggestion.splitSuggestion,
+          status: deriveSplitStatus(suggestion.splitSuggestion.status, newStatus),
+        }
+      : null,
     status: newStatus,
     updatedAt: new Date().toISOString(),
   };
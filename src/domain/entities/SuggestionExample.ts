@@ -0,0 +1,111 @@
+/**
+ * SuggestionExample entity - a payee or category the user approved or corrected, kept as a
+ * few-shot example for later prompts
+ * P1 (Single Responsibility): Example selection and prompt text only; retrieval by payee
+ * similarity lives in SuggestionService
+ */
+
+export type SuggestionExampleKind = 'payee' | 'category';
+
+export interface SuggestionExample {
+  id: string; // UUID v4
+  budgetId: string;
+  suggestionId: string; // One example per suggestion and kind; later decisions replace it
+  kind: SuggestionExampleKind;
+  payeeName: string; // Raw payee of the transaction
+  proposedName: string | null; // What we suggested
+  chosenId: string | null; // Category id, or payee id when known
+  chosenName: string; // What the user approved or corrected to
+  corrected: boolean;
+  createdAt: string; // ISO 8601 timestamp
+}
+
+export const EXAMPLE_SELECTION = {
+  MIN_SIMILARITY: 60, // Fuzzy payee score (0-100) for an example to be relevant
+  MAX_EXAMPLES: 8,
+  CHARS_PER_TOKEN: 4, // Rough estimate, good enough to keep prompts bounded
+} as const;
+
+/** An example chosen for one prompt, with the id the model cites it by */
+export interface PromptExample {
+  label: string; // E1, E2, ...
+  example: SuggestionExample;
+  line: string;
+}
+
+export function createSuggestionExample(params: {
+  budgetId: string;
+  suggestionId: string;
+  kind: SuggestionExampleKind;
+  payeeName: string;
+  proposedName: string | null;
+  chosenId: string | null;
+  chosenName: string;
+}): SuggestionExample {
+  return {
+    id: crypto.randomUUID(),
+    ...params,
+    corrected: params.proposedName !== params.chosenName,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / EXAMPLE_SELECTION.CHARS_PER_TOKEN);
+}
+
+function describeDecision(example: SuggestionExample): string {
+  const decision =
+    example.corrected && example.proposedName
+      ? `user corrected from "${example.proposedName}"`
+      : 'user approved';
+  return `"${example.payeeName}" → ${example.kind} "${example.chosenName}" (${decision})`;
+}
+
+/**
+ * Take examples in order of relevance until the token budget or MAX_EXAMPLES is reached
+ */
+export function selectPromptExamples(
+  ranked: SuggestionExample[],
+  tokenBudget: number
+): PromptExample[] {
+  const selected: PromptExample[] = [];
+  let tokens = 0;
+  for (const example of ranked) {
+    if (selected.length >= EXAMPLE_SELECTION.MAX_EXAMPLES) break;
+    const label = `E${selected.length + 1}`;
+    const line = `${label}. ${describeDecision(example)}`;
+    const lineTokens = estimateTokens(line);
+    if (tokens + lineTokens > tokenBudget) break;
+    tokens += lineTokens;
+    selected.push({ label, example, line });
+  }
+  return selected;
+}
+
+/** Prompt section listing the examples; empty when there are none */
+export function formatExamplesSection(examples: PromptExample[]): string {
+  if (examples.length === 0) return '';
+  return `
+Past decisions in this budget (most similar payees first):
+${examples.map((entry) => entry.line).join('\n')}
+Follow these decisions for the same merchant, and list the ids of those that informed your answer in exampleIds.
+`;
+}
+
+/**
+ * Rationale suffix naming the examples the model cited; empty when it cited none
+ */
+export function describeExampleInfluence(
+  examples: PromptExample[],
+  citedLabels: string[],
+  kind: SuggestionExampleKind
+): string {
+  const cited = examples.filter(
+    (entry) => entry.example.kind === kind && citedLabels.includes(entry.label)
+  );
+  if (cited.length === 0) return '';
+  return ` Based on past decisions: ${cited
+    .map((entry) => `"${entry.example.payeeName}" → ${entry.example.chosenName}`)
+    .join('; ')}.`;
+}
@@ -0,0 +1,163 @@
+import type { Transaction } from './BudgetSnapshot.js';
+import type { CategorySuggestionSource, Suggestion } from './Suggestion.js';
+
+/**
+ * SuggestionFeedback entity - what the user actually chose in Actual Budget for a transaction
+ * we had an open suggestion for
+ * P1 (Single Responsibility): Pure scoring and cache decisions; persistence lives in the
+ * repository and the learning loop in SuggestionService
+ */
+
+/**
+ * accepted: the user picked the proposed category
+ * overridden: the user picked another category
+ * unsuggested: we had no usable proposal (placeholder or "unknown")
+ */
+export type FeedbackOutcome = 'accepted' | 'overridden' | 'unsuggested';
+
+export interface SuggestionFeedback {
+  id: string; // UUID v4
+  budgetId: string;
+  suggestionId: string;
+  transactionId: string;
+  payeeName: string | null;
+  source: CategorySuggestionSource | null; // Pipeline stage that made the proposal
+  proposedCategoryId: string | null;
+  actualCategoryId: string;
+  actualCategoryName: string | null;
+  confidence: number; // Confidence of the proposal
+  outcome: FeedbackOutcome;
+  createdAt: string; // ISO 8601 timestamp
+}
+
+/** Accuracy of one pipeline stage, measured on categorizations done outside our UI */
+export interface SourceAccuracy {
+  source: CategorySuggestionSource;
+  total: number;
+  accepted: number;
+  overridden: number;
+  accuracy: number | null; // Accepted / total
+}
+
+/** Cache entry fields that feedback decisions depend on */
+export interface FeedbackCacheEntry {
+  categoryId: string;
+  confidence: number;
+  source: 'user_approved' | 'high_confidence_ai';
+  pinned: boolean;
+}
+
+/**
+ * none: leave the entry alone (pinned)
+ * learn: store the user's category as a user_approved entry
+ * reinforce: the entry already holds the user's category; raise its confidence
+ * demote: the entry disagrees with the user; lower its confidence
+ */
+export type CacheFeedbackAction =
+  | { type: 'none' }
+  | { type: 'learn' }
+  | { type: 'reinforce'; confidence: number }
+  | { type: 'demote'; confidence: number };
+
+export const FEEDBACK_THRESHOLDS = {
+  REINFORCE_STEP: 0.05,
+  DEMOTE_STEP: 0.2,
+  MIN_CACHE_CONFIDENCE: 0.5, // A user_approved entry demoted below this is replaced
+} as const;
+
+/**
+ * Compare the category the user set in Actual with our open suggestion
+ * Returns null when the transaction carries no usable category (transfer, split or cleared)
+ */
+export function createSuggestionFeedback(params: {
+  suggestion: Suggestion;
+  transaction: Transaction;
+  actualCategoryName: string | null;
+}): SuggestionFeedback | null {
+  const { suggestion, transaction } = params;
+  if (!transaction.categoryId || transaction.isTransfer || transaction.splits?.length) {
+    return null;
+  }
+
+  const proposedCategoryId = suggestion.categorySuggestion.proposedCategoryId;
+  const hasProposal = Boolean(proposedCategoryId) && proposedCategoryId !== 'unknown';
+  const outcome: FeedbackOutcome = !hasProposal
+    ? 'unsuggested'
+    : proposedCategoryId === transaction.categoryId
+      ? 'accepted'
+      : 'overridden';
+
+  return {
+    id: crypto.randomUUID(),
+    budgetId: suggestion.budgetId,
+    suggestionId: suggestion.id,
+    transactionId: transaction.id,
+    payeeName: transaction.payeeName ?? suggestion.transactionPayee,
+    source: hasProposal ? suggestion.categorySuggestion.source : null,
+    proposedCategoryId: hasProposal ? proposedCategoryId : null,
+    actualCategoryId: transaction.categoryId,
+    actualCategoryName: params.actualCategoryName,
+    confidence: suggestion.categorySuggestion.confidence,
+    outcome,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Decide how the payee→category cache reacts to a category the user chose in Actual
+ * AI entries give way to the first disagreement; user_approved entries are demoted step
+ * by step (payees like supermarkets legitimately span categories) and replaced once they
+ * fall below MIN_CACHE_CONFIDENCE
+ */
+export function decideCacheFeedback(
+  entry: FeedbackCacheEntry | null,
+  actualCategoryId: string
+): CacheFeedbackAction {
+  if (!entry) return { type: 'learn' };
+  if (entry.pinned) return { type: 'none' };
+
+  if (entry.categoryId === actualCategoryId) {
+    return {
+      type: 'reinforce',
+      confidence: Math.min(1, entry.confidence + FEEDBACK_THRESHOLDS.REINFORCE_STEP),
+    };
+  }
+
+  if (entry.source === 'high_confidence_ai') return { type: 'learn' };
+
+  const demoted = Math.round((entry.confidence - FEEDBACK_THRESHOLDS.DEMOTE_STEP) * 100) / 100;
+  return demoted < FEEDBACK_THRESHOLDS.MIN_CACHE_CONFIDENCE
+    ? { type: 'learn' }
+    : { type: 'demote', confidence: demoted };
+}
+
+/**
+ * Turn per-source outcome counts into accuracy figures, most used source first
+ */
+export function summarizeSourceAccuracy(
+  counts: Array<{ source: CategorySuggestionSource; outcome: FeedbackOutcome; count: number }>
+): SourceAccuracy[] {
+  const bySource = new Map<CategorySuggestionSource, SourceAccuracy>();
+
+  for (const { source, outcome, count } of counts) {
+    if (outcome === 'unsuggested') continue;
+    const stats = bySource.get(source) ?? {
+      source,
+      total: 0,
+      accepted: 0,
+      overridden: 0,
+      accuracy: null,
+    };
+    stats.total += count;
+    if (outcome === 'accepted') stats.accepted += count;
+    else stats.overridden += count;
+    bySource.set(source, stats);
+  }
+
+  return [...bySource.values()]
+    .map((stats) => ({
+      ...stats,
+      accuracy: stats.total > 0 ? Math.round((stats.accepted / stats.total) * 1000) / 1000 : null,
+    }))
+    .sort((a, b) => b.total - a.total);
+}
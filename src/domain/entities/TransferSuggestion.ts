@@ -0,0 +1,166 @@
+import type { SuggestionType } from './Suggestion.js';
+import { isUncategorizedTransaction, type Transaction } from './BudgetSnapshot.js';
+
+/**
+ * TransferSuggestion entity - proposed link between two imported transactions as one transfer
+ * P1 (Single Responsibility): Pairs opposite amounts across our own accounts; applying sets
+ * the transfer payee on both sides in Actual Budget
+ */
+
+/** Review status for a transfer suggestion */
+export type TransferSuggestionStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+/** Upper bound accepted for the days between the two sides of a transfer */
+export const MAX_TRANSFER_WINDOW_DAYS = 31;
+
+export interface TransferSuggestion {
+  id: string; // UUID v4
+  budgetId: string;
+  type: Extract<SuggestionType, 'transfer'>;
+  fromTransactionId: string; // Outflow side
+  fromAccountId: string;
+  fromAccountName: string | null;
+  fromPayeeName: string | null;
+  fromDate: string;
+  toTransactionId: string; // Inflow side
+  toAccountId: string;
+  toAccountName: string | null;
+  toPayeeName: string | null;
+  toDate: string;
+  amount: number; // Transferred amount in cents, always positive
+  dayGap: number;
+  confidence: number;
+  rationale: string;
+  status: TransferSuggestionStatus;
+  createdAt: string; // ISO 8601 timestamp
+  updatedAt: string; // ISO 8601 timestamp
+}
+
+/** A candidate pairing found by the matcher */
+export interface TransferMatch {
+  from: Transaction;
+  to: Transaction;
+  dayGap: number;
+  alternatives: number; // Other candidates either side could have been paired with
+}
+
+/**
+ * Stable key for a pair of transactions, used to remember rejected pairings
+ */
+export function transferPairKey(fromTransactionId: string, toTransactionId: string): string {
+  return `${fromTransactionId}:${toTransactionId}`;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000);
+}
+
+/**
+ * Pair uncategorized outflows with uncategorized inflows of the same amount in another account
+ * Closest dates are paired first and every transaction is used at most once.
+ * Pairs listed in excludedPairKeys (e.g. rejected ones) are never proposed.
+ */
+export function findTransferMatches(
+  transactions: Transaction[],
+  windowDays: number,
+  excludedPairKeys: Set<string> = new Set()
+): TransferMatch[] {
+  const candidates = transactions.filter(
+    (txn) => isUncategorizedTransaction(txn) && txn.amount !== 0
+  );
+  const inflowsByAmount = new Map<number, Transaction[]>();
+  for (const txn of candidates) {
+    if (txn.amount <= 0) continue;
+    const existing = inflowsByAmount.get(txn.amount) ?? [];
+    existing.push(txn);
+    inflowsByAmount.set(txn.amount, existing);
+  }
+
+  const edges: Array<{ from: Transaction; to: Transaction; dayGap: number }> = [];
+  const edgeCounts = new Map<string, number>();
+  for (const from of candidates) {
+    if (from.amount >= 0) continue;
+    for (const to of inflowsByAmount.get(-from.amount) ?? []) {
+      if (to.accountId === from.accountId) continue;
+      if (excludedPairKeys.has(transferPairKey(from.id, to.id))) continue;
+      const dayGap = daysBetween(from.date, to.date);
+      if (dayGap > windowDays) continue;
+
+      edges.push({ from, to, dayGap });
+      edgeCounts.set(from.id, (edgeCounts.get(from.id) ?? 0) + 1);
+      edgeCounts.set(to.id, (edgeCounts.get(to.id) ?? 0) + 1);
+    }
+  }
+
+  edges.sort(
+    (a, b) =>
+      a.dayGap - b.dayGap ||
+      a.from.date.localeCompare(b.from.date) ||
+      a.from.id.localeCompare(b.from.id) ||
+      a.to.id.localeCompare(b.to.id)
+  );
+
+  const used = new Set<string>();
+  const matches: TransferMatch[] = [];
+  for (const edge of edges) {
+    if (used.has(edge.from.id) || used.has(edge.to.id)) continue;
+    used.add(edge.from.id);
+    used.add(edge.to.id);
+    matches.push({
+      ...edge,
+      alternatives: (edgeCounts.get(edge.from.id) ?? 1) + (edgeCounts.get(edge.to.id) ?? 1) - 2,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Confidence drops with every day between the two sides and when other pairings were possible
+ * Same day, unambiguous → 0.95; ambiguous pairings never exceed 0.6
+ */
+export function computeTransferConfidence(dayGap: number, alternatives: number): number {
+  const base = Math.max(0.7, Math.round((0.95 - dayGap * 0.05) * 100) / 100);
+  return alternatives > 0 ? Math.min(base, 0.6) : base;
+}
+
+/**
+ * Factory function to create a new TransferSuggestion from a match
+ * P4 (Explicitness): All fields explicitly provided
+ */
+export function createTransferSuggestion(params: {
+  budgetId: string;
+  match: TransferMatch;
+}): TransferSuggestion {
+  const { from, to, dayGap, alternatives } = params.match;
+  const now = new Date().toISOString();
+  const amount = Math.abs(from.amount);
+  const timing = dayGap === 0 ? 'on the same day' : `${dayGap} day${dayGap === 1 ? '' : 's'} apart`;
+  const ambiguity =
+    alternatives > 0
+      ? `; ${alternatives} other candidate${alternatives === 1 ? '' : 's'} within the window`
+      : '';
+
+  return {
+    id: crypto.randomUUID(),
+    budgetId: params.budgetId,
+    type: 'transfer',
+    fromTransactionId: from.id,
+    fromAccountId: from.accountId,
+    fromAccountName: from.accountName,
+    fromPayeeName: from.payeeName,
+    fromDate: from.date,
+    toTransactionId: to.id,
+    toAccountId: to.accountId,
+    toAccountName: to.accountName,
+    toPayeeName: to.payeeName,
+    toDate: to.date,
+    amount,
+    dayGap,
+    confidence: computeTransferConfidence(dayGap, alternatives),
+    rationale: `${(amount / 100).toFixed(2)} left ${from.accountName ?? 'one account'} and arrived in ${to.accountName ?? 'another account'} ${timing}${ambiguity}`,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
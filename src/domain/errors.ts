@@ -48,6 +48,19 @@ export class AIError extends AppError {
   }
 }
 
+/**
+ * AI responses that still fail schema validation after the repair attempts (502 Bad Gateway)
+ */
+export class AIResponseValidationError extends AIError {
+  constructor(
+    backend: string,
+    public readonly issues: string[],
+    attempts: number
+  ) {
+    super('AI response failed validation', backend, { issues, attempts });
+  }
+}
+
 /**
  * Database operation errors (500 Internal Server Error)
  */
@@ -75,6 +88,15 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Request conflicts with work already in progress (409 Conflict)
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'CONFLICT', 409, details);
+  }
+}
+
 /**
  * Configuration errors - fail fast on startup (500 Internal Server Error)
  */
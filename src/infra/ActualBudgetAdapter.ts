@@ -1,8 +1,8 @@
 import api from '@actual-app/api';
-import { ActualBudgetError } from '../domain/errors.js';
+import { ActualBudgetError, ConflictError } from '../domain/errors.js';
 import { logger } from './logger.js';
 import type { Env } from './env.js';
-import type { Transaction, Category } from '../domain/entities/BudgetSnapshot.js';
+import type { Transaction, TransactionSplit, Category } from '../domain/entities/BudgetSnapshot.js';
 import type { Template } from '@actual-app/core/types/models/templates';
 
 type ActualAccount = {
@@ -54,11 +54,21 @@ type ActualTransaction = {
   amount: number;
   cleared?: boolean;
   transfer_id?: string | null;
+  subtransactions?: ActualTransaction[];
 };
 
 type ActualSchedule = {
   id: string;
   name?: string | null;
+  payee?: string | null;
+  completed?: boolean;
+  tombstone?: boolean;
+};
+
+type ActualRule = {
+  id: string;
+  conditions?: { field?: string; op?: string; value?: unknown }[];
+  actions?: { field?: string; op?: string; value?: unknown }[];
   tombstone?: boolean;
 };
 
@@ -150,6 +160,25 @@ export interface CategorizedPayee {
   transactionCount: number;
 }
 
+/**
+ * Schedule as seen by the app; payeeId comes from the schedule's payee condition
+ */
+export interface BudgetSchedule {
+  id: string;
+  name: string | null;
+  payeeId: string | null;
+  completed: boolean;
+}
+
+/**
+ * Existing rule that sets a category for one or more payees
+ */
+export interface PayeeCategoryRule {
+  ruleId: string;
+  payeeIds: string[];
+  categoryId: string;
+}
+
 /**
  * Actual Budget API adapter following P5 (separation of concerns)
  * Wraps @actual-app/api with explicit error handling (P7)
@@ -238,6 +267,15 @@ export class ActualBudgetAdapter {
             amount: txn.amount,
             cleared: txn.cleared || false,
             isTransfer: Boolean(txn.transfer_id),
+            ...(txn.subtransactions?.length && {
+              splits: txn.subtransactions.map((sub): TransactionSplit => ({
+                id: sub.id,
+                amount: sub.amount,
+                categoryId: sub.category || null,
+                categoryName: categories.find((c) => c.id === sub.category)?.name || null,
+                notes: sub.notes || null,
+              })),
+            }),
           });
         }
       }
@@ -492,11 +530,16 @@ export class ActualBudgetAdapter {
   }
 
   /**
-   * Update transaction with multiple fields (category and/or payee)
+   * Update transaction with multiple fields (category, payee and/or split lines)
+   * Split lines are written as child transactions; the parent category is cleared
    */
   async updateTransaction(
     transactionId: string,
-    updates: { categoryId?: string | null; payeeId?: string | null }
+    updates: {
+      categoryId?: string | null;
+      payeeId?: string | null;
+      splits?: { amount: number; categoryId: string; notes?: string | null }[];
+    }
   ): Promise<void> {
     this.ensureInitialized();
 
@@ -509,6 +552,14 @@ export class ActualBudgetAdapter {
       if (updates.payeeId !== undefined) {
         updatePayload.payee = updates.payeeId || undefined;
       }
+      if (updates.splits && updates.splits.length > 0) {
+        updatePayload.category = null;
+        updatePayload.subtransactions = updates.splits.map((split) => ({
+          amount: split.amount,
+          category: split.categoryId,
+          ...(split.notes && { notes: split.notes }),
+        }));
+      }
 
       if (Object.keys(updatePayload).length === 0) {
         return; // Nothing to update
@@ -549,26 +600,196 @@ export class ActualBudgetAdapter {
   }
 
   /**
-   * Get active schedule names from the budget
+   * Get open on-budget accounts (the ones transactions are fetched from)
+   */
+  async getAccounts(): Promise<{ id: string; name: string }[]> {
+    this.ensureInitialized();
+
+    try {
+      const accounts = (await api.getAccounts()) as ActualAccount[];
+      return accounts
+        .filter((account) => !account.closed && !account.offbudget)
+        .map((account) => ({ id: account.id, name: account.name ?? account.id }));
+    } catch (error) {
+      throw new ActualBudgetError('Failed to fetch accounts', { error });
+    }
+  }
+
+  /**
+   * Link two existing transactions as one transfer
+   * Each side gets the other account's transfer payee and points at the other transaction,
+   * so Actual treats them as a pair instead of creating a new counterpart
+   */
+  async linkTransfer(
+    from: { transactionId: string; accountId: string },
+    to: { transactionId: string; accountId: string }
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      const payees = (await api.getPayees()) as ActualPayee[];
+      const transferPayeeFor = (accountId: string) => {
+        const payee = payees.find((p) => p.transfer_acct === accountId);
+        if (!payee) {
+          throw new Error(`No transfer payee for account ${accountId}`);
+        }
+        return payee.id;
+      };
+      const toPayeeId = transferPayeeFor(to.accountId);
+      const fromPayeeId = transferPayeeFor(from.accountId);
+
+      await api.updateTransaction(from.transactionId, {
+        payee: toPayeeId,
+        transfer_id: to.transactionId,
+        category: null,
+      });
+      await api.updateTransaction(to.transactionId, {
+        payee: fromPayeeId,
+        transfer_id: from.transactionId,
+        category: null,
+      });
+
+      logger.info('Linked transactions as transfer', {
+        fromTransactionId: from.transactionId,
+        toTransactionId: to.transactionId,
+      });
+    } catch (error) {
+      throw new ActualBudgetError('Failed to link transfer', {
+        fromTransactionId: from.transactionId,
+        toTransactionId: to.transactionId,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Get schedules from the budget (unnamed ones included)
    */
-  async getSchedules(): Promise<{ id: string; name: string }[]> {
+  async getSchedules(): Promise<BudgetSchedule[]> {
     this.ensureInitialized();
 
     try {
       const schedules = (await api.getSchedules()) as ActualSchedule[];
       return schedules
-        .filter(
-          (schedule): schedule is ActualSchedule & { id: string; name: string } =>
-            typeof schedule.id === 'string' &&
-            typeof schedule.name === 'string' &&
-            !schedule.tombstone
-        )
-        .map((schedule) => ({ id: schedule.id, name: schedule.name }));
+        .filter((schedule) => typeof schedule.id === 'string' && !schedule.tombstone)
+        .map((schedule) => ({
+          id: schedule.id,
+          name: schedule.name || null,
+          payeeId: schedule.payee || null,
+          completed: schedule.completed === true,
+        }));
     } catch (error) {
       throw new ActualBudgetError('Failed to fetch schedules', { error });
     }
   }
 
+  /**
+   * Create a schedule that expects an approximate amount from a payee on a fixed cadence
+   * Returns the new schedule ID; Actual refuses a name another schedule already has
+   */
+  async createSchedule(params: {
+    name: string;
+    payeeId: string;
+    accountId: string;
+    amount: number; // Signed cents, negative for outflows
+    frequency: 'weekly' | 'monthly' | 'yearly';
+    startDate: string; // YYYY-MM-DD, first expected occurrence
+  }): Promise<string> {
+    this.ensureInitialized();
+
+    try {
+      const scheduleId = await api.createSchedule({
+        name: params.name,
+        posts_transaction: false,
+        payee: params.payeeId,
+        account: params.accountId,
+        amount: params.amount,
+        amountOp: 'isapprox',
+        date: {
+          frequency: params.frequency,
+          interval: 1,
+          start: params.startDate,
+          endMode: 'never',
+        },
+      });
+      logger.info('Created schedule', { scheduleId, payeeId: params.payeeId });
+      return scheduleId;
+    } catch (error) {
+      if (error instanceof Error && /same name/i.test(error.message)) {
+        throw new ConflictError(`A schedule named ${params.name} already exists`, {
+          name: params.name,
+        });
+      }
+      throw new ActualBudgetError('Failed to create schedule', {
+        name: params.name,
+        payeeId: params.payeeId,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Get rules that set a category based on the payee
+   * Only rules with a payee "is"/"one of" condition and a "set category" action are returned
+   */
+  async getPayeeCategoryRules(): Promise<PayeeCategoryRule[]> {
+    this.ensureInitialized();
+
+    try {
+      const rules = (await api.getRules()) as ActualRule[];
+      const result: PayeeCategoryRule[] = [];
+
+      for (const rule of rules) {
+        if (rule.tombstone) continue;
+
+        const categoryAction = (rule.actions ?? []).find(
+          (action) => action.op === 'set' && action.field === 'category'
+        );
+        if (typeof categoryAction?.value !== 'string') continue;
+
+        const payeeIds = (rule.conditions ?? [])
+          .filter((condition) => condition.field === 'payee')
+          .flatMap((condition) => {
+            if (condition.op === 'is' && typeof condition.value === 'string') {
+              return [condition.value];
+            }
+            if (condition.op === 'oneOf' && Array.isArray(condition.value)) {
+              return condition.value.filter((value): value is string => typeof value === 'string');
+            }
+            return [];
+          });
+        if (payeeIds.length === 0) continue;
+
+        result.push({ ruleId: rule.id, payeeIds, categoryId: categoryAction.value });
+      }
+
+      return result;
+    } catch (error) {
+      throw new ActualBudgetError('Failed to fetch rules', { error });
+    }
+  }
+
+  /**
+   * Create a "payee is X → set category Y" rule
+   * Returns the new rule ID
+   */
+  async createPayeeCategoryRule(payeeId: string, categoryId: string): Promise<string> {
+    this.ensureInitialized();
+
+    try {
+      const rule = await api.createRule({
+        stage: null,
+        conditionsOp: 'and',
+        conditions: [{ field: 'payee', op: 'is', value: payeeId, type: 'id' }],
+        actions: [{ field: 'category', op: 'set', value: categoryId, type: 'id' }],
+      });
+      logger.info('Created payee category rule', { ruleId: rule.id, payeeId, categoryId });
+      return rule.id;
+    } catch (error) {
+      throw new ActualBudgetError('Failed to create rule', { payeeId, categoryId, error });
+    }
+  }
+
   /**
    * Find a payee by name (case-insensitive)
    */
@@ -0,0 +1,246 @@
+import type { Transaction } from '../domain/entities/BudgetSnapshot.js';
+import { payeeMatcher } from './PayeeMatcher.js';
+
+/**
+ * Serializable multinomial naive Bayes model over categorized transactions
+ * Features: payee tokens, amount bucket, account and weekday
+ */
+export interface ClassifierModel {
+  version: number;
+  sampleCount: number;
+  categories: Record<string, { name: string; count: number; featureTotal: number }>;
+  featureCounts: Record<string, Record<string, number>>; // categoryId → feature → count
+  vocabularySize: number;
+  calibration: number[]; // Observed accuracy per predicted-probability bin
+  holdoutAccuracy: number | null; // Accuracy on the calibration holdout, null if too few samples
+  trainedAt: string; // ISO 8601 timestamp
+}
+
+/**
+ * Category prediction for a single transaction
+ */
+export interface ClassifierPrediction {
+  categoryId: string;
+  categoryName: string;
+  probability: number; // Raw posterior probability
+  confidence: number; // Calibrated against held-out history
+}
+
+/** Transaction fields used as classifier features */
+export type ClassifierInput = Pick<Transaction, 'payeeName' | 'amount' | 'accountId' | 'date'>;
+
+export const CLASSIFIER_MODEL_VERSION = 1;
+
+/**
+ * Thresholds for training and using the classifier
+ */
+export const CLASSIFIER_THRESHOLDS = {
+  /** Minimum categorized transactions before a model is trained */
+  MIN_TRAINING_SAMPLES: 20,
+  /** Minimum samples before a holdout set is used to calibrate confidence */
+  MIN_CALIBRATION_SAMPLES: 50,
+  /** Every Nth sample is held out for calibration */
+  HOLDOUT_EVERY: 5,
+  /** Number of probability bins in the calibration table */
+  CALIBRATION_BINS: 10,
+  /** Pseudo-count pulling sparse bins toward their raw probability */
+  CALIBRATION_PRIOR_WEIGHT: 2,
+} as const;
+
+/**
+ * Extract classifier features from a transaction
+ */
+export function extractFeatures(txn: ClassifierInput): string[] {
+  const features: string[] = [];
+
+  const normalized = payeeMatcher.normalize(txn.payeeName || '');
+  if (normalized) {
+    features.push(`payee=${normalized}`);
+    for (const token of new Set(normalized.split(' '))) {
+      if (token.length > 1 && !/^\d+$/.test(token)) {
+        features.push(`token:${token}`);
+      }
+    }
+  }
+
+  // Logarithmic amount buckets: <$1, $1-2, $2-4, $4-8, ...
+  const dollars = Math.abs(txn.amount) / 100;
+  const bucket = dollars < 1 ? 0 : Math.floor(Math.log2(dollars)) + 1;
+  features.push(`amount:${txn.amount < 0 ? 'out' : 'in'}:${bucket}`);
+
+  if (txn.accountId) {
+    features.push(`account:${txn.accountId}`);
+  }
+
+  const day = new Date(txn.date).getUTCDay();
+  if (!Number.isNaN(day)) {
+    features.push(`weekday:${day}`);
+  }
+
+  return features;
+}
+
+/**
+ * Check whether a transaction can be used as a training sample
+ */
+export function isTrainingSample(txn: Transaction): boolean {
+  return Boolean(txn.categoryId) && !txn.isTransfer && !txn.splits?.length;
+}
+
+function fitCounts(
+  samples: Transaction[]
+): Omit<ClassifierModel, 'calibration' | 'holdoutAccuracy'> {
+  const categories: ClassifierModel['categories'] = {};
+  const featureCounts: ClassifierModel['featureCounts'] = {};
+  const vocabulary = new Set<string>();
+
+  for (const txn of samples) {
+    const categoryId = txn.categoryId as string;
+    const category = categories[categoryId] ?? {
+      name: txn.categoryName || 'Unknown',
+      count: 0,
+      featureTotal: 0,
+    };
+    const counts = featureCounts[categoryId] ?? {};
+
+    category.count++;
+    for (const feature of extractFeatures(txn)) {
+      counts[feature] = (counts[feature] ?? 0) + 1;
+      category.featureTotal++;
+      vocabulary.add(feature);
+    }
+
+    categories[categoryId] = category;
+    featureCounts[categoryId] = counts;
+  }
+
+  return {
+    version: CLASSIFIER_MODEL_VERSION,
+    sampleCount: samples.length,
+    categories,
+    featureCounts,
+    vocabularySize: vocabulary.size,
+    trainedAt: new Date().toISOString(),
+  };
+}
+
+function identityCalibration(): number[] {
+  const bins = CLASSIFIER_THRESHOLDS.CALIBRATION_BINS;
+  return Array.from({ length: bins }, (_, i) => (i + 0.5) / bins);
+}
+
+function binIndex(probability: number): number {
+  const bins = CLASSIFIER_THRESHOLDS.CALIBRATION_BINS;
+  return Math.min(bins - 1, Math.max(0, Math.floor(probability * bins)));
+}
+
+/**
+ * Build a monotonic calibration table from holdout predictions
+ * Sparse bins are pulled toward their midpoint so a handful of samples cannot dominate.
+ */
+function calibrate(outcomes: Array<{ probability: number; correct: boolean }>): number[] {
+  const { CALIBRATION_BINS, CALIBRATION_PRIOR_WEIGHT } = CLASSIFIER_THRESHOLDS;
+  const midpoints = identityCalibration();
+  const correct = new Array<number>(CALIBRATION_BINS).fill(0);
+  const total = new Array<number>(CALIBRATION_BINS).fill(0);
+
+  for (const outcome of outcomes) {
+    const bin = binIndex(outcome.probability);
+    total[bin]++;
+    if (outcome.correct) correct[bin]++;
+  }
+
+  let floor = 0;
+  return midpoints.map((midpoint, bin) => {
+    const observed =
+      (correct[bin] + midpoint * CALIBRATION_PRIOR_WEIGHT) /
+      (total[bin] + CALIBRATION_PRIOR_WEIGHT);
+    floor = Math.max(floor, observed);
+    return Math.round(floor * 100) / 100;
+  });
+}
+
+/**
+ * Train a classifier on categorized history
+ * Returns null when there is not enough history to learn from.
+ */
+export function trainClassifier(transactions: Transaction[]): ClassifierModel | null {
+  const samples = transactions
+    .filter(isTrainingSample)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const categoryCount = new Set(samples.map((txn) => txn.categoryId)).size;
+
+  if (samples.length < CLASSIFIER_THRESHOLDS.MIN_TRAINING_SAMPLES || categoryCount < 2) {
+    return null;
+  }
+
+  let calibration = identityCalibration();
+  let holdoutAccuracy: number | null = null;
+
+  if (samples.length >= CLASSIFIER_THRESHOLDS.MIN_CALIBRATION_SAMPLES) {
+    const isHoldout = (index: number) => index % CLASSIFIER_THRESHOLDS.HOLDOUT_EVERY === 0;
+    const holdout = samples.filter((_, index) => isHoldout(index));
+    const training = samples.filter((_, index) => !isHoldout(index));
+    const draft: ClassifierModel = {
+      ...fitCounts(training),
+      calibration,
+      holdoutAccuracy: null,
+    };
+
+    const outcomes = holdout.map((txn) => {
+      const prediction = predictCategory(draft, txn);
+      return {
+        probability: prediction?.probability ?? 0,
+        correct: prediction?.categoryId === txn.categoryId,
+      };
+    });
+
+    calibration = calibrate(outcomes);
+    holdoutAccuracy =
+      Math.round((outcomes.filter((o) => o.correct).length / outcomes.length) * 100) / 100;
+  }
+
+  return { ...fitCounts(samples), calibration, holdoutAccuracy };
+}
+
+/**
+ * Predict the most likely category for a transaction
+ * Laplace-smoothed log likelihoods, normalized into a posterior probability.
+ */
+export function predictCategory(
+  model: ClassifierModel,
+  txn: ClassifierInput
+): ClassifierPrediction | null {
+  const categoryIds = Object.keys(model.categories);
+  if (categoryIds.length === 0) return null;
+
+  const features = extractFeatures(txn);
+  const categoryCount = categoryIds.length;
+
+  const scores = categoryIds.map((categoryId) => {
+    const category = model.categories[categoryId];
+    const counts = model.featureCounts[categoryId] ?? {};
+    const denominator = category.featureTotal + model.vocabularySize + 1;
+
+    let score = Math.log((category.count + 1) / (model.sampleCount + categoryCount));
+    for (const feature of features) {
+      score += Math.log(((counts[feature] ?? 0) + 1) / denominator);
+    }
+    return { categoryId, score };
+  });
+
+  const maxScore = Math.max(...scores.map((s) => s.score));
+  const weights = scores.map((s) => ({ ...s, weight: Math.exp(s.score - maxScore) }));
+  const totalWeight = weights.reduce((sum, s) => sum + s.weight, 0);
+  const best = weights.reduce((a, b) => (b.weight > a.weight ? b : a));
+
+  const probability = best.weight / totalWeight;
+  const calibration = model.calibration.length > 0 ? model.calibration : identityCalibration();
+
+  return {
+    categoryId: best.categoryId,
+    categoryName: model.categories[best.categoryId].name,
+    probability: Math.round(probability * 100) / 100,
+    confidence: calibration[binIndex(probability)],
+  };
+}
@@ -2,7 +2,12 @@ import OpenAI from 'openai';
 import { OpenAIError } from '../domain/errors.js';
 import { logger } from './logger.js';
 import type { Env } from './env.js';
-import type { AIAdapter, AICapabilities, CompletionOptions } from './ai/AIAdapter.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './ai/AIAdapter.js';
 import { parseJsonResponse } from './ai/parseJsonResponse.js';
 
 // Re-export CompletionOptions for backward compatibility
@@ -38,7 +43,7 @@ export class OpenAIAdapter implements AIAdapter {
    * @param options.input - User input/prompt
    * @param options.webSearch - Enable web search for up-to-date information
    */
-  async completion(options: CompletionOptions): Promise<string> {
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
     if (!this.client || !this.apiKey) {
       logger.error('OpenAI API key is not configured');
       throw new OpenAIError('OpenAI API key is not configured');
@@ -49,8 +54,9 @@ export class OpenAIAdapter implements AIAdapter {
         ? [{ type: 'web_search_preview' }]
         : [];
 
+      const model = options.model ?? this.model;
       logger.info('OpenAI request payload', {
-        model: this.model,
+        model,
         instructions: options.instructions ?? null,
         input: options.input,
         inputLength: options.input.length,
@@ -71,8 +77,9 @@ export class OpenAIAdapter implements AIAdapter {
             }
           : undefined;
 
+      const startedAt = Date.now();
       const responseStream = this.client.responses.stream({
-        model: this.model,
+        model,
         instructions: options.instructions,
         input: options.input,
         tools: tools.length > 0 ? tools : undefined,
@@ -134,13 +141,23 @@ export class OpenAIAdapter implements AIAdapter {
         throw new OpenAIError('Empty response from OpenAI');
       }
 
+      const usage = {
+        backendId: this.getBackendId(),
+        model,
+        promptTokens: response.usage?.input_tokens ?? 0,
+        completionTokens: response.usage?.output_tokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+      };
       logger.info('OpenAI completion successful', {
         inputLength: options.input.length,
         responseLength: content.length,
         webSearch: options.webSearch ?? false,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        latencyMs: usage.latencyMs,
       });
 
-      return content;
+      return { content, backend: this.getBackendName(), usage };
     } catch (error) {
       if (error instanceof OpenAIError) {
         throw error;
@@ -169,6 +186,10 @@ export class OpenAIAdapter implements AIAdapter {
     return 'OpenAI';
   }
 
+  getBackendId(): string {
+    return 'openai';
+  }
+
   /**
    * Parse JSON from LLM response (handles markdown code blocks)
    * Delegates to shared utility for consistency across adapters
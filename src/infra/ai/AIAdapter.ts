@@ -1,3 +1,6 @@
+import type { ZodType } from 'zod';
+import type { AITask } from '../../domain/entities/ModelRoute.js';
+
 /**
  * Common interface for AI completion adapters
  * P5 (Separation of concerns): Domain layer uses this interface, not specific implementations
@@ -17,6 +20,41 @@ export interface CompletionOptions {
     schema: Record<string, unknown>;
     strict?: boolean;
   };
+  /**
+   * Schema the parsed JSON response must satisfy, including checks against the current
+   * category and payee lists; invalid responses are sent back for repair
+   */
+  responseSchema?: ZodType;
+  /** Call site, used to pick a route from AI_MODEL_ROUTES and per-budget overrides */
+  task?: AITask;
+  /** Budget the call is made for, used for per-budget route overrides */
+  budgetId?: string;
+  /** Preferred backend id; a fallback chain tries it first */
+  backend?: string;
+  /** Model override for the preferred backend (defaults to the backend's configured model) */
+  model?: string;
+}
+
+/** Token counts and timing reported for one completion */
+export interface CompletionUsage {
+  /** Backend id that answered (openai, google, openai_compatible) */
+  backendId: string;
+  /** Model that answered */
+  model: string;
+  /** Input tokens billed (0 when the backend does not report usage) */
+  promptTokens: number;
+  /** Output tokens billed (0 when the backend does not report usage) */
+  completionTokens: number;
+  /** Wall-clock time of the request that answered */
+  latencyMs: number;
+}
+
+/** Completion text together with the backend that produced it and its usage */
+export interface CompletionResult {
+  content: string;
+  /** Display name of the backend that answered */
+  backend: string;
+  usage: CompletionUsage;
 }
 
 /** Capabilities that an AI backend may or may not support */
@@ -31,11 +69,14 @@ export interface AICapabilities {
 
 /**
  * Common interface for all AI adapters
- * Implementations: OpenAIAdapter, GoogleAIAdapter
+ * Implementations: OpenAIAdapter, GoogleAIAdapter, OpenAICompatibleAdapter, FallbackAIAdapter,
+ * ReplayAIAdapter
+ * Decorators: ModelRoutingAIAdapter, UsageTrackingAIAdapter, RecordingAIAdapter,
+ * ValidatingAIAdapter
  */
 export interface AIAdapter {
-  /** Generate a completion from the AI model */
-  completion(options: CompletionOptions): Promise<string>;
+  /** Generate a completion from the AI model, reporting which backend answered and its usage */
+  completion(options: CompletionOptions): Promise<CompletionResult>;
 
   /** Check if the adapter is properly configured (has API key) */
   isConfigured(): boolean;
@@ -45,4 +86,10 @@ export interface AIAdapter {
 
   /** Get the name of the AI backend (for logging/display) */
   getBackendName(): string;
+
+  /** Get the backend id as used in AI_BACKEND (openai, google, openai_compatible) */
+  getBackendId(): string;
+
+  /** Whether any backend can currently take requests (false when every circuit is open) */
+  isAvailable?(): boolean;
 }
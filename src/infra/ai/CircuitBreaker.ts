@@ -0,0 +1,86 @@
+/**
+ * Per-backend circuit breaker
+ * closed: requests flow; open: requests are skipped until the reset timeout passes;
+ * half_open: one trial request decides whether to close or re-open the circuit; other requests
+ * are skipped while it is in flight
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit stays open before a trial request */
+  resetTimeoutMs: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private options: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a request may be sent; moves an expired open circuit to half_open and hands the
+   * trial to the first caller, which must end it with recordSuccess, recordFailure or releaseTrial
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && this.now() >= this.openUntil) {
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Count a failure; a failed trial or reaching the threshold opens the circuit
+   * @param retryAfterMs - Keep the circuit open at least this long (from a Retry-After header)
+   */
+  recordFailure(retryAfterMs?: number | null): void {
+    this.consecutiveFailures += 1;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.trip(this.options.resetTimeoutMs);
+    }
+    if (retryAfterMs && retryAfterMs > 0) {
+      this.trip(retryAfterMs);
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * End a trial that says nothing about the backend's health (e.g. a rejected request),
+   * letting the next caller try instead
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() >= this.openUntil) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  private trip(durationMs: number): void {
+    this.state = 'open';
+    this.openUntil = Math.max(this.openUntil, this.now() + durationMs);
+  }
+}
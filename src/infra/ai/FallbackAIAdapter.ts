@@ -0,0 +1,232 @@
+import { AIError, AppError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from './CircuitBreaker.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+
+export interface RetryOptions {
+  /** Attempts per backend before moving to the next one */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** Health of one backend in the chain, for logging and diagnostics */
+export interface BackendHealth {
+  backend: string;
+  state: CircuitState;
+}
+
+/**
+ * Exponential backoff delay for a retry; a Retry-After hint wins when present
+ * @param attempt - Zero-based index of the attempt that just failed
+ */
+export function computeRetryDelayMs(
+  attempt: number,
+  retryAfterMs: number | null,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>
+): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+  return Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * AI adapter that walks an ordered chain of backends
+ * P7 (Explicit error handling): 429, 5xx and network errors are retried with exponential
+ * backoff (honouring Retry-After), then the next backend is tried; each backend has its own
+ * circuit breaker so a failing provider is skipped until it recovers
+ */
+export class FallbackAIAdapter implements AIAdapter {
+  private members: Array<{ adapter: AIAdapter; breaker: CircuitBreaker }>;
+
+  constructor(
+    adapters: AIAdapter[],
+    private retry: RetryOptions,
+    circuit: CircuitBreakerOptions,
+    private sleep: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms)),
+    now: () => number = Date.now
+  ) {
+    this.members = adapters.map((adapter) => ({
+      adapter,
+      breaker: new CircuitBreaker(circuit, now),
+    }));
+  }
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    let lastError: unknown = null;
+
+    for (const { adapter, breaker, memberOptions } of this.orderMembers(options)) {
+      const backend = adapter.getBackendName();
+      if (!breaker.canRequest()) {
+        logger.debug('Skipping AI backend with open circuit', { backend });
+        continue;
+      }
+
+      for (let attempt = 0; attempt < this.retry.maxAttempts; attempt++) {
+        try {
+          const result = await adapter.completion(memberOptions);
+          breaker.recordSuccess();
+          return result;
+        } catch (error) {
+          lastError = error;
+          const retryable = isRetryableError(error);
+          const retryAfterMs = getRetryAfterMs(error);
+          const isLastAttempt = attempt === this.retry.maxAttempts - 1;
+
+          // A Retry-After longer than we are willing to wait sends us to the next backend
+          if (
+            !retryable ||
+            isLastAttempt ||
+            (retryAfterMs !== null && retryAfterMs > this.retry.maxDelayMs)
+          ) {
+            if (retryable) {
+              breaker.recordFailure(retryAfterMs);
+            } else {
+              breaker.releaseTrial();
+            }
+            logger.warn('AI backend failed, trying next backend', {
+              backend,
+              attempt: attempt + 1,
+              retryable,
+              retryAfterMs,
+              circuit: breaker.getState(),
+              message: error instanceof Error ? error.message : String(error),
+            });
+            break;
+          }
+
+          const delayMs = computeRetryDelayMs(attempt, retryAfterMs, this.retry);
+          logger.info('Retrying AI backend', { backend, attempt: attempt + 1, delayMs });
+          await this.sleep(delayMs);
+        }
+      }
+    }
+
+    throw new AIError('All AI backends failed or are unavailable', 'fallback', {
+      backends: this.getHealth(),
+      error: lastError,
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.members.some(({ adapter }) => adapter.isConfigured());
+  }
+
+  isAvailable(): boolean {
+    return this.members.some(({ breaker }) => breaker.getState() !== 'open');
+  }
+
+  /**
+   * Capabilities of the primary backend; fallbacks ignore options they cannot honour
+   */
+  getCapabilities(): AICapabilities {
+    return this.members[0].adapter.getCapabilities();
+  }
+
+  getBackendName(): string {
+    return this.members.map(({ adapter }) => adapter.getBackendName()).join(' → ');
+  }
+
+  getBackendId(): string {
+    return this.members[0].adapter.getBackendId();
+  }
+
+  getBackendIds(): string[] {
+    return this.members.map(({ adapter }) => adapter.getBackendId());
+  }
+
+  getHealth(): BackendHealth[] {
+    return this.members.map(({ adapter, breaker }) => ({
+      backend: adapter.getBackendName(),
+      state: breaker.getState(),
+    }));
+  }
+
+  /**
+   * Put the requested backend first; the model override only applies to that backend since
+   * model names are not portable between providers
+   */
+  private orderMembers(options: CompletionOptions) {
+    const preferredId = options.backend ?? this.getBackendId();
+    const preferred = this.members.find(({ adapter }) => adapter.getBackendId() === preferredId);
+    if (!preferred) {
+      logger.warn('Requested AI backend is not in the fallback chain, using the chain order', {
+        backend: options.backend,
+      });
+    }
+
+    const sharedOptions = { ...options, backend: undefined, model: undefined };
+    const ordered = preferred
+      ? [preferred, ...this.members.filter((member) => member !== preferred)]
+      : this.members;
+    return ordered.map((member) => ({
+      ...member,
+      memberOptions:
+        member === preferred ? { ...sharedOptions, model: options.model } : sharedOptions,
+    }));
+  }
+}
+
+/**
+ * Adapters wrap SDK errors in AppError details; look through to the original error
+ */
+function unwrapCause(error: unknown): unknown {
+  if (error instanceof AppError) {
+    const details = error.details as { error?: unknown } | undefined;
+    return details?.error ?? null;
+  }
+  return error;
+}
+
+function getStatus(cause: unknown): number | null {
+  if (cause && typeof cause === 'object' && 'status' in cause) {
+    const status = (cause as { status?: unknown }).status;
+    return typeof status === 'number' ? status : null;
+  }
+  return null;
+}
+
+/**
+ * 429 and 5xx responses and network failures (no status) are worth retrying;
+ * configuration errors and other 4xx responses are not
+ */
+function isRetryableError(error: unknown): boolean {
+  const cause = unwrapCause(error);
+  if (!cause) return false;
+  const status = getStatus(cause);
+  if (status === null) return true;
+  return status === 429 || status >= 500;
+}
+
+function getRetryAfterMs(error: unknown): number | null {
+  const cause = unwrapCause(error);
+  if (!cause || typeof cause !== 'object' || !('headers' in cause)) return null;
+  const headers = (cause as { headers?: unknown }).headers;
+  if (!headers || typeof headers !== 'object') return null;
+
+  const value =
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get('retry-after')
+      : (headers as Record<string, string | undefined>)['retry-after'];
+  return parseRetryAfter(value);
+}
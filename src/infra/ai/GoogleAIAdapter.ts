@@ -2,7 +2,12 @@ import { GoogleGenAI } from '@google/genai';
 import { AIError } from '../../domain/errors.js';
 import { logger } from '../logger.js';
 import { parseJsonResponse } from './parseJsonResponse.js';
-import type { AIAdapter, AICapabilities, CompletionOptions } from './AIAdapter.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
 import type { Env } from '../env.js';
 
 /**
@@ -30,7 +35,7 @@ export class GoogleAIAdapter implements AIAdapter {
   /**
    * Generate completion using the Google AI API
    */
-  async completion(options: CompletionOptions): Promise<string> {
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
     if (!this.client || !this.apiKey) {
       logger.error('Google AI API key is not configured');
       throw new AIError('Google AI API key is not configured', 'google');
@@ -49,8 +54,9 @@ export class GoogleAIAdapter implements AIAdapter {
         ? `${options.instructions}\n\n${options.input}`
         : options.input;
 
+      const model = options.model ?? this.model;
       logger.info('Google AI request payload', {
-        model: this.model,
+        model,
         hasInstructions: !!options.instructions,
         inputLength: options.input.length,
         hasJsonSchema: !!options.jsonSchema,
@@ -65,8 +71,9 @@ export class GoogleAIAdapter implements AIAdapter {
         config.responseJsonSchema = options.jsonSchema.schema;
       }
 
+      const startedAt = Date.now();
       const response = await this.client.models.generateContent({
-        model: this.model,
+        model,
         contents: prompt,
         config: Object.keys(config).length > 0 ? config : undefined,
       });
@@ -80,12 +87,22 @@ export class GoogleAIAdapter implements AIAdapter {
         throw new AIError('Empty response from Google AI', 'google');
       }
 
+      const usage = {
+        backendId: this.getBackendId(),
+        model,
+        promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        completionTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+        latencyMs: Date.now() - startedAt,
+      };
       logger.info('Google AI completion successful', {
         inputLength: options.input.length,
         responseLength: content.length,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        latencyMs: usage.latencyMs,
       });
 
-      return content;
+      return { content, backend: this.getBackendName(), usage };
     } catch (error) {
       if (error instanceof AIError) {
         throw error;
@@ -114,6 +131,10 @@ export class GoogleAIAdapter implements AIAdapter {
     return 'Google AI (Gemini)';
   }
 
+  getBackendId(): string {
+    return 'google';
+  }
+
   /**
    * Parse JSON from LLM response
    * Delegates to shared utility for consistency across adapters
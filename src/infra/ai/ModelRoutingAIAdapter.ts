@@ -0,0 +1,62 @@
+import { logger } from '../logger.js';
+import type { AITask, ResolvedModelRoute } from '../../domain/entities/ModelRoute.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+
+/** Looks up the route for a call site, with per-budget overrides when a budget is given */
+export type ModelRouteResolver = (task: AITask, budgetId: string | null) => ResolvedModelRoute;
+
+/**
+ * Decorator that sets backend and model on each call from its task and budget
+ * P5 (Separation of concerns): Call sites only name their task; routing config stays here
+ * Calls without a task use the wrapped adapter's defaults
+ */
+export class ModelRoutingAIAdapter implements AIAdapter {
+  constructor(
+    private inner: AIAdapter,
+    private resolveRoute: ModelRouteResolver
+  ) {}
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    return this.inner.completion(this.route(options));
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable ? this.inner.isAvailable() : true;
+  }
+
+  getCapabilities(): AICapabilities {
+    return this.inner.getCapabilities();
+  }
+
+  getBackendName(): string {
+    return this.inner.getBackendName();
+  }
+
+  getBackendId(): string {
+    return this.inner.getBackendId();
+  }
+
+  private route(options: CompletionOptions): CompletionOptions {
+    if (!options.task || options.backend || options.model) {
+      return options;
+    }
+
+    const route = this.resolveRoute(options.task, options.budgetId ?? null);
+    logger.debug('AI call routed', {
+      task: route.task,
+      backend: route.backend,
+      model: route.model,
+      origin: route.origin,
+    });
+    return { ...options, backend: route.backend, model: route.model };
+  }
+}
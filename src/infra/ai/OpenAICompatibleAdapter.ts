@@ -0,0 +1,174 @@
+import OpenAI from 'openai';
+import { AIError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+import { parseJsonResponse } from './parseJsonResponse.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+import type { Env } from '../env.js';
+
+/**
+ * Adapter for any server exposing the OpenAI chat completions endpoint
+ * (Ollama, llama.cpp server, LM Studio, vLLM)
+ * P5 (Separation of concerns): Domain layer uses AIAdapter interface
+ *
+ * Uses Chat Completions rather than the Responses API, which local servers rarely implement.
+ * Structured output is only requested when OPENAI_COMPATIBLE_STRUCTURED_OUTPUT is set;
+ * otherwise the schema is described in the system prompt and the JSON is parsed leniently.
+ *
+ * Note: Web search is NOT supported
+ */
+export class OpenAICompatibleAdapter implements AIAdapter {
+  private client: OpenAI | null;
+  private model: string;
+  private baseURL?: string;
+  private structuredOutput: boolean;
+
+  constructor(env: Env) {
+    this.baseURL = env.OPENAI_COMPATIBLE_BASE_URL;
+    this.model = env.OPENAI_COMPATIBLE_MODEL;
+    this.structuredOutput = env.OPENAI_COMPATIBLE_STRUCTURED_OUTPUT;
+    this.client = this.baseURL
+      ? new OpenAI({
+          baseURL: this.baseURL,
+          // Local servers usually ignore the key, but the SDK requires one
+          apiKey: env.OPENAI_COMPATIBLE_API_KEY ?? 'not-needed',
+        })
+      : null;
+  }
+
+  /**
+   * Generate completion using the chat completions endpoint
+   */
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    if (!this.client || !this.baseURL) {
+      logger.error('OpenAI-compatible base URL is not configured');
+      throw new AIError('OpenAI-compatible base URL is not configured', 'openai_compatible');
+    }
+
+    try {
+      if (options.webSearch) {
+        logger.warn('Web search requested but not supported by OpenAI-compatible backend', {
+          backend: 'openai_compatible',
+        });
+      }
+
+      const systemPrompt = this.buildSystemPrompt(options);
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+        { role: 'user', content: options.input },
+      ];
+
+      const responseFormat: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming['response_format'] =
+        options.jsonSchema && this.structuredOutput
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                name: options.jsonSchema.name,
+                schema: options.jsonSchema.schema,
+                strict: options.jsonSchema.strict ?? true,
+              },
+            }
+          : undefined;
+
+      const model = options.model ?? this.model;
+      logger.info('OpenAI-compatible request payload', {
+        model,
+        baseURL: this.baseURL,
+        hasInstructions: !!options.instructions,
+        inputLength: options.input.length,
+        hasJsonSchema: !!options.jsonSchema,
+        structuredOutput: Boolean(responseFormat),
+        webSearchRequested: options.webSearch ?? false,
+      });
+
+      const startedAt = Date.now();
+      const response = await this.client.chat.completions.create({
+        model,
+        messages,
+        response_format: responseFormat,
+      });
+
+      const content = response.choices[0]?.message?.content;
+
+      if (!content) {
+        logger.error('Empty response from OpenAI-compatible server', {
+          response: JSON.stringify(response, null, 2),
+        });
+        throw new AIError('Empty response from OpenAI-compatible server', 'openai_compatible');
+      }
+
+      const usage = {
+        backendId: this.getBackendId(),
+        model,
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+      };
+      logger.info('OpenAI-compatible completion successful', {
+        inputLength: options.input.length,
+        responseLength: content.length,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        latencyMs: usage.latencyMs,
+      });
+
+      return { content, backend: this.getBackendName(), usage };
+    } catch (error) {
+      if (error instanceof AIError) {
+        throw error;
+      }
+      logger.error('OpenAI-compatible completion failed', {
+        error,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw new AIError('Completion failed', 'openai_compatible', { error });
+    }
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseURL);
+  }
+
+  getCapabilities(): AICapabilities {
+    return {
+      supportsWebSearch: false,
+      supportsStructuredOutput: this.structuredOutput,
+      supportsStreaming: true,
+    };
+  }
+
+  getBackendName(): string {
+    return 'OpenAI-compatible';
+  }
+
+  getBackendId(): string {
+    return 'openai_compatible';
+  }
+
+  /**
+   * Without native structured output, ask for the JSON shape in the system prompt
+   */
+  private buildSystemPrompt(options: CompletionOptions): string | undefined {
+    if (!options.jsonSchema || this.structuredOutput) {
+      return options.instructions;
+    }
+
+    const schemaHint = [
+      'Respond with a single JSON object and no other text.',
+      `It must match this JSON schema: ${JSON.stringify(options.jsonSchema.schema)}`,
+    ].join('\n');
+    return options.instructions ? `${options.instructions}\n\n${schemaHint}` : schemaHint;
+  }
+
+  /**
+   * Parse JSON from LLM response
+   * Delegates to shared utility for consistency across adapters
+   */
+  static parseJsonResponse<T>(content: string): T {
+    return parseJsonResponse<T>(content);
+  }
+}
@@ -0,0 +1,71 @@
+import { logger } from '../logger.js';
+import { computeFixtureKey, writeAIFixture } from './aiFixtures.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+
+/**
+ * Decorator that saves every request/response pair to a fixture file (AI_FIXTURE_MODE=record)
+ * An existing fixture for the same request is overwritten, so re-recording a flow and diffing
+ * the fixture directory shows how the outputs changed
+ */
+export class RecordingAIAdapter implements AIAdapter {
+  constructor(
+    private inner: AIAdapter,
+    private fixtureDir: string
+  ) {}
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    const result = await this.inner.completion(options);
+    const key = computeFixtureKey(options);
+
+    // A fixture that fails to save must not fail the flow being recorded
+    try {
+      await writeAIFixture(this.fixtureDir, {
+        key,
+        task: options.task ?? null,
+        request: {
+          instructions: options.instructions ?? null,
+          input: options.input,
+          jsonSchema: options.jsonSchema ?? null,
+        },
+        response: {
+          content: result.content,
+          backend: result.backend,
+          model: result.usage.model,
+        },
+      });
+      logger.debug('AI fixture recorded', { key, task: options.task });
+    } catch (error) {
+      logger.error('Failed to record AI fixture', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return result;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable ? this.inner.isAvailable() : true;
+  }
+
+  getCapabilities(): AICapabilities {
+    return this.inner.getCapabilities();
+  }
+
+  getBackendName(): string {
+    return this.inner.getBackendName();
+  }
+
+  getBackendId(): string {
+    return this.inner.getBackendId();
+  }
+}
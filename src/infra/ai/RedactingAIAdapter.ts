@@ -0,0 +1,96 @@
+import {
+  createAIOutboundRequest,
+  type AIOutboundRequest,
+} from '../../domain/entities/AIOutboundRequest.js';
+import {
+  createRedactionMap,
+  redactText,
+  restoreText,
+  type RedactionRule,
+} from '../../domain/entities/Redaction.js';
+import { logger } from '../logger.js';
+import { getAICallContext } from './aiCallContext.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+
+/** Response content that is JSON, possibly inside a markdown code fence */
+const JSON_CONTENT = /^\s*(?:```(?:json)?\s*)?[[{]/;
+
+/** Stores the redacted text of each request (implemented by AIOutboundRequestRepository) */
+export interface AIOutboundRequestLog {
+  save(request: AIOutboundRequest): void;
+}
+
+/**
+ * Decorator that replaces personal data in prompts with placeholder tokens before they reach
+ * any backend, and puts the original values back into the response
+ * P5 (Separation of concerns): Call sites build prompts from raw payee strings; nothing below
+ * this adapter (routing, usage, fixtures, backends) sees them
+ * The redacted text is logged per job, so it can be audited exactly as it was sent
+ */
+export class RedactingAIAdapter implements AIAdapter {
+  constructor(
+    private inner: AIAdapter,
+    private rules: RedactionRule[],
+    private requestLog: AIOutboundRequestLog
+  ) {}
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    const redactions = createRedactionMap();
+    const instructions =
+      options.instructions !== undefined
+        ? redactText(options.instructions, this.rules, redactions)
+        : undefined;
+    const input = redactText(options.input, this.rules, redactions);
+
+    // Auditing must not block the request it describes
+    try {
+      this.requestLog.save(
+        createAIOutboundRequest({
+          jobId: getAICallContext()?.jobId ?? null,
+          budgetId: options.budgetId ?? null,
+          task: options.task ?? null,
+          instructions: instructions ?? null,
+          input,
+          redactions: redactions.counts,
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to log AI outbound request', {
+        task: options.task,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const result = await this.inner.completion({ ...options, instructions, input });
+    const json =
+      options.jsonSchema !== undefined ||
+      options.responseSchema !== undefined ||
+      JSON_CONTENT.test(result.content);
+    return { ...result, content: restoreText(result.content, redactions, { json }) };
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable ? this.inner.isAvailable() : true;
+  }
+
+  getCapabilities(): AICapabilities {
+    return this.inner.getCapabilities();
+  }
+
+  getBackendName(): string {
+    return this.inner.getBackendName();
+  }
+
+  getBackendId(): string {
+    return this.inner.getBackendId();
+  }
+}
@@ -0,0 +1,68 @@
+import { AIError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+import { computeFixtureKey, readAIFixture } from './aiFixtures.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+
+/**
+ * AI adapter that answers from recorded fixtures without any network access
+ * (AI_FIXTURE_MODE=replay). Requests with no recording fail, so a prompt change that was
+ * not re-recorded shows up as an error instead of a silently different answer.
+ *
+ * Capabilities and backend id are those of the configured backend, so prompts that depend
+ * on them (web search) match what was recorded.
+ */
+export class ReplayAIAdapter implements AIAdapter {
+  constructor(
+    private fixtureDir: string,
+    private recorded: { backendId: string; capabilities: AICapabilities }
+  ) {}
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    const key = computeFixtureKey(options);
+    const fixture = await readAIFixture(this.fixtureDir, key);
+
+    if (!fixture) {
+      logger.error('No recorded AI response for request', { key, task: options.task });
+      throw new AIError('No recorded AI response for request', 'replay', {
+        key,
+        task: options.task ?? null,
+        fixtureDir: this.fixtureDir,
+      });
+    }
+
+    logger.debug('AI fixture replayed', { key, task: options.task });
+    // Replayed answers cost nothing, so no tokens are reported for usage accounting
+    return {
+      content: fixture.response.content,
+      backend: this.getBackendName(),
+      usage: {
+        backendId: this.recorded.backendId,
+        model: fixture.response.model,
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: 0,
+      },
+    };
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getCapabilities(): AICapabilities {
+    return this.recorded.capabilities;
+  }
+
+  getBackendName(): string {
+    return 'Replay (recorded fixtures)';
+  }
+
+  getBackendId(): string {
+    return this.recorded.backendId;
+  }
+}
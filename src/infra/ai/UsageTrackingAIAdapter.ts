@@ -0,0 +1,80 @@
+import { AIError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+import { getAICallContext } from './aiCallContext.js';
+import type { AITask } from '../../domain/entities/ModelRoute.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+  CompletionUsage,
+} from './AIAdapter.js';
+
+/** Persists usage and knows the spending cap (implemented by AIUsageService) */
+export interface AIUsageRecorder {
+  record(
+    usage: CompletionUsage,
+    call: { jobId: string | null; budgetId: string | null; task: AITask | null }
+  ): unknown;
+  isCapReached(): boolean;
+}
+
+/**
+ * Decorator that records the usage of every completion and enforces the monthly spending cap
+ * P5 (Separation of concerns): Adapters report usage; accounting and the cap live here
+ * Calls are attributed to the job whose context they run in (see runWithAICallContext)
+ */
+export class UsageTrackingAIAdapter implements AIAdapter {
+  constructor(
+    private inner: AIAdapter,
+    private recorder: AIUsageRecorder
+  ) {}
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    if (this.recorder.isCapReached()) {
+      throw new AIError('Monthly AI spending cap reached', 'usage');
+    }
+
+    const result = await this.inner.completion(options);
+
+    // Accounting failures must not throw away an answer that was already paid for
+    try {
+      this.recorder.record(result.usage, {
+        jobId: getAICallContext()?.jobId ?? null,
+        budgetId: options.budgetId ?? null,
+        task: options.task ?? null,
+      });
+    } catch (error) {
+      logger.error('Failed to record AI usage', {
+        task: options.task,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return result;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  /**
+   * Unavailable once the cap is reached, so callers degrade to non-AI suggestions
+   */
+  isAvailable(): boolean {
+    if (this.recorder.isCapReached()) return false;
+    return this.inner.isAvailable ? this.inner.isAvailable() : true;
+  }
+
+  getCapabilities(): AICapabilities {
+    return this.inner.getCapabilities();
+  }
+
+  getBackendName(): string {
+    return this.inner.getBackendName();
+  }
+
+  getBackendId(): string {
+    return this.inner.getBackendId();
+  }
+}
@@ -0,0 +1,157 @@
+import type { ZodType } from 'zod';
+import { AIResponseValidationError } from '../../domain/errors.js';
+import type { AIValidationOutcome } from '../../domain/entities/AIResponseValidation.js';
+import type { AITask } from '../../domain/entities/ModelRoute.js';
+import { logger } from '../logger.js';
+import { parseJsonResponse } from './parseJsonResponse.js';
+import type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+} from './AIAdapter.js';
+
+/** Persists validation outcomes (implemented by AIUsageService) */
+export interface AIValidationRecorder {
+  recordValidation(validation: {
+    backend: string;
+    task: AITask | null;
+    outcome: AIValidationOutcome;
+    attempts: number;
+    issues: string[];
+  }): void;
+}
+
+/**
+ * Check a response against its call site's schema
+ * Returns the issues as readable lines; empty when the response is valid
+ */
+export function validateAIResponse(content: string, schema: ZodType): string[] {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonResponse<unknown>(content);
+  } catch {
+    return ['Response is not valid JSON'];
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) return [];
+  return result.error.issues.map(
+    (issue) => `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`
+  );
+}
+
+function buildRepairInput(originalInput: string, response: string, issues: string[]): string {
+  return [
+    originalInput,
+    '',
+    'Your previous response was:',
+    response,
+    '',
+    'It was rejected for these reasons:',
+    ...issues.map((issue) => `- ${issue}`),
+    '',
+    'Respond again with the corrected JSON object only.',
+  ].join('\n');
+}
+
+/**
+ * Decorator that validates responses against CompletionOptions.responseSchema
+ * Invalid responses are sent back with the exact issues, up to maxRepairAttempts times,
+ * before the call fails with AIResponseValidationError
+ * P5 (Separation of concerns): Call sites declare what a valid answer is; repair and
+ * per-backend failure tracking live here
+ */
+export class ValidatingAIAdapter implements AIAdapter {
+  constructor(
+    private inner: AIAdapter,
+    private maxRepairAttempts: number,
+    private recorder: AIValidationRecorder
+  ) {}
+
+  async completion(options: CompletionOptions): Promise<CompletionResult> {
+    const { responseSchema, ...request } = options;
+    const first = await this.inner.completion(request);
+    if (!responseSchema) return first;
+
+    const firstIssues = validateAIResponse(first.content, responseSchema);
+    if (firstIssues.length === 0) {
+      this.record(options, first.usage.backendId, 'valid', 1, []);
+      return first;
+    }
+
+    let result = first;
+    let issues = firstIssues;
+    for (let repair = 1; repair <= this.maxRepairAttempts; repair++) {
+      logger.warn('AI response failed validation, requesting repair', {
+        task: options.task,
+        backend: result.usage.backendId,
+        repair,
+        issues,
+      });
+      result = await this.inner.completion({
+        ...request,
+        input: buildRepairInput(request.input, result.content, issues),
+      });
+      issues = validateAIResponse(result.content, responseSchema);
+      if (issues.length === 0) {
+        this.record(options, first.usage.backendId, 'repaired', repair + 1, firstIssues);
+        return result;
+      }
+    }
+
+    const attempts = this.maxRepairAttempts + 1;
+    this.record(options, first.usage.backendId, 'failed', attempts, firstIssues);
+    logger.error('AI response still invalid after repair attempts', {
+      task: options.task,
+      backend: result.usage.backendId,
+      attempts,
+      issues,
+    });
+    throw new AIResponseValidationError(result.usage.backendId, issues, attempts);
+  }
+
+  private record(
+    options: CompletionOptions,
+    backend: string,
+    outcome: AIValidationOutcome,
+    attempts: number,
+    issues: string[]
+  ): void {
+    // Tracking failures must not throw away a valid answer
+    try {
+      this.recorder.recordValidation({
+        backend,
+        task: options.task ?? null,
+        outcome,
+        attempts,
+        issues,
+      });
+    } catch (error) {
+      logger.error('Failed to record AI response validation', {
+        task: options.task,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable ? this.inner.isAvailable() : true;
+  }
+
+  getCapabilities(): AICapabilities {
+    return this.inner.getCapabilities();
+  }
+
+  getBackendName(): string {
+    return this.inner.getBackendName();
+  }
+
+  getBackendId(): string {
+    return this.inner.getBackendId();
+  }
+}
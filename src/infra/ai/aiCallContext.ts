@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** What an AI call is being made for, beyond its own options */
+export interface AICallContext {
+  jobId: string;
+}
+
+const storage = new AsyncLocalStorage<AICallContext>();
+
+/**
+ * Run fn so that every AI call it makes, however deep, is attributed to the context's job
+ */
+export function runWithAICallContext<T>(context: AICallContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getAICallContext(): AICallContext | undefined {
+  return storage.getStore();
+}
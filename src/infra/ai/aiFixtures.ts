@@ -0,0 +1,78 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AITask } from '../../domain/entities/ModelRoute.js';
+import type { CompletionOptions } from './AIAdapter.js';
+
+/**
+ * Recorded request/response pair, stored as one pretty-printed JSON file per request so
+ * re-recording shows prompt and output changes as plain diffs
+ */
+export interface AIFixture {
+  key: string;
+  task: AITask | null;
+  request: {
+    instructions: string | null;
+    input: string;
+    jsonSchema: CompletionOptions['jsonSchema'] | null;
+  };
+  response: {
+    content: string;
+    backend: string;
+    model: string;
+  };
+}
+
+/** JSON.stringify with object keys sorted, so equal schemas always hash the same */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fixture key for a request: a hash of what the model sees (instructions, input, schema)
+ * Task, budget and routing options are left out so rerouting a prompt keeps its fixture
+ */
+export function computeFixtureKey(options: CompletionOptions): string {
+  const payload = stableStringify({
+    instructions: options.instructions ?? null,
+    input: options.input,
+    jsonSchema: options.jsonSchema ?? null,
+  });
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+function fixturePath(fixtureDir: string, key: string): string {
+  return path.join(fixtureDir, `${key}.json`);
+}
+
+export async function writeAIFixture(fixtureDir: string, fixture: AIFixture): Promise<void> {
+  await mkdir(fixtureDir, { recursive: true });
+  await writeFile(
+    fixturePath(fixtureDir, fixture.key),
+    `${JSON.stringify(fixture, null, 2)}\n`,
+    'utf8'
+  );
+}
+
+/**
+ * Read the fixture for a key; null when nothing was recorded for it
+ */
+export async function readAIFixture(fixtureDir: string, key: string): Promise<AIFixture | null> {
+  try {
+    return JSON.parse(await readFile(fixturePath(fixtureDir, key), 'utf8')) as AIFixture;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -2,37 +2,107 @@ import type { Env } from '../env.js';
 import type { AIAdapter } from './AIAdapter.js';
 import { OpenAIAdapter } from '../OpenAIAdapter.js';
 import { GoogleAIAdapter } from './GoogleAIAdapter.js';
+import { OpenAICompatibleAdapter } from './OpenAICompatibleAdapter.js';
+import { FallbackAIAdapter } from './FallbackAIAdapter.js';
+import { RecordingAIAdapter } from './RecordingAIAdapter.js';
+import { ReplayAIAdapter } from './ReplayAIAdapter.js';
 import { logger } from '../logger.js';
 
+type AIBackend = Env['AI_BACKEND'];
+
+const missingConfig: Record<AIBackend, string> = {
+  openai: 'OPENAI_API_KEY',
+  google: 'GOOGLE_AI_API_KEY',
+  openai_compatible: 'OPENAI_COMPATIBLE_BASE_URL',
+};
+
+function createBackendAdapter(backend: AIBackend, env: Env): AIAdapter {
+  switch (backend) {
+    case 'google':
+      return new GoogleAIAdapter(env);
+    case 'openai_compatible':
+      return new OpenAICompatibleAdapter(env);
+    case 'openai':
+      return new OpenAIAdapter(env);
+  }
+}
+
 /**
  * Factory function to create the appropriate AI adapter based on configuration
- * Falls back gracefully if selected backend is not configured
+ * Builds a fallback chain from AI_BACKEND followed by AI_FALLBACK_BACKENDS; backends that
+ * are not configured are left out. Falls back to OpenAI if none of them is configured.
+ * When every backend in the chain fails, callers fall back to non-AI (fuzzy) suggestions.
+ * AI_FIXTURE_MODE records the chain's answers to AI_FIXTURE_DIR or replays them instead.
  *
  * @param env - Validated environment configuration
  * @returns The configured AI adapter instance
  */
 export function createAIAdapter(env: Env): AIAdapter {
-  const backend = env.AI_BACKEND;
+  const backends = createBackendChain(env);
+
+  switch (env.AI_FIXTURE_MODE) {
+    case 'record':
+      logger.info('Recording AI responses to fixtures', { fixtureDir: env.AI_FIXTURE_DIR });
+      return new RecordingAIAdapter(backends, env.AI_FIXTURE_DIR);
+    case 'replay':
+      logger.info('Replaying AI responses from fixtures, no AI backend will be called', {
+        fixtureDir: env.AI_FIXTURE_DIR,
+      });
+      return new ReplayAIAdapter(env.AI_FIXTURE_DIR, {
+        backendId: backends.getBackendId(),
+        capabilities: backends.getCapabilities(),
+      });
+    case 'off':
+      return backends;
+  }
+}
 
-  logger.info('Initializing AI backend', { requested: backend });
+function createBackendChain(env: Env): AIAdapter {
+  const requested = [...new Set<AIBackend>([env.AI_BACKEND, ...env.AI_FALLBACK_BACKENDS])];
 
-  if (backend === 'google') {
-    const adapter = new GoogleAIAdapter(env);
+  logger.info('Initializing AI backend', { requested });
+
+  const adapters: AIAdapter[] = [];
+  for (const backend of requested) {
+    const adapter = createBackendAdapter(backend, env);
     if (adapter.isConfigured()) {
-      logger.info('Using Google AI (Gemini) backend', { model: env.GOOGLE_AI_MODEL });
-      return adapter;
+      adapters.push(adapter);
+    } else {
+      logger.warn('AI backend selected but not configured, skipping', {
+        backend,
+        missing: missingConfig[backend],
+      });
     }
-    logger.warn(
-      'Google AI selected but not configured (missing GOOGLE_AI_API_KEY), falling back to OpenAI'
-    );
   }
 
-  // Default to OpenAI
-  const adapter = new OpenAIAdapter(env);
-  if (adapter.isConfigured()) {
-    logger.info('Using OpenAI backend', { model: env.OPENAI_MODEL });
-    return adapter;
+  if (adapters.length === 0) {
+    // Default to OpenAI
+    const adapter = new OpenAIAdapter(env);
+    if (adapter.isConfigured()) {
+      logger.info('Using OpenAI backend', { model: env.OPENAI_MODEL });
+      return new FallbackAIAdapter([adapter], retryOptions(env), circuitOptions(env));
+    }
+    logger.warn('OpenAI not configured (missing OPENAI_API_KEY), AI features will be disabled');
+    return adapter; // Return unconfigured adapter (isConfigured() returns false)
   }
-  logger.warn('OpenAI not configured (missing OPENAI_API_KEY), AI features will be disabled');
-  return adapter; // Return unconfigured adapter (isConfigured() returns false)
+
+  logger.info('Using AI backend chain', {
+    backends: adapters.map((adapter) => adapter.getBackendName()),
+  });
+  return new FallbackAIAdapter(adapters, retryOptions(env), circuitOptions(env));
+}
+
+function retryOptions(env: Env) {
+  return {
+    maxAttempts: env.AI_RETRY_MAX_ATTEMPTS,
+    baseDelayMs: env.AI_RETRY_BASE_DELAY_MS,
+    maxDelayMs: env.AI_RETRY_MAX_DELAY_MS,
+  };
+}
+
+function circuitOptions(env: Env) {
+  return {
+    failureThreshold: env.AI_CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: env.AI_CIRCUIT_RESET_SECONDS * 1000,
+  };
 }
@@ -1,5 +1,21 @@
 // AI Adapter abstraction layer
-export type { AIAdapter, AICapabilities, CompletionOptions } from './AIAdapter.js';
+export type {
+  AIAdapter,
+  AICapabilities,
+  CompletionOptions,
+  CompletionResult,
+  CompletionUsage,
+} from './AIAdapter.js';
 export { parseJsonResponse } from './parseJsonResponse.js';
 export { GoogleAIAdapter } from './GoogleAIAdapter.js';
+export { OpenAICompatibleAdapter } from './OpenAICompatibleAdapter.js';
+export { FallbackAIAdapter } from './FallbackAIAdapter.js';
+export { CircuitBreaker } from './CircuitBreaker.js';
+export { UsageTrackingAIAdapter } from './UsageTrackingAIAdapter.js';
+export { ValidatingAIAdapter, validateAIResponse } from './ValidatingAIAdapter.js';
+export { RedactingAIAdapter } from './RedactingAIAdapter.js';
+export { RecordingAIAdapter } from './RecordingAIAdapter.js';
+export { ReplayAIAdapter } from './ReplayAIAdapter.js';
+export { computeFixtureKey } from './aiFixtures.js';
+export { runWithAICallContext, getAICallContext } from './aiCallContext.js';
 export { createAIAdapter } from './createAIAdapter.js';
@@ -0,0 +1,32 @@
+module.exports = {
+  async up(knex) {
+    const hasRuleSuggestions = await knex.schema.hasTable('payee_rule_suggestions');
+    if (!hasRuleSuggestions) {
+      await knex.schema.createTable('payee_rule_suggestions', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('payee_id').notNullable();
+        table.text('payee_name').notNullable();
+        table.text('category_id').notNullable();
+        table.text('category_name').notNullable();
+        table.integer('approved_count').notNullable().defaultTo(0);
+        table.integer('cache_hit_count').notNullable().defaultTo(0);
+        table.float('confidence').notNullable();
+        table.text('rationale').notNullable();
+        table.text('status').notNullable();
+        table.text('rule_id');
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.unique(['budget_id', 'payee_id']);
+      });
+      await knex.schema.alterTable('payee_rule_suggestions', (table) => {
+        table.index(['budget_id']);
+        table.index(['status']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('payee_rule_suggestions');
+  },
+};
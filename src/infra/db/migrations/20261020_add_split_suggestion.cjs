@@ -0,0 +1,19 @@
+module.exports = {
+  async up(knex) {
+    const hasColumn = await knex.schema.hasColumn('suggestions', 'split_suggestion');
+    if (!hasColumn) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.text('split_suggestion');
+      });
+    }
+  },
+
+  async down(knex) {
+    const hasColumn = await knex.schema.hasColumn('suggestions', 'split_suggestion');
+    if (hasColumn) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.dropColumn('split_suggestion');
+      });
+    }
+  },
+};
@@ -0,0 +1,19 @@
+module.exports = {
+  async up(knex) {
+    const hasClassifierModels = await knex.schema.hasTable('classifier_models');
+    if (!hasClassifierModels) {
+      await knex.schema.createTable('classifier_models', (table) => {
+        table.text('budget_id').primary();
+        table.text('model').notNullable();
+        table.integer('sample_count').notNullable();
+        table.integer('category_count').notNullable();
+        table.float('holdout_accuracy');
+        table.text('trained_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('classifier_models');
+  },
+};
@@ -0,0 +1,31 @@
+module.exports = {
+  async up(knex) {
+    const hasBacktestRuns = await knex.schema.hasTable('backtest_runs');
+    if (!hasBacktestRuns) {
+      await knex.schema.createTable('backtest_runs', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('job_id');
+        table.integer('use_ai').notNullable().defaultTo(0);
+        table.integer('sample_size').notNullable();
+        table.integer('evaluated_count').notNullable();
+        table.integer('covered_count').notNullable();
+        table.integer('correct_count').notNullable();
+        table.float('accuracy');
+        table.float('coverage');
+        table.text('buckets').notNullable();
+        table.text('by_source').notNullable();
+        table.text('config').notNullable();
+        table.text('outcomes').notNullable();
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('backtest_runs', (table) => {
+        table.index(['budget_id', 'created_at']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('backtest_runs');
+  },
+};
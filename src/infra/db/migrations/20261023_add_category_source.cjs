@@ -0,0 +1,19 @@
+module.exports = {
+  async up(knex) {
+    const hasColumn = await knex.schema.hasColumn('suggestions', 'category_source');
+    if (!hasColumn) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.text('category_source');
+      });
+    }
+  },
+
+  async down(knex) {
+    const hasColumn = await knex.schema.hasColumn('suggestions', 'category_source');
+    if (hasColumn) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.dropColumn('category_source');
+      });
+    }
+  },
+};
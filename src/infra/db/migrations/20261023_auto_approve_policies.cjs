@@ -0,0 +1,24 @@
+module.exports = {
+  async up(knex) {
+    const hasPolicies = await knex.schema.hasTable('auto_approve_policies');
+    if (!hasPolicies) {
+      await knex.schema.createTable('auto_approve_policies', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('name').notNullable();
+        table.integer('enabled').notNullable().defaultTo(1);
+        table.text('action').notNullable();
+        table.text('conditions').notNullable();
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('auto_approve_policies', (table) => {
+        table.index(['budget_id']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('auto_approve_policies');
+  },
+};
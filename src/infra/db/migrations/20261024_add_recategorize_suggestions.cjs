@@ -0,0 +1,39 @@
+module.exports = {
+  async up(knex) {
+    const hasKind = await knex.schema.hasColumn('suggestions', 'suggestion_kind');
+    if (!hasKind) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.text('suggestion_kind').notNullable().defaultTo('categorize');
+      });
+    }
+
+    const hasCurrentCategoryName = await knex.schema.hasColumn(
+      'suggestions',
+      'current_category_name'
+    );
+    if (!hasCurrentCategoryName) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.text('current_category_name');
+      });
+    }
+  },
+
+  async down(knex) {
+    const hasKind = await knex.schema.hasColumn('suggestions', 'suggestion_kind');
+    if (hasKind) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.dropColumn('suggestion_kind');
+      });
+    }
+
+    const hasCurrentCategoryName = await knex.schema.hasColumn(
+      'suggestions',
+      'current_category_name'
+    );
+    if (hasCurrentCategoryName) {
+      await knex.schema.alterTable('suggestions', (table) => {
+        table.dropColumn('current_category_name');
+      });
+    }
+  },
+};
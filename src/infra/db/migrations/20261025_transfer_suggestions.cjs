@@ -0,0 +1,37 @@
+module.exports = {
+  async up(knex) {
+    const hasTransferSuggestions = await knex.schema.hasTable('transfer_suggestions');
+    if (!hasTransferSuggestions) {
+      await knex.schema.createTable('transfer_suggestions', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('from_transaction_id').notNullable();
+        table.text('from_account_id').notNullable();
+        table.text('from_account_name');
+        table.text('from_payee_name');
+        table.text('from_date').notNullable();
+        table.text('to_transaction_id').notNullable();
+        table.text('to_account_id').notNullable();
+        table.text('to_account_name');
+        table.text('to_payee_name');
+        table.text('to_date').notNullable();
+        table.integer('amount').notNullable();
+        table.integer('day_gap').notNullable();
+        table.float('confidence').notNullable();
+        table.text('rationale').notNullable();
+        table.text('status').notNullable();
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.unique(['budget_id', 'from_transaction_id', 'to_transaction_id']);
+      });
+      await knex.schema.alterTable('transfer_suggestions', (table) => {
+        table.index(['budget_id']);
+        table.index(['status']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('transfer_suggestions');
+  },
+};
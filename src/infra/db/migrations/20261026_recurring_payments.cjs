@@ -0,0 +1,35 @@
+module.exports = {
+  async up(knex) {
+    const hasRecurringPayments = await knex.schema.hasTable('recurring_payments');
+    if (!hasRecurringPayments) {
+      await knex.schema.createTable('recurring_payments', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('payee_id').notNullable();
+        table.text('payee_name').notNullable();
+        table.text('account_id').notNullable();
+        table.text('account_name');
+        table.text('cadence').notNullable();
+        table.integer('occurrences').notNullable();
+        table.integer('min_amount').notNullable();
+        table.integer('max_amount').notNullable();
+        table.integer('last_amount').notNullable();
+        table.integer('previous_amount').notNullable();
+        table.integer('price_increase').notNullable().defaultTo(0);
+        table.text('last_date').notNullable();
+        table.text('next_expected_date').notNullable();
+        table.text('status').notNullable();
+        table.text('schedule_id');
+        table.text('detected_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.unique(['budget_id', 'payee_id']);
+      });
+      await knex.schema.alterTable('recurring_payments', (table) => {
+        table.index(['budget_id']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('recurring_payments');
+  },
+};
@@ -0,0 +1,39 @@
+const CACHE_TABLES = ['payee_category_cache', 'payee_match_cache'];
+
+module.exports = {
+  async up(knex) {
+    for (const tableName of CACHE_TABLES) {
+      const hasPinned = await knex.schema.hasColumn(tableName, 'pinned');
+      if (!hasPinned) {
+        await knex.schema.alterTable(tableName, (table) => {
+          table.integer('pinned').notNullable().defaultTo(0);
+        });
+      }
+
+      const hasLastUsedAt = await knex.schema.hasColumn(tableName, 'last_used_at');
+      if (!hasLastUsedAt) {
+        await knex.schema.alterTable(tableName, (table) => {
+          table.text('last_used_at');
+        });
+      }
+    }
+  },
+
+  async down(knex) {
+    for (const tableName of CACHE_TABLES) {
+      const hasPinned = await knex.schema.hasColumn(tableName, 'pinned');
+      if (hasPinned) {
+        await knex.schema.alterTable(tableName, (table) => {
+          table.dropColumn('pinned');
+        });
+      }
+
+      const hasLastUsedAt = await knex.schema.hasColumn(tableName, 'last_used_at');
+      if (hasLastUsedAt) {
+        await knex.schema.alterTable(tableName, (table) => {
+          table.dropColumn('last_used_at');
+        });
+      }
+    }
+  },
+};
@@ -0,0 +1,28 @@
+module.exports = {
+  async up(knex) {
+    const hasSuggestionFeedback = await knex.schema.hasTable('suggestion_feedback');
+    if (!hasSuggestionFeedback) {
+      await knex.schema.createTable('suggestion_feedback', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('suggestion_id').notNullable();
+        table.text('transaction_id').notNullable();
+        table.text('payee_name');
+        table.text('source');
+        table.text('proposed_category_id');
+        table.text('actual_category_id').notNullable();
+        table.text('actual_category_name');
+        table.float('confidence').notNullable();
+        table.text('outcome').notNullable();
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('suggestion_feedback', (table) => {
+        table.index(['budget_id']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('suggestion_feedback');
+  },
+};
@@ -0,0 +1,19 @@
+module.exports = {
+  async up(knex) {
+    const hasModelRoutes = await knex.schema.hasTable('ai_model_routes');
+    if (!hasModelRoutes) {
+      await knex.schema.createTable('ai_model_routes', (table) => {
+        table.text('budget_id').notNullable();
+        table.text('task').notNullable();
+        table.text('backend');
+        table.text('model');
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.primary(['budget_id', 'task']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('ai_model_routes');
+  },
+};
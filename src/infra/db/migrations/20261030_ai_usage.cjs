@@ -0,0 +1,28 @@
+module.exports = {
+  async up(knex) {
+    const hasAIUsage = await knex.schema.hasTable('ai_usage');
+    if (!hasAIUsage) {
+      await knex.schema.createTable('ai_usage', (table) => {
+        table.text('id').primary();
+        table.text('job_id');
+        table.text('budget_id');
+        table.text('task');
+        table.text('backend').notNullable();
+        table.text('model').notNullable();
+        table.integer('prompt_tokens').notNullable().defaultTo(0);
+        table.integer('completion_tokens').notNullable().defaultTo(0);
+        table.integer('latency_ms').notNullable().defaultTo(0);
+        table.float('estimated_cost_usd');
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('ai_usage', (table) => {
+        table.index(['job_id']);
+        table.index(['created_at']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('ai_usage');
+  },
+};
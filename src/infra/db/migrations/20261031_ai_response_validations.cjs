@@ -0,0 +1,23 @@
+module.exports = {
+  async up(knex) {
+    const hasValidations = await knex.schema.hasTable('ai_response_validations');
+    if (!hasValidations) {
+      await knex.schema.createTable('ai_response_validations', (table) => {
+        table.text('id').primary();
+        table.text('backend').notNullable();
+        table.text('task');
+        table.text('outcome').notNullable();
+        table.integer('attempts').notNullable().defaultTo(1);
+        table.text('issues');
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('ai_response_validations', (table) => {
+        table.index(['backend']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('ai_response_validations');
+  },
+};
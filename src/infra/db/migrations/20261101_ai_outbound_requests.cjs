@@ -0,0 +1,24 @@
+module.exports = {
+  async up(knex) {
+    const hasRequests = await knex.schema.hasTable('ai_outbound_requests');
+    if (!hasRequests) {
+      await knex.schema.createTable('ai_outbound_requests', (table) => {
+        table.text('id').primary();
+        table.text('job_id');
+        table.text('budget_id');
+        table.text('task');
+        table.text('instructions');
+        table.text('input').notNullable();
+        table.text('redactions');
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('ai_outbound_requests', (table) => {
+        table.index(['job_id']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('ai_outbound_requests');
+  },
+};
@@ -0,0 +1,27 @@
+module.exports = {
+  async up(knex) {
+    const hasExamples = await knex.schema.hasTable('suggestion_examples');
+    if (!hasExamples) {
+      await knex.schema.createTable('suggestion_examples', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('suggestion_id').notNullable();
+        table.text('kind').notNullable();
+        table.text('payee_name').notNullable();
+        table.text('proposed_name');
+        table.text('chosen_id');
+        table.text('chosen_name').notNullable();
+        table.integer('corrected').notNullable().defaultTo(0);
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.unique(['suggestion_id', 'kind']);
+      });
+      await knex.schema.alterTable('suggestion_examples', (table) => {
+        table.index(['budget_id', 'created_at']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('suggestion_examples');
+  },
+};
@@ -0,0 +1,32 @@
+module.exports = {
+  async up(knex) {
+    const hasGuidance = await knex.schema.hasTable('category_guidance');
+    if (!hasGuidance) {
+      await knex.schema.createTable('category_guidance', (table) => {
+        table.text('budget_id').notNullable();
+        table.text('category_id').notNullable();
+        table.text('description');
+        table.text('example_payees').notNullable().defaultTo('[]');
+        table.text('never_suggest_for').notNullable().defaultTo('[]');
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.primary(['budget_id', 'category_id']);
+      });
+    }
+
+    const hasAllowlists = await knex.schema.hasTable('account_category_allowlists');
+    if (!hasAllowlists) {
+      await knex.schema.createTable('account_category_allowlists', (table) => {
+        table.text('budget_id').notNullable();
+        table.text('account_id').notNullable();
+        table.text('category_ids').notNullable();
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.primary(['budget_id', 'account_id']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('account_category_allowlists');
+    await knex.schema.dropTableIfExists('category_guidance');
+  },
+};
@@ -0,0 +1,37 @@
+module.exports = {
+  async up(knex) {
+    const hasTemplates = await knex.schema.hasTable('prompt_templates');
+    if (!hasTemplates) {
+      await knex.schema.createTable('prompt_templates', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('name').notNullable();
+        table.integer('version').notNullable();
+        table.text('instructions');
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.unique(['budget_id', 'name', 'version']);
+      });
+    }
+
+    for (const column of ['payee_prompt_version', 'category_prompt_version']) {
+      const hasColumn = await knex.schema.hasColumn('suggestions', column);
+      if (!hasColumn) {
+        await knex.schema.alterTable('suggestions', (table) => {
+          table.text(column);
+        });
+      }
+    }
+  },
+
+  async down(knex) {
+    for (const column of ['payee_prompt_version', 'category_prompt_version']) {
+      const hasColumn = await knex.schema.hasColumn('suggestions', column);
+      if (hasColumn) {
+        await knex.schema.alterTable('suggestions', (table) => {
+          table.dropColumn(column);
+        });
+      }
+    }
+    await knex.schema.dropTableIfExists('prompt_templates');
+  },
+};
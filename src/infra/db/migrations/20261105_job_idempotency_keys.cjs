@@ -0,0 +1,23 @@
+module.exports = {
+  async up(knex) {
+    const hasColumn = await knex.schema.hasColumn('jobs', 'idempotency_key');
+    if (!hasColumn) {
+      await knex.schema.alterTable('jobs', (table) => {
+        table.text('idempotency_key');
+      });
+    }
+    await knex.raw(
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency_key ON jobs(budget_id, idempotency_key)'
+    );
+  },
+
+  async down(knex) {
+    await knex.raw('DROP INDEX IF EXISTS idx_jobs_idempotency_key');
+    const hasColumn = await knex.schema.hasColumn('jobs', 'idempotency_key');
+    if (hasColumn) {
+      await knex.schema.alterTable('jobs', (table) => {
+        table.dropColumn('idempotency_key');
+      });
+    }
+  },
+};
@@ -0,0 +1,46 @@
+module.exports = {
+  async up(knex) {
+    const hasSchedules = await knex.schema.hasTable('job_schedules');
+    if (!hasSchedules) {
+      await knex.schema.createTable('job_schedules', (table) => {
+        table.text('id').primary();
+        table.text('budget_id').notNullable();
+        table.text('name').notNullable();
+        table.text('cron_expression').notNullable();
+        table.text('job_type').notNullable();
+        table.text('options');
+        table.integer('enabled').notNullable().defaultTo(1);
+        table.text('quiet_hours_start');
+        table.text('quiet_hours_end');
+        table.text('last_run_at');
+        table.text('next_run_at');
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+        table.text('updated_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('job_schedules', (table) => {
+        table.index(['budget_id']);
+      });
+    }
+
+    const hasRuns = await knex.schema.hasTable('job_schedule_runs');
+    if (!hasRuns) {
+      await knex.schema.createTable('job_schedule_runs', (table) => {
+        table.text('id').primary();
+        table.text('schedule_id').notNullable();
+        table.text('job_id');
+        table.text('status').notNullable();
+        table.text('message');
+        table.integer('manual').notNullable().defaultTo(0);
+        table.text('created_at').notNullable().defaultTo(knex.raw("datetime('now')"));
+      });
+      await knex.schema.alterTable('job_schedule_runs', (table) => {
+        table.index(['schedule_id', 'created_at']);
+      });
+    }
+  },
+
+  async down(knex) {
+    await knex.schema.dropTableIfExists('job_schedule_runs');
+    await knex.schema.dropTableIfExists('job_schedules');
+  },
+};
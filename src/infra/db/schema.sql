@@ -7,6 +7,7 @@
 CREATE TABLE IF NOT EXISTS suggestions (
   id TEXT PRIMARY KEY,              -- UUID v4
   budget_id TEXT NOT NULL,          -- Actual Budget ID (budgetId)
+  suggestion_kind TEXT NOT NULL DEFAULT 'categorize', -- categorize (uncategorized) or recategorize (already categorized)
   transaction_id TEXT NOT NULL,     -- Actual Budget transaction ID
   transaction_account_id TEXT,      -- Account ID
   transaction_account_name TEXT,    -- Account name for display
@@ -14,6 +15,7 @@ CREATE TABLE IF NOT EXISTS suggestions (
   transaction_amount REAL,          -- Transaction amount
   transaction_date TEXT,            -- Transaction date
   current_category_id TEXT,         -- Current category ID (may be NULL)
+  current_category_name TEXT,       -- Current category name (recategorize suggestions)
   current_payee_id TEXT,            -- Current payee ID (if exists)
   
   -- Payee suggestion fields
@@ -22,6 +24,7 @@ CREATE TABLE IF NOT EXISTS suggestions (
   payee_confidence REAL DEFAULT 0,  -- Payee suggestion confidence 0.0 to 1.0
   payee_rationale TEXT,             -- Payee suggestion reasoning
   payee_status TEXT DEFAULT 'pending' CHECK(payee_status IN ('pending', 'approved', 'rejected', 'applied', 'skipped')),
+  payee_prompt_version TEXT,        -- Prompt template that produced the payee (payee_identification@v2, ...)
   
   -- Category suggestion fields  
   proposed_category_id TEXT,        -- Proposed category ID (nullable now)
@@ -29,6 +32,11 @@ CREATE TABLE IF NOT EXISTS suggestions (
   category_confidence REAL DEFAULT 0, -- Category suggestion confidence 0.0 to 1.0
   category_rationale TEXT,          -- Category suggestion reasoning
   category_status TEXT DEFAULT 'pending' CHECK(category_status IN ('pending', 'approved', 'rejected', 'applied', 'skipped')),
+  category_source TEXT,             -- Pipeline stage that produced the category (cache_user_approved, fuzzy_match, ...)
+  category_prompt_version TEXT,     -- Prompt template that produced the category (category_suggestion@v3, ...)
+  
+  -- Split suggestion (JSON: lines, confidence, rationale, status)
+  split_suggestion TEXT,
   
   -- Legacy fields for backward compatibility (will be deprecated)
   suggested_payee_name TEXT,        -- LLM-suggested canonical payee name (legacy)
@@ -67,7 +75,8 @@ CREATE TABLE IF NOT EXISTS jobs (
   completed_at TEXT,
   failure_reason TEXT,
   parent_job_id TEXT,
-  metadata TEXT
+  metadata TEXT,
+  idempotency_key TEXT              -- Idempotency-Key header of the request that created the job
 );
 
 -- Job steps: Ordered steps for combined jobs
@@ -105,6 +114,8 @@ CREATE TABLE IF NOT EXISTS payee_category_cache (
   confidence REAL NOT NULL,           -- Confidence at time of caching
   source TEXT NOT NULL CHECK(source IN ('user_approved', 'high_confidence_ai')),
   hit_count INTEGER DEFAULT 1,        -- Number of times this cache entry was used
+  pinned INTEGER NOT NULL DEFAULT 0,  -- 1 = locked by the user; automatic learning never overwrites it
+  last_used_at TEXT,                  -- Last time a lookup used this entry
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now')),
   UNIQUE(budget_id, payee_name)
@@ -144,6 +155,8 @@ CREATE TABLE IF NOT EXISTS payee_match_cache (
   confidence REAL NOT NULL,               -- Confidence in this mapping
   source TEXT NOT NULL CHECK(source IN ('user_approved', 'high_confidence_ai', 'fuzzy_match')),
   hit_count INTEGER DEFAULT 1,            -- Number of times this cache entry was used
+  pinned INTEGER NOT NULL DEFAULT 0,      -- 1 = locked by the user; automatic learning never overwrites it
+  last_used_at TEXT,                      -- Last time a lookup used this entry
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   updated_at TEXT NOT NULL DEFAULT (datetime('now')),
   UNIQUE(budget_id, raw_payee_name)
@@ -194,3 +207,275 @@ CREATE TABLE IF NOT EXISTS payee_merge_hidden_groups (
   hidden_at TEXT NOT NULL DEFAULT (datetime('now')),
   PRIMARY KEY (budget_id, group_hash)
 );
+
+-- Payee rule suggestions (payee → category rules to create in Actual Budget)
+CREATE TABLE IF NOT EXISTS payee_rule_suggestions (
+  id TEXT PRIMARY KEY,
+  budget_id TEXT NOT NULL,
+  payee_id TEXT NOT NULL,
+  payee_name TEXT NOT NULL,
+  category_id TEXT NOT NULL,
+  category_name TEXT NOT NULL,
+  approved_count INTEGER NOT NULL DEFAULT 0,
+  cache_hit_count INTEGER NOT NULL DEFAULT 0,
+  confidence REAL NOT NULL,
+  rationale TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('pending', 'approved', 'rejected', 'applied')),
+  rule_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(budget_id, payee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payee_rule_suggestions_budget ON payee_rule_suggestions(budget_id);
+CREATE INDEX IF NOT EXISTS idx_payee_rule_suggestions_status ON payee_rule_suggestions(status);
+
+-- Local classifier models (one naive Bayes model per budget, retrained during sync)
+CREATE TABLE IF NOT EXISTS classifier_models (
+  budget_id TEXT PRIMARY KEY,
+  model TEXT NOT NULL,                -- JSON-serialized ClassifierModel
+  sample_count INTEGER NOT NULL,
+  category_count INTEGER NOT NULL,
+  holdout_accuracy REAL,              -- Accuracy on held-out history, NULL if too few samples
+  trained_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Backtest runs (categorizer accuracy against hidden history)
+CREATE TABLE IF NOT EXISTS backtest_runs (
+  id TEXT PRIMARY KEY,
+  budget_id TEXT NOT NULL,
+  job_id TEXT,
+  use_ai INTEGER NOT NULL DEFAULT 0,
+  sample_size INTEGER NOT NULL,
+  evaluated_count INTEGER NOT NULL,
+  covered_count INTEGER NOT NULL,
+  correct_count INTEGER NOT NULL,
+  accuracy REAL,
+  coverage REAL,
+  buckets TEXT NOT NULL,              -- JSON array of confidence buckets
+  by_source TEXT NOT NULL,            -- JSON object of accuracy per pipeline stage
+  config TEXT NOT NULL,               -- JSON object of backend/threshold settings
+  outcomes TEXT NOT NULL,             -- JSON array of per-transaction outcomes
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_backtest_runs_budget ON backtest_runs(budget_id, created_at);
+
+-- Auto-approve policies (per-budget rules evaluated after suggestion generation)
+CREATE TABLE IF NOT EXISTS auto_approve_policies (
+  id TEXT PRIMARY KEY,
+  budget_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  action TEXT NOT NULL CHECK(action IN ('approve', 'apply', 'never')),
+  conditions TEXT NOT NULL,           -- JSON object: sources, minConfidence, maxAmount, accountIds
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_auto_approve_policies_budget ON auto_approve_policies(budget_id);
+
+-- Transfer suggestions (pairs of imported transactions to link as one transfer)
+CREATE TABLE IF NOT EXISTS transfer_suggestions (
+  id TEXT PRIMARY KEY,
+  budget_id TEXT NOT NULL,
+  from_transaction_id TEXT NOT NULL,
+  from_account_id TEXT NOT NULL,
+  from_account_name TEXT,
+  from_payee_name TEXT,
+  from_date TEXT NOT NULL,
+  to_transaction_id TEXT NOT NULL,
+  to_account_id TEXT NOT NULL,
+  to_account_name TEXT,
+  to_payee_name TEXT,
+  to_date TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  day_gap INTEGER NOT NULL,
+  confidence REAL NOT NULL,
+  rationale TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('pending', 'approved', 'rejected', 'applied')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(budget_id, from_transaction_id, to_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_suggestions_budget ON transfer_suggestions(budget_id);
+CREATE INDEX IF NOT EXISTS idx_transfer_suggestions_status ON transfer_suggestions(status);
+
+-- Recurring payments (latest detection run per budget)
+CREATE TABLE IF NOT EXISTS recurring_payments (
+  id TEXT PRIMARY KEY,
+  budget_id TEXT NOT NULL,
+  payee_id TEXT NOT NULL,
+  payee_name TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  account_name TEXT,
+  cadence TEXT NOT NULL CHECK(cadence IN ('weekly', 'monthly', 'yearly')),
+  occurrences INTEGER NOT NULL,
+  min_amount INTEGER NOT NULL,
+  max_amount INTEGER NOT NULL,
+  last_amount INTEGER NOT NULL,
+  previous_amount INTEGER NOT NULL,
+  price_increase INTEGER NOT NULL DEFAULT 0,
+  last_date TEXT NOT NULL,
+  next_expected_date TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('active', 'stopped')),
+  schedule_id TEXT,
+  detected_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(budget_id, payee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_payments_budget ON recurring_payments(budget_id);
+
+-- Implicit feedback: categories chosen in Actual Budget for transactions with an open suggestion
+CREATE TABLE IF NOT EXISTS suggestion_feedback (
+  id TEXT PRIMARY KEY,
+  budget_id TEXT NOT NULL,
+  suggestion_id TEXT NOT NULL,
+  transaction_id TEXT NOT NULL,
+  payee_name TEXT,
+  source TEXT,                      -- Pipeline stage of the proposal; NULL when there was none
+  proposed_category_id TEXT,
+  actual_category_id TEXT NOT NULL,
+  actual_category_name TEXT,
+  confidence REAL NOT NULL,
+  outcome TEXT NOT NULL CHECK(outcome IN ('accepted', 'overridden', 'unsuggested')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_feedback_budget ON suggestion_feedback(budget_id);
+
+-- Per-budget overrides of the AI backend/model used for each prompt call site
+CREATE TABLE IF NOT EXISTS ai_model_routes (
+  budget_id TEXT NOT NULL,
+  task TEXT NOT NULL,                 -- payee_identification, category_suggestion, ...
+  backend TEXT,                       -- NULL keeps the global/default backend
+  model TEXT,                         -- NULL keeps the backend's configured model
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (budget_id, task)
+);
+
+-- Tokens, latency and estimated cost of each AI completion
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  job_id TEXT,                        -- Job the call was made for (NULL outside jobs)
+  budget_id TEXT,
+  task TEXT,                          -- Prompt call site (payee_identification, ...)
+  backend TEXT NOT NULL,              -- Backend id that answered
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd REAL,            -- NULL when the model has no price
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_job ON ai_usage(job_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+
+-- Outcome of validating each structured AI response against its call site's schema
+CREATE TABLE IF NOT EXISTS ai_response_validations (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  backend TEXT NOT NULL,              -- Backend id that gave the first response
+  task TEXT,                          -- Prompt call site (payee_identification, ...)
+  outcome TEXT NOT NULL CHECK(outcome IN ('valid', 'repaired', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1, -- Responses requested, including repairs
+  issues TEXT,                        -- JSON array of issues in the first invalid response
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_validations_backend ON ai_response_validations(backend);
+
+-- Exact text of each AI request after PII redaction, for auditing what left the server
+CREATE TABLE IF NOT EXISTS ai_outbound_requests (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  job_id TEXT,                        -- Job the call was made for (NULL outside jobs)
+  budget_id TEXT,
+  task TEXT,                          -- Prompt call site (payee_identification, ...)
+  instructions TEXT,
+  input TEXT NOT NULL,
+  redactions TEXT,                    -- JSON object: placeholder label -> values replaced
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_outbound_requests_job ON ai_outbound_requests(job_id);
+
+-- Payees and categories the user approved or corrected, used as few-shot prompt examples
+CREATE TABLE IF NOT EXISTS suggestion_examples (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  budget_id TEXT NOT NULL,
+  suggestion_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('payee', 'category')),
+  payee_name TEXT NOT NULL,           -- Raw payee of the transaction
+  proposed_name TEXT,                 -- What was suggested
+  chosen_id TEXT,                     -- Category id, or payee id when known
+  chosen_name TEXT NOT NULL,          -- What the user approved or corrected to
+  corrected INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(suggestion_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_examples_budget ON suggestion_examples(budget_id, created_at);
+
+-- What each category means in a household, for category prompts
+CREATE TABLE IF NOT EXISTS category_guidance (
+  budget_id TEXT NOT NULL,
+  category_id TEXT NOT NULL,
+  description TEXT,
+  example_payees TEXT NOT NULL DEFAULT '[]',     -- JSON array of payee names
+  never_suggest_for TEXT NOT NULL DEFAULT '[]',  -- JSON array of payee fragments
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (budget_id, category_id)
+);
+
+-- Categories each account's transactions may be given (accounts without a row are unrestricted)
+CREATE TABLE IF NOT EXISTS account_category_allowlists (
+  budget_id TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  category_ids TEXT NOT NULL,         -- JSON array of category ids
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (budget_id, account_id)
+);
+
+-- Per-budget edits of the suggestion prompt templates; the latest version of each is in effect
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  budget_id TEXT NOT NULL,
+  name TEXT NOT NULL,                 -- payee_identification, category_suggestion, ...
+  version INTEGER NOT NULL,           -- 1, 2, ... per budget and template
+  instructions TEXT,                  -- NULL reverts to the built-in template
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(budget_id, name, version)
+);
+
+-- Cron schedules that start jobs for a budget
+CREATE TABLE IF NOT EXISTS job_schedules (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  budget_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  cron_expression TEXT NOT NULL,      -- Five fields, server local time
+  job_type TEXT NOT NULL,             -- scheduled_sync_and_suggest, snapshot_create, ...
+  options TEXT,                       -- JSON job options, e.g. {"useAI": false}
+  enabled INTEGER NOT NULL DEFAULT 1,
+  quiet_hours_start TEXT,             -- HH:MM; runs due between start and end are skipped
+  quiet_hours_end TEXT,
+  last_run_at TEXT,
+  next_run_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_schedules_budget ON job_schedules(budget_id);
+
+-- Each time a schedule came due, with the job it started
+CREATE TABLE IF NOT EXISTS job_schedule_runs (
+  id TEXT PRIMARY KEY,                -- UUID v4
+  schedule_id TEXT NOT NULL,
+  job_id TEXT,                        -- NULL when the run was skipped or failed to start
+  status TEXT NOT NULL,               -- started, skipped, failed
+  message TEXT,
+  manual INTEGER NOT NULL DEFAULT 0,  -- 1 when started with "Run now"
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_schedule_runs_schedule ON job_schedule_runs(schedule_id, created_at);
@@ -1,4 +1,49 @@
 import { z, ZodError } from 'zod';
+import { AI_BACKEND_IDS, AI_TASKS } from '../domain/entities/ModelRoute.js';
+import { REDACTION_DETECTORS } from '../domain/entities/Redaction.js';
+import { intervalToCronExpression } from '../domain/entities/JobSchedule.js';
+
+const aiBackendSchema = z.enum(AI_BACKEND_IDS);
+
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+});
+
+/** Parse a JSON-valued variable; unset or empty means an empty object */
+function parseJsonObject(value: unknown): unknown {
+  if (value === undefined || value === '') return {};
+  try {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    return value; // Let the schema report the malformed value
+  }
+}
+
+/** Comma-separated list; unset or empty means none */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+const redactionPatternSchema = z.string().refine(
+  (source) => {
+    try {
+      new RegExp(source, 'gi');
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'must be a valid regular expression' }
+);
+
+const modelRouteSchema = z.object({
+  backend: aiBackendSchema.nullable().default(null),
+  model: z.string().min(1).nullable().default(null),
+});
 
 /**
  * Environment variable schema with strict validation
@@ -16,7 +61,60 @@ const envSchema = z.object({
   ACTUAL_ENCRYPTION_KEY: z.string().optional(),
 
   // AI Backend Selection
-  AI_BACKEND: z.enum(['openai', 'google']).default('openai'),
+  AI_BACKEND: aiBackendSchema.default('openai'),
+  // Backends tried in order when AI_BACKEND fails, e.g. "google,openai_compatible"
+  AI_FALLBACK_BACKENDS: z.string().default('').transform(splitList).pipe(z.array(aiBackendSchema)),
+
+  // Per-task backend/model, as JSON: {"payee_identification": {"backend": "openai", "model": "gpt-4o"}}
+  AI_MODEL_ROUTES: z.preprocess(
+    parseJsonObject,
+    z.partialRecord(z.enum(AI_TASKS), modelRouteSchema)
+  ),
+
+  // Cost accounting: USD per million tokens, as JSON: {"gpt-4o-mini": {"input": 0.15, "output": 0.6}}
+  AI_MODEL_PRICES: z.preprocess(parseJsonObject, z.record(z.string(), modelPriceSchema)),
+  // Estimated monthly spend after which jobs run without AI until the next month
+  AI_MONTHLY_COST_CAP_USD: z.preprocess(
+    (value) => (value === '' ? undefined : value),
+    z.coerce.number().positive().optional()
+  ),
+
+  // Approximate tokens of past approvals/corrections added to category prompts (0 disables)
+  AI_EXAMPLE_TOKEN_BUDGET: z.coerce.number().int().min(0).default(300),
+
+  // Times an AI response that fails its schema is sent back with the issues before failing
+  AI_REPAIR_MAX_ATTEMPTS: z.coerce.number().int().min(0).default(2),
+
+  // PII redaction of prompts: built-in detectors to apply, and extra patterns as JSON
+  // (placeholder label → regex), e.g. {"MEMBER_ID": "M\\d{8}"}
+  AI_REDACTION_DETECTORS: z
+    .string()
+    .default(REDACTION_DETECTORS.join(','))
+    .transform(splitList)
+    .pipe(z.array(z.enum(REDACTION_DETECTORS))),
+  AI_REDACTION_PATTERNS: z.preprocess(
+    parseJsonObject,
+    z.record(z.string().regex(/^[A-Z][A-Z0-9_]*$/), redactionPatternSchema)
+  ),
+
+  // Record AI request/response pairs to fixtures, or replay them without network access
+  AI_FIXTURE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  AI_FIXTURE_DIR: z.string().default('./data/ai-fixtures'),
+
+  // AI retries and circuit breaker
+  AI_RETRY_MAX_ATTEMPTS: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'AI_RETRY_MAX_ATTEMPTS must be at least 1' })
+    .default(3),
+  AI_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(1000),
+  AI_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(30000),
+  AI_CIRCUIT_FAILURE_THRESHOLD: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'AI_CIRCUIT_FAILURE_THRESHOLD must be at least 1' })
+    .default(3),
+  AI_CIRCUIT_RESET_SECONDS: z.coerce.number().int().min(1).default(60),
 
   // OpenAI API
   OPENAI_API_KEY: z.preprocess(
@@ -32,6 +130,21 @@ const envSchema = z.object({
   ),
   GOOGLE_AI_MODEL: z.string().default('gemini-2.0-flash'),
 
+  // OpenAI-compatible chat completions server (Ollama, llama.cpp, LM Studio, vLLM)
+  OPENAI_COMPATIBLE_BASE_URL: z.preprocess(
+    (value) => (value === '' ? undefined : value),
+    z.string().url().optional()
+  ),
+  OPENAI_COMPATIBLE_MODEL: z.string().default('llama3.1'),
+  OPENAI_COMPATIBLE_API_KEY: z.preprocess(
+    (value) => (value === '' ? undefined : value),
+    z.string().optional()
+  ),
+  OPENAI_COMPATIBLE_STRUCTURED_OUTPUT: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+
   // Data storage
   DATA_DIR: z.string().default('./data'),
   SQLITE_DB_PATH: z.string().default('./data/audit.db'),
@@ -40,13 +153,26 @@ const envSchema = z.object({
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   LOG_FILE: z.string().optional(),
 
-  // Periodic Sync
+  // Periodic sync: seeds the default sync-and-suggest schedule the first time a budget starts
+  // without schedules; schedules are managed on the Schedules page after that
   SYNC_INTERVAL_MINUTES: z.coerce
     .number()
     .int()
     .min(1, { message: 'SYNC_INTERVAL_MINUTES must be at least 1' })
+    .refine((minutes) => intervalToCronExpression(minutes) !== null, {
+      message:
+        'SYNC_INTERVAL_MINUTES must divide an hour or a day evenly (e.g. 15, 30, 120, 360), or be 1440 (daily) or 10080 (weekly)',
+    })
     .default(360),
 
+  // Transfer detection: max days between the two sides of a transfer
+  TRANSFER_MATCH_WINDOW_DAYS: z.coerce
+    .number()
+    .int()
+    .min(0, { message: 'TRANSFER_MATCH_WINDOW_DAYS must be at least 0' })
+    .max(31, { message: 'TRANSFER_MATCH_WINDOW_DAYS must be at most 31' })
+    .default(3),
+
   // Job timeout handling
   JOB_TIMEOUT_MINUTES: z.coerce
     .number()
@@ -59,6 +185,36 @@ const envSchema = z.object({
     .min(1, { message: 'JOB_TIMEOUT_CHECK_INTERVAL_MINUTES must be at least 1' })
     .default(5),
 
+  // Job queue: jobs of one type running at once, per-type overrides as JSON
+  // ({"snapshot_create": 2}), and how often the worker looks for queued jobs
+  JOB_CONCURRENCY: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'JOB_CONCURRENCY must be at least 1' })
+    .default(1),
+  JOB_CONCURRENCY_BY_TYPE: z.preprocess(
+    parseJsonObject,
+    z.record(z.string(), z.number().int().min(1))
+  ),
+  // Automatic retries per job type as JSON, over the built-in policies:
+  // {"budget_sync": {"maxAttempts": 5, "baseDelayMs": 30000, "maxDelayMs": 600000}}
+  JOB_RETRY_POLICIES: z.preprocess(
+    parseJsonObject,
+    z.record(
+      z.string(),
+      z.object({
+        maxAttempts: z.number().int().min(1),
+        baseDelayMs: z.number().int().min(0),
+        maxDelayMs: z.number().int().min(0),
+      })
+    )
+  ),
+  JOB_QUEUE_POLL_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'JOB_QUEUE_POLL_INTERVAL_SECONDS must be at least 1' })
+    .default(5),
+
   // Rate limiting (API)
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().default(60000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().default(120),
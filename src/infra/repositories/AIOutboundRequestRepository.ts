@@ -0,0 +1,67 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type { AIOutboundRequest } from '../../domain/entities/AIOutboundRequest.js';
+import type { AITask } from '../../domain/entities/ModelRoute.js';
+import { logger } from '../logger.js';
+
+type AIOutboundRequestRow = {
+  id: string;
+  job_id: string | null;
+  budget_id: string | null;
+  task: AITask | null;
+  instructions: string | null;
+  input: string;
+  redactions: string | null;
+  created_at: string;
+};
+
+/**
+ * Repository for the redacted text of AI requests
+ * Append-only audit log, read per job
+ */
+export class AIOutboundRequestRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(request: AIOutboundRequest): void {
+    this.db.execute(
+      `INSERT INTO ai_outbound_requests (
+         id, job_id, budget_id, task, instructions, input, redactions, created_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        request.id,
+        request.jobId,
+        request.budgetId,
+        request.task,
+        request.instructions,
+        request.input,
+        Object.keys(request.redactions).length > 0 ? JSON.stringify(request.redactions) : null,
+        request.createdAt,
+      ]
+    );
+
+    logger.debug('AI outbound request saved', { jobId: request.jobId, task: request.task });
+  }
+
+  /**
+   * Requests of one job in the order they were sent
+   */
+  listByJob(jobId: string): AIOutboundRequest[] {
+    const rows = this.db.query<AIOutboundRequestRow>(
+      `SELECT * FROM ai_outbound_requests WHERE job_id = ? ORDER BY created_at ASC, rowid ASC`,
+      [jobId]
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  private mapRow(row: AIOutboundRequestRow): AIOutboundRequest {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      budgetId: row.budget_id,
+      task: row.task,
+      instructions: row.instructions,
+      input: row.input,
+      redactions: row.redactions ? (JSON.parse(row.redactions) as Record<string, number>) : {},
+      createdAt: row.created_at,
+    };
+  }
+}
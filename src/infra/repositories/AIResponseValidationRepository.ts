@@ -0,0 +1,43 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  AIResponseValidation,
+  AIValidationOutcome,
+} from '../../domain/entities/AIResponseValidation.js';
+import { logger } from '../logger.js';
+
+/**
+ * Repository for AI response validation outcomes
+ * Append-only; per-backend rates are aggregated on read
+ */
+export class AIResponseValidationRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(validation: AIResponseValidation): void {
+    this.db.execute(
+      `INSERT INTO ai_response_validations (id, backend, task, outcome, attempts, issues, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        validation.id,
+        validation.backend,
+        validation.task,
+        validation.outcome,
+        validation.attempts,
+        validation.issues.length > 0 ? JSON.stringify(validation.issues) : null,
+        validation.createdAt,
+      ]
+    );
+
+    logger.debug('AI response validation saved', {
+      backend: validation.backend,
+      outcome: validation.outcome,
+    });
+  }
+
+  countByBackend(): Array<{ backend: string; outcome: AIValidationOutcome; count: number }> {
+    return this.db.query<{ backend: string; outcome: AIValidationOutcome; count: number }>(
+      `SELECT backend, outcome, COUNT(*) as count FROM ai_response_validations
+       GROUP BY backend, outcome
+       ORDER BY backend ASC`
+    );
+  }
+}
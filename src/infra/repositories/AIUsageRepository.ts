@@ -0,0 +1,104 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  AITaskUsage,
+  AIUsageRecord,
+  AIUsageTotals,
+  MonthlyAIUsage,
+} from '../../domain/entities/AIUsage.js';
+import type { AITask } from '../../domain/entities/ModelRoute.js';
+import { logger } from '../logger.js';
+
+type AIUsageTotalsRow = {
+  calls: number;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  estimated_cost_usd: number | null;
+  unpriced_calls: number | null;
+};
+
+const TOTALS_COLUMNS = `COUNT(*) as calls,
+  SUM(prompt_tokens) as prompt_tokens,
+  SUM(completion_tokens) as completion_tokens,
+  SUM(estimated_cost_usd) as estimated_cost_usd,
+  SUM(CASE WHEN estimated_cost_usd IS NULL THEN 1 ELSE 0 END) as unpriced_calls`;
+
+/**
+ * Repository for per-call AI usage
+ * Append-only; job and monthly totals are aggregated on read
+ */
+export class AIUsageRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(record: AIUsageRecord): void {
+    this.db.execute(
+      `INSERT INTO ai_usage (
+         id, job_id, budget_id, task, backend, model, prompt_tokens, completion_tokens,
+         latency_ms, estimated_cost_usd, created_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.jobId,
+        record.budgetId,
+        record.task,
+        record.backend,
+        record.model,
+        record.promptTokens,
+        record.completionTokens,
+        record.latencyMs,
+        record.estimatedCostUsd,
+        record.createdAt,
+      ]
+    );
+
+    logger.debug('AI usage saved', { jobId: record.jobId, task: record.task });
+  }
+
+  /**
+   * Totals per call site for one job
+   */
+  summarizeJobByTask(jobId: string): AITaskUsage[] {
+    const rows = this.db.query<AIUsageTotalsRow & { task: AITask | null }>(
+      `SELECT task, ${TOTALS_COLUMNS} FROM ai_usage
+       WHERE job_id = ?
+       GROUP BY task
+       ORDER BY task ASC`,
+      [jobId]
+    );
+    return rows.map((row) => ({ task: row.task, ...this.mapRowToTotals(row) }));
+  }
+
+  /**
+   * Totals per UTC calendar month for calls made at or after since
+   */
+  summarizeByMonth(since: string): MonthlyAIUsage[] {
+    const rows = this.db.query<AIUsageTotalsRow & { month: string }>(
+      `SELECT substr(created_at, 1, 7) as month, ${TOTALS_COLUMNS} FROM ai_usage
+       WHERE created_at >= ?
+       GROUP BY month
+       ORDER BY month DESC`,
+      [since]
+    );
+    return rows.map((row) => ({ month: row.month, ...this.mapRowToTotals(row) }));
+  }
+
+  /**
+   * Estimated spend of calls made at or after since (unpriced calls count as free)
+   */
+  sumCostSince(since: string): number {
+    const row = this.db.queryOne<{ total: number | null }>(
+      'SELECT SUM(estimated_cost_usd) as total FROM ai_usage WHERE created_at >= ?',
+      [since]
+    );
+    return row?.total ?? 0;
+  }
+
+  private mapRowToTotals(row: AIUsageTotalsRow): AIUsageTotals {
+    return {
+      calls: row.calls,
+      promptTokens: row.prompt_tokens ?? 0,
+      completionTokens: row.completion_tokens ?? 0,
+      estimatedCostUsd: row.estimated_cost_usd ?? 0,
+      unpricedCalls: row.unpriced_calls ?? 0,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type { AccountCategoryAllowlist } from '../../domain/entities/CategoryGuidance.js';
+import { logger } from '../logger.js';
+
+type AccountCategoryAllowlistRow = {
+  budget_id: string;
+  account_id: string;
+  category_ids: string;
+  updated_at: string;
+};
+
+/**
+ * Repository for per-account category allowlists
+ */
+export class AccountCategoryAllowlistRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  findByBudgetId(budgetId: string): AccountCategoryAllowlist[] {
+    const rows = this.db.query<AccountCategoryAllowlistRow>(
+      'SELECT * FROM account_category_allowlists WHERE budget_id = ? ORDER BY account_id ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToAllowlist(row));
+  }
+
+  save(allowlist: AccountCategoryAllowlist): void {
+    this.db.execute(
+      `INSERT INTO account_category_allowlists (budget_id, account_id, category_ids, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(budget_id, account_id) DO UPDATE SET
+         category_ids = excluded.category_ids,
+         updated_at = excluded.updated_at`,
+      [
+        allowlist.budgetId,
+        allowlist.accountId,
+        JSON.stringify(allowlist.categoryIds),
+        allowlist.updatedAt,
+      ]
+    );
+
+    logger.debug('Account category allowlist saved', {
+      budgetId: allowlist.budgetId,
+      accountId: allowlist.accountId,
+    });
+  }
+
+  delete(budgetId: string, accountId: string): boolean {
+    return (
+      this.db.execute(
+        'DELETE FROM account_category_allowlists WHERE budget_id = ? AND account_id = ?',
+        [budgetId, accountId]
+      ) > 0
+    );
+  }
+
+  private mapRowToAllowlist(row: AccountCategoryAllowlistRow): AccountCategoryAllowlist {
+    return {
+      budgetId: row.budget_id,
+      accountId: row.account_id,
+      categoryIds: JSON.parse(row.category_ids) as string[],
+      updatedAt: row.updated_at,
+    };
+  }
+}
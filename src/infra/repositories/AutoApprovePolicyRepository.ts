@@ -0,0 +1,91 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  AutoApproveAction,
+  AutoApprovePolicy,
+  AutoApprovePolicyConditions,
+} from '../../domain/entities/AutoApprovePolicy.js';
+import { logger } from '../logger.js';
+
+type AutoApprovePolicyRow = {
+  id: string;
+  budget_id: string;
+  name: string;
+  enabled: number;
+  action: AutoApproveAction;
+  conditions: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Repository for per-budget auto-approve policies
+ * P5 (Separation of concerns): Service layer uses this, domain never imports infra
+ */
+export class AutoApprovePolicyRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  /**
+   * Insert or update a policy
+   */
+  save(policy: AutoApprovePolicy): void {
+    this.db.execute(
+      `INSERT INTO auto_approve_policies (
+        id, budget_id, name, enabled, action, conditions, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        enabled = excluded.enabled,
+        action = excluded.action,
+        conditions = excluded.conditions,
+        updated_at = excluded.updated_at`,
+      [
+        policy.id,
+        policy.budgetId,
+        policy.name,
+        policy.enabled ? 1 : 0,
+        policy.action,
+        JSON.stringify(policy.conditions),
+        policy.createdAt,
+        policy.updatedAt,
+      ]
+    );
+
+    logger.debug('Auto-approve policy saved', { id: policy.id, budgetId: policy.budgetId });
+  }
+
+  findById(id: string): AutoApprovePolicy | null {
+    const row = this.db.queryOne<AutoApprovePolicyRow>(
+      'SELECT * FROM auto_approve_policies WHERE id = ?',
+      [id]
+    );
+    return row ? this.mapRowToPolicy(row) : null;
+  }
+
+  /**
+   * List policies for a budget, oldest first
+   */
+  findByBudgetId(budgetId: string): AutoApprovePolicy[] {
+    const rows = this.db.query<AutoApprovePolicyRow>(
+      'SELECT * FROM auto_approve_policies WHERE budget_id = ? ORDER BY created_at ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToPolicy(row));
+  }
+
+  deleteById(id: string): boolean {
+    return this.db.execute('DELETE FROM auto_approve_policies WHERE id = ?', [id]) > 0;
+  }
+
+  private mapRowToPolicy(row: AutoApprovePolicyRow): AutoApprovePolicy {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      name: row.name,
+      enabled: row.enabled === 1,
+      action: row.action,
+      conditions: JSON.parse(row.conditions) as AutoApprovePolicyConditions,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
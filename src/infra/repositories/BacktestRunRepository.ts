@@ -0,0 +1,101 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  BacktestBucket,
+  BacktestOutcome,
+  BacktestRun,
+  BacktestSourceStats,
+} from '../../domain/entities/BacktestRun.js';
+import { logger } from '../logger.js';
+
+type BacktestRunRow = {
+  id: string;
+  budget_id: string;
+  job_id: string | null;
+  use_ai: number;
+  sample_size: number;
+  evaluated_count: number;
+  covered_count: number;
+  correct_count: number;
+  accuracy: number | null;
+  coverage: number | null;
+  buckets: string;
+  by_source: string;
+  config: string;
+  outcomes: string;
+  created_at: string;
+};
+
+/**
+ * Repository for categorizer backtest runs
+ * P5 (Separation of concerns): Service layer uses this, domain never imports infra
+ */
+export class BacktestRunRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(run: BacktestRun): void {
+    this.db.execute(
+      `INSERT INTO backtest_runs (
+        id, budget_id, job_id, use_ai, sample_size, evaluated_count, covered_count,
+        correct_count, accuracy, coverage, buckets, by_source, config, outcomes, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        run.id,
+        run.budgetId,
+        run.jobId,
+        run.useAI ? 1 : 0,
+        run.sampleSize,
+        run.evaluatedCount,
+        run.coveredCount,
+        run.correctCount,
+        run.accuracy,
+        run.coverage,
+        JSON.stringify(run.buckets),
+        JSON.stringify(run.bySource),
+        JSON.stringify(run.config),
+        JSON.stringify(run.outcomes),
+        run.createdAt,
+      ]
+    );
+
+    logger.debug('Backtest run saved', { id: run.id, budgetId: run.budgetId });
+  }
+
+  findById(id: string): BacktestRun | null {
+    const row = this.db.queryOne<BacktestRunRow>('SELECT * FROM backtest_runs WHERE id = ?', [id]);
+    return row ? this.mapRowToRun(row) : null;
+  }
+
+  /**
+   * List runs for a budget, newest first
+   * Outcomes are omitted to keep the list light; fetch a single run for details
+   */
+  findByBudgetId(budgetId: string, limit = 50): BacktestRun[] {
+    const rows = this.db.query<BacktestRunRow>(
+      `SELECT id, budget_id, job_id, use_ai, sample_size, evaluated_count, covered_count,
+        correct_count, accuracy, coverage, buckets, by_source, config, '[]' AS outcomes, created_at
+       FROM backtest_runs WHERE budget_id = ? ORDER BY created_at DESC LIMIT ?`,
+      [budgetId, limit]
+    );
+    return rows.map((row) => this.mapRowToRun(row));
+  }
+
+  private mapRowToRun(row: BacktestRunRow): BacktestRun {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      jobId: row.job_id,
+      useAI: row.use_ai === 1,
+      sampleSize: row.sample_size,
+      evaluatedCount: row.evaluated_count,
+      coveredCount: row.covered_count,
+      correctCount: row.correct_count,
+      accuracy: row.accuracy,
+      coverage: row.coverage,
+      buckets: JSON.parse(row.buckets) as BacktestBucket[],
+      bySource: JSON.parse(row.by_source) as Record<string, BacktestSourceStats>,
+      config: JSON.parse(row.config) as Record<string, unknown>,
+      outcomes: JSON.parse(row.outcomes) as BacktestOutcome[],
+      createdAt: row.created_at,
+    };
+  }
+}
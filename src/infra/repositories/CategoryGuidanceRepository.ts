@@ -0,0 +1,73 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type { CategoryGuidance } from '../../domain/entities/CategoryGuidance.js';
+import { logger } from '../logger.js';
+
+type CategoryGuidanceRow = {
+  budget_id: string;
+  category_id: string;
+  description: string | null;
+  example_payees: string;
+  never_suggest_for: string;
+  updated_at: string;
+};
+
+/**
+ * Repository for per-budget category descriptions and "never suggest for" constraints
+ */
+export class CategoryGuidanceRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  findByBudgetId(budgetId: string): CategoryGuidance[] {
+    const rows = this.db.query<CategoryGuidanceRow>(
+      'SELECT * FROM category_guidance WHERE budget_id = ? ORDER BY category_id ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToGuidance(row));
+  }
+
+  save(guidance: CategoryGuidance): void {
+    this.db.execute(
+      `INSERT INTO category_guidance (
+        budget_id, category_id, description, example_payees, never_suggest_for, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(budget_id, category_id) DO UPDATE SET
+        description = excluded.description,
+        example_payees = excluded.example_payees,
+        never_suggest_for = excluded.never_suggest_for,
+        updated_at = excluded.updated_at`,
+      [
+        guidance.budgetId,
+        guidance.categoryId,
+        guidance.description,
+        JSON.stringify(guidance.examplePayees),
+        JSON.stringify(guidance.neverSuggestFor),
+        guidance.updatedAt,
+      ]
+    );
+
+    logger.debug('Category guidance saved', {
+      budgetId: guidance.budgetId,
+      categoryId: guidance.categoryId,
+    });
+  }
+
+  delete(budgetId: string, categoryId: string): boolean {
+    return (
+      this.db.execute('DELETE FROM category_guidance WHERE budget_id = ? AND category_id = ?', [
+        budgetId,
+        categoryId,
+      ]) > 0
+    );
+  }
+
+  private mapRowToGuidance(row: CategoryGuidanceRow): CategoryGuidance {
+    return {
+      budgetId: row.budget_id,
+      categoryId: row.category_id,
+      description: row.description,
+      examplePayees: JSON.parse(row.example_payees) as string[],
+      neverSuggestFor: JSON.parse(row.never_suggest_for) as string[],
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import { CLASSIFIER_MODEL_VERSION, type ClassifierModel } from '../NaiveBayesClassifier.js';
+import { logger } from '../logger.js';
+
+type ClassifierModelRow = {
+  budget_id: string;
+  model: string;
+  sample_count: number;
+  category_count: number;
+  holdout_accuracy: number | null;
+  trained_at: string;
+};
+
+/**
+ * Repository for trained local classifier models
+ * One model per budget; retraining replaces the previous model
+ */
+export class ClassifierModelRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(budgetId: string, model: ClassifierModel): void {
+    this.db.execute(
+      `INSERT INTO classifier_models (
+        budget_id, model, sample_count, category_count, holdout_accuracy, trained_at
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(budget_id) DO UPDATE SET
+        model = excluded.model,
+        sample_count = excluded.sample_count,
+        category_count = excluded.category_count,
+        holdout_accuracy = excluded.holdout_accuracy,
+        trained_at = excluded.trained_at`,
+      [
+        budgetId,
+        JSON.stringify(model),
+        model.sampleCount,
+        Object.keys(model.categories).length,
+        model.holdoutAccuracy,
+        model.trainedAt,
+      ]
+    );
+
+    logger.debug('Classifier model saved', { budgetId, sampleCount: model.sampleCount });
+  }
+
+  /**
+   * Load the model for a budget
+   * Returns null when no model exists or it was trained by an incompatible version
+   */
+  findByBudgetId(budgetId: string): ClassifierModel | null {
+    const row = this.db.queryOne<ClassifierModelRow>(
+      'SELECT * FROM classifier_models WHERE budget_id = ?',
+      [budgetId]
+    );
+    if (!row) return null;
+
+    try {
+      const model = JSON.parse(row.model) as ClassifierModel;
+      return model.version === CLASSIFIER_MODEL_VERSION ? model : null;
+    } catch (error) {
+      logger.warn('Failed to parse classifier model', {
+        budgetId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  deleteByBudgetId(budgetId: string): number {
+    return this.db.execute('DELETE FROM classifier_models WHERE budget_id = ?', [budgetId]);
+  }
+}
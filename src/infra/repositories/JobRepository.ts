@@ -117,6 +117,54 @@ export class JobRepository {
     return rows.map((row) => this.mapRowToJob(row));
   }
 
+  /**
+   * Jobs of every budget in one status, oldest first - the order the worker claims them in
+   */
+  listByStatus(status: JobStatus): Job[] {
+    const sql = `
+      SELECT * FROM jobs
+      WHERE status = ?
+      ORDER BY created_at ASC
+    `;
+
+    const rows = this.db.query<JobRow>(sql, [status]);
+    return rows.map((row) => this.mapRowToJob(row));
+  }
+
+  /**
+   * Queued and running jobs of a budget, oldest first
+   */
+  listActiveByBudget(budgetId: string): Job[] {
+    const sql = `
+      SELECT * FROM jobs
+      WHERE budget_id = ? AND status IN ('queued', 'running')
+      ORDER BY created_at ASC
+    `;
+
+    const rows = this.db.query<JobRow>(sql, [budgetId]);
+    return rows.map((row) => this.mapRowToJob(row));
+  }
+
+  findByIdempotencyKey(budgetId: string, idempotencyKey: string): Job | null {
+    const sql = `
+      SELECT * FROM jobs
+      WHERE budget_id = ? AND idempotency_key = ?
+    `;
+
+    const row = this.db.queryOne<JobRow>(sql, [budgetId, idempotencyKey]);
+    return row ? this.mapRowToJob(row) : null;
+  }
+
+  setIdempotencyKey(jobId: string, idempotencyKey: string): void {
+    const sql = `
+      UPDATE jobs
+      SET idempotency_key = ?
+      WHERE id = ? AND idempotency_key IS NULL
+    `;
+
+    this.db.execute(sql, [idempotencyKey, jobId]);
+  }
+
   listIdsOlderThan(cutoff: Date): string[] {
     const sql = `
       SELECT id FROM jobs
@@ -126,15 +174,25 @@ export class JobRepository {
     return rows.map((row) => row.id);
   }
 
-  listTimedOutJobs(cutoff: Date): Job[] {
+  /**
+   * Running jobs started before the cutoff, and queued jobs created before it unless they are
+   * of a worker type; those wait for a worker slot however long that takes
+   */
+  listTimedOutJobs(cutoff: Date, workerTypes: readonly JobType[] = []): Job[] {
+    const typeFilter =
+      workerTypes.length > 0 ? `AND type NOT IN (${workerTypes.map(() => '?').join(', ')})` : '';
     const sql = `
       SELECT * FROM jobs
       WHERE (status = 'running' AND started_at IS NOT NULL AND started_at < ?)
-         OR (status = 'queued' AND created_at < ?)
+        OR (status = 'queued' AND created_at < ? ${typeFilter})
       ORDER BY created_at ASC
     `;
 
-    const rows = this.db.query<JobRow>(sql, [cutoff.toISOString(), cutoff.toISOString()]);
+    const rows = this.db.query<JobRow>(sql, [
+      cutoff.toISOString(),
+      cutoff.toISOString(),
+      ...workerTypes,
+    ]);
     return rows.map((row) => this.mapRowToJob(row));
   }
 
@@ -0,0 +1,194 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type { JobStatus } from '../../domain/entities/Job.js';
+import type {
+  JobSchedule,
+  JobScheduleRun,
+  JobScheduleRunStatus,
+  ScheduleJobType,
+  ScheduleOptions,
+} from '../../domain/entities/JobSchedule.js';
+import { logger } from '../logger.js';
+
+type JobScheduleRow = {
+  id: string;
+  budget_id: string;
+  name: string;
+  cron_expression: string;
+  job_type: ScheduleJobType;
+  options: string | null;
+  enabled: number;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type JobScheduleRunRow = {
+  id: string;
+  schedule_id: string;
+  job_id: string | null;
+  job_status: JobStatus | null;
+  status: JobScheduleRunStatus;
+  message: string | null;
+  manual: number;
+  created_at: string;
+};
+
+/**
+ * Repository for job schedules and the history of their runs
+ * P5 (Separation of concerns): Service layer uses this, domain never imports infra
+ */
+export class JobScheduleRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  /**
+   * Insert or update a schedule; run times are written separately by the scheduler
+   */
+  save(schedule: JobSchedule): void {
+    this.db.execute(
+      `INSERT INTO job_schedules (
+        id, budget_id, name, cron_expression, job_type, options, enabled,
+        quiet_hours_start, quiet_hours_end, last_run_at, next_run_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        cron_expression = excluded.cron_expression,
+        job_type = excluded.job_type,
+        options = excluded.options,
+        enabled = excluded.enabled,
+        quiet_hours_start = excluded.quiet_hours_start,
+        quiet_hours_end = excluded.quiet_hours_end,
+        updated_at = excluded.updated_at`,
+      [
+        schedule.id,
+        schedule.budgetId,
+        schedule.name,
+        schedule.cronExpression,
+        schedule.jobType,
+        JSON.stringify(schedule.options),
+        schedule.enabled ? 1 : 0,
+        schedule.quietHoursStart,
+        schedule.quietHoursEnd,
+        schedule.lastRunAt,
+        schedule.nextRunAt,
+        schedule.createdAt,
+        schedule.updatedAt,
+      ]
+    );
+
+    logger.debug('Job schedule saved', { id: schedule.id, budgetId: schedule.budgetId });
+  }
+
+  findById(id: string): JobSchedule | null {
+    const row = this.db.queryOne<JobScheduleRow>('SELECT * FROM job_schedules WHERE id = ?', [id]);
+    return row ? this.mapRowToSchedule(row) : null;
+  }
+
+  /**
+   * List schedules for a budget, oldest first
+   */
+  findByBudgetId(budgetId: string): JobSchedule[] {
+    const rows = this.db.query<JobScheduleRow>(
+      'SELECT * FROM job_schedules WHERE budget_id = ? ORDER BY created_at ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToSchedule(row));
+  }
+
+  /**
+   * Enabled schedules of every budget
+   */
+  findEnabled(): JobSchedule[] {
+    const rows = this.db.query<JobScheduleRow>(
+      'SELECT * FROM job_schedules WHERE enabled = 1 ORDER BY created_at ASC'
+    );
+    return rows.map((row) => this.mapRowToSchedule(row));
+  }
+
+  updateRunTimes(id: string, times: { lastRunAt?: string; nextRunAt: string | null }): void {
+    if (times.lastRunAt) {
+      this.db.execute('UPDATE job_schedules SET last_run_at = ?, next_run_at = ? WHERE id = ?', [
+        times.lastRunAt,
+        times.nextRunAt,
+        id,
+      ]);
+      return;
+    }
+    this.db.execute('UPDATE job_schedules SET next_run_at = ? WHERE id = ?', [times.nextRunAt, id]);
+  }
+
+  /**
+   * Delete a schedule with its run history; the jobs it spawned are kept
+   */
+  deleteById(id: string): boolean {
+    return this.db.transaction(() => {
+      this.db.execute('DELETE FROM job_schedule_runs WHERE schedule_id = ?', [id]);
+      return this.db.execute('DELETE FROM job_schedules WHERE id = ?', [id]) > 0;
+    });
+  }
+
+  saveRun(run: JobScheduleRun): void {
+    this.db.execute(
+      `INSERT INTO job_schedule_runs (id, schedule_id, job_id, status, message, manual, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        run.id,
+        run.scheduleId,
+        run.jobId,
+        run.status,
+        run.message,
+        run.manual ? 1 : 0,
+        run.createdAt,
+      ]
+    );
+  }
+
+  /**
+   * Most recent runs of a schedule, newest first, with the current status of their jobs
+   */
+  listRuns(scheduleId: string, limit: number): JobScheduleRun[] {
+    const rows = this.db.query<JobScheduleRunRow>(
+      `SELECT runs.*, jobs.status AS job_status
+       FROM job_schedule_runs runs
+       LEFT JOIN jobs ON jobs.id = runs.job_id
+       WHERE runs.schedule_id = ?
+       ORDER BY runs.created_at DESC
+       LIMIT ?`,
+      [scheduleId, limit]
+    );
+    return rows.map((row) => this.mapRowToRun(row));
+  }
+
+  private mapRowToSchedule(row: JobScheduleRow): JobSchedule {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      name: row.name,
+      cronExpression: row.cron_expression,
+      jobType: row.job_type,
+      options: row.options ? (JSON.parse(row.options) as ScheduleOptions) : {},
+      enabled: row.enabled === 1,
+      quietHoursStart: row.quiet_hours_start,
+      quietHoursEnd: row.quiet_hours_end,
+      lastRunAt: row.last_run_at,
+      nextRunAt: row.next_run_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapRowToRun(row: JobScheduleRunRow): JobScheduleRun {
+    return {
+      id: row.id,
+      scheduleId: row.schedule_id,
+      jobId: row.job_id,
+      jobStatus: row.job_status,
+      status: row.status,
+      message: row.message,
+      manual: row.manual === 1,
+      createdAt: row.created_at,
+    };
+  }
+}
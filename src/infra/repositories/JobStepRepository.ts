@@ -78,15 +78,17 @@ export class JobStepRepository {
     return rows.map((row) => this.mapRowToJobStep(row));
   }
 
+  /**
+   * Running steps started before the cutoff; steps of a queued job are not timed out
+   */
   listTimedOutSteps(cutoff: Date): JobStep[] {
     const sql = `
       SELECT * FROM job_steps
-      WHERE (status = 'running' AND started_at IS NOT NULL AND started_at < ?)
-         OR (status = 'queued' AND created_at < ?)
+      WHERE status = 'running' AND started_at IS NOT NULL AND started_at < ?
       ORDER BY created_at ASC
     `;
 
-    const rows = this.db.query<JobStepRow>(sql, [cutoff.toISOString(), cutoff.toISOString()]);
+    const rows = this.db.query<JobStepRow>(sql, [cutoff.toISOString()]);
     return rows.map((row) => this.mapRowToJobStep(row));
   }
 
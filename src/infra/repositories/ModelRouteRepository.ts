@@ -0,0 +1,75 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  AIBackendId,
+  AITask,
+  BudgetModelRoute,
+  ModelRoutes,
+} from '../../domain/entities/ModelRoute.js';
+import { logger } from '../logger.js';
+
+type ModelRouteRow = {
+  budget_id: string;
+  task: AITask;
+  backend: AIBackendId | null;
+  model: string | null;
+  updated_at: string;
+};
+
+/**
+ * Repository for per-budget AI model route overrides
+ */
+export class ModelRouteRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  findByBudgetId(budgetId: string): BudgetModelRoute[] {
+    const rows = this.db.query<ModelRouteRow>(
+      'SELECT * FROM ai_model_routes WHERE budget_id = ? ORDER BY task ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToRoute(row));
+  }
+
+  /**
+   * Overrides for a budget keyed by task, in the shape used for route resolution
+   */
+  getRoutes(budgetId: string): ModelRoutes {
+    const routes: ModelRoutes = {};
+    for (const route of this.findByBudgetId(budgetId)) {
+      routes[route.task] = { backend: route.backend, model: route.model };
+    }
+    return routes;
+  }
+
+  save(route: BudgetModelRoute): void {
+    this.db.execute(
+      `INSERT INTO ai_model_routes (budget_id, task, backend, model, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(budget_id, task) DO UPDATE SET
+         backend = excluded.backend,
+         model = excluded.model,
+         updated_at = excluded.updated_at`,
+      [route.budgetId, route.task, route.backend, route.model, route.updatedAt]
+    );
+
+    logger.debug('AI model route saved', { budgetId: route.budgetId, task: route.task });
+  }
+
+  delete(budgetId: string, task: AITask): boolean {
+    return (
+      this.db.execute('DELETE FROM ai_model_routes WHERE budget_id = ? AND task = ?', [
+        budgetId,
+        task,
+      ]) > 0
+    );
+  }
+
+  private mapRowToRoute(row: ModelRouteRow): BudgetModelRoute {
+    return {
+      budgetId: row.budget_id,
+      task: row.task,
+      backend: row.backend,
+      model: row.model,
+      updatedAt: row.updated_at,
+    };
+  }
+}
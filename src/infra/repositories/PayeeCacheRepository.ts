@@ -1,4 +1,5 @@
 import { DatabaseAdapter } from '../DatabaseAdapter.js';
+import { NotFoundError } from '../../domain/errors.js';
 import { logger } from '../logger.js';
 
 /**
@@ -14,10 +15,20 @@ export interface PayeeCacheEntry {
   confidence: number;
   source: 'user_approved' | 'high_confidence_ai';
   hitCount: number;
+  pinned: boolean; // Locked by the user; automatic saves leave it untouched
+  lastUsedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Filters for paging through cache entries */
+export interface PayeeCacheFilter {
+  search?: string; // Matches payee or category name
+  source?: PayeeCacheEntry['source'];
+  limit: number;
+  offset: number;
+}
+
 interface PayeeCacheRow {
   id: number;
   budget_id: string;
@@ -28,6 +39,8 @@ interface PayeeCacheRow {
   confidence: number;
   source: string;
   hit_count: number;
+  pinned: number;
+  last_used_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -62,6 +75,8 @@ export class PayeeCacheRepository {
       confidence: row.confidence,
       source: row.source as 'user_approved' | 'high_confidence_ai',
       hitCount: row.hit_count,
+      pinned: row.pinned === 1,
+      lastUsedAt: row.last_used_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -82,7 +97,7 @@ export class PayeeCacheRepository {
     if (row) {
       // Increment hit count for analytics
       this.db.execute(
-        `UPDATE payee_category_cache SET hit_count = hit_count + 1, updated_at = datetime('now') WHERE id = ?`,
+        `UPDATE payee_category_cache SET hit_count = hit_count + 1, last_used_at = datetime('now') WHERE id = ?`,
         [row.id]
       );
 
@@ -96,8 +111,13 @@ export class PayeeCacheRepository {
   /**
    * Batch lookup for multiple payees
    * Returns a map of normalized payee name → cache entry
+   * Pass trackHits: false for read-only lookups (e.g. backtests) that must not count as usage
    */
-  findByPayees(budgetId: string, payeeNames: string[]): Map<string, PayeeCacheEntry> {
+  findByPayees(
+    budgetId: string,
+    payeeNames: string[],
+    options: { trackHits?: boolean } = {}
+  ): Map<string, PayeeCacheEntry> {
     const result = new Map<string, PayeeCacheEntry>();
     if (payeeNames.length === 0) return result;
 
@@ -116,10 +136,10 @@ export class PayeeCacheRepository {
     }
 
     // Batch increment hit counts
-    if (idsToUpdate.length > 0) {
+    if (options.trackHits !== false && idsToUpdate.length > 0) {
       const idPlaceholders = idsToUpdate.map(() => '?').join(',');
       this.db.execute(
-        `UPDATE payee_category_cache SET hit_count = hit_count + 1, updated_at = datetime('now') WHERE id IN (${idPlaceholders})`,
+        `UPDATE payee_category_cache SET hit_count = hit_count + 1, last_used_at = datetime('now') WHERE id IN (${idPlaceholders})`,
         idsToUpdate
       );
     }
@@ -134,7 +154,7 @@ export class PayeeCacheRepository {
 
   /**
    * Save a payee→category mapping to cache
-   * Only caches user-approved or high-confidence AI suggestions
+   * Only caches user-approved or high-confidence AI suggestions; pinned entries are kept as is
    */
   save(entry: {
     budgetId: string;
@@ -157,6 +177,7 @@ export class PayeeCacheRepository {
         confidence = excluded.confidence,
         source = excluded.source,
         updated_at = datetime('now')
+      WHERE payee_category_cache.pinned = 0
     `,
       [
         entry.budgetId,
@@ -223,6 +244,131 @@ export class PayeeCacheRepository {
     return entries;
   }
 
+  findById(id: number): PayeeCacheEntry | null {
+    const row = this.db.queryOne<PayeeCacheRow>(`SELECT * FROM payee_category_cache WHERE id = ?`, [
+      id,
+    ]);
+    return row ? this.mapRowToEntry(row) : null;
+  }
+
+  /**
+   * Page through cached mappings for the cache management screen
+   * Pinned entries come first, then the most used ones
+   */
+  search(
+    budgetId: string,
+    filter: PayeeCacheFilter
+  ): { entries: PayeeCacheEntry[]; total: number } {
+    const conditions = ['budget_id = ?'];
+    const params: unknown[] = [budgetId];
+
+    if (filter.search) {
+      const pattern = `%${filter.search.toLowerCase()}%`;
+      conditions.push('(LOWER(payee_name_original) LIKE ? OR LOWER(category_name) LIKE ?)');
+      params.push(pattern, pattern);
+    }
+    if (filter.source) {
+      conditions.push('source = ?');
+      params.push(filter.source);
+    }
+
+    const where = conditions.join(' AND ');
+    const countRow = this.db.queryOne<{ total: number }>(
+      `SELECT COUNT(*) as total FROM payee_category_cache WHERE ${where}`,
+      params
+    );
+    const rows = this.db.query<PayeeCacheRow>(
+      `SELECT * FROM payee_category_cache WHERE ${where}
+       ORDER BY pinned DESC, hit_count DESC, payee_name ASC LIMIT ? OFFSET ?`,
+      [...params, filter.limit, filter.offset]
+    );
+
+    return { entries: rows.map((row) => this.mapRowToEntry(row)), total: countRow?.total ?? 0 };
+  }
+
+  /**
+   * Apply a manual edit; unlike save() this also changes pinned entries
+   */
+  update(
+    id: number,
+    changes: {
+      categoryId?: string;
+      categoryName?: string;
+      confidence?: number;
+      source?: PayeeCacheEntry['source'];
+      pinned?: boolean;
+    }
+  ): void {
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+
+    if (changes.categoryId !== undefined) {
+      assignments.push('category_id = ?');
+      params.push(changes.categoryId);
+    }
+    if (changes.categoryName !== undefined) {
+      assignments.push('category_name = ?');
+      params.push(changes.categoryName);
+    }
+    if (changes.confidence !== undefined) {
+      assignments.push('confidence = ?');
+      params.push(changes.confidence);
+    }
+    if (changes.source !== undefined) {
+      assignments.push('source = ?');
+      params.push(changes.source);
+    }
+    if (changes.pinned !== undefined) {
+      assignments.push('pinned = ?');
+      params.push(changes.pinned ? 1 : 0);
+    }
+    if (assignments.length === 0) return;
+
+    const updated = this.db.execute(
+      `UPDATE payee_category_cache SET ${assignments.join(', ')}, updated_at = datetime('now') WHERE id = ?`,
+      [...params, id]
+    );
+    if (updated === 0) {
+      throw new NotFoundError('PayeeCacheEntry', String(id));
+    }
+  }
+
+  deleteById(id: number): void {
+    const deleted = this.db.execute(`DELETE FROM payee_category_cache WHERE id = ?`, [id]);
+    if (deleted === 0) {
+      throw new NotFoundError('PayeeCacheEntry', String(id));
+    }
+  }
+
+  /**
+   * Bulk-delete entries for a budget, optionally limited to one source
+   * Pinned entries survive unless includePinned is set
+   * @returns number of deleted entries
+   */
+  clearEntries(
+    budgetId: string,
+    options: { source?: PayeeCacheEntry['source']; includePinned?: boolean } = {}
+  ): number {
+    const conditions = ['budget_id = ?'];
+    const params: unknown[] = [budgetId];
+
+    if (options.source) {
+      conditions.push('source = ?');
+      params.push(options.source);
+    }
+    if (!options.includePinned) {
+      conditions.push('pinned = 0');
+    }
+
+    const deleted = this.db.execute(
+      `DELETE FROM payee_category_cache WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+
+    logger.info('Payee cache entries cleared', { budgetId, ...options, deleted });
+    return deleted;
+  }
+
   /**
    * Clear cache for a budget (useful for testing or reset)
    */
@@ -1,4 +1,5 @@
 import { DatabaseAdapter } from '../DatabaseAdapter.js';
+import { NotFoundError } from '../../domain/errors.js';
 import { logger } from '../logger.js';
 
 /**
@@ -15,10 +16,20 @@ export interface PayeeMatchCacheEntry {
   confidence: number;
   source: 'user_approved' | 'high_confidence_ai' | 'fuzzy_match';
   hitCount: number;
+  pinned: boolean; // Locked by the user; automatic saves leave it untouched
+  lastUsedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Filters for paging through payee match cache entries */
+export interface PayeeMatchCacheFilter {
+  search?: string; // Matches raw or canonical payee name
+  source?: PayeeMatchCacheEntry['source'];
+  limit: number;
+  offset: number;
+}
+
 interface PayeeMatchCacheRow {
   id: number;
   budget_id: string;
@@ -29,6 +40,8 @@ interface PayeeMatchCacheRow {
   confidence: number;
   source: string;
   hit_count: number;
+  pinned: number;
+  last_used_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -63,6 +76,8 @@ export class PayeeMatchCacheRepository {
       confidence: row.confidence,
       source: row.source as 'user_approved' | 'high_confidence_ai' | 'fuzzy_match',
       hitCount: row.hit_count,
+      pinned: row.pinned === 1,
+      lastUsedAt: row.last_used_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -82,7 +97,7 @@ export class PayeeMatchCacheRepository {
     if (row) {
       // Increment hit count for analytics
       this.db.execute(
-        `UPDATE payee_match_cache SET hit_count = hit_count + 1, updated_at = datetime('now') WHERE id = ?`,
+        `UPDATE payee_match_cache SET hit_count = hit_count + 1, last_used_at = datetime('now') WHERE id = ?`,
         [row.id]
       );
 
@@ -121,7 +136,7 @@ export class PayeeMatchCacheRepository {
     if (idsToUpdate.length > 0) {
       const idPlaceholders = idsToUpdate.map(() => '?').join(',');
       this.db.execute(
-        `UPDATE payee_match_cache SET hit_count = hit_count + 1, updated_at = datetime('now') WHERE id IN (${idPlaceholders})`,
+        `UPDATE payee_match_cache SET hit_count = hit_count + 1, last_used_at = datetime('now') WHERE id IN (${idPlaceholders})`,
         idsToUpdate
       );
     }
@@ -135,7 +150,7 @@ export class PayeeMatchCacheRepository {
   }
 
   /**
-   * Save a payee match to cache
+   * Save a payee match to cache; pinned entries are kept as is
    */
   save(entry: {
     budgetId: string;
@@ -158,6 +173,7 @@ export class PayeeMatchCacheRepository {
         confidence = excluded.confidence,
         source = excluded.source,
         updated_at = datetime('now')
+      WHERE payee_match_cache.pinned = 0
     `,
       [
         entry.budgetId,
@@ -224,6 +240,134 @@ export class PayeeMatchCacheRepository {
     return row || { totalEntries: 0, totalHits: 0 };
   }
 
+  findById(id: number): PayeeMatchCacheEntry | null {
+    const row = this.db.queryOne<PayeeMatchCacheRow>(
+      `SELECT * FROM payee_match_cache WHERE id = ?`,
+      [id]
+    );
+    return row ? this.mapRowToEntry(row) : null;
+  }
+
+  /**
+   * Page through cached matches for the cache management screen
+   * Pinned entries come first, then the most used ones
+   */
+  search(
+    budgetId: string,
+    filter: PayeeMatchCacheFilter
+  ): { entries: PayeeMatchCacheEntry[]; total: number } {
+    const conditions = ['budget_id = ?'];
+    const params: unknown[] = [budgetId];
+
+    if (filter.search) {
+      const pattern = `%${filter.search.toLowerCase()}%`;
+      conditions.push(
+        '(LOWER(raw_payee_name_original) LIKE ? OR LOWER(canonical_payee_name) LIKE ?)'
+      );
+      params.push(pattern, pattern);
+    }
+    if (filter.source) {
+      conditions.push('source = ?');
+      params.push(filter.source);
+    }
+
+    const where = conditions.join(' AND ');
+    const countRow = this.db.queryOne<{ total: number }>(
+      `SELECT COUNT(*) as total FROM payee_match_cache WHERE ${where}`,
+      params
+    );
+    const rows = this.db.query<PayeeMatchCacheRow>(
+      `SELECT * FROM payee_match_cache WHERE ${where}
+       ORDER BY pinned DESC, hit_count DESC, raw_payee_name ASC LIMIT ? OFFSET ?`,
+      [...params, filter.limit, filter.offset]
+    );
+
+    return { entries: rows.map((row) => this.mapRowToEntry(row)), total: countRow?.total ?? 0 };
+  }
+
+  /**
+   * Apply a manual edit; unlike save() this also changes pinned entries
+   */
+  update(
+    id: number,
+    changes: {
+      canonicalPayeeId?: string | null;
+      canonicalPayeeName?: string;
+      confidence?: number;
+      source?: PayeeMatchCacheEntry['source'];
+      pinned?: boolean;
+    }
+  ): void {
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+
+    if (changes.canonicalPayeeId !== undefined) {
+      assignments.push('canonical_payee_id = ?');
+      params.push(changes.canonicalPayeeId);
+    }
+    if (changes.canonicalPayeeName !== undefined) {
+      assignments.push('canonical_payee_name = ?');
+      params.push(changes.canonicalPayeeName);
+    }
+    if (changes.confidence !== undefined) {
+      assignments.push('confidence = ?');
+      params.push(changes.confidence);
+    }
+    if (changes.source !== undefined) {
+      assignments.push('source = ?');
+      params.push(changes.source);
+    }
+    if (changes.pinned !== undefined) {
+      assignments.push('pinned = ?');
+      params.push(changes.pinned ? 1 : 0);
+    }
+    if (assignments.length === 0) return;
+
+    const updated = this.db.execute(
+      `UPDATE payee_match_cache SET ${assignments.join(', ')}, updated_at = datetime('now') WHERE id = ?`,
+      [...params, id]
+    );
+    if (updated === 0) {
+      throw new NotFoundError('PayeeMatchCacheEntry', String(id));
+    }
+  }
+
+  deleteById(id: number): void {
+    const deleted = this.db.execute(`DELETE FROM payee_match_cache WHERE id = ?`, [id]);
+    if (deleted === 0) {
+      throw new NotFoundError('PayeeMatchCacheEntry', String(id));
+    }
+  }
+
+  /**
+   * Bulk-delete entries for a budget, optionally limited to one source
+   * Pinned entries survive unless includePinned is set
+   * @returns number of deleted entries
+   */
+  clearEntries(
+    budgetId: string,
+    options: { source?: PayeeMatchCacheEntry['source']; includePinned?: boolean } = {}
+  ): number {
+    const conditions = ['budget_id = ?'];
+    const params: unknown[] = [budgetId];
+
+    if (options.source) {
+      conditions.push('source = ?');
+      params.push(options.source);
+    }
+    if (!options.includePinned) {
+      conditions.push('pinned = 0');
+    }
+
+    const deleted = this.db.execute(
+      `DELETE FROM payee_match_cache WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+
+    logger.info('Payee match cache entries cleared', { budgetId, ...options, deleted });
+    return deleted;
+  }
+
   /**
    * Clear cache for a budget
    */
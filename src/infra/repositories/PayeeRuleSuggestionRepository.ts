@@ -0,0 +1,155 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  PayeeRuleSuggestion,
+  PayeeRuleSuggestionStatus,
+} from '../../domain/entities/PayeeRuleSuggestion.js';
+import { NotFoundError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+
+type PayeeRuleSuggestionRow = {
+  id: string;
+  budget_id: string;
+  payee_id: string;
+  payee_name: string;
+  category_id: string;
+  category_name: string;
+  approved_count: number;
+  cache_hit_count: number;
+  confidence: number;
+  rationale: string;
+  status: PayeeRuleSuggestionStatus;
+  rule_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Repository for payee rule suggestions
+ * P5 (Separation of concerns): Service layer uses this, domain never imports infra
+ */
+export class PayeeRuleSuggestionRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  /**
+   * Insert or update a rule suggestion
+   * One suggestion per (budget_id, payee_id); re-proposals replace the previous row
+   */
+  save(suggestion: PayeeRuleSuggestion): void {
+    const sql = `
+      INSERT INTO payee_rule_suggestions (
+        id, budget_id, payee_id, payee_name, category_id, category_name,
+        approved_count, cache_hit_count, confidence, rationale, status, rule_id,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(budget_id, payee_id) DO UPDATE SET
+        payee_name = excluded.payee_name,
+        category_id = excluded.category_id,
+        category_name = excluded.category_name,
+        approved_count = excluded.approved_count,
+        cache_hit_count = excluded.cache_hit_count,
+        confidence = excluded.confidence,
+        rationale = excluded.rationale,
+        status = excluded.status,
+        rule_id = excluded.rule_id,
+        updated_at = excluded.updated_at
+    `;
+
+    this.db.execute(sql, [
+      suggestion.id,
+      suggestion.budgetId,
+      suggestion.payeeId,
+      suggestion.payeeName,
+      suggestion.categoryId,
+      suggestion.categoryName,
+      suggestion.approvedCount,
+      suggestion.cacheHitCount,
+      suggestion.confidence,
+      suggestion.rationale,
+      suggestion.status,
+      suggestion.ruleId,
+      suggestion.createdAt,
+      suggestion.updatedAt,
+    ]);
+
+    logger.debug('Payee rule suggestion saved', {
+      budgetId: suggestion.budgetId,
+      payeeName: suggestion.payeeName,
+    });
+  }
+
+  findById(id: string): PayeeRuleSuggestion | null {
+    const row = this.db.queryOne<PayeeRuleSuggestionRow>(
+      'SELECT * FROM payee_rule_suggestions WHERE id = ?',
+      [id]
+    );
+    return row ? this.mapRowToSuggestion(row) : null;
+  }
+
+  findByBudgetId(budgetId: string): PayeeRuleSuggestion[] {
+    const rows = this.db.query<PayeeRuleSuggestionRow>(
+      'SELECT * FROM payee_rule_suggestions WHERE budget_id = ? ORDER BY confidence DESC, payee_name ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToSuggestion(row));
+  }
+
+  findByIds(ids: string[]): PayeeRuleSuggestion[] {
+    if (ids.length === 0) return [];
+    const placeholders = ids.map(() => '?').join(',');
+    const rows = this.db.query<PayeeRuleSuggestionRow>(
+      `SELECT * FROM payee_rule_suggestions WHERE id IN (${placeholders})`,
+      ids
+    );
+    return rows.map((row) => this.mapRowToSuggestion(row));
+  }
+
+  /**
+   * Update review status (and the created rule ID when applied)
+   */
+  updateStatus(id: string, status: PayeeRuleSuggestionStatus, ruleId?: string | null): void {
+    const changes = this.db.execute(
+      `UPDATE payee_rule_suggestions
+       SET status = ?, rule_id = COALESCE(?, rule_id), updated_at = ?
+       WHERE id = ?`,
+      [status, ruleId ?? null, new Date().toISOString(), id]
+    );
+
+    if (changes === 0) {
+      throw new NotFoundError('PayeeRuleSuggestion', id);
+    }
+
+    logger.debug('Payee rule suggestion status updated', { id, status });
+  }
+
+  /**
+   * Remove pending suggestions that are no longer backed by enough evidence
+   */
+  deletePendingExcept(budgetId: string, keepIds: string[]): number {
+    const placeholders = keepIds.map(() => '?').join(',');
+    const sql =
+      keepIds.length > 0
+        ? `DELETE FROM payee_rule_suggestions WHERE budget_id = ? AND status = 'pending' AND id NOT IN (${placeholders})`
+        : `DELETE FROM payee_rule_suggestions WHERE budget_id = ? AND status = 'pending'`;
+    return this.db.execute(sql, [budgetId, ...keepIds]);
+  }
+
+  private mapRowToSuggestion(row: PayeeRuleSuggestionRow): PayeeRuleSuggestion {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      type: 'payee_rule',
+      payeeId: row.payee_id,
+      payeeName: row.payee_name,
+      categoryId: row.category_id,
+      categoryName: row.category_name,
+      approvedCount: row.approved_count,
+      cacheHitCount: row.cache_hit_count,
+      confidence: row.confidence,
+      rationale: row.rationale,
+      status: row.status,
+      ruleId: row.rule_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  PromptTemplateName,
+  PromptTemplateVersion,
+} from '../../domain/entities/PromptTemplate.js';
+import { logger } from '../logger.js';
+
+type PromptTemplateRow = {
+  id: string;
+  budget_id: string;
+  name: PromptTemplateName;
+  version: number;
+  instructions: string | null;
+  created_at: string;
+};
+
+/**
+ * Repository for per-budget prompt template versions (append-only)
+ */
+export class PromptTemplateRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(template: PromptTemplateVersion): void {
+    this.db.execute(
+      `INSERT INTO prompt_templates (id, budget_id, name, version, instructions, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.budgetId,
+        template.name,
+        template.version,
+        template.instructions,
+        template.createdAt,
+      ]
+    );
+
+    logger.debug('Prompt template version saved', {
+      budgetId: template.budgetId,
+      name: template.name,
+      version: template.version,
+    });
+  }
+
+  findLatest(budgetId: string, name: PromptTemplateName): PromptTemplateVersion | null {
+    const row = this.db.queryOne<PromptTemplateRow>(
+      `SELECT * FROM prompt_templates WHERE budget_id = ? AND name = ?
+       ORDER BY version DESC LIMIT 1`,
+      [budgetId, name]
+    );
+    return row ? this.mapRowToTemplate(row) : null;
+  }
+
+  /**
+   * Every version of a template for a budget, newest first
+   */
+  listVersions(budgetId: string, name: PromptTemplateName): PromptTemplateVersion[] {
+    const rows = this.db.query<PromptTemplateRow>(
+      'SELECT * FROM prompt_templates WHERE budget_id = ? AND name = ? ORDER BY version DESC',
+      [budgetId, name]
+    );
+    return rows.map((row) => this.mapRowToTemplate(row));
+  }
+
+  private mapRowToTemplate(row: PromptTemplateRow): PromptTemplateVersion {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      name: row.name,
+      version: row.version,
+      instructions: row.instructions,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  RecurringCadence,
+  RecurringPayment,
+  RecurringPaymentStatus,
+} from '../../domain/entities/RecurringPayment.js';
+import { NotFoundError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+
+type RecurringPaymentRow = {
+  id: string;
+  budget_id: string;
+  payee_id: string;
+  payee_name: string;
+  account_id: string;
+  account_name: string | null;
+  cadence: RecurringCadence;
+  occurrences: number;
+  min_amount: number;
+  max_amount: number;
+  last_amount: number;
+  previous_amount: number;
+  price_increase: number;
+  last_date: string;
+  next_expected_date: string;
+  status: RecurringPaymentStatus;
+  schedule_id: string | null;
+  detected_at: string;
+};
+
+/**
+ * Repository for detected recurring payments
+ * Holds the latest detection run only; each run replaces the budget's rows
+ */
+export class RecurringPaymentRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  replaceForBudget(budgetId: string, payments: RecurringPayment[]): void {
+    this.db.transaction(() => {
+      this.db.execute('DELETE FROM recurring_payments WHERE budget_id = ?', [budgetId]);
+
+      const insertSql = `
+        INSERT INTO recurring_payments (
+          id, budget_id, payee_id, payee_name, account_id, account_name, cadence, occurrences,
+          min_amount, max_amount, last_amount, previous_amount, price_increase, last_date,
+          next_expected_date, status, schedule_id, detected_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      for (const payment of payments) {
+        this.db.execute(insertSql, [
+          payment.id,
+          payment.budgetId,
+          payment.payeeId,
+          payment.payeeName,
+          payment.accountId,
+          payment.accountName,
+          payment.cadence,
+          payment.occurrences,
+          payment.minAmount,
+          payment.maxAmount,
+          payment.lastAmount,
+          payment.previousAmount,
+          payment.priceIncrease ? 1 : 0,
+          payment.lastDate,
+          payment.nextExpectedDate,
+          payment.status,
+          payment.scheduleId,
+          payment.detectedAt,
+        ]);
+      }
+    });
+
+    logger.info('Recurring payments stored', { budgetId, count: payments.length });
+  }
+
+  findById(id: string): RecurringPayment | null {
+    const row = this.db.queryOne<RecurringPaymentRow>(
+      'SELECT * FROM recurring_payments WHERE id = ?',
+      [id]
+    );
+    return row ? this.mapRowToPayment(row) : null;
+  }
+
+  findByBudgetId(budgetId: string): RecurringPayment[] {
+    const rows = this.db.query<RecurringPaymentRow>(
+      'SELECT * FROM recurring_payments WHERE budget_id = ? ORDER BY payee_name ASC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToPayment(row));
+  }
+
+  updateScheduleId(id: string, scheduleId: string): void {
+    const changes = this.db.execute('UPDATE recurring_payments SET schedule_id = ? WHERE id = ?', [
+      scheduleId,
+      id,
+    ]);
+
+    if (changes === 0) {
+      throw new NotFoundError('RecurringPayment', id);
+    }
+  }
+
+  private mapRowToPayment(row: RecurringPaymentRow): RecurringPayment {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      payeeId: row.payee_id,
+      payeeName: row.payee_name,
+      accountId: row.account_id,
+      accountName: row.account_name,
+      cadence: row.cadence,
+      occurrences: row.occurrences,
+      minAmount: row.min_amount,
+      maxAmount: row.max_amount,
+      lastAmount: row.last_amount,
+      previousAmount: row.previous_amount,
+      priceIncrease: row.price_increase === 1,
+      lastDate: row.last_date,
+      nextExpectedDate: row.next_expected_date,
+      status: row.status,
+      scheduleId: row.schedule_id,
+      detectedAt: row.detected_at,
+    };
+  }
+}
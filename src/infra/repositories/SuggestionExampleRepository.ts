@@ -0,0 +1,90 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  SuggestionExample,
+  SuggestionExampleKind,
+} from '../../domain/entities/SuggestionExample.js';
+import { logger } from '../logger.js';
+
+type SuggestionExampleRow = {
+  id: string;
+  budget_id: string;
+  suggestion_id: string;
+  kind: SuggestionExampleKind;
+  payee_name: string;
+  proposed_name: string | null;
+  chosen_id: string | null;
+  chosen_name: string;
+  corrected: number;
+  created_at: string;
+};
+
+/** Most recent decisions considered for similarity; older ones are rarely the best match */
+const MAX_EXAMPLES_SCANNED = 2000;
+
+/**
+ * Repository for user decisions used as few-shot examples
+ * One row per suggestion and kind; a later decision on the same suggestion replaces it
+ */
+export class SuggestionExampleRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  save(example: SuggestionExample): void {
+    this.db.execute(
+      `INSERT INTO suggestion_examples (
+         id, budget_id, suggestion_id, kind, payee_name, proposed_name, chosen_id, chosen_name,
+         corrected, created_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(suggestion_id, kind) DO UPDATE SET
+         chosen_id = excluded.chosen_id,
+         chosen_name = excluded.chosen_name,
+         corrected = excluded.corrected,
+         created_at = excluded.created_at`,
+      [
+        example.id,
+        example.budgetId,
+        example.suggestionId,
+        example.kind,
+        example.payeeName,
+        example.proposedName,
+        example.chosenId,
+        example.chosenName,
+        example.corrected ? 1 : 0,
+        example.createdAt,
+      ]
+    );
+
+    logger.debug('Suggestion example saved', {
+      suggestionId: example.suggestionId,
+      kind: example.kind,
+      corrected: example.corrected,
+    });
+  }
+
+  /**
+   * Latest decisions of a budget, newest first
+   */
+  listByBudget(budgetId: string): SuggestionExample[] {
+    const rows = this.db.query<SuggestionExampleRow>(
+      `SELECT * FROM suggestion_examples WHERE budget_id = ?
+       ORDER BY created_at DESC
+       LIMIT ?`,
+      [budgetId, MAX_EXAMPLES_SCANNED]
+    );
+    return rows.map((row) => this.mapRow(row));
+  }
+
+  private mapRow(row: SuggestionExampleRow): SuggestionExample {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      suggestionId: row.suggestion_id,
+      kind: row.kind,
+      payeeName: row.payee_name,
+      proposedName: row.proposed_name,
+      chosenId: row.chosen_id,
+      chosenName: row.chosen_name,
+      corrected: row.corrected === 1,
+      createdAt: row.created_at,
+    };
+  }
+}
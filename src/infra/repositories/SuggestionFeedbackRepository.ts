@@ -0,0 +1,65 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  FeedbackOutcome,
+  SuggestionFeedback,
+} from '../../domain/entities/SuggestionFeedback.js';
+import type { CategorySuggestionSource } from '../../domain/entities/Suggestion.js';
+import { logger } from '../logger.js';
+
+/**
+ * Repository for implicit feedback gathered from categorizations made in Actual Budget
+ * Append-only; accuracy statistics are aggregated on read
+ */
+export class SuggestionFeedbackRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  saveBatch(feedback: SuggestionFeedback[]): void {
+    if (feedback.length === 0) return;
+
+    this.db.transaction(() => {
+      for (const entry of feedback) {
+        this.db.execute(
+          `INSERT INTO suggestion_feedback (
+             id, budget_id, suggestion_id, transaction_id, payee_name, source,
+             proposed_category_id, actual_category_id, actual_category_name, confidence,
+             outcome, created_at
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            entry.id,
+            entry.budgetId,
+            entry.suggestionId,
+            entry.transactionId,
+            entry.payeeName,
+            entry.source,
+            entry.proposedCategoryId,
+            entry.actualCategoryId,
+            entry.actualCategoryName,
+            entry.confidence,
+            entry.outcome,
+            entry.createdAt,
+          ]
+        );
+      }
+    });
+
+    logger.debug('Suggestion feedback saved', { count: feedback.length });
+  }
+
+  /**
+   * Count outcomes per pipeline stage for a budget; proposals without a source are skipped
+   */
+  countBySource(
+    budgetId: string
+  ): Array<{ source: CategorySuggestionSource; outcome: FeedbackOutcome; count: number }> {
+    return this.db.query<{
+      source: CategorySuggestionSource;
+      outcome: FeedbackOutcome;
+      count: number;
+    }>(
+      `SELECT source, outcome, COUNT(*) as count FROM suggestion_feedback
+       WHERE budget_id = ? AND source IS NOT NULL
+       GROUP BY source, outcome`,
+      [budgetId]
+    );
+  }
+}
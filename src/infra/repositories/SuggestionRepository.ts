@@ -3,18 +3,22 @@ import type {
   Suggestion,
   SuggestionStatus,
   SuggestionComponentStatus,
+  CategorySuggestionSource,
+  SuggestionKind,
 } from '../../domain/entities/Suggestion.js';
 import {
   computeCombinedStatus,
   computeCombinedConfidence,
   computeCombinedRationale,
 } from '../../domain/entities/Suggestion.js';
+import { deriveSplitStatus, type SplitSuggestion } from '../../domain/entities/SplitSuggestion.js';
 import { NotFoundError } from '../../domain/errors.js';
 import { logger } from '../logger.js';
 
 type SuggestionRow = {
   id: string;
   budget_id: string;
+  suggestion_kind: SuggestionKind | null;
   transaction_id: string;
   transaction_payee: string | null;
   transaction_amount: number | null;
@@ -22,9 +26,14 @@ type SuggestionRow = {
   transaction_account_id: string | null;
   transaction_account_name: string | null;
   current_category_id: string | null;
+  current_category_name: string | null;
   current_payee_id: string | null;
   payee_status: SuggestionComponentStatus | null;
   category_status: SuggestionComponentStatus | null;
+  category_source: CategorySuggestionSource | null;
+  payee_prompt_version: string | null;
+  category_prompt_version: string | null;
+  split_suggestion: string | null;
   payee_confidence: number | null;
   category_confidence: number | null;
   confidence: number | null;
@@ -61,20 +70,22 @@ export class SuggestionRepository {
   save(suggestion: Suggestion): void {
     const sql = `
       INSERT OR REPLACE INTO suggestions (
-        id, budget_id, transaction_id, transaction_account_id, transaction_account_name,
+        id, budget_id, suggestion_kind, transaction_id, transaction_account_id, transaction_account_name,
         transaction_payee, transaction_amount, transaction_date, 
-        current_category_id, current_payee_id,
+        current_category_id, current_category_name, current_payee_id,
         proposed_payee_id, proposed_payee_name, payee_confidence, payee_rationale, payee_status,
         proposed_category_id, proposed_category_name, category_confidence, category_rationale, category_status,
+        category_source, split_suggestion, payee_prompt_version, category_prompt_version,
         suggested_payee_name, confidence, rationale, status,
         corrected_payee_id, corrected_payee_name, corrected_category_id, corrected_category_name,
         created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     this.db.execute(sql, [
       suggestion.id,
       suggestion.budgetId,
+      suggestion.kind,
       suggestion.transactionId,
       suggestion.transactionAccountId,
       suggestion.transactionAccountName,
@@ -82,6 +93,7 @@ export class SuggestionRepository {
       suggestion.transactionAmount,
       suggestion.transactionDate,
       suggestion.currentCategoryId,
+      suggestion.currentCategoryName,
       suggestion.currentPayeeId,
       suggestion.payeeSuggestion.proposedPayeeId,
       suggestion.payeeSuggestion.proposedPayeeName,
@@ -93,6 +105,10 @@ export class SuggestionRepository {
       suggestion.categorySuggestion.confidence,
       suggestion.categorySuggestion.rationale,
       suggestion.categorySuggestion.status,
+      suggestion.categorySuggestion.source,
+      suggestion.splitSuggestion ? JSON.stringify(suggestion.splitSuggestion) : null,
+      suggestion.payeeSuggestion.promptVersion,
+      suggestion.categorySuggestion.promptVersion,
       suggestion.suggestedPayeeName,
       suggestion.confidence,
       suggestion.rationale,
@@ -177,23 +193,31 @@ export class SuggestionRepository {
       categoryStatus = 'pending';
     }
 
+    const existing = this.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Suggestion', id);
+    }
+    const splitSuggestion = existing.splitSuggestion
+      ? {
+          ...existing.splitSuggestion,
+          status: deriveSplitStatus(existing.splitSuggestion.status, status),
+        }
+      : null;
+
     const sql = `
       UPDATE suggestions 
-      SET status = ?, payee_status = ?, category_status = ?, updated_at = ? 
+      SET status = ?, payee_status = ?, category_status = ?, split_suggestion = ?, updated_at = ? 
       WHERE id = ?
     `;
-    const changes = this.db.execute(sql, [
+    this.db.execute(sql, [
       status,
       payeeStatus,
       categoryStatus,
+      splitSuggestion ? JSON.stringify(splitSuggestion) : null,
       new Date().toISOString(),
       id,
     ]);
 
-    if (changes === 0) {
-      throw new NotFoundError('Suggestion', id);
-    }
-
     logger.debug('Suggestion status updated', { id, status });
   }
 
@@ -271,6 +295,44 @@ export class SuggestionRepository {
     logger.debug('Suggestion category status updated', { id, categoryStatus, correction });
   }
 
+  /**
+   * Update split suggestion status independently
+   * Approving a split replaces the single category proposal, so the category is skipped
+   */
+  updateSplitStatus(id: string, splitStatus: SuggestionComponentStatus): void {
+    const suggestion = this.findById(id);
+    if (!suggestion) {
+      throw new NotFoundError('Suggestion', id);
+    }
+    if (!suggestion.splitSuggestion) {
+      throw new NotFoundError('SplitSuggestion', id);
+    }
+
+    const categoryStatus =
+      splitStatus === 'approved' ? 'skipped' : suggestion.categorySuggestion.status;
+    const newCombinedStatus = computeCombinedStatus(
+      suggestion.payeeSuggestion.status,
+      categoryStatus
+    );
+    const splitSuggestion: SplitSuggestion = { ...suggestion.splitSuggestion, status: splitStatus };
+
+    this.db.execute(
+      `
+      UPDATE suggestions
+      SET split_suggestion = ?, category_status = ?, status = ?, updated_at = ?
+      WHERE id = ?
+    `,
+      [
+        JSON.stringify(splitSuggestion),
+        categoryStatus,
+        newCombinedStatus,
+        new Date().toISOString(),
+        id,
+      ]
+    );
+    logger.debug('Suggestion split status updated', { id, splitStatus });
+  }
+
   /**
    * Update category proposal and status (used for user corrections)
    */
@@ -462,23 +524,37 @@ export class SuggestionRepository {
   }
 
   /**
-   * Delete suggestions for transactions that are no longer uncategorized
-   * Keeps applied suggestions for history
+   * Delete suggestions whose transactions were resolved in Actual Budget
+   * Categorize suggestions resolve once the transaction is no longer uncategorized;
+   * recategorize suggestions resolve once the transaction's category no longer matches
+   * the one they questioned. Keeps applied suggestions for history
+   * @returns the deleted suggestions, so callers can learn from how they were resolved
    */
-  cleanupResolvedSuggestions(budgetId: string, uncategorizedTransactionIds: Set<string>): number {
-    const rows = this.db.query<{ id: string; transaction_id: string }>(
-      `SELECT id, transaction_id FROM suggestions WHERE budget_id = ? AND status != 'applied'`,
+  cleanupResolvedSuggestions(
+    budgetId: string,
+    uncategorizedTransactionIds: Set<string>,
+    categoryByTransactionId: Map<string, string | null> = new Map()
+  ): Suggestion[] {
+    const rows = this.db.query<SuggestionRow>(
+      `SELECT * FROM suggestions WHERE budget_id = ? AND status != 'applied'`,
       [budgetId]
     );
 
-    const resolvedIds = rows
-      .filter((row) => !uncategorizedTransactionIds.has(row.transaction_id))
-      .map((row) => row.id);
+    const resolvedRows = rows.filter((row) => {
+      if (row.suggestion_kind === 'recategorize') {
+        return (
+          categoryByTransactionId.has(row.transaction_id) &&
+          categoryByTransactionId.get(row.transaction_id) !== row.current_category_id
+        );
+      }
+      return !uncategorizedTransactionIds.has(row.transaction_id);
+    });
 
-    if (resolvedIds.length === 0) {
-      return 0;
+    if (resolvedRows.length === 0) {
+      return [];
     }
 
+    const resolvedIds = resolvedRows.map((row) => row.id);
     const placeholders = resolvedIds.map(() => '?').join(',');
     const deleteCount = this.db.execute(
       `DELETE FROM suggestions WHERE id IN (${placeholders})`,
@@ -488,12 +564,20 @@ export class SuggestionRepository {
     logger.info('Cleaned up resolved suggestions', {
       budgetId,
       deletedCount: deleteCount,
-      resolvedTransactionIds: rows
-        .filter((row) => !uncategorizedTransactionIds.has(row.transaction_id))
-        .map((row) => row.transaction_id),
+      resolvedTransactionIds: resolvedRows.map((row) => row.transaction_id),
     });
 
-    return deleteCount;
+    return resolvedRows.map((row) => this.mapRowToSuggestion(row));
+  }
+
+  private parseSplitSuggestion(value: string | null): SplitSuggestion | null {
+    if (!value) return null;
+    try {
+      return JSON.parse(value) as SplitSuggestion;
+    } catch {
+      logger.warn('Failed to parse split suggestion', { value });
+      return null;
+    }
   }
 
   /**
@@ -513,6 +597,7 @@ export class SuggestionRepository {
     return {
       id: row.id,
       budgetId: row.budget_id,
+      kind: row.suggestion_kind ?? 'categorize',
       transactionId: row.transaction_id,
       transactionPayee: row.transaction_payee,
       transactionAmount: row.transaction_amount,
@@ -520,6 +605,7 @@ export class SuggestionRepository {
       transactionAccountId: row.transaction_account_id,
       transactionAccountName: row.transaction_account_name,
       currentCategoryId: row.current_category_id,
+      currentCategoryName: row.current_category_name ?? null,
       currentPayeeId: row.current_payee_id || null,
 
       payeeSuggestion: {
@@ -528,6 +614,7 @@ export class SuggestionRepository {
         confidence: payeeConfidence,
         rationale: payeeRationale,
         status: payeeStatus,
+        promptVersion: row.payee_prompt_version ?? null,
       },
 
       categorySuggestion: {
@@ -536,8 +623,12 @@ export class SuggestionRepository {
         confidence: categoryConfidence,
         rationale: categoryRationale,
         status: categoryStatus,
+        source: row.category_source ?? null,
+        promptVersion: row.category_prompt_version ?? null,
       },
 
+      splitSuggestion: this.parseSplitSuggestion(row.split_suggestion),
+
       correction: {
         correctedPayeeId: row.corrected_payee_id || null,
         correctedPayeeName: row.corrected_payee_name || null,
@@ -0,0 +1,168 @@
+import type { DatabaseAdapter } from '../DatabaseAdapter.js';
+import type {
+  TransferSuggestion,
+  TransferSuggestionStatus,
+} from '../../domain/entities/TransferSuggestion.js';
+import { NotFoundError } from '../../domain/errors.js';
+import { logger } from '../logger.js';
+
+type TransferSuggestionRow = {
+  id: string;
+  budget_id: string;
+  from_transaction_id: string;
+  from_account_id: string;
+  from_account_name: string | null;
+  from_payee_name: string | null;
+  from_date: string;
+  to_transaction_id: string;
+  to_account_id: string;
+  to_account_name: string | null;
+  to_payee_name: string | null;
+  to_date: string;
+  amount: number;
+  day_gap: number;
+  confidence: number;
+  rationale: string;
+  status: TransferSuggestionStatus;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Repository for transfer suggestions
+ * P5 (Separation of concerns): Service layer uses this, domain never imports infra
+ */
+export class TransferSuggestionRepository {
+  constructor(private db: DatabaseAdapter) {}
+
+  /**
+   * Insert or update a transfer suggestion
+   * One suggestion per (budget_id, from_transaction_id, to_transaction_id)
+   */
+  save(suggestion: TransferSuggestion): void {
+    const sql = `
+      INSERT INTO transfer_suggestions (
+        id, budget_id, from_transaction_id, from_account_id, from_account_name, from_payee_name,
+        from_date, to_transaction_id, to_account_id, to_account_name, to_payee_name, to_date,
+        amount, day_gap, confidence, rationale, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(budget_id, from_transaction_id, to_transaction_id) DO UPDATE SET
+        from_account_name = excluded.from_account_name,
+        from_payee_name = excluded.from_payee_name,
+        from_date = excluded.from_date,
+        to_account_name = excluded.to_account_name,
+        to_payee_name = excluded.to_payee_name,
+        to_date = excluded.to_date,
+        amount = excluded.amount,
+        day_gap = excluded.day_gap,
+        confidence = excluded.confidence,
+        rationale = excluded.rationale,
+        status = excluded.status,
+        updated_at = excluded.updated_at
+    `;
+
+    this.db.execute(sql, [
+      suggestion.id,
+      suggestion.budgetId,
+      suggestion.fromTransactionId,
+      suggestion.fromAccountId,
+      suggestion.fromAccountName,
+      suggestion.fromPayeeName,
+      suggestion.fromDate,
+      suggestion.toTransactionId,
+      suggestion.toAccountId,
+      suggestion.toAccountName,
+      suggestion.toPayeeName,
+      suggestion.toDate,
+      suggestion.amount,
+      suggestion.dayGap,
+      suggestion.confidence,
+      suggestion.rationale,
+      suggestion.status,
+      suggestion.createdAt,
+      suggestion.updatedAt,
+    ]);
+
+    logger.debug('Transfer suggestion saved', {
+      budgetId: suggestion.budgetId,
+      fromTransactionId: suggestion.fromTransactionId,
+      toTransactionId: suggestion.toTransactionId,
+    });
+  }
+
+  findById(id: string): TransferSuggestion | null {
+    const row = this.db.queryOne<TransferSuggestionRow>(
+      'SELECT * FROM transfer_suggestions WHERE id = ?',
+      [id]
+    );
+    return row ? this.mapRowToSuggestion(row) : null;
+  }
+
+  findByBudgetId(budgetId: string): TransferSuggestion[] {
+    const rows = this.db.query<TransferSuggestionRow>(
+      'SELECT * FROM transfer_suggestions WHERE budget_id = ? ORDER BY from_date DESC, amount DESC',
+      [budgetId]
+    );
+    return rows.map((row) => this.mapRowToSuggestion(row));
+  }
+
+  findByIds(ids: string[]): TransferSuggestion[] {
+    if (ids.length === 0) return [];
+    const placeholders = ids.map(() => '?').join(',');
+    const rows = this.db.query<TransferSuggestionRow>(
+      `SELECT * FROM transfer_suggestions WHERE id IN (${placeholders})`,
+      ids
+    );
+    return rows.map((row) => this.mapRowToSuggestion(row));
+  }
+
+  updateStatus(id: string, status: TransferSuggestionStatus): void {
+    const changes = this.db.execute(
+      'UPDATE transfer_suggestions SET status = ?, updated_at = ? WHERE id = ?',
+      [status, new Date().toISOString(), id]
+    );
+
+    if (changes === 0) {
+      throw new NotFoundError('TransferSuggestion', id);
+    }
+
+    logger.debug('Transfer suggestion status updated', { id, status });
+  }
+
+  /**
+   * Remove pending suggestions that the latest detection run no longer produced
+   */
+  deletePendingExcept(budgetId: string, keepIds: string[]): number {
+    const placeholders = keepIds.map(() => '?').join(',');
+    const sql =
+      keepIds.length > 0
+        ? `DELETE FROM transfer_suggestions WHERE budget_id = ? AND status = 'pending' AND id NOT IN (${placeholders})`
+        : `DELETE FROM transfer_suggestions WHERE budget_id = ? AND status = 'pending'`;
+    return this.db.execute(sql, [budgetId, ...keepIds]);
+  }
+
+  private mapRowToSuggestion(row: TransferSuggestionRow): TransferSuggestion {
+    return {
+      id: row.id,
+      budgetId: row.budget_id,
+      type: 'transfer',
+      fromTransactionId: row.from_transaction_id,
+      fromAccountId: row.from_account_id,
+      fromAccountName: row.from_account_name,
+      fromPayeeName: row.from_payee_name,
+      fromDate: row.from_date,
+      toTransactionId: row.to_transaction_id,
+      toAccountId: row.to_account_id,
+      toAccountName: row.to_account_name,
+      toPayeeName: row.to_payee_name,
+      toDate: row.to_date,
+      amount: row.amount,
+      dayGap: row.day_gap,
+      confidence: row.confidence,
+      rationale: row.rationale,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
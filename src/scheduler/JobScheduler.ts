@@ -0,0 +1,200 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import { logger } from '../infra/logger.js';
+import { ConflictError } from '../domain/errors.js';
+import { isWithinQuietHours, type JobSchedule } from '../domain/entities/JobSchedule.js';
+import type { JobScheduleRun, JobScheduleRunStatus } from '../domain/entities/JobSchedule.js';
+import type { JobOrchestrator } from '../services/JobOrchestrator.js';
+import type { JobScheduleService } from '../services/JobScheduleService.js';
+
+/**
+ * JobScheduler - starts jobs from the cron schedules stored per budget
+ * P1 (Modularity): Single responsibility for scheduling; schedules are edited through
+ * JobScheduleService, which tells the scheduler to re-register the ones that changed
+ * P7 (Error handling): Failed jobs are retried with backoff by their type's retry policy
+ *
+ * Schedules whose next run passed while the server was stopped run once on start.
+ */
+export class JobScheduler {
+  private readonly tasks = new Map<string, ScheduledTask>();
+  private unsubscribe: (() => void) | null = null;
+  private isPaused = false;
+  private static instance: JobScheduler | null = null;
+
+  constructor(
+    private jobScheduleService: JobScheduleService,
+    private jobOrchestrator: JobOrchestrator
+  ) {
+    JobScheduler.instance = this;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): JobScheduler | null {
+    return JobScheduler.instance;
+  }
+
+  /**
+   * Pause the scheduler (for use during apply operations)
+   */
+  pause(): void {
+    this.isPaused = true;
+    logger.info('JobScheduler paused');
+  }
+
+  /**
+   * Resume the scheduler after pause
+   */
+  resume(): void {
+    this.isPaused = false;
+    logger.info('JobScheduler resumed');
+  }
+
+  /**
+   * Register every enabled schedule and follow later changes
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.jobScheduleService.onChange((scheduleId) => this.refresh(scheduleId));
+
+    const now = Date.now();
+    const schedules = this.jobScheduleService.listEnabledSchedules();
+    for (const schedule of schedules) {
+      const missed = schedule.nextRunAt !== null && new Date(schedule.nextRunAt).getTime() < now;
+      this.register(schedule);
+      if (missed) {
+        this.runSchedule(schedule, { message: 'Missed while the server was stopped' });
+      }
+    }
+
+    logger.info('JobScheduler started', { schedules: schedules.length });
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    for (const scheduleId of [...this.tasks.keys()]) {
+      this.unregister(scheduleId);
+    }
+    logger.info('JobScheduler stopped');
+  }
+
+  /**
+   * Start a schedule's job now, ignoring quiet hours and pauses
+   */
+  runNow(scheduleId: string): JobScheduleRun {
+    const schedule = this.jobScheduleService.getSchedule(scheduleId);
+    return this.runSchedule(schedule, { manual: true });
+  }
+
+  /**
+   * Re-register a schedule after it was created, updated or deleted
+   */
+  private refresh(scheduleId: string): void {
+    this.unregister(scheduleId);
+    const schedule = this.jobScheduleService.findSchedule(scheduleId);
+    if (!schedule) return;
+
+    if (schedule.enabled) {
+      this.register(schedule);
+    } else {
+      this.jobScheduleService.setNextRun(scheduleId, null);
+    }
+  }
+
+  private register(schedule: JobSchedule): void {
+    const task = cron.schedule(
+      schedule.cronExpression,
+      () => {
+        const current = this.jobScheduleService.findSchedule(schedule.id);
+        if (current?.enabled) this.runSchedule(current);
+      },
+      { name: `job-schedule-${schedule.id}` }
+    );
+    this.tasks.set(schedule.id, task);
+    this.jobScheduleService.setNextRun(schedule.id, this.nextRunOf(schedule.id));
+
+    logger.debug('Job schedule registered', {
+      scheduleId: schedule.id,
+      cronExpression: schedule.cronExpression,
+      jobType: schedule.jobType,
+    });
+  }
+
+  private unregister(scheduleId: string): void {
+    const task = this.tasks.get(scheduleId);
+    if (!task) return;
+    void task.destroy();
+    this.tasks.delete(scheduleId);
+  }
+
+  private nextRunOf(scheduleId: string): string | null {
+    return this.tasks.get(scheduleId)?.getNextRun()?.toISOString() ?? null;
+  }
+
+  /**
+   * Queue the schedule's job and record the run; a budget busy with a conflicting job skips
+   * the run rather than queueing behind it
+   */
+  private runSchedule(
+    schedule: JobSchedule,
+    options: { manual?: boolean; message?: string } = {}
+  ): JobScheduleRun {
+    const manual = options.manual === true;
+    const record = (status: JobScheduleRunStatus, message: string | null, jobId?: string) =>
+      this.jobScheduleService.recordRun(schedule.id, {
+        status,
+        jobId,
+        message,
+        manual,
+        nextRunAt: this.nextRunOf(schedule.id),
+      });
+
+    if (!manual && this.isPaused) {
+      logger.info('Scheduled job skipped - scheduler is paused', { scheduleId: schedule.id });
+      return record('skipped', 'Scheduler was paused');
+    }
+    if (!manual && isWithinQuietHours(schedule, new Date())) {
+      logger.info('Scheduled job skipped - quiet hours', { scheduleId: schedule.id });
+      return record(
+        'skipped',
+        `Quiet hours (${schedule.quietHoursStart}–${schedule.quietHoursEnd})`
+      );
+    }
+
+    try {
+      const { job } = this.jobOrchestrator.startScheduledJob({
+        budgetId: schedule.budgetId,
+        type: schedule.jobType,
+        options: schedule.options,
+        scheduleId: schedule.id,
+      });
+      logger.info('Scheduled job enqueued', {
+        scheduleId: schedule.id,
+        budgetId: schedule.budgetId,
+        jobId: job.id,
+        jobType: job.type,
+        manual,
+      });
+      return record('started', options.message ?? null, job.id);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        logger.info('Scheduled job skipped - budget is busy', {
+          scheduleId: schedule.id,
+          budgetId: schedule.budgetId,
+          details: error.details,
+        });
+        return record('skipped', error.message);
+      }
+      logger.error('Failed to enqueue scheduled job', {
+        scheduleId: schedule.id,
+        budgetId: schedule.budgetId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return record('failed', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
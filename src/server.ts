@@ -11,9 +11,33 @@ import { DatabaseAdapter } from './infra/DatabaseAdapter.js';
 import { runMigrations } from './infra/migrations.js';
 import { ActualBudgetAdapter } from './infra/ActualBudgetAdapter.js';
 import { createAIAdapter } from './infra/ai/createAIAdapter.js';
+import { DEFAULT_MODEL_PRICES } from './domain/entities/AIUsage.js';
+import { buildRedactionRules } from './domain/entities/Redaction.js';
+import { JOB_RETRY_POLICIES } from './domain/entities/Job.js';
+import { FallbackAIAdapter } from './infra/ai/FallbackAIAdapter.js';
+import { ModelRoutingAIAdapter } from './infra/ai/ModelRoutingAIAdapter.js';
+import { UsageTrackingAIAdapter } from './infra/ai/UsageTrackingAIAdapter.js';
+import { ValidatingAIAdapter } from './infra/ai/ValidatingAIAdapter.js';
+import { RedactingAIAdapter } from './infra/ai/RedactingAIAdapter.js';
 import { SuggestionRepository } from './infra/repositories/SuggestionRepository.js';
 import { AuditRepository } from './infra/repositories/AuditRepository.js';
 import { PayeeCacheRepository } from './infra/repositories/PayeeCacheRepository.js';
+import { PayeeMatchCacheRepository } from './infra/repositories/PayeeMatchCacheRepository.js';
+import { PayeeRuleSuggestionRepository } from './infra/repositories/PayeeRuleSuggestionRepository.js';
+import { TransferSuggestionRepository } from './infra/repositories/TransferSuggestionRepository.js';
+import { RecurringPaymentRepository } from './infra/repositories/RecurringPaymentRepository.js';
+import { ClassifierModelRepository } from './infra/repositories/ClassifierModelRepository.js';
+import { BacktestRunRepository } from './infra/repositories/BacktestRunRepository.js';
+import { SuggestionFeedbackRepository } from './infra/repositories/SuggestionFeedbackRepository.js';
+import { ModelRouteRepository } from './infra/repositories/ModelRouteRepository.js';
+import { CategoryGuidanceRepository } from './infra/repositories/CategoryGuidanceRepository.js';
+import { PromptTemplateRepository } from './infra/repositories/PromptTemplateRepository.js';
+import { AccountCategoryAllowlistRepository } from './infra/repositories/AccountCategoryAllowlistRepository.js';
+import { AIUsageRepository } from './infra/repositories/AIUsageRepository.js';
+import { AIResponseValidationRepository } from './infra/repositories/AIResponseValidationRepository.js';
+import { AIOutboundRequestRepository } from './infra/repositories/AIOutboundRequestRepository.js';
+import { SuggestionExampleRepository } from './infra/repositories/SuggestionExampleRepository.js';
+import { AutoApprovePolicyRepository } from './infra/repositories/AutoApprovePolicyRepository.js';
 import { PayeeMergeClusterRepository } from './infra/repositories/PayeeMergeClusterRepository.js';
 import { PayeeMergeClusterMetaRepository } from './infra/repositories/PayeeMergeClusterMetaRepository.js';
 import { PayeeMergeHiddenGroupRepository } from './infra/repositories/PayeeMergeHiddenGroupRepository.js';
@@ -21,17 +45,28 @@ import { PayeeMergePayeeSnapshotRepository } from './infra/repositories/PayeeMer
 import { JobRepository } from './infra/repositories/JobRepository.js';
 import { JobStepRepository } from './infra/repositories/JobStepRepository.js';
 import { JobEventRepository } from './infra/repositories/JobEventRepository.js';
+import { JobScheduleRepository } from './infra/repositories/JobScheduleRepository.js';
 import { SnapshotService } from './services/SnapshotService.js';
 import { SuggestionService } from './services/SuggestionService.js';
 import { SyncService } from './services/SyncService.js';
 import { JobService } from './services/JobService.js';
 import { JobEventBus } from './services/JobEventBus.js';
-import { JobOrchestrator } from './services/JobOrchestrator.js';
+import { JobOrchestrator, QUEUED_JOB_TYPES } from './services/JobOrchestrator.js';
+import { JobWorker } from './services/JobWorker.js';
 import { JobTimeoutService } from './services/JobTimeoutService.js';
+import { JobScheduleService } from './services/JobScheduleService.js';
 import { PayeeMergeService } from './services/PayeeMergeService.js';
+import { AutoApproveService } from './services/AutoApproveService.js';
+import { TransferService } from './services/TransferService.js';
+import { RecurringPaymentService } from './services/RecurringPaymentService.js';
+import { CacheService } from './services/CacheService.js';
+import { ModelRoutingService } from './services/ModelRoutingService.js';
+import { CategoryGuidanceService } from './services/CategoryGuidanceService.js';
+import { PromptTemplateService } from './services/PromptTemplateService.js';
+import { AIUsageService } from './services/AIUsageService.js';
 import { createApiRouter } from './api/index.js';
 import { createErrorHandler, notFoundHandler } from './api/errorHandler.js';
-import { startScheduler } from './scheduler/SyncScheduler.js';
+import { JobScheduler } from './scheduler/JobScheduler.js';
 import type { Request, Response, NextFunction } from 'express';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -51,13 +86,29 @@ setLogger(loggerInstance);
 const db = new DatabaseAdapter(env);
 await runMigrations(env);
 const actualBudget = new ActualBudgetAdapter(env);
-const aiAdapter = createAIAdapter(env);
-const aiConfigured = aiAdapter.isConfigured();
+const aiBackends = createAIAdapter(env);
+const aiConfigured = aiBackends.isConfigured();
 
 // Initialize repositories
 const suggestionRepo = new SuggestionRepository(db);
 const auditRepo = new AuditRepository(db);
 const payeeCache = new PayeeCacheRepository(db);
+const payeeMatchCache = new PayeeMatchCacheRepository(db);
+const payeeRuleRepo = new PayeeRuleSuggestionRepository(db);
+const transferRepo = new TransferSuggestionRepository(db);
+const recurringPaymentRepo = new RecurringPaymentRepository(db);
+const classifierRepo = new ClassifierModelRepository(db);
+const backtestRepo = new BacktestRunRepository(db);
+const feedbackRepo = new SuggestionFeedbackRepository(db);
+const exampleRepo = new SuggestionExampleRepository(db);
+const modelRouteRepo = new ModelRouteRepository(db);
+const categoryGuidanceRepo = new CategoryGuidanceRepository(db);
+const promptTemplateRepo = new PromptTemplateRepository(db);
+const accountAllowlistRepo = new AccountCategoryAllowlistRepository(db);
+const aiUsageRepo = new AIUsageRepository(db);
+const aiValidationRepo = new AIResponseValidationRepository(db);
+const aiOutboundRequestRepo = new AIOutboundRequestRepository(db);
+const autoApprovePolicyRepo = new AutoApprovePolicyRepository(db);
 const payeeMergeClusterRepo = new PayeeMergeClusterRepository(db);
 const payeeMergeClusterMetaRepo = new PayeeMergeClusterMetaRepository(db);
 const payeeMergePayeeSnapshotRepo = new PayeeMergePayeeSnapshotRepository(db);
@@ -65,18 +116,91 @@ const payeeMergeHiddenGroupRepo = new PayeeMergeHiddenGroupRepository(db);
 const jobRepo = new JobRepository(db);
 const jobStepRepo = new JobStepRepository(db);
 const jobEventRepo = new JobEventRepository(db);
+const jobScheduleRepo = new JobScheduleRepository(db);
 const jobEventBus = new JobEventBus();
 
 // Initialize services
+const modelRoutingService = new ModelRoutingService(modelRouteRepo, auditRepo, {
+  globalRoutes: env.AI_MODEL_ROUTES,
+  defaultBackend: aiBackends.getBackendId(),
+  defaultModels: {
+    openai: env.OPENAI_MODEL,
+    google: env.GOOGLE_AI_MODEL,
+    openai_compatible: env.OPENAI_COMPATIBLE_MODEL,
+  },
+  availableBackends:
+    aiBackends instanceof FallbackAIAdapter
+      ? aiBackends.getBackendIds()
+      : [aiBackends.getBackendId()],
+});
+const aiUsageService = new AIUsageService(aiUsageRepo, aiValidationRepo, auditRepo, {
+  prices: { ...DEFAULT_MODEL_PRICES, ...env.AI_MODEL_PRICES },
+  monthlyCapUsd: env.AI_MONTHLY_COST_CAP_USD ?? null,
+});
+// Validation sits outside usage tracking so repair prompts are costed too, and outside
+// redaction so repair prompts quoting a response are redacted again
+const aiAdapter = new ValidatingAIAdapter(
+  new RedactingAIAdapter(
+    new UsageTrackingAIAdapter(
+      new ModelRoutingAIAdapter(aiBackends, (task, budgetId) =>
+        modelRoutingService.resolve(task, budgetId)
+      ),
+      aiUsageService
+    ),
+    buildRedactionRules(env.AI_REDACTION_DETECTORS, env.AI_REDACTION_PATTERNS),
+    aiOutboundRequestRepo
+  ),
+  env.AI_REPAIR_MAX_ATTEMPTS,
+  aiUsageService
+);
 const snapshotService = new SnapshotService(actualBudget, auditRepo, suggestionRepo);
+const categoryGuidanceService = new CategoryGuidanceService(
+  categoryGuidanceRepo,
+  accountAllowlistRepo,
+  auditRepo
+);
+const promptTemplateService = new PromptTemplateService(promptTemplateRepo, auditRepo);
 const suggestionService = new SuggestionService(
   actualBudget,
   aiAdapter,
   suggestionRepo,
   auditRepo,
-  payeeCache
+  payeeCache,
+  undefined,
+  payeeRuleRepo,
+  classifierRepo,
+  backtestRepo,
+  feedbackRepo,
+  exampleRepo,
+  env.AI_EXAMPLE_TOKEN_BUDGET,
+  categoryGuidanceService,
+  promptTemplateService
+);
+const syncService = new SyncService(
+  actualBudget,
+  suggestionRepo,
+  auditRepo,
+  payeeRuleRepo,
+  transferRepo
+);
+const transferService = new TransferService(
+  actualBudget,
+  transferRepo,
+  auditRepo,
+  env.TRANSFER_MATCH_WINDOW_DAYS
+);
+const recurringPaymentService = new RecurringPaymentService(
+  actualBudget,
+  recurringPaymentRepo,
+  auditRepo
+);
+const cacheService = new CacheService(payeeCache, payeeMatchCache, actualBudget, auditRepo);
+const autoApproveService = new AutoApproveService(
+  autoApprovePolicyRepo,
+  suggestionRepo,
+  syncService,
+  auditRepo
 );
-const syncService = new SyncService(actualBudget, suggestionRepo, auditRepo);
 const jobService = new JobService(jobRepo, jobStepRepo, jobEventRepo, jobEventBus);
 const payeeMergeService = new PayeeMergeService(
   actualBudget,
@@ -92,9 +216,20 @@ const jobOrchestrator = new JobOrchestrator(
   syncService,
   suggestionService,
   snapshotService,
-  payeeMergeService
+  payeeMergeService,
+  autoApproveService,
+  transferService,
+  recurringPaymentService,
+  new JobWorker(jobService, {
+    pollIntervalMs: env.JOB_QUEUE_POLL_INTERVAL_SECONDS * 1000,
+    defaultConcurrency: env.JOB_CONCURRENCY,
+    concurrency: env.JOB_CONCURRENCY_BY_TYPE,
+  }),
+  { ...JOB_RETRY_POLICIES, ...env.JOB_RETRY_POLICIES }
 );
-const jobTimeoutService = new JobTimeoutService(jobRepo, jobStepRepo, jobService);
+const jobTimeoutService = new JobTimeoutService(jobRepo, jobStepRepo, jobService, QUEUED_JOB_TYPES);
+const jobScheduleService = new JobScheduleService(jobScheduleRepo, auditRepo);
+const jobScheduler = new JobScheduler(jobScheduleService, jobOrchestrator);
 
 // Initialize Actual Budget connection
 await actualBudget.initialize();
@@ -150,9 +285,20 @@ const apiRouter = createApiRouter({
   jobService,
   jobOrchestrator,
   jobEventBus,
+  jobScheduleService,
+  jobScheduler,
   auditRepo,
   actualBudget,
   payeeMergeService,
+  autoApproveService,
+  categoryGuidanceService,
+  promptTemplateService,
+  transferService,
+  recurringPaymentService,
+  cacheService,
+  modelRoutingService,
+  aiUsageService,
+  aiOutboundRequestRepo,
   defaultBudgetId: env.ACTUAL_SYNC_ID || env.ACTUAL_BUDGET_ID || null,
   aiConfigured,
   aiBackend: aiAdapter.getBackendName(),
@@ -212,13 +358,21 @@ const server = app.listen(env.PORT, () => {
     nodeEnv: env.NODE_ENV,
   });
 
-  // Start periodic sync scheduler if interval is configured
-  if (env.SYNC_INTERVAL_MINUTES > 0) {
-    startScheduler(env, jobOrchestrator, env.ACTUAL_BUDGET_ID);
-    loggerInstance.info('Periodic sync scheduler enabled', {
+  // Resume jobs interrupted by the last shutdown, then run queued jobs
+  jobOrchestrator.start();
+
+  // Start the cron schedules, creating the default sync schedule on first start
+  const defaultSchedule = jobScheduleService.ensureDefaultSchedule(
+    env.ACTUAL_BUDGET_ID,
+    env.SYNC_INTERVAL_MINUTES
+  );
+  if (defaultSchedule) {
+    loggerInstance.info('Default sync schedule created', {
       intervalMinutes: env.SYNC_INTERVAL_MINUTES,
+      cronExpression: defaultSchedule.cronExpression,
     });
   }
+  jobScheduler.start();
 
   // Start job timeout checks
   if (env.JOB_TIMEOUT_MINUTES > 0) {
@@ -250,6 +404,8 @@ const server = app.listen(env.PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   loggerInstance.info('SIGTERM received, shutting down gracefully');
+  jobScheduler.stop();
+  jobOrchestrator.stop();
   if (jobTimeoutInterval) {
     clearInterval(jobTimeoutInterval);
     jobTimeoutInterval = null;
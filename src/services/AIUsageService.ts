@@ -0,0 +1,158 @@
+import type { AIUsageRepository } from '../infra/repositories/AIUsageRepository.js';
+import type { AIResponseValidationRepository } from '../infra/repositories/AIResponseValidationRepository.js';
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { CompletionUsage } from '../infra/ai/AIAdapter.js';
+import {
+  createAIUsageRecord,
+  startOfMonthUtc,
+  type AIUsageRecord,
+  type JobAIUsage,
+  type ModelPrices,
+  type MonthlyAIUsage,
+} from '../domain/entities/AIUsage.js';
+import {
+  computeValidationStats,
+  createAIResponseValidation,
+  type AIValidationOutcome,
+  type BackendValidationStats,
+} from '../domain/entities/AIResponseValidation.js';
+import type { AITask } from '../domain/entities/ModelRoute.js';
+import { logger } from '../infra/logger.js';
+
+export interface AIUsageConfig {
+  /** Built-in prices merged with AI_MODEL_PRICES */
+  prices: ModelPrices;
+  /** AI_MONTHLY_COST_CAP_USD; null means no cap */
+  monthlyCapUsd: number | null;
+}
+
+/** Spend of the current UTC month against the cap */
+export interface AISpendingStatus {
+  month: string; // YYYY-MM
+  spentUsd: number;
+  monthlyCapUsd: number | null;
+  capReached: boolean;
+}
+
+/**
+ * AIUsageService - records tokens, estimated cost and response validity of AI calls and
+ * enforces the monthly cap
+ * P1 (Single Responsibility): Accounting only; UsageTrackingAIAdapter and ValidatingAIAdapter
+ * report to it around completions
+ */
+export class AIUsageService {
+  /** Month for which the cap has already been announced, so it is audited once */
+  private capAnnouncedMonth: string | null = null;
+
+  constructor(
+    private usageRepo: AIUsageRepository,
+    private validationRepo: AIResponseValidationRepository,
+    private auditRepo: AuditRepository,
+    private config: AIUsageConfig,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  record(
+    usage: CompletionUsage,
+    call: { jobId: string | null; budgetId: string | null; task: AITask | null }
+  ): AIUsageRecord {
+    const record = createAIUsageRecord({
+      ...call,
+      backend: usage.backendId,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      latencyMs: usage.latencyMs,
+      prices: this.config.prices,
+    });
+    this.usageRepo.save(record);
+    return record;
+  }
+
+  recordValidation(validation: {
+    backend: string;
+    task: AITask | null;
+    outcome: AIValidationOutcome;
+    attempts: number;
+    issues: string[];
+  }): void {
+    this.validationRepo.save(createAIResponseValidation(validation));
+  }
+
+  /**
+   * Share of responses per backend that failed schema validation, before and after repairs
+   */
+  getValidationStats(): BackendValidationStats[] {
+    const counts = new Map<string, Record<AIValidationOutcome, number>>();
+    for (const row of this.validationRepo.countByBackend()) {
+      const backendCounts = counts.get(row.backend) ?? { valid: 0, repaired: 0, failed: 0 };
+      backendCounts[row.outcome] = row.count;
+      counts.set(row.backend, backendCounts);
+    }
+    return [...counts].map(([backend, backendCounts]) =>
+      computeValidationStats(backend, backendCounts)
+    );
+  }
+
+  getJobUsage(jobId: string): JobAIUsage {
+    const byTask = this.usageRepo.summarizeJobByTask(jobId);
+    return {
+      jobId,
+      calls: byTask.reduce((sum, entry) => sum + entry.calls, 0),
+      promptTokens: byTask.reduce((sum, entry) => sum + entry.promptTokens, 0),
+      completionTokens: byTask.reduce((sum, entry) => sum + entry.completionTokens, 0),
+      estimatedCostUsd: byTask.reduce((sum, entry) => sum + entry.estimatedCostUsd, 0),
+      unpricedCalls: byTask.reduce((sum, entry) => sum + entry.unpricedCalls, 0),
+      byTask,
+    };
+  }
+
+  /**
+   * Totals for the current month and the months before it, newest first
+   */
+  getMonthlyUsage(months: number): MonthlyAIUsage[] {
+    const now = this.now();
+    const since = startOfMonthUtc(
+      new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1))
+    );
+    return this.usageRepo.summarizeByMonth(since);
+  }
+
+  getSpendingStatus(): AISpendingStatus {
+    const monthStart = startOfMonthUtc(this.now());
+    const spentUsd = this.usageRepo.sumCostSince(monthStart);
+    const monthlyCapUsd = this.config.monthlyCapUsd;
+    return {
+      month: monthStart.slice(0, 7),
+      spentUsd,
+      monthlyCapUsd,
+      capReached: monthlyCapUsd !== null && spentUsd >= monthlyCapUsd,
+    };
+  }
+
+  /**
+   * Whether this month's estimated spend has reached AI_MONTHLY_COST_CAP_USD
+   * Calls already in flight when the cap is reached still complete, so spend can
+   * overshoot by a few calls
+   */
+  isCapReached(): boolean {
+    if (this.config.monthlyCapUsd === null) return false;
+
+    const status = this.getSpendingStatus();
+    if (status.capReached && this.capAnnouncedMonth !== status.month) {
+      this.capAnnouncedMonth = status.month;
+      this.auditRepo.log({
+        eventType: 'ai_spending_cap_reached',
+        entityType: 'AIUsage',
+        entityId: status.month,
+        metadata: { spentUsd: status.spentUsd, monthlyCapUsd: status.monthlyCapUsd },
+      });
+      logger.warn('Monthly AI spending cap reached, AI calls disabled until next month', {
+        month: status.month,
+        spentUsd: status.spentUsd,
+        monthlyCapUsd: status.monthlyCapUsd,
+      });
+    }
+    return status.capReached;
+  }
+}
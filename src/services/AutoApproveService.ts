@@ -0,0 +1,263 @@
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { AutoApprovePolicyRepository } from '../infra/repositories/AutoApprovePolicyRepository.js';
+import type { SuggestionRepository } from '../infra/repositories/SuggestionRepository.js';
+import type { SyncService } from './SyncService.js';
+import {
+  createAutoApprovePolicy,
+  evaluatePolicies,
+  type AutoApproveAction,
+  type AutoApprovePolicy,
+  type AutoApprovePolicyConditions,
+} from '../domain/entities/AutoApprovePolicy.js';
+import type { CategorySuggestionSource } from '../domain/entities/Suggestion.js';
+import { NotFoundError, ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+const ACTIONS: AutoApproveAction[] = ['approve', 'apply', 'never'];
+
+const SOURCES: CategorySuggestionSource[] = [
+  'cache_user_approved',
+  'cache_ai',
+  'payee_history',
+  'fuzzy_match',
+  'local_classifier',
+  'ai_with_context',
+  'ai_web_search',
+];
+
+/** Input accepted when creating or updating a policy */
+export interface AutoApprovePolicyInput {
+  name?: unknown;
+  enabled?: unknown;
+  action?: unknown;
+  conditions?: unknown;
+}
+
+/** Counts from one evaluation pass */
+export interface AutoApproveResult {
+  evaluated: number;
+  approved: number;
+  applied: number;
+  blocked: number;
+}
+
+/**
+ * AutoApproveService - manages per-budget policies and acts on freshly generated suggestions
+ * Automatic approvals do not feed the user-approved payee cache, so policies cannot reinforce
+ * their own guesses
+ */
+export class AutoApproveService {
+  constructor(
+    private policyRepo: AutoApprovePolicyRepository,
+    private suggestionRepo: SuggestionRepository,
+    private syncService: SyncService,
+    private auditRepo: AuditRepository
+  ) {}
+
+  listPolicies(budgetId: string): AutoApprovePolicy[] {
+    return this.policyRepo.findByBudgetId(budgetId);
+  }
+
+  createPolicy(budgetId: string, input: AutoApprovePolicyInput): AutoApprovePolicy {
+    const policy = createAutoApprovePolicy({
+      budgetId,
+      name: this.parseName(input.name),
+      action: this.parseAction(input.action),
+      conditions: this.parseConditions(input.conditions ?? {}),
+      enabled: input.enabled === undefined ? true : this.parseEnabled(input.enabled),
+    });
+    this.policyRepo.save(policy);
+
+    logger.info('Auto-approve policy created', { policyId: policy.id, budgetId });
+    return policy;
+  }
+
+  updatePolicy(policyId: string, input: AutoApprovePolicyInput): AutoApprovePolicy {
+    const existing = this.getPolicy(policyId);
+    const policy: AutoApprovePolicy = {
+      ...existing,
+      name: input.name === undefined ? existing.name : this.parseName(input.name),
+      action: input.action === undefined ? existing.action : this.parseAction(input.action),
+      conditions:
+        input.conditions === undefined
+          ? existing.conditions
+          : this.parseConditions(input.conditions),
+      enabled: input.enabled === undefined ? existing.enabled : this.parseEnabled(input.enabled),
+      updatedAt: new Date().toISOString(),
+    };
+    this.policyRepo.save(policy);
+
+    logger.info('Auto-approve policy updated', { policyId });
+    return policy;
+  }
+
+  deletePolicy(policyId: string): void {
+    if (!this.policyRepo.deleteById(policyId)) {
+      throw new NotFoundError('AutoApprovePolicy', policyId);
+    }
+    logger.info('Auto-approve policy deleted', { policyId });
+  }
+
+  getPolicy(policyId: string): AutoApprovePolicy {
+    const policy = this.policyRepo.findById(policyId);
+    if (!policy) {
+      throw new NotFoundError('AutoApprovePolicy', policyId);
+    }
+    return policy;
+  }
+
+  /**
+   * Evaluate the budget's policies against pending suggestions
+   * Approvals are recorded first; apply decisions are then written to Actual in one batch.
+   * A suggestion whose payee proposal is still pending is approved but not applied.
+   */
+  async evaluatePendingSuggestions(budgetId: string, jobId?: string): Promise<AutoApproveResult> {
+    const result: AutoApproveResult = { evaluated: 0, approved: 0, applied: 0, blocked: 0 };
+    const policies = this.policyRepo.findByBudgetId(budgetId).filter((policy) => policy.enabled);
+    if (policies.length === 0) {
+      return result;
+    }
+
+    const toApply: Array<{ suggestionId: string; policy: AutoApprovePolicy }> = [];
+
+    for (const suggestion of this.suggestionRepo.findWithPendingComponents(budgetId)) {
+      const decision = evaluatePolicies(policies, suggestion);
+      result.evaluated++;
+      if (!decision) continue;
+      if (decision.action === 'never') {
+        result.blocked++;
+        continue;
+      }
+
+      this.suggestionRepo.updateCategoryStatus(suggestion.id, 'approved');
+      result.approved++;
+
+      this.auditRepo.log({
+        eventType: 'suggestion_auto_approved',
+        entityType: 'Suggestion',
+        entityId: suggestion.id,
+        metadata: {
+          budgetId,
+          jobId: jobId ?? null,
+          policyId: decision.policy.id,
+          policyName: decision.policy.name,
+          action: decision.action,
+          categoryId: suggestion.categorySuggestion.proposedCategoryId,
+          categoryName: suggestion.categorySuggestion.proposedCategoryName,
+          confidence: suggestion.categorySuggestion.confidence,
+          source: suggestion.categorySuggestion.source,
+        },
+      });
+
+      if (decision.action === 'apply') {
+        const updated = this.suggestionRepo.findById(suggestion.id);
+        if (updated?.status === 'approved') {
+          toApply.push({ suggestionId: suggestion.id, policy: decision.policy });
+        }
+      }
+    }
+
+    if (toApply.length > 0) {
+      try {
+        await this.syncService.applySpecificSuggestions(
+          budgetId,
+          toApply.map((entry) => entry.suggestionId)
+        );
+        result.applied = toApply.length;
+
+        for (const { suggestionId, policy } of toApply) {
+          this.auditRepo.log({
+            eventType: 'suggestion_auto_applied',
+            entityType: 'Suggestion',
+            entityId: suggestionId,
+            metadata: {
+              budgetId,
+              jobId: jobId ?? null,
+              policyId: policy.id,
+              policyName: policy.name,
+            },
+          });
+        }
+      } catch (error) {
+        // Suggestions stay approved; SyncService has already recorded the failure
+        logger.warn('Auto-apply failed, approved suggestions left for manual apply', {
+          budgetId,
+          count: toApply.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info('Auto-approve policies evaluated', { budgetId, jobId, ...result });
+    return result;
+  }
+
+  private parseName(value: unknown): string {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new ValidationError('name is required');
+    }
+    return value.trim();
+  }
+
+  private parseEnabled(value: unknown): boolean {
+    if (typeof value !== 'boolean') {
+      throw new ValidationError('enabled must be a boolean');
+    }
+    return value;
+  }
+
+  private parseAction(value: unknown): AutoApproveAction {
+    if (!ACTIONS.includes(value as AutoApproveAction)) {
+      throw new ValidationError(`action must be one of: ${ACTIONS.join(', ')}`);
+    }
+    return value as AutoApproveAction;
+  }
+
+  private parseConditions(value: unknown): AutoApprovePolicyConditions {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError('conditions must be an object');
+    }
+    const raw = value as Record<string, unknown>;
+    const conditions: AutoApprovePolicyConditions = {};
+
+    if (raw.sources !== undefined) {
+      if (
+        !Array.isArray(raw.sources) ||
+        raw.sources.length === 0 ||
+        !raw.sources.every((source) => SOURCES.includes(source as CategorySuggestionSource))
+      ) {
+        throw new ValidationError(`sources must be a non-empty array of: ${SOURCES.join(', ')}`);
+      }
+      conditions.sources = raw.sources as CategorySuggestionSource[];
+    }
+
+    if (raw.minConfidence !== undefined) {
+      const minConfidence = raw.minConfidence;
+      if (typeof minConfidence !== 'number' || minConfidence < 0 || minConfidence > 1) {
+        throw new ValidationError('minConfidence must be a number between 0 and 1');
+      }
+      conditions.minConfidence = minConfidence;
+    }
+
+    if (raw.maxAmount !== undefined) {
+      const maxAmount = raw.maxAmount;
+      if (typeof maxAmount !== 'number' || !Number.isInteger(maxAmount) || maxAmount <= 0) {
+        throw new ValidationError('maxAmount must be a positive integer amount in cents');
+      }
+      conditions.maxAmount = maxAmount;
+    }
+
+    if (raw.accountIds !== undefined) {
+      if (
+        !Array.isArray(raw.accountIds) ||
+        raw.accountIds.length === 0 ||
+        !raw.accountIds.every((id) => typeof id === 'string' && id.length > 0)
+      ) {
+        throw new ValidationError('accountIds must be a non-empty array of account IDs');
+      }
+      conditions.accountIds = raw.accountIds as string[];
+    }
+
+    return conditions;
+  }
+}
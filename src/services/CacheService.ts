@@ -0,0 +1,312 @@
+import type { ActualBudgetAdapter } from '../infra/ActualBudgetAdapter.js';
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type {
+  PayeeCacheEntry,
+  PayeeCacheRepository,
+} from '../infra/repositories/PayeeCacheRepository.js';
+import type {
+  PayeeMatchCacheEntry,
+  PayeeMatchCacheRepository,
+} from '../infra/repositories/PayeeMatchCacheRepository.js';
+import { NotFoundError, ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+const CATEGORY_SOURCES: PayeeCacheEntry['source'][] = ['user_approved', 'high_confidence_ai'];
+
+const MATCH_SOURCES: PayeeMatchCacheEntry['source'][] = [
+  'user_approved',
+  'high_confidence_ai',
+  'fuzzy_match',
+];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/** Query accepted when listing either cache */
+export interface CacheListInput {
+  search?: unknown;
+  source?: unknown;
+  limit?: unknown;
+  offset?: unknown;
+}
+
+/** Input accepted when bulk-clearing either cache */
+export interface CacheClearInput {
+  source?: unknown;
+  includePinned?: unknown;
+}
+
+/** Edit accepted for a payee→category entry */
+export interface CategoryCacheUpdateInput {
+  categoryId?: unknown;
+  pinned?: unknown;
+}
+
+/** Edit accepted for a payee match entry */
+export interface PayeeMatchCacheUpdateInput {
+  canonicalPayeeId?: unknown;
+  canonicalPayeeName?: unknown;
+  pinned?: unknown;
+}
+
+/** One page of cache entries plus budget-wide totals */
+export interface CachePage<T> {
+  entries: T[];
+  total: number;
+  stats: { totalEntries: number; totalHits: number };
+}
+
+/**
+ * CacheService - inspection and manual correction of the payee→category and payee match caches
+ * Manual edits are stored as user_approved so a corrected entry is trusted like any approval
+ */
+export class CacheService {
+  constructor(
+    private payeeCache: PayeeCacheRepository,
+    private payeeMatchCache: PayeeMatchCacheRepository,
+    private actualBudget: ActualBudgetAdapter,
+    private auditRepo: AuditRepository
+  ) {}
+
+  listCategoryEntries(budgetId: string, input: CacheListInput): CachePage<PayeeCacheEntry> {
+    const { entries, total } = this.payeeCache.search(budgetId, {
+      ...this.parsePage(input),
+      source: this.parseSource(input.source, CATEGORY_SOURCES),
+    });
+    return { entries, total, stats: this.payeeCache.getStats(budgetId) };
+  }
+
+  /**
+   * Re-point an entry to another category and/or pin it
+   */
+  async updateCategoryEntry(id: number, input: CategoryCacheUpdateInput): Promise<PayeeCacheEntry> {
+    const existing = this.getCategoryEntry(id);
+    const pinned =
+      input.pinned === undefined ? undefined : this.parseBoolean(input.pinned, 'pinned');
+    let category: { id: string; name: string } | undefined;
+
+    if (input.categoryId !== undefined) {
+      if (typeof input.categoryId !== 'string' || input.categoryId.length === 0) {
+        throw new ValidationError('categoryId must be a non-empty string');
+      }
+      const categories = await this.actualBudget.getCategories();
+      category = categories.find((c) => c.id === input.categoryId);
+      if (!category) {
+        throw new ValidationError(`Unknown category: ${input.categoryId}`);
+      }
+    }
+
+    this.payeeCache.update(id, {
+      ...(category && {
+        categoryId: category.id,
+        categoryName: category.name,
+        confidence: 1,
+        source: 'user_approved' as const,
+      }),
+      pinned,
+    });
+
+    this.auditRepo.log({
+      eventType: 'cache_entry_updated',
+      entityType: 'PayeeCacheEntry',
+      entityId: String(id),
+      metadata: {
+        budgetId: existing.budgetId,
+        payeeName: existing.payeeNameOriginal,
+        previousCategoryId: existing.categoryId,
+        previousCategoryName: existing.categoryName,
+        previousSource: existing.source,
+        categoryId: category?.id ?? existing.categoryId,
+        categoryName: category?.name ?? existing.categoryName,
+        pinned: pinned ?? existing.pinned,
+      },
+    });
+
+    logger.info('Payee cache entry updated', { id, categoryId: category?.id, pinned });
+    return this.getCategoryEntry(id);
+  }
+
+  deleteCategoryEntry(id: number): void {
+    const existing = this.getCategoryEntry(id);
+    this.payeeCache.deleteById(id);
+
+    this.auditRepo.log({
+      eventType: 'cache_entry_deleted',
+      entityType: 'PayeeCacheEntry',
+      entityId: String(id),
+      metadata: {
+        budgetId: existing.budgetId,
+        payeeName: existing.payeeNameOriginal,
+        categoryName: existing.categoryName,
+        source: existing.source,
+      },
+    });
+  }
+
+  clearCategoryEntries(budgetId: string, input: CacheClearInput): number {
+    const options = {
+      source: this.parseSource(input.source, CATEGORY_SOURCES),
+      includePinned:
+        input.includePinned === undefined
+          ? false
+          : this.parseBoolean(input.includePinned, 'includePinned'),
+    };
+    const deleted = this.payeeCache.clearEntries(budgetId, options);
+
+    this.auditRepo.log({
+      eventType: 'cache_cleared',
+      entityType: 'PayeeCacheEntry',
+      entityId: budgetId,
+      metadata: { cache: 'payee_category', ...options, deleted },
+    });
+    return deleted;
+  }
+
+  listPayeeMatchEntries(budgetId: string, input: CacheListInput): CachePage<PayeeMatchCacheEntry> {
+    const { entries, total } = this.payeeMatchCache.search(budgetId, {
+      ...this.parsePage(input),
+      source: this.parseSource(input.source, MATCH_SOURCES),
+    });
+    return { entries, total, stats: this.payeeMatchCache.getStats(budgetId) };
+  }
+
+  /**
+   * Re-point an entry to an existing payee (canonicalPayeeId) or a new name, and/or pin it
+   */
+  async updatePayeeMatchEntry(
+    id: number,
+    input: PayeeMatchCacheUpdateInput
+  ): Promise<PayeeMatchCacheEntry> {
+    const existing = this.getPayeeMatchEntry(id);
+    const pinned =
+      input.pinned === undefined ? undefined : this.parseBoolean(input.pinned, 'pinned');
+    let canonical: { id: string | null; name: string } | undefined;
+
+    if (input.canonicalPayeeId !== undefined && input.canonicalPayeeId !== null) {
+      if (typeof input.canonicalPayeeId !== 'string' || input.canonicalPayeeId.length === 0) {
+        throw new ValidationError('canonicalPayeeId must be a non-empty string');
+      }
+      const payees = await this.actualBudget.getPayees();
+      const payee = payees.find((p) => p.id === input.canonicalPayeeId);
+      if (!payee) {
+        throw new ValidationError(`Unknown payee: ${input.canonicalPayeeId}`);
+      }
+      canonical = { id: payee.id, name: payee.name };
+    } else if (input.canonicalPayeeName !== undefined) {
+      if (typeof input.canonicalPayeeName !== 'string' || !input.canonicalPayeeName.trim()) {
+        throw new ValidationError('canonicalPayeeName must be a non-empty string');
+      }
+      canonical = { id: null, name: input.canonicalPayeeName.trim() };
+    }
+
+    this.payeeMatchCache.update(id, {
+      ...(canonical && {
+        canonicalPayeeId: canonical.id,
+        canonicalPayeeName: canonical.name,
+        confidence: 1,
+        source: 'user_approved' as const,
+      }),
+      pinned,
+    });
+
+    this.auditRepo.log({
+      eventType: 'cache_entry_updated',
+      entityType: 'PayeeMatchCacheEntry',
+      entityId: String(id),
+      metadata: {
+        budgetId: existing.budgetId,
+        rawPayeeName: existing.rawPayeeNameOriginal,
+        previousCanonicalPayeeName: existing.canonicalPayeeName,
+        previousSource: existing.source,
+        canonicalPayeeId: canonical ? canonical.id : existing.canonicalPayeeId,
+        canonicalPayeeName: canonical?.name ?? existing.canonicalPayeeName,
+        pinned: pinned ?? existing.pinned,
+      },
+    });
+
+    logger.info('Payee match cache entry updated', { id, canonicalPayeeId: canonical?.id, pinned });
+    return this.getPayeeMatchEntry(id);
+  }
+
+  deletePayeeMatchEntry(id: number): void {
+    const existing = this.getPayeeMatchEntry(id);
+    this.payeeMatchCache.deleteById(id);
+
+    this.auditRepo.log({
+      eventType: 'cache_entry_deleted',
+      entityType: 'PayeeMatchCacheEntry',
+      entityId: String(id),
+      metadata: {
+        budgetId: existing.budgetId,
+        rawPayeeName: existing.rawPayeeNameOriginal,
+        canonicalPayeeName: existing.canonicalPayeeName,
+        source: existing.source,
+      },
+    });
+  }
+
+  clearPayeeMatchEntries(budgetId: string, input: CacheClearInput): number {
+    const options = {
+      source: this.parseSource(input.source, MATCH_SOURCES),
+      includePinned:
+        input.includePinned === undefined
+          ? false
+          : this.parseBoolean(input.includePinned, 'includePinned'),
+    };
+    const deleted = this.payeeMatchCache.clearEntries(budgetId, options);
+
+    this.auditRepo.log({
+      eventType: 'cache_cleared',
+      entityType: 'PayeeMatchCacheEntry',
+      entityId: budgetId,
+      metadata: { cache: 'payee_match', ...options, deleted },
+    });
+    return deleted;
+  }
+
+  private getCategoryEntry(id: number): PayeeCacheEntry {
+    const entry = this.payeeCache.findById(id);
+    if (!entry) {
+      throw new NotFoundError('PayeeCacheEntry', String(id));
+    }
+    return entry;
+  }
+
+  private getPayeeMatchEntry(id: number): PayeeMatchCacheEntry {
+    const entry = this.payeeMatchCache.findById(id);
+    if (!entry) {
+      throw new NotFoundError('PayeeMatchCacheEntry', String(id));
+    }
+    return entry;
+  }
+
+  private parsePage(input: CacheListInput): { search?: string; limit: number; offset: number } {
+    const limit = input.limit === undefined ? DEFAULT_PAGE_SIZE : Number(input.limit);
+    const offset = input.offset === undefined ? 0 : Number(input.offset);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ValidationError('offset must be a non-negative integer');
+    }
+
+    const search = typeof input.search === 'string' ? input.search.trim() : '';
+    return { search: search || undefined, limit, offset };
+  }
+
+  private parseSource<T extends string>(value: unknown, allowed: T[]): T | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (!allowed.includes(value as T)) {
+      throw new ValidationError(`source must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  private parseBoolean(value: unknown, field: string): boolean {
+    if (typeof value !== 'boolean') {
+      throw new ValidationError(`${field} must be a boolean`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,171 @@
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { CategoryGuidanceRepository } from '../infra/repositories/CategoryGuidanceRepository.js';
+import type { AccountCategoryAllowlistRepository } from '../infra/repositories/AccountCategoryAllowlistRepository.js';
+import {
+  createCategoryGuardrails,
+  type AccountCategoryAllowlist,
+  type CategoryGuardrails,
+  type CategoryGuidance,
+} from '../domain/entities/CategoryGuidance.js';
+import { ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_LIST_ENTRIES = 20;
+
+/** Input accepted when describing a category */
+export interface CategoryGuidanceInput {
+  description?: unknown;
+  examplePayees?: unknown;
+  neverSuggestFor?: unknown;
+}
+
+/**
+ * CategoryGuidanceService - per-budget category descriptions, "never suggest for" constraints
+ * and per-account category allowlists
+ * SuggestionService reads them through getGuardrails for prompts and to filter proposals
+ */
+export class CategoryGuidanceService {
+  constructor(
+    private guidanceRepo: CategoryGuidanceRepository,
+    private allowlistRepo: AccountCategoryAllowlistRepository,
+    private auditRepo: AuditRepository
+  ) {}
+
+  listGuidance(budgetId: string): CategoryGuidance[] {
+    return this.guidanceRepo.findByBudgetId(budgetId);
+  }
+
+  listAllowlists(budgetId: string): AccountCategoryAllowlist[] {
+    return this.allowlistRepo.findByBudgetId(budgetId);
+  }
+
+  getGuardrails(budgetId: string): CategoryGuardrails {
+    return createCategoryGuardrails(this.listGuidance(budgetId), this.listAllowlists(budgetId));
+  }
+
+  /**
+   * Replace the guidance of a category; fields left out are cleared
+   */
+  setGuidance(
+    budgetId: string,
+    categoryId: string,
+    input: CategoryGuidanceInput
+  ): CategoryGuidance {
+    const guidance: CategoryGuidance = {
+      budgetId,
+      categoryId,
+      description: this.parseDescription(input.description),
+      examplePayees: this.parseList('examplePayees', input.examplePayees, MAX_LIST_ENTRIES),
+      neverSuggestFor: this.parseList('neverSuggestFor', input.neverSuggestFor, MAX_LIST_ENTRIES),
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (
+      guidance.description === null &&
+      guidance.examplePayees.length === 0 &&
+      guidance.neverSuggestFor.length === 0
+    ) {
+      throw new ValidationError('description, examplePayees or neverSuggestFor is required');
+    }
+
+    this.guidanceRepo.save(guidance);
+
+    this.auditRepo.log({
+      eventType: 'category_guidance_updated',
+      entityType: 'CategoryGuidance',
+      entityId: categoryId,
+      metadata: {
+        budgetId,
+        description: guidance.description,
+        examplePayees: guidance.examplePayees,
+        neverSuggestFor: guidance.neverSuggestFor,
+      },
+    });
+    logger.info('Category guidance updated', { budgetId, categoryId });
+
+    return guidance;
+  }
+
+  clearGuidance(budgetId: string, categoryId: string): void {
+    if (this.guidanceRepo.delete(budgetId, categoryId)) {
+      this.auditRepo.log({
+        eventType: 'category_guidance_cleared',
+        entityType: 'CategoryGuidance',
+        entityId: categoryId,
+        metadata: { budgetId },
+      });
+    }
+  }
+
+  /**
+   * Restrict an account's transactions to the given categories
+   */
+  setAllowlist(
+    budgetId: string,
+    accountId: string,
+    categoryIds: unknown
+  ): AccountCategoryAllowlist {
+    const ids = this.parseList('categoryIds', categoryIds);
+    if (ids.length === 0) {
+      throw new ValidationError('categoryIds must list at least one category');
+    }
+
+    const allowlist: AccountCategoryAllowlist = {
+      budgetId,
+      accountId,
+      categoryIds: ids,
+      updatedAt: new Date().toISOString(),
+    };
+    this.allowlistRepo.save(allowlist);
+
+    this.auditRepo.log({
+      eventType: 'account_category_allowlist_updated',
+      entityType: 'AccountCategoryAllowlist',
+      entityId: accountId,
+      metadata: { budgetId, categoryIds: ids },
+    });
+    logger.info('Account category allowlist updated', {
+      budgetId,
+      accountId,
+      categoryCount: ids.length,
+    });
+
+    return allowlist;
+  }
+
+  clearAllowlist(budgetId: string, accountId: string): void {
+    if (this.allowlistRepo.delete(budgetId, accountId)) {
+      this.auditRepo.log({
+        eventType: 'account_category_allowlist_cleared',
+        entityType: 'AccountCategoryAllowlist',
+        entityId: accountId,
+        metadata: { budgetId },
+      });
+    }
+  }
+
+  private parseDescription(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') {
+      throw new ValidationError('description must be a string');
+    }
+    if (value.length > MAX_DESCRIPTION_LENGTH) {
+      throw new ValidationError(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    return value.trim() || null;
+  }
+
+  /** Trimmed, de-duplicated, non-empty strings */
+  private parseList(field: string, value: unknown, maxEntries = Infinity): string[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+      throw new ValidationError(`${field} must be an array of strings`);
+    }
+    const entries = [...new Set(value.map((entry: string) => entry.trim()).filter(Boolean))];
+    if (entries.length > maxEntries) {
+      throw new ValidationError(`${field} must have at most ${maxEntries} entries`);
+    }
+    return entries;
+  }
+}
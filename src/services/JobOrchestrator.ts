@@ -1,44 +1,108 @@
 import { logger } from '../infra/logger.js';
+import { runWithAICallContext } from '../infra/ai/aiCallContext.js';
 import type { SuggestionService } from './SuggestionService.js';
 import type { PayeeMergeService } from './PayeeMergeService.js';
 import type { JobService } from './JobService.js';
 import type { SyncService } from './SyncService.js';
 import type { SnapshotService } from './SnapshotService.js';
-import type { Job } from '../domain/entities/Job.js';
+import type { AutoApproveService } from './AutoApproveService.js';
+import type { TransferService } from './TransferService.js';
+import type { RecurringPaymentService } from './RecurringPaymentService.js';
+import {
+  JOB_RETRY_POLICIES,
+  getJobAttempt,
+  getJobParameters,
+  getRetryDelayMs,
+  type CancellationToken,
+  type Job,
+  type JobCheckpoint,
+  type JobRetryPolicy,
+  type JobType,
+} from '../domain/entities/Job.js';
 import type { JobStep } from '../domain/entities/JobStep.js';
+import type { ScheduleJobType, ScheduleOptions } from '../domain/entities/JobSchedule.js';
+import { ValidationError, isAppError } from '../domain/errors.js';
+import { JobWorker } from './JobWorker.js';
+
+const CANCELED_REASON = 'Canceled by user';
+const REPLACED_BY_RETRY_REASON = 'Replaced by a manual retry';
+
+/**
+ * Job types run from the queue; templates_apply and payees_merge run inside their request
+ * and cannot be resumed after a restart
+ */
+export const QUEUED_JOB_TYPES: readonly JobType[] = [
+  'budget_sync',
+  'suggestions_generate',
+  'sync_and_suggest',
+  'suggestions_retry_payee',
+  'suggestions_apply',
+  'suggestions_backtest',
+  'suggestions_recategorize',
+  'transfers_detect',
+  'recurring_detect',
+  'payees_merge_suggestions_generate',
+  'snapshot_create',
+  'snapshot_redownload',
+  'scheduled_sync_and_suggest',
+];
+
+/** What a job's work finished; recorded in the job metadata when the job is canceled */
+type CompletedWork = Record<string, unknown> | void;
+
+function metadataNumber(job: Job, key: string): number | undefined {
+  const value = job.metadata?.[key];
+  return typeof value === 'number' ? value : undefined;
+}
 
 /**
  * JobOrchestrator - coordinates job execution and step ordering
  * P5 (Separation of concerns): Orchestration separate from job lifecycle updates
+ *
+ * Jobs are stored queued with their parameters in the metadata and started by the JobWorker,
+ * so jobs interrupted by a restart run again instead of staying stuck as running.
  */
 export class JobOrchestrator {
-  private readonly scheduledRetryDelays = [60000, 300000, 900000]; // 1min, 5min, 15min
+  private readonly cancellations = new Map<string, { isCanceled: boolean }>();
+
+  private readonly worker: JobWorker;
 
   constructor(
     private jobService: JobService,
     private syncService: SyncService,
     private suggestionService: SuggestionService,
     private snapshotService: SnapshotService,
-    private payeeMergeService: PayeeMergeService
-  ) {}
+    private payeeMergeService: PayeeMergeService,
+    private autoApproveService?: AutoApproveService,
+    private transferService?: TransferService,
+    private recurringPaymentService?: RecurringPaymentService,
+    worker?: JobWorker,
+    private retryPolicies: Partial<Record<JobType, JobRetryPolicy>> = JOB_RETRY_POLICIES
+  ) {
+    this.worker = worker ?? new JobWorker(jobService);
+  }
+
+  /**
+   * Start running queued jobs, after resuming the ones a previous process left running
+   */
+  start(): void {
+    this.worker.start({ types: QUEUED_JOB_TYPES, run: (job) => this.runJob(job) });
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
 
   startBudgetSyncJob(budgetId: string): { job: Job } {
-    const job = this.jobService.createJob({ budgetId, type: 'budget_sync' });
-    this.runSingleJob(job, async () => {
-      await this.syncService.syncBudget(budgetId);
-    });
-    return { job };
+    return { job: this.enqueueJob({ budgetId, type: 'budget_sync' }) };
   }
 
   startSuggestionsGenerateJob(params: { budgetId: string; useAI?: boolean }): { job: Job } {
-    const job = this.jobService.createJob({
+    const job = this.enqueueJob({
       budgetId: params.budgetId,
       type: 'suggestions_generate',
       metadata: { useAI: params.useAI === true },
     });
-    this.runSingleJob(job, async () => {
-      await this.suggestionService.generateSuggestions(params.budgetId, params.useAI === true);
-    });
     return { job };
   }
 
@@ -52,41 +116,84 @@ export class JobOrchestrator {
       metadata: { fullResync: params.fullResync === true, useAI: params.useAI === true },
     });
 
+    // A coalesced request gets the queued job back with the steps it already has
+    const existing = this.jobService.listJobSteps(job.id);
+    if (existing.length > 0) {
+      return { job, steps: existing };
+    }
+
     const steps = [
       this.jobService.createJobStep({ jobId: job.id, stepType: 'sync', position: 1 }),
       this.jobService.createJobStep({ jobId: job.id, stepType: 'suggestions', position: 2 }),
     ];
 
-    this.runCombinedJob(job, steps, params.fullResync === true, params.useAI === true);
+    this.worker.wake();
     return { job, steps };
   }
 
   startSuggestionsRetryJob(params: { budgetId: string; suggestionId: string; useAI?: boolean }): {
     job: Job;
   } {
-    const job = this.jobService.createJob({
+    const job = this.enqueueJob({
       budgetId: params.budgetId,
       type: 'suggestions_retry_payee',
       metadata: { suggestionId: params.suggestionId, useAI: params.useAI === true },
     });
-    this.runSingleJob(job, async () => {
-      await this.suggestionService.retryPayeeGroup(params.suggestionId, params.useAI === true);
-    });
     return { job };
   }
 
   startSuggestionsApplyJob(budgetId: string, suggestionIds: string[]): { job: Job } {
-    const job = this.jobService.createJob({
+    const job = this.enqueueJob({
       budgetId,
       type: 'suggestions_apply',
       metadata: { suggestionIds },
     });
-    this.runSingleJob(job, async () => {
-      await this.syncService.applySpecificSuggestions(budgetId, suggestionIds);
+    return { job };
+  }
+
+  startSuggestionsBacktestJob(params: { budgetId: string; sampleSize: number; useAI?: boolean }): {
+    job: Job;
+  } {
+    const job = this.enqueueJob({
+      budgetId: params.budgetId,
+      type: 'suggestions_backtest',
+      metadata: { sampleSize: params.sampleSize, useAI: params.useAI === true },
+    });
+    return { job };
+  }
+
+  startRecategorizationReviewJob(params: { budgetId: string; lookbackDays?: number }): {
+    job: Job;
+  } {
+    const job = this.enqueueJob({
+      budgetId: params.budgetId,
+      type: 'suggestions_recategorize',
+      metadata: { lookbackDays: params.lookbackDays },
     });
     return { job };
   }
 
+  startTransferDetectionJob(params: { budgetId: string; windowDays?: number }): { job: Job } {
+    if (!this.transferService) {
+      throw new Error('Transfer detection is not configured');
+    }
+
+    const job = this.enqueueJob({
+      budgetId: params.budgetId,
+      type: 'transfers_detect',
+      metadata: { windowDays: params.windowDays },
+    });
+    return { job };
+  }
+
+  startRecurringDetectionJob(budgetId: string): { job: Job } {
+    if (!this.recurringPaymentService) {
+      throw new Error('Recurring payment detection is not configured');
+    }
+
+    return { job: this.enqueueJob({ budgetId, type: 'recurring_detect' }) };
+  }
+
   startPayeeMergeSuggestionsJob(params: {
     budgetId: string;
     minScore?: number;
@@ -94,7 +201,7 @@ export class JobOrchestrator {
     force?: boolean;
     aiMinClusterSize?: number;
   }): { job: Job } {
-    const job = this.jobService.createJob({
+    const job = this.enqueueJob({
       budgetId: params.budgetId,
       type: 'payees_merge_suggestions_generate',
       metadata: {
@@ -104,122 +211,468 @@ export class JobOrchestrator {
         aiMinClusterSize: params.aiMinClusterSize,
       },
     });
-
-    this.runSingleJob(job, async () => {
-      await this.payeeMergeService.generateMergeClusters({
-        budgetId: params.budgetId,
-        minScore: params.minScore,
-        useAI: params.useAI === true,
-        force: params.force === true,
-        aiMinClusterSize: params.aiMinClusterSize,
-      });
-    });
-
     return { job };
   }
 
   startSnapshotCreateJob(budgetId: string): { job: Job } {
-    const job = this.jobService.createJob({ budgetId, type: 'snapshot_create' });
-    this.runSingleJob(job, async () => {
-      await this.snapshotService.createSnapshot(budgetId);
-    });
-    return { job };
+    return { job: this.enqueueJob({ budgetId, type: 'snapshot_create' }) };
   }
 
   startSnapshotRedownloadJob(budgetId: string): { job: Job } {
-    const job = this.jobService.createJob({
+    const job = this.enqueueJob({
       budgetId,
       type: 'snapshot_redownload',
       metadata: { redownload: true },
     });
-    this.runSingleJob(job, async () => {
-      await this.snapshotService.createSnapshot(budgetId);
+    return { job };
+  }
+
+  /**
+   * Queue the job a schedule came due for; the schedule's options become the job parameters
+   */
+  startScheduledJob(params: {
+    budgetId: string;
+    type: ScheduleJobType;
+    options: ScheduleOptions;
+    scheduleId: string;
+  }): { job: Job } {
+    const job = this.enqueueJob({
+      budgetId: params.budgetId,
+      type: params.type,
+      metadata: { ...params.options, trigger: 'scheduled', scheduleId: params.scheduleId },
     });
     return { job };
   }
 
-  startScheduledSyncAndSuggestJob(budgetId: string): { job: Job } {
-    const job = this.jobService.createJob({
-      budgetId,
-      type: 'scheduled_sync_and_suggest',
-      metadata: { trigger: 'scheduled' },
+  /**
+   * Cancel a queued job, or a job running in this server
+   * Queued jobs are canceled right away. Running jobs stop at their next checkpoint (between
+   * payee batches, suggestions or clusters) and keep what they already finished; work without
+   * checkpoints runs to the end of its current step.
+   */
+  cancelJob(jobId: string): Job {
+    const job = this.jobService.getJob(jobId);
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new ValidationError(`Job is already ${job.status}`);
+    }
+
+    if (job.status === 'queued') {
+      this.jobService.markJobCanceled(jobId, CANCELED_REASON);
+      return this.jobService.getJob(jobId);
+    }
+
+    const cancellation = this.cancellations.get(jobId);
+    if (!cancellation) {
+      throw new ValidationError('Job is not running in this server and cannot be canceled');
+    }
+
+    cancellation.isCanceled = true;
+    this.jobService.mergeJobMetadata(jobId, { cancelRequestedAt: new Date().toISOString() });
+    logger.info('Job cancellation requested', { jobId });
+    return this.jobService.getJob(jobId);
+  }
+
+  /**
+   * Queue the work of a failed or canceled job again as a new job linked through parentJobId
+   * With fromFailedStep, a multi-step job starts at the step that failed and generation skips
+   * the payees the failed job already finished. An automatic retry of the job still waiting
+   * in the queue is canceled, so the work does not run twice
+   */
+  retryJob(
+    jobId: string,
+    options: { fromFailedStep?: boolean } = {}
+  ): {
+    job: Job;
+    steps: JobStep[];
+  } {
+    const original = this.jobService.getJob(jobId);
+    if (original.status !== 'failed' && original.status !== 'canceled') {
+      throw new ValidationError(
+        `Only failed or canceled jobs can be retried; this job is ${original.status}`
+      );
+    }
+    if (!QUEUED_JOB_TYPES.includes(original.type)) {
+      throw new ValidationError(`${original.type} jobs cannot be retried; start them again`);
+    }
+    if (options.fromFailedStep && !this.findFailedStep(this.jobService.listJobSteps(jobId))) {
+      throw new ValidationError('Job has no failed step to resume from');
+    }
+
+    for (const waiting of this.jobService.listJobsByStatus('queued')) {
+      if (waiting.parentJobId === original.id) {
+        this.jobService.markJobCanceled(waiting.id, REPLACED_BY_RETRY_REASON);
+      }
+    }
+
+    return this.enqueueRetry(original, {
+      fromFailedStep: options.fromFailedStep === true,
+      keepCheckpoint: options.fromFailedStep === true,
+      attempt: 1,
     });
+  }
 
-    this.runScheduledJob(job, async () => {
-      await this.suggestionService.syncAndGenerateSuggestions(budgetId);
+  /**
+   * Store a job in the queue with everything needed to run it, and let the worker know
+   */
+  private enqueueJob(params: {
+    budgetId: string;
+    type: JobType;
+    metadata?: Record<string, unknown>;
+  }): Job {
+    const job = this.jobService.createJob(params);
+    this.worker.wake();
+    return job;
+  }
+
+  private enqueueRetry(
+    original: Job,
+    options: { fromFailedStep: boolean; keepCheckpoint: boolean; attempt: number; runAfter?: Date }
+  ): { job: Job; steps: JobStep[] } {
+    const originalSteps = this.jobService.listJobSteps(original.id);
+    const failedStep = options.fromFailedStep ? this.findFailedStep(originalSteps) : undefined;
+    const checkpoint = original.metadata?.checkpoint;
+
+    const job = this.jobService.createJob({
+      budgetId: original.budgetId,
+      type: original.type,
+      metadata: {
+        ...getJobParameters(original),
+        ...(options.attempt > 1 ? { attempt: options.attempt } : {}),
+        ...(options.runAfter ? { runAfter: options.runAfter.toISOString() } : {}),
+        ...(options.keepCheckpoint && Array.isArray(checkpoint) ? { checkpoint } : {}),
+      },
+      parentJobId: original.id,
     });
 
-    return { job };
+    // A coalesced request gets the queued job back with the steps it already has
+    const existing = this.jobService.listJobSteps(job.id);
+    if (existing.length > 0) {
+      return { job, steps: existing };
+    }
+
+    const steps = originalSteps
+      .filter((step) => !failedStep || step.position >= failedStep.position)
+      .map((step) =>
+        this.jobService.createJobStep({
+          jobId: job.id,
+          stepType: step.stepType,
+          position: step.position,
+        })
+      );
+
+    this.worker.wake();
+    return { job, steps };
+  }
+
+  private findFailedStep(steps: JobStep[]): JobStep | undefined {
+    return steps.find((step) => step.status === 'failed' || step.status === 'canceled');
+  }
+
+  /**
+   * Run a job the worker claimed, reading its parameters back from the job metadata
+   */
+  private runJob(job: Job): Promise<void> {
+    if (job.type === 'sync_and_suggest') {
+      return this.runInJobContext(job, (cancellation) => this.runCombinedJob(job, cancellation));
+    }
+    return this.runInJobContext(job, (cancellation) =>
+      this.runSingleJob(job, () => this.runWork(job, cancellation), cancellation)
+    );
   }
 
-  private runSingleJob(job: Job, fn: () => Promise<void>): void {
-    setImmediate(async () => {
-      try {
-        this.jobService.markJobRunning(job.id);
-        await fn();
-        this.jobService.markJobSucceeded(job.id);
-      } catch (error) {
-        const reason = this.formatFailureReason(error);
-        logger.error('Job execution failed', { jobId: job.id, error: reason });
-        this.jobService.markJobFailed(job.id, reason);
+  private async runWork(job: Job, cancellation: CancellationToken): Promise<CompletedWork> {
+    const budgetId = job.budgetId;
+    const useAI = job.metadata?.useAI === true;
+
+    switch (job.type) {
+      case 'budget_sync':
+        await this.syncService.syncBudget(budgetId);
+        return;
+      case 'suggestions_generate': {
+        const suggestions = await this.trackAIBackends(job.id, () =>
+          this.suggestionService.generateSuggestions(
+            budgetId,
+            useAI,
+            cancellation,
+            this.createCheckpoint(job)
+          )
+        );
+        if (cancellation.isCanceled) {
+          return { suggestionsCreated: suggestions.length };
+        }
+        await this.runAutoApprovePolicies(budgetId, job.id);
+        return;
       }
-    });
+      case 'suggestions_retry_payee':
+        await this.trackAIBackends(job.id, () =>
+          this.suggestionService.retryPayeeGroup(String(job.metadata?.suggestionId), useAI)
+        );
+        return;
+      case 'suggestions_apply': {
+        const suggestionIds = job.metadata?.suggestionIds;
+        const { applied, rulesCreated, transfersLinked } =
+          await this.syncService.applySpecificSuggestions(
+            budgetId,
+            Array.isArray(suggestionIds) ? suggestionIds.map(String) : [],
+            cancellation
+          );
+        return { applied, rulesCreated, transfersLinked };
+      }
+      case 'suggestions_backtest':
+        await this.trackAIBackends(job.id, () =>
+          this.suggestionService.runBacktest(budgetId, {
+            sampleSize: Number(job.metadata?.sampleSize),
+            useAI,
+            jobId: job.id,
+          })
+        );
+        return;
+      case 'suggestions_recategorize':
+        await this.suggestionService.reviewCategorizedTransactions(budgetId, {
+          lookbackDays: metadataNumber(job, 'lookbackDays'),
+        });
+        return;
+      case 'transfers_detect':
+        if (!this.transferService) {
+          throw new Error('Transfer detection is not configured');
+        }
+        await this.transferService.detectTransfers(budgetId, {
+          windowDays: metadataNumber(job, 'windowDays'),
+        });
+        return;
+      case 'recurring_detect':
+        if (!this.recurringPaymentService) {
+          throw new Error('Recurring payment detection is not configured');
+        }
+        await this.recurringPaymentService.detectRecurringPayments(budgetId);
+        return;
+      case 'payees_merge_suggestions_generate': {
+        const clusters = await this.payeeMergeService.generateMergeClusters({
+          budgetId,
+          minScore: metadataNumber(job, 'minScore'),
+          useAI,
+          force: job.metadata?.force === true,
+          aiMinClusterSize: metadataNumber(job, 'aiMinClusterSize'),
+          cancellation,
+        });
+        return { clusters: clusters.length };
+      }
+      case 'scheduled_sync_and_suggest': {
+        const suggestions = await this.trackAIBackends(job.id, () =>
+          this.suggestionService.syncAndGenerateSuggestions(
+            budgetId,
+            false,
+            job.metadata?.useAI !== false,
+            cancellation,
+            this.createCheckpoint(job)
+          )
+        );
+        if (cancellation.isCanceled) {
+          return { suggestionsCreated: suggestions.length };
+        }
+        await this.runAutoApprovePolicies(budgetId, job.id);
+        return;
+      }
+      case 'snapshot_create':
+      case 'snapshot_redownload':
+        await this.snapshotService.createSnapshot(budgetId);
+        return;
+      default:
+        throw new Error(`Job type ${job.type} cannot run from the queue`);
+    }
+  }
+
+  private async runSingleJob(
+    job: Job,
+    fn: () => Promise<CompletedWork>,
+    cancellation: CancellationToken
+  ): Promise<void> {
+    try {
+      const completed = await fn();
+      this.completeJob(job.id, cancellation, completed);
+    } catch (error) {
+      this.failJob(job, cancellation, error);
+    }
   }
 
-  private runCombinedJob(job: Job, steps: JobStep[], fullResync: boolean, useAI: boolean): void {
-    setImmediate(async () => {
-      try {
-        this.jobService.markJobRunning(job.id);
-        await this.executeStep(steps[0], async () => {
+  /**
+   * Sync, then generate suggestions; a resumed job skips the steps it already finished and a
+   * job retried from its failed step has no sync step
+   */
+  private async runCombinedJob(job: Job, cancellation: CancellationToken): Promise<void> {
+    const steps = this.jobService.listJobSteps(job.id);
+    const syncStep = steps.find((step) => step.stepType === 'sync');
+    const suggestionsStep = steps.find((step) => step.stepType === 'suggestions');
+    const fullResync = job.metadata?.fullResync === true;
+    const useAI = job.metadata?.useAI === true;
+
+    try {
+      if (syncStep && syncStep.status !== 'succeeded') {
+        await this.executeStep(syncStep, async () => {
           await this.syncService.syncBudget(job.budgetId);
         });
+      }
 
-        await this.executeStep(steps[1], async () => {
-          if (fullResync) {
-            await this.suggestionService.syncAndGenerateSuggestions(job.budgetId, true, useAI);
-          } else {
-            await this.suggestionService.syncAndGenerateSuggestions(job.budgetId, false, useAI);
-          }
-        });
+      if (!suggestionsStep || suggestionsStep.status === 'succeeded') {
+        this.completeJob(job.id, cancellation);
+        return;
+      }
 
-        this.jobService.markJobSucceeded(job.id);
-      } catch (error) {
-        const reason = this.formatFailureReason(error);
-        logger.error('Combined job execution failed', { jobId: job.id, error: reason });
-        this.jobService.markJobFailed(job.id, reason);
+      if (cancellation.isCanceled) {
+        this.jobService.markStepCanceled(suggestionsStep.id, CANCELED_REASON);
+        this.completeJob(job.id, cancellation, { synced: true });
+        return;
       }
+
+      let completed: CompletedWork = undefined;
+      await this.executeStep(suggestionsStep, async () => {
+        const suggestions = await this.trackAIBackends(job.id, () =>
+          this.suggestionService.syncAndGenerateSuggestions(
+            job.budgetId,
+            fullResync,
+            useAI,
+            cancellation,
+            this.createCheckpoint(job)
+          )
+        );
+        if (cancellation.isCanceled) {
+          completed = { synced: true, suggestionsCreated: suggestions.length };
+          return;
+        }
+        await this.runAutoApprovePolicies(job.budgetId, job.id);
+      });
+
+      this.completeJob(job.id, cancellation, completed);
+    } catch (error) {
+      this.failJob(job, cancellation, error);
+    }
+  }
+
+  /**
+   * Mark a job failed and queue its automatic retry when its type has a retry policy
+   * A job that fails after cancellation was requested counts as canceled
+   */
+  private failJob(job: Job, cancellation: CancellationToken, error: unknown): void {
+    if (cancellation.isCanceled) {
+      this.completeJob(job.id, cancellation);
+      return;
+    }
+
+    const reason = this.formatFailureReason(error);
+    logger.error('Job execution failed', { jobId: job.id, type: job.type, error: reason });
+    this.jobService.markJobFailed(job.id, reason);
+
+    // Bad input or missing data fails the same way every time
+    if (isAppError(error) && error.statusCode < 500) return;
+
+    const policy = this.retryPolicies[job.type];
+    const attempt = getJobAttempt(job);
+    const delayMs = policy ? getRetryDelayMs(policy, attempt) : null;
+    if (delayMs === null) return;
+
+    // The checkpoint names payees, not transactions: one synced before the retry runs would
+    // be skipped, so automatic retries generate for every payee again
+    try {
+      const retry = this.enqueueRetry(this.jobService.getJob(job.id), {
+        fromFailedStep: true,
+        keepCheckpoint: false,
+        attempt: attempt + 1,
+        runAfter: new Date(Date.now() + delayMs),
+      });
+      logger.warn('Job retry scheduled', {
+        jobId: job.id,
+        retryJobId: retry.job.id,
+        attempt: attempt + 1,
+        delayMs,
+      });
+    } catch (retryError) {
+      logger.error('Failed to schedule job retry', {
+        jobId: job.id,
+        error: this.formatFailureReason(retryError),
+      });
+    }
+  }
+
+  /**
+   * Run fn with the job attached to every AI call it makes, so AI usage is recorded against
+   * the job
+   * The job's cancellation token lives until fn settles
+   */
+  private runInJobContext(
+    job: Job,
+    fn: (cancellation: CancellationToken) => Promise<void>
+  ): Promise<void> {
+    const cancellation = { isCanceled: false };
+    this.cancellations.set(job.id, cancellation);
+    return runWithAICallContext({ jobId: job.id }, () => fn(cancellation)).finally(() => {
+      this.cancellations.delete(job.id);
     });
   }
 
-  private runScheduledJob(job: Job, fn: () => Promise<void>): void {
-    setImmediate(async () => {
-      let attempt = 0;
-      try {
-        this.jobService.markJobRunning(job.id);
-        while (true) {
-          try {
-            await fn();
-            this.jobService.markJobSucceeded(job.id);
-            return;
-          } catch (error) {
-            const reason = this.formatFailureReason(error);
-            if (attempt >= this.scheduledRetryDelays.length) {
-              logger.error('Scheduled job failed after retries', { jobId: job.id, error: reason });
-              this.jobService.markJobFailed(job.id, reason);
-              return;
-            }
-            const delay = this.scheduledRetryDelays[attempt];
-            attempt += 1;
-            logger.warn('Scheduled job retrying', { jobId: job.id, attempt, delayMs: delay });
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-        }
-      } catch (error) {
-        const reason = this.formatFailureReason(error);
-        logger.error('Scheduled job execution failed', { jobId: job.id, error: reason });
-        this.jobService.markJobFailed(job.id, reason);
+  /**
+   * Payees finished by earlier runs of the job, saved in its metadata as each one completes
+   */
+  private createCheckpoint(job: Job): JobCheckpoint {
+    const stored = this.jobService.getJob(job.id).metadata?.checkpoint;
+    const done = new Set(Array.isArray(stored) ? stored.map(String) : []);
+    return {
+      isDone: (key) => done.has(key),
+      markDone: (key) => {
+        done.add(key);
+        this.jobService.mergeJobMetadata(job.id, { checkpoint: [...done] });
+      },
+    };
+  }
+
+  /**
+   * Mark a job succeeded, or canceled with what it finished when cancellation was requested
+   */
+  private completeJob(
+    jobId: string,
+    cancellation: CancellationToken,
+    completed?: CompletedWork
+  ): void {
+    if (!cancellation.isCanceled) {
+      this.jobService.markJobSucceeded(jobId);
+      return;
+    }
+    if (completed) {
+      this.jobService.mergeJobMetadata(jobId, { completedBeforeCancel: completed });
+    }
+    this.jobService.markJobCanceled(jobId, CANCELED_REASON);
+  }
+
+  /**
+   * Act on freshly generated suggestions per the budget's auto-approve policies
+   * Policy failures are logged but never fail the generation job itself
+   */
+  private async runAutoApprovePolicies(budgetId: string, jobId: string): Promise<void> {
+    if (!this.autoApproveService) return;
+    try {
+      await this.autoApproveService.evaluatePendingSuggestions(budgetId, jobId);
+    } catch (error) {
+      logger.error('Auto-approve evaluation failed', {
+        jobId,
+        budgetId,
+        error: this.formatFailureReason(error),
+      });
+    }
+  }
+
+  /**
+   * Record in the job metadata which AI backends answered while fn ran
+   * Only calls made in this job's AI call context are counted, so overlapping jobs keep their own
+   */
+  private async trackAIBackends<T>(jobId: string, fn: () => Promise<T>): Promise<T> {
+    this.suggestionService.startCountingAIBackends(jobId);
+    try {
+      return await fn();
+    } finally {
+      const aiBackends = this.suggestionService.stopCountingAIBackends(jobId);
+      if (Object.keys(aiBackends).length > 0) {
+        this.jobService.mergeJobMetadata(jobId, { aiBackends });
       }
-    });
+    }
   }
 
   private async executeStep(step: JobStep, fn: () => Promise<void>): Promise<void> {
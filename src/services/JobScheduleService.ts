@@ -0,0 +1,321 @@
+import cron from 'node-cron';
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { JobScheduleRepository } from '../infra/repositories/JobScheduleRepository.js';
+import {
+  SCHEDULABLE_JOB_TYPES,
+  SCHEDULE_JOB_OPTIONS,
+  createJobSchedule,
+  createJobScheduleRun,
+  intervalToCronExpression,
+  isScheduleJobType,
+  parseTimeOfDay,
+  type JobSchedule,
+  type JobScheduleRun,
+  type JobScheduleRunStatus,
+  type ScheduleJobType,
+  type ScheduleOptions,
+} from '../domain/entities/JobSchedule.js';
+import { ConfigError, NotFoundError, ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+const DEFAULT_RUN_HISTORY_LIMIT = 50;
+
+/** Input accepted when creating or updating a schedule */
+export interface JobScheduleInput {
+  name?: unknown;
+  cronExpression?: unknown;
+  jobType?: unknown;
+  options?: unknown;
+  enabled?: unknown;
+  quietHoursStart?: unknown;
+  quietHoursEnd?: unknown;
+}
+
+/**
+ * JobScheduleService - per-budget cron schedules that start jobs, and their run history
+ * JobScheduler listens for changes and re-registers the affected schedule
+ */
+export class JobScheduleService {
+  private readonly listeners = new Set<(scheduleId: string) => void>();
+
+  constructor(
+    private scheduleRepo: JobScheduleRepository,
+    private auditRepo: AuditRepository
+  ) {}
+
+  /**
+   * Be told when a schedule is created, updated or deleted
+   */
+  onChange(listener: (scheduleId: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  listSchedules(budgetId: string): JobSchedule[] {
+    return this.scheduleRepo.findByBudgetId(budgetId);
+  }
+
+  listEnabledSchedules(): JobSchedule[] {
+    return this.scheduleRepo.findEnabled();
+  }
+
+  getSchedule(scheduleId: string): JobSchedule {
+    const schedule = this.scheduleRepo.findById(scheduleId);
+    if (!schedule) {
+      throw new NotFoundError('JobSchedule', scheduleId);
+    }
+    return schedule;
+  }
+
+  findSchedule(scheduleId: string): JobSchedule | null {
+    return this.scheduleRepo.findById(scheduleId);
+  }
+
+  createSchedule(budgetId: string, input: JobScheduleInput): JobSchedule {
+    const jobType = this.parseJobType(input.jobType);
+    const quietHours = this.parseQuietHours(input.quietHoursStart, input.quietHoursEnd);
+    const schedule = createJobSchedule({
+      budgetId,
+      name: this.parseName(input.name),
+      cronExpression: this.parseCronExpression(input.cronExpression),
+      jobType,
+      options: this.parseOptions(jobType, input.options ?? {}),
+      enabled: input.enabled === undefined ? true : this.parseEnabled(input.enabled),
+      ...quietHours,
+    });
+    this.scheduleRepo.save(schedule);
+
+    this.recordChange('job_schedule_created', schedule);
+    logger.info('Job schedule created', {
+      scheduleId: schedule.id,
+      budgetId,
+      jobType,
+      cronExpression: schedule.cronExpression,
+    });
+    return this.getSchedule(schedule.id);
+  }
+
+  /**
+   * Update a schedule; options are replaced as a whole, and reset when the job type changes
+   */
+  updateSchedule(scheduleId: string, input: JobScheduleInput): JobSchedule {
+    const existing = this.getSchedule(scheduleId);
+    const jobType =
+      input.jobType === undefined ? existing.jobType : this.parseJobType(input.jobType);
+    const options =
+      input.options !== undefined
+        ? this.parseOptions(jobType, input.options)
+        : jobType === existing.jobType
+          ? existing.options
+          : {};
+    const quietHours = this.parseQuietHours(
+      input.quietHoursStart === undefined ? existing.quietHoursStart : input.quietHoursStart,
+      input.quietHoursEnd === undefined ? existing.quietHoursEnd : input.quietHoursEnd
+    );
+
+    const schedule: JobSchedule = {
+      ...existing,
+      name: input.name === undefined ? existing.name : this.parseName(input.name),
+      cronExpression:
+        input.cronExpression === undefined
+          ? existing.cronExpression
+          : this.parseCronExpression(input.cronExpression),
+      jobType,
+      options,
+      enabled: input.enabled === undefined ? existing.enabled : this.parseEnabled(input.enabled),
+      ...quietHours,
+      updatedAt: new Date().toISOString(),
+    };
+    this.scheduleRepo.save(schedule);
+
+    this.recordChange('job_schedule_updated', schedule);
+    logger.info('Job schedule updated', { scheduleId });
+    return this.getSchedule(scheduleId);
+  }
+
+  deleteSchedule(scheduleId: string): void {
+    const schedule = this.getSchedule(scheduleId);
+    this.scheduleRepo.deleteById(scheduleId);
+
+    this.recordChange('job_schedule_deleted', schedule);
+    logger.info('Job schedule deleted', { scheduleId });
+  }
+
+  listRuns(scheduleId: string, limit = DEFAULT_RUN_HISTORY_LIMIT): JobScheduleRun[] {
+    this.getSchedule(scheduleId);
+    return this.scheduleRepo.listRuns(scheduleId, limit);
+  }
+
+  /**
+   * Record a time the schedule came due and what happened
+   */
+  recordRun(
+    scheduleId: string,
+    params: {
+      status: JobScheduleRunStatus;
+      jobId?: string | null;
+      message?: string | null;
+      manual?: boolean;
+      nextRunAt: string | null;
+    }
+  ): JobScheduleRun {
+    const run = createJobScheduleRun({ scheduleId, ...params });
+    this.scheduleRepo.saveRun(run);
+    this.scheduleRepo.updateRunTimes(scheduleId, {
+      lastRunAt: run.createdAt,
+      nextRunAt: params.nextRunAt,
+    });
+    return run;
+  }
+
+  setNextRun(scheduleId: string, nextRunAt: string | null): void {
+    this.scheduleRepo.updateRunTimes(scheduleId, { nextRunAt });
+  }
+
+  /**
+   * Create the sync-and-suggest schedule that replaces SYNC_INTERVAL_MINUTES, the first time
+   * a budget starts without schedules; later deletions are left alone. An interval no cron
+   * expression repeats exactly is refused rather than approximated (env validation already
+   * rejects it at startup)
+   */
+  ensureDefaultSchedule(budgetId: string, intervalMinutes: number): JobSchedule | null {
+    if (this.scheduleRepo.findByBudgetId(budgetId).length > 0) {
+      return null;
+    }
+    const hadSchedules = this.auditRepo
+      .getByEventType('job_schedule_created')
+      .some((entry) => entry.metadata?.budgetId === budgetId);
+    if (hadSchedules) {
+      return null;
+    }
+
+    const cronExpression = intervalToCronExpression(intervalMinutes);
+    if (!cronExpression) {
+      throw new ConfigError(
+        `SYNC_INTERVAL_MINUTES=${intervalMinutes} cannot be expressed as a cron schedule`
+      );
+    }
+
+    return this.createSchedule(budgetId, {
+      name: 'Sync and suggest',
+      cronExpression,
+      jobType: 'scheduled_sync_and_suggest',
+      options: { useAI: true },
+    });
+  }
+
+  private recordChange(
+    eventType: 'job_schedule_created' | 'job_schedule_updated' | 'job_schedule_deleted',
+    schedule: JobSchedule
+  ): void {
+    this.auditRepo.log({
+      eventType,
+      entityType: 'JobSchedule',
+      entityId: schedule.id,
+      metadata: {
+        budgetId: schedule.budgetId,
+        name: schedule.name,
+        cronExpression: schedule.cronExpression,
+        jobType: schedule.jobType,
+        enabled: schedule.enabled,
+      },
+    });
+    for (const listener of this.listeners) {
+      listener(schedule.id);
+    }
+  }
+
+  private parseName(value: unknown): string {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new ValidationError('name is required');
+    }
+    return value.trim();
+  }
+
+  /**
+   * Five-field expressions only: schedules start jobs, so minute precision is enough
+   */
+  private parseCronExpression(value: unknown): string {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new ValidationError('cronExpression is required');
+    }
+    const expression = value.trim().replace(/\s+/g, ' ');
+    if (expression.split(' ').length !== 5) {
+      throw new ValidationError(
+        'cronExpression must have five fields: minute hour day-of-month month day-of-week'
+      );
+    }
+    if (!cron.validate(expression)) {
+      throw new ValidationError(`cronExpression "${expression}" is not a valid cron expression`);
+    }
+    return expression;
+  }
+
+  private parseJobType(value: unknown): ScheduleJobType {
+    if (!isScheduleJobType(value)) {
+      throw new ValidationError(`jobType must be one of: ${SCHEDULABLE_JOB_TYPES.join(', ')}`);
+    }
+    return value;
+  }
+
+  private parseOptions(jobType: ScheduleJobType, value: unknown): ScheduleOptions {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError('options must be an object');
+    }
+
+    const allowed = SCHEDULE_JOB_OPTIONS[jobType];
+    const options: ScheduleOptions = {};
+    for (const [key, option] of Object.entries(value)) {
+      const kind = allowed[key];
+      if (!kind) {
+        const names = Object.keys(allowed);
+        throw new ValidationError(
+          `${jobType} does not take option ${key}` +
+            (names.length > 0 ? ` (available: ${names.join(', ')})` : '')
+        );
+      }
+      if (option === null || option === undefined) continue;
+      if (kind === 'boolean' && typeof option !== 'boolean') {
+        throw new ValidationError(`options.${key} must be true or false`);
+      }
+      if (kind === 'number' && (typeof option !== 'number' || !Number.isFinite(option))) {
+        throw new ValidationError(`options.${key} must be a number`);
+      }
+      options[key] = option as boolean | number;
+    }
+    return options;
+  }
+
+  private parseEnabled(value: unknown): boolean {
+    if (typeof value !== 'boolean') {
+      throw new ValidationError('enabled must be true or false');
+    }
+    return value;
+  }
+
+  /**
+   * Both ends or neither; an empty string clears the window
+   */
+  private parseQuietHours(
+    start: unknown,
+    end: unknown
+  ): { quietHoursStart: string | null; quietHoursEnd: string | null } {
+    const normalize = (value: unknown, field: string): string | null => {
+      if (value === undefined || value === null || value === '') return null;
+      if (typeof value !== 'string' || parseTimeOfDay(value) === null) {
+        throw new ValidationError(`${field} must be a time in HH:MM format`);
+      }
+      return value;
+    };
+
+    const quietHoursStart = normalize(start, 'quietHoursStart');
+    const quietHoursEnd = normalize(end, 'quietHoursEnd');
+    if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+      throw new ValidationError('quietHoursStart and quietHoursEnd must be set together');
+    }
+    if (quietHoursStart !== null && quietHoursStart === quietHoursEnd) {
+      throw new ValidationError('quietHoursStart and quietHoursEnd must differ');
+    }
+    return { quietHoursStart, quietHoursEnd };
+  }
+}
@@ -1,18 +1,24 @@
 import { randomUUID } from 'node:crypto';
 import type { Job, JobStatus, JobType } from '../domain/entities/Job.js';
 import type { JobStep, JobStepStatus, JobStepType } from '../domain/entities/JobStep.js';
-import { createJob } from '../domain/entities/Job.js';
+import {
+  createJob,
+  findSharedLock,
+  isJobDue,
+  isSameJobRequest,
+  isSameJobWork,
+} from '../domain/entities/Job.js';
 import { createJobStep } from '../domain/entities/JobStep.js';
 import type { JobRepository } from '../infra/repositories/JobRepository.js';
 import type { JobStepRepository } from '../infra/repositories/JobStepRepository.js';
 import type { JobEventRepository } from '../infra/repositories/JobEventRepository.js';
-import { ValidationError, NotFoundError } from '../domain/errors.js';
+import { ConflictError, ValidationError, NotFoundError } from '../domain/errors.js';
 import { logger } from '../infra/logger.js';
 import type { JobEventBus } from './JobEventBus.js';
 
 const jobTransitions: Record<JobStatus, JobStatus[]> = {
   queued: ['running', 'failed', 'canceled'],
-  running: ['succeeded', 'failed', 'canceled'],
+  running: ['queued', 'succeeded', 'failed', 'canceled'],
   succeeded: [],
   failed: [],
   canceled: [],
@@ -31,6 +37,13 @@ const stepTransitions: Record<JobStepStatus, JobStepStatus[]> = {
  * P5 (Separation of concerns): Orchestration handled elsewhere
  */
 export class JobService {
+  private idempotencyScope: {
+    budgetId: string;
+    key: string;
+    settled: boolean;
+    replayed: boolean;
+  } | null = null;
+
   constructor(
     private jobRepo: JobRepository,
     private stepRepo: JobStepRepository,
@@ -38,12 +51,46 @@ export class JobService {
     private jobEventBus?: JobEventBus
   ) {}
 
+  /**
+   * Queue a job, checked against the budget's active jobs
+   * A request identical to a job that has not started yet gets that job back; a request that
+   * needs a lock another active job of the budget holds is refused with a ConflictError.
+   * Retries waiting for their runAfter time hold no lock; the worker starts them once the
+   * budget is free.
+   */
   createJob(params: {
     budgetId: string;
     type: JobType;
     metadata?: Record<string, unknown> | null;
     parentJobId?: string | null;
   }): Job {
+    const scope = this.idempotencyScope;
+    if (scope && !scope.settled && scope.budgetId === params.budgetId) {
+      scope.settled = true;
+      const previous = this.jobRepo.findByIdempotencyKey(scope.budgetId, scope.key);
+      if (previous) {
+        if (!isSameJobWork(previous, params)) {
+          throw new ConflictError('Idempotency-Key was already used for a different request', {
+            jobId: previous.id,
+            jobType: previous.type,
+          });
+        }
+        scope.replayed = true;
+        return previous;
+      }
+      const job = this.createJob(params);
+      this.jobRepo.setIdempotencyKey(job.id, scope.key);
+      return job;
+    }
+
+    const active = this.jobRepo.listActiveByBudget(params.budgetId);
+    const queued = active.find((job) => isSameJobRequest(job, params));
+    if (queued) {
+      logger.info('Job request coalesced with queued job', { jobId: queued.id, type: queued.type });
+      return queued;
+    }
+    this.assertLocksAvailable(params.type, active);
+
     const job = createJob({
       id: randomUUID(),
       budgetId: params.budgetId,
@@ -94,10 +141,45 @@ export class JobService {
     return this.jobRepo.listByBudget(params);
   }
 
+  /**
+   * Start a job for a request carrying an Idempotency-Key. The first job the request creates
+   * takes the key (the first key of a job wins); a later request with the key gets that job
+   * back, replayed, if it asks for the same work, and a ConflictError if it asks for other work
+   */
+  withIdempotencyKey<T>(
+    budgetId: string,
+    idempotencyKey: string,
+    start: () => T
+  ): { result: T; replayed: boolean } {
+    const scope = { budgetId, key: idempotencyKey, settled: false, replayed: false };
+    this.idempotencyScope = scope;
+    try {
+      const result = start();
+      return { result, replayed: scope.replayed };
+    } finally {
+      this.idempotencyScope = null;
+    }
+  }
+
   listJobSteps(jobId: string): JobStep[] {
     return this.stepRepo.listByJob(jobId);
   }
 
+  /**
+   * Jobs of every budget in one status, oldest first
+   */
+  listJobsByStatus(status: JobStatus): Job[] {
+    return this.jobRepo.listByStatus(status);
+  }
+
+  /**
+   * Add keys to a job's metadata, keeping the ones set at creation
+   */
+  mergeJobMetadata(jobId: string, patch: Record<string, unknown>): void {
+    const job = this.getJob(jobId);
+    this.jobRepo.updateMetadata(jobId, { ...(job.metadata ?? {}), ...patch });
+  }
+
   markJobRunning(jobId: string): void {
     const job = this.getJob(jobId);
     this.assertJobTransition(job.status, 'running');
@@ -108,6 +190,23 @@ export class JobService {
     this.emitJobEvent('status', this.getJob(jobId));
   }
 
+  /**
+   * Put a running job back in the queue, with its running steps, so a worker starts it again
+   */
+  requeueJob(jobId: string, reason: string): void {
+    const job = this.getJob(jobId);
+    this.assertJobTransition(job.status, 'queued');
+    for (const step of this.stepRepo.listByJob(jobId)) {
+      if (step.status !== 'running') continue;
+      this.stepRepo.updateStatus({ stepId: step.id, status: 'queued' });
+      this.recordEvent(jobId, step.id, 'queued', reason);
+    }
+    this.jobRepo.updateStatus({ jobId, status: 'queued' });
+    this.recordEvent(jobId, null, 'queued', reason);
+    logger.info('Job requeued', { jobId, reason });
+    this.emitJobEvent('status', this.getJob(jobId));
+  }
+
   markJobSucceeded(jobId: string): void {
     const job = this.getJob(jobId);
     this.assertJobTransition(job.status, 'succeeded');
@@ -215,6 +314,20 @@ export class JobService {
     return true;
   }
 
+  markStepCanceled(stepId: string, reason?: string | null): void {
+    const step = this.getStep(stepId);
+    this.assertStepTransition(step.status, 'canceled');
+    const completedAt = new Date();
+    this.stepRepo.updateStatus({
+      stepId,
+      status: 'canceled',
+      completedAt,
+      failureReason: reason ?? null,
+    });
+    this.recordEvent(step.jobId, step.id, 'canceled', reason ?? 'Job step canceled');
+    logger.info('Job step canceled', { stepId, jobId: step.jobId });
+  }
+
   private getStep(stepId: string): JobStep {
     const step = this.stepRepo.getById(stepId);
     if (!step) {
@@ -223,6 +336,32 @@ export class JobService {
     return step;
   }
 
+  /**
+   * Whether a running job of the same budget holds a lock this queued job needs
+   */
+  isBlockedByRunningJob(job: Job): boolean {
+    return this.jobRepo
+      .listActiveByBudget(job.budgetId)
+      .some(
+        (other) =>
+          other.id !== job.id && other.status === 'running' && !!findSharedLock(job.type, other)
+      );
+  }
+
+  private assertLocksAvailable(type: JobType, active: Job[]): void {
+    const now = new Date();
+    for (const holder of active) {
+      if (holder.status === 'queued' && !isJobDue(holder, now)) continue;
+      const lock = findSharedLock(type, holder);
+      if (lock) {
+        throw new ConflictError(
+          `A ${holder.type} job (${holder.id}) is already ${holder.status} for this budget`,
+          { jobId: holder.id, jobType: holder.type, jobStatus: holder.status, lock }
+        );
+      }
+    }
+  }
+
   private assertJobTransition(from: JobStatus, to: JobStatus): void {
     const allowed = jobTransitions[from] || [];
     if (!allowed.includes(to)) {
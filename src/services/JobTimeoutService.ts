@@ -1,15 +1,19 @@
 import type { JobRepository } from '../infra/repositories/JobRepository.js';
 import type { JobStepRepository } from '../infra/repositories/JobStepRepository.js';
 import type { JobService } from './JobService.js';
+import type { JobType } from '../domain/entities/Job.js';
 
 /**
  * JobTimeoutService - detect and fail jobs that exceeded allowed runtime.
+ * Queued jobs of the worker's types may wait for a slot however long that takes; queued jobs
+ * of other types start inside their request, so one still queued after the timeout was lost.
  */
 export class JobTimeoutService {
   constructor(
     private jobRepo: JobRepository,
     private stepRepo: JobStepRepository,
-    private jobService: JobService
+    private jobService: JobService,
+    private workerJobTypes: readonly JobType[] = []
   ) {}
 
   failTimedOutJobs(timeoutMinutes: number): { jobsFailed: number; stepsFailed: number } {
@@ -41,7 +45,7 @@ export class JobTimeoutService {
       }
     }
 
-    const timedOutJobs = this.jobRepo.listTimedOutJobs(cutoff);
+    const timedOutJobs = this.jobRepo.listTimedOutJobs(cutoff, this.workerJobTypes);
     for (const job of timedOutJobs) {
       if (this.jobService.markJobFailedIfActive(job.id, reason)) {
         jobsFailed += 1;
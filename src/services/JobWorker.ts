@@ -0,0 +1,156 @@
+import { logger } from '../infra/logger.js';
+import { isJobDue, type Job, type JobType } from '../domain/entities/Job.js';
+import type { JobService } from './JobService.js';
+
+const RESUMED_REASON = 'Resumed after server restart';
+const INTERRUPTED_REASON = 'Interrupted by server restart';
+
+export interface JobWorkerOptions {
+  pollIntervalMs?: number;
+  defaultConcurrency?: number; // Jobs of one type running at once
+  concurrency?: Partial<Record<string, number>>; // Per job type, overrides the default
+}
+
+/**
+ * Runs the jobs the worker claims; run settles once the job has reached a final status
+ */
+export interface JobRunner {
+  types: readonly JobType[]; // Types that can be started from their stored metadata alone
+  run(job: Job): Promise<void>;
+}
+
+/**
+ * JobWorker - durable job queue on top of the jobs table
+ * P5 (Separation of concerns): Decides when queued jobs start; the runner decides what they do
+ *
+ * Jobs are claimed oldest first, up to a concurrency limit per job type; retries scheduled for
+ * later are claimed by the first poll after their time in which no running job of the budget
+ * holds a lock they need. On start, jobs left running by a
+ * previous process are put back in the queue, or failed when nothing can resume them.
+ */
+export class JobWorker {
+  private runner: JobRunner | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private tickScheduled = false;
+  private readonly running = new Map<JobType, number>();
+
+  constructor(
+    private jobService: JobService,
+    private options: JobWorkerOptions = {}
+  ) {}
+
+  start(runner: JobRunner): void {
+    if (this.runner) return;
+    this.runner = runner;
+    this.recoverInterruptedJobs();
+
+    const pollIntervalMs = this.options.pollIntervalMs ?? 5000;
+    this.pollTimer = setInterval(() => this.tick(), pollIntervalMs);
+    this.pollTimer.unref?.();
+
+    logger.info('Job worker started', {
+      pollIntervalMs,
+      defaultConcurrency: this.options.defaultConcurrency ?? 1,
+    });
+    this.wake();
+  }
+
+  /**
+   * Stop claiming jobs; jobs already running finish, or are resumed by the next process
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.runner = null;
+  }
+
+  /**
+   * Look for queued jobs on the next tick instead of waiting for the poll interval
+   */
+  wake(): void {
+    if (!this.runner || this.tickScheduled) return;
+    this.tickScheduled = true;
+    setImmediate(() => {
+      this.tickScheduled = false;
+      this.tick();
+    });
+  }
+
+  private tick(): void {
+    const runner = this.runner;
+    if (!runner) return;
+
+    const now = new Date();
+    for (const job of this.jobService.listJobsByStatus('queued')) {
+      if (!runner.types.includes(job.type) || !isJobDue(job, now)) continue;
+      const running = this.running.get(job.type) ?? 0;
+      if (running >= this.limitFor(job.type)) continue;
+      if (this.jobService.isBlockedByRunningJob(job)) continue;
+      this.claim(runner, job);
+    }
+  }
+
+  private claim(runner: JobRunner, job: Job): void {
+    try {
+      this.jobService.markJobRunning(job.id);
+    } catch (error) {
+      logger.warn('Failed to claim queued job', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    this.running.set(job.type, (this.running.get(job.type) ?? 0) + 1);
+    void runner
+      .run(this.jobService.getJob(job.id))
+      .catch((error: unknown) => {
+        logger.error('Job runner failed', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.running.set(job.type, (this.running.get(job.type) ?? 1) - 1);
+        this.wake();
+      });
+  }
+
+  /**
+   * Jobs still marked running belong to a process that is gone; nothing else runs them.
+   * Neither does anything run queued jobs of types the worker does not handle: those start
+   * inside their request, which the process died during
+   */
+  private recoverInterruptedJobs(): void {
+    const types = this.runner?.types ?? [];
+    let requeued = 0;
+    let failed = 0;
+
+    for (const job of this.jobService.listJobsByStatus('running')) {
+      if (types.includes(job.type)) {
+        this.jobService.requeueJob(job.id, RESUMED_REASON);
+        requeued += 1;
+      } else if (this.jobService.markJobFailedIfActive(job.id, INTERRUPTED_REASON)) {
+        failed += 1;
+      }
+    }
+    for (const job of this.jobService.listJobsByStatus('queued')) {
+      if (
+        !types.includes(job.type) &&
+        this.jobService.markJobFailedIfActive(job.id, INTERRUPTED_REASON)
+      ) {
+        failed += 1;
+      }
+    }
+
+    if (requeued > 0 || failed > 0) {
+      logger.info('Recovered jobs interrupted by restart', { requeued, failed });
+    }
+  }
+
+  private limitFor(type: JobType): number {
+    return this.options.concurrency?.[type] ?? this.options.defaultConcurrency ?? 1;
+  }
+}
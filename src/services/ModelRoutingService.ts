@@ -0,0 +1,141 @@
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { ModelRouteRepository } from '../infra/repositories/ModelRouteRepository.js';
+import {
+  AI_TASKS,
+  isAIBackendId,
+  isAITask,
+  resolveModelRoute,
+  type AIBackendId,
+  type AITask,
+  type ModelRoutes,
+  type ResolvedModelRoute,
+} from '../domain/entities/ModelRoute.js';
+import { ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+/** Input accepted when overriding a route for a budget */
+export interface ModelRouteInput {
+  backend?: unknown;
+  model?: unknown;
+}
+
+export interface ModelRoutingConfig {
+  /** Routes from AI_MODEL_ROUTES */
+  globalRoutes: ModelRoutes;
+  /** Backend used when no route names one (the primary of the fallback chain) */
+  defaultBackend: string;
+  /** Configured model per backend (OPENAI_MODEL, GOOGLE_AI_MODEL, ...) */
+  defaultModels: Record<AIBackendId, string>;
+  /** Backends in the fallback chain; routes may only name these */
+  availableBackends: string[];
+}
+
+/**
+ * ModelRoutingService - picks the AI backend and model for each prompt call site
+ * Global routes come from AI_MODEL_ROUTES; budgets can override them per task
+ */
+export class ModelRoutingService {
+  constructor(
+    private routeRepo: ModelRouteRepository,
+    private auditRepo: AuditRepository,
+    private config: ModelRoutingConfig
+  ) {}
+
+  resolve(task: AITask, budgetId: string | null): ResolvedModelRoute {
+    return resolveModelRoute({
+      task,
+      globalRoutes: this.config.globalRoutes,
+      budgetRoutes: budgetId ? this.routeRepo.getRoutes(budgetId) : {},
+      defaultBackend: this.config.defaultBackend,
+      defaultModels: this.config.defaultModels,
+    });
+  }
+
+  /**
+   * Effective route for every task; without a budget only global routes apply
+   */
+  listRoutes(budgetId: string | null): ResolvedModelRoute[] {
+    const budgetRoutes = budgetId ? this.routeRepo.getRoutes(budgetId) : {};
+    return AI_TASKS.map((task) =>
+      resolveModelRoute({
+        task,
+        globalRoutes: this.config.globalRoutes,
+        budgetRoutes,
+        defaultBackend: this.config.defaultBackend,
+        defaultModels: this.config.defaultModels,
+      })
+    );
+  }
+
+  /**
+   * Override the backend and/or model of a task for one budget
+   */
+  setBudgetRoute(budgetId: string, task: unknown, input: ModelRouteInput): ResolvedModelRoute {
+    const parsedTask = this.parseTask(task);
+    const backend = this.parseBackend(input.backend);
+    const model = this.parseModel(input.model);
+
+    if (backend === null && model === null) {
+      throw new ValidationError('backend or model is required');
+    }
+
+    this.routeRepo.save({
+      budgetId,
+      task: parsedTask,
+      backend,
+      model,
+      updatedAt: new Date().toISOString(),
+    });
+
+    this.auditRepo.log({
+      eventType: 'ai_model_route_updated',
+      entityType: 'ModelRoute',
+      entityId: budgetId,
+      metadata: { task: parsedTask, backend, model },
+    });
+    logger.info('AI model route updated', { budgetId, task: parsedTask, backend, model });
+
+    return this.resolve(parsedTask, budgetId);
+  }
+
+  /**
+   * Remove a budget override so the task falls back to the global route
+   */
+  clearBudgetRoute(budgetId: string, task: unknown): ResolvedModelRoute {
+    const parsedTask = this.parseTask(task);
+    if (this.routeRepo.delete(budgetId, parsedTask)) {
+      this.auditRepo.log({
+        eventType: 'ai_model_route_cleared',
+        entityType: 'ModelRoute',
+        entityId: budgetId,
+        metadata: { task: parsedTask },
+      });
+    }
+    return this.resolve(parsedTask, budgetId);
+  }
+
+  private parseTask(value: unknown): AITask {
+    if (!isAITask(value)) {
+      throw new ValidationError(`task must be one of: ${AI_TASKS.join(', ')}`);
+    }
+    return value;
+  }
+
+  private parseBackend(value: unknown): AIBackendId | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (!isAIBackendId(value) || !this.config.availableBackends.includes(value)) {
+      throw new ValidationError(
+        `backend must be one of the configured backends: ${this.config.availableBackends.join(', ')}`
+      );
+    }
+    return value;
+  }
+
+  private parseModel(value: unknown): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') {
+      throw new ValidationError('model must be a string');
+    }
+    return value.trim() || null;
+  }
+}
@@ -14,6 +14,8 @@ import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
 import type { PayeeMergeClusterMetaRepository } from '../infra/repositories/PayeeMergeClusterMetaRepository.js';
 import type { PayeeMergeHiddenGroupRepository } from '../infra/repositories/PayeeMergeHiddenGroupRepository.js';
 import type { PayeeMergePayeeSnapshotRepository } from '../infra/repositories/PayeeMergePayeeSnapshotRepository.js';
+import type { CancellationToken } from '../domain/entities/Job.js';
+import { payeeClusterSplitSchema } from './aiResponseSchemas.js';
 
 export class PayeeMergeService {
   constructor(
@@ -85,6 +87,7 @@ export class PayeeMergeService {
     useAI?: boolean;
     force?: boolean;
     aiMinClusterSize?: number;
+    cancellation?: CancellationToken;
   }): Promise<PayeeMergeCluster[]> {
     const minScore = options.minScore ?? 92;
     const effectiveMinScore = options.useAI ? Math.min(minScore, 80) : minScore;
@@ -176,15 +179,23 @@ export class PayeeMergeService {
 
       let clusters = buildClusters(options.budgetId, payees, unionFind, normalized, tokenSet);
       if (options.useAI && clusters.length > 0) {
-        clusters = await this.refineClustersWithAIAll(clusters, aiMinClusterSize);
+        clusters = await this.refineClustersWithAIAll(
+          clusters,
+          aiMinClusterSize,
+          options.cancellation
+        );
       }
+      const canceled = options.cancellation?.isCanceled === true;
       this.clusterRepo.replaceForBudget(options.budgetId, clusters);
       this.payeeSnapshotRepo.replaceForBudget(options.budgetId, payees);
-      this.clusterMetaRepo.upsert({
-        budgetId: options.budgetId,
-        payeeHash,
-        createdAt: new Date().toISOString(),
-      });
+      // A canceled run keeps its clusters but is not cached, so the next run refines again
+      if (!canceled) {
+        this.clusterMetaRepo.upsert({
+          budgetId: options.budgetId,
+          payeeHash,
+          createdAt: new Date().toISOString(),
+        });
+      }
       this.auditRepo.log({
         eventType: 'payees_merge_suggestions_generated',
         entityType: 'PayeeMergeCluster',
@@ -193,6 +204,7 @@ export class PayeeMergeService {
           budgetId: options.budgetId,
           minScore,
           count: clusters.length,
+          canceled,
         },
       });
       return clusters;
@@ -259,12 +271,14 @@ export class PayeeMergeService {
 
   private async refineClustersWithAIAll(
     clusters: PayeeMergeCluster[],
-    minClusterSize: number
+    minClusterSize: number,
+    cancellation?: CancellationToken
   ): Promise<PayeeMergeCluster[]> {
     const refined: PayeeMergeCluster[] = [];
 
     for (const cluster of clusters) {
-      if (cluster.payees.length < minClusterSize) {
+      // Once canceled, the remaining clusters are kept as fuzzy matching built them
+      if (cluster.payees.length < minClusterSize || cancellation?.isCanceled) {
         refined.push(cluster);
         continue;
       }
@@ -306,9 +320,12 @@ If they are all the same entity, return one group with all indexes.`;
     const input = `Payee list:\n${lines}`;
 
     try {
-      const response = await this.ai.completion({
+      const splitSchema = payeeClusterSplitSchema(cluster.payees.length);
+      const { content: response } = await this.ai.completion({
         instructions,
         input,
+        task: 'payee_merge_split',
+        budgetId: cluster.budgetId,
         jsonSchema: {
           name: 'payee_cluster_split',
           schema: {
@@ -326,23 +343,9 @@ If they are all the same entity, return one group with all indexes.`;
             },
           },
         },
+        responseSchema: splitSchema,
       });
-      const parsed = parseJsonResponse<{ groups: number[][] }>(response);
-      if (!parsed?.groups || !Array.isArray(parsed.groups)) {
-        return null;
-      }
-
-      const total = cluster.payees.length;
-      const seen = new Set<number>();
-      for (const group of parsed.groups) {
-        if (!Array.isArray(group) || group.length === 0) return null;
-        for (const index of group) {
-          if (typeof index !== 'number' || index < 0 || index >= total) return null;
-          if (seen.has(index)) return null;
-          seen.add(index);
-        }
-      }
-      if (seen.size !== total) return null;
+      const parsed = splitSchema.parse(parseJsonResponse(response));
 
       const createdAt = new Date().toISOString();
       return parsed.groups
@@ -0,0 +1,128 @@
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { PromptTemplateRepository } from '../infra/repositories/PromptTemplateRepository.js';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_NAMES,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  createPromptTemplateVersion,
+  findUnknownPlaceholders,
+  isPromptTemplateName,
+  resolvePromptTemplate,
+  type PromptTemplateName,
+  type PromptTemplateVersion,
+  type ResolvedPromptTemplate,
+} from '../domain/entities/PromptTemplate.js';
+import { ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+const MAX_INSTRUCTIONS_LENGTH = 8000;
+
+/** A template as shown in the editor */
+export interface PromptTemplateSummary extends ResolvedPromptTemplate {
+  builtInInstructions: string;
+  placeholders: string[];
+}
+
+/**
+ * PromptTemplateService - per-budget, versioned overrides of the suggestion prompt instructions
+ * Every save or reset adds a version; the version in effect is stored on each suggestion
+ */
+export class PromptTemplateService {
+  constructor(
+    private templateRepo: PromptTemplateRepository,
+    private auditRepo: AuditRepository
+  ) {}
+
+  resolve(budgetId: string | null, name: PromptTemplateName): ResolvedPromptTemplate {
+    return resolvePromptTemplate(
+      name,
+      budgetId ? this.templateRepo.findLatest(budgetId, name) : null
+    );
+  }
+
+  listTemplates(budgetId: string): PromptTemplateSummary[] {
+    return PROMPT_TEMPLATE_NAMES.map((name) => ({
+      ...this.resolve(budgetId, name),
+      builtInInstructions: BUILT_IN_PROMPT_TEMPLATES[name],
+      placeholders: PROMPT_TEMPLATE_PLACEHOLDERS[name],
+    }));
+  }
+
+  listVersions(budgetId: string, name: unknown): PromptTemplateVersion[] {
+    return this.templateRepo.listVersions(budgetId, this.parseName(name));
+  }
+
+  /**
+   * Save new instructions for a template as its next version
+   */
+  saveTemplate(budgetId: string, name: unknown, instructions: unknown): ResolvedPromptTemplate {
+    const parsedName = this.parseName(name);
+    return this.addVersion(budgetId, parsedName, this.parseInstructions(parsedName, instructions));
+  }
+
+  /**
+   * Go back to the built-in instructions; recorded as a new version so history stays linear
+   */
+  resetTemplate(budgetId: string, name: unknown): ResolvedPromptTemplate {
+    const parsedName = this.parseName(name);
+    if (this.resolve(budgetId, parsedName).isBuiltIn) {
+      return this.resolve(budgetId, parsedName);
+    }
+    return this.addVersion(budgetId, parsedName, null);
+  }
+
+  /**
+   * Check draft instructions before they are saved or previewed
+   */
+  parseInstructions(name: PromptTemplateName, value: unknown): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new ValidationError('instructions must be a non-empty string');
+    }
+    if (value.length > MAX_INSTRUCTIONS_LENGTH) {
+      throw new ValidationError(
+        `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters`
+      );
+    }
+
+    const unknown = findUnknownPlaceholders(name, value);
+    if (unknown.length > 0) {
+      const known = PROMPT_TEMPLATE_PLACEHOLDERS[name];
+      throw new ValidationError(
+        `Unknown placeholders: ${unknown.join(', ')}` +
+          (known.length > 0 ? ` (available: ${known.join(', ')})` : '')
+      );
+    }
+    return value.trim();
+  }
+
+  parseName(value: unknown): PromptTemplateName {
+    if (!isPromptTemplateName(value)) {
+      throw new ValidationError(`template must be one of: ${PROMPT_TEMPLATE_NAMES.join(', ')}`);
+    }
+    return value;
+  }
+
+  private addVersion(
+    budgetId: string,
+    name: PromptTemplateName,
+    instructions: string | null
+  ): ResolvedPromptTemplate {
+    const version = (this.templateRepo.findLatest(budgetId, name)?.version ?? 0) + 1;
+    this.templateRepo.save(createPromptTemplateVersion({ budgetId, name, version, instructions }));
+
+    this.auditRepo.log({
+      eventType: instructions === null ? 'prompt_template_reset' : 'prompt_template_updated',
+      entityType: 'PromptTemplate',
+      entityId: budgetId,
+      metadata: { name, version },
+    });
+    logger.info('Prompt template version added', {
+      budgetId,
+      name,
+      version,
+      builtIn: instructions === null,
+    });
+
+    return this.resolve(budgetId, name);
+  }
+}
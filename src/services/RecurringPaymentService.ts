@@ -0,0 +1,137 @@
+import type { ActualBudgetAdapter } from '../infra/ActualBudgetAdapter.js';
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { RecurringPaymentRepository } from '../infra/repositories/RecurringPaymentRepository.js';
+import {
+  createRecurringPayment,
+  detectRecurringPayments,
+  type RecurringPayment,
+} from '../domain/entities/RecurringPayment.js';
+import { NotFoundError, ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+/**
+ * RecurringPaymentService - detects subscriptions and other recurring charges and turns
+ * them into Actual Budget schedules on request
+ */
+export class RecurringPaymentService {
+  constructor(
+    private actualBudget: ActualBudgetAdapter,
+    private recurringRepo: RecurringPaymentRepository,
+    private auditRepo: AuditRepository
+  ) {}
+
+  /**
+   * Analyse the full transaction history and replace the stored results
+   * A payment is linked to an existing schedule when one (not completed) has the same payee
+   */
+  async detectRecurringPayments(budgetId: string): Promise<RecurringPayment[]> {
+    const [transactions, schedules] = await Promise.all([
+      this.actualBudget.getTransactions(),
+      this.actualBudget.getSchedules(),
+    ]);
+    const today = new Date().toISOString().slice(0, 10);
+
+    const scheduleByPayee = new Map<string, string>();
+    for (const schedule of schedules) {
+      if (schedule.payeeId && !schedule.completed) {
+        scheduleByPayee.set(schedule.payeeId, schedule.id);
+      }
+    }
+
+    const payments = detectRecurringPayments(transactions, today).map((candidate) =>
+      createRecurringPayment({
+        budgetId,
+        candidate,
+        scheduleId: scheduleByPayee.get(candidate.payeeId) ?? null,
+      })
+    );
+    this.recurringRepo.replaceForBudget(budgetId, payments);
+
+    const summary = {
+      detected: payments.length,
+      withoutSchedule: payments.filter((p) => !p.scheduleId && p.status === 'active').length,
+      priceIncreases: payments.filter((p) => p.priceIncrease).length,
+      stopped: payments.filter((p) => p.status === 'stopped').length,
+    };
+
+    this.auditRepo.log({
+      eventType: 'recurring_payments_detected',
+      entityType: 'RecurringPayment',
+      entityId: budgetId,
+      metadata: summary,
+    });
+
+    logger.info('Recurring payments detected', { budgetId, ...summary });
+    return payments;
+  }
+
+  /**
+   * Get the latest detection results for a budget
+   */
+  listRecurringPayments(budgetId: string): RecurringPayment[] {
+    return this.recurringRepo.findByBudgetId(budgetId);
+  }
+
+  /**
+   * Create the missing schedule for an active recurring payment
+   * The schedule expects roughly the latest amount from the next expected date on; it is named
+   * after the payee, numbered when another schedule (e.g. a completed one) has that name
+   */
+  async createSchedule(paymentId: string): Promise<RecurringPayment> {
+    const payment = this.recurringRepo.findById(paymentId);
+    if (!payment) {
+      throw new NotFoundError('RecurringPayment', paymentId);
+    }
+    if (payment.scheduleId) {
+      throw new ValidationError(`A schedule already exists for ${payment.payeeName}`);
+    }
+    if (payment.status === 'stopped') {
+      throw new ValidationError(`${payment.payeeName} looks stopped; no schedule was created`);
+    }
+
+    const schedules = await this.actualBudget.getSchedules();
+    const scheduleId = await this.actualBudget.createSchedule({
+      name: uniqueScheduleName(
+        payment.payeeName,
+        schedules.map((schedule) => schedule.name)
+      ),
+      payeeId: payment.payeeId,
+      accountId: payment.accountId,
+      amount: -payment.lastAmount,
+      frequency: payment.cadence,
+      startDate: payment.nextExpectedDate,
+    });
+    await this.actualBudget.sync();
+    this.recurringRepo.updateScheduleId(payment.id, scheduleId);
+
+    this.auditRepo.log({
+      eventType: 'schedule_created',
+      entityType: 'RecurringPayment',
+      entityId: payment.id,
+      metadata: {
+        budgetId: payment.budgetId,
+        scheduleId,
+        payeeId: payment.payeeId,
+        payeeName: payment.payeeName,
+        cadence: payment.cadence,
+        amount: payment.lastAmount,
+      },
+    });
+
+    logger.info('Schedule created for recurring payment', {
+      paymentId: payment.id,
+      scheduleId,
+    });
+    return { ...payment, scheduleId };
+  }
+}
+
+/** The name, or the first "name (n)" that no existing schedule uses, ignoring case */
+function uniqueScheduleName(name: string, existingNames: Array<string | null>): string {
+  const taken = new Set(existingNames.map((existing) => existing?.toLowerCase()));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
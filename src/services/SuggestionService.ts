@@ -1,22 +1,121 @@
-import type { AIAdapter } from '../infra/ai/AIAdapter.js';
+import type { ZodType } from 'zod';
+import type { AIAdapter, CompletionOptions, CompletionResult } from '../infra/ai/AIAdapter.js';
 import { parseJsonResponse } from '../infra/ai/parseJsonResponse.js';
+import { getAICallContext } from '../infra/ai/aiCallContext.js';
 import type { SuggestionRepository } from '../infra/repositories/SuggestionRepository.js';
 import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
 import type { ActualBudgetAdapter } from '../infra/ActualBudgetAdapter.js';
-import type { PayeeCacheRepository } from '../infra/repositories/PayeeCacheRepository.js';
+import { PayeeCacheRepository } from '../infra/repositories/PayeeCacheRepository.js';
 import type { PayeeMatchCacheRepository } from '../infra/repositories/PayeeMatchCacheRepository.js';
-import type { Transaction, Category } from '../domain/entities/BudgetSnapshot.js';
+import type { PayeeRuleSuggestionRepository } from '../infra/repositories/PayeeRuleSuggestionRepository.js';
+import type { ClassifierModelRepository } from '../infra/repositories/ClassifierModelRepository.js';
+import type { BacktestRunRepository } from '../infra/repositories/BacktestRunRepository.js';
+import type { SuggestionFeedbackRepository } from '../infra/repositories/SuggestionFeedbackRepository.js';
+import type { SuggestionExampleRepository } from '../infra/repositories/SuggestionExampleRepository.js';
+import type { CategorizedPayee } from '../infra/ActualBudgetAdapter.js';
+import type { CategoryGuidanceService } from './CategoryGuidanceService.js';
+import type { PromptTemplateService } from './PromptTemplateService.js';
+import {
+  isUncategorizedTransaction,
+  type Transaction,
+  type Category,
+} from '../domain/entities/BudgetSnapshot.js';
 import {
   createSuggestion,
+  type CategorySuggestionSource,
   type Suggestion,
   type SuggestionComponentStatus,
 } from '../domain/entities/Suggestion.js';
+import { learnSplitSuggestion } from '../domain/entities/SplitSuggestion.js';
+import {
+  detectMiscategorization,
+  type PayeeHistoryCount,
+} from '../domain/entities/Recategorization.js';
+import {
+  createBacktestRun,
+  type BacktestOutcome,
+  type BacktestRun,
+} from '../domain/entities/BacktestRun.js';
+import {
+  createPayeeRuleSuggestion,
+  hasEnoughPayeeRuleEvidence,
+  type PayeeRuleSuggestion,
+} from '../domain/entities/PayeeRuleSuggestion.js';
+import {
+  createSuggestionFeedback,
+  decideCacheFeedback,
+  summarizeSourceAccuracy,
+  type SourceAccuracy,
+  type SuggestionFeedback,
+} from '../domain/entities/SuggestionFeedback.js';
+import type { CancellationToken, JobCheckpoint } from '../domain/entities/Job.js';
+import {
+  EXAMPLE_SELECTION,
+  createSuggestionExample,
+  describeExampleInfluence,
+  formatExamplesSection,
+  selectPromptExamples,
+  type PromptExample,
+  type SuggestionExampleKind,
+} from '../domain/entities/SuggestionExample.js';
+import {
+  categoriesForPayee,
+  checkCategoryProposal,
+  createCategoryGuardrails,
+  formatCategoryList,
+  type CategoryGuardrails,
+} from '../domain/entities/CategoryGuidance.js';
+import {
+  PROMPT_TEMPLATE_NAMES,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  type PromptTemplateName,
+} from '../domain/entities/PromptTemplate.js';
+import { NotFoundError, ValidationError } from '../domain/errors.js';
 import { logger } from '../infra/logger.js';
-import { payeeMatcher, type FuzzyMatchResult, type PayeeCandidate } from '../infra/PayeeMatcher.js';
+import {
+  payeeMatcher,
+  FUZZY_THRESHOLDS,
+  type FuzzyMatchResult,
+  type PayeeCandidate,
+} from '../infra/PayeeMatcher.js';
+import {
+  isTrainingSample,
+  predictCategory,
+  trainClassifier,
+  type ClassifierModel,
+} from '../infra/NaiveBayesClassifier.js';
+import {
+  categorySuggestionSchema,
+  fuzzyMatchDisambiguationSchema,
+  fuzzyMatchVerificationSchema,
+  offeredCategories,
+  payeeIdentificationSchema,
+} from './aiResponseSchemas.js';
 
 /** Threshold for caching high-confidence AI suggestions */
 const HIGH_CONFIDENCE_THRESHOLD = 0.85;
 
+/** Minimum calibrated confidence for a local classifier prediction to be proposed */
+const MIN_CLASSIFIER_CONFIDENCE = 0.4;
+
+/** Upper bound on backtest sample size (each uncached payee may cost LLM calls) */
+export const MAX_BACKTEST_SAMPLE_SIZE = 500;
+export const MAX_PROMPT_PREVIEW_SAMPLES = 10;
+
+/** Default and maximum age of transactions scanned by a recategorization review */
+export const DEFAULT_RECATEGORIZE_LOOKBACK_DAYS = 90;
+export const MAX_RECATEGORIZE_LOOKBACK_DAYS = 3650;
+
+/** Map a payee_category_cache entry source to the suggestion source it produces */
+function toCachedCategorySource(source: string): CategorySuggestionSource {
+  return source === 'user_approved' ? 'cache_user_approved' : 'cache_ai';
+}
+
+function isCachedCategorySource(source: CategorySuggestionSource): boolean {
+  return source === 'cache_user_approved' || source === 'cache_ai';
+}
+
 const PAYEE_IDENTIFICATION_SCHEMA = {
   type: 'object',
   additionalProperties: false,
@@ -31,12 +130,13 @@ const PAYEE_IDENTIFICATION_SCHEMA = {
 const CATEGORY_SUGGESTION_SCHEMA = {
   type: 'object',
   additionalProperties: false,
-  required: ['categoryId', 'categoryName', 'confidence', 'reasoning'],
+  required: ['categoryId', 'categoryName', 'confidence', 'reasoning', 'exampleIds'],
   properties: {
     categoryId: { type: ['string', 'null'] },
     categoryName: { type: ['string', 'null'] },
     confidence: { type: 'number' },
     reasoning: { type: 'string' },
+    exampleIds: { type: 'array', items: { type: 'string' } },
   },
 } as const;
 
@@ -52,6 +152,7 @@ const FUZZY_MATCH_VERIFICATION_SCHEMA = {
     'categoryName',
     'categoryConfidence',
     'categoryReasoning',
+    'exampleIds',
   ],
   properties: {
     isSameMerchant: { type: 'boolean' },
@@ -62,6 +163,7 @@ const FUZZY_MATCH_VERIFICATION_SCHEMA = {
     categoryName: { type: ['string', 'null'] },
     categoryConfidence: { type: 'number' },
     categoryReasoning: { type: 'string' },
+    exampleIds: { type: 'array', items: { type: 'string' } },
   },
 } as const;
 
@@ -77,6 +179,7 @@ const FUZZY_MATCH_DISAMBIGUATION_SCHEMA = {
     'categoryName',
     'categoryConfidence',
     'categoryReasoning',
+    'exampleIds',
   ],
   properties: {
     matchIndex: { type: ['integer', 'null'] },
@@ -87,6 +190,7 @@ const FUZZY_MATCH_DISAMBIGUATION_SCHEMA = {
     categoryName: { type: ['string', 'null'] },
     categoryConfidence: { type: 'number' },
     categoryReasoning: { type: 'string' },
+    exampleIds: { type: 'array', items: { type: 'string' } },
   },
 } as const;
 
@@ -98,6 +202,7 @@ interface PayeeSuggestionResult {
   confidence: number;
   rationale: string;
   source: 'cache' | 'fuzzy_match' | 'ai';
+  promptVersion?: string | null; // Set when an AI prompt produced it
 }
 
 /** Result of category suggestion for a payee */
@@ -107,7 +212,8 @@ interface CategorySuggestionResult {
   categoryName: string | null;
   confidence: number;
   rationale: string;
-  source: 'cache' | 'fuzzy_match' | 'ai_with_context' | 'ai_web_search';
+  source: CategorySuggestionSource;
+  promptVersion?: string | null; // Set when an AI prompt produced it
 }
 
 /** Combined suggestion result for a payee */
@@ -116,6 +222,42 @@ interface CombinedSuggestionResult {
   category: CategorySuggestionResult;
 }
 
+/** What a draft prompt template produced for one sample payee */
+export interface PromptPreviewSample {
+  payeeName: string;
+  transactionCount: number;
+  skippedReason: string | null; // Set when the template does not apply to this payee
+  payee: {
+    canonicalPayeeName: string | null;
+    confidence: number;
+    rationale: string;
+  } | null;
+  category: {
+    categoryId: string | null;
+    categoryName: string | null;
+    confidence: number;
+    rationale: string;
+  } | null;
+}
+
+/** Label recorded when every AI backend is unavailable and fuzzy matching is used instead */
+export const FUZZY_ONLY_BACKEND = 'fuzzy-only';
+
+/** Record which AI backend produced a rationale (the fallback chain may switch mid-batch) */
+function withBackend(rationale: string, backend: string): string {
+  return `${rationale.trim()} [via ${backend}]`;
+}
+
+function tagCombinedResult(
+  backend: string,
+  result: CombinedSuggestionResult
+): CombinedSuggestionResult {
+  return {
+    payee: { ...result.payee, rationale: withBackend(result.payee.rationale, backend) },
+    category: { ...result.category, rationale: withBackend(result.category.rationale, backend) },
+  };
+}
+
 /**
  * SuggestionService - generates AI suggestions for payees and categories
  * P1 (Single Responsibility): Focused on suggestion generation
@@ -126,17 +268,184 @@ interface CombinedSuggestionResult {
  * - Payee matches are cached in payee_match_cache
  * - Payee->Category mappings are cached in payee_category_cache
  * - Web search is used for unknown payees when no cache/fuzzy match exists
+ * - Without AI, a local naive Bayes classifier trained on categorized history proposes categories
  */
 export class SuggestionService {
+  /** Completions answered per AI backend, for each job counting them (see aiCallContext) */
+  private aiBackendAnswers = new Map<string, Map<string, number>>();
+
   constructor(
     private actualBudget: ActualBudgetAdapter,
     private ai: AIAdapter,
     private suggestionRepo: SuggestionRepository,
     private auditRepo: AuditRepository,
     private payeeCache?: PayeeCacheRepository,
-    private payeeMatchCache?: PayeeMatchCacheRepository
+    private payeeMatchCache?: PayeeMatchCacheRepository,
+    private payeeRuleRepo?: PayeeRuleSuggestionRepository,
+    private classifierRepo?: ClassifierModelRepository,
+    private backtestRepo?: BacktestRunRepository,
+    private feedbackRepo?: SuggestionFeedbackRepository,
+    private exampleRepo?: SuggestionExampleRepository,
+    private exampleTokenBudget = 0,
+    private categoryGuidanceService?: CategoryGuidanceService,
+    private promptTemplateService?: PromptTemplateService
   ) {}
 
+  /**
+   * Run an AI completion, noting which backend of the fallback chain answered
+   * The response is parsed with the call site's schema, which the AI adapter has already
+   * validated (and repaired) against
+   */
+  private async completeWithAI<T>(
+    options: CompletionOptions & { responseSchema: ZodType<T> }
+  ): Promise<CompletionResult & { data: T }> {
+    const result = await this.ai.completion(options);
+    this.countBackendAnswer(result.backend);
+    return { ...result, data: options.responseSchema.parse(parseJsonResponse(result.content)) };
+  }
+
+  private countBackendAnswer(backend: string): void {
+    const jobId = getAICallContext()?.jobId;
+    const answers = jobId ? this.aiBackendAnswers.get(jobId) : undefined;
+    answers?.set(backend, (answers.get(backend) ?? 0) + 1);
+  }
+
+  /**
+   * Past approvals and corrections for the payees most similar to this one, within the
+   * example token budget
+   */
+  private findPromptExamples(
+    budgetId: string,
+    payeeName: string,
+    kinds: SuggestionExampleKind[]
+  ): PromptExample[] {
+    if (!this.exampleRepo || this.exampleTokenBudget <= 0) return [];
+
+    const examples = this.exampleRepo
+      .listByBudget(budgetId)
+      .filter((example) => kinds.includes(example.kind));
+    if (examples.length === 0) return [];
+
+    // The candidate's payeeId carries the example id through the matcher
+    const byId = new Map(examples.map((example) => [example.id, example]));
+    const ranked = payeeMatcher
+      .findMatches(
+        payeeName,
+        examples.map((example) => ({
+          payeeId: example.id,
+          payeeName: example.payeeName,
+          payeeNameOriginal: example.payeeName,
+          categoryId: example.chosenId ?? '',
+          categoryName: example.chosenName,
+        })),
+        EXAMPLE_SELECTION.MIN_SIMILARITY
+      )
+      .flatMap((match) => byId.get(match.payeeId ?? '') ?? []);
+
+    return selectPromptExamples(ranked, this.exampleTokenBudget);
+  }
+
+  /**
+   * Keep a user decision as a few-shot example for later prompts
+   */
+  private recordExample(
+    suggestion: Suggestion,
+    kind: SuggestionExampleKind,
+    chosen: { id: string | null; name: string | null | undefined }
+  ): void {
+    if (!this.exampleRepo || !suggestion.transactionPayee || !chosen.name) return;
+    this.exampleRepo.save(
+      createSuggestionExample({
+        budgetId: suggestion.budgetId,
+        suggestionId: suggestion.id,
+        kind,
+        payeeName: suggestion.transactionPayee,
+        proposedName:
+          kind === 'payee'
+            ? suggestion.payeeSuggestion.proposedPayeeName
+            : suggestion.categorySuggestion.proposedCategoryName,
+        chosenId: chosen.id,
+        chosenName: chosen.name,
+      })
+    );
+  }
+
+  /**
+   * Instructions for a prompt and the version label stored on what it produces
+   * Previews pass draft instructions, labelled as a draft
+   */
+  private resolvePrompt(
+    budgetId: string,
+    name: PromptTemplateName,
+    draftInstructions?: string
+  ): { instructions: string; promptVersion: string } {
+    if (draftInstructions !== undefined) {
+      return { instructions: draftInstructions, promptVersion: `${name}@draft` };
+    }
+    const template =
+      this.promptTemplateService?.resolve(budgetId, name) ?? resolvePromptTemplate(name, null);
+    return { instructions: template.instructions, promptVersion: template.label };
+  }
+
+  /** Category guidance and account allowlists of a budget (none without the service) */
+  private getGuardrails(budgetId: string): CategoryGuardrails {
+    return (
+      this.categoryGuidanceService?.getGuardrails(budgetId) ?? createCategoryGuardrails([], [])
+    );
+  }
+
+  /** Category lines for prompts, with the budget's description and example payees */
+  private formatOfferedCategories(budgetId: string, categories: Category[]): string {
+    return formatCategoryList(offeredCategories(categories), this.getGuardrails(budgetId));
+  }
+
+  /**
+   * Drop a category proposal that breaks a guardrail for one transaction
+   * Prompts only offer allowed categories, but cached, fuzzy and classifier proposals never
+   * went through them
+   */
+  private enforceGuardrails(
+    category: CategorySuggestionResult,
+    guardrails: CategoryGuardrails,
+    payeeName: string,
+    accountId: string | null
+  ): CategorySuggestionResult {
+    if (!category.categoryId) return category;
+
+    const violation = checkCategoryProposal(
+      guardrails,
+      { categoryId: category.categoryId, categoryName: category.categoryName },
+      payeeName,
+      accountId
+    );
+    if (!violation) return category;
+
+    return {
+      ...category,
+      categoryId: null,
+      categoryName: null,
+      confidence: 0,
+      rationale: `Guardrail: ${violation}`,
+    };
+  }
+
+  /**
+   * Start counting the completions answered per backend (including fuzzy-only fallbacks) for
+   * calls made in the job's AI call context
+   */
+  startCountingAIBackends(jobId: string): void {
+    this.aiBackendAnswers.set(jobId, new Map());
+  }
+
+  /**
+   * Stop counting for the job and return what it counted
+   */
+  stopCountingAIBackends(jobId: string): Record<string, number> {
+    const answers = this.aiBackendAnswers.get(jobId);
+    this.aiBackendAnswers.delete(jobId);
+    return Object.fromEntries(answers ?? []);
+  }
+
   /**
    * Identify transactions that need an LLM retry because the previous attempt failed
    * Retry on actual LLM/API errors (empty rationale) or placeholders without a category suggestion
@@ -164,8 +473,15 @@ export class SuggestionService {
    *
    * Deduplication: Skips transactions that already have pending suggestions
    * Cleanup: Removes suggestions for deleted transactions
+   * Cancellation: Stops between payees and keeps the suggestions already saved
+   * Checkpoint: Payees finished by an earlier run of the same job are skipped
    */
-  async generateSuggestions(budgetId: string, useAI = true): Promise<Suggestion[]> {
+  async generateSuggestions(
+    budgetId: string,
+    useAI = true,
+    cancellation?: CancellationToken,
+    checkpoint?: JobCheckpoint
+  ): Promise<Suggestion[]> {
     logger.info('Generating suggestions', { budgetId, useAI });
 
     // Get existing suggestions and filter out failed ones so they can be retried
@@ -192,15 +508,27 @@ export class SuggestionService {
     }
 
     const uncategorizedTransactionIds = new Set(
-      transactions.filter((txn) => txn.categoryId === null && !txn.isTransfer).map((txn) => txn.id)
+      transactions.filter(isUncategorizedTransaction).map((txn) => txn.id)
     );
-    const resolvedCleaned = this.suggestionRepo.cleanupResolvedSuggestions(
+    const resolved = this.suggestionRepo.cleanupResolvedSuggestions(
       budgetId,
-      uncategorizedTransactionIds
+      uncategorizedTransactionIds,
+      new Map(transactions.map((txn) => [txn.id, txn.categoryId]))
     );
-    if (resolvedCleaned > 0) {
+    if (resolved.length > 0) {
       logger.info('Cleaned up resolved suggestions for categorized transactions', {
-        count: resolvedCleaned,
+        count: resolved.length,
+      });
+      this.learnFromResolvedSuggestions(budgetId, resolved, transactions);
+    }
+
+    // Promote well-established payee→category mappings to rule suggestions
+    try {
+      await this.refreshPayeeRuleSuggestions(budgetId);
+    } catch (error) {
+      logger.warn('Failed to refresh payee rule suggestions', {
+        budgetId,
+        error: error instanceof Error ? error.message : String(error),
       });
     }
 
@@ -219,7 +547,7 @@ export class SuggestionService {
 
     // Filter uncategorized transactions, excluding those with existing pending suggestions
     const uncategorized = transactions.filter(
-      (txn) => txn.categoryId === null && !txn.isTransfer && !skipTxIds.has(txn.id)
+      (txn) => isUncategorizedTransaction(txn) && !skipTxIds.has(txn.id)
     );
 
     const transferSkipped = transactions.filter((txn) => txn.isTransfer).length;
@@ -275,6 +603,7 @@ export class SuggestionService {
           proposedCategoryName: cacheEntry.categoryName,
           categoryConfidence: cacheEntry.confidence,
           categoryRationale: `Cached: ${cacheEntry.source === 'user_approved' ? 'Previously approved by user' : 'High-confidence AI suggestion'}`,
+          categorySource: toCachedCategorySource(cacheEntry.source),
         });
         this.suggestionRepo.save(suggestion);
         suggestions.push(suggestion);
@@ -288,11 +617,15 @@ export class SuggestionService {
         uncached,
         byPayee,
         categories,
-        useAI
+        useAI,
+        cancellation,
+        checkpoint
       );
       suggestions.push(...aiSuggestions);
     }
 
+    const splitCount = this.attachSplitSuggestions(suggestions, transactions);
+
     // Log audit event
     this.auditRepo.log({
       eventType: 'suggestions_generated',
@@ -300,9 +633,11 @@ export class SuggestionService {
       entityId: budgetId,
       metadata: {
         suggestionsCount: suggestions.length,
+        splitSuggestionsCount: splitCount,
         uncategorizedCount: uncategorized.length,
         cacheHits: cachedCategories.size,
         llmCalls: useAI && uncached.length > 0 ? 1 : 0,
+        canceled: cancellation?.isCanceled === true,
       },
     });
 
@@ -334,6 +669,47 @@ export class SuggestionService {
     return groups;
   }
 
+  /**
+   * Attach split proposals to suggestions whose payee is usually split across categories
+   * Learned from the payee's past split transactions; returns the number of splits attached
+   */
+  private attachSplitSuggestions(suggestions: Suggestion[], transactions: Transaction[]): number {
+    const historyByPayee = new Map<string, Transaction[]>();
+    for (const txn of transactions) {
+      if (!txn.payeeName || txn.isTransfer || isUncategorizedTransaction(txn)) continue;
+      const history = historyByPayee.get(txn.payeeName) ?? [];
+      history.push(txn);
+      historyByPayee.set(txn.payeeName, history);
+    }
+
+    let attached = 0;
+    for (let i = 0; i < suggestions.length; i++) {
+      const suggestion = suggestions[i];
+      if (!suggestion.transactionPayee || suggestion.transactionAmount === null) continue;
+
+      const history = historyByPayee.get(suggestion.transactionPayee);
+      if (!history) continue;
+
+      const split = learnSplitSuggestion(history, suggestion.transactionAmount);
+      if (!split) continue;
+
+      const updated: Suggestion = {
+        ...suggestion,
+        splitSuggestion: { ...split, status: 'pending' },
+        updatedAt: new Date().toISOString(),
+      };
+      this.suggestionRepo.save(updated);
+      suggestions[i] = updated;
+      attached++;
+    }
+
+    if (attached > 0) {
+      logger.info('Attached split suggestions', { count: attached });
+    }
+
+    return attached;
+  }
+
   /**
    * Check payee category cache for known payee→category mappings
    */
@@ -382,18 +758,6 @@ export class SuggestionService {
     return { cached, uncached };
   }
 
-  /** System instructions for payee identification */
-  private readonly PAYEE_IDENTIFICATION_INSTRUCTIONS = `You are a personal finance assistant helping identify transaction payees.
-
-Your task:
-1. Use web search to identify what business/merchant this is
-2. Determine the canonical/clean name of this merchant
-3. If it's a well-known business, provide the standard name (e.g., "AMZN MKTP" → "Amazon")
-4. If uncertain, return the cleaned-up version of the input
-
-Respond with a single JSON object (no markdown, no explanation):
-{"canonicalPayeeName":"...","confidence":0.0-1.0,"reasoning":"..."}`;
-
   /**
    * Build input for payee identification
    */
@@ -401,31 +765,18 @@ Respond with a single JSON object (no markdown, no explanation):
     return `Raw payee name from bank: "${rawPayeeName}"`;
   }
 
-  /** System instructions for category suggestion */
-  private readonly CATEGORY_SUGGESTION_INSTRUCTIONS = `You are a personal finance assistant helping categorize transactions.
-
-Your task:
-1. Consider any similar payees provided as hints
-2. Use web search if needed to identify merchant type
-3. Match to the most appropriate category from the provided list
-4. If uncertain, set categoryId and categoryName to null
-
-Respond with a single JSON object (no markdown, no explanation):
-{"categoryId":"...","categoryName":"...","confidence":0.0-1.0,"reasoning":"..."}`;
-
   /**
    * Build input for category suggestion with context from matched payees
    */
   private buildCategorySuggestionInput(
+    budgetId: string,
     payeeName: string,
     canonicalPayeeName: string | null,
     categories: Category[],
-    matchedPayeeCategories: Array<{ payeeName: string; categoryName: string; categoryId: string }>
+    matchedPayeeCategories: Array<{ payeeName: string; categoryName: string; categoryId: string }>,
+    examples: PromptExample[]
   ): string {
-    const categoryList = categories
-      .filter((cat) => !cat.hidden && !cat.isIncome)
-      .map((cat) => `${cat.id}|${cat.name}|${cat.groupName}`)
-      .join('\n');
+    const categoryList = this.formatOfferedCategories(budgetId, categories);
 
     const contextSection =
       matchedPayeeCategories.length > 0
@@ -434,16 +785,25 @@ Respond with a single JSON object (no markdown, no explanation):
 
     return `Payee: ${canonicalPayeeName || payeeName}
 ${canonicalPayeeName && canonicalPayeeName !== payeeName ? `(Original: ${payeeName})` : ''}
-${contextSection}
-Categories (id|name|group):
+${contextSection}${formatExamplesSection(examples)}
+Categories (id|name|group|notes):
 ${categoryList}`;
   }
 
   /**
    * Identify canonical payee name via LLM with web search
    */
-  private async identifyPayee(rawPayeeName: string): Promise<PayeeSuggestionResult> {
+  private async identifyPayee(
+    budgetId: string,
+    rawPayeeName: string,
+    draftInstructions?: string
+  ): Promise<PayeeSuggestionResult> {
     try {
+      const { instructions, promptVersion } = this.resolvePrompt(
+        budgetId,
+        'payee_identification',
+        draftInstructions
+      );
       const input = this.buildPayeeIdentificationInput(rawPayeeName);
       const canWebSearch = this.ai.getCapabilities().supportsWebSearch;
       logger.debug('Calling AI for payee identification', {
@@ -452,24 +812,27 @@ ${categoryList}`;
         webSearch: canWebSearch,
       });
 
-      const response = await this.ai.completion({
-        instructions: this.PAYEE_IDENTIFICATION_INSTRUCTIONS,
+      const { data: result, backend } = await this.completeWithAI({
+        instructions,
         input,
+        task: 'payee_identification',
+        budgetId,
         webSearch: canWebSearch,
         jsonSchema: {
           name: 'payee_identification',
           schema: PAYEE_IDENTIFICATION_SCHEMA,
         },
+        responseSchema: payeeIdentificationSchema,
       });
-      const result = parseJsonResponse<Record<string, unknown>>(response);
 
       return {
         payeeName: rawPayeeName,
         canonicalPayeeId: null, // Will be matched later if payee exists in budget
-        canonicalPayeeName: (result.canonicalPayeeName as string) || rawPayeeName,
-        confidence: (result.confidence as number) ?? 0.7,
-        rationale: (result.reasoning as string) || 'AI-identified payee',
+        canonicalPayeeName: result.canonicalPayeeName,
+        confidence: result.confidence,
+        rationale: withBackend(result.reasoning || 'AI-identified payee', backend),
         source: 'ai',
+        promptVersion,
       };
     } catch (error) {
       logger.warn('Payee identification failed', {
@@ -492,17 +855,27 @@ ${categoryList}`;
    * Always uses web search to properly identify merchant type
    */
   private async suggestCategory(
+    budgetId: string,
     payeeName: string,
     canonicalPayeeName: string | null,
     categories: Category[],
-    matchedPayeeCategories: Array<{ payeeName: string; categoryName: string; categoryId: string }>
+    matchedPayeeCategories: Array<{ payeeName: string; categoryName: string; categoryId: string }>,
+    draftInstructions?: string
   ): Promise<CategorySuggestionResult> {
     try {
+      const { instructions, promptVersion } = this.resolvePrompt(
+        budgetId,
+        'category_suggestion',
+        draftInstructions
+      );
+      const examples = this.findPromptExamples(budgetId, payeeName, ['category']);
       const input = this.buildCategorySuggestionInput(
+        budgetId,
         payeeName,
         canonicalPayeeName,
         categories,
-        matchedPayeeCategories
+        matchedPayeeCategories,
+        examples
       );
 
       const canWebSearch = this.ai.getCapabilities().supportsWebSearch;
@@ -510,29 +883,38 @@ ${categoryList}`;
         payeeName,
         canonicalPayeeName,
         matchedPayeesCount: matchedPayeeCategories.length,
+        examplesCount: examples.length,
         backend: this.ai.getBackendName(),
         webSearch: canWebSearch,
       });
 
-      const response = await this.ai.completion({
-        instructions: this.CATEGORY_SUGGESTION_INSTRUCTIONS,
+      const { data: result, backend } = await this.completeWithAI({
+        instructions,
         input,
+        task: 'category_suggestion',
+        budgetId,
         webSearch: canWebSearch,
         jsonSchema: {
           name: 'category_suggestion',
           schema: CATEGORY_SUGGESTION_SCHEMA,
         },
+        responseSchema: categorySuggestionSchema(
+          categories,
+          examples.map((entry) => entry.label)
+        ),
       });
 
-      const result = parseJsonResponse<Record<string, unknown>>(response);
-
       return {
         payeeName,
-        categoryId: (result.categoryId as string) || null,
-        categoryName: (result.categoryName as string) || null,
-        confidence: (result.confidence as number) ?? 0.5,
-        rationale: (result.reasoning as string) || 'AI-suggested category',
+        categoryId: result.categoryId,
+        categoryName: result.categoryName,
+        confidence: result.confidence,
+        rationale: withBackend(
+          `${result.reasoning || 'AI-suggested category'}${describeExampleInfluence(examples, result.exampleIds, 'category')}`,
+          backend
+        ),
         source: 'ai_web_search',
+        promptVersion,
       };
     } catch (error) {
       logger.warn('Category suggestion failed', {
@@ -552,8 +934,14 @@ ${categoryList}`;
 
   /**
    * Build candidates pool for fuzzy matching from cache and categorized payees
+   * Backtests pass their own categorized payees so hidden transactions are not used as candidates
    */
-  private async buildFuzzyMatchCandidates(budgetId: string): Promise<PayeeCandidate[]> {
+  private async buildFuzzyMatchCandidates(
+    budgetId: string,
+    categorizedPayeesOverride?: Array<
+      Pick<CategorizedPayee, 'payeeName' | 'categoryId' | 'categoryName'>
+    >
+  ): Promise<PayeeCandidate[]> {
     const candidates: PayeeCandidate[] = [];
     const seenPayees = new Set<string>();
 
@@ -575,7 +963,8 @@ ${categoryList}`;
     }
 
     // Add categorized payees from Actual Budget (those with historical categorized transactions)
-    const categorizedPayees = await this.actualBudget.getCategorizedPayees();
+    const categorizedPayees =
+      categorizedPayeesOverride ?? (await this.actualBudget.getCategorizedPayees());
     for (const payee of categorizedPayees) {
       const normalized = payeeMatcher.normalize(payee.payeeName);
       if (!seenPayees.has(normalized)) {
@@ -599,96 +988,93 @@ ${categoryList}`;
     return candidates;
   }
 
-  /** System instructions for fuzzy match verification */
-  private readonly FUZZY_MATCH_INSTRUCTIONS = `You are a personal finance assistant verifying if two payee names refer to the same merchant.
-
-Your task:
-1. Determine if the two payee names refer to the same merchant/entity
-2. If they match, suggest the appropriate category (could be same or different)
-3. Suggest a canonical/clean payee name if the names are variants of the same merchant
-
-Respond with JSON only (no markdown):
-{
-  "isSameMerchant": true/false,
-  "canonicalPayeeName": "...",
-  "payeeConfidence": 0.0-1.0,
-  "payeeReasoning": "...",
-  "categoryId": "...", 
-  "categoryName": "...",
-  "categoryConfidence": 0.0-1.0,
-  "categoryReasoning": "..."
-}`;
-
   /**
    * Verify a high-confidence fuzzy match with LLM
    * Returns separate payee and category suggestions
    */
   private async verifyFuzzyMatch(
+    budgetId: string,
     rawPayee: string,
     matchedPayee: string,
     matchedCategory: string,
     matchedCategoryId: string,
     matchScore: number,
-    categories: Category[]
+    categories: Category[],
+    draftInstructions?: string
   ): Promise<CombinedSuggestionResult> {
-    const categoryList = categories
-      .filter((cat) => !cat.hidden && !cat.isIncome)
-      .map((cat) => `${cat.id}|${cat.name}|${cat.groupName}`)
-      .join('\n');
+    const { instructions, promptVersion } = this.resolvePrompt(
+      budgetId,
+      'fuzzy_match_verification',
+      draftInstructions
+    );
+    const categoryList = this.formatOfferedCategories(budgetId, categories);
 
+    const examples = this.findPromptExamples(budgetId, rawPayee, ['payee', 'category']);
     const input = `Transaction payee: "${rawPayee}"
 Similar payee found: "${matchedPayee}" (similarity score: ${matchScore}%)
 Usually categorized as: "${matchedCategory}"
-
-Categories (id|name|group):
+${formatExamplesSection(examples)}
+Categories (id|name|group|notes):
 ${categoryList}`;
 
     try {
-      const response = await this.ai.completion({
-        instructions: this.FUZZY_MATCH_INSTRUCTIONS,
+      const {
+        content: response,
+        data: result,
+        backend,
+      } = await this.completeWithAI({
+        instructions,
         input,
+        task: 'fuzzy_match_verification',
+        budgetId,
         webSearch: false,
         jsonSchema: {
           name: 'fuzzy_match_verification',
           schema: FUZZY_MATCH_VERIFICATION_SCHEMA,
         },
+        responseSchema: fuzzyMatchVerificationSchema(
+          categories,
+          examples.map((entry) => entry.label)
+        ),
       });
 
       logger.info('AI response for fuzzy match verification', {
         rawPayee,
         matchedPayee,
         responseLength: response.length,
-        backend: this.ai.getBackendName(),
+        backend,
       });
 
-      const result = parseJsonResponse<Record<string, unknown>>(response);
-
-      if (result.isSameMerchant === true) {
-        return {
+      const payeeInfluence = describeExampleInfluence(examples, result.exampleIds, 'payee');
+      const categoryInfluence = describeExampleInfluence(examples, result.exampleIds, 'category');
+      if (result.isSameMerchant) {
+        return tagCombinedResult(backend, {
           payee: {
             payeeName: rawPayee,
             canonicalPayeeId: null,
-            canonicalPayeeName: (result.canonicalPayeeName as string) || matchedPayee,
-            confidence: (result.payeeConfidence as number) ?? 0.8,
-            rationale: `Matched "${matchedPayee}" (${matchScore}%). ${result.payeeReasoning || ''}`,
+            canonicalPayeeName: result.canonicalPayeeName || matchedPayee,
+            confidence: result.payeeConfidence,
+            rationale: `Matched "${matchedPayee}" (${matchScore}%). ${result.payeeReasoning || ''}${payeeInfluence}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
           category: {
             payeeName: rawPayee,
-            categoryId: (result.categoryId as string) || matchedCategoryId,
-            categoryName: (result.categoryName as string) || matchedCategory,
-            confidence: (result.categoryConfidence as number) ?? 0.8,
-            rationale: `Matched payee "${matchedPayee}". ${result.categoryReasoning || ''}`,
+            categoryId: result.categoryId || matchedCategoryId,
+            categoryName: result.categoryName || matchedCategory,
+            confidence: result.categoryConfidence,
+            rationale: `Matched payee "${matchedPayee}". ${result.categoryReasoning || ''}${categoryInfluence}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
-        };
+        });
       } else {
         logger.info('Fuzzy match rejected by LLM', {
           rawPayee,
           matchedPayee,
           reasoning: result.payeeReasoning,
         });
-        return {
+        return tagCombinedResult(backend, {
           payee: {
             payeeName: rawPayee,
             canonicalPayeeId: null,
@@ -696,6 +1082,7 @@ ${categoryList}`;
             confidence: 0,
             rationale: `Not same as "${matchedPayee}". ${result.payeeReasoning || ''}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
           category: {
             payeeName: rawPayee,
@@ -704,8 +1091,9 @@ ${categoryList}`;
             confidence: 0,
             rationale: 'Fuzzy match rejected',
             source: 'fuzzy_match',
+            promptVersion,
           },
-        };
+        });
       }
     } catch (error) {
       logger.error('Failed to verify fuzzy match', {
@@ -739,9 +1127,11 @@ ${categoryList}`;
    * Returns separate payee and category suggestions
    */
   private async disambiguateFuzzyMatches(
+    budgetId: string,
     rawPayee: string,
     candidates: FuzzyMatchResult[],
-    categories: Category[]
+    categories: Category[],
+    draftInstructions?: string
   ): Promise<CombinedSuggestionResult> {
     if (candidates.length === 0) {
       return {
@@ -768,99 +1158,98 @@ ${categoryList}`;
       .map((c, i) => `${i + 1}. "${c.payeeName}" (${c.score}% similar) → ${c.categoryName}`)
       .join('\n');
 
-    const categoryList = categories
-      .filter((cat) => !cat.hidden && !cat.isIncome)
-      .map((cat) => `${cat.id}|${cat.name}|${cat.groupName}`)
-      .join('\n');
+    const categoryList = this.formatOfferedCategories(budgetId, categories);
 
-    const instructions = `You are a personal finance assistant helping match payees from transaction data.
-
-Your task:
-1. Determine if any of the candidate payees match the transaction payee (same merchant/entity)
-2. If a match is found, return its index and suggest the appropriate category
-3. If no match, return matchIndex: null and suggest a category based on your knowledge
-
-Respond with JSON only (no markdown):
-{
-  "matchIndex": 1-${candidates.length} or null,
-  "canonicalPayeeName": "...",
-  "payeeConfidence": 0.0-1.0,
-  "payeeReasoning": "...",
-  "categoryId": "...",
-  "categoryName": "...",
-  "categoryConfidence": 0.0-1.0,
-  "categoryReasoning": "..."
-}`;
+    const prompt = this.resolvePrompt(budgetId, 'fuzzy_match_disambiguation', draftInstructions);
+    const instructions = renderPromptTemplate(prompt.instructions, {
+      candidateCount: candidates.length,
+    });
+    const { promptVersion } = prompt;
 
+    const examples = this.findPromptExamples(budgetId, rawPayee, ['payee', 'category']);
     const input = `Transaction payee: "${rawPayee}"
 
 Similar payees found in budget:
 ${candidateList}
-
-Categories (id|name|group):
+${formatExamplesSection(examples)}
+Categories (id|name|group|notes):
 ${categoryList}`;
 
     try {
-      const response = await this.ai.completion({
+      const {
+        content: response,
+        data: result,
+        backend,
+      } = await this.completeWithAI({
         instructions,
         input,
+        task: 'fuzzy_match_disambiguation',
+        budgetId,
         webSearch: false,
         jsonSchema: {
           name: 'fuzzy_match_disambiguation',
           schema: FUZZY_MATCH_DISAMBIGUATION_SCHEMA,
         },
+        responseSchema: fuzzyMatchDisambiguationSchema(
+          categories,
+          candidates.length,
+          examples.map((entry) => entry.label)
+        ),
       });
 
       logger.info('AI response for fuzzy match disambiguation', {
         rawPayee,
         candidateCount: candidates.length,
         responseLength: response.length,
-        backend: this.ai.getBackendName(),
+        backend,
       });
 
-      const result = parseJsonResponse<Record<string, unknown>>(response);
-
-      const matchIndex = result.matchIndex as number | null;
-      if (matchIndex !== null && matchIndex >= 1 && matchIndex <= candidates.length) {
-        const matchedCandidate = candidates[matchIndex - 1];
-        return {
+      const payeeInfluence = describeExampleInfluence(examples, result.exampleIds, 'payee');
+      const categoryInfluence = describeExampleInfluence(examples, result.exampleIds, 'category');
+      if (result.matchIndex !== null) {
+        const matchedCandidate = candidates[result.matchIndex - 1];
+        return tagCombinedResult(backend, {
           payee: {
             payeeName: rawPayee,
             canonicalPayeeId: null,
-            canonicalPayeeName: (result.canonicalPayeeName as string) || matchedCandidate.payeeName,
-            confidence: (result.payeeConfidence as number) ?? 0.7,
-            rationale: `Matched "${matchedCandidate.payeeName}" (${matchedCandidate.score}%). ${result.payeeReasoning || ''}`,
+            canonicalPayeeName: result.canonicalPayeeName || matchedCandidate.payeeName,
+            confidence: result.payeeConfidence,
+            rationale: `Matched "${matchedCandidate.payeeName}" (${matchedCandidate.score}%). ${result.payeeReasoning || ''}${payeeInfluence}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
           category: {
             payeeName: rawPayee,
-            categoryId: (result.categoryId as string) || matchedCandidate.categoryId,
-            categoryName: (result.categoryName as string) || matchedCandidate.categoryName,
-            confidence: (result.categoryConfidence as number) ?? 0.7,
-            rationale: `Matched payee category. ${result.categoryReasoning || ''}`,
+            categoryId: result.categoryId || matchedCandidate.categoryId,
+            categoryName: result.categoryName || matchedCandidate.categoryName,
+            confidence: result.categoryConfidence,
+            rationale: `Matched payee category. ${result.categoryReasoning || ''}${categoryInfluence}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
-        };
+        });
       } else {
         // No match found, but LLM may have suggested a category
-        return {
+        return tagCombinedResult(backend, {
           payee: {
             payeeName: rawPayee,
             canonicalPayeeId: null,
-            canonicalPayeeName: (result.canonicalPayeeName as string) || null,
-            confidence: (result.payeeConfidence as number) ?? 0,
-            rationale: `No match found. ${result.payeeReasoning || ''}`,
+            canonicalPayeeName: result.canonicalPayeeName,
+            confidence: result.payeeConfidence,
+            rationale: `No match found. ${result.payeeReasoning || ''}${payeeInfluence}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
           category: {
             payeeName: rawPayee,
-            categoryId: (result.categoryId as string) || null,
-            categoryName: (result.categoryName as string) || null,
-            confidence: (result.categoryConfidence as number) ?? 0.5,
-            rationale: (result.categoryReasoning as string) || 'No matching payee',
+            categoryId: result.categoryId,
+            categoryName: result.categoryName,
+            confidence: result.categoryConfidence,
+            rationale: `${result.categoryReasoning || 'No matching payee'}${categoryInfluence}`,
             source: 'fuzzy_match',
+            promptVersion,
           },
-        };
+        });
       }
     } catch (error) {
       logger.error('Failed to disambiguate fuzzy matches', {
@@ -904,6 +1293,17 @@ ${categoryList}`;
       return this.generateHeuristicSuggestion(rawPayeeName, fuzzyMatchCandidates, budgetId);
     }
 
+    // Every backend's circuit is open or the monthly spending cap is reached: degrade to
+    // fuzzy matching instead of failing the payee
+    if (this.ai.isAvailable && !this.ai.isAvailable()) {
+      logger.warn('AI unavailable, using fuzzy matching', { rawPayeeName });
+      this.countBackendAnswer(FUZZY_ONLY_BACKEND);
+      return tagCombinedResult(
+        FUZZY_ONLY_BACKEND,
+        this.generateHeuristicSuggestion(rawPayeeName, fuzzyMatchCandidates, budgetId)
+      );
+    }
+
     // Step 1: Check payee match cache
     if (this.payeeMatchCache) {
       const cachedPayee = this.payeeMatchCache.findByPayee(budgetId, rawPayeeName);
@@ -950,6 +1350,7 @@ ${categoryList}`;
       });
 
       const verified = await this.verifyFuzzyMatch(
+        budgetId,
         rawPayeeName,
         highConfidenceMatch.payeeName,
         highConfidenceMatch.categoryName,
@@ -976,6 +1377,7 @@ ${categoryList}`;
       });
 
       const disambiguated = await this.disambiguateFuzzyMatches(
+        budgetId,
         rawPayeeName,
         disambiguationCandidates,
         categories
@@ -990,10 +1392,11 @@ ${categoryList}`;
     logger.info('No fuzzy match, using AI with web search', { rawPayeeName });
 
     // First identify the payee
-    const payeeResult = await this.identifyPayee(rawPayeeName);
+    const payeeResult = await this.identifyPayee(budgetId, rawPayeeName);
 
     // Then suggest category with web search
     const categoryResult = await this.suggestCategory(
+      budgetId,
       rawPayeeName,
       payeeResult.canonicalPayeeName,
       categories,
@@ -1056,7 +1459,7 @@ ${categoryList}`;
                 categoryName: cachedCategory.categoryName,
                 confidence: cachedCategory.confidence,
                 rationale: `Cached: ${cachedCategory.source === 'user_approved' ? 'Previously approved' : 'High-confidence AI'}`,
-                source: 'cache',
+                source: toCachedCategorySource(cachedCategory.source),
               },
             };
           }
@@ -1076,38 +1479,511 @@ ${categoryList}`;
           };
         }
 
-        return {
-          payee: payeeResult,
-          category: {
-            ...emptyCategory,
-            rationale: 'No heuristic category match',
-          },
-        };
-      }
+        return {
+          payee: payeeResult,
+          category: {
+            ...emptyCategory,
+            rationale: 'No heuristic category match',
+          },
+        };
+      }
+    }
+
+    if (bestMatch) {
+      return {
+        payee: {
+          payeeName: rawPayeeName,
+          canonicalPayeeId: bestMatch.payeeId ?? null,
+          canonicalPayeeName: bestMatch.payeeName,
+          confidence: bestMatch.score / 100,
+          rationale: `Heuristic match: "${bestMatch.payeeName}" (${bestMatch.score}%)`,
+          source: 'fuzzy_match',
+        },
+        category: {
+          payeeName: rawPayeeName,
+          categoryId: bestMatch.categoryId,
+          categoryName: bestMatch.categoryName,
+          confidence: bestMatch.score / 100,
+          rationale: `Heuristic match: "${bestMatch.payeeName}" (${bestMatch.score}%)`,
+          source: 'fuzzy_match',
+        },
+      };
+    }
+
+    return { payee: emptyPayee, category: emptyCategory };
+  }
+
+  /**
+   * Prefer the local classifier over a heuristic match when it is more confident
+   * Cached mappings always win since they reflect explicit approvals.
+   */
+  private applyClassifierPrediction(
+    category: CategorySuggestionResult,
+    model: ClassifierModel,
+    txn: Transaction
+  ): CategorySuggestionResult {
+    if (isCachedCategorySource(category.source)) return category;
+
+    const prediction = predictCategory(model, txn);
+    if (
+      !prediction ||
+      prediction.confidence < MIN_CLASSIFIER_CONFIDENCE ||
+      prediction.confidence <= category.confidence
+    ) {
+      return category;
+    }
+
+    return {
+      payeeName: category.payeeName,
+      categoryId: prediction.categoryId,
+      categoryName: prediction.categoryName,
+      confidence: prediction.confidence,
+      rationale: `Local classifier: ${Math.round(prediction.probability * 100)}% likely based on ${model.sampleCount} categorized transactions`,
+      source: 'local_classifier',
+    };
+  }
+
+  /**
+   * Retrain the local classifier from categorized history
+   * Keeps the previous model when there is not enough history to learn from
+   */
+  retrainClassifier(budgetId: string, transactions: Transaction[]): ClassifierModel | null {
+    if (!this.classifierRepo) return null;
+
+    const model = trainClassifier(transactions);
+    if (!model) {
+      logger.info('Not enough categorized history to train local classifier', { budgetId });
+      return null;
+    }
+
+    this.classifierRepo.save(budgetId, model);
+
+    const metadata = {
+      sampleCount: model.sampleCount,
+      categoryCount: Object.keys(model.categories).length,
+      holdoutAccuracy: model.holdoutAccuracy,
+    };
+    this.auditRepo.log({
+      eventType: 'classifier_trained',
+      entityType: 'BudgetSnapshot',
+      entityId: budgetId,
+      metadata,
+    });
+    logger.info('Local classifier trained', { budgetId, ...metadata });
+
+    return model;
+  }
+
+  /**
+   * Score the categorization pipeline against already-categorized history
+   * Hides the categories of a random sample and runs it through cache → fuzzy → classifier/AI.
+   * Nothing is written to suggestions or caches; the scored run is stored for comparison.
+   */
+  async runBacktest(
+    budgetId: string,
+    options: { sampleSize: number; useAI: boolean; jobId?: string | null }
+  ): Promise<BacktestRun> {
+    if (options.sampleSize < 1 || options.sampleSize > MAX_BACKTEST_SAMPLE_SIZE) {
+      throw new ValidationError(`sampleSize must be between 1 and ${MAX_BACKTEST_SAMPLE_SIZE}`);
+    }
+
+    logger.info('Running suggestions backtest', { budgetId, ...options });
+
+    const [transactions, categories] = await Promise.all([
+      this.actualBudget.getTransactions(),
+      this.actualBudget.getCategories(),
+    ]);
+
+    const eligible = transactions.filter((txn) => isTrainingSample(txn) && Boolean(txn.payeeName));
+    if (eligible.length === 0) {
+      throw new ValidationError('No categorized transactions available to backtest');
+    }
+
+    const sample = this.sampleTransactions(eligible, options.sampleSize);
+    const hiddenIds = new Set(sample.map((txn) => txn.id));
+    const history = transactions.filter((txn) => !hiddenIds.has(txn.id));
+
+    const fuzzyMatchCandidates = await this.buildFuzzyMatchCandidates(
+      budgetId,
+      this.getCategorizedPayeesFromHistory(history)
+    );
+    const classifier = options.useAI ? null : trainClassifier(history);
+
+    const byPayee = this.groupByPayee(sample);
+    const cacheEntries = this.payeeCache
+      ? this.payeeCache.findByPayees(budgetId, Array.from(byPayee.keys()), { trackHits: false })
+      : new Map();
+
+    const outcomes: BacktestOutcome[] = [];
+    for (const [payeeName, txns] of byPayee) {
+      const cacheEntry = cacheEntries.get(PayeeCacheRepository.normalizePayeeName(payeeName));
+      const pipelineCategory: CategorySuggestionResult = cacheEntry
+        ? {
+            payeeName,
+            categoryId: cacheEntry.categoryId,
+            categoryName: cacheEntry.categoryName,
+            confidence: cacheEntry.confidence,
+            rationale: 'Cached',
+            source: toCachedCategorySource(cacheEntry.source),
+          }
+        : (
+            await this.generateCombinedSuggestion(
+              payeeName,
+              categories,
+              fuzzyMatchCandidates,
+              budgetId,
+              options.useAI
+            )
+          ).category;
+
+      for (const txn of txns) {
+        const category = classifier
+          ? this.applyClassifierPrediction(pipelineCategory, classifier, txn)
+          : pipelineCategory;
+
+        outcomes.push({
+          transactionId: txn.id,
+          payeeName,
+          actualCategoryId: txn.categoryId as string,
+          actualCategoryName: txn.categoryName,
+          predictedCategoryId: category.categoryId,
+          predictedCategoryName: category.categoryName,
+          confidence: category.confidence,
+          source: category.source,
+        });
+      }
+    }
+
+    const run = createBacktestRun({
+      budgetId,
+      jobId: options.jobId,
+      useAI: options.useAI,
+      sampleSize: options.sampleSize,
+      config: {
+        aiBackend: options.useAI ? this.ai.getBackendName() : null,
+        eligibleCount: eligible.length,
+        highConfidenceThreshold: HIGH_CONFIDENCE_THRESHOLD,
+        fuzzyHighConfidence: FUZZY_THRESHOLDS.HIGH_CONFIDENCE,
+        minClassifierConfidence: MIN_CLASSIFIER_CONFIDENCE,
+        classifierSamples: classifier?.sampleCount ?? null,
+        promptVersions: options.useAI
+          ? PROMPT_TEMPLATE_NAMES.map((name) => this.resolvePrompt(budgetId, name).promptVersion)
+          : null,
+      },
+      outcomes,
+    });
+    this.backtestRepo?.save(run);
+
+    this.auditRepo.log({
+      eventType: 'suggestions_backtested',
+      entityType: 'BacktestRun',
+      entityId: run.id,
+      metadata: {
+        budgetId,
+        useAI: run.useAI,
+        evaluatedCount: run.evaluatedCount,
+        accuracy: run.accuracy,
+        coverage: run.coverage,
+      },
+    });
+
+    logger.info('Suggestions backtest completed', {
+      budgetId,
+      runId: run.id,
+      evaluatedCount: run.evaluatedCount,
+      accuracy: run.accuracy,
+      coverage: run.coverage,
+    });
+
+    return run;
+  }
+
+  /**
+   * List stored backtest runs for a budget (newest first, without outcomes)
+   */
+  listBacktestRuns(budgetId: string): BacktestRun[] {
+    return this.backtestRepo?.findByBudgetId(budgetId) ?? [];
+  }
+
+  /**
+   * Get a backtest run with its per-transaction outcomes
+   * P7 (Explicit error handling): Throws NotFoundError if the run doesn't exist
+   */
+  getBacktestRun(runId: string): BacktestRun {
+    const run = this.backtestRepo?.findById(runId);
+    if (!run) {
+      throw new NotFoundError('BacktestRun', runId);
+    }
+    return run;
+  }
+
+  /**
+   * Run draft template instructions against a few uncategorized payees without saving anything
+   * Fuzzy templates only apply to payees with fuzzy match candidates; others are skipped
+   */
+  async previewPromptTemplate(
+    budgetId: string,
+    name: unknown,
+    instructions: unknown,
+    sampleSize = 3
+  ): Promise<PromptPreviewSample[]> {
+    if (!this.promptTemplateService) {
+      throw new ValidationError('Prompt templates are not available');
+    }
+    if (
+      !Number.isInteger(sampleSize) ||
+      sampleSize < 1 ||
+      sampleSize > MAX_PROMPT_PREVIEW_SAMPLES
+    ) {
+      throw new ValidationError(
+        `sampleSize must be an integer between 1 and ${MAX_PROMPT_PREVIEW_SAMPLES}`
+      );
+    }
+    const templateName = this.promptTemplateService.parseName(name);
+    const draft = this.promptTemplateService.parseInstructions(templateName, instructions);
+
+    const [uncategorized, categories] = await Promise.all([
+      this.getUncategorizedTransactions(budgetId),
+      this.actualBudget.getCategories(),
+    ]);
+    const byPayee = this.groupByPayee(uncategorized.filter((txn) => Boolean(txn.payeeName)));
+    if (byPayee.size === 0) {
+      throw new ValidationError('No uncategorized transactions to preview against');
+    }
+
+    const guardrails = this.getGuardrails(budgetId);
+    const fuzzyMatchCandidates =
+      templateName === 'fuzzy_match_verification' || templateName === 'fuzzy_match_disambiguation'
+        ? await this.buildFuzzyMatchCandidates(budgetId)
+        : [];
+
+    const samples: PromptPreviewSample[] = [];
+    for (const [payeeName, txns] of Array.from(byPayee).slice(0, sampleSize)) {
+      const offered = categoriesForPayee(categories, guardrails, payeeName, [
+        ...new Set(txns.map((txn) => txn.accountId)),
+      ]);
+      const result = await this.runPromptPreview(
+        budgetId,
+        templateName,
+        draft,
+        payeeName,
+        offered,
+        fuzzyMatchCandidates
+      );
+      samples.push({
+        payeeName,
+        transactionCount: txns.length,
+        skippedReason: result.skippedReason ?? null,
+        payee: result.payee ?? null,
+        category: result.category ?? null,
+      });
+    }
+
+    logger.info('Prompt template previewed', {
+      budgetId,
+      name: templateName,
+      sampleCount: samples.length,
+    });
+    return samples;
+  }
+
+  private async runPromptPreview(
+    budgetId: string,
+    name: PromptTemplateName,
+    draft: string,
+    payeeName: string,
+    categories: Category[],
+    fuzzyMatchCandidates: PayeeCandidate[]
+  ): Promise<{
+    skippedReason?: string;
+    payee?: PayeeSuggestionResult;
+    category?: CategorySuggestionResult;
+  }> {
+    switch (name) {
+      case 'payee_identification':
+        return { payee: await this.identifyPayee(budgetId, payeeName, draft) };
+      case 'category_suggestion':
+        return {
+          category: await this.suggestCategory(budgetId, payeeName, null, categories, [], draft),
+        };
+      case 'fuzzy_match_verification': {
+        const match = payeeMatcher.findHighConfidenceMatch(payeeName, fuzzyMatchCandidates);
+        if (!match) return { skippedReason: 'No high-confidence fuzzy match' };
+        return this.verifyFuzzyMatch(
+          budgetId,
+          payeeName,
+          match.payeeName,
+          match.categoryName,
+          match.categoryId,
+          match.score,
+          categories,
+          draft
+        );
+      }
+      case 'fuzzy_match_disambiguation': {
+        const candidates = payeeMatcher.getCandidatesForDisambiguation(
+          payeeName,
+          fuzzyMatchCandidates
+        );
+        if (candidates.length === 0) return { skippedReason: 'No fuzzy match candidates' };
+        return this.disambiguateFuzzyMatches(budgetId, payeeName, candidates, categories, draft);
+      }
+    }
+  }
+
+  /**
+   * Recategorization review: question categories that already-categorized transactions have
+   * Flags transactions that disagree strongly with the payee's history, the payee cache or the
+   * local classifier. Runs without AI; transactions that already have a suggestion are skipped,
+   * so a rejected flag is not raised again until the category changes in Actual.
+   */
+  async reviewCategorizedTransactions(
+    budgetId: string,
+    options: { lookbackDays?: number } = {}
+  ): Promise<Suggestion[]> {
+    const lookbackDays = options.lookbackDays ?? DEFAULT_RECATEGORIZE_LOOKBACK_DAYS;
+    logger.info('Reviewing categorized transactions', { budgetId, lookbackDays });
+
+    const transactions = await this.actualBudget.getTransactions();
+    const history = transactions.filter((txn) => txn.payeeName && isTrainingSample(txn));
+
+    // Category counts per payee over all categorized history
+    const historyByPayee = new Map<string, Map<string, PayeeHistoryCount>>();
+    for (const txn of history) {
+      const counts = historyByPayee.get(txn.payeeName as string) ?? new Map();
+      const entry = counts.get(txn.categoryId as string) ?? {
+        categoryId: txn.categoryId as string,
+        categoryName: txn.categoryName || 'Unknown',
+        count: 0,
+      };
+      entry.count++;
+      counts.set(entry.categoryId, entry);
+      historyByPayee.set(txn.payeeName as string, counts);
+    }
+
+    const cutoff = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const existingTxIds = new Set(
+      this.suggestionRepo.findByBudgetId(budgetId).map((s) => s.transactionId)
+    );
+    const candidates = history.filter((txn) => txn.date >= cutoff && !existingTxIds.has(txn.id));
+
+    const payeeNames = Array.from(new Set(candidates.map((txn) => txn.payeeName as string)));
+    const cacheEntries =
+      this.payeeCache?.findByPayees(budgetId, payeeNames, { trackHits: false }) ?? new Map();
+    const model = this.classifierRepo?.findByBudgetId(budgetId) ?? null;
+
+    const suggestions: Suggestion[] = [];
+    for (const txn of candidates) {
+      const payeeName = txn.payeeName as string;
+      const currentCategoryId = txn.categoryId as string;
+
+      // Exclude the reviewed transaction itself from its payee's history
+      const payeeHistory = Array.from(historyByPayee.get(payeeName)?.values() ?? [])
+        .map((entry) =>
+          entry.categoryId === currentCategoryId ? { ...entry, count: entry.count - 1 } : entry
+        )
+        .filter((entry) => entry.count > 0);
+
+      const cacheEntry = cacheEntries.get(PayeeCacheRepository.normalizePayeeName(payeeName));
+      const prediction = model ? predictCategory(model, txn) : null;
+
+      const proposal = detectMiscategorization(currentCategoryId, {
+        payeeHistory,
+        cacheEntry: cacheEntry
+          ? {
+              categoryId: cacheEntry.categoryId,
+              categoryName: cacheEntry.categoryName,
+              confidence: cacheEntry.confidence,
+              source: toCachedCategorySource(cacheEntry.source),
+            }
+          : null,
+        classifier: prediction,
+      });
+      if (!proposal) continue;
+
+      const suggestion = createSuggestion({
+        budgetId,
+        kind: 'recategorize',
+        transactionId: txn.id,
+        transactionAccountId: txn.accountId,
+        transactionAccountName: txn.accountName,
+        transactionPayee: txn.payeeName,
+        transactionAmount: txn.amount,
+        transactionDate: txn.date,
+        currentCategoryId,
+        currentCategoryName: txn.categoryName,
+        currentPayeeId: txn.payeeId,
+        payeeStatus: 'skipped',
+        proposedCategoryId: proposal.categoryId,
+        proposedCategoryName: proposal.categoryName,
+        categoryConfidence: proposal.confidence,
+        categoryRationale: proposal.rationale,
+        categorySource: proposal.source,
+      });
+      this.suggestionRepo.save(suggestion);
+      suggestions.push(suggestion);
+    }
+
+    this.auditRepo.log({
+      eventType: 'recategorization_reviewed',
+      entityType: 'BudgetSnapshot',
+      entityId: budgetId,
+      metadata: {
+        lookbackDays,
+        reviewedCount: candidates.length,
+        flaggedCount: suggestions.length,
+        classifierUsed: Boolean(model),
+      },
+    });
+
+    logger.info('Recategorization review complete', {
+      budgetId,
+      reviewed: candidates.length,
+      flagged: suggestions.length,
+    });
+
+    return suggestions;
+  }
+
+  /**
+   * Pick a random sample without replacement (Fisher-Yates)
+   */
+  private sampleTransactions(transactions: Transaction[], size: number): Transaction[] {
+    const shuffled = [...transactions];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
+    return shuffled.slice(0, size);
+  }
 
-    if (bestMatch) {
-      return {
-        payee: {
-          payeeName: rawPayeeName,
-          canonicalPayeeId: bestMatch.payeeId ?? null,
-          canonicalPayeeName: bestMatch.payeeName,
-          confidence: bestMatch.score / 100,
-          rationale: `Heuristic match: "${bestMatch.payeeName}" (${bestMatch.score}%)`,
-          source: 'fuzzy_match',
-        },
-        category: {
-          payeeName: rawPayeeName,
-          categoryId: bestMatch.categoryId,
-          categoryName: bestMatch.categoryName,
-          confidence: bestMatch.score / 100,
-          rationale: `Heuristic match: "${bestMatch.payeeName}" (${bestMatch.score}%)`,
-          source: 'fuzzy_match',
-        },
+  /**
+   * Most common category per payee name, computed from a subset of history
+   */
+  private getCategorizedPayeesFromHistory(
+    history: Transaction[]
+  ): Array<Pick<CategorizedPayee, 'payeeName' | 'categoryId' | 'categoryName'>> {
+    const byPayee = new Map<string, Map<string, { categoryName: string; count: number }>>();
+    for (const txn of history) {
+      if (!txn.payeeName || !isTrainingSample(txn)) continue;
+      const categoryCounts = byPayee.get(txn.payeeName) ?? new Map();
+      const entry = categoryCounts.get(txn.categoryId as string) ?? {
+        categoryName: txn.categoryName || 'Unknown',
+        count: 0,
       };
+      entry.count++;
+      categoryCounts.set(txn.categoryId as string, entry);
+      byPayee.set(txn.payeeName, categoryCounts);
     }
 
-    return { payee: emptyPayee, category: emptyCategory };
+    return Array.from(byPayee.entries()).map(([payeeName, categoryCounts]) => {
+      const [categoryId, { categoryName }] = Array.from(categoryCounts.entries()).reduce((a, b) =>
+        b[1].count > a[1].count ? b : a
+      );
+      return { payeeName, categoryId, categoryName };
+    });
   }
 
   /**
@@ -1130,7 +2006,7 @@ ${categoryList}`;
           categoryName: cachedCategory.categoryName,
           confidence: cachedCategory.confidence,
           rationale: `Cached: ${cachedCategory.source === 'user_approved' ? 'Previously approved' : 'High-confidence AI'}`,
-          source: 'cache',
+          source: toCachedCategorySource(cachedCategory.source),
         };
       }
     }
@@ -1146,7 +2022,13 @@ ${categoryList}`;
       }));
 
     // Similar payees provide context hints in the prompt
-    return this.suggestCategory(rawPayeeName, canonicalPayeeName, categories, similarPayees);
+    return this.suggestCategory(
+      budgetId,
+      rawPayeeName,
+      canonicalPayeeName,
+      categories,
+      similarPayees
+    );
   }
 
   /**
@@ -1158,7 +2040,9 @@ ${categoryList}`;
     payeeNames: string[],
     transactionsByPayee: Map<string, Transaction[]>,
     categories: Category[],
-    useAI = true
+    useAI = true,
+    cancellation?: CancellationToken,
+    checkpoint?: JobCheckpoint
   ): Promise<Suggestion[]> {
     const suggestions: Suggestion[] = [];
     const payeeMatchesToCache: Array<{
@@ -1187,14 +2071,51 @@ ${categoryList}`;
     const fuzzyMatchCandidates = await this.buildFuzzyMatchCandidates(budgetId);
     logger.info('Fuzzy match candidates loaded', { candidateCount: fuzzyMatchCandidates.length });
 
+    // Local classifier replaces the LLM when AI is disabled
+    const classifier =
+      !useAI && this.classifierRepo ? this.classifierRepo.findByBudgetId(budgetId) : null;
+    const guardrails = this.getGuardrails(budgetId);
+
     // Track stats
     let cacheHits = 0;
     let fuzzyMatchHits = 0;
+    let classifierHits = 0;
     let aiCalls = 0;
+    let resumedPayees = 0;
+    let payeeMatchesCached = 0;
+    let categoryMappingsCached = 0;
+
+    // Write pending cache entries; called before a payee is checkpointed so a resumed job that
+    // skips it still keeps the AI answers already paid for
+    const saveCacheEntries = () => {
+      const payeeMatches = payeeMatchesToCache.splice(0);
+      const categoryMappings = categoryMappingsToCache.splice(0);
+      if (this.payeeMatchCache && payeeMatches.length > 0) {
+        this.payeeMatchCache.saveBatch(payeeMatches);
+        payeeMatchesCached += payeeMatches.length;
+      }
+      if (this.payeeCache && categoryMappings.length > 0) {
+        this.payeeCache.saveBatch(categoryMappings);
+        categoryMappingsCached += categoryMappings.length;
+      }
+    };
 
     // Process each payee sequentially
     for (let i = 0; i < payeeNames.length; i++) {
+      if (cancellation?.isCanceled) {
+        logger.info('Suggestion generation canceled', {
+          budgetId,
+          processedPayees: i,
+          payeeCount: payeeNames.length,
+        });
+        break;
+      }
+
       const payeeName = payeeNames[i];
+      if (checkpoint?.isDone(payeeName)) {
+        resumedPayees++;
+        continue;
+      }
       const txns = transactionsByPayee.get(payeeName) || [];
 
       logger.info(`Processing payee ${i + 1}/${payeeNames.length}`, {
@@ -1202,10 +2123,12 @@ ${categoryList}`;
         transactionCount: txns.length,
       });
 
-      // Generate combined suggestion
+      // Generate combined suggestion from the categories allowed for this payee
       const result = await this.generateCombinedSuggestion(
         payeeName,
-        categories,
+        categoriesForPayee(categories, guardrails, payeeName, [
+          ...new Set(txns.map((txn) => txn.accountId)),
+        ]),
         fuzzyMatchCandidates,
         budgetId,
         useAI
@@ -1222,6 +2145,18 @@ ${categoryList}`;
 
       // Create suggestions for all transactions with this payee
       for (const txn of txns) {
+        const category = this.enforceGuardrails(
+          classifier
+            ? this.applyClassifierPrediction(result.category, classifier, txn)
+            : result.category,
+          guardrails,
+          payeeName,
+          txn.accountId
+        );
+        if (category.source === 'local_classifier') {
+          classifierHits++;
+        }
+
         const suggestion = createSuggestion({
           budgetId,
           transactionId: txn.id,
@@ -1239,12 +2174,15 @@ ${categoryList}`;
           payeeConfidence: result.payee.confidence,
           payeeRationale: result.payee.rationale,
           payeeStatus: result.payee.canonicalPayeeName ? 'pending' : 'skipped',
+          payeePromptVersion: result.payee.promptVersion,
 
           // Category suggestion
-          proposedCategoryId: result.category.categoryId,
-          proposedCategoryName: result.category.categoryName,
-          categoryConfidence: result.category.confidence,
-          categoryRationale: result.category.rationale,
+          proposedCategoryId: category.categoryId,
+          proposedCategoryName: category.categoryName,
+          categoryConfidence: category.confidence,
+          categoryRationale: category.rationale,
+          categorySource: category.source,
+          categoryPromptVersion: category.promptVersion,
           categoryStatus: 'pending',
         });
         this.suggestionRepo.save(suggestion);
@@ -1272,7 +2210,7 @@ ${categoryList}`;
         useAI &&
         result.category.categoryId &&
         result.category.confidence >= HIGH_CONFIDENCE_THRESHOLD &&
-        result.category.source !== 'cache'
+        !isCachedCategorySource(result.category.source)
       ) {
         categoryMappingsToCache.push({
           budgetId,
@@ -1283,19 +2221,20 @@ ${categoryList}`;
           source: 'high_confidence_ai',
         });
       }
+
+      if (checkpoint) {
+        saveCacheEntries();
+        checkpoint.markDone(payeeName);
+      }
     }
 
     // Batch save to caches
-    if (this.payeeMatchCache && payeeMatchesToCache.length > 0) {
-      this.payeeMatchCache.saveBatch(payeeMatchesToCache);
-      logger.info('Cached high-confidence payee matches', { count: payeeMatchesToCache.length });
+    saveCacheEntries();
+    if (payeeMatchesCached > 0) {
+      logger.info('Cached high-confidence payee matches', { count: payeeMatchesCached });
     }
-
-    if (this.payeeCache && categoryMappingsToCache.length > 0) {
-      this.payeeCache.saveBatch(categoryMappingsToCache);
-      logger.info('Cached high-confidence category mappings', {
-        count: categoryMappingsToCache.length,
-      });
+    if (categoryMappingsCached > 0) {
+      logger.info('Cached high-confidence category mappings', { count: categoryMappingsCached });
     }
 
     logger.info('Finished processing all payees', {
@@ -1303,37 +2242,123 @@ ${categoryList}`;
       suggestionsCount: suggestions.length,
       cacheHits,
       fuzzyMatchHits,
+      classifierHits,
       aiCalls,
-      payeeMatchesCached: payeeMatchesToCache.length,
-      categoryMappingsCached: categoryMappingsToCache.length,
+      resumedPayees,
+      payeeMatchesCached,
+      categoryMappingsCached,
     });
 
     return suggestions;
   }
 
+  /**
+   * Learn from suggestions the user resolved by categorizing directly in Actual Budget
+   * Each outcome is recorded for per-source accuracy, and the payee→category cache is
+   * reinforced or demoted to follow the user's choice
+   */
+  private learnFromResolvedSuggestions(
+    budgetId: string,
+    resolved: Suggestion[],
+    transactions: Transaction[]
+  ): void {
+    const transactionsById = new Map(transactions.map((txn) => [txn.id, txn]));
+    const feedback: SuggestionFeedback[] = [];
+    for (const suggestion of resolved) {
+      const transaction = transactionsById.get(suggestion.transactionId);
+      if (!transaction) continue;
+      const entry = createSuggestionFeedback({
+        suggestion,
+        transaction,
+        actualCategoryName: transaction.categoryName,
+      });
+      if (entry) feedback.push(entry);
+    }
+    if (feedback.length === 0) return;
+
+    this.feedbackRepo?.saveBatch(feedback);
+
+    const cacheChanges = { learned: 0, reinforced: 0, demoted: 0 };
+    if (this.payeeCache) {
+      for (const entry of feedback) {
+        if (!entry.payeeName) continue;
+        const cached = this.payeeCache
+          .findByPayees(budgetId, [entry.payeeName], { trackHits: false })
+          .get(PayeeCacheRepository.normalizePayeeName(entry.payeeName));
+        const action = decideCacheFeedback(cached ?? null, entry.actualCategoryId);
+
+        if (action.type === 'learn') {
+          this.payeeCache.save({
+            budgetId,
+            payeeName: entry.payeeName,
+            categoryId: entry.actualCategoryId,
+            categoryName: entry.actualCategoryName || 'Unknown',
+            confidence: 1.0,
+            source: 'user_approved',
+          });
+          cacheChanges.learned++;
+        } else if (action.type === 'reinforce' && cached) {
+          this.payeeCache.update(cached.id, {
+            confidence: action.confidence,
+            source: 'user_approved',
+          });
+          cacheChanges.reinforced++;
+        } else if (action.type === 'demote' && cached) {
+          this.payeeCache.update(cached.id, { confidence: action.confidence });
+          cacheChanges.demoted++;
+        }
+      }
+    }
+
+    const summary = {
+      recorded: feedback.length,
+      accepted: feedback.filter((entry) => entry.outcome === 'accepted').length,
+      overridden: feedback.filter((entry) => entry.outcome === 'overridden').length,
+      ...cacheChanges,
+    };
+
+    this.auditRepo.log({
+      eventType: 'suggestion_feedback_recorded',
+      entityType: 'SuggestionFeedback',
+      entityId: budgetId,
+      metadata: summary,
+    });
+
+    logger.info('Learned from categorizations made in Actual Budget', { budgetId, ...summary });
+  }
+
+  /**
+   * Accuracy per pipeline stage, measured on categorizations made directly in Actual Budget
+   */
+  getSourceAccuracy(budgetId: string): SourceAccuracy[] {
+    return summarizeSourceAccuracy(this.feedbackRepo?.countBySource(budgetId) ?? []);
+  }
+
   /**
    * Get all suggestions for a budget
    */
   async getSuggestionsByBudgetId(budgetId: string): Promise<Suggestion[]> {
     const transactions = await this.actualBudget.getTransactions();
     const uncategorizedTransactionIds = new Set(
-      transactions.filter((txn) => txn.categoryId === null && !txn.isTransfer).map((txn) => txn.id)
+      transactions.filter(isUncategorizedTransaction).map((txn) => txn.id)
     );
-    const resolvedCleaned = this.suggestionRepo.cleanupResolvedSuggestions(
+    const resolved = this.suggestionRepo.cleanupResolvedSuggestions(
       budgetId,
-      uncategorizedTransactionIds
+      uncategorizedTransactionIds,
+      new Map(transactions.map((txn) => [txn.id, txn.categoryId]))
     );
-    if (resolvedCleaned > 0) {
+    if (resolved.length > 0) {
       logger.info('Cleaned up resolved suggestions for categorized transactions', {
-        count: resolvedCleaned,
+        count: resolved.length,
       });
+      this.learnFromResolvedSuggestions(budgetId, resolved, transactions);
     }
 
     const suggestions = this.suggestionRepo.findByBudgetId(budgetId);
     const existingTxIds = new Set(suggestions.map((s) => s.transactionId));
 
     const uncategorized = transactions.filter(
-      (txn) => txn.categoryId === null && !txn.isTransfer && !existingTxIds.has(txn.id)
+      (txn) => isUncategorizedTransaction(txn) && !existingTxIds.has(txn.id)
     );
 
     if (uncategorized.length > 0) {
@@ -1385,7 +2410,7 @@ ${categoryList}`;
     logger.info('Fetching uncategorized transactions', { budgetId });
     const transactions = await this.actualBudget.getTransactions();
 
-    const uncategorized = transactions.filter((txn) => txn.categoryId === null && !txn.isTransfer);
+    const uncategorized = transactions.filter(isUncategorizedTransaction);
 
     logger.info('Uncategorized transactions fetched', {
       budgetId,
@@ -1422,6 +2447,18 @@ ${categoryList}`;
     // Cache both payee and category mappings
     this.cacheApprovedPayeeMatch(suggestion);
     this.cacheApprovedCategoryMapping(suggestion);
+    if (hasPayeeProposal) {
+      this.recordExample(suggestion, 'payee', {
+        id: suggestion.payeeSuggestion.proposedPayeeId,
+        name: suggestion.payeeSuggestion.proposedPayeeName,
+      });
+    }
+    if (hasCategoryProposal) {
+      this.recordExample(suggestion, 'category', {
+        id: suggestion.categorySuggestion.proposedCategoryId,
+        name: suggestion.categorySuggestion.proposedCategoryName,
+      });
+    }
 
     this.auditRepo.log({
       eventType: 'suggestion_approved',
@@ -1451,12 +2488,16 @@ ${categoryList}`;
 
     this.suggestionRepo.updatePayeeStatus(suggestionId, 'approved');
     this.cacheApprovedPayeeMatch(suggestion);
+    this.recordExample(suggestion, 'payee', {
+      id: suggestion.payeeSuggestion.proposedPayeeId,
+      name: suggestion.payeeSuggestion.proposedPayeeName,
+    });
 
     this.auditRepo.log({
       eventType: 'suggestion_approved',
       entityType: 'Suggestion',
       entityId: suggestionId,
-      metadata: { type: 'payee' },
+      metadata: { type: 'payee', promptVersion: suggestion.payeeSuggestion.promptVersion },
     });
 
     logger.info('Payee suggestion approved', { suggestionId });
@@ -1480,17 +2521,67 @@ ${categoryList}`;
 
     this.suggestionRepo.updateCategoryStatus(suggestionId, 'approved');
     this.cacheApprovedCategoryMapping(suggestion);
+    this.recordExample(suggestion, 'category', {
+      id: suggestion.categorySuggestion.proposedCategoryId,
+      name: suggestion.categorySuggestion.proposedCategoryName,
+    });
 
     this.auditRepo.log({
       eventType: 'suggestion_approved',
       entityType: 'Suggestion',
       entityId: suggestionId,
-      metadata: { type: 'category' },
+      metadata: { type: 'category', promptVersion: suggestion.categorySuggestion.promptVersion },
     });
 
     logger.info('Category suggestion approved', { suggestionId });
   }
 
+  /**
+   * Approve the split suggestion instead of the single category
+   * Split transactions are not cached as a payee→category mapping
+   */
+  approveSplitSuggestion(suggestionId: string): void {
+    const suggestion = this.suggestionRepo.findById(suggestionId);
+    if (!suggestion) {
+      throw new Error(`Suggestion not found: ${suggestionId}`);
+    }
+    if (!suggestion.splitSuggestion || suggestion.splitSuggestion.lines.length === 0) {
+      throw new Error(`Suggestion has no split proposal: ${suggestionId}`);
+    }
+
+    this.suggestionRepo.updateSplitStatus(suggestionId, 'approved');
+
+    this.auditRepo.log({
+      eventType: 'suggestion_approved',
+      entityType: 'Suggestion',
+      entityId: suggestionId,
+      metadata: { type: 'split', lines: suggestion.splitSuggestion.lines },
+    });
+
+    logger.info('Split suggestion approved', { suggestionId });
+  }
+
+  /**
+   * Reject only the split suggestion, leaving the category suggestion untouched
+   */
+  rejectSplitSuggestion(suggestionId: string): void {
+    const suggestion = this.suggestionRepo.findById(suggestionId);
+    if (!suggestion) {
+      throw new Error(`Suggestion not found: ${suggestionId}`);
+    }
+
+    this.suggestionRepo.updateSplitStatus(suggestionId, 'rejected');
+
+    this.auditRepo.log({
+      eventType: 'suggestion_rejected',
+      entityType: 'Suggestion',
+      entityId: suggestionId,
+      metadata: { type: 'split' },
+    });
+
+    logger.info('Split suggestion rejected', { suggestionId });
+  }
+
   /**
    * Reject a suggestion (legacy - rejects both payee and category)
    */
@@ -1519,6 +2610,12 @@ ${categoryList}`;
     }
 
     this.suggestionRepo.updatePayeeStatus(suggestionId, 'rejected', correction);
+    if (correction?.payeeName) {
+      this.recordExample(suggestion, 'payee', {
+        id: correction.payeeId ?? null,
+        name: correction.payeeName,
+      });
+    }
 
     // If user provided correction, cache it
     if (correction?.payeeName && this.payeeMatchCache) {
@@ -1559,6 +2656,12 @@ ${categoryList}`;
     }
 
     this.suggestionRepo.updateCategoryStatus(suggestionId, 'rejected', correction);
+    if (correction?.categoryId) {
+      this.recordExample(suggestion, 'category', {
+        id: correction.categoryId,
+        name: correction.categoryName,
+      });
+    }
 
     // If user provided correction, cache it
     if (correction?.categoryId && this.payeeCache) {
@@ -1611,6 +2714,10 @@ ${categoryList}`;
           categoryStatus: 'approved',
           correction,
         });
+        this.recordExample(suggestion, 'category', {
+          id: correction.categoryId,
+          name: correction.categoryName,
+        });
 
         if (correction.categoryId && this.payeeCache) {
           const payeeName =
@@ -1670,6 +2777,10 @@ ${categoryList}`;
           payeeStatus: 'approved',
           correction,
         });
+        this.recordExample(suggestion, 'payee', {
+          id: correction.payeeId ?? null,
+          name: correction.payeeName,
+        });
 
         if (this.payeeMatchCache) {
           this.payeeMatchCache.save({
@@ -1746,26 +2857,30 @@ ${categoryList}`;
     });
 
     const payeeName = existing.transactionPayee || 'Unknown';
+    const guardrails = this.getGuardrails(existing.budgetId);
+    const categories = categoriesForPayee(
+      await this.actualBudget.getCategories(),
+      guardrails,
+      payeeName,
+      existing.transactionAccountId ? [existing.transactionAccountId] : []
+    );
     let payeeResult: PayeeSuggestionResult;
     let categoryResult: CategorySuggestionResult;
 
     if (useAI) {
-      // Fetch categories from budget
-      const categories = await this.actualBudget.getCategories();
-
       // Force regeneration using AI (bypass cache by calling AI directly)
       // First identify the payee
-      payeeResult = await this.identifyPayee(payeeName);
+      payeeResult = await this.identifyPayee(existing.budgetId, payeeName);
 
       // Then suggest category with web search
       categoryResult = await this.suggestCategory(
+        existing.budgetId,
         payeeName,
         payeeResult.canonicalPayeeName,
         categories,
         [] // No matched payees - force fresh AI suggestion
       );
     } else {
-      const categories = await this.actualBudget.getCategories();
       const fuzzyMatchCandidates = await this.buildFuzzyMatchCandidates(existing.budgetId);
       const heuristic = await this.generateCombinedSuggestion(
         payeeName,
@@ -1777,10 +2892,17 @@ ${categoryList}`;
       payeeResult = heuristic.payee;
       categoryResult = heuristic.category;
     }
+    categoryResult = this.enforceGuardrails(
+      categoryResult,
+      guardrails,
+      payeeName,
+      existing.transactionAccountId
+    );
 
     // Update the suggestion with new values
     const updated = createSuggestion({
       budgetId: existing.budgetId,
+      kind: existing.kind,
       transactionId: existing.transactionId,
       transactionAccountId: existing.transactionAccountId,
       transactionAccountName: existing.transactionAccountName,
@@ -1788,6 +2910,7 @@ ${categoryList}`;
       transactionAmount: existing.transactionAmount,
       transactionDate: existing.transactionDate,
       currentCategoryId: existing.currentCategoryId,
+      currentCategoryName: existing.currentCategoryName,
       currentPayeeId: existing.currentPayeeId,
 
       // Payee suggestion from retry
@@ -1796,12 +2919,15 @@ ${categoryList}`;
       payeeConfidence: payeeResult.confidence,
       payeeRationale: `Retry: ${payeeResult.rationale}`,
       payeeStatus: payeeResult.canonicalPayeeName ? 'pending' : 'skipped',
+      payeePromptVersion: payeeResult.promptVersion,
 
       // Category suggestion from retry
       proposedCategoryId: categoryResult.categoryId,
       proposedCategoryName: categoryResult.categoryName,
       categoryConfidence: categoryResult.confidence,
       categoryRationale: `Retry: ${categoryResult.rationale}`,
+      categorySource: categoryResult.source,
+      categoryPromptVersion: categoryResult.promptVersion,
       categoryStatus: 'pending',
     });
 
@@ -1848,7 +2974,7 @@ ${categoryList}`;
     // Find all pending suggestions with the same payee
     const allSuggestions = this.suggestionRepo.findByBudgetId(existing.budgetId);
     const payeeGroup = allSuggestions.filter(
-      (s) => s.transactionPayee === payeeName && s.status === 'pending'
+      (s) => s.transactionPayee === payeeName && s.status === 'pending' && s.kind === existing.kind
     );
 
     if (payeeGroup.length === 0) {
@@ -1862,14 +2988,21 @@ ${categoryList}`;
       budgetId: existing.budgetId,
     });
 
-    const categories = await this.actualBudget.getCategories();
+    const guardrails = this.getGuardrails(existing.budgetId);
+    const categories = categoriesForPayee(
+      await this.actualBudget.getCategories(),
+      guardrails,
+      payeeName,
+      [...new Set(payeeGroup.flatMap((suggestion) => suggestion.transactionAccountId ?? []))]
+    );
     let payeeResult: PayeeSuggestionResult;
     let categoryResult: CategorySuggestionResult;
 
     if (useAI) {
       // Generate new suggestion once (same for all transactions with this payee)
-      payeeResult = await this.identifyPayee(payeeName);
+      payeeResult = await this.identifyPayee(existing.budgetId, payeeName);
       categoryResult = await this.suggestCategory(
+        existing.budgetId,
         payeeName,
         payeeResult.canonicalPayeeName,
         categories,
@@ -1891,8 +3024,15 @@ ${categoryList}`;
     // Update all suggestions in the group
     const updatedSuggestions: Suggestion[] = [];
     for (const suggestion of payeeGroup) {
+      const category = this.enforceGuardrails(
+        categoryResult,
+        guardrails,
+        payeeName,
+        suggestion.transactionAccountId
+      );
       const updated = createSuggestion({
         budgetId: suggestion.budgetId,
+        kind: suggestion.kind,
         transactionId: suggestion.transactionId,
         transactionAccountId: suggestion.transactionAccountId,
         transactionAccountName: suggestion.transactionAccountName,
@@ -1900,6 +3040,7 @@ ${categoryList}`;
         transactionAmount: suggestion.transactionAmount,
         transactionDate: suggestion.transactionDate,
         currentCategoryId: suggestion.currentCategoryId,
+        currentCategoryName: suggestion.currentCategoryName,
         currentPayeeId: suggestion.currentPayeeId,
 
         // Payee suggestion from retry
@@ -1908,12 +3049,15 @@ ${categoryList}`;
         payeeConfidence: payeeResult.confidence,
         payeeRationale: `Retry: ${payeeResult.rationale}`,
         payeeStatus: payeeResult.canonicalPayeeName ? 'pending' : 'skipped',
+        payeePromptVersion: payeeResult.promptVersion,
 
         // Category suggestion from retry
-        proposedCategoryId: categoryResult.categoryId,
-        proposedCategoryName: categoryResult.categoryName,
-        categoryConfidence: categoryResult.confidence,
-        categoryRationale: `Retry: ${categoryResult.rationale}`,
+        proposedCategoryId: category.categoryId,
+        proposedCategoryName: category.categoryName,
+        categoryConfidence: category.confidence,
+        categoryRationale: `Retry: ${category.rationale}`,
+        categorySource: category.source,
+        categoryPromptVersion: category.promptVersion,
         categoryStatus: 'pending',
       });
 
@@ -1994,6 +3138,203 @@ ${categoryList}`;
     }
   }
 
+  /**
+   * Propose "payee is X → set category Y" rules for payees with enough consistent history
+   * Evidence is approved/corrected suggestions plus reuse of the cached payee→category mapping.
+   * Payees that already have a category rule in Actual, or whose approvals disagree, are skipped.
+   */
+  async refreshPayeeRuleSuggestions(budgetId: string): Promise<PayeeRuleSuggestion[]> {
+    if (!this.payeeRuleRepo) {
+      return [];
+    }
+
+    const [payees, existingRules] = await Promise.all([
+      this.actualBudget.getPayees(),
+      this.actualBudget.getPayeeCategoryRules(),
+    ]);
+    const payeesByName = new Map(
+      payees.map((payee) => [PayeeCacheRepository.normalizePayeeName(payee.name), payee])
+    );
+    const ruledPayeeIds = new Set(existingRules.flatMap((rule) => rule.payeeIds));
+
+    // Count approved categories per payee
+    const approvals = new Map<string, Map<string, { categoryName: string; count: number }>>();
+    for (const suggestion of this.suggestionRepo.findByBudgetId(budgetId)) {
+      const decision = this.getApprovedCategoryDecision(suggestion);
+      if (!decision) continue;
+
+      const key = PayeeCacheRepository.normalizePayeeName(decision.payeeName);
+      const byCategory = approvals.get(key) ?? new Map();
+      const existing = byCategory.get(decision.categoryId);
+      byCategory.set(decision.categoryId, {
+        categoryName: decision.categoryName,
+        count: (existing?.count ?? 0) + 1,
+      });
+      approvals.set(key, byCategory);
+    }
+
+    const cacheEntries = new Map(
+      (this.payeeCache?.getAllCachedPayees(budgetId) ?? []).map((entry) => [entry.payeeName, entry])
+    );
+
+    const existingByPayeeId = new Map(
+      this.payeeRuleRepo.findByBudgetId(budgetId).map((rule) => [rule.payeeId, rule])
+    );
+    const keptIds: string[] = [];
+    const payeeKeys = new Set([...approvals.keys(), ...cacheEntries.keys()]);
+
+    for (const key of payeeKeys) {
+      const payee = payeesByName.get(key);
+      if (!payee || ruledPayeeIds.has(payee.id)) continue;
+
+      const byCategory = approvals.get(key);
+      if (byCategory && byCategory.size > 1) continue; // Mixed history is not rule-worthy
+
+      const cacheEntry = cacheEntries.get(key);
+      const [approvedCategoryId, approved] = byCategory?.entries().next().value ?? [];
+      if (cacheEntry && approvedCategoryId && cacheEntry.categoryId !== approvedCategoryId) {
+        continue;
+      }
+
+      const categoryId = approvedCategoryId ?? cacheEntry?.categoryId;
+      const categoryName = approved?.categoryName ?? cacheEntry?.categoryName;
+      if (!categoryId || !categoryName) continue;
+
+      const approvedCount = approved?.count ?? 0;
+      const cacheHitCount = cacheEntry?.hitCount ?? 0;
+      if (!hasEnoughPayeeRuleEvidence(approvedCount, cacheHitCount)) continue;
+
+      const existing = existingByPayeeId.get(payee.id);
+      if (existing && (existing.status === 'approved' || existing.status === 'applied')) {
+        continue;
+      }
+      if (existing?.status === 'rejected' && existing.categoryId === categoryId) {
+        continue;
+      }
+
+      const proposal = createPayeeRuleSuggestion({
+        budgetId,
+        payeeId: payee.id,
+        payeeName: payee.name,
+        categoryId,
+        categoryName,
+        approvedCount,
+        cacheHitCount,
+      });
+      const suggestion = existing
+        ? { ...proposal, id: existing.id, createdAt: existing.createdAt }
+        : proposal;
+
+      this.payeeRuleRepo.save(suggestion);
+      keptIds.push(suggestion.id);
+    }
+
+    const removed = this.payeeRuleRepo.deletePendingExcept(budgetId, keptIds);
+
+    logger.info('Payee rule suggestions refreshed', {
+      budgetId,
+      pending: keptIds.length,
+      removed,
+    });
+
+    return this.payeeRuleRepo.findByBudgetId(budgetId).filter((rule) => rule.status === 'pending');
+  }
+
+  /**
+   * Get all payee rule suggestions for a budget
+   */
+  getPayeeRuleSuggestions(budgetId: string): PayeeRuleSuggestion[] {
+    return this.payeeRuleRepo?.findByBudgetId(budgetId) ?? [];
+  }
+
+  /**
+   * Approve a payee rule suggestion so it is created on the next apply
+   */
+  approvePayeeRuleSuggestion(suggestionId: string): void {
+    this.updatePayeeRuleSuggestionStatus(suggestionId, 'approved');
+    this.auditRepo.log({
+      eventType: 'suggestion_approved',
+      entityType: 'PayeeRuleSuggestion',
+      entityId: suggestionId,
+      metadata: { type: 'payee_rule' },
+    });
+    logger.info('Payee rule suggestion approved', { suggestionId });
+  }
+
+  /**
+   * Reject a payee rule suggestion; it will not be proposed again for the same category
+   */
+  rejectPayeeRuleSuggestion(suggestionId: string): void {
+    this.updatePayeeRuleSuggestionStatus(suggestionId, 'rejected');
+    this.auditRepo.log({
+      eventType: 'suggestion_rejected',
+      entityType: 'PayeeRuleSuggestion',
+      entityId: suggestionId,
+      metadata: { type: 'payee_rule' },
+    });
+    logger.info('Payee rule suggestion rejected', { suggestionId });
+  }
+
+  /**
+   * Reset a payee rule suggestion back to pending (undo approve/reject)
+   */
+  resetPayeeRuleSuggestion(suggestionId: string): void {
+    this.updatePayeeRuleSuggestionStatus(suggestionId, 'pending');
+    this.auditRepo.log({
+      eventType: 'suggestion_reset',
+      entityType: 'PayeeRuleSuggestion',
+      entityId: suggestionId,
+      metadata: { type: 'payee_rule' },
+    });
+    logger.info('Payee rule suggestion reset', { suggestionId });
+  }
+
+  private updatePayeeRuleSuggestionStatus(
+    suggestionId: string,
+    status: 'pending' | 'approved' | 'rejected'
+  ): void {
+    const suggestion = this.payeeRuleRepo?.findById(suggestionId);
+    if (!this.payeeRuleRepo || !suggestion) {
+      throw new NotFoundError('PayeeRuleSuggestion', suggestionId);
+    }
+    if (suggestion.status === 'applied') {
+      throw new ValidationError(`Payee rule suggestion already applied: ${suggestionId}`);
+    }
+    this.payeeRuleRepo.updateStatus(suggestionId, status);
+  }
+
+  /**
+   * Extract the category the user settled on for a suggestion, if any
+   * Counts approved/applied proposals and rejections that carry a correction
+   */
+  private getApprovedCategoryDecision(
+    suggestion: Suggestion
+  ): { payeeName: string; categoryId: string; categoryName: string } | null {
+    const status = suggestion.categorySuggestion.status;
+    let categoryId: string | null = null;
+    let categoryName: string | null = null;
+
+    if (status === 'approved' || status === 'applied') {
+      categoryId = suggestion.categorySuggestion.proposedCategoryId;
+      categoryName = suggestion.categorySuggestion.proposedCategoryName;
+    } else if (status === 'rejected') {
+      categoryId = suggestion.correction.correctedCategoryId;
+      categoryName = suggestion.correction.correctedCategoryName;
+    }
+
+    const payeeStatus = suggestion.payeeSuggestion.status;
+    const payeeName =
+      (payeeStatus === 'approved' || payeeStatus === 'applied'
+        ? suggestion.payeeSuggestion.proposedPayeeName
+        : null) || suggestion.transactionPayee;
+
+    if (!categoryId || categoryId === 'unknown' || !payeeName) {
+      return null;
+    }
+
+    return { payeeName, categoryId, categoryName: categoryName || 'Unknown' };
+  }
+
   /**
    * Sync with Actual Budget and generate suggestions for changed transactions only
    * T068: Diff-based generation - only processes new/changed uncategorized transactions
@@ -2005,25 +3346,37 @@ ${categoryList}`;
   async syncAndGenerateSuggestions(
     budgetId: string,
     fullSnapshot = false,
-    useAI = true
+    useAI = true,
+    cancellation?: CancellationToken,
+    checkpoint?: JobCheckpoint
   ): Promise<Suggestion[]> {
     logger.info('Syncing and generating suggestions', { budgetId, fullSnapshot, useAI });
 
     // Sync latest data from Actual Budget server
     await this.actualBudget.sync();
 
-    // If full snapshot mode (e.g., after redownload), use full generation
-    if (fullSnapshot) {
-      logger.info('Full snapshot mode enabled, generating all suggestions');
-      return this.generateSuggestions(budgetId, useAI);
-    }
-
     // Fetch current budget state
     const [transactions, categories] = await Promise.all([
       this.actualBudget.getTransactions(),
       this.actualBudget.getCategories(),
     ]);
 
+    // Retrain the local classifier on the freshly synced history
+    try {
+      this.retrainClassifier(budgetId, transactions);
+    } catch (error) {
+      logger.warn('Failed to retrain local classifier', {
+        budgetId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // If full snapshot mode (e.g., after redownload), use full generation
+    if (fullSnapshot) {
+      logger.info('Full snapshot mode enabled, generating all suggestions');
+      return this.generateSuggestions(budgetId, useAI, cancellation, checkpoint);
+    }
+
     // Cleanup orphaned suggestions (transactions that no longer exist in budget)
     const validTransactionIds = new Set(transactions.map((t) => t.id));
     const cleanedUp = this.suggestionRepo.cleanupOrphanedSuggestions(budgetId, validTransactionIds);
@@ -2051,7 +3404,7 @@ ${categoryList}`;
 
     // Filter to only new uncategorized transactions without suggestions
     const uncategorized = transactions.filter(
-      (txn) => txn.categoryId === null && !existingTransactionIds.has(txn.id) && !txn.isTransfer
+      (txn) => isUncategorizedTransaction(txn) && !existingTransactionIds.has(txn.id)
     );
 
     const transferSkipped = transactions.filter((txn) => txn.isTransfer).length;
@@ -2105,6 +3458,7 @@ ${categoryList}`;
           proposedCategoryName: cacheEntry.categoryName,
           categoryConfidence: cacheEntry.confidence,
           categoryRationale: `Cached: ${cacheEntry.source === 'user_approved' ? 'Previously approved by user' : 'High-confidence AI suggestion'}`,
+          categorySource: toCachedCategorySource(cacheEntry.source),
         });
         this.suggestionRepo.save(suggestion);
         suggestions.push(suggestion);
@@ -2118,11 +3472,15 @@ ${categoryList}`;
         uncached,
         byPayee,
         categories,
-        useAI
+        useAI,
+        cancellation,
+        checkpoint
       );
       suggestions.push(...aiSuggestions);
     }
 
+    const splitCount = this.attachSplitSuggestions(suggestions, transactions);
+
     // Log audit event
     this.auditRepo.log({
       eventType: 'suggestions_generated',
@@ -2130,10 +3488,12 @@ ${categoryList}`;
       entityId: budgetId,
       metadata: {
         suggestionsCount: suggestions.length,
+        splitSuggestionsCount: splitCount,
         newUncategorizedCount: uncategorized.length,
         cacheHits: cachedCategories.size,
         llmCalls: useAI && uncached.length > 0 ? 1 : 0,
         mode: 'diff',
+        canceled: cancellation?.isCanceled === true,
       },
     });
 
@@ -1,9 +1,12 @@
 import type { ActualBudgetAdapter } from '../infra/ActualBudgetAdapter.js';
 import type { SuggestionRepository } from '../infra/repositories/SuggestionRepository.js';
 import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { PayeeRuleSuggestionRepository } from '../infra/repositories/PayeeRuleSuggestionRepository.js';
+import type { TransferSuggestionRepository } from '../infra/repositories/TransferSuggestionRepository.js';
+import type { CancellationToken } from '../domain/entities/Job.js';
 import { ValidationError } from '../domain/errors.js';
 import { logger } from '../infra/logger.js';
-import { SyncScheduler } from '../scheduler/SyncScheduler.js';
+import { JobScheduler } from '../scheduler/JobScheduler.js';
 
 /**
  * SyncService - manages syncing approved suggestions to Actual Budget
@@ -13,7 +16,9 @@ export class SyncService {
   constructor(
     private actualBudget: ActualBudgetAdapter,
     private suggestionRepo: SuggestionRepository,
-    private auditRepo: AuditRepository
+    private auditRepo: AuditRepository,
+    private payeeRuleRepo?: PayeeRuleSuggestionRepository,
+    private transferRepo?: TransferSuggestionRepository
   ) {}
 
   /**
@@ -32,6 +37,9 @@ export class SyncService {
         suggestion.payeeSuggestion.proposedPayeeName !== suggestion.transactionPayee
       );
 
+      const splitLines =
+        suggestion.splitSuggestion?.status === 'approved' ? suggestion.splitSuggestion.lines : null;
+
       return {
         suggestionId: suggestion.id,
         transactionId: suggestion.transactionId,
@@ -45,25 +53,36 @@ export class SyncService {
           suggestion.categorySuggestion?.proposedCategoryName ||
           suggestion.proposedCategoryName ||
           null,
-        currentCategoryName: null,
+        currentCategoryName: suggestion.currentCategoryName,
         proposedPayeeName: suggestion.payeeSuggestion?.proposedPayeeName || null,
         hasPayeeChange,
+        splitLines,
       };
     });
   }
 
   /**
    * Apply specific suggestions by their IDs
+   * Approved payee rule suggestions among the IDs are created as rules in Actual Budget
+   * and approved transfer suggestions are linked as transfers
    * Pauses scheduler during apply to prevent conflicts
+   * On cancellation, stops before the next change and still syncs the ones already written
    */
   async applySpecificSuggestions(
     budgetId: string,
-    suggestionIds: string[]
-  ): Promise<{ success: boolean; applied: number }> {
+    suggestionIds: string[],
+    cancellation?: CancellationToken
+  ): Promise<{
+    success: boolean;
+    applied: number;
+    rulesCreated: number;
+    transfersLinked: number;
+    canceled: boolean;
+  }> {
     logger.info('Applying specific suggestions', { budgetId, count: suggestionIds.length });
 
     // Pause scheduler during apply
-    const scheduler = SyncScheduler.getInstance();
+    const scheduler = JobScheduler.getInstance();
     if (scheduler) {
       scheduler.pause();
     }
@@ -73,24 +92,53 @@ export class SyncService {
       (s) => suggestionIds.includes(s.id) && s.status === 'approved'
     );
 
-    if (suggestionsToApply.length === 0) {
+    const rulesToApply = (this.payeeRuleRepo?.findByIds(suggestionIds) ?? []).filter(
+      (rule) => rule.budgetId === budgetId && rule.status === 'approved'
+    );
+
+    const transfersToApply = (this.transferRepo?.findByIds(suggestionIds) ?? []).filter(
+      (transfer) => transfer.budgetId === budgetId && transfer.status === 'approved'
+    );
+
+    if (
+      suggestionsToApply.length === 0 &&
+      rulesToApply.length === 0 &&
+      transfersToApply.length === 0
+    ) {
       if (scheduler) scheduler.resume();
       throw new ValidationError('No valid approved suggestions to apply');
     }
 
     let applied = 0;
+    let rulesCreated = 0;
+    let transfersLinked = 0;
 
     try {
       for (const suggestion of suggestionsToApply) {
+        if (cancellation?.isCanceled) break;
+
         // Determine what to update
         const hasPayeeChange = !!(
           suggestion.payeeSuggestion?.status === 'approved' &&
           suggestion.payeeSuggestion?.proposedPayeeName &&
           suggestion.payeeSuggestion.proposedPayeeName !== suggestion.transactionPayee
         );
-        const hasCategoryChange = !!(
-          suggestion.categorySuggestion?.status === 'approved' || suggestion.proposedCategoryId
-        );
+        const splitLines =
+          suggestion.splitSuggestion?.status === 'approved' ? suggestion.splitSuggestion.lines : [];
+        const hasSplitChange = splitLines.length > 0;
+        const hasCategoryChange =
+          !hasSplitChange &&
+          !!(suggestion.categorySuggestion?.status === 'approved' || suggestion.proposedCategoryId);
+
+        // Apply split - written as child transactions
+        if (hasSplitChange) {
+          await this.actualBudget.updateTransaction(suggestion.transactionId, {
+            splits: splitLines.map((line) => ({
+              amount: line.amount,
+              categoryId: line.categoryId,
+            })),
+          });
+        }
 
         // Apply category change
         if (hasCategoryChange) {
@@ -120,28 +168,68 @@ export class SyncService {
           suggestionId: suggestion.id,
           transactionId: suggestion.transactionId,
           categoryApplied: hasCategoryChange,
+          splitApplied: hasSplitChange,
           payeeApplied: hasPayeeChange,
         });
       }
 
+      for (const rule of rulesToApply) {
+        if (cancellation?.isCanceled) break;
+        const ruleId = await this.actualBudget.createPayeeCategoryRule(
+          rule.payeeId,
+          rule.categoryId
+        );
+        this.payeeRuleRepo?.updateStatus(rule.id, 'applied', ruleId);
+        rulesCreated++;
+
+        logger.debug('Payee rule suggestion applied', {
+          suggestionId: rule.id,
+          payeeName: rule.payeeName,
+          categoryName: rule.categoryName,
+          ruleId,
+        });
+      }
+
+      for (const transfer of transfersToApply) {
+        if (cancellation?.isCanceled) break;
+        await this.actualBudget.linkTransfer(
+          { transactionId: transfer.fromTransactionId, accountId: transfer.fromAccountId },
+          { transactionId: transfer.toTransactionId, accountId: transfer.toAccountId }
+        );
+        this.transferRepo?.updateStatus(transfer.id, 'applied');
+        transfersLinked++;
+
+        logger.debug('Transfer suggestion applied', {
+          suggestionId: transfer.id,
+          fromTransactionId: transfer.fromTransactionId,
+          toTransactionId: transfer.toTransactionId,
+        });
+      }
+
       // Sync changes to server
       await this.actualBudget.sync();
 
+      const canceled = cancellation?.isCanceled === true;
       this.auditRepo.log({
         eventType: 'sync_executed',
         entityType: 'Suggestions',
         entityId: budgetId,
-        metadata: { applied, suggestionIds },
+        metadata: { applied, rulesCreated, transfersLinked, suggestionIds, canceled },
       });
 
-      logger.info('Suggestions applied successfully', { budgetId, applied });
+      logger.info(canceled ? 'Suggestion apply canceled' : 'Suggestions applied successfully', {
+        budgetId,
+        applied,
+        rulesCreated,
+        transfersLinked,
+      });
 
       // Resume scheduler after apply
       if (scheduler) {
         scheduler.resume();
       }
 
-      return { success: true, applied };
+      return { success: true, applied, rulesCreated, transfersLinked, canceled };
     } catch (error) {
       // Resume scheduler on error too
       if (scheduler) {
@@ -155,6 +243,8 @@ export class SyncService {
         metadata: {
           error: error instanceof Error ? error.message : 'Unknown error',
           applied,
+          rulesCreated,
+          transfersLinked,
         },
       });
 
@@ -0,0 +1,149 @@
+import type { ActualBudgetAdapter } from '../infra/ActualBudgetAdapter.js';
+import type { AuditRepository } from '../infra/repositories/AuditRepository.js';
+import type { TransferSuggestionRepository } from '../infra/repositories/TransferSuggestionRepository.js';
+import {
+  createTransferSuggestion,
+  findTransferMatches,
+  transferPairKey,
+  type TransferSuggestion,
+} from '../domain/entities/TransferSuggestion.js';
+import { NotFoundError, ValidationError } from '../domain/errors.js';
+import { logger } from '../infra/logger.js';
+
+/**
+ * TransferService - detects imported transactions that are really one transfer between
+ * our own accounts and manages their review
+ * Linking happens in SyncService together with the other approved suggestions
+ */
+export class TransferService {
+  constructor(
+    private actualBudget: ActualBudgetAdapter,
+    private transferRepo: TransferSuggestionRepository,
+    private auditRepo: AuditRepository,
+    private defaultWindowDays: number
+  ) {}
+
+  /**
+   * Re-run the matcher over uncategorized transactions and refresh pending suggestions
+   * Rejected pairs are never proposed again; transactions in approved or applied pairs are
+   * left out so they cannot be paired twice
+   */
+  async detectTransfers(
+    budgetId: string,
+    options: { windowDays?: number } = {}
+  ): Promise<TransferSuggestion[]> {
+    const windowDays = options.windowDays ?? this.defaultWindowDays;
+    const existing = this.transferRepo.findByBudgetId(budgetId);
+
+    const rejectedPairKeys = new Set(
+      existing
+        .filter((s) => s.status === 'rejected')
+        .map((s) => transferPairKey(s.fromTransactionId, s.toTransactionId))
+    );
+    const lockedTransactionIds = new Set(
+      existing
+        .filter((s) => s.status === 'approved' || s.status === 'applied')
+        .flatMap((s) => [s.fromTransactionId, s.toTransactionId])
+    );
+    const pendingByPair = new Map(
+      existing
+        .filter((s) => s.status === 'pending')
+        .map((s) => [transferPairKey(s.fromTransactionId, s.toTransactionId), s])
+    );
+
+    const transactions = (await this.actualBudget.getTransactions()).filter(
+      (txn) => !lockedTransactionIds.has(txn.id)
+    );
+    const matches = findTransferMatches(transactions, windowDays, rejectedPairKeys);
+
+    const keptIds: string[] = [];
+    for (const match of matches) {
+      const proposal = createTransferSuggestion({ budgetId, match });
+      const previous = pendingByPair.get(transferPairKey(match.from.id, match.to.id));
+      const suggestion = previous
+        ? { ...proposal, id: previous.id, createdAt: previous.createdAt }
+        : proposal;
+
+      this.transferRepo.save(suggestion);
+      keptIds.push(suggestion.id);
+    }
+
+    const removed = this.transferRepo.deletePendingExcept(budgetId, keptIds);
+
+    this.auditRepo.log({
+      eventType: 'transfers_detected',
+      entityType: 'TransferSuggestion',
+      entityId: budgetId,
+      metadata: { windowDays, pending: keptIds.length, removed },
+    });
+
+    logger.info('Transfer suggestions refreshed', {
+      budgetId,
+      windowDays,
+      pending: keptIds.length,
+      removed,
+    });
+
+    return this.transferRepo.findByBudgetId(budgetId).filter((s) => s.status === 'pending');
+  }
+
+  /**
+   * Get all transfer suggestions for a budget
+   */
+  getTransferSuggestions(budgetId: string): TransferSuggestion[] {
+    return this.transferRepo.findByBudgetId(budgetId);
+  }
+
+  /**
+   * Approve a transfer suggestion so it is linked on the next apply
+   */
+  approveTransferSuggestion(suggestionId: string): void {
+    this.updateStatus(suggestionId, 'approved');
+    this.auditRepo.log({
+      eventType: 'suggestion_approved',
+      entityType: 'TransferSuggestion',
+      entityId: suggestionId,
+      metadata: { type: 'transfer' },
+    });
+    logger.info('Transfer suggestion approved', { suggestionId });
+  }
+
+  /**
+   * Reject a transfer suggestion; the same pair will not be proposed again
+   */
+  rejectTransferSuggestion(suggestionId: string): void {
+    this.updateStatus(suggestionId, 'rejected');
+    this.auditRepo.log({
+      eventType: 'suggestion_rejected',
+      entityType: 'TransferSuggestion',
+      entityId: suggestionId,
+      metadata: { type: 'transfer' },
+    });
+    logger.info('Transfer suggestion rejected', { suggestionId });
+  }
+
+  /**
+   * Reset a transfer suggestion back to pending (undo approve/reject)
+   */
+  resetTransferSuggestion(suggestionId: string): void {
+    this.updateStatus(suggestionId, 'pending');
+    this.auditRepo.log({
+      eventType: 'suggestion_reset',
+      entityType: 'TransferSuggestion',
+      entityId: suggestionId,
+      metadata: { type: 'transfer' },
+    });
+    logger.info('Transfer suggestion reset', { suggestionId });
+  }
+
+  private updateStatus(suggestionId: string, status: 'pending' | 'approved' | 'rejected'): void {
+    const suggestion = this.transferRepo.findById(suggestionId);
+    if (!suggestion) {
+      throw new NotFoundError('TransferSuggestion', suggestionId);
+    }
+    if (suggestion.status === 'applied') {
+      throw new ValidationError(`Transfer suggestion already applied: ${suggestionId}`);
+    }
+    this.transferRepo.updateStatus(suggestionId, status);
+  }
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import type { Category } from '../domain/entities/BudgetSnapshot.js';
+
+/**
+ * Zod schemas for the JSON answers of each AI call site
+ * Built per call from the categories and candidates the prompt offered, so an id the model
+ * invented is reported back to it (see ValidatingAIAdapter) instead of reaching a suggestion
+ */
+
+const confidenceSchema = z.number().min(0).max(1);
+
+/** Models often send "" for "no value" */
+const emptyToNull = (value: unknown) => (value === '' ? null : value);
+
+/**
+ * Categories listed in prompts: hidden and income categories are never offered
+ */
+export function offeredCategories(categories: Category[]): Category[] {
+  return categories.filter((category) => !category.hidden && !category.isIncome);
+}
+
+function categoryIdSchema(categories: Category[]) {
+  const ids = new Set(offeredCategories(categories).map((category) => category.id));
+  return z.preprocess(
+    emptyToNull,
+    z
+      .string()
+      .nullable()
+      .refine((id) => id === null || ids.has(id), {
+        message: 'must be one of the listed category ids, or null',
+      })
+  );
+}
+
+/** Ids of the past decisions (E1, E2, ...) the answer relied on */
+function exampleIdsSchema(exampleLabels: string[]) {
+  const labels = new Set(exampleLabels);
+  return z
+    .array(
+      z.string().refine((id) => labels.has(id), {
+        message: 'must be one of the listed past decision ids',
+      })
+    )
+    .default([]);
+}
+
+/** The category name always comes from the budget, whatever name the model wrote */
+function categoryNameFor(categories: Category[], categoryId: string | null): string | null {
+  if (categoryId === null) return null;
+  return categories.find((category) => category.id === categoryId)?.name ?? null;
+}
+
+export const payeeIdentificationSchema = z.object({
+  canonicalPayeeName: z.string().min(1),
+  confidence: confidenceSchema,
+  reasoning: z.string(),
+});
+
+export function categorySuggestionSchema(categories: Category[], exampleLabels: string[] = []) {
+  return z
+    .object({
+      categoryId: categoryIdSchema(categories),
+      categoryName: z.preprocess(emptyToNull, z.string().nullable()),
+      confidence: confidenceSchema,
+      reasoning: z.string(),
+      exampleIds: exampleIdsSchema(exampleLabels),
+    })
+    .transform((result) => ({
+      ...result,
+      categoryName: categoryNameFor(categories, result.categoryId),
+    }));
+}
+
+export function fuzzyMatchVerificationSchema(categories: Category[], exampleLabels: string[] = []) {
+  return z
+    .object({
+      isSameMerchant: z.boolean(),
+      canonicalPayeeName: z.preprocess(emptyToNull, z.string().nullable()),
+      payeeConfidence: confidenceSchema,
+      payeeReasoning: z.string(),
+      categoryId: categoryIdSchema(categories),
+      categoryName: z.preprocess(emptyToNull, z.string().nullable()),
+      categoryConfidence: confidenceSchema,
+      categoryReasoning: z.string(),
+      exampleIds: exampleIdsSchema(exampleLabels),
+    })
+    .transform((result) => ({
+      ...result,
+      categoryName: categoryNameFor(categories, result.categoryId),
+    }));
+}
+
+export function fuzzyMatchDisambiguationSchema(
+  categories: Category[],
+  candidateCount: number,
+  exampleLabels: string[] = []
+) {
+  return z
+    .object({
+      matchIndex: z.number().int().min(1).max(candidateCount).nullable(),
+      canonicalPayeeName: z.preprocess(emptyToNull, z.string().nullable()),
+      payeeConfidence: confidenceSchema,
+      payeeReasoning: z.string(),
+      categoryId: categoryIdSchema(categories),
+      categoryName: z.preprocess(emptyToNull, z.string().nullable()),
+      categoryConfidence: confidenceSchema,
+      categoryReasoning: z.string(),
+      exampleIds: exampleIdsSchema(exampleLabels),
+    })
+    .transform((result) => ({
+      ...result,
+      categoryName: categoryNameFor(categories, result.categoryId),
+    }));
+}
+
+/**
+ * Groups of 0-based payee indexes; every index must appear exactly once
+ */
+export function payeeClusterSplitSchema(payeeCount: number) {
+  const indexSchema = z
+    .number()
+    .int()
+    .min(0)
+    .max(payeeCount - 1);
+  return z.object({ groups: z.array(z.array(indexSchema).min(1)) }).superRefine((result, ctx) => {
+    const seen = new Set<number>();
+    for (const group of result.groups) {
+      for (const index of group) {
+        if (seen.has(index)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['groups'],
+            message: `index ${index} appears more than once`,
+          });
+        }
+        seen.add(index);
+      }
+    }
+    const missing = Array.from({ length: payeeCount }, (_, index) => index).filter(
+      (index) => !seen.has(index)
+    );
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['groups'],
+        message: `indexes ${missing.join(', ')} are missing`,
+      });
+    }
+  });
+}
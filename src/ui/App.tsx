@@ -5,9 +5,16 @@ import { Header } from './components/Header';
 import { Home } from './components/Home';
 import { SuggestionList } from './components/SuggestionList';
 import { ApplyChanges } from './components/ApplyChanges';
+import { Backtests } from './components/Backtests';
+import { Policies } from './components/Policies';
+import { CategoryGuardrails } from './components/CategoryGuardrails';
+import { PromptTemplates } from './components/PromptTemplates';
+import { Subscriptions } from './components/Subscriptions';
+import { CacheManager } from './components/CacheManager';
 import { History } from './components/History';
 import { Audit } from './components/Audit';
 import { JobList } from './components/JobList';
+import { Schedules } from './components/Schedules';
 import { TemplateStudio } from './components/TemplateStudio';
 import { PayeeMergeTool } from './components/PayeeMergeTool';
 import { Settings } from './components/Settings';
@@ -91,12 +98,48 @@ export function App() {
                     <SuggestionList budgetId={budgetId} />
                   ))}
                 />
+                <Route
+                  path="/backtests"
+                  element={renderBudgetRoute((budgetId) => (
+                    <Backtests budgetId={budgetId} />
+                  ))}
+                />
                 <Route
                   path="/apply"
                   element={renderBudgetRoute((budgetId) => (
                     <ApplyChanges budgetId={budgetId} />
                   ))}
                 />
+                <Route
+                  path="/policies"
+                  element={renderBudgetRoute((budgetId) => (
+                    <Policies budgetId={budgetId} />
+                  ))}
+                />
+                <Route
+                  path="/category-guardrails"
+                  element={renderBudgetRoute((budgetId) => (
+                    <CategoryGuardrails budgetId={budgetId} />
+                  ))}
+                />
+                <Route
+                  path="/prompt-templates"
+                  element={renderBudgetRoute((budgetId) => (
+                    <PromptTemplates budgetId={budgetId} />
+                  ))}
+                />
+                <Route
+                  path="/subscriptions"
+                  element={renderBudgetRoute((budgetId) => (
+                    <Subscriptions budgetId={budgetId} />
+                  ))}
+                />
+                <Route
+                  path="/cache"
+                  element={renderBudgetRoute((budgetId) => (
+                    <CacheManager budgetId={budgetId} />
+                  ))}
+                />
                 <Route
                   path="/history"
                   element={renderBudgetRoute((budgetId) => (
@@ -127,6 +170,12 @@ export function App() {
                     <JobList budgetId={budgetId} />
                   ))}
                 />
+                <Route
+                  path="/schedules"
+                  element={renderBudgetRoute((budgetId) => (
+                    <Schedules budgetId={budgetId} />
+                  ))}
+                />
                 <Route path="/settings" element={<Settings />} />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
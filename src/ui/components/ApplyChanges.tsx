@@ -50,6 +50,15 @@ function formatAmount(amount: number | null): string {
   }).format(dollars);
 }
 
+function formatCategoryLabel(change: ApprovedChange): string {
+  if (change.splitLines && change.splitLines.length > 0) {
+    return `Split: ${change.splitLines
+      .map((line) => `${line.categoryName} ${formatAmount(line.amount)}`)
+      .join(' · ')}`;
+  }
+  return change.proposedCategoryName || change.proposedCategoryId;
+}
+
 export function ApplyChanges({ budgetId }: ApplyChangesProps) {
   const theme = useTheme();
   const isSmall = useMediaQuery(theme.breakpoints.down('sm'));
@@ -284,7 +293,7 @@ export function ApplyChanges({ budgetId }: ApplyChangesProps) {
                             size="small"
                             variant="outlined"
                             color="info"
-                            label={change.proposedCategoryName || change.proposedCategoryId}
+                            label={formatCategoryLabel(change)}
                             sx={{
                               width: '100%',
                               borderRadius: 1,
@@ -409,7 +418,7 @@ export function ApplyChanges({ budgetId }: ApplyChangesProps) {
                               size="small"
                               variant="outlined"
                               color="info"
-                              label={change.proposedCategoryName || change.proposedCategoryId}
+                              label={formatCategoryLabel(change)}
                             />
                           </Stack>
                         </TableCell>
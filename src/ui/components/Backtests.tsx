@@ -0,0 +1,361 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { api, type BacktestRun } from '../services/api';
+
+interface BacktestsProps {
+  budgetId: string;
+}
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+const cellSx = { borderBottomColor: 'divider' } as const;
+
+const formatPercent = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`;
+
+const formatSource = (source: string): string => source.replace(/_/g, ' ');
+
+/**
+ * Backtest page - scores the categorizer against already-categorized history
+ * Each run hides the categories of a sample and compares the pipeline's answers
+ */
+export function Backtests({ budgetId }: BacktestsProps) {
+  const queryClient = useQueryClient();
+  const [sampleSize, setSampleSize] = useState('100');
+  const [useAI, setUseAI] = useState(false);
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const { data: appConfig } = useQuery({
+    queryKey: ['app-config'],
+    queryFn: () => api.getAppConfig(),
+  });
+  const aiConfigured = appConfig?.openaiConfigured ?? false;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['backtest-runs', budgetId],
+    queryFn: () => api.getBacktestRuns(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const { data: selectedRunData } = useQuery({
+    queryKey: ['backtest-run', selectedRunId],
+    queryFn: () => api.getBacktestRun(selectedRunId ?? ''),
+    enabled: Boolean(selectedRunId),
+  });
+
+  const { data: accuracyData } = useQuery({
+    queryKey: ['suggestion-accuracy', budgetId],
+    queryFn: () => api.getSourceAccuracy(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const { data: pendingJobData } = useQuery({
+    queryKey: ['job', pendingJobId],
+    queryFn: async () => {
+      const result = await api.getJob(pendingJobId ?? '');
+      if (result.job.completedAt) {
+        queryClient.invalidateQueries({ queryKey: ['backtest-runs', budgetId] });
+        queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+      }
+      return result;
+    },
+    enabled: Boolean(pendingJobId),
+    refetchInterval: (query) => (query.state.data?.job.completedAt ? false : 2000),
+  });
+
+  const pendingJob = pendingJobData?.job;
+  const isRunning = Boolean(pendingJobId) && !pendingJob?.completedAt;
+
+  const parsedSampleSize = Number(sampleSize);
+  const isSampleSizeValid =
+    Number.isInteger(parsedSampleSize) && parsedSampleSize >= 1 && parsedSampleSize <= 500;
+
+  const runMutation = useMutation({
+    mutationFn: () => api.createBacktestJob(budgetId, parsedSampleSize, useAI && aiConfigured),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+      setPendingJobId(result.job.id);
+    },
+  });
+
+  const runs = data?.runs ?? [];
+  const sourceAccuracy = accuracyData?.sources ?? [];
+  const selectedRun = selectedRunData?.run ?? null;
+  const misses = (selectedRun?.outcomes ?? []).filter(
+    (outcome) =>
+      outcome.predictedCategoryId && outcome.predictedCategoryId !== outcome.actualCategoryId
+  );
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box
+        sx={{
+          mb: 3,
+          display: 'flex',
+          flexDirection: { xs: 'column', md: 'row' },
+          alignItems: { md: 'center' },
+          justifyContent: 'space-between',
+          gap: 2,
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+          pb: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="h6" fontWeight={600} color="text.primary">
+            Suggestion backtests
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Hide the categories of already-categorized transactions and measure how often the
+            suggestion pipeline gets them right
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <TextField
+            size="small"
+            label="Sample size"
+            type="number"
+            value={sampleSize}
+            onChange={(event) => setSampleSize(event.target.value)}
+            error={!isSampleSizeValid}
+            inputProps={{ min: 1, max: 500 }}
+            sx={{ width: 120 }}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={useAI && aiConfigured}
+                disabled={!aiConfigured}
+                onChange={(event) => setUseAI(event.target.checked)}
+              />
+            }
+            label="Use AI"
+          />
+          <Button
+            variant="contained"
+            size="small"
+            disabled={!isSampleSizeValid || runMutation.isPending || isRunning}
+            onClick={() => runMutation.mutate()}
+          >
+            {isRunning ? 'Running...' : 'Run backtest'}
+          </Button>
+        </Stack>
+      </Box>
+
+      {runMutation.error && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          Starting backtest failed: {runMutation.error.message}
+        </Alert>
+      )}
+      {pendingJob?.status === 'failed' && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          Backtest failed: {pendingJob.failureReason}
+        </Alert>
+      )}
+
+      {sourceAccuracy.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="subtitle2" fontWeight={600}>
+            Accuracy on your own categorizations
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            Open suggestions you resolved by categorizing directly in Actual, compared with what
+            each source proposed
+          </Typography>
+          <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+            <Table size="small" aria-label="accuracy by source">
+              <TableHead>
+                <TableRow>
+                  {['Source', 'Resolved', 'Matched', 'Overridden', 'Accuracy'].map((label) => (
+                    <TableCell key={label} sx={headerCellSx}>
+                      {label}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {sourceAccuracy.map((stats) => (
+                  <TableRow key={stats.source}>
+                    <TableCell sx={cellSx}>{formatSource(stats.source)}</TableCell>
+                    <TableCell sx={cellSx}>{stats.total}</TableCell>
+                    <TableCell sx={cellSx}>{stats.accepted}</TableCell>
+                    <TableCell sx={cellSx}>{stats.overridden}</TableCell>
+                    <TableCell sx={cellSx}>{formatPercent(stats.accuracy)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Paper>
+        </Box>
+      )}
+
+      {isLoading ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading backtest runs...
+        </Typography>
+      ) : error ? (
+        <Alert severity="error" variant="outlined">
+          Error loading backtest runs: {error.message}
+        </Alert>
+      ) : runs.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            No backtest runs yet
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto', mb: 3 }}>
+          <Table size="small" aria-label="backtest runs">
+            <TableHead>
+              <TableRow>
+                {['Date', 'Mode', 'Evaluated', 'Accuracy', 'Coverage', 'By source'].map((label) => (
+                  <TableCell key={label} sx={headerCellSx}>
+                    {label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {runs.map((run: BacktestRun) => (
+                <TableRow
+                  key={run.id}
+                  hover
+                  selected={run.id === selectedRunId}
+                  onClick={() => setSelectedRunId(run.id)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell sx={cellSx}>{new Date(run.createdAt).toLocaleString()}</TableCell>
+                  <TableCell sx={cellSx}>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={run.useAI ? 'info' : 'default'}
+                      label={run.useAI ? `AI (${String(run.config.aiBackend ?? '')})` : 'No AI'}
+                    />
+                    {Array.isArray(run.config.promptVersions) && (
+                      <Typography variant="caption" color="text.secondary" component="div">
+                        {run.config.promptVersions.map(String).join(', ')}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell sx={cellSx}>{run.evaluatedCount}</TableCell>
+                  <TableCell sx={cellSx}>{formatPercent(run.accuracy)}</TableCell>
+                  <TableCell sx={cellSx}>{formatPercent(run.coverage)}</TableCell>
+                  <TableCell sx={cellSx}>
+                    <Typography variant="caption" color="text.secondary">
+                      {Object.entries(run.bySource)
+                        .map(
+                          ([source, stats]) =>
+                            `${formatSource(source)}: ${formatPercent(stats.accuracy)} of ${stats.count}`
+                        )
+                        .join(' · ') || '—'}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      {selectedRun && (
+        <Stack spacing={3}>
+          <Box>
+            <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 1 }}>
+              Calibration by confidence
+            </Typography>
+            <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+              <Table size="small" aria-label="backtest calibration">
+                <TableHead>
+                  <TableRow>
+                    {['Confidence', 'Predictions', 'Mean confidence', 'Observed accuracy'].map(
+                      (label) => (
+                        <TableCell key={label} sx={headerCellSx}>
+                          {label}
+                        </TableCell>
+                      )
+                    )}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {selectedRun.buckets.map((bucket) => (
+                    <TableRow key={bucket.minConfidence}>
+                      <TableCell sx={cellSx}>
+                        {formatPercent(bucket.minConfidence)}–{formatPercent(bucket.maxConfidence)}
+                      </TableCell>
+                      <TableCell sx={cellSx}>{bucket.count}</TableCell>
+                      <TableCell sx={cellSx}>{formatPercent(bucket.meanConfidence)}</TableCell>
+                      <TableCell sx={cellSx}>{formatPercent(bucket.accuracy)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          </Box>
+
+          <Box>
+            <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 1 }}>
+              Wrong predictions ({misses.length})
+            </Typography>
+            {misses.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                Every covered prediction matched the actual category.
+              </Typography>
+            ) : (
+              <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+                <Table size="small" aria-label="backtest misses">
+                  <TableHead>
+                    <TableRow>
+                      {['Payee', 'Actual', 'Predicted', 'Confidence', 'Source'].map((label) => (
+                        <TableCell key={label} sx={headerCellSx}>
+                          {label}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {misses.map((outcome) => (
+                      <TableRow key={outcome.transactionId}>
+                        <TableCell sx={cellSx}>{outcome.payeeName}</TableCell>
+                        <TableCell sx={cellSx}>{outcome.actualCategoryName ?? '—'}</TableCell>
+                        <TableCell sx={cellSx}>{outcome.predictedCategoryName ?? '—'}</TableCell>
+                        <TableCell sx={cellSx}>{formatPercent(outcome.confidence)}</TableCell>
+                        <TableCell sx={cellSx}>{formatSource(outcome.source)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Paper>
+            )}
+          </Box>
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,485 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Autocomplete from '@mui/material/Autocomplete';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Checkbox from '@mui/material/Checkbox';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import MenuItem from '@mui/material/MenuItem';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Tab from '@mui/material/Tab';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TablePagination from '@mui/material/TablePagination';
+import TableRow from '@mui/material/TableRow';
+import Tabs from '@mui/material/Tabs';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { api, type PayeeMatchCacheSource } from '../services/api';
+
+interface CacheManagerProps {
+  budgetId: string;
+}
+
+type CacheTab = 'categories' | 'payee-matches';
+
+/** Common shape of both caches for the shared table */
+interface CacheRow {
+  id: number;
+  payeeName: string;
+  target: string;
+  source: PayeeMatchCacheSource;
+  confidence: number;
+  hitCount: number;
+  lastUsedAt: string | null;
+  pinned: boolean;
+}
+
+interface EditTarget {
+  id: string | null; // Category or payee ID; null for a new payee name
+  name: string;
+}
+
+const PAGE_SIZE = 50;
+
+const SOURCE_LABELS: Record<PayeeMatchCacheSource, string> = {
+  user_approved: 'User approved',
+  high_confidence_ai: 'AI (high confidence)',
+  fuzzy_match: 'Fuzzy match',
+};
+
+const TAB_SOURCES: Record<CacheTab, PayeeMatchCacheSource[]> = {
+  categories: ['user_approved', 'high_confidence_ai'],
+  'payee-matches': ['user_approved', 'high_confidence_ai', 'fuzzy_match'],
+};
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+const cellSx = { borderBottomColor: 'divider' } as const;
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return 'Never';
+  // SQLite datetime('now') is UTC without a zone suffix
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+/**
+ * Cache management page - inspect and correct the learned payee→category and payee matches
+ * Pinned entries are never overwritten by automatic learning and survive bulk clears by default
+ */
+export function CacheManager({ budgetId }: CacheManagerProps) {
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<CacheTab>('categories');
+  const [search, setSearch] = useState('');
+  const [source, setSource] = useState<PayeeMatchCacheSource | ''>('');
+  const [page, setPage] = useState(0);
+  const [editingRow, setEditingRow] = useState<CacheRow | null>(null);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [clearOpen, setClearOpen] = useState(false);
+  const [includePinned, setIncludePinned] = useState(false);
+
+  const query = { search, source, limit: PAGE_SIZE, offset: page * PAGE_SIZE };
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['cache', tab, budgetId, query],
+    queryFn: async () => {
+      if (tab === 'categories') {
+        const result = await api.getCategoryCache(budgetId, query);
+        return {
+          ...result,
+          rows: result.entries.map((entry): CacheRow => ({
+            id: entry.id,
+            payeeName: entry.payeeNameOriginal,
+            target: entry.categoryName,
+            source: entry.source,
+            confidence: entry.confidence,
+            hitCount: entry.hitCount,
+            lastUsedAt: entry.lastUsedAt,
+            pinned: entry.pinned,
+          })),
+        };
+      }
+      const result = await api.getPayeeMatchCache(budgetId, query);
+      return {
+        ...result,
+        rows: result.entries.map((entry): CacheRow => ({
+          id: entry.id,
+          payeeName: entry.rawPayeeNameOriginal,
+          target: entry.canonicalPayeeName,
+          source: entry.source,
+          confidence: entry.confidence,
+          hitCount: entry.hitCount,
+          lastUsedAt: entry.lastUsedAt,
+          pinned: entry.pinned,
+        })),
+      };
+    },
+    enabled: !!budgetId,
+  });
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => api.getCategories(),
+    enabled: tab === 'categories',
+  });
+
+  const { data: payeesData } = useQuery({
+    queryKey: ['payees'],
+    queryFn: () => api.getPayees(),
+    enabled: tab === 'payee-matches',
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['cache', tab, budgetId] });
+
+  const pinMutation = useMutation({
+    mutationFn: (row: CacheRow): Promise<unknown> =>
+      tab === 'categories'
+        ? api.updateCategoryCacheEntry(row.id, { pinned: !row.pinned })
+        : api.updatePayeeMatchCacheEntry(row.id, { pinned: !row.pinned }),
+    onSuccess: invalidate,
+  });
+
+  const editMutation = useMutation({
+    mutationFn: ({ row, target }: { row: CacheRow; target: EditTarget }): Promise<unknown> =>
+      tab === 'categories'
+        ? api.updateCategoryCacheEntry(row.id, { categoryId: target.id ?? undefined })
+        : api.updatePayeeMatchCacheEntry(
+            row.id,
+            target.id ? { canonicalPayeeId: target.id } : { canonicalPayeeName: target.name }
+          ),
+    onSuccess: () => {
+      invalidate();
+      setEditingRow(null);
+      setEditTarget(null);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (row: CacheRow) =>
+      tab === 'categories'
+        ? api.deleteCategoryCacheEntry(row.id)
+        : api.deletePayeeMatchCacheEntry(row.id),
+    onSuccess: invalidate,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => {
+      const options = { source: source || undefined, includePinned };
+      return tab === 'categories'
+        ? api.clearCategoryCache(budgetId, options)
+        : api.clearPayeeMatchCache(budgetId, options);
+    },
+    onSuccess: () => {
+      invalidate();
+      setClearOpen(false);
+      setIncludePinned(false);
+      setPage(0);
+    },
+  });
+
+  const rows = data?.rows ?? [];
+  const categoryOptions: EditTarget[] = (categoriesData?.categories ?? []).map((category) => ({
+    id: category.id,
+    name: category.groupName ? `${category.groupName} › ${category.name}` : category.name,
+  }));
+  const payeeOptions: EditTarget[] = (payeesData?.payees ?? []).map((payee) => ({
+    id: payee.id,
+    name: payee.name,
+  }));
+  const editOptions = tab === 'categories' ? categoryOptions : payeeOptions;
+  const mutationError =
+    pinMutation.error ?? editMutation.error ?? deleteMutation.error ?? clearMutation.error;
+
+  const changeTab = (value: CacheTab) => {
+    setTab(value);
+    setSource('');
+    setPage(0);
+  };
+
+  const openEditor = (row: CacheRow) => {
+    editMutation.reset();
+    setEditingRow(row);
+    setEditTarget(null);
+  };
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box sx={{ mb: 2, borderBottom: '1px solid', borderColor: 'divider', pb: 2 }}>
+        <Typography variant="h6" fontWeight={600} color="text.primary">
+          Suggestion caches
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Learned mappings reused before any AI call. Fix or delete a wrong entry here; pin an entry
+          to keep automatic learning from overwriting it.
+        </Typography>
+      </Box>
+
+      <Tabs
+        value={tab}
+        onChange={(_event, value: CacheTab) => changeTab(value)}
+        sx={{ mb: 2, borderBottom: '1px solid', borderColor: 'divider' }}
+      >
+        <Tab value="categories" label="Payee → category" />
+        <Tab value="payee-matches" label="Payee matches" />
+      </Tabs>
+
+      <Stack
+        direction={{ xs: 'column', md: 'row' }}
+        spacing={2}
+        alignItems={{ md: 'center' }}
+        sx={{ mb: 2 }}
+      >
+        <TextField
+          size="small"
+          label="Search payee"
+          value={search}
+          onChange={(event) => {
+            setSearch(event.target.value);
+            setPage(0);
+          }}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Source"
+          value={source}
+          onChange={(event) => {
+            setSource(event.target.value as PayeeMatchCacheSource | '');
+            setPage(0);
+          }}
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="">All sources</MenuItem>
+          {TAB_SOURCES[tab].map((value) => (
+            <MenuItem key={value} value={value}>
+              {SOURCE_LABELS[value]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          variant="outlined"
+          color="error"
+          size="small"
+          disabled={!data || data.stats.totalEntries === 0}
+          onClick={() => setClearOpen(true)}
+        >
+          Clear entries
+        </Button>
+      </Stack>
+
+      {data && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          {data.stats.totalEntries} entries · {data.stats.totalHits} total hits
+        </Typography>
+      )}
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading cache entries...
+        </Typography>
+      ) : error ? (
+        <Alert severity="error" variant="outlined">
+          Error loading cache entries: {error.message}
+        </Alert>
+      ) : rows.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            No cache entries match.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+          <Table size="small" aria-label="cache entries">
+            <TableHead>
+              <TableRow>
+                {[
+                  'Payee',
+                  tab === 'categories' ? 'Category' : 'Canonical payee',
+                  'Source',
+                  'Hits',
+                  'Last used',
+                  'Pinned',
+                  '',
+                ].map((label) => (
+                  <TableCell key={label} sx={headerCellSx}>
+                    {label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id} hover>
+                  <TableCell sx={cellSx}>{row.payeeName}</TableCell>
+                  <TableCell sx={cellSx}>{row.target}</TableCell>
+                  <TableCell sx={cellSx}>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={row.source === 'user_approved' ? 'success' : 'default'}
+                      label={`${SOURCE_LABELS[row.source]} · ${Math.round(row.confidence * 100)}%`}
+                    />
+                  </TableCell>
+                  <TableCell sx={cellSx}>{row.hitCount}</TableCell>
+                  <TableCell sx={cellSx}>
+                    <Typography variant="caption" color="text.secondary">
+                      {formatTimestamp(row.lastUsedAt)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={cellSx}>
+                    <Switch
+                      size="small"
+                      checked={row.pinned}
+                      disabled={pinMutation.isPending}
+                      onChange={() => pinMutation.mutate(row)}
+                    />
+                  </TableCell>
+                  <TableCell sx={cellSx} align="right">
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      <Button size="small" onClick={() => openEditor(row)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="small"
+                        color="error"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(row)}
+                      >
+                        Delete
+                      </Button>
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <TablePagination
+            component="div"
+            count={data?.total ?? 0}
+            page={page}
+            onPageChange={(_event, value: number) => setPage(value)}
+            rowsPerPage={PAGE_SIZE}
+            rowsPerPageOptions={[PAGE_SIZE]}
+          />
+        </Paper>
+      )}
+
+      <Dialog open={Boolean(editingRow)} onClose={() => setEditingRow(null)} fullWidth>
+        <DialogTitle>Edit {editingRow?.payeeName}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Currently mapped to {editingRow?.target}. The corrected entry is saved as user approved.
+          </Typography>
+          <Autocomplete
+            freeSolo={tab === 'payee-matches'}
+            options={editOptions}
+            getOptionLabel={(option) => (typeof option === 'string' ? option : option.name)}
+            isOptionEqualToValue={(option, value) =>
+              typeof value !== 'string' && option.id === value.id
+            }
+            value={editTarget}
+            onChange={(_event, value) =>
+              setEditTarget(typeof value === 'string' ? { id: null, name: value } : value)
+            }
+            onInputChange={(_event, value, reason) => {
+              if (reason === 'input' && tab === 'payee-matches') {
+                setEditTarget({ id: null, name: value });
+              }
+            }}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                size="small"
+                label={tab === 'categories' ? 'Category' : 'Canonical payee'}
+              />
+            )}
+          />
+          {editMutation.error && (
+            <Alert severity="error" variant="outlined" sx={{ mt: 2 }}>
+              {editMutation.error.message}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingRow(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={
+              !editingRow ||
+              !editTarget ||
+              (tab === 'categories' ? !editTarget.id : !editTarget.name.trim()) ||
+              editMutation.isPending
+            }
+            onClick={() => {
+              if (editingRow && editTarget) {
+                editMutation.mutate({ row: editingRow, target: editTarget });
+              }
+            }}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={clearOpen} onClose={() => setClearOpen(false)}>
+        <DialogTitle>Clear cache entries</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            Delete {source ? `every ${SOURCE_LABELS[source].toLowerCase()}` : 'every'} entry in the{' '}
+            {tab === 'categories' ? 'payee → category' : 'payee match'} cache for this budget.
+            Suggestions fall back to history, the classifier or AI until the cache is learned again.
+          </Typography>
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={
+              <Checkbox
+                checked={includePinned}
+                onChange={(event) => setIncludePinned(event.target.checked)}
+              />
+            }
+            label="Also delete pinned entries"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setClearOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="error"
+            disabled={clearMutation.isPending}
+            onClick={() => clearMutation.mutate()}
+          >
+            Clear
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import MenuItem from '@mui/material/MenuItem';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { api, type Account, type Category, type CategoryGuidance } from '../services/api';
+
+interface CategoryGuardrailsProps {
+  budgetId: string;
+}
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+const cellSx = { borderBottomColor: 'divider' } as const;
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const splitList = (value: string): string[] =>
+  value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Category guardrails page - what each category means in this household, payees it is never
+ * for, and which categories each account may use
+ * Category prompts show the descriptions; proposals breaking a guardrail are dropped
+ */
+export function CategoryGuardrails({ budgetId }: CategoryGuardrailsProps) {
+  const queryClient = useQueryClient();
+  const [categoryId, setCategoryId] = useState('');
+  const [description, setDescription] = useState('');
+  const [examplePayees, setExamplePayees] = useState('');
+  const [neverSuggestFor, setNeverSuggestFor] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [allowedCategoryIds, setAllowedCategoryIds] = useState<string[]>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['category-guidance', budgetId],
+    queryFn: () => api.getCategoryGuidance(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories', budgetId],
+    queryFn: () => api.getCategories(),
+    enabled: !!budgetId,
+  });
+
+  const { data: accountsData } = useQuery({
+    queryKey: ['accounts', budgetId],
+    queryFn: () => api.getAccounts(),
+    enabled: !!budgetId,
+  });
+
+  const categories: Category[] = categoriesData?.categories ?? [];
+  const accounts: Account[] = accountsData?.accounts ?? [];
+  const guidance = data?.guidance ?? [];
+  const allowlists = data?.allowlists ?? [];
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const accountNames = new Map(accounts.map((account) => [account.id, account.name]));
+
+  const invalidateGuidance = () =>
+    queryClient.invalidateQueries({ queryKey: ['category-guidance', budgetId] });
+
+  const selectCategory = (id: string) => {
+    const existing = guidance.find((entry) => entry.categoryId === id);
+    setCategoryId(id);
+    setDescription(existing?.description ?? '');
+    setExamplePayees(existing?.examplePayees.join(', ') ?? '');
+    setNeverSuggestFor(existing?.neverSuggestFor.join(', ') ?? '');
+  };
+
+  const selectAccount = (id: string) => {
+    setAccountId(id);
+    setAllowedCategoryIds(allowlists.find((entry) => entry.accountId === id)?.categoryIds ?? []);
+  };
+
+  const saveGuidanceMutation = useMutation({
+    mutationFn: () =>
+      api.setCategoryGuidance(budgetId, categoryId, {
+        description: description.trim() || null,
+        examplePayees: splitList(examplePayees),
+        neverSuggestFor: splitList(neverSuggestFor),
+      }),
+    onSuccess: invalidateGuidance,
+  });
+
+  const clearGuidanceMutation = useMutation({
+    mutationFn: (id: string) => api.clearCategoryGuidance(budgetId, id),
+    onSuccess: (_result, id) => {
+      invalidateGuidance();
+      if (id === categoryId) selectCategory('');
+    },
+  });
+
+  const saveAllowlistMutation = useMutation({
+    mutationFn: () => api.setAccountAllowlist(budgetId, accountId, allowedCategoryIds),
+    onSuccess: invalidateGuidance,
+  });
+
+  const clearAllowlistMutation = useMutation({
+    mutationFn: (id: string) => api.clearAccountAllowlist(budgetId, id),
+    onSuccess: (_result, id) => {
+      invalidateGuidance();
+      if (id === accountId) setAllowedCategoryIds([]);
+    },
+  });
+
+  const canSaveGuidance =
+    !!categoryId &&
+    (description.trim().length > 0 ||
+      splitList(examplePayees).length > 0 ||
+      splitList(neverSuggestFor).length > 0);
+
+  const mutationError =
+    saveGuidanceMutation.error ??
+    clearGuidanceMutation.error ??
+    saveAllowlistMutation.error ??
+    clearAllowlistMutation.error;
+
+  const describeGuidance = (entry: CategoryGuidance): string =>
+    [
+      entry.description,
+      entry.examplePayees.length > 0 ? `e.g. ${entry.examplePayees.join(', ')}` : null,
+      entry.neverSuggestFor.length > 0 ? `never for: ${entry.neverSuggestFor.join(', ')}` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box sx={{ mb: 3, borderBottom: '1px solid', borderColor: 'divider', pb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }} color="text.primary">
+          Category guardrails
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Descriptions and example payees are shown to the AI with each category. Categories are
+          never proposed for matching payees, or outside an account&apos;s allowlist.
+        </Typography>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading guardrails...
+        </Typography>
+      ) : error ? (
+        <Alert severity="error" variant="outlined">
+          Error loading guardrails: {error.message}
+        </Alert>
+      ) : (
+        <Stack spacing={3}>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 2 }}>
+              Describe a category
+            </Typography>
+            <Stack spacing={2}>
+              <TextField
+                select
+                size="small"
+                label="Category"
+                value={categoryId}
+                onChange={(event) => selectCategory(event.target.value)}
+                sx={{ maxWidth: 400 }}
+              >
+                {categories.map((category) => (
+                  <MenuItem key={category.id} value={category.id}>
+                    {category.groupName ? `${category.groupName} / ` : ''}
+                    {category.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                label="Description"
+                placeholder="Each adult's personal spending: hobbies, games, treats"
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                disabled={!categoryId}
+              />
+              <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+                <TextField
+                  size="small"
+                  label="Example payees (comma-separated)"
+                  value={examplePayees}
+                  onChange={(event) => setExamplePayees(event.target.value)}
+                  disabled={!categoryId}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="Never suggest for payees containing"
+                  value={neverSuggestFor}
+                  onChange={(event) => setNeverSuggestFor(event.target.value)}
+                  disabled={!categoryId}
+                  sx={{ flex: 1 }}
+                />
+              </Stack>
+              <Box>
+                <Button
+                  variant="contained"
+                  size="small"
+                  disabled={!canSaveGuidance || saveGuidanceMutation.isPending}
+                  onClick={() => saveGuidanceMutation.mutate()}
+                >
+                  Save category
+                </Button>
+              </Box>
+            </Stack>
+          </Paper>
+
+          {guidance.length > 0 && (
+            <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+              <Table size="small" aria-label="category guidance">
+                <TableHead>
+                  <TableRow>
+                    {['Category', 'Guidance', ''].map((label) => (
+                      <TableCell key={label} sx={headerCellSx}>
+                        {label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {guidance.map((entry) => (
+                    <TableRow key={entry.categoryId}>
+                      <TableCell sx={cellSx}>
+                        {categoryNames.get(entry.categoryId) ?? entry.categoryId}
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        <Typography variant="caption" color="text.secondary">
+                          {describeGuidance(entry)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        <Button size="small" onClick={() => selectCategory(entry.categoryId)}>
+                          Edit
+                        </Button>
+                        <Button
+                          size="small"
+                          color="error"
+                          disabled={clearGuidanceMutation.isPending}
+                          onClick={() => clearGuidanceMutation.mutate(entry.categoryId)}
+                        >
+                          Clear
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
+
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 2 }}>
+              Account allowlist
+            </Typography>
+            <Stack spacing={2}>
+              <TextField
+                select
+                size="small"
+                label="Account"
+                value={accountId}
+                onChange={(event) => selectAccount(event.target.value)}
+                sx={{ maxWidth: 400 }}
+              >
+                {accounts.map((account) => (
+                  <MenuItem key={account.id} value={account.id}>
+                    {account.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              {accountId && (
+                <Box>
+                  <Typography variant="caption" color="text.secondary">
+                    Categories this account may use
+                  </Typography>
+                  <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap', mt: 0.5 }}>
+                    {categories.map((category) => (
+                      <Chip
+                        key={category.id}
+                        size="small"
+                        label={category.name}
+                        color={allowedCategoryIds.includes(category.id) ? 'primary' : 'default'}
+                        variant={allowedCategoryIds.includes(category.id) ? 'filled' : 'outlined'}
+                        onClick={() =>
+                          setAllowedCategoryIds((current) => toggle(current, category.id))
+                        }
+                      />
+                    ))}
+                  </Stack>
+                </Box>
+              )}
+              <Box>
+                <Button
+                  variant="contained"
+                  size="small"
+                  disabled={
+                    !accountId || allowedCategoryIds.length === 0 || saveAllowlistMutation.isPending
+                  }
+                  onClick={() => saveAllowlistMutation.mutate()}
+                >
+                  Save allowlist
+                </Button>
+              </Box>
+            </Stack>
+          </Paper>
+
+          {allowlists.length === 0 ? (
+            <Paper
+              variant="outlined"
+              sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+            >
+              <Typography variant="body2" color="text.secondary">
+                No allowlists yet. Every account may use every category.
+              </Typography>
+            </Paper>
+          ) : (
+            <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+              <Table size="small" aria-label="account allowlists">
+                <TableHead>
+                  <TableRow>
+                    {['Account', 'Allowed categories', ''].map((label) => (
+                      <TableCell key={label} sx={headerCellSx}>
+                        {label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {allowlists.map((entry) => (
+                    <TableRow key={entry.accountId}>
+                      <TableCell sx={cellSx}>
+                        {accountNames.get(entry.accountId) ?? entry.accountId}
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        <Typography variant="caption" color="text.secondary">
+                          {entry.categoryIds.map((id) => categoryNames.get(id) ?? id).join(', ')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        <Button size="small" onClick={() => selectAccount(entry.accountId)}>
+                          Edit
+                        </Button>
+                        <Button
+                          size="small"
+                          color="error"
+                          disabled={clearAllowlistMutation.isPending}
+                          onClick={() => clearAllowlistMutation.mutate(entry.accountId)}
+                        >
+                          Allow all
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -51,6 +51,12 @@ export function Header({ budgetName, budgetId }: HeaderProps) {
   const isHomeSection = location.pathname === '/';
   const isToolsSection =
     location.pathname.startsWith('/suggestions') ||
+    location.pathname.startsWith('/backtests') ||
+    location.pathname.startsWith('/policies') ||
+    location.pathname.startsWith('/category-guardrails') ||
+    location.pathname.startsWith('/prompt-templates') ||
+    location.pathname.startsWith('/subscriptions') ||
+    location.pathname.startsWith('/cache') ||
     location.pathname.startsWith('/templates') ||
     location.pathname.startsWith('/history') ||
     location.pathname.startsWith('/apply') ||
@@ -58,6 +64,7 @@ export function Header({ budgetName, budgetId }: HeaderProps) {
   const isSystemSection =
     location.pathname.startsWith('/audit') ||
     location.pathname.startsWith('/settings') ||
+    location.pathname.startsWith('/schedules') ||
     location.pathname.startsWith('/jobs');
 
   const navSections = useMemo(
@@ -70,7 +77,13 @@ export function Header({ budgetName, budgetId }: HeaderProps) {
         label: 'Tools',
         items: [
           { label: 'Category suggestions', path: '/suggestions' },
+          { label: 'Suggestion backtests', path: '/backtests' },
+          { label: 'Auto-approve policies', path: '/policies' },
+          { label: 'Category guardrails', path: '/category-guardrails' },
+          { label: 'Prompt templates', path: '/prompt-templates' },
           { label: 'Duplicate payee suggestions', path: '/payees/merge' },
+          { label: 'Subscriptions', path: '/subscriptions' },
+          { label: 'Suggestion caches', path: '/cache' },
           { label: 'Budget Template Studio', path: '/templates' },
         ],
       },
@@ -78,6 +91,7 @@ export function Header({ budgetName, budgetId }: HeaderProps) {
         label: 'System',
         items: [
           { label: 'Jobs history', path: '/jobs' },
+          { label: 'Schedules', path: '/schedules' },
           { label: 'Audit Log', path: '/audit' },
           { label: 'Settings', path: '/settings' },
         ],
@@ -6,6 +6,7 @@ import Paper from '@mui/material/Paper';
 import Stack from '@mui/material/Stack';
 import Typography from '@mui/material/Typography';
 import { api } from '../services/api';
+import { formatAICost } from '../utils/aiLabels';
 import { loadPayeeMergeSettings } from '../services/payeeMergeSettings';
 
 interface HomeProps {
@@ -45,6 +46,16 @@ export function Home({ budgetId }: HomeProps) {
     enabled: !!budgetId,
   });
 
+  const { data: aiUsageData, isError: aiUsageError } = useQuery({
+    queryKey: ['ai-usage'],
+    queryFn: () => api.getAIUsage(),
+  });
+
+  const { data: aiValidationData } = useQuery({
+    queryKey: ['ai-usage', 'validation'],
+    queryFn: () => api.getAIValidationStats(),
+  });
+
   const uncategorizedCount = uncategorizedData?.transactions?.length ?? 0;
   const payeeClusters = payeeMergeData?.clusters ?? [];
   const payeeCache = payeeMergeData?.cache;
@@ -71,6 +82,19 @@ export function Home({ budgetId }: HomeProps) {
       ? 'Template count unavailable.'
       : `${templatesCount} template${templatesCount === 1 ? '' : 's'} found.`;
 
+  const spending = aiUsageData?.spending;
+  const usageMonths = aiUsageData?.months ?? [];
+  const validationStats = aiValidationData?.backends ?? [];
+  const formatRate = (rate: number | null) =>
+    rate === null ? '–' : `${Math.round(rate * 1000) / 10}%`;
+  const spendingHint = aiUsageError
+    ? 'AI spending unavailable.'
+    : !spending
+      ? 'Checking AI spending...'
+      : spending.monthlyCapUsd === null
+        ? `${formatAICost(spending.spentUsd)} estimated this month (no cap).`
+        : `${formatAICost(spending.spentUsd)} of ${formatAICost(spending.monthlyCapUsd)} monthly cap used.`;
+
   const cardSx = {
     flex: 1,
     minWidth: { md: 260 },
@@ -175,6 +199,51 @@ export function Home({ budgetId }: HomeProps) {
             </Typography>
           </Paper>
         </Stack>
+
+        <Paper variant="outlined" sx={{ ...cardSx, flex: 'none' }}>
+          <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+            AI spending
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Estimated cost of AI calls from token usage and model prices.
+          </Typography>
+          <Box sx={hintSx}>
+            <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600 }}>
+              {spendingHint}
+            </Typography>
+          </Box>
+          {spending?.capReached && (
+            <Typography variant="body2" color="warning.main">
+              The monthly cap is reached: jobs generate suggestions without AI until next month.
+            </Typography>
+          )}
+          {usageMonths.length > 0 && (
+            <Stack spacing={0.5}>
+              {usageMonths.map((month) => (
+                <Typography key={month.month} variant="body2" color="text.secondary">
+                  {month.month} · {month.calls} call{month.calls === 1 ? '' : 's'} ·{' '}
+                  {(month.promptTokens + month.completionTokens).toLocaleString()} tokens ·{' '}
+                  {formatAICost(month.estimatedCostUsd)}
+                  {month.unpricedCalls > 0 ? ` (+${month.unpricedCalls} unpriced)` : ''}
+                </Typography>
+              ))}
+            </Stack>
+          )}
+          {validationStats.length > 0 && (
+            <Stack spacing={0.5}>
+              <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                Response validity
+              </Typography>
+              {validationStats.map((stats) => (
+                <Typography key={stats.backend} variant="body2" color="text.secondary">
+                  {stats.backend} · {stats.total} response{stats.total === 1 ? '' : 's'} ·{' '}
+                  {formatRate(stats.invalidRate)} invalid · {formatRate(stats.failureRate)} failed
+                  after repair
+                </Typography>
+              ))}
+            </Stack>
+          )}
+        </Paper>
       </Stack>
     </Box>
   );
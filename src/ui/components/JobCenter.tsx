@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import Alert from '@mui/material/Alert';
 import Badge from '@mui/material/Badge';
 import Box from '@mui/material/Box';
@@ -67,6 +67,10 @@ function formatTimestamp(value: string | null): string {
   return date.toLocaleString();
 }
 
+const isActiveJob = (job: Job): boolean => job.status === 'running' || job.status === 'queued';
+
+const isCancelRequested = (job: Job): boolean => Boolean(job.metadata?.cancelRequestedAt);
+
 function sortJobsByCreatedAt(items: Job[]): Job[] {
   return [...items].sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -83,6 +87,12 @@ export function JobCenter({ budgetId }: JobCenterProps) {
   const hasBudget = Boolean(budgetId);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const queryClient = useQueryClient();
+
+  const cancelMutation = useMutation({
+    mutationFn: (jobId: string) => api.cancelJob(jobId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] }),
+  });
 
   const setToastState = useCallback((next: ToastState | null) => {
     toastRef.current = next;
@@ -120,7 +130,7 @@ export function JobCenter({ budgetId }: JobCenterProps) {
 
   const updateToastForJobs = useCallback(
     (items: Job[]) => {
-      const active = items.filter((job) => job.status === 'running' || job.status === 'queued');
+      const active = items.filter(isActiveJob);
       if (active.length > 0) {
         const latestActive = active[0];
         clearToastTimeout();
@@ -181,10 +191,7 @@ export function JobCenter({ budgetId }: JobCenterProps) {
     return sortJobsByCreatedAt(data?.jobs ?? []);
   }, [data]);
 
-  const activeJobs = useMemo(
-    () => jobs.filter((job) => job.status === 'running' || job.status === 'queued'),
-    [jobs]
-  );
+  const activeJobs = useMemo(() => jobs.filter(isActiveJob), [jobs]);
 
   useEffect(() => {
     if (!hasBudget && toastHideTimeoutRef.current) {
@@ -258,7 +265,9 @@ export function JobCenter({ budgetId }: JobCenterProps) {
 
   const toastDetail = toast
     ? toast.phase === 'running'
-      ? 'Working in the background'
+      ? isCancelRequested(toast.job)
+        ? 'Canceling...'
+        : 'Working in the background'
       : `Completed at ${formatTimestamp(toast.job.completedAt)}`
     : '';
 
@@ -331,21 +340,33 @@ export function JobCenter({ budgetId }: JobCenterProps) {
             toast?.phase === 'running' ? <CircularProgress size={14} color="inherit" /> : undefined
           }
           action={
-            <Button
-              size="small"
-              color="inherit"
-              onClick={() => {
-                if (toastHideTimeoutRef.current) {
-                  window.clearTimeout(toastHideTimeoutRef.current);
-                  toastHideTimeoutRef.current = null;
-                }
-                completedToastUntilRef.current = null;
-                toastRef.current = null;
-                setToast(null);
-              }}
-            >
-              Dismiss
-            </Button>
+            <>
+              {toast?.phase === 'running' && !isCancelRequested(toast.job) && (
+                <Button
+                  size="small"
+                  color="inherit"
+                  disabled={cancelMutation.isPending}
+                  onClick={() => cancelMutation.mutate(toast.job.id)}
+                >
+                  Cancel
+                </Button>
+              )}
+              <Button
+                size="small"
+                color="inherit"
+                onClick={() => {
+                  if (toastHideTimeoutRef.current) {
+                    window.clearTimeout(toastHideTimeoutRef.current);
+                    toastHideTimeoutRef.current = null;
+                  }
+                  completedToastUntilRef.current = null;
+                  toastRef.current = null;
+                  setToast(null);
+                }}
+              >
+                Dismiss
+              </Button>
+            </>
           }
         >
           <Typography variant="subtitle2" fontWeight={600}>
@@ -393,6 +414,11 @@ export function JobCenter({ budgetId }: JobCenterProps) {
               Error loading jobs: {(error as Error).message}
             </Alert>
           )}
+          {cancelMutation.error && (
+            <Alert severity="error" variant="outlined">
+              {cancelMutation.error.message}
+            </Alert>
+          )}
           {!isLoading && !error && historyJobs.length === 0 && (
             <Typography variant="caption" color="text.secondary">
               No jobs yet
@@ -438,6 +464,17 @@ export function JobCenter({ budgetId }: JobCenterProps) {
                       {job.failureReason}
                     </Typography>
                   )}
+                  {isActiveJob(job) && (
+                    <Button
+                      size="small"
+                      color="warning"
+                      sx={{ mt: 1 }}
+                      disabled={isCancelRequested(job) || cancelMutation.isPending}
+                      onClick={() => cancelMutation.mutate(job.id)}
+                    >
+                      {isCancelRequested(job) ? 'Canceling...' : 'Cancel'}
+                    </Button>
+                  )}
                 </Paper>
               ))}
             </Stack>
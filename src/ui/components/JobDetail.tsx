@@ -1,5 +1,8 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
 import Chip from '@mui/material/Chip';
 import Paper from '@mui/material/Paper';
 import Table from '@mui/material/Table';
@@ -8,7 +11,8 @@ import TableCell from '@mui/material/TableCell';
 import TableHead from '@mui/material/TableHead';
 import TableRow from '@mui/material/TableRow';
 import Typography from '@mui/material/Typography';
-import { api, type JobStep } from '../services/api';
+import { api, type JobAIUsage, type JobStep } from '../services/api';
+import { formatAICost, formatAITaskLabel } from '../utils/aiLabels';
 
 interface JobDetailProps {
   jobId: string;
@@ -38,11 +42,151 @@ function formatTimestamp(value: string | null): string {
   return date.toLocaleString();
 }
 
+/** Jobs that run inside their request and are started again from their own page */
+const NOT_RETRYABLE_TYPES = ['templates_apply', 'payees_merge'];
+
 function formatStepType(type: JobStep['stepType']): string {
   return type === 'sync' ? 'Sync' : 'Suggestions';
 }
 
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+function formatTokens(promptTokens: number, completionTokens: number): string {
+  return `${promptTokens.toLocaleString()} in / ${completionTokens.toLocaleString()} out`;
+}
+
+function formatCost(usage: Pick<JobAIUsage, 'estimatedCostUsd' | 'unpricedCalls'>): string {
+  const cost = formatAICost(usage.estimatedCostUsd);
+  return usage.unpricedCalls > 0 ? `${cost} (+${usage.unpricedCalls} unpriced)` : cost;
+}
+
+function AIUsageSection({ jobId }: JobDetailProps) {
+  const { data } = useQuery({
+    queryKey: ['job-ai-usage', jobId],
+    queryFn: () => api.getJobAIUsage(jobId),
+    enabled: !!jobId,
+    refetchInterval: 5000,
+  });
+
+  const usage = data?.usage;
+  if (!usage || usage.calls === 0) return null;
+
+  return (
+    <>
+      <Typography variant="subtitle2" sx={{ mt: 2, mb: 1, fontWeight: 600 }}>
+        AI usage · {usage.calls} call{usage.calls === 1 ? '' : 's'} · est. {formatCost(usage)}
+      </Typography>
+      <Table size="small" aria-label="job AI usage">
+        <TableHead>
+          <TableRow>
+            {['Call site', 'Calls', 'Tokens', 'Est. cost'].map((label) => (
+              <TableCell key={label} sx={headerCellSx}>
+                {label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {usage.byTask.map((entry) => (
+            <TableRow key={entry.task ?? 'other'} hover>
+              <TableCell sx={{ borderBottomColor: 'divider' }}>
+                {formatAITaskLabel(entry.task)}
+              </TableCell>
+              <TableCell sx={{ borderBottomColor: 'divider' }}>{entry.calls}</TableCell>
+              <TableCell sx={{ borderBottomColor: 'divider' }}>
+                {formatTokens(entry.promptTokens, entry.completionTokens)}
+              </TableCell>
+              <TableCell sx={{ borderBottomColor: 'divider' }}>{formatCost(entry)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </>
+  );
+}
+
+const sentTextSx = {
+  m: 0,
+  mt: 0.5,
+  whiteSpace: 'pre-wrap',
+  bgcolor: 'background.default',
+  p: 1,
+  borderRadius: 1,
+  border: '1px solid',
+  borderColor: 'divider',
+  fontSize: '0.75rem',
+  color: 'text.secondary',
+} as const;
+
+/**
+ * Exactly what the job sent to AI backends, with personal data replaced by placeholders
+ */
+function OutboundRequestsSection({ jobId }: JobDetailProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { data } = useQuery({
+    queryKey: ['job-ai-requests', jobId],
+    queryFn: () => api.getJobAIRequests(jobId),
+    enabled: !!jobId,
+    refetchInterval: 5000,
+  });
+
+  const requests = data?.requests ?? [];
+  if (requests.length === 0) return null;
+
+  const redactedValues = requests.reduce(
+    (sum, request) =>
+      sum + Object.values(request.redactions).reduce((total, count) => total + count, 0),
+    0
+  );
+
+  return (
+    <>
+      <Box sx={{ mt: 2, mb: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+          Sent to AI · {requests.length} request{requests.length === 1 ? '' : 's'} ·{' '}
+          {redactedValues} value{redactedValues === 1 ? '' : 's'} redacted
+        </Typography>
+        <Button size="small" onClick={() => setExpanded((value) => !value)}>
+          {expanded ? 'Hide text' : 'Show text'}
+        </Button>
+      </Box>
+      {expanded &&
+        requests.map((request) => (
+          <Box key={request.id} sx={{ mb: 1.5 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                {formatAITaskLabel(request.task)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {formatTimestamp(request.createdAt)}
+              </Typography>
+              {Object.entries(request.redactions).map(([label, count]) => (
+                <Chip key={label} size="small" variant="outlined" label={`${label} × ${count}`} />
+              ))}
+            </Box>
+            {request.instructions && (
+              <Box component="pre" sx={sentTextSx}>
+                {request.instructions}
+              </Box>
+            )}
+            <Box component="pre" sx={sentTextSx}>
+              {request.input}
+            </Box>
+          </Box>
+        ))}
+    </>
+  );
+}
+
 export function JobDetail({ jobId }: JobDetailProps) {
+  const queryClient = useQueryClient();
   const { data, isLoading, error } = useQuery({
     queryKey: ['job-detail', jobId],
     queryFn: () => api.getJob(jobId),
@@ -50,6 +194,21 @@ export function JobDetail({ jobId }: JobDetailProps) {
     refetchInterval: 5000,
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: () => api.cancelJob(jobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['job-detail', jobId] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (fromFailedStep: boolean) => api.retryJob(jobId, fromFailedStep),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+
   if (!jobId) return null;
   if (isLoading) {
     return (
@@ -69,9 +228,94 @@ export function JobDetail({ jobId }: JobDetailProps) {
   }
 
   const steps = data?.steps ?? [];
+  const job = data?.job;
+  const isActive = job?.status === 'running' || job?.status === 'queued';
+  const cancelRequested = Boolean(job?.metadata?.cancelRequestedAt);
+  const completedBeforeCancel = job?.metadata?.completedBeforeCancel as
+    Record<string, unknown> | undefined;
+  const canRetry =
+    (job?.status === 'failed' || job?.status === 'canceled') &&
+    !NOT_RETRYABLE_TYPES.includes(job.type);
+  const hasFailedStep = steps.some(
+    (step) => step.status === 'failed' || step.status === 'canceled'
+  );
+  const attempt = typeof job?.metadata?.attempt === 'number' ? job.metadata.attempt : null;
+  const runAfter = typeof job?.metadata?.runAfter === 'string' ? job.metadata.runAfter : null;
 
   return (
     <Paper variant="outlined" sx={{ mt: 2, p: 2, bgcolor: 'background.paper' }}>
+      {isActive && (
+        <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button
+            size="small"
+            variant="outlined"
+            color="warning"
+            disabled={cancelRequested || cancelMutation.isPending}
+            onClick={() => cancelMutation.mutate()}
+          >
+            {cancelRequested ? 'Canceling...' : 'Cancel job'}
+          </Button>
+          <Typography variant="caption" color="text.secondary">
+            Running work stops at its next checkpoint and keeps what it already finished.
+          </Typography>
+        </Box>
+      )}
+      {canRetry && (
+        <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button
+            size="small"
+            variant="outlined"
+            disabled={retryMutation.isPending}
+            onClick={() => retryMutation.mutate(false)}
+          >
+            Retry job
+          </Button>
+          {hasFailedStep && (
+            <Button
+              size="small"
+              variant="outlined"
+              disabled={retryMutation.isPending}
+              onClick={() => retryMutation.mutate(true)}
+            >
+              Resume from failed step
+            </Button>
+          )}
+        </Box>
+      )}
+      {retryMutation.data && (
+        <Alert severity="success" variant="outlined" sx={{ mb: 2 }}>
+          Queued again as job {retryMutation.data.job.id}
+        </Alert>
+      )}
+      {retryMutation.error && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {retryMutation.error.message}
+        </Alert>
+      )}
+      {(job?.parentJobId || attempt) && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {[
+            job?.parentJobId && `Retry of job ${job.parentJobId}`,
+            attempt && `attempt ${attempt}`,
+            job?.status === 'queued' && runAfter && `starts after ${formatTimestamp(runAfter)}`,
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </Typography>
+      )}
+      {cancelMutation.error && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {cancelMutation.error.message}
+        </Alert>
+      )}
+      {completedBeforeCancel && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Finished before cancel:{' '}
+          {Object.entries(completedBeforeCancel)
+            .map(([key, value]) => `${key}: ${String(value)}`)
+            .join(' · ')}
+        </Typography>
+      )}
       <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 1 }}>
         Steps
       </Typography>
@@ -84,17 +328,7 @@ export function JobDetail({ jobId }: JobDetailProps) {
           <TableHead>
             <TableRow>
               {['Step', 'Status', 'Started', 'Completed', 'Failure'].map((label) => (
-                <TableCell
-                  key={label}
-                  sx={{
-                    borderBottomColor: 'divider',
-                    fontSize: '0.7rem',
-                    fontWeight: 700,
-                    textTransform: 'uppercase',
-                    letterSpacing: '0.08em',
-                    color: 'text.secondary',
-                  }}
-                >
+                <TableCell key={label} sx={headerCellSx}>
                   {label}
                 </TableCell>
               ))}
@@ -128,6 +362,8 @@ export function JobDetail({ jobId }: JobDetailProps) {
           </TableBody>
         </Table>
       )}
+      <AIUsageSection jobId={jobId} />
+      <OutboundRequestsSection jobId={jobId} />
     </Paper>
   );
 }
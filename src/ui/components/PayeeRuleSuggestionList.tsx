@@ -0,0 +1,243 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { api, type PayeeRuleSuggestion } from '../services/api';
+
+interface PayeeRuleSuggestionListProps {
+  budgetId: string;
+}
+
+const statusColor = (status: string): 'warning' | 'success' | 'error' | 'info' | 'default' => {
+  switch (status) {
+    case 'pending':
+      return 'warning';
+    case 'approved':
+      return 'success';
+    case 'rejected':
+      return 'error';
+    case 'applied':
+      return 'info';
+    default:
+      return 'default';
+  }
+};
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+/**
+ * Review tab for "payee is X → set category Y" rule suggestions
+ * Approved rules are created in Actual Budget through the apply job
+ */
+export function PayeeRuleSuggestionList({ budgetId }: PayeeRuleSuggestionListProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['payee-rule-suggestions', budgetId],
+    queryFn: () => api.getPayeeRuleSuggestions(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['payee-rule-suggestions', budgetId] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => api.approvePayeeRuleSuggestion(id),
+    onSuccess: invalidate,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => api.rejectPayeeRuleSuggestion(id),
+    onSuccess: invalidate,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (id: string) => api.resetPayeeRuleSuggestion(id),
+    onSuccess: invalidate,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (ids: string[]) => api.applySuggestions(budgetId, ids),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+    },
+  });
+
+  const rules = data?.rules ?? [];
+  const approvedIds = rules.filter((rule) => rule.status === 'approved').map((rule) => rule.id);
+  const isMutating =
+    approveMutation.isPending || rejectMutation.isPending || resetMutation.isPending;
+
+  if (isLoading) {
+    return (
+      <Paper
+        variant="outlined"
+        sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+      >
+        <Typography variant="body2" color="text.secondary">
+          Loading rule suggestions...
+        </Typography>
+      </Paper>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" variant="outlined">
+        Error loading rule suggestions: {error.message}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box
+        sx={{
+          mb: 3,
+          display: 'flex',
+          flexDirection: { xs: 'column', sm: 'row' },
+          alignItems: { sm: 'center' },
+          justifyContent: 'space-between',
+          gap: 2,
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+          pb: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="h6" fontWeight={600} color="text.primary">
+            Payee rule suggestions ({rules.length})
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Payees you keep approving for the same category, ready to become Actual Budget rules
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          color="success"
+          size="small"
+          disabled={approvedIds.length === 0 || applyMutation.isPending}
+          onClick={() => applyMutation.mutate(approvedIds)}
+        >
+          {applyMutation.isPending
+            ? 'Starting...'
+            : `Create ${approvedIds.length} rule${approvedIds.length === 1 ? '' : 's'}`}
+        </Button>
+      </Box>
+
+      {applyMutation.error && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          Creating rules failed: {applyMutation.error.message}
+        </Alert>
+      )}
+
+      {rules.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            No rule suggestions yet
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Rules are proposed during generation once a payee has enough approved or cached
+            mappings.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+          <Table size="small" aria-label="payee rule suggestions">
+            <TableHead>
+              <TableRow>
+                {['Payee', 'Category', 'Evidence', 'Confidence', 'Status', ''].map((label) => (
+                  <TableCell key={label} sx={headerCellSx}>
+                    {label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rules.map((rule: PayeeRuleSuggestion) => (
+                <TableRow key={rule.id} hover>
+                  <TableCell sx={{ borderBottomColor: 'divider', fontWeight: 600 }}>
+                    {rule.payeeName}
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>{rule.categoryName}</TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Typography variant="caption" color="text.secondary">
+                      {rule.rationale}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    {Math.round(rule.confidence * 100)}%
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={statusColor(rule.status)}
+                      label={rule.status}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }} align="right">
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      {rule.status === 'pending' ? (
+                        <>
+                          <Button
+                            size="small"
+                            variant="contained"
+                            color="success"
+                            disabled={isMutating}
+                            onClick={() => approveMutation.mutate(rule.id)}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            color="error"
+                            disabled={isMutating}
+                            onClick={() => rejectMutation.mutate(rule.id)}
+                          >
+                            Reject
+                          </Button>
+                        </>
+                      ) : rule.status !== 'applied' ? (
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          disabled={isMutating}
+                          onClick={() => resetMutation.mutate(rule.id)}
+                        >
+                          Undo
+                        </Button>
+                      ) : null}
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Box>
+  );
+}
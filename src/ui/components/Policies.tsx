@@ -0,0 +1,345 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import MenuItem from '@mui/material/MenuItem';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import {
+  api,
+  type Account,
+  type AutoApproveAction,
+  type AutoApprovePolicy,
+  type AutoApprovePolicyConditions,
+  type CategorySuggestionSource,
+} from '../services/api';
+
+interface PoliciesProps {
+  budgetId: string;
+}
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+const cellSx = { borderBottomColor: 'divider' } as const;
+
+const ACTION_LABELS: Record<AutoApproveAction, string> = {
+  approve: 'Approve category',
+  apply: 'Approve and apply',
+  never: 'Never auto-approve',
+};
+
+const SOURCE_LABELS: Record<CategorySuggestionSource, string> = {
+  cache_user_approved: 'Previously approved',
+  cache_ai: 'Cached AI answer',
+  payee_history: 'Payee history',
+  fuzzy_match: 'Fuzzy payee match',
+  local_classifier: 'Local classifier',
+  ai_with_context: 'AI',
+  ai_web_search: 'AI with web search',
+};
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+function describeConditions(
+  conditions: AutoApprovePolicyConditions,
+  accountNames: Map<string, string>
+): string {
+  const parts: string[] = [];
+  if (conditions.sources) {
+    parts.push(`source: ${conditions.sources.map((source) => SOURCE_LABELS[source]).join(' or ')}`);
+  }
+  if (conditions.minConfidence !== undefined) {
+    parts.push(`confidence ≥ ${Math.round(conditions.minConfidence * 100)}%`);
+  }
+  if (conditions.maxAmount !== undefined) {
+    parts.push(`amount < $${(conditions.maxAmount / 100).toFixed(2)}`);
+  }
+  if (conditions.accountIds) {
+    parts.push(
+      `account: ${conditions.accountIds.map((id) => accountNames.get(id) ?? id).join(' or ')}`
+    );
+  }
+  return parts.join(' · ') || 'Every suggestion';
+}
+
+/**
+ * Auto-approve policies page - per-budget rules evaluated after each generation run
+ * "Never" policies override approve/apply policies that match the same suggestion
+ */
+export function Policies({ budgetId }: PoliciesProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [action, setAction] = useState<AutoApproveAction>('approve');
+  const [sources, setSources] = useState<CategorySuggestionSource[]>([]);
+  const [minConfidence, setMinConfidence] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [accountIds, setAccountIds] = useState<string[]>([]);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['auto-approve-policies', budgetId],
+    queryFn: () => api.getPolicies(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const { data: accountsData } = useQuery({
+    queryKey: ['accounts', budgetId],
+    queryFn: () => api.getAccounts(),
+    enabled: !!budgetId,
+  });
+  const accounts: Account[] = accountsData?.accounts ?? [];
+  const accountNames = new Map(accounts.map((account) => [account.id, account.name]));
+
+  const parsedMinConfidence = minConfidence === '' ? undefined : Number(minConfidence) / 100;
+  const parsedMaxAmount = maxAmount === '' ? undefined : Math.round(Number(maxAmount) * 100);
+  const isMinConfidenceValid =
+    parsedMinConfidence === undefined ||
+    (!Number.isNaN(parsedMinConfidence) && parsedMinConfidence >= 0 && parsedMinConfidence <= 1);
+  const isMaxAmountValid =
+    parsedMaxAmount === undefined || (!Number.isNaN(parsedMaxAmount) && parsedMaxAmount > 0);
+  const canCreate = name.trim().length > 0 && isMinConfidenceValid && isMaxAmountValid;
+
+  const invalidatePolicies = () =>
+    queryClient.invalidateQueries({ queryKey: ['auto-approve-policies', budgetId] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.createPolicy(budgetId, {
+        name: name.trim(),
+        action,
+        conditions: {
+          ...(sources.length > 0 && { sources }),
+          ...(parsedMinConfidence !== undefined && { minConfidence: parsedMinConfidence }),
+          ...(parsedMaxAmount !== undefined && { maxAmount: parsedMaxAmount }),
+          ...(accountIds.length > 0 && { accountIds }),
+        },
+      }),
+    onSuccess: () => {
+      invalidatePolicies();
+      setName('');
+      setSources([]);
+      setMinConfidence('');
+      setMaxAmount('');
+      setAccountIds([]);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (policy: AutoApprovePolicy) =>
+      api.updatePolicy(policy.id, { enabled: !policy.enabled }),
+    onSuccess: invalidatePolicies,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (policyId: string) => api.deletePolicy(policyId),
+    onSuccess: invalidatePolicies,
+  });
+
+  const policies = data?.policies ?? [];
+  const mutationError = createMutation.error ?? toggleMutation.error ?? deleteMutation.error;
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box sx={{ mb: 3, borderBottom: '1px solid', borderColor: 'divider', pb: 2 }}>
+        <Typography variant="h6" fontWeight={600} color="text.primary">
+          Auto-approve policies
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Checked after every suggestion run. A matching &quot;never&quot; policy blocks the others,
+          and every automatic decision is recorded in the audit log.
+        </Typography>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 2 }}>
+          New policy
+        </Typography>
+        <Stack spacing={2}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              size="small"
+              label="Name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Action"
+              value={action}
+              onChange={(event) => setAction(event.target.value as AutoApproveAction)}
+              sx={{ minWidth: 200 }}
+            >
+              {(Object.keys(ACTION_LABELS) as AutoApproveAction[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {ACTION_LABELS[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label="Min confidence (%)"
+              type="number"
+              value={minConfidence}
+              onChange={(event) => setMinConfidence(event.target.value)}
+              error={!isMinConfidenceValid}
+              inputProps={{ min: 0, max: 100 }}
+              sx={{ width: 160 }}
+            />
+            <TextField
+              size="small"
+              label="Amount under ($)"
+              type="number"
+              value={maxAmount}
+              onChange={(event) => setMaxAmount(event.target.value)}
+              error={!isMaxAmountValid}
+              inputProps={{ min: 0, step: 0.01 }}
+              sx={{ width: 160 }}
+            />
+          </Stack>
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Sources (any if none selected)
+            </Typography>
+            <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+              {(Object.keys(SOURCE_LABELS) as CategorySuggestionSource[]).map((source) => (
+                <Chip
+                  key={source}
+                  size="small"
+                  label={SOURCE_LABELS[source]}
+                  color={sources.includes(source) ? 'primary' : 'default'}
+                  variant={sources.includes(source) ? 'filled' : 'outlined'}
+                  onClick={() => setSources((current) => toggle(current, source))}
+                />
+              ))}
+            </Stack>
+          </Box>
+          {accounts.length > 0 && (
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Accounts (any if none selected)
+              </Typography>
+              <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+                {accounts.map((account) => (
+                  <Chip
+                    key={account.id}
+                    size="small"
+                    label={account.name}
+                    color={accountIds.includes(account.id) ? 'primary' : 'default'}
+                    variant={accountIds.includes(account.id) ? 'filled' : 'outlined'}
+                    onClick={() => setAccountIds((current) => toggle(current, account.id))}
+                  />
+                ))}
+              </Stack>
+            </Box>
+          )}
+          <Box>
+            <Button
+              variant="contained"
+              size="small"
+              disabled={!canCreate || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              Add policy
+            </Button>
+          </Box>
+        </Stack>
+      </Paper>
+
+      {isLoading ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading policies...
+        </Typography>
+      ) : error ? (
+        <Alert severity="error" variant="outlined">
+          Error loading policies: {error.message}
+        </Alert>
+      ) : policies.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            No policies yet. Every suggestion waits for manual review.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+          <Table size="small" aria-label="auto-approve policies">
+            <TableHead>
+              <TableRow>
+                {['Enabled', 'Name', 'Action', 'Conditions', ''].map((label) => (
+                  <TableCell key={label} sx={headerCellSx}>
+                    {label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell sx={cellSx}>
+                    <Switch
+                      size="small"
+                      checked={policy.enabled}
+                      disabled={toggleMutation.isPending}
+                      onChange={() => toggleMutation.mutate(policy)}
+                    />
+                  </TableCell>
+                  <TableCell sx={cellSx}>{policy.name}</TableCell>
+                  <TableCell sx={cellSx}>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={policy.action === 'never' ? 'warning' : 'success'}
+                      label={ACTION_LABELS[policy.action]}
+                    />
+                  </TableCell>
+                  <TableCell sx={cellSx}>
+                    <Typography variant="caption" color="text.secondary">
+                      {describeConditions(policy.conditions, accountNames)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={cellSx} align="right">
+                    <Button
+                      size="small"
+                      color="error"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(policy.id)}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Box>
+  );
+}
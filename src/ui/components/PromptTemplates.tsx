@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import MenuItem from '@mui/material/MenuItem';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import {
+  api,
+  type PromptPreviewSample,
+  type PromptTemplate,
+  type PromptTemplateName,
+} from '../services/api';
+
+interface PromptTemplatesProps {
+  budgetId: string;
+}
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+const cellSx = { borderBottomColor: 'divider' } as const;
+
+const TEMPLATE_LABELS: Record<PromptTemplateName, string> = {
+  payee_identification: 'Payee identification',
+  category_suggestion: 'Category suggestion',
+  fuzzy_match_verification: 'Fuzzy match verification',
+  fuzzy_match_disambiguation: 'Fuzzy match disambiguation',
+};
+
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+const describeSample = (sample: PromptPreviewSample): string => {
+  if (sample.skippedReason) return sample.skippedReason;
+  return [
+    sample.payee &&
+      `Payee: ${sample.payee.canonicalPayeeName ?? '—'} (${formatConfidence(sample.payee.confidence)})`,
+    sample.category &&
+      `Category: ${sample.category.categoryName ?? '—'} (${formatConfidence(sample.category.confidence)})`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+/**
+ * Prompt templates page - edit the instructions of each suggestion prompt for this budget
+ * Every save adds a version; suggestions record the version that produced them
+ */
+export function PromptTemplates({ budgetId }: PromptTemplatesProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState<PromptTemplateName>('category_suggestion');
+  const [drafts, setDrafts] = useState<Partial<Record<PromptTemplateName, string>>>({});
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['prompt-templates', budgetId],
+    queryFn: () => api.getPromptTemplates(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const { data: versionsData } = useQuery({
+    queryKey: ['prompt-template-versions', budgetId, name],
+    queryFn: () => api.getPromptTemplateVersions(budgetId, name),
+    enabled: !!budgetId,
+  });
+
+  const templates: PromptTemplate[] = data?.templates ?? [];
+  const template = templates.find((entry) => entry.name === name);
+  const versions = versionsData?.versions ?? [];
+  const draft = drafts[name] ?? template?.instructions ?? '';
+  const isDirty = !!template && draft !== template.instructions;
+
+  const setDraft = (value: string) => setDrafts((current) => ({ ...current, [name]: value }));
+
+  const onTemplateChanged = () => {
+    setDrafts((current) => ({ ...current, [name]: undefined }));
+    queryClient.invalidateQueries({ queryKey: ['prompt-templates', budgetId] });
+    queryClient.invalidateQueries({ queryKey: ['prompt-template-versions', budgetId, name] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.savePromptTemplate(budgetId, name, draft),
+    onSuccess: onTemplateChanged,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => api.resetPromptTemplate(budgetId, name),
+    onSuccess: onTemplateChanged,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => api.previewPromptTemplate(budgetId, name, draft),
+  });
+
+  const selectTemplate = (value: PromptTemplateName) => {
+    setName(value);
+    previewMutation.reset();
+  };
+
+  const mutationError = saveMutation.error ?? resetMutation.error ?? previewMutation.error;
+  const samples = previewMutation.data?.samples ?? [];
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box sx={{ mb: 3, borderBottom: '1px solid', borderColor: 'divider', pb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }} color="text.primary">
+          Prompt templates
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Instructions the AI gets for each step of the suggestion pipeline. Each save is a new
+          version, recorded on the suggestions and backtests it produces.
+        </Typography>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading prompt templates...
+        </Typography>
+      ) : error ? (
+        <Alert severity="error" variant="outlined">
+          Error loading prompt templates: {error.message}
+        </Alert>
+      ) : (
+        <Stack spacing={3}>
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Stack spacing={2}>
+              <Stack direction="row" spacing={2} sx={{ alignItems: 'center' }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Template"
+                  value={name}
+                  onChange={(event) => selectTemplate(event.target.value as PromptTemplateName)}
+                  sx={{ minWidth: 300 }}
+                >
+                  {templates.map((entry) => (
+                    <MenuItem key={entry.name} value={entry.name}>
+                      {TEMPLATE_LABELS[entry.name]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                {template && (
+                  <Chip
+                    size="small"
+                    label={template.isBuiltIn ? `${template.label} (built-in)` : template.label}
+                    color={template.isBuiltIn ? 'default' : 'primary'}
+                    variant="outlined"
+                  />
+                )}
+              </Stack>
+              {template && template.placeholders.length > 0 && (
+                <Typography variant="caption" color="text.secondary">
+                  Placeholders: {template.placeholders.map((key) => `{{${key}}}`).join(', ')}
+                </Typography>
+              )}
+              <TextField
+                multiline
+                minRows={12}
+                label="Instructions"
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                sx={{ '& textarea': { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+              />
+              <Stack direction="row" spacing={1}>
+                <Button
+                  variant="contained"
+                  size="small"
+                  disabled={!isDirty || !draft.trim() || saveMutation.isPending}
+                  onClick={() => saveMutation.mutate()}
+                >
+                  Save version
+                </Button>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  disabled={!draft.trim() || previewMutation.isPending}
+                  onClick={() => previewMutation.mutate()}
+                >
+                  {previewMutation.isPending ? 'Previewing...' : 'Preview'}
+                </Button>
+                <Button
+                  size="small"
+                  disabled={!isDirty}
+                  onClick={() => setDrafts((current) => ({ ...current, [name]: undefined }))}
+                >
+                  Discard changes
+                </Button>
+                <Button
+                  size="small"
+                  color="error"
+                  disabled={!template || template.isBuiltIn || resetMutation.isPending}
+                  onClick={() => resetMutation.mutate()}
+                >
+                  Reset to built-in
+                </Button>
+              </Stack>
+            </Stack>
+          </Paper>
+
+          {previewMutation.isSuccess && (
+            <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+              <Table size="small" aria-label="prompt preview">
+                <TableHead>
+                  <TableRow>
+                    {['Sample payee', 'Result', 'Rationale'].map((label) => (
+                      <TableCell key={label} sx={headerCellSx}>
+                        {label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {samples.map((sample) => (
+                    <TableRow key={sample.payeeName}>
+                      <TableCell sx={cellSx}>
+                        {sample.payeeName}
+                        <Typography variant="caption" color="text.secondary" component="div">
+                          {sample.transactionCount} transaction
+                          {sample.transactionCount === 1 ? '' : 's'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell sx={cellSx}>{describeSample(sample)}</TableCell>
+                      <TableCell sx={cellSx}>
+                        <Typography variant="caption" color="text.secondary">
+                          {[sample.payee?.rationale, sample.category?.rationale]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
+
+          {versions.length > 0 && (
+            <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+              <Table size="small" aria-label="prompt template versions">
+                <TableHead>
+                  <TableRow>
+                    {['Version', 'Saved', ''].map((label) => (
+                      <TableCell key={label} sx={headerCellSx}>
+                        {label}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {versions.map((version) => (
+                    <TableRow key={version.id}>
+                      <TableCell sx={cellSx}>
+                        v{version.version}
+                        {version.instructions === null ? ' (reset to built-in)' : ''}
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        {new Date(version.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        <Button
+                          size="small"
+                          onClick={() =>
+                            setDraft(version.instructions ?? template?.builtInInstructions ?? '')
+                          }
+                        >
+                          Load into editor
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,589 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import MenuItem from '@mui/material/MenuItem';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { api, type JobSchedule, type JobScheduleRun, type ScheduleJobType } from '../services/api';
+import { JobDetail } from './JobDetail';
+
+interface SchedulesProps {
+  budgetId: string;
+}
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+const cellSx = { borderBottomColor: 'divider' } as const;
+
+const JOB_TYPE_LABELS: Record<ScheduleJobType, string> = {
+  scheduled_sync_and_suggest: 'Sync and generate suggestions',
+  budget_sync: 'Sync budget',
+  suggestions_generate: 'Generate suggestions',
+  suggestions_recategorize: 'Review categorized transactions',
+  transfers_detect: 'Detect transfers',
+  recurring_detect: 'Detect subscriptions',
+  payees_merge_suggestions_generate: 'Duplicate payee suggestions',
+  snapshot_create: 'Budget snapshot',
+};
+
+interface ScheduleOptionField {
+  key: string;
+  label: string;
+  kind: 'boolean' | 'number';
+}
+
+const JOB_TYPE_OPTIONS: Record<ScheduleJobType, ScheduleOptionField[]> = {
+  scheduled_sync_and_suggest: [{ key: 'useAI', label: 'Use AI', kind: 'boolean' }],
+  budget_sync: [],
+  suggestions_generate: [{ key: 'useAI', label: 'Use AI', kind: 'boolean' }],
+  suggestions_recategorize: [{ key: 'lookbackDays', label: 'Lookback days', kind: 'number' }],
+  transfers_detect: [{ key: 'windowDays', label: 'Match window (days)', kind: 'number' }],
+  recurring_detect: [],
+  payees_merge_suggestions_generate: [
+    { key: 'minScore', label: 'Minimum score', kind: 'number' },
+    { key: 'useAI', label: 'Use AI', kind: 'boolean' },
+    { key: 'force', label: 'Regenerate existing', kind: 'boolean' },
+    { key: 'aiMinClusterSize', label: 'AI min cluster size', kind: 'number' },
+  ],
+  snapshot_create: [],
+};
+
+const CRON_PRESETS = [
+  { label: 'Every 6 hours', expression: '0 */6 * * *' },
+  { label: 'Nightly at 02:00', expression: '0 2 * * *' },
+  { label: 'Weekly, Monday 03:00', expression: '0 3 * * 1' },
+];
+
+const RUN_STATUS_COLORS: Record<JobScheduleRun['status'], 'success' | 'warning' | 'error'> = {
+  started: 'success',
+  skipped: 'warning',
+  failed: 'error',
+};
+
+const jobStatusColor = (status: string): 'default' | 'info' | 'success' | 'error' | 'warning' => {
+  switch (status) {
+    case 'running':
+      return 'info';
+    case 'succeeded':
+      return 'success';
+    case 'failed':
+      return 'error';
+    case 'canceled':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return '—';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString();
+}
+
+/** Form state; option values are kept as entered and converted on save */
+interface ScheduleDraft {
+  name: string;
+  cronExpression: string;
+  jobType: ScheduleJobType;
+  options: Record<string, string | boolean>;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+}
+
+const EMPTY_DRAFT: ScheduleDraft = {
+  name: '',
+  cronExpression: '',
+  jobType: 'scheduled_sync_and_suggest',
+  options: { useAI: true },
+  quietHoursStart: '',
+  quietHoursEnd: '',
+};
+
+const toDraft = (schedule: JobSchedule): ScheduleDraft => ({
+  name: schedule.name,
+  cronExpression: schedule.cronExpression,
+  jobType: schedule.jobType,
+  options: Object.fromEntries(
+    Object.entries(schedule.options).map(([key, value]) => [
+      key,
+      typeof value === 'number' ? String(value) : value,
+    ])
+  ),
+  quietHoursStart: schedule.quietHoursStart ?? '',
+  quietHoursEnd: schedule.quietHoursEnd ?? '',
+});
+
+function toOptions(draft: ScheduleDraft): Record<string, boolean | number> {
+  const options: Record<string, boolean | number> = {};
+  for (const field of JOB_TYPE_OPTIONS[draft.jobType]) {
+    const value = draft.options[field.key];
+    if (field.kind === 'boolean') {
+      options[field.key] = value === true;
+    } else if (typeof value === 'string' && value.trim() !== '') {
+      options[field.key] = Number(value);
+    }
+  }
+  return options;
+}
+
+function describeOptions(schedule: JobSchedule): string {
+  return (
+    JOB_TYPE_OPTIONS[schedule.jobType]
+      .filter((field) => schedule.options[field.key] !== undefined)
+      .map((field) => {
+        const value = schedule.options[field.key];
+        if (field.kind === 'number') return `${field.label}: ${value}`;
+        return value ? field.label : `No ${field.label.toLowerCase()}`;
+      })
+      .join(' · ') || '—'
+  );
+}
+
+/**
+ * Schedules page - cron schedules that start jobs for this budget, with their run history
+ * Runs due during quiet hours, or while the budget is busy, are skipped and recorded
+ */
+export function Schedules({ budgetId }: SchedulesProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ScheduleDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['job-schedules', budgetId],
+    queryFn: () => api.getSchedules(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const { data: runsData, isLoading: runsLoading } = useQuery({
+    queryKey: ['job-schedule-runs', historyId],
+    queryFn: () => api.getScheduleRuns(historyId as string),
+    enabled: !!historyId,
+  });
+
+  const schedules = data?.schedules ?? [];
+  const runs = runsData?.runs ?? [];
+  const historySchedule = schedules.find((schedule) => schedule.id === historyId);
+  const hasQuietHours = draft.quietHoursStart !== '' || draft.quietHoursEnd !== '';
+  const isQuietHoursValid =
+    (draft.quietHoursStart === '') === (draft.quietHoursEnd === '') &&
+    (!hasQuietHours || draft.quietHoursStart !== draft.quietHoursEnd);
+  const canSave =
+    draft.name.trim().length > 0 && draft.cronExpression.trim().length > 0 && isQuietHoursValid;
+
+  const updateDraft = (changes: Partial<ScheduleDraft>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const invalidateSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ['job-schedules', budgetId] });
+    queryClient.invalidateQueries({ queryKey: ['job-schedule-runs'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const input = {
+        name: draft.name.trim(),
+        cronExpression: draft.cronExpression.trim(),
+        jobType: draft.jobType,
+        options: toOptions(draft),
+        quietHoursStart: draft.quietHoursStart || null,
+        quietHoursEnd: draft.quietHoursEnd || null,
+      };
+      return editingId ? api.updateSchedule(editingId, input) : api.createSchedule(budgetId, input);
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      resetForm();
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (schedule: JobSchedule) =>
+      api.updateSchedule(schedule.id, { enabled: !schedule.enabled }),
+    onSuccess: invalidateSchedules,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (scheduleId: string) => api.runSchedule(scheduleId),
+    onSuccess: (_result, scheduleId) => {
+      invalidateSchedules();
+      setHistoryId(scheduleId);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (scheduleId: string) => api.deleteSchedule(scheduleId),
+    onSuccess: (_result, scheduleId) => {
+      invalidateSchedules();
+      if (historyId === scheduleId) setHistoryId(null);
+      if (editingId === scheduleId) resetForm();
+    },
+  });
+
+  const mutationError =
+    saveMutation.error ?? toggleMutation.error ?? runMutation.error ?? deleteMutation.error;
+  const lastRun = runMutation.data?.run;
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box sx={{ mb: 3, borderBottom: '1px solid', borderColor: 'divider', pb: 2 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600 }} color="text.primary">
+          Schedules
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Cron expressions in server time that start jobs for this budget. A run due during quiet
+          hours, or while the budget is busy with a conflicting job, is skipped and recorded below.
+        </Typography>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+      {lastRun && lastRun.status !== 'started' && (
+        <Alert severity="warning" variant="outlined" sx={{ mb: 2 }}>
+          Run {lastRun.status}: {lastRun.message}
+        </Alert>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 2 }}>
+          {editingId ? 'Edit schedule' : 'New schedule'}
+        </Typography>
+        <Stack spacing={2}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              size="small"
+              label="Name"
+              value={draft.name}
+              onChange={(event) => updateDraft({ name: event.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Job"
+              value={draft.jobType}
+              onChange={(event) => {
+                const jobType = event.target.value as ScheduleJobType;
+                updateDraft({
+                  jobType,
+                  options: JOB_TYPE_OPTIONS[jobType].some((field) => field.key === 'useAI')
+                    ? { useAI: true }
+                    : {},
+                });
+              }}
+              sx={{ minWidth: 280 }}
+            >
+              {(Object.keys(JOB_TYPE_LABELS) as ScheduleJobType[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {JOB_TYPE_LABELS[value]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="Cron expression"
+              placeholder="minute hour day month weekday"
+              value={draft.cronExpression}
+              onChange={(event) => updateDraft({ cronExpression: event.target.value })}
+              sx={{ minWidth: 260, '& input': { fontFamily: 'monospace' } }}
+            />
+            <Stack direction="row" spacing={1} useFlexGap sx={{ flexWrap: 'wrap' }}>
+              {CRON_PRESETS.map((preset) => (
+                <Chip
+                  key={preset.expression}
+                  size="small"
+                  label={preset.label}
+                  variant={draft.cronExpression === preset.expression ? 'filled' : 'outlined'}
+                  color={draft.cronExpression === preset.expression ? 'primary' : 'default'}
+                  onClick={() => updateDraft({ cronExpression: preset.expression })}
+                />
+              ))}
+            </Stack>
+          </Stack>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ alignItems: 'center' }}>
+            <TextField
+              size="small"
+              type="time"
+              label="Quiet hours from"
+              value={draft.quietHoursStart}
+              onChange={(event) => updateDraft({ quietHoursStart: event.target.value })}
+              error={!isQuietHoursValid}
+              slotProps={{ inputLabel: { shrink: true } }}
+              sx={{ width: 170 }}
+            />
+            <TextField
+              size="small"
+              type="time"
+              label="Quiet hours until"
+              value={draft.quietHoursEnd}
+              onChange={(event) => updateDraft({ quietHoursEnd: event.target.value })}
+              error={!isQuietHoursValid}
+              slotProps={{ inputLabel: { shrink: true } }}
+              sx={{ width: 170 }}
+            />
+            {JOB_TYPE_OPTIONS[draft.jobType].map((field) =>
+              field.kind === 'boolean' ? (
+                <FormControlLabel
+                  key={field.key}
+                  label={field.label}
+                  control={
+                    <Switch
+                      size="small"
+                      checked={draft.options[field.key] === true}
+                      onChange={(event) =>
+                        updateDraft({
+                          options: { ...draft.options, [field.key]: event.target.checked },
+                        })
+                      }
+                    />
+                  }
+                />
+              ) : (
+                <TextField
+                  key={field.key}
+                  size="small"
+                  type="number"
+                  label={field.label}
+                  value={draft.options[field.key] ?? ''}
+                  onChange={(event) =>
+                    updateDraft({ options: { ...draft.options, [field.key]: event.target.value } })
+                  }
+                  sx={{ width: 170 }}
+                />
+              )
+            )}
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button
+              variant="contained"
+              size="small"
+              disabled={!canSave || saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              {editingId ? 'Save schedule' : 'Add schedule'}
+            </Button>
+            {editingId && (
+              <Button size="small" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </Stack>
+        </Stack>
+      </Paper>
+
+      {isLoading ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading schedules...
+        </Typography>
+      ) : error ? (
+        <Alert severity="error" variant="outlined">
+          Error loading schedules: {error.message}
+        </Alert>
+      ) : schedules.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            No schedules yet. Jobs only run when started by hand.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto', mb: 3 }}>
+          <Table size="small" aria-label="job schedules">
+            <TableHead>
+              <TableRow>
+                {['Enabled', 'Name', 'Job', 'Cron', 'Quiet hours', 'Last run', 'Next run', ''].map(
+                  (label) => (
+                    <TableCell key={label} sx={headerCellSx}>
+                      {label}
+                    </TableCell>
+                  )
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id} selected={schedule.id === historyId}>
+                  <TableCell sx={cellSx}>
+                    <Switch
+                      size="small"
+                      checked={schedule.enabled}
+                      disabled={toggleMutation.isPending}
+                      onChange={() => toggleMutation.mutate(schedule)}
+                    />
+                  </TableCell>
+                  <TableCell sx={cellSx}>{schedule.name}</TableCell>
+                  <TableCell sx={cellSx}>
+                    {JOB_TYPE_LABELS[schedule.jobType]}
+                    <Typography variant="caption" color="text.secondary" component="div">
+                      {describeOptions(schedule)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ ...cellSx, fontFamily: 'monospace' }}>
+                    {schedule.cronExpression}
+                  </TableCell>
+                  <TableCell sx={cellSx}>
+                    {schedule.quietHoursStart && schedule.quietHoursEnd
+                      ? `${schedule.quietHoursStart}–${schedule.quietHoursEnd}`
+                      : '—'}
+                  </TableCell>
+                  <TableCell sx={cellSx}>{formatTimestamp(schedule.lastRunAt)}</TableCell>
+                  <TableCell sx={cellSx}>
+                    {schedule.enabled ? formatTimestamp(schedule.nextRunAt) : 'Disabled'}
+                  </TableCell>
+                  <TableCell sx={{ ...cellSx, whiteSpace: 'nowrap' }} align="right">
+                    <Button
+                      size="small"
+                      disabled={runMutation.isPending}
+                      onClick={() => runMutation.mutate(schedule.id)}
+                    >
+                      Run now
+                    </Button>
+                    <Button
+                      size="small"
+                      onClick={() => {
+                        setHistoryId(historyId === schedule.id ? null : schedule.id);
+                        setSelectedJobId(null);
+                      }}
+                    >
+                      {historyId === schedule.id ? 'Hide runs' : 'Runs'}
+                    </Button>
+                    <Button
+                      size="small"
+                      onClick={() => {
+                        setEditingId(schedule.id);
+                        setDraft(toDraft(schedule));
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="small"
+                      color="error"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      {historySchedule && (
+        <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+          <Box sx={{ px: 2, pt: 2 }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+              Runs of {historySchedule.name}
+            </Typography>
+          </Box>
+          {runsLoading ? (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+              Loading runs...
+            </Typography>
+          ) : runs.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+              This schedule has not run yet.
+            </Typography>
+          ) : (
+            <Table size="small" aria-label="schedule runs">
+              <TableHead>
+                <TableRow>
+                  {['Due', 'Trigger', 'Outcome', 'Job', 'Message', ''].map((label) => (
+                    <TableCell key={label} sx={headerCellSx}>
+                      {label}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell sx={cellSx}>{formatTimestamp(run.createdAt)}</TableCell>
+                    <TableCell sx={cellSx}>{run.manual ? 'Run now' : 'Schedule'}</TableCell>
+                    <TableCell sx={cellSx}>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        color={RUN_STATUS_COLORS[run.status]}
+                        label={run.status}
+                      />
+                    </TableCell>
+                    <TableCell sx={cellSx}>
+                      {run.jobStatus ? (
+                        <Chip
+                          size="small"
+                          variant="outlined"
+                          color={jobStatusColor(run.jobStatus)}
+                          label={run.jobStatus}
+                        />
+                      ) : run.jobId ? (
+                        'Removed'
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell sx={cellSx}>
+                      <Typography variant="caption" color="text.secondary">
+                        {run.message ?? '—'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {run.jobId && run.jobStatus && (
+                        <Button
+                          size="small"
+                          onClick={() =>
+                            setSelectedJobId(selectedJobId === run.jobId ? null : run.jobId)
+                          }
+                        >
+                          {selectedJobId === run.jobId ? 'Hide job' : 'Job details'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {selectedJobId && <JobDetail jobId={selectedJobId} />}
+        </Paper>
+      )}
+    </Box>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
 import FormControlLabel from '@mui/material/FormControlLabel';
 import MenuItem from '@mui/material/MenuItem';
 import Paper from '@mui/material/Paper';
@@ -20,6 +21,7 @@ import {
   getDefaultCategorySuggestionSettings,
 } from '../services/categorySuggestionSettings';
 import { api } from '../services/api';
+import { formatAITaskLabel } from '../utils/aiLabels';
 
 export function Settings() {
   const { themeId, setThemeId, options } = useAppTheme();
@@ -27,7 +29,7 @@ export function Settings() {
     queryKey: ['app-config'],
     queryFn: () => api.getAppConfig(),
   });
-  const openaiConfigured = appConfig?.openaiConfigured ?? true;
+  const openaiConfigured = appConfig?.aiConfigured ?? appConfig?.openaiConfigured ?? true;
   const [payeeMergeSettings, setPayeeMergeSettings] = useState(loadPayeeMergeSettings());
   const defaultPayeeMergeSettings = getDefaultPayeeMergeSettings();
   const activeTheme = options.find((theme) => theme.id === themeId) ?? options[0];
@@ -102,6 +104,66 @@ export function Settings() {
         </Paper>
       </Stack>
 
+      <Box sx={{ mt: 5, mb: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          AI backend
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Selected on the server with AI_BACKEND.
+        </Typography>
+      </Box>
+
+      <Paper variant="outlined" sx={{ p: 2.5, borderRadius: 3 }}>
+        {appConfig ? (
+          <Stack spacing={1}>
+            <Typography variant="body2">
+              {appConfig.aiBackend}
+              {appConfig.aiConfigured ? '' : ' (not configured)'}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              <Chip
+                size="small"
+                variant="outlined"
+                color={appConfig.aiCapabilities.supportsWebSearch ? 'success' : 'default'}
+                label={`Web search: ${appConfig.aiCapabilities.supportsWebSearch ? 'yes' : 'no'}`}
+              />
+              <Chip
+                size="small"
+                variant="outlined"
+                color={appConfig.aiCapabilities.supportsStructuredOutput ? 'success' : 'default'}
+                label={`Structured output: ${appConfig.aiCapabilities.supportsStructuredOutput ? 'yes' : 'no'}`}
+              />
+            </Box>
+            {appConfig.aiConfigured && appConfig.aiRoutes.length > 0 && (
+              <Box>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  Model per prompt (AI_MODEL_ROUTES):
+                </Typography>
+                {appConfig.aiRoutes.map((route) => (
+                  <Typography key={route.task} variant="body2" color="text.secondary">
+                    {formatAITaskLabel(route.task)}: {route.backend} ·{' '}
+                    <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                      {route.model}
+                    </Box>
+                    {route.origin === 'default' ? '' : ` (${route.origin})`}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+            {!appConfig.aiConfigured && (
+              <Typography variant="caption" color="text.secondary">
+                Set OPENAI_API_KEY, GOOGLE_AI_API_KEY, or OPENAI_COMPATIBLE_BASE_URL for a local
+                server such as Ollama or LM Studio.
+              </Typography>
+            )}
+          </Stack>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Loading backend details...
+          </Typography>
+        )}
+      </Paper>
+
       <Box sx={{ mt: 5, mb: 2 }}>
         <Typography variant="subtitle1" fontWeight={600}>
           Category suggestions
@@ -229,7 +291,7 @@ function CategorySuggestionSettingsCard({ openaiConfigured }: { openaiConfigured
         <Typography variant="caption" color="text.secondary" sx={{ display: 'block', ml: 1 }}>
           {openaiConfigured
             ? 'Uses heuristics only when disabled.'
-            : 'OpenAI is not configured. Add OPENAI_API_KEY to enable AI suggestions.'}{' '}
+            : 'No AI backend is configured. See AI backend above to enable AI suggestions.'}{' '}
           Default: {defaultCategorySuggestionSettings.useAI ? 'on' : 'off'}.
         </Typography>
       </Box>
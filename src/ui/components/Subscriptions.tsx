@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { api, type RecurringCadence, type RecurringPayment } from '../services/api';
+
+interface SubscriptionsProps {
+  budgetId: string;
+}
+
+type SubscriptionFilter = 'all' | 'missing' | 'increases' | 'stopped';
+
+const CADENCE_LABELS: Record<RecurringCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(amount / 100);
+}
+
+function matchesFilter(payment: RecurringPayment, filter: SubscriptionFilter): boolean {
+  switch (filter) {
+    case 'missing':
+      return payment.status === 'active' && !payment.scheduleId;
+    case 'increases':
+      return payment.priceIncrease;
+    case 'stopped':
+      return payment.status === 'stopped';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Subscriptions page - recurring payees detected from transaction history
+ * Highlights price increases and stopped subscriptions and creates missing schedules
+ */
+export function Subscriptions({ budgetId }: SubscriptionsProps) {
+  const queryClient = useQueryClient();
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<SubscriptionFilter>('all');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['subscriptions', budgetId],
+    queryFn: () => api.getRecurringPayments(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['subscriptions', budgetId] });
+  };
+
+  const { data: pendingJobData } = useQuery({
+    queryKey: ['job', pendingJobId],
+    queryFn: async () => {
+      const result = await api.getJob(pendingJobId ?? '');
+      if (result.job.completedAt) {
+        invalidate();
+        queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+      }
+      return result;
+    },
+    enabled: Boolean(pendingJobId),
+    refetchInterval: (query) => (query.state.data?.job.completedAt ? false : 2000),
+  });
+  const isDetecting = Boolean(pendingJobId) && !pendingJobData?.job.completedAt;
+
+  const detectMutation = useMutation({
+    mutationFn: () => api.createRecurringDetectionJob(budgetId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+      setPendingJobId(result.job.id);
+    },
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: (paymentId: string) => api.createRecurringPaymentSchedule(paymentId),
+    onSuccess: invalidate,
+  });
+
+  const payments = data?.payments ?? [];
+  const counts: Record<SubscriptionFilter, number> = {
+    all: payments.length,
+    missing: payments.filter((p) => matchesFilter(p, 'missing')).length,
+    increases: payments.filter((p) => matchesFilter(p, 'increases')).length,
+    stopped: payments.filter((p) => matchesFilter(p, 'stopped')).length,
+  };
+  const visiblePayments = payments.filter((p) => matchesFilter(p, filter));
+  const mutationError = detectMutation.error ?? scheduleMutation.error;
+
+  if (isLoading) {
+    return (
+      <Paper
+        variant="outlined"
+        sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+      >
+        <Typography variant="body2" color="text.secondary">
+          Loading subscriptions...
+        </Typography>
+      </Paper>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" variant="outlined">
+        Error loading subscriptions: {error.message}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box
+        sx={{
+          mb: 3,
+          display: 'flex',
+          flexDirection: { xs: 'column', sm: 'row' },
+          alignItems: { sm: 'center' },
+          justifyContent: 'space-between',
+          gap: 2,
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+          pb: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="h6" fontWeight={600} color="text.primary">
+            Subscriptions ({payments.length})
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Payees charged on a stable weekly, monthly or yearly cadence
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          size="small"
+          disabled={isDetecting || detectMutation.isPending}
+          onClick={() => detectMutation.mutate()}
+        >
+          {isDetecting || detectMutation.isPending ? 'Detecting...' : 'Detect subscriptions'}
+        </Button>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }}>
+        <Chip
+          label={`All (${counts.all})`}
+          color={filter === 'all' ? 'primary' : 'default'}
+          variant={filter === 'all' ? 'filled' : 'outlined'}
+          onClick={() => setFilter('all')}
+        />
+        <Chip
+          label={`Without schedule (${counts.missing})`}
+          color={filter === 'missing' ? 'primary' : 'default'}
+          variant={filter === 'missing' ? 'filled' : 'outlined'}
+          onClick={() => setFilter('missing')}
+        />
+        <Chip
+          label={`Price increases (${counts.increases})`}
+          color={filter === 'increases' ? 'warning' : 'default'}
+          variant={filter === 'increases' ? 'filled' : 'outlined'}
+          onClick={() => setFilter('increases')}
+        />
+        <Chip
+          label={`Stopped (${counts.stopped})`}
+          color={filter === 'stopped' ? 'error' : 'default'}
+          variant={filter === 'stopped' ? 'filled' : 'outlined'}
+          onClick={() => setFilter('stopped')}
+        />
+      </Stack>
+
+      {visiblePayments.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            {payments.length === 0 ? 'No subscriptions detected yet' : 'Nothing in this view'}
+          </Typography>
+          {payments.length === 0 && (
+            <Typography variant="caption" color="text.secondary">
+              Click Detect subscriptions to analyse your transaction history.
+            </Typography>
+          )}
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+          <Table size="small" aria-label="subscriptions">
+            <TableHead>
+              <TableRow>
+                {['Payee', 'Cadence', 'Amount', 'Last charge', 'Next expected', 'Schedule'].map(
+                  (label) => (
+                    <TableCell key={label} sx={headerCellSx}>
+                      {label}
+                    </TableCell>
+                  )
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visiblePayments.map((payment) => (
+                <TableRow key={payment.id} hover>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Typography variant="body2" fontWeight={600}>
+                      {payment.payeeName}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {payment.accountName ?? '—'} · {payment.occurrences} charges
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    {CADENCE_LABELS[payment.cadence]}
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                      {payment.minAmount === payment.maxAmount
+                        ? formatAmount(payment.lastAmount)
+                        : `${formatAmount(payment.minAmount)} – ${formatAmount(payment.maxAmount)}`}
+                    </Typography>
+                    {payment.priceIncrease && (
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        color="warning"
+                        label={`Up from ${formatAmount(payment.previousAmount)}`}
+                        sx={{ mt: 0.5 }}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    {payment.lastDate}
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      {formatAmount(payment.lastAmount)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    {payment.status === 'stopped' ? (
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        color="error"
+                        label={`Stopped? Expected ${payment.nextExpectedDate}`}
+                      />
+                    ) : (
+                      payment.nextExpectedDate
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }} align="right">
+                    {payment.scheduleId ? (
+                      <Chip size="small" variant="outlined" color="success" label="Scheduled" />
+                    ) : payment.status === 'active' ? (
+                      <Button
+                        size="small"
+                        variant="contained"
+                        disabled={scheduleMutation.isPending}
+                        onClick={() => scheduleMutation.mutate(payment.id)}
+                      >
+                        Create schedule
+                      </Button>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        No schedule
+                      </Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Box>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import { NavLink } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Alert from '@mui/material/Alert';
@@ -20,11 +20,13 @@ import MenuItem from '@mui/material/MenuItem';
 import Paper from '@mui/material/Paper';
 import Select from '@mui/material/Select';
 import Stack from '@mui/material/Stack';
+import Tab from '@mui/material/Tab';
 import Table from '@mui/material/Table';
 import TableBody from '@mui/material/TableBody';
 import TableCell from '@mui/material/TableCell';
 import TableHead from '@mui/material/TableHead';
 import TableRow from '@mui/material/TableRow';
+import Tabs from '@mui/material/Tabs';
 import TextField from '@mui/material/TextField';
 import Typography from '@mui/material/Typography';
 import useMediaQuery from '@mui/material/useMediaQuery';
@@ -32,12 +34,16 @@ import { useTheme } from '@mui/material/styles';
 import {
   api,
   type Suggestion,
+  type SplitSuggestionComponent,
   type SuggestionComponentStatus,
   type Category,
   type Payee,
+  type SuggestionKind,
 } from '../services/api';
 import { loadCategorySuggestionSettings } from '../services/categorySuggestionSettings';
 import { ProgressBar } from './ProgressBar';
+import { PayeeRuleSuggestionList } from './PayeeRuleSuggestionList';
+import { TransferSuggestionList } from './TransferSuggestionList';
 
 interface SuggestionListProps {
   budgetId: string;
@@ -45,7 +51,10 @@ interface SuggestionListProps {
 
 /** Group of suggestions for a single payee */
 interface PayeeGroup {
+  key: string; // payee name, separated by suggestion kind
+  kind: SuggestionKind;
   payeeName: string;
+  currentCategoryName: string | null; // Set for recategorize groups
   suggestedPayeeName: string | null;
   suggestions: Suggestion[];
   pendingCount: number;
@@ -107,7 +116,39 @@ const statusColor = (status: string): 'warning' | 'success' | 'error' | 'info' |
   }
 };
 
+type SuggestionTab = 'transactions' | 'rules' | 'transfers';
+
+/**
+ * Suggestion review page with separate tabs for transaction, payee rule and transfer suggestions
+ */
 export function SuggestionList({ budgetId }: SuggestionListProps) {
+  const [tab, setTab] = useState<SuggestionTab>('transactions');
+
+  return (
+    <Box>
+      <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, px: 3, pt: 2 }}>
+        <Tabs
+          value={tab}
+          onChange={(_event, value: SuggestionTab) => setTab(value)}
+          sx={{ borderBottom: '1px solid', borderColor: 'divider' }}
+        >
+          <Tab value="transactions" label="Transactions" />
+          <Tab value="rules" label="Payee rules" />
+          <Tab value="transfers" label="Transfers" />
+        </Tabs>
+      </Box>
+      {tab === 'transactions' ? (
+        <TransactionSuggestionList budgetId={budgetId} />
+      ) : tab === 'rules' ? (
+        <PayeeRuleSuggestionList budgetId={budgetId} />
+      ) : (
+        <TransferSuggestionList budgetId={budgetId} />
+      )}
+    </Box>
+  );
+}
+
+function TransactionSuggestionList({ budgetId }: SuggestionListProps) {
   const theme = useTheme();
   const isSmall = useMediaQuery(theme.breakpoints.down('sm'));
   const queryClient = useQueryClient();
@@ -202,6 +243,13 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
     },
   });
 
+  const recategorizeJobMutation = useMutation({
+    mutationFn: () => api.createRecategorizationReviewJob(budgetId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+    },
+  });
+
   const correctPayeeMutation = useMutation({
     mutationFn: ({
       ids,
@@ -260,6 +308,20 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
     },
   });
 
+  const approveSplitMutation = useMutation({
+    mutationFn: (id: string) => api.approveSplitSuggestion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suggestions'] });
+    },
+  });
+
+  const rejectSplitMutation = useMutation({
+    mutationFn: (id: string) => api.rejectSplitSuggestion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suggestions'] });
+    },
+  });
+
   const resetSuggestionMutation = useMutation({
     mutationFn: (id: string) => api.resetSuggestion(id),
     onSuccess: () => {
@@ -430,6 +492,14 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
               {suggestionsJobMutation.isPending ? 'Starting generation...' : generateLabel}
             </Button>
           )}
+          <Button
+            variant="outlined"
+            size="small"
+            onClick={() => recategorizeJobMutation.mutate()}
+            disabled={recategorizeJobMutation.isPending}
+          >
+            {recategorizeJobMutation.isPending ? 'Starting review...' : 'Review categorized'}
+          </Button>
         </Stack>
       </Box>
 
@@ -443,6 +513,12 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
         />
       )}
 
+      {recategorizeJobMutation.error && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          Review failed: {recategorizeJobMutation.error.message}
+        </Alert>
+      )}
+
       {suggestionsJobMutation.error && (
         <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
           {generateLabel} failed: {suggestionsJobMutation.error.message}
@@ -466,7 +542,7 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
       ) : (
         <Stack spacing={0.5}>
           {payeeGroups.map((group) => {
-            const isExpanded = expandedPayees.has(group.payeeName);
+            const isExpanded = expandedPayees.has(group.key);
             const pendingIds = group.suggestions
               .filter((s) => s.status === 'pending')
               .map((s) => s.id);
@@ -497,7 +573,7 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
 
             return (
               <Paper
-                key={group.payeeName}
+                key={group.key}
                 variant="outlined"
                 sx={(theme) => ({
                   bgcolor: isExpanded
@@ -520,7 +596,7 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
                     py: 1.5,
                     cursor: 'pointer',
                   }}
-                  onClick={() => toggleExpanded(group.payeeName)}
+                  onClick={() => toggleExpanded(group.key)}
                 >
                   <Typography variant="caption" color="text.secondary">
                     {isExpanded ? '▼' : '▶'}
@@ -542,6 +618,15 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
                     flexWrap="wrap"
                     sx={{ flex: 1 }}
                   >
+                    {group.kind === 'recategorize' && (
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        color="warning"
+                        label={`Recategorize from ${group.currentCategoryName ?? 'current category'}`}
+                        sx={{ maxWidth: 260 }}
+                      />
+                    )}
                     {group.hasPayeeSuggestion &&
                       (group.payeeStatus === 'pending' || group.payeeStatus === 'approved') && (
                         <Chip
@@ -640,19 +725,21 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
                             >
                               Correct
                             </Button>
-                            <Button
-                              size="small"
-                              variant="outlined"
-                              color="warning"
-                              onClick={() => retrySuggestionMutation.mutate(firstSuggestion.id)}
-                              disabled={retrySuggestionMutation.isPending}
-                            >
-                              {retrySuggestionMutation.isPending
-                                ? 'Working...'
-                                : group.hasCategorySuggestion
-                                  ? 'Retry'
-                                  : generateLabel}
-                            </Button>
+                            {group.kind === 'categorize' && (
+                              <Button
+                                size="small"
+                                variant="outlined"
+                                color="warning"
+                                onClick={() => retrySuggestionMutation.mutate(firstSuggestion.id)}
+                                disabled={retrySuggestionMutation.isPending}
+                              >
+                                {retrySuggestionMutation.isPending
+                                  ? 'Working...'
+                                  : group.hasCategorySuggestion
+                                    ? 'Retry'
+                                    : generateLabel}
+                              </Button>
+                            )}
                             <Button
                               size="small"
                               variant="outlined"
@@ -780,6 +867,18 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
                                     </Button>
                                   )}
                                 </Stack>
+
+                                {suggestion.splitSuggestion && (
+                                  <SplitProposal
+                                    split={suggestion.splitSuggestion}
+                                    disabled={
+                                      approveSplitMutation.isPending ||
+                                      rejectSplitMutation.isPending
+                                    }
+                                    onApprove={() => approveSplitMutation.mutate(suggestion.id)}
+                                    onReject={() => rejectSplitMutation.mutate(suggestion.id)}
+                                  />
+                                )}
                               </Stack>
                             </Paper>
                           );
@@ -816,64 +915,83 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
                               );
 
                               return (
-                                <TableRow key={suggestion.id} sx={{ opacity: isFaded ? 0.6 : 1 }}>
-                                  <TableCell sx={{ borderBottomColor: 'divider' }}>
-                                    {formatDate(suggestion.transactionDate)}
-                                  </TableCell>
-                                  <TableCell sx={{ borderBottomColor: 'divider' }}>
-                                    {suggestion.transactionAccountName || '—'}
-                                  </TableCell>
-                                  <TableCell
-                                    align="right"
-                                    sx={{
-                                      borderBottomColor: 'divider',
-                                      fontFamily: 'monospace',
-                                      fontSize: '0.75rem',
-                                    }}
-                                  >
-                                    {formatAmount(suggestion.transactionAmount)}
-                                  </TableCell>
-                                  <TableCell sx={{ borderBottomColor: 'divider' }}>
-                                    <Chip
-                                      size="small"
-                                      variant="outlined"
-                                      color={statusColor(statusClass)}
-                                      label={getStatusLabel(suggestion).toUpperCase()}
-                                    />
-                                  </TableCell>
-                                  <TableCell align="right" sx={{ borderBottomColor: 'divider' }}>
-                                    {suggestion.status === 'pending' && (
-                                      <Button
-                                        size="small"
-                                        variant="contained"
-                                        color="success"
-                                        onClick={() =>
-                                          approveSuggestionMutation.mutate(suggestion.id)
-                                        }
-                                        disabled={
-                                          approveSuggestionMutation.isPending ||
-                                          !isApprovableSuggestion(suggestion)
-                                        }
-                                      >
-                                        Approve
-                                      </Button>
-                                    )}
-                                    {(suggestion.status === 'approved' ||
-                                      suggestion.status === 'rejected') && (
-                                      <Button
+                                <Fragment key={suggestion.id}>
+                                  <TableRow sx={{ opacity: isFaded ? 0.6 : 1 }}>
+                                    <TableCell sx={{ borderBottomColor: 'divider' }}>
+                                      {formatDate(suggestion.transactionDate)}
+                                    </TableCell>
+                                    <TableCell sx={{ borderBottomColor: 'divider' }}>
+                                      {suggestion.transactionAccountName || '—'}
+                                    </TableCell>
+                                    <TableCell
+                                      align="right"
+                                      sx={{
+                                        borderBottomColor: 'divider',
+                                        fontFamily: 'monospace',
+                                        fontSize: '0.75rem',
+                                      }}
+                                    >
+                                      {formatAmount(suggestion.transactionAmount)}
+                                    </TableCell>
+                                    <TableCell sx={{ borderBottomColor: 'divider' }}>
+                                      <Chip
                                         size="small"
-                                        variant="contained"
-                                        color="warning"
-                                        onClick={() =>
-                                          resetSuggestionMutation.mutate(suggestion.id)
-                                        }
-                                        disabled={resetSuggestionMutation.isPending}
-                                      >
-                                        Undo
-                                      </Button>
-                                    )}
-                                  </TableCell>
-                                </TableRow>
+                                        variant="outlined"
+                                        color={statusColor(statusClass)}
+                                        label={getStatusLabel(suggestion).toUpperCase()}
+                                      />
+                                    </TableCell>
+                                    <TableCell align="right" sx={{ borderBottomColor: 'divider' }}>
+                                      {suggestion.status === 'pending' && (
+                                        <Button
+                                          size="small"
+                                          variant="contained"
+                                          color="success"
+                                          onClick={() =>
+                                            approveSuggestionMutation.mutate(suggestion.id)
+                                          }
+                                          disabled={
+                                            approveSuggestionMutation.isPending ||
+                                            !isApprovableSuggestion(suggestion)
+                                          }
+                                        >
+                                          Approve
+                                        </Button>
+                                      )}
+                                      {(suggestion.status === 'approved' ||
+                                        suggestion.status === 'rejected') && (
+                                        <Button
+                                          size="small"
+                                          variant="contained"
+                                          color="warning"
+                                          onClick={() =>
+                                            resetSuggestionMutation.mutate(suggestion.id)
+                                          }
+                                          disabled={resetSuggestionMutation.isPending}
+                                        >
+                                          Undo
+                                        </Button>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                  {suggestion.splitSuggestion && (
+                                    <TableRow>
+                                      <TableCell colSpan={5} sx={{ borderBottomColor: 'divider' }}>
+                                        <SplitProposal
+                                          split={suggestion.splitSuggestion}
+                                          disabled={
+                                            approveSplitMutation.isPending ||
+                                            rejectSplitMutation.isPending
+                                          }
+                                          onApprove={() =>
+                                            approveSplitMutation.mutate(suggestion.id)
+                                          }
+                                          onReject={() => rejectSplitMutation.mutate(suggestion.id)}
+                                        />
+                                      </TableCell>
+                                    </TableRow>
+                                  )}
+                                </Fragment>
                               );
                             })}
                           </TableBody>
@@ -1037,19 +1155,90 @@ export function SuggestionList({ budgetId }: SuggestionListProps) {
   );
 }
 
-/** Group suggestions by payee, sorted by pending transaction count (desc) */
+/** Proposed split lines with approve/reject actions */
+function SplitProposal({
+  split,
+  disabled,
+  onApprove,
+  onReject,
+}: {
+  split: SplitSuggestionComponent;
+  disabled: boolean;
+  onApprove: () => void;
+  onReject: () => void;
+}) {
+  return (
+    <Stack
+      direction={{ xs: 'column', sm: 'row' }}
+      spacing={1}
+      alignItems={{ sm: 'center' }}
+      flexWrap="wrap"
+    >
+      <Typography variant="caption" color="text.secondary" fontWeight={600}>
+        Split ({Math.round(split.confidence * 100)}%):
+      </Typography>
+      {split.lines.map((line) => (
+        <Chip
+          key={line.categoryId}
+          size="small"
+          variant="outlined"
+          color="info"
+          label={`${line.categoryName} ${formatAmount(line.amount)}`}
+        />
+      ))}
+      <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+        {split.rationale}
+      </Typography>
+      {split.status === 'pending' ? (
+        <Stack direction="row" spacing={1}>
+          <Button
+            size="small"
+            variant="outlined"
+            color="success"
+            onClick={onApprove}
+            disabled={disabled}
+          >
+            Approve split
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            color="error"
+            onClick={onReject}
+            disabled={disabled}
+          >
+            Reject split
+          </Button>
+        </Stack>
+      ) : (
+        <Chip
+          size="small"
+          variant="outlined"
+          color={statusColor(split.status)}
+          label={split.status}
+        />
+      )}
+    </Stack>
+  );
+}
+
+/**
+ * Group suggestions by payee, sorted by pending transaction count (desc)
+ * Recategorize suggestions get their own group so they are never bulk-approved with new ones
+ */
 function groupByPayee(suggestions: Suggestion[]): PayeeGroup[] {
   const groups = new Map<string, Suggestion[]>();
 
   for (const s of suggestions) {
-    const payee = s.transactionPayee || 'Unknown';
-    const existing = groups.get(payee) || [];
+    const key = `${s.kind}:${s.transactionPayee || 'Unknown'}`;
+    const existing = groups.get(key) || [];
     existing.push(s);
-    groups.set(payee, existing);
+    groups.set(key, existing);
   }
 
   const result: PayeeGroup[] = [];
-  for (const [payeeName, items] of groups) {
+  for (const [key, items] of groups) {
+    const payeeName = items[0].transactionPayee || 'Unknown';
     const pendingItems = items.filter((s) => s.status === 'pending');
     const avgConfidence = items.reduce((sum, s) => sum + s.confidence, 0) / items.length;
     // Use a suggestion with a category proposal as representative when available
@@ -1069,7 +1258,10 @@ function groupByPayee(suggestions: Suggestion[]): PayeeGroup[] {
       categorySuggestion?.proposedCategoryId !== undefined;
 
     result.push({
+      key,
+      kind: representative.kind,
       payeeName,
+      currentCategoryName: representative.currentCategoryName,
       suggestedPayeeName:
         payeeSuggestion?.proposedPayeeName || representative.suggestedPayeeName || null,
       suggestions: items.sort(
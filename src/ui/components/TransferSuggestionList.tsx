@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { api, type TransferSuggestion } from '../services/api';
+
+interface TransferSuggestionListProps {
+  budgetId: string;
+}
+
+const statusColor = (status: string): 'warning' | 'success' | 'error' | 'info' | 'default' => {
+  switch (status) {
+    case 'pending':
+      return 'warning';
+    case 'approved':
+      return 'success';
+    case 'rejected':
+      return 'error';
+    case 'applied':
+      return 'info';
+    default:
+      return 'default';
+  }
+};
+
+const headerCellSx = {
+  borderBottomColor: 'divider',
+  fontSize: '0.7rem',
+  fontWeight: 700,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'text.secondary',
+} as const;
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(amount / 100);
+}
+
+/**
+ * Review tab for transfers between our own accounts that were imported as two transactions
+ * Approved pairs are linked in Actual Budget through the apply job
+ */
+export function TransferSuggestionList({ budgetId }: TransferSuggestionListProps) {
+  const queryClient = useQueryClient();
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['transfer-suggestions', budgetId],
+    queryFn: () => api.getTransferSuggestions(budgetId),
+    enabled: !!budgetId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['transfer-suggestions', budgetId] });
+  };
+
+  const { data: pendingJobData } = useQuery({
+    queryKey: ['job', pendingJobId],
+    queryFn: async () => {
+      const result = await api.getJob(pendingJobId ?? '');
+      if (result.job.completedAt) {
+        invalidate();
+        queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+      }
+      return result;
+    },
+    enabled: Boolean(pendingJobId),
+    refetchInterval: (query) => (query.state.data?.job.completedAt ? false : 2000),
+  });
+  const isDetecting = Boolean(pendingJobId) && !pendingJobData?.job.completedAt;
+
+  const detectMutation = useMutation({
+    mutationFn: () => api.createTransferDetectionJob(budgetId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+      setPendingJobId(result.job.id);
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (id: string) => api.approveTransferSuggestion(id),
+    onSuccess: invalidate,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (id: string) => api.rejectTransferSuggestion(id),
+    onSuccess: invalidate,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (id: string) => api.resetTransferSuggestion(id),
+    onSuccess: invalidate,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (ids: string[]) => api.applySuggestions(budgetId, ids),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['jobs', budgetId] });
+    },
+  });
+
+  const transfers = data?.transfers ?? [];
+  const approvedIds = transfers.filter((t) => t.status === 'approved').map((t) => t.id);
+  const isMutating =
+    approveMutation.isPending || rejectMutation.isPending || resetMutation.isPending;
+  const mutationError = detectMutation.error ?? applyMutation.error;
+
+  if (isLoading) {
+    return (
+      <Paper
+        variant="outlined"
+        sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+      >
+        <Typography variant="body2" color="text.secondary">
+          Loading transfer suggestions...
+        </Typography>
+      </Paper>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" variant="outlined">
+        Error loading transfer suggestions: {error.message}
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ mx: 'auto', width: '100%', maxWidth: 1200, p: 3 }}>
+      <Box
+        sx={{
+          mb: 3,
+          display: 'flex',
+          flexDirection: { xs: 'column', sm: 'row' },
+          alignItems: { sm: 'center' },
+          justifyContent: 'space-between',
+          gap: 2,
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+          pb: 2,
+        }}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          <Typography variant="h6" fontWeight={600} color="text.primary">
+            Transfer suggestions ({transfers.length})
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Uncategorized transactions with opposite amounts in two of your accounts
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={2}>
+          <Button
+            variant="outlined"
+            size="small"
+            disabled={isDetecting || detectMutation.isPending}
+            onClick={() => detectMutation.mutate()}
+          >
+            {isDetecting || detectMutation.isPending ? 'Detecting...' : 'Detect transfers'}
+          </Button>
+          <Button
+            variant="contained"
+            color="success"
+            size="small"
+            disabled={approvedIds.length === 0 || applyMutation.isPending}
+            onClick={() => applyMutation.mutate(approvedIds)}
+          >
+            {applyMutation.isPending
+              ? 'Starting...'
+              : `Link ${approvedIds.length} transfer${approvedIds.length === 1 ? '' : 's'}`}
+          </Button>
+        </Stack>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" variant="outlined" sx={{ mb: 2 }}>
+          {mutationError.message}
+        </Alert>
+      )}
+
+      {transfers.length === 0 ? (
+        <Paper
+          variant="outlined"
+          sx={{ px: 4, py: 6, textAlign: 'center', bgcolor: 'background.default' }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            No transfer suggestions yet
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Click Detect transfers to pair matching transactions across your accounts.
+          </Typography>
+        </Paper>
+      ) : (
+        <Paper variant="outlined" sx={{ overflowX: 'auto' }}>
+          <Table size="small" aria-label="transfer suggestions">
+            <TableHead>
+              <TableRow>
+                {['Amount', 'From', 'To', 'Evidence', 'Confidence', 'Status', ''].map((label) => (
+                  <TableCell key={label} sx={headerCellSx}>
+                    {label}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {transfers.map((transfer: TransferSuggestion) => (
+                <TableRow key={transfer.id} hover>
+                  <TableCell
+                    sx={{ borderBottomColor: 'divider', fontFamily: 'monospace', fontWeight: 600 }}
+                  >
+                    {formatAmount(transfer.amount)}
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Typography variant="body2">{transfer.fromAccountName ?? '—'}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {transfer.fromDate} · {transfer.fromPayeeName ?? 'No payee'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Typography variant="body2">{transfer.toAccountName ?? '—'}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {transfer.toDate} · {transfer.toPayeeName ?? 'No payee'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Typography variant="caption" color="text.secondary">
+                      {transfer.rationale}
+                    </Typography>
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    {Math.round(transfer.confidence * 100)}%
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }}>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={statusColor(transfer.status)}
+                      label={transfer.status}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ borderBottomColor: 'divider' }} align="right">
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      {transfer.status === 'pending' ? (
+                        <>
+                          <Button
+                            size="small"
+                            variant="contained"
+                            color="success"
+                            disabled={isMutating}
+                            onClick={() => approveMutation.mutate(transfer.id)}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            color="error"
+                            disabled={isMutating}
+                            onClick={() => rejectMutation.mutate(transfer.id)}
+                          >
+                            Reject
+                          </Button>
+                        </>
+                      ) : transfer.status !== 'applied' ? (
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          disabled={isMutating}
+                          onClick={() => resetMutation.mutate(transfer.id)}
+                        >
+                          Undo
+                        </Button>
+                      ) : null}
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Box>
+  );
+}
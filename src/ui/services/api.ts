@@ -13,6 +13,22 @@ async function parseJson<T>(response: Response, errorMessage: string): Promise<T
   }
 }
 
+/**
+ * Error for a job that could not be started; a 409 names the job that holds the budget
+ */
+async function jobStartError(response: Response, fallback: string): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(response.status === 409 && body?.message ? body.message : fallback);
+}
+
+/**
+ * Error for a rejected request; a 400 carries the validation message to show
+ */
+async function validationError(response: Response, fallback: string): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(response.status === 400 && body?.message ? body.message : fallback);
+}
+
 export function getJobEventsStreamUrl(budgetId: string): string {
   const base = API_BASE.startsWith('http') ? API_BASE : window.location.origin + API_BASE;
   const normalizedBase = base.endsWith('/') ? base : `${base}/`;
@@ -26,7 +42,75 @@ export interface Budget {
   name: string;
 }
 
+export interface AICapabilities {
+  supportsWebSearch: boolean;
+  supportsStructuredOutput: boolean;
+  supportsStreaming: boolean;
+}
+
+export interface AIModelRoute {
+  task: string;
+  backend: string;
+  model: string;
+  origin: 'budget' | 'global' | 'default';
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+  /** Calls whose model has no price; not included in estimatedCostUsd */
+  unpricedCalls: number;
+}
+
+export interface AITaskUsage extends AIUsageTotals {
+  task: string | null;
+}
+
+export interface JobAIUsage extends AIUsageTotals {
+  jobId: string;
+  byTask: AITaskUsage[];
+}
+
+export interface MonthlyAIUsage extends AIUsageTotals {
+  month: string;
+}
+
+export interface AISpendingStatus {
+  month: string;
+  spentUsd: number;
+  monthlyCapUsd: number | null;
+  capReached: boolean;
+}
+
+export interface AIOutboundRequest {
+  id: string;
+  jobId: string | null;
+  budgetId: string | null;
+  task: string | null;
+  instructions: string | null;
+  input: string;
+  redactions: Record<string, number>;
+  createdAt: string;
+}
+
+export interface BackendValidationStats {
+  backend: string;
+  total: number;
+  valid: number;
+  repaired: number;
+  failed: number;
+  invalidRate: number | null;
+  failureRate: number | null;
+}
+
 export interface AppConfig {
+  aiConfigured: boolean;
+  aiBackend: string;
+  aiCapabilities: AICapabilities;
+  aiRoutes: AIModelRoute[];
+  /** @deprecated Use aiConfigured */
   openaiConfigured: boolean;
 }
 
@@ -57,6 +141,11 @@ export interface Payee {
   name: string;
 }
 
+export interface Account {
+  id: string;
+  name: string;
+}
+
 export interface PayeeMergeClusterPayee {
   id: string;
   name: string;
@@ -106,8 +195,22 @@ export interface PayeeSuggestionComponent {
   confidence: number;
   rationale: string;
   status: SuggestionComponentStatus;
+  promptVersion: string | null; // e.g. payee_identification@v2
 }
 
+/** categorize: uncategorized transaction; recategorize: questions an existing category */
+export type SuggestionKind = 'categorize' | 'recategorize';
+
+/** Pipeline stage that produced a category suggestion */
+export type CategorySuggestionSource =
+  | 'cache_user_approved'
+  | 'cache_ai'
+  | 'payee_history'
+  | 'fuzzy_match'
+  | 'local_classifier'
+  | 'ai_with_context'
+  | 'ai_web_search';
+
 /** Category suggestion component */
 export interface CategorySuggestionComponent {
   proposedCategoryId: string | null;
@@ -115,6 +218,23 @@ export interface CategorySuggestionComponent {
   confidence: number;
   rationale: string;
   status: SuggestionComponentStatus;
+  source: CategorySuggestionSource | null;
+  promptVersion: string | null; // e.g. category_suggestion@v3
+}
+
+/** Single proposed split line */
+export interface SplitSuggestionLine {
+  amount: number;
+  categoryId: string;
+  categoryName: string;
+}
+
+/** Split suggestion component */
+export interface SplitSuggestionComponent {
+  lines: SplitSuggestionLine[];
+  confidence: number;
+  rationale: string;
+  status: SuggestionComponentStatus;
 }
 
 /** Correction data */
@@ -128,6 +248,7 @@ export interface SuggestionCorrection {
 export interface Suggestion {
   id: string;
   budgetId: string;
+  kind: SuggestionKind;
   transactionId: string;
   transactionAccountId: string | null;
   transactionAccountName: string | null;
@@ -135,11 +256,13 @@ export interface Suggestion {
   transactionAmount: number | null;
   transactionDate: string | null;
   currentCategoryId: string | null;
+  currentCategoryName: string | null;
   currentPayeeId: string | null;
 
   // Independent suggestion components
   payeeSuggestion: PayeeSuggestionComponent;
   categorySuggestion: CategorySuggestionComponent;
+  splitSuggestion: SplitSuggestionComponent | null;
   correction: SuggestionCorrection;
 
   // Legacy fields for backward compatibility
@@ -152,6 +275,306 @@ export interface Suggestion {
   createdAt: string;
 }
 
+/** Review status for a payee rule suggestion */
+export type PayeeRuleSuggestionStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+/** Proposed "payee is X → set category Y" rule */
+export interface PayeeRuleSuggestion {
+  id: string;
+  budgetId: string;
+  type: 'payee_rule';
+  payeeId: string;
+  payeeName: string;
+  categoryId: string;
+  categoryName: string;
+  approvedCount: number;
+  cacheHitCount: number;
+  confidence: number;
+  rationale: string;
+  status: PayeeRuleSuggestionStatus;
+  ruleId: string | null;
+  createdAt: string;
+}
+
+/** Review status for a transfer suggestion */
+export type TransferSuggestionStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+/** Proposed link of an outflow and an inflow between our own accounts as one transfer */
+export interface TransferSuggestion {
+  id: string;
+  budgetId: string;
+  type: 'transfer';
+  fromTransactionId: string;
+  fromAccountId: string;
+  fromAccountName: string | null;
+  fromPayeeName: string | null;
+  fromDate: string;
+  toTransactionId: string;
+  toAccountId: string;
+  toAccountName: string | null;
+  toPayeeName: string | null;
+  toDate: string;
+  amount: number;
+  dayGap: number;
+  confidence: number;
+  rationale: string;
+  status: TransferSuggestionStatus;
+  createdAt: string;
+}
+
+export type PayeeCacheSource = 'user_approved' | 'high_confidence_ai';
+
+/** Learned payee→category mapping reused by the suggestion pipeline */
+export interface PayeeCacheEntry {
+  id: number;
+  budgetId: string;
+  payeeName: string;
+  payeeNameOriginal: string;
+  categoryId: string;
+  categoryName: string;
+  confidence: number;
+  source: PayeeCacheSource;
+  hitCount: number;
+  pinned: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PayeeMatchCacheSource = 'user_approved' | 'high_confidence_ai' | 'fuzzy_match';
+
+/** Learned raw payee name → canonical payee mapping */
+export interface PayeeMatchCacheEntry {
+  id: number;
+  budgetId: string;
+  rawPayeeName: string;
+  rawPayeeNameOriginal: string;
+  canonicalPayeeId: string | null;
+  canonicalPayeeName: string;
+  confidence: number;
+  source: PayeeMatchCacheSource;
+  hitCount: number;
+  pinned: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One page of cache entries plus budget-wide totals */
+export interface CachePage<T> {
+  entries: T[];
+  total: number;
+  stats: { totalEntries: number; totalHits: number };
+}
+
+export interface CacheQuery {
+  search?: string;
+  source?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type RecurringCadence = 'weekly' | 'monthly' | 'yearly';
+
+export type RecurringPaymentStatus = 'active' | 'stopped';
+
+/** Payee charged on a stable cadence with a stable amount (amounts in positive cents) */
+export interface RecurringPayment {
+  id: string;
+  budgetId: string;
+  payeeId: string;
+  payeeName: string;
+  accountId: string;
+  accountName: string | null;
+  cadence: RecurringCadence;
+  occurrences: number;
+  minAmount: number;
+  maxAmount: number;
+  lastAmount: number;
+  previousAmount: number;
+  priceIncrease: boolean;
+  lastDate: string;
+  nextExpectedDate: string;
+  status: RecurringPaymentStatus;
+  scheduleId: string | null;
+  detectedAt: string;
+}
+
+/** Accuracy of one suggestion source, measured on categorizations made in Actual Budget */
+export interface SourceAccuracy {
+  source: CategorySuggestionSource;
+  total: number;
+  accepted: number;
+  overridden: number;
+  accuracy: number | null;
+}
+
+/** Calibration bucket of a backtest run */
+export interface BacktestBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  correct: number;
+  accuracy: number | null;
+  meanConfidence: number | null;
+}
+
+/** Prediction for one transaction whose category was hidden */
+export interface BacktestOutcome {
+  transactionId: string;
+  payeeName: string;
+  actualCategoryId: string;
+  actualCategoryName: string | null;
+  predictedCategoryId: string | null;
+  predictedCategoryName: string | null;
+  confidence: number;
+  source: string;
+}
+
+/** Stored accuracy report of the categorizer against history */
+export interface BacktestRun {
+  id: string;
+  budgetId: string;
+  jobId: string | null;
+  useAI: boolean;
+  sampleSize: number;
+  evaluatedCount: number;
+  coveredCount: number;
+  correctCount: number;
+  accuracy: number | null;
+  coverage: number | null;
+  buckets: BacktestBucket[];
+  bySource: Record<string, { count: number; correct: number; accuracy: number | null }>;
+  config: Record<string, unknown>;
+  outcomes: BacktestOutcome[];
+  createdAt: string;
+}
+
+export type AutoApproveAction = 'approve' | 'apply' | 'never';
+
+/** Conditions of an auto-approve policy; absent ones are ignored */
+export interface AutoApprovePolicyConditions {
+  sources?: CategorySuggestionSource[];
+  minConfidence?: number;
+  maxAmount?: number; // Absolute amount in cents
+  accountIds?: string[];
+}
+
+/** Per-budget rule applied to suggestions right after generation */
+export interface AutoApprovePolicy {
+  id: string;
+  budgetId: string;
+  name: string;
+  enabled: boolean;
+  action: AutoApproveAction;
+  conditions: AutoApprovePolicyConditions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduleJobType =
+  | 'scheduled_sync_and_suggest'
+  | 'budget_sync'
+  | 'suggestions_generate'
+  | 'suggestions_recategorize'
+  | 'transfers_detect'
+  | 'recurring_detect'
+  | 'payees_merge_suggestions_generate'
+  | 'snapshot_create';
+
+/** Cron schedule that starts one type of job for a budget */
+export interface JobSchedule {
+  id: string;
+  budgetId: string;
+  name: string;
+  cronExpression: string; // Server local time
+  jobType: ScheduleJobType;
+  options: Record<string, boolean | number>;
+  enabled: boolean;
+  quietHoursStart: string | null; // HH:MM
+  quietHoursEnd: string | null; // HH:MM
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobScheduleInput = Pick<
+  JobSchedule,
+  'name' | 'cronExpression' | 'jobType' | 'options' | 'quietHoursStart' | 'quietHoursEnd'
+> & { enabled?: boolean };
+
+/** One time a schedule came due, with the job it started */
+export interface JobScheduleRun {
+  id: string;
+  scheduleId: string;
+  jobId: string | null;
+  jobStatus: JobStatus | null;
+  status: 'started' | 'skipped' | 'failed';
+  message: string | null;
+  manual: boolean;
+  createdAt: string;
+}
+
+/** What a category means in this budget, fed to category prompts */
+export interface CategoryGuidance {
+  budgetId: string;
+  categoryId: string;
+  description: string | null;
+  examplePayees: string[];
+  neverSuggestFor: string[]; // Payee fragments, case-insensitive
+  updatedAt: string;
+}
+
+/** Categories an account's transactions may be given */
+export interface AccountCategoryAllowlist {
+  budgetId: string;
+  accountId: string;
+  categoryIds: string[];
+  updatedAt: string;
+}
+
+export type PromptTemplateName =
+  | 'payee_identification'
+  | 'category_suggestion'
+  | 'fuzzy_match_verification'
+  | 'fuzzy_match_disambiguation';
+
+/** Instructions a suggestion prompt uses for this budget */
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  version: number; // 0 until the budget saves its first edit
+  label: string;
+  instructions: string;
+  isBuiltIn: boolean;
+  builtInInstructions: string;
+  placeholders: string[];
+}
+
+/** One saved edit of a prompt template; null instructions mean a reset to built-in */
+export interface PromptTemplateVersion {
+  id: string;
+  budgetId: string;
+  name: PromptTemplateName;
+  version: number;
+  instructions: string | null;
+  createdAt: string;
+}
+
+/** What draft instructions produced for one sample payee */
+export interface PromptPreviewSample {
+  payeeName: string;
+  transactionCount: number;
+  skippedReason: string | null;
+  payee: { canonicalPayeeName: string | null; confidence: number; rationale: string } | null;
+  category: {
+    categoryId: string | null;
+    categoryName: string | null;
+    confidence: number;
+    rationale: string;
+  } | null;
+}
+
 /** Approved change ready to apply */
 export interface ApprovedChange {
   suggestionId: string;
@@ -166,6 +589,7 @@ export interface ApprovedChange {
   currentCategoryName: string | null;
   proposedPayeeName: string | null;
   hasPayeeChange: boolean;
+  splitLines: SplitSuggestionLine[] | null;
 }
 
 /** Audit event from backend */
@@ -184,6 +608,10 @@ export type JobType =
   | 'sync_and_suggest'
   | 'suggestions_retry_payee'
   | 'suggestions_apply'
+  | 'suggestions_backtest'
+  | 'suggestions_recategorize'
+  | 'transfers_detect'
+  | 'recurring_detect'
   | 'templates_apply'
   | 'snapshot_create'
   | 'snapshot_redownload'
@@ -270,6 +698,19 @@ export const api = {
     return parseJson(response, 'Failed to parse payees response');
   },
 
+  /**
+   * Get open on-budget accounts from the current budget
+   */
+  async getAccounts(): Promise<{ accounts: Account[] }> {
+    const response = await fetch(`${API_BASE}/budgets/accounts`);
+
+    if (!response.ok) {
+      throw new Error('Failed to get accounts');
+    }
+
+    return parseJson(response, 'Failed to parse accounts response');
+  },
+
   /**
    * Get merge suggestions for duplicate payees
    */
@@ -336,7 +777,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create payee merge suggestions job');
+      throw await jobStartError(response, 'Failed to create payee merge suggestions job');
     }
 
     return response.json();
@@ -448,7 +889,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create snapshot job');
+      throw await jobStartError(response, 'Failed to create snapshot job');
     }
 
     return response.json();
@@ -469,7 +910,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create suggestions job');
+      throw await jobStartError(response, 'Failed to create suggestions job');
     }
 
     return response.json();
@@ -491,7 +932,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create sync and suggest job');
+      throw await jobStartError(response, 'Failed to create sync and suggest job');
     }
 
     return response.json();
@@ -524,168 +965,1032 @@ export const api = {
   },
 
   /**
-   * Get uncategorized transactions for a budget
+   * Get payee rule suggestions by budget ID
    */
-  async getUncategorizedTransactions(
-    budgetId: string
-  ): Promise<{ transactions: UncategorizedTransaction[] }> {
-    const response = await fetch(`${API_BASE}/suggestions/uncategorized?budgetId=${budgetId}`);
+  async getPayeeRuleSuggestions(budgetId: string): Promise<{ rules: PayeeRuleSuggestion[] }> {
+    const response = await fetch(`${API_BASE}/suggestions/rules?budgetId=${budgetId}`);
 
     if (!response.ok) {
-      throw new Error('Failed to fetch uncategorized transactions');
+      throw new Error('Failed to fetch payee rule suggestions');
     }
 
     return response.json();
   },
 
   /**
-   * List jobs for a budget
+   * Approve a payee rule suggestion
    */
-  async listJobs(params: {
-    budgetId: string;
-    type?: JobType;
-    status?: JobStatus;
-    limit?: number;
-  }): Promise<{ jobs: Job[] }> {
-    const query = new URLSearchParams({ budgetId: params.budgetId });
-    if (params.type) query.set('type', params.type);
-    if (params.status) query.set('status', params.status);
-    if (params.limit) query.set('limit', String(params.limit));
+  async approvePayeeRuleSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/rules/${suggestionId}/approve`, {
+      method: 'POST',
+    });
 
-    const response = await fetch(`${API_BASE}/jobs?${query.toString()}`);
     if (!response.ok) {
-      throw new Error('Failed to list jobs');
+      throw new Error('Failed to approve payee rule suggestion');
     }
 
     return response.json();
   },
 
   /**
-   * Get a job by ID with steps
+   * Reject a payee rule suggestion
    */
-  async getJob(jobId: string): Promise<{ job: Job; steps: JobStep[] }> {
-    const response = await fetch(`${API_BASE}/jobs/${jobId}`);
+  async rejectPayeeRuleSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/rules/${suggestionId}/reject`, {
+      method: 'POST',
+    });
 
     if (!response.ok) {
-      throw new Error('Failed to fetch job');
+      throw new Error('Failed to reject payee rule suggestion');
     }
 
     return response.json();
   },
 
   /**
-   * Create a sync job
+   * Reset a payee rule suggestion back to pending
    */
-  async createSyncJob(budgetId: string): Promise<{ job: Job; steps: JobStep[] }> {
-    const response = await fetch(`${API_BASE}/jobs/budget-sync`, {
+  async resetPayeeRuleSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/rules/${suggestionId}/reset`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ budgetId }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create sync job');
+      throw new Error('Failed to reset payee rule suggestion');
     }
 
     return response.json();
   },
 
   /**
-   * Create a suggestions generation job
+   * Get transfer suggestions by budget ID
    */
-  async createSuggestionsJob(
-    budgetId: string,
-    useAI?: boolean
-  ): Promise<{ job: Job; steps: JobStep[] }> {
-    const response = await fetch(`${API_BASE}/jobs/suggestions-generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ budgetId, useAI }),
-    });
+  async getTransferSuggestions(budgetId: string): Promise<{ transfers: TransferSuggestion[] }> {
+    const response = await fetch(`${API_BASE}/transfers?budgetId=${budgetId}`);
 
     if (!response.ok) {
-      throw new Error('Failed to create suggestions job');
+      throw new Error('Failed to fetch transfer suggestions');
     }
 
     return response.json();
   },
 
   /**
-   * Create a combined sync and generate job
+   * Approve a transfer suggestion
    */
-  async createSyncAndGenerateJob(
-    budgetId: string,
-    fullResync = false,
-    useAI?: boolean
-  ): Promise<{ job: Job; steps: JobStep[] }> {
-    const response = await fetch(`${API_BASE}/jobs/sync-and-suggest`, {
+  async approveTransferSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/transfers/${suggestionId}/approve`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ budgetId, fullResync, useAI }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create sync and generate job');
+      throw new Error('Failed to approve transfer suggestion');
     }
 
     return response.json();
   },
 
   /**
-   * Approve a suggestion
+   * Reject a transfer suggestion
    */
-  async approveSuggestion(suggestionId: string) {
-    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve`, {
+  async rejectTransferSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/transfers/${suggestionId}/reject`, {
       method: 'POST',
     });
 
     if (!response.ok) {
-      throw new Error('Failed to approve suggestion');
+      throw new Error('Failed to reject transfer suggestion');
     }
 
     return response.json();
   },
 
   /**
-   * Reject a suggestion
+   * Reset a transfer suggestion back to pending
    */
-  async rejectSuggestion(suggestionId: string) {
-    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/reject`, {
+  async resetTransferSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/transfers/${suggestionId}/reset`, {
       method: 'POST',
     });
 
     if (!response.ok) {
-      throw new Error('Failed to reject suggestion');
+      throw new Error('Failed to reset transfer suggestion');
     }
 
     return response.json();
   },
 
   /**
-   * Approve only the payee suggestion
+   * Get uncategorized transactions for a budget
    */
-  async approvePayeeSuggestion(suggestionId: string) {
-    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve-payee`, {
-      method: 'POST',
-    });
+  async getUncategorizedTransactions(
+    budgetId: string
+  ): Promise<{ transactions: UncategorizedTransaction[] }> {
+    const response = await fetch(`${API_BASE}/suggestions/uncategorized?budgetId=${budgetId}`);
 
     if (!response.ok) {
-      throw new Error('Failed to approve payee suggestion');
+      throw new Error('Failed to fetch uncategorized transactions');
     }
 
     return response.json();
   },
 
   /**
-   * Approve only the category suggestion
+   * List jobs for a budget
    */
-  async approveCategorySuggestion(suggestionId: string) {
-    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve-category`, {
-      method: 'POST',
-    });
+  async listJobs(params: {
+    budgetId: string;
+    type?: JobType;
+    status?: JobStatus;
+    limit?: number;
+  }): Promise<{ jobs: Job[] }> {
+    const query = new URLSearchParams({ budgetId: params.budgetId });
+    if (params.type) query.set('type', params.type);
+    if (params.status) query.set('status', params.status);
+    if (params.limit) query.set('limit', String(params.limit));
 
+    const response = await fetch(`${API_BASE}/jobs?${query.toString()}`);
     if (!response.ok) {
-      throw new Error('Failed to approve category suggestion');
+      throw new Error('Failed to list jobs');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get a job by ID with steps
+   */
+  async getJob(jobId: string): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/${jobId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Cancel a queued or running job; running jobs stop at their next checkpoint
+   */
+  async cancelJob(jobId: string): Promise<{ job: Job }> {
+    const response = await fetch(`${API_BASE}/jobs/${jobId}/cancel`, { method: 'POST' });
+
+    if (!response.ok) {
+      throw new Error('Failed to cancel job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Queue a failed or canceled job again, optionally starting at its failed step
+   */
+  async retryJob(jobId: string, fromFailedStep = false): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/${jobId}/retry`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fromFailedStep }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to retry job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get token usage and estimated AI cost of a job
+   */
+  async getJobAIUsage(jobId: string): Promise<{ usage: JobAIUsage }> {
+    const response = await fetch(`${API_BASE}/ai-usage/jobs/${jobId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch job AI usage');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get monthly AI usage totals and this month's spend against the cap
+   */
+  async getAIUsage(months = 6): Promise<{ months: MonthlyAIUsage[]; spending: AISpendingStatus }> {
+    const response = await fetch(`${API_BASE}/ai-usage?months=${months}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch AI usage');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Text a job sent to AI backends, after redaction
+   */
+  async getJobAIRequests(jobId: string): Promise<{ requests: AIOutboundRequest[] }> {
+    const response = await fetch(`${API_BASE}/ai-usage/jobs/${jobId}/requests`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch job AI requests');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Per-backend share of AI responses that failed schema validation
+   */
+  async getAIValidationStats(): Promise<{ backends: BackendValidationStats[] }> {
+    const response = await fetch(`${API_BASE}/ai-usage/validation`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch AI validation stats');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a sync job
+   */
+  async createSyncJob(budgetId: string): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/budget-sync`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create sync job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a suggestions generation job
+   */
+  async createSuggestionsJob(
+    budgetId: string,
+    useAI?: boolean
+  ): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/suggestions-generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, useAI }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create suggestions job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a job that flags already-categorized transactions that look miscategorized
+   */
+  async createRecategorizationReviewJob(
+    budgetId: string,
+    lookbackDays?: number
+  ): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/suggestions-recategorize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, lookbackDays }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create recategorization review job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a job that pairs uncategorized transactions into transfer suggestions
+   */
+  async createTransferDetectionJob(
+    budgetId: string,
+    windowDays?: number
+  ): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/transfers-detect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, windowDays }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create transfer detection job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a backtest job that scores suggestions against categorized history
+   */
+  async createBacktestJob(
+    budgetId: string,
+    sampleSize: number,
+    useAI?: boolean
+  ): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/suggestions-backtest`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, sampleSize, useAI }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create backtest job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List backtest runs by budget ID (newest first, without outcomes)
+   */
+  async getBacktestRuns(budgetId: string): Promise<{ runs: BacktestRun[] }> {
+    const response = await fetch(`${API_BASE}/suggestions/backtests?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch backtest runs');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get a backtest run with per-transaction outcomes
+   */
+  async getBacktestRun(runId: string): Promise<{ run: BacktestRun }> {
+    const response = await fetch(`${API_BASE}/suggestions/backtests/${runId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch backtest run');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get accuracy per suggestion source from categorizations made directly in Actual Budget
+   */
+  async getSourceAccuracy(budgetId: string): Promise<{ sources: SourceAccuracy[] }> {
+    const response = await fetch(`${API_BASE}/suggestions/accuracy?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch suggestion accuracy');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get the latest detected recurring payments by budget ID
+   */
+  async getRecurringPayments(budgetId: string): Promise<{ payments: RecurringPayment[] }> {
+    const response = await fetch(`${API_BASE}/subscriptions?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch subscriptions');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create the missing Actual Budget schedule for a recurring payment
+   */
+  async createRecurringPaymentSchedule(paymentId: string): Promise<{ payment: RecurringPayment }> {
+    const response = await fetch(`${API_BASE}/subscriptions/${paymentId}/schedule`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error || 'Failed to create schedule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a job that detects recurring payments and subscriptions
+   */
+  async createRecurringDetectionJob(budgetId: string): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/recurring-detect`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create subscription detection job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List payee category cache entries for a budget
+   */
+  async getCategoryCache(
+    budgetId: string,
+    params: CacheQuery = {}
+  ): Promise<CachePage<PayeeCacheEntry>> {
+    const query = new URLSearchParams({ budgetId });
+    if (params.search) query.set('search', params.search);
+    if (params.source) query.set('source', params.source);
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.offset) query.set('offset', String(params.offset));
+
+    const response = await fetch(`${API_BASE}/cache/categories?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch payee category cache');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Edit or pin a payee category cache entry
+   */
+  async updateCategoryCacheEntry(
+    entryId: number,
+    changes: { categoryId?: string; pinned?: boolean }
+  ): Promise<{ entry: PayeeCacheEntry }> {
+    const response = await fetch(`${API_BASE}/cache/categories/${entryId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error || 'Failed to update payee category cache entry');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a payee category cache entry
+   */
+  async deleteCategoryCacheEntry(entryId: number): Promise<{ success: boolean }> {
+    const response = await fetch(`${API_BASE}/cache/categories/${entryId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete payee category cache entry');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Bulk-delete payee category cache entries, optionally for one source only
+   */
+  async clearCategoryCache(
+    budgetId: string,
+    options: { source?: string; includePinned?: boolean } = {}
+  ): Promise<{ deleted: number }> {
+    const response = await fetch(`${API_BASE}/cache/categories/clear`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, ...options }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to clear payee category cache');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List payee match cache entries for a budget
+   */
+  async getPayeeMatchCache(
+    budgetId: string,
+    params: CacheQuery = {}
+  ): Promise<CachePage<PayeeMatchCacheEntry>> {
+    const query = new URLSearchParams({ budgetId });
+    if (params.search) query.set('search', params.search);
+    if (params.source) query.set('source', params.source);
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.offset) query.set('offset', String(params.offset));
+
+    const response = await fetch(`${API_BASE}/cache/payee-matches?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch payee match cache');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Edit or pin a payee match cache entry
+   */
+  async updatePayeeMatchCacheEntry(
+    entryId: number,
+    changes: { canonicalPayeeId?: string; canonicalPayeeName?: string; pinned?: boolean }
+  ): Promise<{ entry: PayeeMatchCacheEntry }> {
+    const response = await fetch(`${API_BASE}/cache/payee-matches/${entryId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error || 'Failed to update payee match cache entry');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a payee match cache entry
+   */
+  async deletePayeeMatchCacheEntry(entryId: number): Promise<{ success: boolean }> {
+    const response = await fetch(`${API_BASE}/cache/payee-matches/${entryId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete payee match cache entry');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Bulk-delete payee match cache entries, optionally for one source only
+   */
+  async clearPayeeMatchCache(
+    budgetId: string,
+    options: { source?: string; includePinned?: boolean } = {}
+  ): Promise<{ deleted: number }> {
+    const response = await fetch(`${API_BASE}/cache/payee-matches/clear`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, ...options }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to clear payee match cache');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List auto-approve policies by budget ID
+   */
+  async getPolicies(budgetId: string): Promise<{ policies: AutoApprovePolicy[] }> {
+    const response = await fetch(`${API_BASE}/policies?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch auto-approve policies');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create an auto-approve policy
+   */
+  async createPolicy(
+    budgetId: string,
+    policy: Pick<AutoApprovePolicy, 'name' | 'action' | 'conditions'>
+  ): Promise<{ policy: AutoApprovePolicy }> {
+    const response = await fetch(`${API_BASE}/policies`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, ...policy }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to create auto-approve policy');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Update an auto-approve policy (e.g. enable or disable it)
+   */
+  async updatePolicy(
+    policyId: string,
+    changes: Partial<Pick<AutoApprovePolicy, 'name' | 'action' | 'conditions' | 'enabled'>>
+  ): Promise<{ policy: AutoApprovePolicy }> {
+    const response = await fetch(`${API_BASE}/policies/${policyId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update auto-approve policy');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete an auto-approve policy
+   */
+  async deletePolicy(policyId: string): Promise<{ success: boolean }> {
+    const response = await fetch(`${API_BASE}/policies/${policyId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete auto-approve policy');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List job schedules by budget ID
+   */
+  async getSchedules(budgetId: string): Promise<{ schedules: JobSchedule[] }> {
+    const response = await fetch(`${API_BASE}/schedules?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch schedules');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a job schedule
+   */
+  async createSchedule(
+    budgetId: string,
+    schedule: JobScheduleInput
+  ): Promise<{ schedule: JobSchedule }> {
+    const response = await fetch(`${API_BASE}/schedules`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, ...schedule }),
+    });
+
+    if (!response.ok) {
+      throw await validationError(response, 'Failed to create schedule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Update a job schedule (e.g. enable or disable it)
+   */
+  async updateSchedule(
+    scheduleId: string,
+    changes: Partial<JobScheduleInput>
+  ): Promise<{ schedule: JobSchedule }> {
+    const response = await fetch(`${API_BASE}/schedules/${scheduleId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      throw await validationError(response, 'Failed to update schedule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a job schedule and its run history
+   */
+  async deleteSchedule(scheduleId: string): Promise<{ success: boolean }> {
+    const response = await fetch(`${API_BASE}/schedules/${scheduleId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete schedule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Recent runs of a job schedule, newest first
+   */
+  async getScheduleRuns(scheduleId: string): Promise<{ runs: JobScheduleRun[] }> {
+    const response = await fetch(`${API_BASE}/schedules/${scheduleId}/runs`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch schedule runs');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Start a schedule's job now, ignoring its quiet hours
+   */
+  async runSchedule(scheduleId: string): Promise<{ run: JobScheduleRun }> {
+    const response = await fetch(`${API_BASE}/schedules/${scheduleId}/run`, { method: 'POST' });
+
+    if (!response.ok) {
+      throw new Error('Failed to run schedule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List category guidance and account allowlists by budget ID
+   */
+  async getCategoryGuidance(
+    budgetId: string
+  ): Promise<{ guidance: CategoryGuidance[]; allowlists: AccountCategoryAllowlist[] }> {
+    const response = await fetch(`${API_BASE}/category-guidance?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch category guidance');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Set the description, example payees and "never suggest for" fragments of a category
+   */
+  async setCategoryGuidance(
+    budgetId: string,
+    categoryId: string,
+    guidance: Pick<CategoryGuidance, 'description' | 'examplePayees' | 'neverSuggestFor'>
+  ): Promise<{ guidance: CategoryGuidance }> {
+    const response = await fetch(`${API_BASE}/category-guidance/categories/${categoryId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, ...guidance }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to save category guidance');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Remove the guidance of a category
+   */
+  async clearCategoryGuidance(budgetId: string, categoryId: string): Promise<{ success: boolean }> {
+    const response = await fetch(
+      `${API_BASE}/category-guidance/categories/${categoryId}?budgetId=${budgetId}`,
+      { method: 'DELETE' }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to clear category guidance');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Restrict an account's transactions to some categories
+   */
+  async setAccountAllowlist(
+    budgetId: string,
+    accountId: string,
+    categoryIds: string[]
+  ): Promise<{ allowlist: AccountCategoryAllowlist }> {
+    const response = await fetch(`${API_BASE}/category-guidance/accounts/${accountId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, categoryIds }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to save account allowlist');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Allow every category for an account again
+   */
+  async clearAccountAllowlist(budgetId: string, accountId: string): Promise<{ success: boolean }> {
+    const response = await fetch(
+      `${API_BASE}/category-guidance/accounts/${accountId}?budgetId=${budgetId}`,
+      { method: 'DELETE' }
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to clear account allowlist');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List the prompt templates in effect for a budget
+   */
+  async getPromptTemplates(budgetId: string): Promise<{ templates: PromptTemplate[] }> {
+    const response = await fetch(`${API_BASE}/prompt-templates?budgetId=${budgetId}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch prompt templates');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List saved versions of a prompt template, newest first
+   */
+  async getPromptTemplateVersions(
+    budgetId: string,
+    name: PromptTemplateName
+  ): Promise<{ versions: PromptTemplateVersion[] }> {
+    const response = await fetch(
+      `${API_BASE}/prompt-templates/${name}/versions?budgetId=${budgetId}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch prompt template versions');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Save new instructions as the next version of a prompt template
+   */
+  async savePromptTemplate(
+    budgetId: string,
+    name: PromptTemplateName,
+    instructions: string
+  ): Promise<{ template: PromptTemplate }> {
+    const response = await fetch(`${API_BASE}/prompt-templates/${name}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, instructions }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to save prompt template');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Go back to the built-in instructions of a prompt template
+   */
+  async resetPromptTemplate(
+    budgetId: string,
+    name: PromptTemplateName
+  ): Promise<{ template: PromptTemplate }> {
+    const response = await fetch(`${API_BASE}/prompt-templates/${name}?budgetId=${budgetId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to reset prompt template');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Run draft instructions against a few uncategorized payees
+   */
+  async previewPromptTemplate(
+    budgetId: string,
+    name: PromptTemplateName,
+    instructions: string
+  ): Promise<{ samples: PromptPreviewSample[] }> {
+    const response = await fetch(`${API_BASE}/prompt-templates/${name}/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, instructions }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to preview prompt template');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a combined sync and generate job
+   */
+  async createSyncAndGenerateJob(
+    budgetId: string,
+    fullResync = false,
+    useAI?: boolean
+  ): Promise<{ job: Job; steps: JobStep[] }> {
+    const response = await fetch(`${API_BASE}/jobs/sync-and-suggest`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ budgetId, fullResync, useAI }),
+    });
+
+    if (!response.ok) {
+      throw await jobStartError(response, 'Failed to create sync and generate job');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Approve a suggestion
+   */
+  async approveSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to approve suggestion');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Reject a suggestion
+   */
+  async rejectSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/reject`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to reject suggestion');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Approve only the payee suggestion
+   */
+  async approvePayeeSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve-payee`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to approve payee suggestion');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Approve only the category suggestion
+   */
+  async approveCategorySuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve-category`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to approve category suggestion');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Approve the split suggestion instead of the single category
+   */
+  async approveSplitSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/approve-split`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to approve split suggestion');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Reject the split suggestion
+   */
+  async rejectSplitSuggestion(suggestionId: string) {
+    const response = await fetch(`${API_BASE}/suggestions/${suggestionId}/reject-split`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to reject split suggestion');
     }
 
     return response.json();
@@ -830,7 +2135,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create apply suggestions job');
+      throw await jobStartError(response, 'Failed to create apply suggestions job');
     }
 
     return response.json();
@@ -852,7 +2157,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create retry suggestion job');
+      throw await jobStartError(response, 'Failed to create retry suggestion job');
     }
 
     return response.json();
@@ -869,7 +2174,7 @@ export const api = {
     });
 
     if (!response.ok) {
-      throw new Error('Failed to create snapshot redownload job');
+      throw await jobStartError(response, 'Failed to create snapshot redownload job');
     }
 
     return response.json();
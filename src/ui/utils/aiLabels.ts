@@ -0,0 +1,23 @@
+const AI_TASK_LABELS: Record<string, string> = {
+  payee_identification: 'Payee identification',
+  category_suggestion: 'Category suggestion',
+  fuzzy_match_verification: 'Fuzzy match verification',
+  fuzzy_match_disambiguation: 'Fuzzy match disambiguation',
+  payee_merge_split: 'Payee merge splitting',
+};
+
+export function formatAITaskLabel(task: string | null): string {
+  if (!task) return 'Other';
+  return AI_TASK_LABELS[task] ?? task;
+}
+
+/**
+ * Estimated AI cost; small amounts keep four decimals so single calls stay visible
+ */
+export function formatAICost(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: value < 1 ? 4 : 2,
+  }).format(value);
+}
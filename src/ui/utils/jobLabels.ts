@@ -16,6 +16,14 @@ export function formatJobTypeLabel(job: Job): string {
       return 'Retry Suggestions';
     case 'suggestions_apply':
       return 'Apply Suggestions';
+    case 'suggestions_backtest':
+      return jobUsesAI(job) ? 'Backtest Suggestions (AI)' : 'Backtest Suggestions';
+    case 'suggestions_recategorize':
+      return 'Review Categorized Transactions';
+    case 'transfers_detect':
+      return 'Detect Transfers';
+    case 'recurring_detect':
+      return 'Detect Subscriptions';
     case 'templates_apply':
       return 'Apply Templates';
     case 'payees_merge':
@@ -0,0 +1,122 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createJobRouter } from '../../../src/api/jobRoutes.js';
+import { createErrorHandler } from '../../../src/api/errorHandler.js';
+import { JobService } from '../../../src/services/JobService.js';
+import type { Job } from '../../../src/domain/entities/Job.js';
+import type { Env } from '../../../src/infra/env.js';
+import type { JobOrchestrator } from '../../../src/services/JobOrchestrator.js';
+import type { JobRepository } from '../../../src/infra/repositories/JobRepository.js';
+import type { JobStepRepository } from '../../../src/infra/repositories/JobStepRepository.js';
+import type { JobEventRepository } from '../../../src/infra/repositories/JobEventRepository.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+/** Jobs table kept in memory, with the queries job creation makes */
+function createJobService() {
+  const jobs = new Map<string, Job & { idempotencyKey?: string }>();
+  const jobRepo = {
+    create: (job: Job) => jobs.set(job.id, job),
+    getById: (jobId: string) => jobs.get(jobId) ?? null,
+    listActiveByBudget: (budgetId: string) =>
+      [...jobs.values()].filter(
+        (job) => job.budgetId === budgetId && (job.status === 'queued' || job.status === 'running')
+      ),
+    findByIdempotencyKey: (budgetId: string, idempotencyKey: string) =>
+      [...jobs.values()].find(
+        (job) => job.budgetId === budgetId && job.idempotencyKey === idempotencyKey
+      ) ?? null,
+    setIdempotencyKey: (jobId: string, idempotencyKey: string) => {
+      const job = jobs.get(jobId) as Job & { idempotencyKey?: string };
+      jobs.set(jobId, { ...job, idempotencyKey: job.idempotencyKey ?? idempotencyKey });
+    },
+  };
+  return new JobService(
+    jobRepo as unknown as JobRepository,
+    { listByJob: () => [] } as unknown as JobStepRepository,
+    { record: vi.fn() } as unknown as JobEventRepository
+  );
+}
+
+let server: Server | null = null;
+
+async function startServer(): Promise<string> {
+  const jobService = createJobService();
+  const jobOrchestrator = {
+    startBudgetSyncJob: (budgetId: string) => ({
+      job: jobService.createJob({ budgetId, type: 'budget_sync' }),
+    }),
+    startSuggestionsGenerateJob: (params: { budgetId: string; useAI?: boolean }) => ({
+      job: jobService.createJob({
+        budgetId: params.budgetId,
+        type: 'suggestions_generate',
+        metadata: { useAI: params.useAI === true },
+      }),
+    }),
+  };
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/jobs', createJobRouter(jobService, jobOrchestrator as unknown as JobOrchestrator));
+  app.use(createErrorHandler({ NODE_ENV: 'test' } as Env));
+
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/jobs`;
+}
+
+function post(url: string, body: Record<string, unknown>, idempotencyKey: string) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify(body),
+  });
+}
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = null;
+});
+
+describe('Job routes Idempotency-Key', () => {
+  it('should reply with the job the key created when the same request is repeated', async () => {
+    const baseUrl = await startServer();
+    const body = { budgetId: 'budget-1', useAI: true };
+
+    const first = await post(`${baseUrl}/suggestions-generate`, body, 'key-1');
+    const second = await post(`${baseUrl}/suggestions-generate`, body, 'key-1');
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(200);
+    expect((await second.json()).job.id).toBe((await first.json()).job.id);
+  });
+
+  it('should refuse a key reused for a different body or job type', async () => {
+    const baseUrl = await startServer();
+    await post(`${baseUrl}/suggestions-generate`, { budgetId: 'budget-1', useAI: true }, 'key-1');
+
+    const otherBody = await post(
+      `${baseUrl}/suggestions-generate`,
+      { budgetId: 'budget-1', useAI: false },
+      'key-1'
+    );
+    const otherType = await post(`${baseUrl}/budget-sync`, { budgetId: 'budget-1' }, 'key-1');
+
+    expect(otherBody.status).toBe(409);
+    expect(otherType.status).toBe(409);
+    expect(await otherType.json()).toMatchObject({
+      error: 'CONFLICT',
+      details: { jobType: 'suggestions_generate' },
+    });
+  });
+});
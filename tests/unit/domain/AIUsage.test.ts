@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODEL_PRICES,
+  createAIUsageRecord,
+  estimateCostUsd,
+  findModelPrice,
+  startOfMonthUtc,
+} from '../../../src/domain/entities/AIUsage.ts';
+
+describe('findModelPrice', () => {
+  it('should prefer an exact match, then the longest base model name', () => {
+    expect(findModelPrice('gpt-4o', DEFAULT_MODEL_PRICES)).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice('gpt-4o-mini-2024-07-18', DEFAULT_MODEL_PRICES)).toEqual(
+      DEFAULT_MODEL_PRICES['gpt-4o-mini']
+    );
+    expect(findModelPrice('gpt-4o-2024-08-06', DEFAULT_MODEL_PRICES)).toEqual(
+      DEFAULT_MODEL_PRICES['gpt-4o']
+    );
+  });
+
+  it('should not price unknown models or mere string prefixes', () => {
+    expect(findModelPrice('llama3.1', DEFAULT_MODEL_PRICES)).toBeNull();
+    expect(findModelPrice('gpt-4oextra', DEFAULT_MODEL_PRICES)).toBeNull();
+  });
+});
+
+describe('estimateCostUsd', () => {
+  it('should charge input and output tokens per million', () => {
+    expect(
+      estimateCostUsd(
+        { promptTokens: 2_000_000, completionTokens: 500_000 },
+        { input: 1, output: 4 }
+      )
+    ).toBeCloseTo(4);
+    expect(estimateCostUsd({ promptTokens: 100, completionTokens: 100 }, null)).toBeNull();
+  });
+
+  it('should let configured prices make local models free', () => {
+    const record = createAIUsageRecord({
+      jobId: 'job-1',
+      budgetId: 'budget-1',
+      task: 'category_suggestion',
+      backend: 'openai_compatible',
+      model: 'llama3.1',
+      promptTokens: 1200,
+      completionTokens: 80,
+      latencyMs: 950,
+      prices: { ...DEFAULT_MODEL_PRICES, 'llama3.1': { input: 0, output: 0 } },
+    });
+
+    expect(record.estimatedCostUsd).toBe(0);
+    expect(record.task).toBe('category_suggestion');
+  });
+});
+
+describe('startOfMonthUtc', () => {
+  it('should return the first instant of the UTC month', () => {
+    expect(startOfMonthUtc(new Date('2026-10-19T23:59:00Z'))).toBe('2026-10-01T00:00:00.000Z');
+  });
+});
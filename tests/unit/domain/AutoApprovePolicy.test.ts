@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createAutoApprovePolicy,
+  evaluatePolicies,
+  type AutoApproveAction,
+  type AutoApprovePolicyConditions,
+} from '../../../src/domain/entities/AutoApprovePolicy.ts';
+import { createSuggestion } from '../../../src/domain/entities/Suggestion.ts';
+
+function makeSuggestion(overrides: Partial<Parameters<typeof createSuggestion>[0]> = {}) {
+  return createSuggestion({
+    budgetId: 'budget-1',
+    transactionId: 'txn-1',
+    transactionAccountId: 'acc-1',
+    transactionAmount: -2500,
+    currentCategoryId: null,
+    proposedCategoryId: 'cat-1',
+    proposedCategoryName: 'Groceries',
+    categoryConfidence: 0.97,
+    categorySource: 'ai_with_context',
+    ...overrides,
+  });
+}
+
+function makePolicy(action: AutoApproveAction, conditions: AutoApprovePolicyConditions) {
+  return createAutoApprovePolicy({
+    budgetId: 'budget-1',
+    name: `${action} policy`,
+    action,
+    conditions,
+  });
+}
+
+describe('AutoApprovePolicy', () => {
+  it('should match only when every condition holds', () => {
+    const policy = makePolicy('apply', { minConfidence: 0.95, maxAmount: 5000 });
+
+    expect(evaluatePolicies([policy], makeSuggestion())?.action).toBe('apply');
+    expect(evaluatePolicies([policy], makeSuggestion({ categoryConfidence: 0.9 }))).toBeNull();
+    expect(evaluatePolicies([policy], makeSuggestion({ transactionAmount: -5000 }))).toBeNull();
+    expect(evaluatePolicies([policy], makeSuggestion({ transactionAmount: null }))).toBeNull();
+  });
+
+  it('should match by category source', () => {
+    const policy = makePolicy('approve', { sources: ['cache_user_approved'] });
+
+    expect(evaluatePolicies([policy], makeSuggestion())).toBeNull();
+    expect(
+      evaluatePolicies([policy], makeSuggestion({ categorySource: 'cache_user_approved' }))?.policy
+    ).toBe(policy);
+  });
+
+  it('should let a never policy override approve and apply policies', () => {
+    const approve = makePolicy('approve', {});
+    const apply = makePolicy('apply', { minConfidence: 0.95 });
+    const never = makePolicy('never', { accountIds: ['acc-1'] });
+
+    expect(evaluatePolicies([approve, apply], makeSuggestion())?.policy).toBe(apply);
+    expect(evaluatePolicies([approve, never, apply], makeSuggestion())?.policy).toBe(never);
+    expect(
+      evaluatePolicies([approve, never], makeSuggestion({ transactionAccountId: 'acc-2' }))?.policy
+    ).toBe(approve);
+  });
+
+  it('should skip disabled policies and non-pending or unknown proposals', () => {
+    const disabled = { ...makePolicy('approve', {}), enabled: false };
+    const policy = makePolicy('approve', {});
+
+    expect(evaluatePolicies([disabled], makeSuggestion())).toBeNull();
+    expect(evaluatePolicies([policy], makeSuggestion({ categoryStatus: 'approved' }))).toBeNull();
+    expect(
+      evaluatePolicies([policy], makeSuggestion({ proposedCategoryId: 'unknown' }))
+    ).toBeNull();
+  });
+});
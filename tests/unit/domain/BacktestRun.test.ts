@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createBacktestRun,
+  summarizeBacktest,
+  type BacktestOutcome,
+} from '../../../src/domain/entities/BacktestRun.ts';
+
+function makeOutcome(
+  id: string,
+  predictedCategoryId: string | null,
+  confidence: number,
+  source = 'fuzzy_match'
+): BacktestOutcome {
+  return {
+    transactionId: id,
+    payeeName: 'Local Market',
+    actualCategoryId: 'cat-1',
+    actualCategoryName: 'Groceries',
+    predictedCategoryId,
+    predictedCategoryName: predictedCategoryId ? 'Some category' : null,
+    confidence,
+    source,
+  };
+}
+
+describe('BacktestRun', () => {
+  it('should score accuracy over covered outcomes and coverage over all outcomes', () => {
+    const summary = summarizeBacktest([
+      makeOutcome('txn-1', 'cat-1', 0.9, 'cache'),
+      makeOutcome('txn-2', 'cat-1', 0.6),
+      makeOutcome('txn-3', 'cat-2', 0.6),
+      makeOutcome('txn-4', null, 0),
+      makeOutcome('txn-5', 'unknown', 0.2),
+    ]);
+
+    expect(summary.evaluatedCount).toBe(5);
+    expect(summary.coveredCount).toBe(3);
+    expect(summary.correctCount).toBe(2);
+    expect(summary.accuracy).toBe(0.667);
+    expect(summary.coverage).toBe(0.6);
+    expect(summary.bySource).toEqual({
+      cache: { count: 1, correct: 1, accuracy: 1 },
+      fuzzy_match: { count: 2, correct: 1, accuracy: 0.5 },
+    });
+  });
+
+  it('should bucket covered outcomes by confidence', () => {
+    const summary = summarizeBacktest([
+      makeOutcome('txn-1', 'cat-1', 0.3),
+      makeOutcome('txn-2', 'cat-1', 0.7),
+      makeOutcome('txn-3', 'cat-2', 0.8),
+      makeOutcome('txn-4', 'cat-1', 1),
+    ]);
+
+    expect(summary.buckets.map((bucket) => bucket.count)).toEqual([1, 0, 2, 0, 1]);
+    expect(summary.buckets[1].accuracy).toBeNull();
+    expect(summary.buckets[2]).toMatchObject({
+      minConfidence: 0.7,
+      maxConfidence: 0.85,
+      correct: 1,
+      accuracy: 0.5,
+      meanConfidence: 0.75,
+    });
+  });
+
+  it('should handle runs without outcomes', () => {
+    const run = createBacktestRun({
+      budgetId: 'budget-1',
+      useAI: false,
+      sampleSize: 10,
+      config: {},
+      outcomes: [],
+    });
+
+    expect(run.id).toBeDefined();
+    expect(run.jobId).toBeNull();
+    expect(run.accuracy).toBeNull();
+    expect(run.coverage).toBeNull();
+    expect(run.buckets.every((bucket) => bucket.count === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  categoriesForPayee,
+  checkCategoryProposal,
+  createCategoryGuardrails,
+  formatCategoryList,
+  type CategoryGuidance,
+} from '../../../src/domain/entities/CategoryGuidance.ts';
+import type { Category } from '../../../src/domain/entities/BudgetSnapshot.ts';
+
+function category(id: string, name: string): Category {
+  return { id, name, groupId: 'group-1', groupName: 'Spending', isIncome: false, hidden: false };
+}
+
+function guidance(categoryId: string, fields: Partial<CategoryGuidance>): CategoryGuidance {
+  return {
+    budgetId: 'budget-1',
+    categoryId,
+    description: null,
+    examplePayees: [],
+    neverSuggestFor: [],
+    updatedAt: '2026-10-19T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+const categories = [
+  category('cat-fun', 'Fun Money'),
+  category('cat-office', 'Office Supplies'),
+  category('cat-misc', 'Misc'),
+];
+
+const guardrails = createCategoryGuardrails(
+  [
+    guidance('cat-fun', {
+      description: "Each adult's personal spending",
+      examplePayees: ['Steam', 'Etsy'],
+      neverSuggestFor: ['amazon'],
+    }),
+  ],
+  [
+    {
+      budgetId: 'budget-1',
+      accountId: 'acct-business',
+      categoryIds: ['cat-office'],
+      updatedAt: '2026-10-19T00:00:00.000Z',
+    },
+  ]
+);
+
+describe('categoriesForPayee', () => {
+  it('should leave out categories blocked for the payee', () => {
+    const offered = categoriesForPayee(categories, guardrails, 'AMAZON MKTP US', ['acct-checking']);
+    expect(offered.map((entry) => entry.id)).toEqual(['cat-office', 'cat-misc']);
+  });
+
+  it('should restrict to allowlists only when every account has one', () => {
+    expect(
+      categoriesForPayee(categories, guardrails, 'STAPLES', ['acct-business']).map(
+        (entry) => entry.id
+      )
+    ).toEqual(['cat-office']);
+    expect(
+      categoriesForPayee(categories, guardrails, 'STAPLES', ['acct-business', 'acct-checking'])
+    ).toHaveLength(3);
+  });
+});
+
+describe('checkCategoryProposal', () => {
+  it('should explain which guardrail a proposal breaks', () => {
+    expect(
+      checkCategoryProposal(
+        guardrails,
+        { categoryId: 'cat-fun', categoryName: 'Fun Money' },
+        'Amazon.com',
+        'acct-checking'
+      )
+    ).toBe('"Fun Money" is never suggested for payees matching "amazon"');
+    expect(
+      checkCategoryProposal(
+        guardrails,
+        { categoryId: 'cat-misc', categoryName: 'Misc' },
+        'STAPLES',
+        'acct-business'
+      )
+    ).toBe('"Misc" is not allowed for this account');
+    expect(
+      checkCategoryProposal(
+        guardrails,
+        { categoryId: 'cat-office', categoryName: 'Office Supplies' },
+        'STAPLES',
+        'acct-business'
+      )
+    ).toBeNull();
+  });
+});
+
+describe('formatCategoryList', () => {
+  it('should add the description and example payees as notes', () => {
+    expect(formatCategoryList(categories.slice(0, 2), guardrails)).toBe(
+      [
+        "cat-fun|Fun Money|Spending|Each adult's personal spending; e.g. Steam, Etsy",
+        'cat-office|Office Supplies|Spending|',
+      ].join('\n')
+    );
+  });
+});
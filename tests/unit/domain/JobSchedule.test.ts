@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  intervalToCronExpression,
+  isWithinQuietHours,
+  parseTimeOfDay,
+} from '../../../src/domain/entities/JobSchedule.ts';
+
+const at = (hours: number, minutes: number) => new Date(2026, 9, 19, hours, minutes);
+
+describe('isWithinQuietHours', () => {
+  it('should include the start and exclude the end of a daytime window', () => {
+    const schedule = { quietHoursStart: '09:00', quietHoursEnd: '17:30' };
+    expect(isWithinQuietHours(schedule, at(9, 0))).toBe(true);
+    expect(isWithinQuietHours(schedule, at(17, 29))).toBe(true);
+    expect(isWithinQuietHours(schedule, at(17, 30))).toBe(false);
+    expect(isWithinQuietHours(schedule, at(8, 59))).toBe(false);
+  });
+
+  it('should wrap a window that ends before it starts past midnight', () => {
+    const schedule = { quietHoursStart: '22:00', quietHoursEnd: '07:00' };
+    expect(isWithinQuietHours(schedule, at(23, 15))).toBe(true);
+    expect(isWithinQuietHours(schedule, at(3, 0))).toBe(true);
+    expect(isWithinQuietHours(schedule, at(7, 0))).toBe(false);
+    expect(isWithinQuietHours(schedule, at(12, 0))).toBe(false);
+  });
+
+  it('should never be quiet without both ends', () => {
+    expect(isWithinQuietHours({ quietHoursStart: '22:00', quietHoursEnd: null }, at(23, 0))).toBe(
+      false
+    );
+    expect(parseTimeOfDay('24:00')).toBeNull();
+  });
+});
+
+describe('intervalToCronExpression', () => {
+  it('should map SYNC_INTERVAL_MINUTES to minute, hour or daily steps', () => {
+    expect(intervalToCronExpression(15)).toBe('*/15 * * * *');
+    expect(intervalToCronExpression(60)).toBe('0 * * * *');
+    expect(intervalToCronExpression(360)).toBe('0 */6 * * *');
+    expect(intervalToCronExpression(1440)).toBe('0 0 * * *');
+    expect(intervalToCronExpression(10080)).toBe('0 0 * * 0');
+  });
+
+  it('should refuse intervals a cron step cannot repeat exactly', () => {
+    // */45 runs at :00 and :45, leaving a 15 minute gap every hour
+    expect(intervalToCronExpression(45)).toBeNull();
+    // Rounding would run every 2 hours instead of every 90 minutes
+    expect(intervalToCronExpression(90)).toBeNull();
+    expect(intervalToCronExpression(420)).toBeNull();
+    expect(intervalToCronExpression(2880)).toBeNull();
+    expect(intervalToCronExpression(0)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { resolveModelRoute, type ModelRoutes } from '../../../src/domain/entities/ModelRoute.ts';
+
+const defaults = {
+  defaultBackend: 'openai',
+  defaultModels: { openai: 'gpt-4o-mini', google: 'gemini-2.0-flash' },
+};
+
+describe('resolveModelRoute', () => {
+  it('should use the default backend and model when no route is configured', () => {
+    const route = resolveModelRoute({
+      task: 'payee_identification',
+      globalRoutes: {},
+      budgetRoutes: {},
+      ...defaults,
+    });
+
+    expect(route).toEqual({
+      task: 'payee_identification',
+      backend: 'openai',
+      model: 'gpt-4o-mini',
+      origin: 'default',
+    });
+  });
+
+  it('should apply global routes and let budget overrides win', () => {
+    const globalRoutes: ModelRoutes = {
+      category_suggestion: { backend: null, model: 'gpt-4o' },
+      payee_merge_split: { backend: 'google', model: null },
+    };
+    const budgetRoutes: ModelRoutes = {
+      category_suggestion: { backend: null, model: 'gpt-4.1' },
+    };
+
+    expect(
+      resolveModelRoute({ task: 'category_suggestion', globalRoutes, budgetRoutes, ...defaults })
+    ).toMatchObject({ backend: 'openai', model: 'gpt-4.1', origin: 'budget' });
+    expect(
+      resolveModelRoute({ task: 'payee_merge_split', globalRoutes, budgetRoutes, ...defaults })
+    ).toMatchObject({ backend: 'google', model: 'gemini-2.0-flash', origin: 'global' });
+  });
+
+  it('should not carry a model over to a different backend', () => {
+    const route = resolveModelRoute({
+      task: 'fuzzy_match_verification',
+      globalRoutes: { fuzzy_match_verification: { backend: null, model: 'gpt-4o' } },
+      budgetRoutes: { fuzzy_match_verification: { backend: 'google', model: null } },
+      ...defaults,
+    });
+
+    expect(route).toMatchObject({ backend: 'google', model: 'gemini-2.0-flash', origin: 'budget' });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPayeeRuleSuggestion,
+  computePayeeRuleConfidence,
+  hasEnoughPayeeRuleEvidence,
+  MIN_PAYEE_RULE_EVIDENCE,
+} from '../../../src/domain/entities/PayeeRuleSuggestion.ts';
+
+describe('PayeeRuleSuggestion', () => {
+  it('should create a pending payee_rule suggestion', () => {
+    const suggestion = createPayeeRuleSuggestion({
+      budgetId: 'budget-1',
+      payeeId: 'payee-1',
+      payeeName: 'Local Market',
+      categoryId: 'cat-1',
+      categoryName: 'Groceries',
+      approvedCount: 2,
+      cacheHitCount: 1,
+    });
+
+    expect(suggestion.id).toBeDefined();
+    expect(suggestion.type).toBe('payee_rule');
+    expect(suggestion.status).toBe('pending');
+    expect(suggestion.ruleId).toBeNull();
+    expect(suggestion.confidence).toBe(0.75);
+    expect(suggestion.rationale).toBe(
+      'Local Market was categorized as Groceries based on 2 approved suggestions and 1 cached mapping'
+    );
+  });
+
+  it('should grow confidence with evidence', () => {
+    expect(computePayeeRuleConfidence(0, 0)).toBe(0);
+    expect(computePayeeRuleConfidence(9, 0)).toBe(0.9);
+    expect(computePayeeRuleConfidence(3, 6)).toBe(0.9);
+  });
+
+  it('should require the minimum amount of evidence', () => {
+    expect(hasEnoughPayeeRuleEvidence(MIN_PAYEE_RULE_EVIDENCE - 1, 0)).toBe(false);
+    expect(hasEnoughPayeeRuleEvidence(1, MIN_PAYEE_RULE_EVIDENCE - 1)).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  createPromptTemplateVersion,
+  findUnknownPlaceholders,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+} from '../../../src/domain/entities/PromptTemplate.ts';
+
+describe('resolvePromptTemplate', () => {
+  it('should fall back to the built-in instructions as version 0', () => {
+    const resolved = resolvePromptTemplate('category_suggestion', null);
+    expect(resolved).toMatchObject({
+      version: 0,
+      label: 'category_suggestion@v0',
+      instructions: BUILT_IN_PROMPT_TEMPLATES.category_suggestion,
+      isBuiltIn: true,
+    });
+  });
+
+  it('should use the latest saved version, including resets', () => {
+    const edited = createPromptTemplateVersion({
+      budgetId: 'budget-1',
+      name: 'payee_identification',
+      version: 2,
+      instructions: 'Identify the merchant.',
+    });
+    expect(resolvePromptTemplate('payee_identification', edited)).toMatchObject({
+      label: 'payee_identification@v2',
+      instructions: 'Identify the merchant.',
+      isBuiltIn: false,
+    });
+
+    const reset = { ...edited, version: 3, instructions: null };
+    expect(resolvePromptTemplate('payee_identification', reset)).toMatchObject({
+      label: 'payee_identification@v3',
+      instructions: BUILT_IN_PROMPT_TEMPLATES.payee_identification,
+      isBuiltIn: true,
+    });
+  });
+});
+
+describe('prompt placeholders', () => {
+  it('should only allow the placeholders a template can fill in', () => {
+    expect(
+      findUnknownPlaceholders('fuzzy_match_disambiguation', 'Pick 1-{{candidateCount}}')
+    ).toEqual([]);
+    expect(
+      findUnknownPlaceholders('category_suggestion', '{{ candidateCount }} {{payee}} {{payee}}')
+    ).toEqual(['candidateCount', 'payee']);
+  });
+
+  it('should render known values and leave others untouched', () => {
+    expect(
+      renderPromptTemplate(BUILT_IN_PROMPT_TEMPLATES.fuzzy_match_disambiguation, {
+        candidateCount: 3,
+      })
+    ).toContain('"matchIndex": 1-3 or null');
+    expect(renderPromptTemplate('{{ candidateCount }} {{other}}', { candidateCount: 2 })).toBe(
+      '2 {{other}}'
+    );
+  });
+});
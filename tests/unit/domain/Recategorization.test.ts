@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectMiscategorization,
+  type RecategorizationEvidence,
+} from '../../../src/domain/entities/Recategorization.ts';
+
+function makeEvidence(overrides: Partial<RecategorizationEvidence> = {}): RecategorizationEvidence {
+  return {
+    payeeHistory: [],
+    cacheEntry: null,
+    classifier: null,
+    ...overrides,
+  };
+}
+
+describe('detectMiscategorization', () => {
+  it('should flag a transaction whose payee history points elsewhere', () => {
+    const proposal = detectMiscategorization(
+      'cat-dining',
+      makeEvidence({
+        payeeHistory: [{ categoryId: 'cat-groceries', categoryName: 'Groceries', count: 9 }],
+      })
+    );
+
+    expect(proposal?.categoryId).toBe('cat-groceries');
+    expect(proposal?.source).toBe('payee_history');
+    expect(proposal?.rationale).toContain('9 of 9');
+  });
+
+  it('should not flag when history already uses the current category', () => {
+    const proposal = detectMiscategorization(
+      'cat-dining',
+      makeEvidence({
+        payeeHistory: [
+          { categoryId: 'cat-groceries', categoryName: 'Groceries', count: 8 },
+          { categoryId: 'cat-dining', categoryName: 'Dining', count: 2 },
+        ],
+        classifier: { categoryId: 'cat-groceries', categoryName: 'Groceries', confidence: 0.95 },
+      })
+    );
+
+    expect(proposal).toBeNull();
+  });
+
+  it('should ignore weak evidence and evidence that agrees', () => {
+    expect(
+      detectMiscategorization(
+        'cat-dining',
+        makeEvidence({
+          payeeHistory: [{ categoryId: 'cat-groceries', categoryName: 'Groceries', count: 3 }],
+          classifier: { categoryId: 'cat-groceries', categoryName: 'Groceries', confidence: 0.85 },
+        })
+      )
+    ).toBeNull();
+    expect(
+      detectMiscategorization(
+        'cat-dining',
+        makeEvidence({
+          cacheEntry: {
+            categoryId: 'cat-dining',
+            categoryName: 'Dining',
+            confidence: 1,
+            source: 'cache_user_approved',
+          },
+        })
+      )
+    ).toBeNull();
+  });
+
+  it('should pick the most confident disagreeing opinion', () => {
+    const proposal = detectMiscategorization(
+      'cat-dining',
+      makeEvidence({
+        cacheEntry: {
+          categoryId: 'cat-groceries',
+          categoryName: 'Groceries',
+          confidence: 0.92,
+          source: 'cache_ai',
+        },
+        classifier: { categoryId: 'cat-household', categoryName: 'Household', confidence: 0.97 },
+      })
+    );
+
+    expect(proposal?.categoryId).toBe('cat-household');
+    expect(proposal?.source).toBe('local_classifier');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addCadence,
+  createRecurringPayment,
+  detectRecurringPayments,
+} from '../../../src/domain/entities/RecurringPayment.ts';
+import type { Transaction } from '../../../src/domain/entities/BudgetSnapshot.ts';
+
+function makeCharge(
+  date: string,
+  amount: number,
+  overrides: Partial<Transaction> = {}
+): Transaction {
+  return {
+    id: `txn-${date}`,
+    accountId: 'checking',
+    accountName: 'Checking',
+    date,
+    payeeId: 'netflix',
+    payeeName: 'Netflix',
+    notes: null,
+    categoryId: 'cat-streaming',
+    categoryName: 'Streaming',
+    amount,
+    cleared: true,
+    isTransfer: false,
+    ...overrides,
+  };
+}
+
+describe('addCadence', () => {
+  it('should clamp month ends', () => {
+    expect(addCadence('2026-01-31', 'monthly')).toBe('2026-02-28');
+    expect(addCadence('2026-12-15', 'monthly')).toBe('2027-01-15');
+    expect(addCadence('2028-02-29', 'yearly')).toBe('2029-02-28');
+    expect(addCadence('2026-12-29', 'weekly')).toBe('2027-01-05');
+  });
+});
+
+describe('detectRecurringPayments', () => {
+  it('should detect a monthly subscription and its price increase', () => {
+    const transactions = [
+      makeCharge('2026-01-05', -1299),
+      makeCharge('2026-02-05', -1299),
+      makeCharge('2026-03-05', -1299),
+      makeCharge('2026-04-05', -1499),
+    ];
+
+    const [payment] = detectRecurringPayments(transactions, '2026-04-20');
+
+    expect(payment).toMatchObject({
+      payeeId: 'netflix',
+      cadence: 'monthly',
+      occurrences: 4,
+      minAmount: 1299,
+      maxAmount: 1499,
+      lastAmount: 1499,
+      previousAmount: 1299,
+      priceIncrease: true,
+      nextExpectedDate: '2026-05-05',
+      status: 'active',
+    });
+  });
+
+  it('should keep a subscription whose latest charge rose by more than the allowed deviation', () => {
+    const transactions = [
+      makeCharge('2026-01-05', -1000),
+      makeCharge('2026-02-05', -1000),
+      makeCharge('2026-03-05', -1000),
+      makeCharge('2026-04-05', -1300),
+    ];
+
+    const [payment] = detectRecurringPayments(transactions, '2026-04-20');
+
+    expect(payment).toMatchObject({
+      payeeId: 'netflix',
+      lastAmount: 1300,
+      previousAmount: 1000,
+      maxAmount: 1300,
+      priceIncrease: true,
+      status: 'active',
+    });
+  });
+
+  it('should mark a payment as stopped once the expected charge is long overdue', () => {
+    const transactions = ['2026-01-10', '2026-02-10', '2026-03-10'].map((date) =>
+      makeCharge(date, -999)
+    );
+
+    const [payment] = detectRecurringPayments(transactions, '2026-04-25');
+
+    expect(payment.status).toBe('stopped');
+    expect(payment.priceIncrease).toBe(false);
+  });
+
+  it('should ignore irregular cadences, unstable amounts and transfers', () => {
+    const irregular = ['2026-01-01', '2026-01-20', '2026-03-15', '2026-03-18'].map((date) =>
+      makeCharge(date, -2000, { payeeId: 'grocer', payeeName: 'Grocer' })
+    );
+    const unstable = [
+      makeCharge('2026-01-02', -3000, { payeeId: 'power', payeeName: 'Power Co' }),
+      makeCharge('2026-02-02', -9000, { payeeId: 'power', payeeName: 'Power Co' }),
+      makeCharge('2026-03-02', -4500, { payeeId: 'power', payeeName: 'Power Co' }),
+    ];
+    const transfers = ['2026-01-03', '2026-02-03', '2026-03-03'].map((date) =>
+      makeCharge(date, -50000, { payeeId: 'savings', payeeName: 'Savings', isTransfer: true })
+    );
+
+    expect(
+      detectRecurringPayments([...irregular, ...unstable, ...transfers], '2026-03-20')
+    ).toEqual([]);
+  });
+
+  it('should require enough occurrences for the cadence', () => {
+    const transactions = [makeCharge('2026-01-05', -1299), makeCharge('2026-02-05', -1299)];
+
+    expect(detectRecurringPayments(transactions, '2026-02-10')).toEqual([]);
+  });
+});
+
+describe('createRecurringPayment', () => {
+  it('should attach the budget and schedule to a candidate', () => {
+    const [candidate] = detectRecurringPayments(
+      ['2026-01-05', '2026-02-05', '2026-03-05'].map((date) => makeCharge(date, -1299)),
+      '2026-03-10'
+    );
+
+    const payment = createRecurringPayment({
+      budgetId: 'budget-1',
+      candidate,
+      scheduleId: 'sch-1',
+    });
+
+    expect(payment.id).toBeTruthy();
+    expect(payment).toMatchObject({
+      budgetId: 'budget-1',
+      scheduleId: 'sch-1',
+      payeeId: 'netflix',
+    });
+  });
+});
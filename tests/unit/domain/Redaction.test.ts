@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REDACTION_DETECTORS,
+  buildRedactionRules,
+  createRedactionMap,
+  redactText,
+  restoreText,
+} from '../../../src/domain/entities/Redaction.ts';
+
+const rules = buildRedactionRules([...REDACTION_DETECTORS], {});
+
+function redact(text: string, customPatterns: Record<string, string> = {}) {
+  const map = createRedactionMap();
+  const redacted = redactText(
+    text,
+    buildRedactionRules([...REDACTION_DETECTORS], customPatterns),
+    map
+  );
+  return { redacted, map };
+}
+
+describe('redactText', () => {
+  it('should replace card fragments, phone numbers, emails and references', () => {
+    expect(redact('AMAZON MKTPL XXXX1234').redacted).toBe('AMAZON MKTPL [CARD_1]');
+    expect(redact('SQ *COFFEE 800-555-1212').redacted).toBe('SQ *COFFEE [PHONE_1]');
+    expect(redact('PAYPAL INST XFER jane.doe@example.com').redacted).toBe(
+      'PAYPAL INST XFER [EMAIL_1]'
+    );
+    expect(redact('ACH DEBIT REF# 7G4K2P 20240131').redacted).toBe('ACH DEBIT [REF_1] 20240131');
+    expect(redact('WIRE OUT 004938271655').redacted).toBe('WIRE OUT [REF_1]');
+  });
+
+  it('should leave dates and store numbers without a reference label alone', () => {
+    const text = 'WALMART SUPERCENTER #123456 20240131 STORE 0042871';
+    expect(redactText(text, rules, createRedactionMap())).toBe(text);
+  });
+
+  it('should replace the counterparty of person-to-person payments only', () => {
+    expect(redact('ZELLE TO JOHN SMITH').redacted).toBe('ZELLE TO [NAME_1]');
+    expect(redact('VENMO *JANE DOE').redacted).toBe('VENMO *[NAME_1]');
+    expect(redact('PayPal fees').redacted).toBe('PayPal fees');
+  });
+
+  it('should give repeated values the same token and restore them', () => {
+    const { redacted, map } = redact('ZELLE TO JOHN SMITH\nZELLE FROM JOHN SMITH\nID EMP42', {
+      EMPLOYEE: 'EMP\\d+',
+    });
+
+    expect(redacted).toBe('ZELLE TO [NAME_1]\nZELLE FROM [NAME_1]\nID [EMPLOYEE_1]');
+    expect(map.counts).toEqual({ NAME: 1, EMPLOYEE: 1 });
+    expect(restoreText('{"canonicalPayeeName": "Zelle [NAME_1]"}', map)).toBe(
+      '{"canonicalPayeeName": "Zelle JOHN SMITH"}'
+    );
+  });
+
+  it('should escape restored values inside JSON', () => {
+    const { redacted, map } = redact('MEMO "RENT\\MARCH"', { MEMO: '"[^"]+"' });
+
+    const restored = restoreText(`{"notes": "${redacted}"}`, map, { json: true });
+
+    expect(redacted).toBe('MEMO [MEMO_1]');
+    expect(JSON.parse(restored)).toEqual({ notes: 'MEMO "RENT\\MARCH"' });
+  });
+
+  it('should leave category ids and ordinary names alone', () => {
+    const text = 'a1b2c3d4-1234-4abc-8def-123456789012|Groceries|Food\nAuthority Parking';
+    expect(redactText(text, rules, createRedactionMap())).toBe(text);
+  });
+});
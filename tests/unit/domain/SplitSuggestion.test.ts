@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction } from '../../../src/domain/entities/BudgetSnapshot.ts';
+import {
+  deriveSplitStatus,
+  learnSplitSuggestion,
+} from '../../../src/domain/entities/SplitSuggestion.ts';
+
+function makeTransaction(
+  id: string,
+  date: string,
+  amount: number,
+  splits?: Array<[string, string, number]>
+): Transaction {
+  return {
+    id,
+    accountId: 'acc-1',
+    accountName: 'Checking',
+    date,
+    payeeId: 'payee-1',
+    payeeName: 'Costco',
+    notes: null,
+    categoryId: splits ? null : 'cat-groceries',
+    categoryName: splits ? null : 'Groceries',
+    amount,
+    cleared: true,
+    isTransfer: false,
+    splits: splits?.map(([categoryId, categoryName, splitAmount], index) => ({
+      id: `${id}-${index}`,
+      amount: splitAmount,
+      categoryId,
+      categoryName,
+      notes: null,
+    })),
+  };
+}
+
+describe('SplitSuggestion', () => {
+  const history = [
+    makeTransaction('txn-1', '2026-09-01', -10000, [
+      ['cat-groceries', 'Groceries', -6500],
+      ['cat-household', 'Household', -3500],
+    ]),
+    makeTransaction('txn-2', '2026-09-15', -20000, [
+      ['cat-household', 'Household', -7000],
+      ['cat-groceries', 'Groceries', -13000],
+    ]),
+  ];
+
+  it('should average category shares from past splits', () => {
+    const split = learnSplitSuggestion(history, -5001);
+
+    expect(split).not.toBeNull();
+    expect(split?.lines).toEqual([
+      { amount: -3251, categoryId: 'cat-groceries', categoryName: 'Groceries' },
+      { amount: -1750, categoryId: 'cat-household', categoryName: 'Household' },
+    ]);
+    expect(split?.confidence).toBe(0.67);
+    expect(split?.rationale).toBe(
+      'Split like 2 past transactions for this payee: 65% Groceries, 35% Household'
+    );
+  });
+
+  it('should make lines sum to the transaction amount', () => {
+    const split = learnSplitSuggestion(history, -3333);
+    const total = split?.lines.reduce((sum, line) => sum + line.amount, 0);
+
+    expect(total).toBe(-3333);
+  });
+
+  it('should return null when the payee is usually not split', () => {
+    const mostlyUnsplit = [
+      ...history,
+      makeTransaction('txn-3', '2026-09-20', -4000),
+      makeTransaction('txn-4', '2026-09-25', -4500),
+      makeTransaction('txn-5', '2026-09-30', -4200),
+    ];
+
+    expect(learnSplitSuggestion(mostlyUnsplit, -5000)).toBeNull();
+  });
+
+  it('should return null without split history', () => {
+    expect(learnSplitSuggestion([], -5000)).toBeNull();
+    expect(learnSplitSuggestion([makeTransaction('txn-3', '2026-09-20', -4000)], -5000)).toBeNull();
+    expect(learnSplitSuggestion(history, 0)).toBeNull();
+  });
+
+  it('should derive split status from the suggestion status', () => {
+    expect(deriveSplitStatus('approved', 'pending')).toBe('pending');
+    expect(deriveSplitStatus('approved', 'approved')).toBe('approved');
+    expect(deriveSplitStatus('pending', 'approved')).toBe('skipped');
+    expect(deriveSplitStatus('approved', 'rejected')).toBe('rejected');
+    expect(deriveSplitStatus('approved', 'applied')).toBe('applied');
+    expect(deriveSplitStatus('skipped', 'applied')).toBe('skipped');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EXAMPLE_SELECTION,
+  createSuggestionExample,
+  describeExampleInfluence,
+  formatExamplesSection,
+  selectPromptExamples,
+  type SuggestionExample,
+} from '../../../src/domain/entities/SuggestionExample.ts';
+
+function example(
+  payeeName: string,
+  chosenName: string,
+  proposedName: string | null = chosenName,
+  kind: SuggestionExample['kind'] = 'category'
+): SuggestionExample {
+  return createSuggestionExample({
+    budgetId: 'budget-1',
+    suggestionId: `suggestion-${payeeName}`,
+    kind,
+    payeeName,
+    proposedName,
+    chosenId: kind === 'category' ? `cat-${chosenName}` : null,
+    chosenName,
+  });
+}
+
+describe('createSuggestionExample', () => {
+  it('should mark decisions that differ from the proposal as corrections', () => {
+    expect(example('TRADER JOES #552', 'Groceries').corrected).toBe(false);
+    expect(example('TRADER JOES #552', 'Groceries', 'Dining Out').corrected).toBe(true);
+  });
+});
+
+describe('selectPromptExamples', () => {
+  it('should label examples in order and describe the decision', () => {
+    const selected = selectPromptExamples(
+      [
+        example('TRADER JOES #552', 'Groceries', 'Dining Out'),
+        example('AMZN MKTP US', 'Amazon', 'Amazon', 'payee'),
+      ],
+      1000
+    );
+
+    expect(selected.map((entry) => entry.line)).toEqual([
+      'E1. "TRADER JOES #552" → category "Groceries" (user corrected from "Dining Out")',
+      'E2. "AMZN MKTP US" → payee "Amazon" (user approved)',
+    ]);
+    expect(formatExamplesSection(selected)).toContain('exampleIds');
+    expect(formatExamplesSection([])).toBe('');
+  });
+
+  it('should stop at the token budget and the example limit', () => {
+    const ranked = Array.from({ length: 20 }, (_, index) => example(`PAYEE ${index}`, 'Groceries'));
+    const oneLine = selectPromptExamples(ranked, 1000)[0].line;
+
+    expect(selectPromptExamples(ranked, 0)).toEqual([]);
+    expect(selectPromptExamples(ranked, Math.ceil(oneLine.length / 4) * 2)).toHaveLength(2);
+    expect(selectPromptExamples(ranked, 100_000)).toHaveLength(EXAMPLE_SELECTION.MAX_EXAMPLES);
+  });
+});
+
+describe('describeExampleInfluence', () => {
+  it('should name only the cited examples of the given kind', () => {
+    const selected = selectPromptExamples(
+      [
+        example('TRADER JOES #552', 'Groceries', 'Dining Out'),
+        example('TRADER JOES #101', "Trader Joe's", null, 'payee'),
+        example('WHOLE FOODS', 'Groceries'),
+      ],
+      1000
+    );
+
+    expect(describeExampleInfluence(selected, ['E1', 'E2'], 'category')).toBe(
+      ' Based on past decisions: "TRADER JOES #552" → Groceries.'
+    );
+    expect(describeExampleInfluence(selected, [], 'category')).toBe('');
+  });
+});
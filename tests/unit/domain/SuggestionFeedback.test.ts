@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSuggestionFeedback,
+  decideCacheFeedback,
+  summarizeSourceAccuracy,
+} from '../../../src/domain/entities/SuggestionFeedback.ts';
+import { createSuggestion } from '../../../src/domain/entities/Suggestion.ts';
+import type { Transaction } from '../../../src/domain/entities/BudgetSnapshot.ts';
+
+function makeTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'txn-1',
+    accountId: 'acct-1',
+    accountName: 'Checking',
+    date: '2026-10-01',
+    payeeId: 'payee-1',
+    payeeName: 'Corner Market',
+    notes: null,
+    categoryId: 'cat-groceries',
+    categoryName: 'Groceries',
+    amount: -2500,
+    cleared: true,
+    isTransfer: false,
+    ...overrides,
+  };
+}
+
+function makeSuggestion(proposedCategoryId: string | null) {
+  return createSuggestion({
+    budgetId: 'budget-1',
+    transactionId: 'txn-1',
+    transactionPayee: 'Corner Market',
+    currentCategoryId: null,
+    proposedCategoryId,
+    proposedCategoryName: proposedCategoryId ? 'Proposed' : null,
+    categoryConfidence: 0.8,
+    categorySource: 'payee_history',
+  });
+}
+
+describe('createSuggestionFeedback', () => {
+  it('should record an accepted proposal', () => {
+    const feedback = createSuggestionFeedback({
+      suggestion: makeSuggestion('cat-groceries'),
+      transaction: makeTransaction(),
+      actualCategoryName: 'Groceries',
+    });
+
+    expect(feedback?.outcome).toBe('accepted');
+    expect(feedback?.source).toBe('payee_history');
+    expect(feedback?.payeeName).toBe('Corner Market');
+  });
+
+  it('should record an overridden proposal', () => {
+    const feedback = createSuggestionFeedback({
+      suggestion: makeSuggestion('cat-dining'),
+      transaction: makeTransaction(),
+      actualCategoryName: 'Groceries',
+    });
+
+    expect(feedback?.outcome).toBe('overridden');
+    expect(feedback?.proposedCategoryId).toBe('cat-dining');
+    expect(feedback?.actualCategoryId).toBe('cat-groceries');
+  });
+
+  it('should mark placeholder proposals as unsuggested without a source', () => {
+    const feedback = createSuggestionFeedback({
+      suggestion: makeSuggestion('unknown'),
+      transaction: makeTransaction(),
+      actualCategoryName: 'Groceries',
+    });
+
+    expect(feedback?.outcome).toBe('unsuggested');
+    expect(feedback?.source).toBeNull();
+    expect(feedback?.proposedCategoryId).toBeNull();
+  });
+
+  it('should skip transfers and split transactions', () => {
+    const suggestion = makeSuggestion('cat-groceries');
+
+    expect(
+      createSuggestionFeedback({
+        suggestion,
+        transaction: makeTransaction({ isTransfer: true }),
+        actualCategoryName: null,
+      })
+    ).toBeNull();
+    expect(
+      createSuggestionFeedback({
+        suggestion,
+        transaction: makeTransaction({
+          categoryId: null,
+          splits: [
+            {
+              id: 's1',
+              amount: -2500,
+              categoryId: 'cat-groceries',
+              categoryName: null,
+              notes: null,
+            },
+          ],
+        }),
+        actualCategoryName: null,
+      })
+    ).toBeNull();
+  });
+});
+
+describe('decideCacheFeedback', () => {
+  it('should learn when the payee has no cache entry', () => {
+    expect(decideCacheFeedback(null, 'cat-groceries')).toEqual({ type: 'learn' });
+  });
+
+  it('should leave pinned entries alone', () => {
+    const entry = {
+      categoryId: 'cat-dining',
+      confidence: 1,
+      source: 'user_approved' as const,
+      pinned: true,
+    };
+    expect(decideCacheFeedback(entry, 'cat-groceries')).toEqual({ type: 'none' });
+  });
+
+  it('should reinforce a matching entry without exceeding 1', () => {
+    const entry = {
+      categoryId: 'cat-groceries',
+      confidence: 0.98,
+      source: 'high_confidence_ai' as const,
+      pinned: false,
+    };
+    expect(decideCacheFeedback(entry, 'cat-groceries')).toEqual({
+      type: 'reinforce',
+      confidence: 1,
+    });
+  });
+
+  it('should replace an AI entry on the first disagreement', () => {
+    const entry = {
+      categoryId: 'cat-dining',
+      confidence: 0.95,
+      source: 'high_confidence_ai' as const,
+      pinned: false,
+    };
+    expect(decideCacheFeedback(entry, 'cat-groceries')).toEqual({ type: 'learn' });
+  });
+
+  it('should demote a user_approved entry before replacing it', () => {
+    const entry = {
+      categoryId: 'cat-dining',
+      confidence: 1,
+      source: 'user_approved' as const,
+      pinned: false,
+    };
+    expect(decideCacheFeedback(entry, 'cat-groceries')).toEqual({
+      type: 'demote',
+      confidence: 0.8,
+    });
+    expect(decideCacheFeedback({ ...entry, confidence: 0.6 }, 'cat-groceries')).toEqual({
+      type: 'learn',
+    });
+  });
+});
+
+describe('summarizeSourceAccuracy', () => {
+  it('should compute accuracy per source and ignore unsuggested outcomes', () => {
+    const summary = summarizeSourceAccuracy([
+      { source: 'cache_ai', outcome: 'accepted', count: 1 },
+      { source: 'payee_history', outcome: 'accepted', count: 6 },
+      { source: 'payee_history', outcome: 'overridden', count: 3 },
+      { source: 'payee_history', outcome: 'unsuggested', count: 4 },
+    ]);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toEqual({
+      source: 'payee_history',
+      total: 9,
+      accepted: 6,
+      overridden: 3,
+      accuracy: 0.667,
+    });
+    expect(summary[1].source).toBe('cache_ai');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTransferSuggestion,
+  findTransferMatches,
+  transferPairKey,
+} from '../../../src/domain/entities/TransferSuggestion.ts';
+import type { Transaction } from '../../../src/domain/entities/BudgetSnapshot.ts';
+
+function makeTransaction(overrides: Partial<Transaction> & { id: string }): Transaction {
+  return {
+    accountId: 'checking',
+    accountName: 'Checking',
+    date: '2026-03-01',
+    payeeId: null,
+    payeeName: null,
+    notes: null,
+    categoryId: null,
+    categoryName: null,
+    amount: -50000,
+    cleared: true,
+    isTransfer: false,
+    ...overrides,
+  };
+}
+
+describe('findTransferMatches', () => {
+  it('should pair opposite amounts across accounts within the window', () => {
+    const out = makeTransaction({ id: 'out' });
+    const into = makeTransaction({
+      id: 'in',
+      accountId: 'savings',
+      accountName: 'Savings',
+      date: '2026-03-03',
+      amount: 50000,
+    });
+
+    const matches = findTransferMatches([out, into], 3);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ dayGap: 2, alternatives: 0 });
+    expect(createTransferSuggestion({ budgetId: 'b', match: matches[0] })).toMatchObject({
+      fromTransactionId: 'out',
+      toTransactionId: 'in',
+      amount: 50000,
+      confidence: 0.85,
+    });
+    expect(findTransferMatches([out, into], 1)).toHaveLength(0);
+  });
+
+  it('should skip same-account, categorized and existing transfer transactions', () => {
+    const out = makeTransaction({ id: 'out' });
+
+    expect(
+      findTransferMatches(
+        [
+          out,
+          makeTransaction({ id: 'same-account', amount: 50000 }),
+          makeTransaction({
+            id: 'categorized',
+            accountId: 'savings',
+            amount: 50000,
+            categoryId: 'c',
+          }),
+          makeTransaction({
+            id: 'transfer',
+            accountId: 'savings',
+            amount: 50000,
+            isTransfer: true,
+          }),
+        ],
+        3
+      )
+    ).toHaveLength(0);
+  });
+
+  it('should pair closest dates first and lower confidence for ambiguous pairs', () => {
+    const out = makeTransaction({ id: 'out' });
+    const near = makeTransaction({ id: 'near', accountId: 'savings', amount: 50000 });
+    const far = makeTransaction({
+      id: 'far',
+      accountId: 'brokerage',
+      date: '2026-03-02',
+      amount: 50000,
+    });
+
+    const matches = findTransferMatches([out, far, near], 3);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].to.id).toBe('near');
+    expect(matches[0].alternatives).toBe(1);
+    expect(createTransferSuggestion({ budgetId: 'b', match: matches[0] }).confidence).toBe(0.6);
+  });
+
+  it('should not propose excluded pairs', () => {
+    const out = makeTransaction({ id: 'out' });
+    const into = makeTransaction({ id: 'in', accountId: 'savings', amount: 50000 });
+
+    expect(findTransferMatches([out, into], 3, new Set([transferPairKey('out', 'in')]))).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction } from '../../../src/domain/entities/BudgetSnapshot.ts';
+import {
+  CLASSIFIER_THRESHOLDS,
+  extractFeatures,
+  predictCategory,
+  trainClassifier,
+} from '../../../src/infra/NaiveBayesClassifier.ts';
+
+function makeTransaction(
+  index: number,
+  payeeName: string,
+  amount: number,
+  categoryId: string | null,
+  categoryName: string | null
+): Transaction {
+  const day = String((index % 28) + 1).padStart(2, '0');
+  return {
+    id: `txn-${index}`,
+    accountId: 'acc-1',
+    accountName: 'Checking',
+    date: `2026-0${(index % 9) + 1}-${day}`,
+    payeeId: null,
+    payeeName,
+    notes: null,
+    categoryId,
+    categoryName,
+    amount,
+    cleared: true,
+    isTransfer: false,
+  };
+}
+
+function makeHistory(count: number): Transaction[] {
+  const history: Transaction[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i % 2 === 0) {
+      history.push(
+        makeTransaction(i, 'Whole Foods Market #12', -6500 - i, 'cat-food', 'Groceries')
+      );
+    } else {
+      history.push(makeTransaction(i, 'Shell Oil 5541', -4000 - i, 'cat-gas', 'Fuel'));
+    }
+  }
+  return history;
+}
+
+describe('NaiveBayesClassifier', () => {
+  it('should extract payee, amount, account and weekday features', () => {
+    const features = extractFeatures({
+      payeeName: 'SHELL OIL #5541',
+      amount: -4250,
+      accountId: 'acc-1',
+      date: '2026-10-19',
+    });
+
+    expect(features).toEqual([
+      'payee=shell oil 5541',
+      'token:shell',
+      'token:oil',
+      'amount:out:6',
+      'account:acc-1',
+      'weekday:1',
+    ]);
+  });
+
+  it('should not train without enough categorized history', () => {
+    const history = makeHistory(CLASSIFIER_THRESHOLDS.MIN_TRAINING_SAMPLES - 1);
+    expect(trainClassifier(history)).toBeNull();
+
+    const singleCategory = makeHistory(40).filter((txn) => txn.categoryId === 'cat-food');
+    expect(trainClassifier(singleCategory)).toBeNull();
+  });
+
+  it('should ignore uncategorized, transfer and split transactions', () => {
+    const history = [
+      ...makeHistory(CLASSIFIER_THRESHOLDS.MIN_TRAINING_SAMPLES),
+      makeTransaction(100, 'Unknown', -100, null, null),
+      { ...makeTransaction(101, 'Savings', -100, 'cat-food', 'Groceries'), isTransfer: true },
+    ];
+
+    expect(trainClassifier(history)?.sampleCount).toBe(CLASSIFIER_THRESHOLDS.MIN_TRAINING_SAMPLES);
+  });
+
+  it('should predict the category of a similar payee', () => {
+    const model = trainClassifier(makeHistory(30));
+    expect(model).not.toBeNull();
+
+    const prediction = predictCategory(model!, {
+      payeeName: 'WHOLE FOODS MARKET #98',
+      amount: -7000,
+      accountId: 'acc-1',
+      date: '2026-10-19',
+    });
+
+    expect(prediction?.categoryId).toBe('cat-food');
+    expect(prediction?.categoryName).toBe('Groceries');
+    expect(prediction?.probability).toBeGreaterThan(0.9);
+    expect(model!.holdoutAccuracy).toBeNull();
+  });
+
+  it('should calibrate confidence on held-out history', () => {
+    const model = trainClassifier(makeHistory(CLASSIFIER_THRESHOLDS.MIN_CALIBRATION_SAMPLES));
+
+    expect(model?.holdoutAccuracy).toBe(1);
+    expect(model?.calibration).toHaveLength(CLASSIFIER_THRESHOLDS.CALIBRATION_BINS);
+    for (let i = 1; i < (model?.calibration.length ?? 0); i++) {
+      expect(model!.calibration[i]).toBeGreaterThanOrEqual(model!.calibration[i - 1]);
+    }
+
+    const prediction = predictCategory(model!, {
+      payeeName: 'Shell Oil',
+      amount: -4100,
+      accountId: 'acc-1',
+      date: '2026-10-19',
+    });
+    expect(prediction?.categoryId).toBe('cat-gas');
+    expect(prediction?.confidence).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { DatabaseAdapter } from '../../../src/infra/DatabaseAdapter.js';
+import { PayeeCacheRepository } from '../../../src/infra/repositories/PayeeCacheRepository.js';
+import type { Env } from '../../../src/infra/env.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('PayeeCacheRepository', () => {
+  let db: DatabaseAdapter;
+  let repo: PayeeCacheRepository;
+
+  const entry = (overrides: Partial<Parameters<PayeeCacheRepository['save']>[0]> = {}) => ({
+    budgetId: 'budget-1',
+    payeeName: 'Coffee Shop',
+    categoryId: 'cat-dining',
+    categoryName: 'Dining',
+    confidence: 0.9,
+    source: 'high_confidence_ai' as const,
+    ...overrides,
+  });
+
+  const findEntry = (budgetId: string, payeeName: string) =>
+    repo.getAllCachedPayees(budgetId).find((cached) => cached.payeeNameOriginal === payeeName);
+
+  beforeEach(() => {
+    db = new DatabaseAdapter({ SQLITE_DB_PATH: ':memory:' } as Env);
+    repo = new PayeeCacheRepository(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should overwrite an unpinned entry when the payee is learned again', () => {
+    repo.save(entry());
+    repo.save(entry({ categoryId: 'cat-groceries', categoryName: 'Groceries', confidence: 1 }));
+
+    expect(findEntry('budget-1', 'Coffee Shop')).toMatchObject({
+      categoryId: 'cat-groceries',
+      categoryName: 'Groceries',
+      confidence: 1,
+    });
+  });
+
+  it('should keep a pinned entry when suggestions are regenerated', () => {
+    repo.save(entry());
+    const pinned = findEntry('budget-1', 'Coffee Shop');
+    repo.update(pinned!.id, { pinned: true });
+
+    repo.save(entry({ categoryId: 'cat-groceries', categoryName: 'Groceries' }));
+
+    expect(repo.findById(pinned!.id)).toMatchObject({
+      categoryId: 'cat-dining',
+      categoryName: 'Dining',
+      pinned: true,
+    });
+  });
+
+  it('should apply a manual edit to a pinned entry', () => {
+    repo.save(entry());
+    const { id } = findEntry('budget-1', 'Coffee Shop')!;
+    repo.update(id, { pinned: true });
+
+    repo.update(id, {
+      categoryId: 'cat-groceries',
+      categoryName: 'Groceries',
+      confidence: 1,
+      source: 'user_approved',
+    });
+
+    expect(repo.findById(id)).toMatchObject({
+      categoryId: 'cat-groceries',
+      source: 'user_approved',
+      pinned: true,
+    });
+  });
+
+  it('should refuse to edit an entry that does not exist', () => {
+    expect(() => repo.update(404, { pinned: true })).toThrow('PayeeCacheEntry');
+  });
+
+  it('should clear one budget and keep pinned entries unless asked', () => {
+    repo.save(entry());
+    repo.save(entry({ payeeName: 'Gas Station', categoryId: 'cat-fuel', categoryName: 'Fuel' }));
+    repo.save(entry({ budgetId: 'budget-2' }));
+    repo.update(findEntry('budget-1', 'Gas Station')!.id, { pinned: true });
+
+    expect(repo.clearEntries('budget-1')).toBe(1);
+    expect(repo.getAllCachedPayees('budget-1').map((cached) => cached.payeeNameOriginal)).toEqual([
+      'Gas Station',
+    ]);
+    expect(repo.getAllCachedPayees('budget-2')).toHaveLength(1);
+
+    expect(repo.clearEntries('budget-1', { includePinned: true })).toBe(1);
+    expect(repo.getAllCachedPayees('budget-1')).toHaveLength(0);
+  });
+
+  it('should clear only the requested source', () => {
+    repo.save(entry());
+    repo.save(entry({ payeeName: 'Gas Station', source: 'user_approved' }));
+
+    expect(repo.clearEntries('budget-1', { source: 'user_approved' })).toBe(1);
+    expect(findEntry('budget-1', 'Coffee Shop')).toBeDefined();
+  });
+
+  it('should search payee and category names with pinned entries first', () => {
+    repo.save(entry());
+    repo.save(entry({ payeeName: 'Coffee Roasters', categoryName: 'Groceries' }));
+    repo.save(entry({ payeeName: 'Gas Station', categoryId: 'cat-fuel', categoryName: 'Fuel' }));
+    repo.update(findEntry('budget-1', 'Coffee Roasters')!.id, { pinned: true });
+
+    const byPayee = repo.search('budget-1', { search: 'coffee', limit: 10, offset: 0 });
+    const byCategory = repo.search('budget-1', { search: 'FUEL', limit: 10, offset: 0 });
+    const firstPage = repo.search('budget-1', { limit: 1, offset: 0 });
+
+    expect(byPayee.entries.map((cached) => cached.payeeNameOriginal)).toEqual([
+      'Coffee Roasters',
+      'Coffee Shop',
+    ]);
+    expect(byCategory.entries.map((cached) => cached.payeeNameOriginal)).toEqual(['Gas Station']);
+    expect(firstPage).toMatchObject({
+      total: 3,
+      entries: [{ payeeNameOriginal: 'Coffee Roasters' }],
+    });
+  });
+});
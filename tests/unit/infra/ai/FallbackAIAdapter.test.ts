@@ -0,0 +1,231 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FallbackAIAdapter,
+  computeRetryDelayMs,
+  parseRetryAfter,
+} from '../../../../src/infra/ai/FallbackAIAdapter.js';
+import { CircuitBreaker } from '../../../../src/infra/ai/CircuitBreaker.js';
+import { AIError } from '../../../../src/domain/errors.js';
+import type { AIAdapter, CompletionResult } from '../../../../src/infra/ai/AIAdapter.js';
+
+vi.mock('../../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const retry = { maxAttempts: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+const circuit = { failureThreshold: 2, resetTimeoutMs: 60000 };
+
+function httpError(status: number, headers: Record<string, string> = {}): AIError {
+  return new AIError('Completion failed', 'test', {
+    error: Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) }),
+  });
+}
+
+function answer(backend: string, content: string): CompletionResult {
+  return {
+    content,
+    backend,
+    usage: {
+      backendId: backend,
+      model: 'test-model',
+      promptTokens: 10,
+      completionTokens: 5,
+      latencyMs: 1,
+    },
+  };
+}
+
+function createMockAdapter(name: string, completion: AIAdapter['completion']): AIAdapter {
+  return {
+    completion: vi.fn(completion),
+    isConfigured: () => true,
+    getCapabilities: () => ({
+      supportsWebSearch: false,
+      supportsStructuredOutput: true,
+      supportsStreaming: true,
+    }),
+    getBackendName: () => name,
+    getBackendId: () => name,
+  };
+}
+
+describe('FallbackAIAdapter', () => {
+  it('should retry rate-limited requests honouring Retry-After', async () => {
+    const sleep = vi.fn(async () => {});
+    const primary = createMockAdapter('primary', vi.fn());
+    vi.mocked(primary.completion)
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0.5' }))
+      .mockResolvedValueOnce(answer('primary', 'ok'));
+
+    const chain = new FallbackAIAdapter([primary], retry, circuit, sleep);
+    const result = await chain.completion({ input: 'hi' });
+
+    expect(result).toEqual(answer('primary', 'ok'));
+    expect(sleep).toHaveBeenCalledWith(500);
+  });
+
+  it('should move to the next backend after retries are exhausted', async () => {
+    const sleep = vi.fn(async () => {});
+    const primary = createMockAdapter('primary', async () => {
+      throw httpError(503);
+    });
+    const secondary = createMockAdapter('secondary', async () =>
+      answer('secondary', 'from secondary')
+    );
+
+    const chain = new FallbackAIAdapter([primary, secondary], retry, circuit, sleep);
+    const result = await chain.completion({ input: 'hi' });
+
+    expect(result.backend).toBe('secondary');
+    expect(primary.completion).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(100);
+  });
+
+  it('should try the requested backend first with its model override', async () => {
+    const primary = createMockAdapter('primary', async () => answer('primary', 'from primary'));
+    const secondary = createMockAdapter('secondary', async () =>
+      answer('secondary', 'from secondary')
+    );
+
+    const chain = new FallbackAIAdapter([primary, secondary], retry, circuit, async () => {});
+    const result = await chain.completion({
+      input: 'hi',
+      backend: 'secondary',
+      model: 'small-model',
+    });
+
+    expect(result.backend).toBe('secondary');
+    expect(secondary.completion).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'small-model' })
+    );
+    expect(primary.completion).not.toHaveBeenCalled();
+  });
+
+  it('should not retry errors that are not transient', async () => {
+    const sleep = vi.fn(async () => {});
+    const primary = createMockAdapter('primary', async () => {
+      throw httpError(400);
+    });
+    const secondary = createMockAdapter('secondary', async () => answer('secondary', 'ok'));
+
+    const chain = new FallbackAIAdapter([primary, secondary], retry, circuit, sleep);
+    await chain.completion({ input: 'hi' });
+
+    expect(primary.completion).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(chain.getHealth()[0].state).toBe('closed');
+  });
+
+  it('should skip a backend whose circuit is open and report when none are available', async () => {
+    const primary = createMockAdapter('primary', async () => {
+      throw httpError(500);
+    });
+
+    const chain = new FallbackAIAdapter([primary], retry, circuit, async () => {});
+    await expect(chain.completion({ input: 'a' })).rejects.toThrow(AIError);
+    await expect(chain.completion({ input: 'b' })).rejects.toThrow(AIError);
+
+    expect(chain.isAvailable()).toBe(false);
+    await expect(chain.completion({ input: 'c' })).rejects.toThrow(AIError);
+    expect(primary.completion).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after the threshold and allow a trial after the reset timeout', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(circuit, () => now);
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 60000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 120000;
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let only one of several concurrent requests try a half-open circuit', async () => {
+    let now = 0;
+    const chain = new FallbackAIAdapter(
+      [
+        createMockAdapter('primary', async () => {
+          if (now < 60000) {
+            throw httpError(503);
+          }
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return answer('primary', 'recovered');
+        }),
+        createMockAdapter('secondary', async () => answer('secondary', 'fallback')),
+      ],
+      { ...retry, maxAttempts: 1 },
+      circuit,
+      async () => {},
+      () => now
+    );
+    await chain.completion({ input: 'a' });
+    await chain.completion({ input: 'b' });
+
+    now = 60000;
+    const results = await Promise.all(['c', 'd', 'e'].map((input) => chain.completion({ input })));
+
+    expect(results.map((result) => result.content)).toEqual(['recovered', 'fallback', 'fallback']);
+    expect(chain.getHealth()[0].state).toBe('closed');
+  });
+
+  it('should hand the trial to the next caller once it is released', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(circuit, () => now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 60000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.releaseTrial();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+  });
+
+  it('should stay open for at least the Retry-After duration', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(circuit, () => now);
+
+    breaker.recordFailure(120000);
+    now = 90000;
+    expect(breaker.canRequest()).toBe(false);
+    now = 120000;
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
+
+describe('retry helpers', () => {
+  it('should back off exponentially up to the maximum delay', () => {
+    expect(computeRetryDelayMs(0, null, retry)).toBe(100);
+    expect(computeRetryDelayMs(2, null, retry)).toBe(400);
+    expect(computeRetryDelayMs(5, null, retry)).toBe(1000);
+    expect(computeRetryDelayMs(0, 250, retry)).toBe(250);
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
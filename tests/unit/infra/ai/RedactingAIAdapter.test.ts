@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RedactingAIAdapter } from '../../../../src/infra/ai/RedactingAIAdapter.js';
+import { runWithAICallContext } from '../../../../src/infra/ai/aiCallContext.js';
+import {
+  REDACTION_DETECTORS,
+  buildRedactionRules,
+} from '../../../../src/domain/entities/Redaction.js';
+import type { AIAdapter } from '../../../../src/infra/ai/AIAdapter.js';
+
+vi.mock('../../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function createInner(content: string): AIAdapter {
+  return {
+    completion: vi.fn(async () => ({
+      content,
+      backend: 'OpenAI',
+      usage: {
+        backendId: 'openai',
+        model: 'gpt-4o-mini',
+        promptTokens: 10,
+        completionTokens: 5,
+        latencyMs: 100,
+      },
+    })),
+    isConfigured: () => true,
+    getCapabilities: () => ({
+      supportsWebSearch: true,
+      supportsStructuredOutput: true,
+      supportsStreaming: true,
+    }),
+    getBackendName: () => 'OpenAI',
+    getBackendId: () => 'openai',
+  };
+}
+
+const rules = buildRedactionRules([...REDACTION_DETECTORS], {});
+
+describe('RedactingAIAdapter', () => {
+  it('should send only placeholders and restore them in the response', async () => {
+    const inner = createInner('{"canonicalPayeeName": "Zelle to [NAME_1]"}');
+    const requestLog = { save: vi.fn() };
+    const adapter = new RedactingAIAdapter(inner, rules, requestLog);
+
+    const result = await adapter.completion({
+      instructions: 'Identify the payee',
+      input: 'Payee: ZELLE TO JOHN SMITH XXXX1234',
+      task: 'payee_identification',
+    });
+
+    expect(vi.mocked(inner.completion).mock.calls[0][0].input).toBe(
+      'Payee: ZELLE TO [NAME_1] [CARD_1]'
+    );
+    expect(result.content).toBe('{"canonicalPayeeName": "Zelle to JOHN SMITH"}');
+  });
+
+  it('should log the redacted text against the job', async () => {
+    const requestLog = { save: vi.fn() };
+    const adapter = new RedactingAIAdapter(createInner('{}'), rules, requestLog);
+
+    await runWithAICallContext({ jobId: 'job-1' }, () =>
+      adapter.completion({ input: 'VENMO *JANE DOE', budgetId: 'budget-1' })
+    );
+
+    expect(requestLog.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        jobId: 'job-1',
+        budgetId: 'budget-1',
+        instructions: null,
+        input: 'VENMO *[NAME_1]',
+        redactions: { NAME: 1 },
+      })
+    );
+    expect(JSON.stringify(requestLog.save.mock.calls[0][0])).not.toContain('JANE');
+  });
+
+  it('should keep a JSON response valid when a restored value has quotes or backslashes', async () => {
+    const inner = createInner('```json\n{"canonicalPayeeName": "[NICKNAME_1] Diner"}\n```');
+    const adapter = new RedactingAIAdapter(
+      inner,
+      buildRedactionRules([], { NICKNAME: '"[^"]+"' }),
+      { save: vi.fn() }
+    );
+
+    const result = await adapter.completion({ input: 'Payee: "Joe\\Jo" Diner' });
+
+    expect(JSON.parse(result.content.replace(/```(?:json)?/g, ''))).toEqual({
+      canonicalPayeeName: '"Joe\\Jo" Diner',
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { RecordingAIAdapter } from '../../../../src/infra/ai/RecordingAIAdapter.js';
+import { ReplayAIAdapter } from '../../../../src/infra/ai/ReplayAIAdapter.js';
+import { computeFixtureKey } from '../../../../src/infra/ai/aiFixtures.js';
+import { AIError } from '../../../../src/domain/errors.js';
+import type { AIAdapter, CompletionOptions } from '../../../../src/infra/ai/AIAdapter.js';
+
+vi.mock('../../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const capabilities = {
+  supportsWebSearch: true,
+  supportsStructuredOutput: true,
+  supportsStreaming: true,
+};
+
+const request: CompletionOptions = {
+  instructions: 'Identify the merchant.',
+  input: 'AMZN MKTP US*2K4',
+  task: 'payee_identification',
+  budgetId: 'budget-1',
+  jsonSchema: {
+    name: 'payee_identification',
+    schema: { type: 'object', properties: { payeeName: { type: 'string' } } },
+  },
+};
+
+function createLiveAdapter(): AIAdapter {
+  return {
+    completion: vi.fn(async () => ({
+      content: '{"payeeName":"Amazon"}',
+      backend: 'OpenAI',
+      usage: {
+        backendId: 'openai',
+        model: 'gpt-4o-mini',
+        promptTokens: 80,
+        completionTokens: 12,
+        latencyMs: 700,
+      },
+    })),
+    isConfigured: () => true,
+    getCapabilities: () => capabilities,
+    getBackendName: () => 'OpenAI',
+    getBackendId: () => 'openai',
+  };
+}
+
+describe('computeFixtureKey', () => {
+  it('should depend only on what the model sees', () => {
+    const key = computeFixtureKey(request);
+
+    expect(computeFixtureKey({ ...request, budgetId: 'other', model: 'gpt-4o' })).toBe(key);
+    expect(
+      computeFixtureKey({
+        ...request,
+        jsonSchema: {
+          schema: { properties: { payeeName: { type: 'string' } }, type: 'object' },
+          name: 'payee_identification',
+        },
+      })
+    ).toBe(key);
+    expect(computeFixtureKey({ ...request, input: 'AMZN MKTP US*9Z1' })).not.toBe(key);
+  });
+});
+
+describe('RecordingAIAdapter and ReplayAIAdapter', () => {
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    fixtureDir = await mkdtemp(path.join(tmpdir(), 'ai-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('should replay a recorded answer without calling a backend', async () => {
+    const recorder = new RecordingAIAdapter(createLiveAdapter(), fixtureDir);
+    await recorder.completion(request);
+    expect(await readdir(fixtureDir)).toEqual([`${computeFixtureKey(request)}.json`]);
+
+    const replay = new ReplayAIAdapter(fixtureDir, { backendId: 'openai', capabilities });
+    const result = await replay.completion(request);
+
+    expect(result.content).toBe('{"payeeName":"Amazon"}');
+    expect(result.usage).toMatchObject({ model: 'gpt-4o-mini', promptTokens: 0 });
+  });
+
+  it('should fail requests that were never recorded', async () => {
+    const replay = new ReplayAIAdapter(fixtureDir, { backendId: 'openai', capabilities });
+
+    await expect(replay.completion({ ...request, input: 'UNKNOWN' })).rejects.toThrow(AIError);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UsageTrackingAIAdapter } from '../../../../src/infra/ai/UsageTrackingAIAdapter.js';
+import { runWithAICallContext } from '../../../../src/infra/ai/aiCallContext.js';
+import { AIError } from '../../../../src/domain/errors.js';
+import type { AIAdapter } from '../../../../src/infra/ai/AIAdapter.js';
+
+vi.mock('../../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const usage = {
+  backendId: 'openai',
+  model: 'gpt-4o-mini',
+  promptTokens: 120,
+  completionTokens: 30,
+  latencyMs: 400,
+};
+
+function createInner(): AIAdapter {
+  return {
+    completion: vi.fn(async () => ({ content: '{}', backend: 'OpenAI', usage })),
+    isConfigured: () => true,
+    getCapabilities: () => ({
+      supportsWebSearch: true,
+      supportsStructuredOutput: true,
+      supportsStreaming: true,
+    }),
+    getBackendName: () => 'OpenAI',
+    getBackendId: () => 'openai',
+  };
+}
+
+describe('UsageTrackingAIAdapter', () => {
+  it('should record usage against the job the call runs for', async () => {
+    const recorder = { record: vi.fn(), isCapReached: () => false };
+    const adapter = new UsageTrackingAIAdapter(createInner(), recorder);
+
+    await runWithAICallContext({ jobId: 'job-1' }, () =>
+      adapter.completion({ input: 'hi', task: 'payee_identification', budgetId: 'budget-1' })
+    );
+    await adapter.completion({ input: 'outside a job' });
+
+    expect(recorder.record).toHaveBeenNthCalledWith(1, usage, {
+      jobId: 'job-1',
+      budgetId: 'budget-1',
+      task: 'payee_identification',
+    });
+    expect(recorder.record).toHaveBeenNthCalledWith(2, usage, {
+      jobId: null,
+      budgetId: null,
+      task: null,
+    });
+  });
+
+  it('should refuse calls and report unavailable once the cap is reached', async () => {
+    const inner = createInner();
+    const recorder = { record: vi.fn(), isCapReached: () => true };
+    const adapter = new UsageTrackingAIAdapter(inner, recorder);
+
+    expect(adapter.isAvailable()).toBe(false);
+    await expect(adapter.completion({ input: 'hi' })).rejects.toThrow(AIError);
+    expect(inner.completion).not.toHaveBeenCalled();
+  });
+
+  it('should return the answer even when recording fails', async () => {
+    const recorder = {
+      record: vi.fn(() => {
+        throw new Error('disk full');
+      }),
+      isCapReached: () => false,
+    };
+    const adapter = new UsageTrackingAIAdapter(createInner(), recorder);
+
+    await expect(adapter.completion({ input: 'hi' })).resolves.toMatchObject({ content: '{}' });
+  });
+});
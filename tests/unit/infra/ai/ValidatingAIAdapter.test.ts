@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ValidatingAIAdapter } from '../../../../src/infra/ai/ValidatingAIAdapter.js';
+import { AIResponseValidationError } from '../../../../src/domain/errors.js';
+import type { AIAdapter } from '../../../../src/infra/ai/AIAdapter.js';
+
+vi.mock('../../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const responseSchema = z.object({
+  categoryId: z.enum(['cat-groceries', 'cat-dining']).nullable(),
+  confidence: z.number().min(0).max(1),
+});
+
+function createInner(...contents: string[]): AIAdapter {
+  const completion = vi.fn();
+  for (const content of contents) {
+    completion.mockResolvedValueOnce({
+      content,
+      backend: 'Ollama',
+      usage: {
+        backendId: 'openai_compatible',
+        model: 'llama3.1',
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: 0,
+      },
+    });
+  }
+  return {
+    completion,
+    isConfigured: () => true,
+    getCapabilities: () => ({
+      supportsWebSearch: false,
+      supportsStructuredOutput: false,
+      supportsStreaming: false,
+    }),
+    getBackendName: () => 'Ollama',
+    getBackendId: () => 'openai_compatible',
+  };
+}
+
+describe('ValidatingAIAdapter', () => {
+  it('should send invalid responses back with their issues until they validate', async () => {
+    const inner = createInner(
+      '{"categoryId": "cat-made-up", "confidence": 0.9}',
+      '{"categoryId": "cat-groceries", "confidence": 0.9}'
+    );
+    const recorder = { recordValidation: vi.fn() };
+    const adapter = new ValidatingAIAdapter(inner, 2, recorder);
+
+    const result = await adapter.completion({
+      input: 'Payee: Trader Joes',
+      task: 'category_suggestion',
+      responseSchema,
+    });
+
+    expect(JSON.parse(result.content)).toEqual({ categoryId: 'cat-groceries', confidence: 0.9 });
+    const repairInput = vi.mocked(inner.completion).mock.calls[1][0].input;
+    expect(repairInput).toContain('Payee: Trader Joes');
+    expect(repairInput).toContain('"cat-made-up"');
+    expect(repairInput).toMatch(/- categoryId: .+/);
+    expect(recorder.recordValidation).toHaveBeenCalledWith({
+      backend: 'openai_compatible',
+      task: 'category_suggestion',
+      outcome: 'repaired',
+      attempts: 2,
+      issues: [expect.stringMatching(/^categoryId: /)],
+    });
+  });
+
+  it('should fail after the allowed repair attempts', async () => {
+    const inner = createInner('not json', '{"categoryId": null}', '{"categoryId": null}');
+    const recorder = { recordValidation: vi.fn() };
+    const adapter = new ValidatingAIAdapter(inner, 2, recorder);
+
+    await expect(adapter.completion({ input: 'hi', responseSchema })).rejects.toThrow(
+      AIResponseValidationError
+    );
+    expect(inner.completion).toHaveBeenCalledTimes(3);
+    expect(recorder.recordValidation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: 'failed',
+        attempts: 3,
+        issues: ['Response is not valid JSON'],
+      })
+    );
+  });
+
+  it('should pass calls without a schema through unchecked', async () => {
+    const inner = createInner('plain text');
+    const recorder = { recordValidation: vi.fn() };
+    const adapter = new ValidatingAIAdapter(inner, 2, recorder);
+
+    await expect(adapter.completion({ input: 'hi' })).resolves.toMatchObject({
+      content: 'plain text',
+    });
+    expect(recorder.recordValidation).not.toHaveBeenCalled();
+  });
+});
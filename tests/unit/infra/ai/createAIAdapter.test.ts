@@ -21,10 +21,24 @@ function createMockEnv(overrides: Partial<Env> = {}): Env {
     ACTUAL_PASSWORD: 'test-password',
     ACTUAL_BUDGET_ID: '00000000-0000-0000-0000-000000000000',
     AI_BACKEND: 'openai',
+    AI_FALLBACK_BACKENDS: [],
+    AI_MODEL_ROUTES: {},
+    AI_MODEL_PRICES: {},
+    AI_FIXTURE_MODE: 'off',
+    AI_FIXTURE_DIR: './data/ai-fixtures',
+    AI_RETRY_MAX_ATTEMPTS: 3,
+    AI_RETRY_BASE_DELAY_MS: 1000,
+    AI_RETRY_MAX_DELAY_MS: 30000,
+    AI_CIRCUIT_FAILURE_THRESHOLD: 3,
+    AI_CIRCUIT_RESET_SECONDS: 60,
     OPENAI_API_KEY: undefined,
     OPENAI_MODEL: 'gpt-4o-mini',
     GOOGLE_AI_API_KEY: undefined,
     GOOGLE_AI_MODEL: 'gemini-2.0-flash',
+    OPENAI_COMPATIBLE_BASE_URL: undefined,
+    OPENAI_COMPATIBLE_MODEL: 'llama3.1',
+    OPENAI_COMPATIBLE_API_KEY: undefined,
+    OPENAI_COMPATIBLE_STRUCTURED_OUTPUT: false,
     DATA_DIR: './data',
     SQLITE_DB_PATH: './data/test.db',
     LOG_LEVEL: 'info',
@@ -132,4 +146,69 @@ describe('createAIAdapter', () => {
     expect(capabilities.supportsStructuredOutput).toBe(true);
     expect(capabilities.supportsStreaming).toBe(true);
   });
+
+  it('should return OpenAICompatibleAdapter when AI_BACKEND=openai_compatible and configured', () => {
+    const env = createMockEnv({
+      AI_BACKEND: 'openai_compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+    });
+
+    const adapter = createAIAdapter(env);
+
+    expect(adapter.getBackendName()).toBe('OpenAI-compatible');
+    expect(adapter.isConfigured()).toBe(true);
+  });
+
+  it('should fall back to OpenAI when AI_BACKEND=openai_compatible but no base URL is set', () => {
+    const env = createMockEnv({
+      AI_BACKEND: 'openai_compatible',
+      OPENAI_API_KEY: 'sk-test-key',
+    });
+
+    const adapter = createAIAdapter(env);
+
+    expect(adapter.getBackendName()).toBe('OpenAI');
+    expect(adapter.isConfigured()).toBe(true);
+  });
+
+  it('should report structured output for OpenAI-compatible servers only when enabled', () => {
+    const env = createMockEnv({
+      AI_BACKEND: 'openai_compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+    });
+
+    const capabilities = createAIAdapter(env).getCapabilities();
+    expect(capabilities.supportsWebSearch).toBe(false);
+    expect(capabilities.supportsStructuredOutput).toBe(false);
+
+    const structured = createAIAdapter({ ...env, OPENAI_COMPATIBLE_STRUCTURED_OUTPUT: true });
+    expect(structured.getCapabilities().supportsStructuredOutput).toBe(true);
+  });
+
+  it('should chain configured fallback backends after the primary', () => {
+    const env = createMockEnv({
+      AI_BACKEND: 'openai',
+      AI_FALLBACK_BACKENDS: ['google', 'openai_compatible'],
+      OPENAI_API_KEY: 'sk-test-key',
+      GOOGLE_AI_API_KEY: 'test-google-key',
+    });
+
+    const adapter = createAIAdapter(env);
+
+    // The local backend has no base URL, so it is left out of the chain
+    expect(adapter.getBackendName()).toBe('OpenAI → Google AI (Gemini)');
+    expect(adapter.isConfigured()).toBe(true);
+    expect(adapter.getCapabilities().supportsWebSearch).toBe(true);
+  });
+
+  it('should replay fixtures with the configured backend capabilities and no API key', () => {
+    const adapter = createAIAdapter(
+      createMockEnv({ AI_BACKEND: 'google', AI_FIXTURE_MODE: 'replay' })
+    );
+
+    expect(adapter.isConfigured()).toBe(true);
+    expect(adapter.getBackendName()).toBe('Replay (recorded fixtures)');
+    expect(adapter.getBackendId()).toBe('openai');
+    expect(adapter.getCapabilities().supportsWebSearch).toBe(true);
+  });
 });
@@ -0,0 +1,86 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { JobScheduler } from '../../../src/scheduler/JobScheduler.js';
+import { createJob } from '../../../src/domain/entities/Job.js';
+import {
+  createJobSchedule,
+  createJobScheduleRun,
+  type JobSchedule,
+} from '../../../src/domain/entities/JobSchedule.js';
+import { ConflictError } from '../../../src/domain/errors.js';
+import type { JobOrchestrator } from '../../../src/services/JobOrchestrator.js';
+import type { JobScheduleService } from '../../../src/services/JobScheduleService.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+/** Schedules kept in memory; recordRun returns the run it would store */
+function createScheduleServiceFake(schedule: JobSchedule) {
+  return {
+    getSchedule: () => schedule,
+    findSchedule: () => schedule,
+    listEnabledSchedules: () => [],
+    onChange: () => () => undefined,
+    setNextRun: vi.fn(),
+    recordRun: vi.fn((scheduleId: string, params: Parameters<JobScheduleService['recordRun']>[1]) =>
+      createJobScheduleRun({ scheduleId, ...params })
+    ),
+  } as unknown as JobScheduleService;
+}
+
+const schedule = createJobSchedule({
+  budgetId: 'budget-1',
+  name: 'Weekly duplicate payees',
+  cronExpression: '0 3 * * 1',
+  jobType: 'payees_merge_suggestions_generate',
+  options: { useAI: true, minScore: 0.8 },
+  quietHoursStart: '00:00',
+  quietHoursEnd: '23:59',
+});
+
+const schedulers: JobScheduler[] = [];
+
+afterEach(() => {
+  schedulers.splice(0).forEach((scheduler) => scheduler.stop());
+});
+
+describe('JobScheduler.runNow', () => {
+  it('should queue the job with the schedule options and link the run to it', () => {
+    const job = createJob({ id: 'job-1', budgetId: 'budget-1', type: schedule.jobType });
+    const startScheduledJob = vi.fn(() => ({ job }));
+    const scheduler = new JobScheduler(createScheduleServiceFake(schedule), {
+      startScheduledJob,
+    } as unknown as JobOrchestrator);
+    schedulers.push(scheduler);
+
+    const run = scheduler.runNow(schedule.id);
+
+    expect(startScheduledJob).toHaveBeenCalledWith({
+      budgetId: 'budget-1',
+      type: 'payees_merge_suggestions_generate',
+      options: { useAI: true, minScore: 0.8 },
+      scheduleId: schedule.id,
+    });
+    expect(run).toMatchObject({ status: 'started', jobId: 'job-1', manual: true });
+  });
+
+  it('should record a skipped run when the budget is busy', () => {
+    const scheduler = new JobScheduler(createScheduleServiceFake(schedule), {
+      startScheduledJob: () => {
+        throw new ConflictError('A budget_sync job (job-9) is already running for this budget');
+      },
+    } as unknown as JobOrchestrator);
+    schedulers.push(scheduler);
+
+    expect(scheduler.runNow(schedule.id)).toMatchObject({
+      status: 'skipped',
+      jobId: null,
+      message: 'A budget_sync job (job-9) is already running for this budget',
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CacheService } from '../../../src/services/CacheService.js';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors.js';
+import type { ActualBudgetAdapter } from '../../../src/infra/ActualBudgetAdapter.js';
+import type { AuditRepository } from '../../../src/infra/repositories/AuditRepository.js';
+import type {
+  PayeeCacheEntry,
+  PayeeCacheRepository,
+} from '../../../src/infra/repositories/PayeeCacheRepository.js';
+import type {
+  PayeeMatchCacheEntry,
+  PayeeMatchCacheRepository,
+} from '../../../src/infra/repositories/PayeeMatchCacheRepository.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function categoryEntry(overrides: Partial<PayeeCacheEntry> = {}): PayeeCacheEntry {
+  return {
+    id: 1,
+    budgetId: 'budget-1',
+    payeeName: 'coffee shop',
+    payeeNameOriginal: 'Coffee Shop',
+    categoryId: 'cat-dining',
+    categoryName: 'Dining',
+    confidence: 0.9,
+    source: 'high_confidence_ai',
+    hitCount: 3,
+    pinned: false,
+    lastUsedAt: null,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/** Both caches kept in memory with the calls the service makes */
+function createCacheService(entries: PayeeCacheEntry[] = [categoryEntry()]) {
+  const categoryCache = new Map(entries.map((entry) => [entry.id, entry]));
+  const payeeCache = {
+    findById: (id: number) => categoryCache.get(id) ?? null,
+    update: vi.fn((id: number, changes: Partial<PayeeCacheEntry>) => {
+      const defined = Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      );
+      categoryCache.set(id, { ...(categoryCache.get(id) as PayeeCacheEntry), ...defined });
+    }),
+    search: vi.fn(() => ({ entries: [...categoryCache.values()], total: categoryCache.size })),
+    getStats: () => ({ totalEntries: categoryCache.size, totalHits: 0 }),
+    clearEntries: vi.fn(() => 2),
+  };
+  const payeeMatchCache = {
+    findById: (id: number): PayeeMatchCacheEntry | null =>
+      id === 7
+        ? ({
+            id: 7,
+            budgetId: 'budget-1',
+            rawPayeeNameOriginal: 'AMZN MKTP',
+            canonicalPayeeId: null,
+            canonicalPayeeName: 'Amazon',
+            source: 'fuzzy_match',
+            pinned: false,
+          } as PayeeMatchCacheEntry)
+        : null,
+    update: vi.fn(),
+    clearEntries: vi.fn(() => 0),
+  };
+  const actualBudget = {
+    getCategories: async () => [
+      { id: 'cat-dining', name: 'Dining' },
+      { id: 'cat-groceries', name: 'Groceries' },
+    ],
+    getPayees: async () => [{ id: 'payee-amazon', name: 'Amazon.com' }],
+  };
+  const auditRepo = { log: vi.fn() };
+
+  const service = new CacheService(
+    payeeCache as unknown as PayeeCacheRepository,
+    payeeMatchCache as unknown as PayeeMatchCacheRepository,
+    actualBudget as unknown as ActualBudgetAdapter,
+    auditRepo as unknown as AuditRepository
+  );
+  return { service, payeeCache, payeeMatchCache, auditRepo };
+}
+
+describe('CacheService category entries', () => {
+  it('should store a manual correction as a user approval and audit the previous value', async () => {
+    const { service, auditRepo } = createCacheService();
+
+    const updated = await service.updateCategoryEntry(1, { categoryId: 'cat-groceries' });
+
+    expect(updated).toMatchObject({
+      categoryId: 'cat-groceries',
+      categoryName: 'Groceries',
+      confidence: 1,
+      source: 'user_approved',
+      pinned: false,
+    });
+    expect(auditRepo.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventType: 'cache_entry_updated',
+        metadata: expect.objectContaining({
+          previousCategoryName: 'Dining',
+          previousSource: 'high_confidence_ai',
+          categoryName: 'Groceries',
+        }),
+      })
+    );
+  });
+
+  it('should pin an entry without changing its category', async () => {
+    const { service, payeeCache } = createCacheService();
+
+    const updated = await service.updateCategoryEntry(1, { pinned: true });
+
+    expect(payeeCache.update).toHaveBeenCalledWith(1, { pinned: true });
+    expect(updated).toMatchObject({
+      categoryId: 'cat-dining',
+      source: 'high_confidence_ai',
+      pinned: true,
+    });
+  });
+
+  it('should refuse categories that are not in the budget', async () => {
+    const { service, payeeCache } = createCacheService();
+
+    await expect(service.updateCategoryEntry(1, { categoryId: 'cat-missing' })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(service.updateCategoryEntry(1, { pinned: 'yes' })).rejects.toThrow(
+      'pinned must be a boolean'
+    );
+    await expect(service.updateCategoryEntry(99, { pinned: true })).rejects.toThrow(NotFoundError);
+    expect(payeeCache.update).not.toHaveBeenCalled();
+  });
+
+  it('should clear one budget and keep pinned entries by default', () => {
+    const { service, payeeCache, auditRepo } = createCacheService();
+
+    expect(service.clearCategoryEntries('budget-1', {})).toBe(2);
+    service.clearCategoryEntries('budget-1', { source: 'user_approved', includePinned: true });
+
+    expect(payeeCache.clearEntries.mock.calls).toEqual([
+      ['budget-1', { source: undefined, includePinned: false }],
+      ['budget-1', { source: 'user_approved', includePinned: true }],
+    ]);
+    expect(auditRepo.log).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'cache_cleared', entityId: 'budget-1' })
+    );
+    expect(() => service.clearCategoryEntries('budget-1', { source: 'fuzzy_match' })).toThrow(
+      'source must be one of: user_approved, high_confidence_ai'
+    );
+  });
+
+  it('should validate paging before searching', () => {
+    const { service, payeeCache } = createCacheService();
+
+    const page = service.listCategoryEntries('budget-1', { search: '  coffee ', limit: '20' });
+
+    expect(payeeCache.search).toHaveBeenCalledWith('budget-1', {
+      search: 'coffee',
+      limit: 20,
+      offset: 0,
+      source: undefined,
+    });
+    expect(page.stats).toEqual({ totalEntries: 1, totalHits: 0 });
+    expect(() => service.listCategoryEntries('budget-1', { limit: 501 })).toThrow(
+      'limit must be an integer between 1 and 500'
+    );
+  });
+});
+
+describe('CacheService payee match entries', () => {
+  it('should point an entry at an existing payee as a user approval', async () => {
+    const { service, payeeMatchCache } = createCacheService();
+
+    await service.updatePayeeMatchEntry(7, { canonicalPayeeId: 'payee-amazon', pinned: true });
+
+    expect(payeeMatchCache.update).toHaveBeenCalledWith(7, {
+      canonicalPayeeId: 'payee-amazon',
+      canonicalPayeeName: 'Amazon.com',
+      confidence: 1,
+      source: 'user_approved',
+      pinned: true,
+    });
+  });
+
+  it('should accept a new payee name and refuse unknown payees', async () => {
+    const { service, payeeMatchCache } = createCacheService();
+
+    await service.updatePayeeMatchEntry(7, { canonicalPayeeName: '  Amazon  ' });
+    await expect(
+      service.updatePayeeMatchEntry(7, { canonicalPayeeId: 'payee-missing' })
+    ).rejects.toThrow('Unknown payee: payee-missing');
+
+    expect(payeeMatchCache.update).toHaveBeenCalledTimes(1);
+    expect(payeeMatchCache.update).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ canonicalPayeeId: null, canonicalPayeeName: 'Amazon' })
+    );
+  });
+});
@@ -0,0 +1,324 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { JobOrchestrator } from '../../../src/services/JobOrchestrator.js';
+import {
+  createJob,
+  type CancellationToken,
+  type Job,
+  type JobCheckpoint,
+  type JobRetryPolicy,
+  type JobType,
+} from '../../../src/domain/entities/Job.js';
+import type { JobService } from '../../../src/services/JobService.js';
+import type { SuggestionService } from '../../../src/services/SuggestionService.js';
+import type { SyncService } from '../../../src/services/SyncService.js';
+import type { SnapshotService } from '../../../src/services/SnapshotService.js';
+import type { PayeeMergeService } from '../../../src/services/PayeeMergeService.js';
+import type { Suggestion } from '../../../src/domain/entities/Suggestion.js';
+import { ValidationError } from '../../../src/domain/errors.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+/** Job lifecycle kept in memory, with only the transitions the orchestrator uses */
+function createJobServiceFake() {
+  const jobs = new Map<string, Job>();
+  let nextId = 1;
+  const update = (jobId: string, patch: Partial<Job>) => {
+    jobs.set(jobId, { ...(jobs.get(jobId) as Job), ...patch });
+  };
+
+  const fake = {
+    createJob: (params: {
+      budgetId: string;
+      type: Job['type'];
+      metadata?: Record<string, unknown>;
+      parentJobId?: string;
+    }) => {
+      const job = createJob({ id: `job-${nextId++}`, ...params });
+      jobs.set(job.id, job);
+      return job;
+    },
+    getJob: (jobId: string) => jobs.get(jobId) as Job,
+    listJobSteps: () => [],
+    listJobsByStatus: (status: Job['status']) =>
+      [...jobs.values()].filter((job) => job.status === status),
+    mergeJobMetadata: (jobId: string, patch: Record<string, unknown>) =>
+      update(jobId, { metadata: { ...(jobs.get(jobId)?.metadata ?? {}), ...patch } }),
+    markJobRunning: (jobId: string) => update(jobId, { status: 'running' }),
+    requeueJob: (jobId: string) => update(jobId, { status: 'queued' }),
+    isBlockedByRunningJob: () => false,
+    markJobFailedIfActive: (jobId: string, reason: string) => {
+      update(jobId, { status: 'failed', failureReason: reason });
+      return true;
+    },
+    markJobSucceeded: (jobId: string) => update(jobId, { status: 'succeeded' }),
+    markJobFailed: (jobId: string, reason: string) =>
+      update(jobId, { status: 'failed', failureReason: reason }),
+    markJobCanceled: (jobId: string, reason?: string | null) =>
+      update(jobId, { status: 'canceled', failureReason: reason ?? null }),
+  };
+  return { fake: fake as unknown as JobService, jobs };
+}
+
+const orchestrators: JobOrchestrator[] = [];
+
+function createOrchestrator(
+  suggestionService: Partial<SuggestionService>,
+  existingJobs?: Job[],
+  syncService: Partial<SyncService> = {},
+  retryPolicies?: Partial<Record<JobType, JobRetryPolicy>>
+) {
+  const { fake: jobService, jobs } = createJobServiceFake();
+  for (const job of existingJobs ?? []) jobs.set(job.id, job);
+  const orchestrator = new JobOrchestrator(
+    jobService,
+    syncService as SyncService,
+    {
+      startCountingAIBackends: () => undefined,
+      stopCountingAIBackends: () => ({}),
+      ...suggestionService,
+    } as SuggestionService,
+    {} as SnapshotService,
+    {} as PayeeMergeService,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    retryPolicies
+  );
+  orchestrator.start();
+  orchestrators.push(orchestrator);
+  return { jobService, orchestrator };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+afterEach(() => {
+  orchestrators.splice(0).forEach((orchestrator) => orchestrator.stop());
+});
+
+describe('JobOrchestrator.cancelJob', () => {
+  it('should never start a job canceled while queued', async () => {
+    const generateSuggestions = vi.fn(async () => [] as Suggestion[]);
+    const { jobService, orchestrator } = createOrchestrator({ generateSuggestions });
+
+    const { job } = orchestrator.startSuggestionsGenerateJob({ budgetId: 'budget-1' });
+    orchestrator.cancelJob(job.id);
+    await flush();
+
+    expect(generateSuggestions).not.toHaveBeenCalled();
+    expect(jobService.getJob(job.id).status).toBe('canceled');
+  });
+
+  it('should stop running work at its checkpoint and record what it finished', async () => {
+    let release: () => void = () => {};
+    const generateSuggestions = vi.fn(
+      async (_budgetId: string, _useAI?: boolean, cancellation?: CancellationToken) => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return cancellation?.isCanceled ? ([{}] as Suggestion[]) : ([{}, {}] as Suggestion[]);
+      }
+    );
+    const { jobService, orchestrator } = createOrchestrator({ generateSuggestions });
+
+    const { job } = orchestrator.startSuggestionsGenerateJob({ budgetId: 'budget-1' });
+    await flush();
+    expect(orchestrator.cancelJob(job.id).metadata?.cancelRequestedAt).toBeDefined();
+
+    release();
+    await flush();
+
+    const canceled = jobService.getJob(job.id);
+    expect(canceled.status).toBe('canceled');
+    expect(canceled.metadata?.completedBeforeCancel).toEqual({ suggestionsCreated: 1 });
+  });
+
+  it('should refuse to cancel a finished job', async () => {
+    const { orchestrator } = createOrchestrator({ generateSuggestions: async () => [] });
+
+    const { job } = orchestrator.startSuggestionsGenerateJob({ budgetId: 'budget-1' });
+    await flush();
+    await flush();
+
+    expect(() => orchestrator.cancelJob(job.id)).toThrow('Job is already succeeded');
+  });
+});
+
+describe('JobOrchestrator restart recovery', () => {
+  it('should resume an interrupted generation job and skip the payees it already finished', async () => {
+    let checkpoint: JobCheckpoint | undefined;
+    const generateSuggestions = vi.fn(
+      async (
+        _budgetId: string,
+        _useAI?: boolean,
+        _cancellation?: CancellationToken,
+        received?: JobCheckpoint
+      ) => {
+        checkpoint = received;
+        received?.markDone('Grocer');
+        return [] as Suggestion[];
+      }
+    );
+    const interrupted: Job = {
+      ...createJob({
+        id: 'job-interrupted',
+        budgetId: 'budget-1',
+        type: 'suggestions_generate',
+        metadata: { useAI: true, checkpoint: ['Coffee Shop'] },
+      }),
+      status: 'running',
+    };
+
+    const { jobService } = createOrchestrator({ generateSuggestions }, [interrupted]);
+    await flush();
+    await flush();
+
+    expect(generateSuggestions).toHaveBeenCalledWith(
+      'budget-1',
+      true,
+      expect.anything(),
+      expect.anything()
+    );
+    expect(checkpoint?.isDone('Coffee Shop')).toBe(true);
+    expect(checkpoint?.isDone('Gas Station')).toBe(false);
+    const resumed = jobService.getJob('job-interrupted');
+    expect(resumed.status).toBe('succeeded');
+    expect(resumed.metadata?.checkpoint).toEqual(['Coffee Shop', 'Grocer']);
+  });
+});
+
+describe('JobOrchestrator retries', () => {
+  it('should queue the work of a failed job again, linked to it', async () => {
+    const failed: Job = {
+      ...createJob({
+        id: 'job-failed',
+        budgetId: 'budget-1',
+        type: 'suggestions_backtest',
+        metadata: { sampleSize: 50, useAI: true, aiBackends: { openai: 3 } },
+      }),
+      status: 'failed',
+    };
+    const runBacktest = vi.fn(async () => undefined);
+    const { orchestrator } = createOrchestrator({ runBacktest }, [failed]);
+
+    const { job } = orchestrator.retryJob('job-failed');
+
+    expect(job).toMatchObject({
+      type: 'suggestions_backtest',
+      parentJobId: 'job-failed',
+      metadata: { sampleSize: 50, useAI: true },
+    });
+    await flush();
+    expect(runBacktest).toHaveBeenCalledWith('budget-1', {
+      sampleSize: 50,
+      useAI: true,
+      jobId: job.id,
+    });
+  });
+
+  it('should schedule a delayed retry when a sync fails with a transient error', async () => {
+    const syncBudget = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValue(undefined);
+    const { jobService, orchestrator } = createOrchestrator({}, [], { syncBudget });
+
+    const { job } = orchestrator.startBudgetSyncJob('budget-1');
+    await flush();
+    await flush();
+
+    expect(jobService.getJob(job.id).status).toBe('failed');
+    const [retry] = jobService.listJobsByStatus('queued');
+    expect(retry).toMatchObject({ parentJobId: job.id, metadata: { attempt: 2 } });
+    expect(new Date(String(retry.metadata?.runAfter)).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should replace a waiting automatic retry when the job is retried by hand', async () => {
+    const syncBudget = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValue(undefined);
+    const { jobService, orchestrator } = createOrchestrator({}, [], { syncBudget });
+
+    const { job } = orchestrator.startBudgetSyncJob('budget-1');
+    await flush();
+    await flush();
+    const [automatic] = jobService.listJobsByStatus('queued');
+
+    const { job: manual } = orchestrator.retryJob(job.id);
+    await flush();
+    await flush();
+
+    expect(jobService.getJob(automatic.id)).toMatchObject({
+      status: 'canceled',
+      failureReason: 'Replaced by a manual retry',
+    });
+    expect(jobService.getJob(manual.id).status).toBe('succeeded');
+    expect(jobService.listJobsByStatus('queued')).toHaveLength(0);
+    expect(syncBudget).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not skip payees of a failed attempt in its automatic retry', async () => {
+    const checkpoints: Array<JobCheckpoint | undefined> = [];
+    const generateSuggestions = vi.fn(
+      async (
+        _budgetId: string,
+        _useAI?: boolean,
+        _cancellation?: CancellationToken,
+        checkpoint?: JobCheckpoint
+      ) => {
+        checkpoints.push(checkpoint);
+        if (checkpoints.length === 1) {
+          checkpoint?.markDone('Coffee Shop');
+          throw new Error('connect ECONNREFUSED');
+        }
+        return [] as Suggestion[];
+      }
+    );
+    const { jobService, orchestrator } = createOrchestrator(
+      { generateSuggestions },
+      [],
+      {},
+      {
+        suggestions_generate: { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 },
+      }
+    );
+
+    const { job } = orchestrator.startSuggestionsGenerateJob({ budgetId: 'budget-1' });
+    for (let i = 0; i < 4; i += 1) await flush();
+
+    // A new Coffee Shop transaction synced before the retry must still get a suggestion
+    expect(jobService.getJob(job.id).metadata?.checkpoint).toEqual(['Coffee Shop']);
+    expect(generateSuggestions).toHaveBeenCalledTimes(2);
+    expect(checkpoints[1]?.isDone('Coffee Shop')).toBe(false);
+  });
+
+  it('should not retry failures caused by bad input', async () => {
+    const syncBudget = vi.fn().mockRejectedValue(new ValidationError('Budget is not loaded'));
+    const { jobService, orchestrator } = createOrchestrator({}, [], { syncBudget });
+
+    orchestrator.startBudgetSyncJob('budget-1');
+    await flush();
+    await flush();
+
+    expect(jobService.listJobsByStatus('queued')).toHaveLength(0);
+  });
+
+  it('should refuse to retry a job that is still running', async () => {
+    const { orchestrator } = createOrchestrator({
+      generateSuggestions: () => new Promise<Suggestion[]>(() => {}),
+    });
+
+    const { job } = orchestrator.startSuggestionsGenerateJob({ budgetId: 'budget-1' });
+    await flush();
+
+    expect(() => orchestrator.retryJob(job.id)).toThrow(
+      'Only failed or canceled jobs can be retried; this job is running'
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JobService } from '../../../src/services/JobService.js';
+import { ConflictError } from '../../../src/domain/errors.js';
+import type { Job } from '../../../src/domain/entities/Job.js';
+import type { JobRepository } from '../../../src/infra/repositories/JobRepository.js';
+import type { JobStepRepository } from '../../../src/infra/repositories/JobStepRepository.js';
+import type { JobEventRepository } from '../../../src/infra/repositories/JobEventRepository.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+/** Jobs table kept in memory, with the queries job creation makes */
+function createJobService() {
+  const jobs = new Map<string, Job>();
+  const jobRepo = {
+    create: (job: Job) => jobs.set(job.id, job),
+    getById: (jobId: string) => jobs.get(jobId) ?? null,
+    listActiveByBudget: (budgetId: string) =>
+      [...jobs.values()].filter(
+        (job) => job.budgetId === budgetId && (job.status === 'queued' || job.status === 'running')
+      ),
+    updateMetadata: (jobId: string, metadata: Record<string, unknown>) => {
+      jobs.set(jobId, { ...(jobs.get(jobId) as Job), metadata });
+    },
+    updateStatus: (params: { jobId: string; status: Job['status'] }) => {
+      jobs.set(params.jobId, { ...(jobs.get(params.jobId) as Job), status: params.status });
+    },
+  };
+  return new JobService(
+    jobRepo as unknown as JobRepository,
+    {} as JobStepRepository,
+    { record: vi.fn() } as unknown as JobEventRepository
+  );
+}
+
+describe('JobService job locks', () => {
+  it('should hand back the queued job for an identical request', () => {
+    const jobService = createJobService();
+
+    const first = jobService.createJob({
+      budgetId: 'budget-1',
+      type: 'suggestions_generate',
+      metadata: { useAI: true },
+    });
+    const second = jobService.createJob({
+      budgetId: 'budget-1',
+      type: 'suggestions_generate',
+      metadata: { useAI: true },
+    });
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it('should refuse a job that needs a lock held by an active job of the budget', () => {
+    const jobService = createJobService();
+    const sync = jobService.createJob({ budgetId: 'budget-1', type: 'budget_sync' });
+    jobService.markJobRunning(sync.id);
+
+    let error: unknown;
+    try {
+      jobService.createJob({
+        budgetId: 'budget-1',
+        type: 'suggestions_apply',
+        metadata: { suggestionIds: ['s-1'] },
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).toMatchObject({
+      statusCode: 409,
+      details: { jobId: sync.id, jobType: 'budget_sync', jobStatus: 'running', lock: 'budget' },
+    });
+  });
+
+  it('should not let a retry waiting for its time hold the budget lock', () => {
+    const jobService = createJobService();
+    const retry = jobService.createJob({
+      budgetId: 'budget-1',
+      type: 'budget_sync',
+      metadata: { attempt: 2 },
+    });
+    jobService.mergeJobMetadata(retry.id, {
+      runAfter: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+    });
+
+    const apply = jobService.createJob({
+      budgetId: 'budget-1',
+      type: 'suggestions_apply',
+      metadata: { suggestionIds: ['s-1'] },
+    });
+
+    expect(apply.status).toBe('queued');
+    expect(jobService.isBlockedByRunningJob(retry)).toBe(false);
+    jobService.markJobRunning(apply.id);
+    expect(jobService.isBlockedByRunningJob(retry)).toBe(true);
+  });
+
+  it('should let jobs without a shared lock run alongside each other', () => {
+    const jobService = createJobService();
+    jobService.markJobRunning(
+      jobService.createJob({ budgetId: 'budget-1', type: 'budget_sync' }).id
+    );
+
+    expect(() =>
+      jobService.createJob({
+        budgetId: 'budget-1',
+        type: 'suggestions_backtest',
+        metadata: { sampleSize: 50 },
+      })
+    ).not.toThrow();
+    expect(() => jobService.createJob({ budgetId: 'budget-2', type: 'budget_sync' })).not.toThrow();
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { JobWorker } from '../../../src/services/JobWorker.js';
+import {
+  createJob,
+  findSharedLock,
+  type Job,
+  type JobType,
+} from '../../../src/domain/entities/Job.js';
+import type { JobService } from '../../../src/services/JobService.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+/** Jobs table kept in memory, with the calls the worker makes */
+function createJobServiceFake(initial: Job[]) {
+  const jobs = new Map(initial.map((job) => [job.id, job]));
+  const update = (jobId: string, patch: Partial<Job>) => {
+    jobs.set(jobId, { ...(jobs.get(jobId) as Job), ...patch });
+  };
+
+  const fake = {
+    getJob: (jobId: string) => jobs.get(jobId) as Job,
+    listJobsByStatus: (status: Job['status']) =>
+      [...jobs.values()].filter((job) => job.status === status),
+    markJobRunning: (jobId: string) => update(jobId, { status: 'running' }),
+    markJobSucceeded: (jobId: string) => update(jobId, { status: 'succeeded' }),
+    requeueJob: (jobId: string) => update(jobId, { status: 'queued' }),
+    isBlockedByRunningJob: (queued: Job) =>
+      [...jobs.values()].some(
+        (other) =>
+          other.id !== queued.id &&
+          other.budgetId === queued.budgetId &&
+          other.status === 'running' &&
+          !!findSharedLock(queued.type, other)
+      ),
+    markJobFailedIfActive: (jobId: string, reason: string) => {
+      update(jobId, { status: 'failed', failureReason: reason });
+      return true;
+    },
+  };
+  return fake as unknown as JobService;
+}
+
+function job(id: string, type: JobType, status: Job['status'] = 'queued'): Job {
+  return { ...createJob({ id, budgetId: 'budget-1', type }), status };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+let worker: JobWorker | null = null;
+
+afterEach(() => {
+  worker?.stop();
+  worker = null;
+});
+
+describe('JobWorker', () => {
+  it('should run no more jobs of a type at once than its concurrency limit', async () => {
+    const jobService = createJobServiceFake([
+      job('sync-1', 'budget_sync'),
+      job('sync-2', 'budget_sync'),
+      job('backtest-1', 'suggestions_backtest'),
+    ]);
+    const releases: Array<() => void> = [];
+    const run = vi.fn((_claimed: Job) => new Promise<void>((resolve) => releases.push(resolve)));
+
+    worker = new JobWorker(jobService, { defaultConcurrency: 1 });
+    worker.start({ types: ['budget_sync', 'suggestions_backtest'], run });
+    await flush();
+
+    expect(run.mock.calls.map(([claimed]) => claimed.id)).toEqual(['sync-1', 'backtest-1']);
+    expect(jobService.getJob('sync-2').status).toBe('queued');
+
+    jobService.markJobSucceeded('sync-1');
+    releases[0]();
+    await flush();
+    await flush();
+
+    expect(run.mock.calls.map(([claimed]) => claimed.id)).toContain('sync-2');
+  });
+
+  it('should hold back a due retry while a running job of the budget has its lock', async () => {
+    const jobService = createJobServiceFake([
+      job('apply-1', 'suggestions_apply'),
+      job('sync-1', 'budget_sync'),
+    ]);
+    const run = vi.fn(async () => {});
+
+    worker = new JobWorker(jobService, { pollIntervalMs: 10 });
+    worker.start({ types: ['budget_sync'], run });
+    jobService.markJobRunning('apply-1');
+    await flush();
+
+    expect(run).not.toHaveBeenCalled();
+
+    jobService.markJobSucceeded('apply-1');
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(run.mock.calls.map(([claimed]) => claimed.id)).toEqual(['sync-1']);
+  });
+
+  it('should requeue interrupted jobs it can resume and fail the rest', async () => {
+    const jobService = createJobServiceFake([
+      job('generate-1', 'suggestions_generate', 'running'),
+      job('merge-1', 'payees_merge', 'running'),
+    ]);
+    const run = vi.fn(async () => {});
+
+    worker = new JobWorker(jobService);
+    worker.start({ types: ['suggestions_generate'], run });
+
+    expect(jobService.getJob('generate-1').status).toBe('queued');
+    expect(jobService.getJob('merge-1')).toMatchObject({
+      status: 'failed',
+      failureReason: 'Interrupted by server restart',
+    });
+
+    await flush();
+    expect(run).toHaveBeenCalledWith(expect.objectContaining({ id: 'generate-1' }));
+  });
+
+  it('should fail queued jobs that only their request would have started', async () => {
+    const jobService = createJobServiceFake([
+      job('templates-1', 'templates_apply'),
+      job('generate-1', 'suggestions_generate'),
+    ]);
+    const run = vi.fn(async () => {});
+
+    worker = new JobWorker(jobService);
+    worker.start({ types: ['suggestions_generate'], run });
+
+    expect(jobService.getJob('templates-1')).toMatchObject({
+      status: 'failed',
+      failureReason: 'Interrupted by server restart',
+    });
+    expect(jobService.getJob('generate-1').status).toBe('queued');
+
+    await flush();
+    expect(run.mock.calls.map(([claimed]) => claimed.id)).toEqual(['generate-1']);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RecurringPaymentService } from '../../../src/services/RecurringPaymentService.js';
+import { ConflictError } from '../../../src/domain/errors.js';
+import type { RecurringPayment } from '../../../src/domain/entities/RecurringPayment.js';
+import type {
+  ActualBudgetAdapter,
+  BudgetSchedule,
+} from '../../../src/infra/ActualBudgetAdapter.js';
+import type { AuditRepository } from '../../../src/infra/repositories/AuditRepository.js';
+import type { RecurringPaymentRepository } from '../../../src/infra/repositories/RecurringPaymentRepository.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const payment: RecurringPayment = {
+  id: 'payment-1',
+  budgetId: 'budget-1',
+  payeeId: 'payee-netflix',
+  payeeName: 'Netflix',
+  accountId: 'checking',
+  accountName: 'Checking',
+  cadence: 'monthly',
+  occurrences: 4,
+  minAmount: 1599,
+  maxAmount: 1599,
+  lastAmount: 1599,
+  previousAmount: 1599,
+  priceIncrease: false,
+  lastDate: '2026-10-03',
+  nextExpectedDate: '2026-11-03',
+  status: 'active',
+  scheduleId: null,
+  detectedAt: '2026-10-19T00:00:00.000Z',
+};
+
+function schedule(name: string | null, completed = true): BudgetSchedule {
+  return { id: `schedule-${name}`, name, payeeId: 'payee-netflix', completed };
+}
+
+function createService(
+  schedules: BudgetSchedule[],
+  createSchedule: ActualBudgetAdapter['createSchedule'] = async () => 'schedule-new'
+) {
+  const actualBudget = {
+    getSchedules: async () => schedules,
+    createSchedule: vi.fn(createSchedule),
+    sync: vi.fn(async () => undefined),
+  };
+  const recurringRepo = {
+    findById: (id: string) => (id === payment.id ? payment : null),
+    updateScheduleId: vi.fn(),
+  };
+  const service = new RecurringPaymentService(
+    actualBudget as unknown as ActualBudgetAdapter,
+    recurringRepo as unknown as RecurringPaymentRepository,
+    { log: vi.fn() } as unknown as AuditRepository
+  );
+  return { service, actualBudget, recurringRepo };
+}
+
+describe('RecurringPaymentService.createSchedule', () => {
+  it('should name the schedule after the payee', async () => {
+    const { service, actualBudget, recurringRepo } = createService([schedule(null, false)]);
+
+    const created = await service.createSchedule('payment-1');
+
+    expect(actualBudget.createSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Netflix', amount: -1599, startDate: '2026-11-03' })
+    );
+    expect(recurringRepo.updateScheduleId).toHaveBeenCalledWith('payment-1', 'schedule-new');
+    expect(created.scheduleId).toBe('schedule-new');
+  });
+
+  it('should number the name when a completed schedule of a cancelled subscription has it', async () => {
+    const { service, actualBudget } = createService([schedule('Netflix'), schedule('netflix (2)')]);
+
+    await service.createSchedule('payment-1');
+
+    expect(actualBudget.createSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Netflix (3)' })
+    );
+  });
+
+  it('should report a name taken in the meantime as a conflict', async () => {
+    const { service, actualBudget, recurringRepo } = createService([], async (params) => {
+      throw new ConflictError(`A schedule named ${params.name} already exists`);
+    });
+
+    await expect(service.createSchedule('payment-1')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'CONFLICT',
+    });
+    expect(actualBudget.sync).not.toHaveBeenCalled();
+    expect(recurringRepo.updateScheduleId).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { SuggestionService } from '../../../src/services/SuggestionService.js';
+import { RecordingAIAdapter } from '../../../src/infra/ai/RecordingAIAdapter.js';
+import { ReplayAIAdapter } from '../../../src/infra/ai/ReplayAIAdapter.js';
+import { runWithAICallContext } from '../../../src/infra/ai/aiCallContext.js';
+import type { AIAdapter, CompletionOptions } from '../../../src/infra/ai/AIAdapter.js';
+import type { ActualBudgetAdapter } from '../../../src/infra/ActualBudgetAdapter.js';
+import type { AuditRepository } from '../../../src/infra/repositories/AuditRepository.js';
+import type { SuggestionRepository } from '../../../src/infra/repositories/SuggestionRepository.js';
+import type { PayeeCacheRepository } from '../../../src/infra/repositories/PayeeCacheRepository.js';
+import type { PayeeMatchCacheRepository } from '../../../src/infra/repositories/PayeeMatchCacheRepository.js';
+import type { JobCheckpoint } from '../../../src/domain/entities/Job.js';
+import type { Category, Transaction } from '../../../src/domain/entities/BudgetSnapshot.js';
+import type { Suggestion } from '../../../src/domain/entities/Suggestion.js';
+
+vi.mock('../../../src/infra/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const capabilities = {
+  supportsWebSearch: true,
+  supportsStructuredOutput: true,
+  supportsStreaming: true,
+};
+
+const categories: Category[] = [
+  {
+    id: 'cat-streaming',
+    name: 'Streaming',
+    groupId: 'grp-fun',
+    groupName: 'Fun',
+    isIncome: false,
+    hidden: false,
+  },
+  {
+    id: 'cat-groceries',
+    name: 'Groceries',
+    groupId: 'grp-food',
+    groupName: 'Food',
+    isIncome: false,
+    hidden: false,
+  },
+];
+
+function uncategorized(id: string, payeeName: string, amount: number): Transaction {
+  return {
+    id,
+    accountId: 'checking',
+    accountName: 'Checking',
+    date: '2026-10-01',
+    payeeId: null,
+    payeeName,
+    notes: null,
+    categoryId: null,
+    categoryName: null,
+    amount,
+    cleared: true,
+    isTransfer: false,
+  };
+}
+
+const transactions = [
+  uncategorized('txn-1', 'NETFLIX.COM 866-579-7172', -1599),
+  uncategorized('txn-2', 'NETFLIX.COM 866-579-7172', -1599),
+  uncategorized('txn-3', 'TRADER JOES #552', -4312),
+];
+
+/** Backend answering each prompt by task, as a live model would */
+function createLiveAdapter(): AIAdapter {
+  const answers: Record<string, (options: CompletionOptions) => unknown> = {
+    payee_identification: (options) =>
+      options.input.includes('NETFLIX')
+        ? { canonicalPayeeName: 'Netflix', confidence: 0.95, reasoning: 'Streaming service' }
+        : { canonicalPayeeName: "Trader Joe's", confidence: 0.9, reasoning: 'Grocery chain' },
+    category_suggestion: (options) =>
+      options.input.includes('Netflix')
+        ? {
+            categoryId: 'cat-streaming',
+            categoryName: 'Streaming',
+            confidence: 0.92,
+            reasoning: 'Video subscription',
+          }
+        : {
+            categoryId: 'cat-groceries',
+            categoryName: 'Groceries',
+            confidence: 0.88,
+            reasoning: 'Supermarket',
+          },
+  };
+
+  return {
+    completion: vi.fn(async (options: CompletionOptions) => ({
+      content: JSON.stringify(answers[options.task ?? '']?.(options) ?? {}),
+      backend: 'OpenAI',
+      usage: {
+        backendId: 'openai',
+        model: 'gpt-4o-mini',
+        promptTokens: 120,
+        completionTokens: 30,
+        latencyMs: 800,
+      },
+    })),
+    isConfigured: () => true,
+    getCapabilities: () => capabilities,
+    getBackendName: () => 'OpenAI',
+    getBackendId: () => 'openai',
+  };
+}
+
+/** Payee match and category caches that start empty and record what is written */
+function createCaches() {
+  const payeeCache = {
+    findByPayees: () => new Map(),
+    findByPayee: () => null,
+    getAllCachedPayees: () => [],
+    saveBatch: vi.fn(),
+  };
+  const payeeMatchCache = {
+    findByPayee: () => null,
+    saveBatch: vi.fn(),
+  };
+  return { payeeCache, payeeMatchCache };
+}
+
+function createSuggestionService(ai: AIAdapter, caches?: ReturnType<typeof createCaches>) {
+  const saved = new Map<string, Suggestion>();
+  const actualBudget = {
+    getTransactions: async () => transactions,
+    getCategories: async () => categories,
+    getCategorizedPayees: async () => [],
+  };
+  const suggestionRepo = {
+    findByBudgetId: () => [...saved.values()],
+    cleanupOrphanedSuggestions: () => 0,
+    cleanupResolvedSuggestions: () => [],
+    getExistingPendingTransactionIds: () => new Set<string>(),
+    save: (suggestion: Suggestion) => saved.set(suggestion.id, suggestion),
+  };
+
+  return new SuggestionService(
+    actualBudget as unknown as ActualBudgetAdapter,
+    ai,
+    suggestionRepo as unknown as SuggestionRepository,
+    { log: vi.fn() } as unknown as AuditRepository,
+    caches?.payeeCache as unknown as PayeeCacheRepository,
+    caches?.payeeMatchCache as unknown as PayeeMatchCacheRepository
+  );
+}
+
+/** What a suggestion proposes, leaving out ids, timestamps and the answering backend */
+function proposals(suggestions: Suggestion[]) {
+  return suggestions.map((suggestion) => ({
+    transactionId: suggestion.transactionId,
+    payee: suggestion.payeeSuggestion.proposedPayeeName,
+    payeeConfidence: suggestion.payeeSuggestion.confidence,
+    categoryId: suggestion.categorySuggestion.proposedCategoryId,
+    categoryConfidence: suggestion.categorySuggestion.confidence,
+  }));
+}
+
+describe('SuggestionService with recorded AI fixtures', () => {
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    fixtureDir = await mkdtemp(path.join(tmpdir(), 'ai-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  it('should generate the recorded suggestions again without calling a backend', async () => {
+    const live = createLiveAdapter();
+    const recorded = await createSuggestionService(
+      new RecordingAIAdapter(live, fixtureDir)
+    ).generateSuggestions('budget-1', true);
+    const liveCalls = vi.mocked(live.completion).mock.calls.length;
+
+    const replayed = await createSuggestionService(
+      new ReplayAIAdapter(fixtureDir, { backendId: 'openai', capabilities })
+    ).generateSuggestions('budget-1', true);
+
+    expect(liveCalls).toBe(4);
+    expect(await readdir(fixtureDir)).toHaveLength(liveCalls);
+    expect(vi.mocked(live.completion)).toHaveBeenCalledTimes(liveCalls);
+    expect(proposals(replayed)).toEqual(proposals(recorded));
+    expect(proposals(replayed)).toEqual([
+      {
+        transactionId: 'txn-1',
+        payee: 'Netflix',
+        payeeConfidence: 0.95,
+        categoryId: 'cat-streaming',
+        categoryConfidence: 0.92,
+      },
+      {
+        transactionId: 'txn-2',
+        payee: 'Netflix',
+        payeeConfidence: 0.95,
+        categoryId: 'cat-streaming',
+        categoryConfidence: 0.92,
+      },
+      {
+        transactionId: 'txn-3',
+        payee: "Trader Joe's",
+        payeeConfidence: 0.9,
+        categoryId: 'cat-groceries',
+        categoryConfidence: 0.88,
+      },
+    ]);
+  });
+});
+
+describe('SuggestionService AI backend counts', () => {
+  it('should count each overlapping job only for the calls made in its context', async () => {
+    const service = createSuggestionService(createLiveAdapter());
+    service.startCountingAIBackends('job-a');
+    service.startCountingAIBackends('job-b');
+
+    await Promise.all([
+      runWithAICallContext({ jobId: 'job-a' }, () => service.generateSuggestions('budget-1', true)),
+      runWithAICallContext({ jobId: 'job-b' }, () => service.generateSuggestions('budget-1', true)),
+      service.generateSuggestions('budget-1', true),
+    ]);
+
+    expect(service.stopCountingAIBackends('job-a')).toEqual({ OpenAI: 4 });
+    expect(service.stopCountingAIBackends('job-b')).toEqual({ OpenAI: 4 });
+    expect(service.stopCountingAIBackends('job-a')).toEqual({});
+  });
+});
+
+describe('SuggestionService checkpoints', () => {
+  it('should cache the AI answers for a payee before checkpointing it', async () => {
+    const caches = createCaches();
+    const cachedWhenDone = new Map<string, { payees: string[]; categories: string[] }>();
+    const cachedRawPayees = () =>
+      caches.payeeMatchCache.saveBatch.mock.calls.flatMap(([entries]) =>
+        entries.map((entry: { rawPayeeName: string }) => entry.rawPayeeName)
+      );
+    const cachedCategoryPayees = () =>
+      caches.payeeCache.saveBatch.mock.calls.flatMap(([entries]) =>
+        entries.map((entry: { payeeName: string }) => entry.payeeName)
+      );
+    const checkpoint: JobCheckpoint = {
+      isDone: () => false,
+      markDone: (payeeName) =>
+        cachedWhenDone.set(payeeName, {
+          payees: cachedRawPayees(),
+          categories: cachedCategoryPayees(),
+        }),
+    };
+
+    await createSuggestionService(createLiveAdapter(), caches).generateSuggestions(
+      'budget-1',
+      true,
+      undefined,
+      checkpoint
+    );
+
+    // A job resumed after a crash skips checkpointed payees, so their answers must be cached
+    expect(cachedWhenDone.get('NETFLIX.COM 866-579-7172')).toEqual({
+      payees: ['NETFLIX.COM 866-579-7172'],
+      categories: ['Netflix'],
+    });
+    expect(cachedWhenDone.get('TRADER JOES #552')?.payees).toContain('TRADER JOES #552');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  categorySuggestionSchema,
+  fuzzyMatchDisambiguationSchema,
+  payeeClusterSplitSchema,
+} from '../../../src/services/aiResponseSchemas.js';
+import type { Category } from '../../../src/domain/entities/BudgetSnapshot.ts';
+
+const categories: Category[] = [
+  {
+    id: 'cat-groceries',
+    name: 'Groceries',
+    groupId: 'g1',
+    groupName: 'Food',
+    isIncome: false,
+    hidden: false,
+  },
+  { id: 'cat-old', name: 'Old', groupId: 'g1', groupName: 'Food', isIncome: false, hidden: true },
+  {
+    id: 'cat-salary',
+    name: 'Salary',
+    groupId: 'g2',
+    groupName: 'Income',
+    isIncome: true,
+    hidden: false,
+  },
+];
+
+describe('categorySuggestionSchema', () => {
+  it('should only accept categories offered in the prompt', () => {
+    const schema = categorySuggestionSchema(categories);
+    const answer = { categoryName: 'x', confidence: 0.8, reasoning: '' };
+
+    expect(schema.safeParse({ ...answer, categoryId: 'cat-groceries' }).success).toBe(true);
+    expect(schema.safeParse({ ...answer, categoryId: null }).success).toBe(true);
+    for (const categoryId of ['cat-made-up', 'cat-old', 'cat-salary']) {
+      expect(schema.safeParse({ ...answer, categoryId }).success).toBe(false);
+    }
+  });
+
+  it('should take the category name from the budget and treat "" as no category', () => {
+    const schema = categorySuggestionSchema(categories);
+
+    expect(
+      schema.parse({
+        categoryId: 'cat-groceries',
+        categoryName: 'Food & Drink',
+        confidence: 0.8,
+        reasoning: '',
+      }).categoryName
+    ).toBe('Groceries');
+    expect(
+      schema.parse({ categoryId: '', categoryName: '', confidence: 0.1, reasoning: '' })
+    ).toMatchObject({ categoryId: null, categoryName: null });
+  });
+});
+
+describe('exampleIds', () => {
+  it('should only accept ids of the past decisions listed in the prompt', () => {
+    const schema = categorySuggestionSchema(categories, ['E1', 'E2']);
+    const answer = { categoryId: null, categoryName: null, confidence: 0.5, reasoning: '' };
+
+    expect(schema.parse(answer).exampleIds).toEqual([]);
+    expect(schema.safeParse({ ...answer, exampleIds: ['E2'] }).success).toBe(true);
+    expect(schema.safeParse({ ...answer, exampleIds: ['E3'] }).success).toBe(false);
+  });
+});
+
+describe('fuzzyMatchDisambiguationSchema', () => {
+  it('should reject a match index outside the candidate list', () => {
+    const schema = fuzzyMatchDisambiguationSchema(categories, 2);
+    const answer = {
+      canonicalPayeeName: null,
+      payeeConfidence: 0.5,
+      payeeReasoning: '',
+      categoryId: null,
+      categoryName: null,
+      categoryConfidence: 0.5,
+      categoryReasoning: '',
+    };
+
+    expect(schema.safeParse({ ...answer, matchIndex: 2 }).success).toBe(true);
+    expect(schema.safeParse({ ...answer, matchIndex: 3 }).success).toBe(false);
+    expect(schema.safeParse({ ...answer, matchIndex: 0 }).success).toBe(false);
+  });
+});
+
+describe('payeeClusterSplitSchema', () => {
+  it('should require every payee index exactly once', () => {
+    const schema = payeeClusterSplitSchema(3);
+
+    expect(schema.safeParse({ groups: [[0, 2], [1]] }).success).toBe(true);
+    expect(schema.safeParse({ groups: [[0, 1]] }).success).toBe(false);
+    expect(
+      schema.safeParse({
+        groups: [
+          [0, 1],
+          [1, 2],
+        ],
+      }).success
+    ).toBe(false);
+    expect(schema.safeParse({ groups: [[0, 1, 2, 3]] }).success).toBe(false);
+  });
+});